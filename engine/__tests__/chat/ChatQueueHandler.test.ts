@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import { ChatQueueHandler } from '../../src/chat/ChatQueueHandler.js';
+import type { ChatSummarizer } from '../../src/chat/ChatSummarizer.js';
 import type { CommandExecutor } from '../../src/execution/CommandExecutor.js';
 import type { MentionParser } from '../../src/parser/MentionParser.js';
 import type { Logger } from '../../src/logger/Logger.js';
@@ -19,7 +20,7 @@ describe('ChatQueueHandler', () => {
         await vault.create();
 
         mockExecutor = {
-            executeAndReturn: jest.fn(),
+            executeWithFileChanges: jest.fn(),
         } as unknown as jest.Mocked<CommandExecutor>;
 
         mockParser = {
@@ -75,7 +76,7 @@ Previous context here
             writeFileSync(queueFile, content);
 
             // Mock executor
-            mockExecutor.executeAndReturn.mockResolvedValue('AI test response');
+            mockExecutor.executeWithFileChanges.mockResolvedValue({ content: 'AI test response', fileChanges: [] });
 
             // Process
             await handler.process('.spark/chat-queue/conv-123-456.md');
@@ -84,8 +85,8 @@ Previous context here
             expect(mockParser.parse).toHaveBeenCalledWith('@test-agent help me');
 
             // Verify execution
-            expect(mockExecutor.executeAndReturn).toHaveBeenCalled();
-            const callArgs = mockExecutor.executeAndReturn.mock.calls[0];
+            expect(mockExecutor.executeWithFileChanges).toHaveBeenCalled();
+            const callArgs = mockExecutor.executeWithFileChanges.mock.calls[0];
             expect(callArgs).toBeDefined();
             const [command] = callArgs!;
             expect(command.raw).toContain('Previous context here');
@@ -122,12 +123,12 @@ queue_id: conv-123-789
 `;
             writeFileSync(queueFile, content);
 
-            mockExecutor.executeAndReturn.mockResolvedValue('Hello response');
+            mockExecutor.executeWithFileChanges.mockResolvedValue({ content: 'Hello response', fileChanges: [] });
 
             await handler.process('.spark/chat-queue/conv-123-789.md');
 
-            expect(mockExecutor.executeAndReturn).toHaveBeenCalled();
-            const callArgs = mockExecutor.executeAndReturn.mock.calls[0];
+            expect(mockExecutor.executeWithFileChanges).toHaveBeenCalled();
+            const callArgs = mockExecutor.executeWithFileChanges.mock.calls[0];
             expect(callArgs).toBeDefined();
             const [command] = callArgs!;
             expect(command.raw).toBe('@test-agent hello');
@@ -208,7 +209,7 @@ queue_id: conv-789-123
                     position: 0,
                 },
             ]);
-            mockExecutor.executeAndReturn.mockResolvedValue('Custom agent response');
+            mockExecutor.executeWithFileChanges.mockResolvedValue({ content: 'Custom agent response', fileChanges: [] });
 
             await handler.process('.spark/chat-queue/conv-789-123.md');
 
@@ -234,7 +235,7 @@ help me
             writeFileSync(queueFile, content);
 
             mockParser.parse.mockReturnValue([]);
-            mockExecutor.executeAndReturn.mockResolvedValue('Default response');
+            mockExecutor.executeWithFileChanges.mockResolvedValue({ content: 'Default response', fileChanges: [] });
 
             await handler.process('.spark/chat-queue/conv-999-123.md');
 
@@ -262,13 +263,13 @@ what's your name?
 
             // Parser returns no mentions from the user message
             mockParser.parse.mockReturnValue([]);
-            mockExecutor.executeAndReturn.mockResolvedValue('I am Bob');
+            mockExecutor.executeWithFileChanges.mockResolvedValue({ content: 'I am Bob', fileChanges: [] });
 
             await handler.process('.spark/chat-queue/conv-888-123.md');
 
             // Verify primaryAgent was injected into mentions for routing
-            expect(mockExecutor.executeAndReturn).toHaveBeenCalled();
-            const callArgs = mockExecutor.executeAndReturn.mock.calls[0];
+            expect(mockExecutor.executeWithFileChanges).toHaveBeenCalled();
+            const callArgs = mockExecutor.executeWithFileChanges.mock.calls[0];
             expect(callArgs).toBeDefined();
             const [command] = callArgs!;
             expect(command.mentions).toBeDefined();
@@ -312,13 +313,13 @@ primary_agent: bob
                     position: 0,
                 },
             ]);
-            mockExecutor.executeAndReturn.mockResolvedValue('Financial advice from Betty');
+            mockExecutor.executeWithFileChanges.mockResolvedValue({ content: 'Financial advice from Betty', fileChanges: [] });
 
             await handler.process('.spark/chat-queue/conv-777-123.md');
 
             // Verify mentions NOT modified (no injection, explicit mention present)
-            expect(mockExecutor.executeAndReturn).toHaveBeenCalled();
-            const callArgs = mockExecutor.executeAndReturn.mock.calls[0];
+            expect(mockExecutor.executeWithFileChanges).toHaveBeenCalled();
+            const callArgs = mockExecutor.executeWithFileChanges.mock.calls[0];
             expect(callArgs).toBeDefined();
             const [command] = callArgs!;
             expect(command.mentions).toBeDefined();
@@ -331,6 +332,202 @@ primary_agent: bob
             const result = JSON.parse(readFileSync(resultFile, 'utf-8'));
             expect(result.agent).toBe('betty');
         });
+
+        it('should answer with the reply agent and model when regenerating', async () => {
+            const queueDir = join(vault.path, '.spark', 'chat-queue');
+            mkdirSync(queueDir, { recursive: true });
+            writeFileSync(
+                join(queueDir, 'conv-666-123.md'),
+                `---
+conversation_id: conv-666
+queue_id: conv-666-123
+primary_agent: bob
+reply_agent: betty
+reply_model: claude-opus-4-1-20250805
+---
+
+<!-- spark-chat-message -->
+@test-agent plan my week
+<!-- /spark-chat-message -->
+`
+            );
+            mockExecutor.executeWithFileChanges.mockResolvedValue({ content: 'Plan from Betty', fileChanges: [] });
+
+            await handler.process('.spark/chat-queue/conv-666-123.md');
+
+            const [command, , , source, model] = mockExecutor.executeWithFileChanges.mock.calls[0]!;
+            expect(command.mentions?.map((m) => m.value)).toEqual(['betty']);
+            expect(source).toBe('chat');
+            expect(model).toBe('claude-opus-4-1-20250805');
+
+            const resultFile = join(vault.path, '.spark', 'chat-results', 'conv-666.jsonl');
+            const result = JSON.parse(readFileSync(resultFile, 'utf-8'));
+            expect(result.agent).toBe('betty');
+        });
+
+        it('should summarize the older turns before sending the message', async () => {
+            const summarizer = {
+                summarize: jest.fn<ChatSummarizer['summarize']>().mockResolvedValue('New summary'),
+            } as unknown as ChatSummarizer;
+            handler = new ChatQueueHandler(vault.path, mockExecutor, mockParser, mockLogger, undefined, summarizer);
+
+            const queueDir = join(vault.path, '.spark', 'chat-queue');
+            mkdirSync(queueDir, { recursive: true });
+            writeFileSync(
+                join(queueDir, 'conv-999-123.md'),
+                `---
+conversation_id: conv-999
+queue_id: conv-999-123
+summary_through: msg-4
+---
+
+<!-- spark-chat-summary -->
+Old summary
+<!-- /spark-chat-summary -->
+
+<!-- spark-chat-compact -->
+**user**: Older question
+<!-- /spark-chat-compact -->
+
+<!-- spark-chat-context -->
+**user**: Recent question
+<!-- /spark-chat-context -->
+
+<!-- spark-chat-message -->
+@test-agent and now?
+<!-- /spark-chat-message -->
+`
+            );
+            mockExecutor.executeWithFileChanges.mockResolvedValue({ content: 'Answer', fileChanges: [] });
+
+            await handler.process('.spark/chat-queue/conv-999-123.md');
+
+            const [command] = mockExecutor.executeWithFileChanges.mock.calls[0]!;
+            expect(command.raw).toBe(
+                'Summary of earlier messages:\nNew summary\n\n' +
+                    'Context from previous messages:\n**user**: Recent question\n\n' +
+                    '@test-agent and now?'
+            );
+            expect(summarizer.summarize).toHaveBeenCalledWith('Old summary', '**user**: Older question');
+
+            const resultFile = join(vault.path, '.spark', 'chat-results', 'conv-999.jsonl');
+            const lines = readFileSync(resultFile, 'utf-8')
+                .split('\n')
+                .filter((line) => line.trim())
+                .map((line) => JSON.parse(line));
+            expect(lines[0]).toMatchObject({
+                kind: 'summary',
+                summary: { content: 'New summary', throughMessageId: 'msg-4' },
+            });
+            expect(lines[1]).toMatchObject({ content: 'Answer' });
+            expect(lines[1].kind).toBeUndefined();
+        });
+
+        it('should send the older turns in full when summarizing fails', async () => {
+            const summarizer = {
+                summarize: jest.fn<ChatSummarizer['summarize']>().mockResolvedValue(null),
+            } as unknown as ChatSummarizer;
+            handler = new ChatQueueHandler(vault.path, mockExecutor, mockParser, mockLogger, undefined, summarizer);
+
+            const queueDir = join(vault.path, '.spark', 'chat-queue');
+            mkdirSync(queueDir, { recursive: true });
+            writeFileSync(
+                join(queueDir, 'conv-998-123.md'),
+                `---
+conversation_id: conv-998
+queue_id: conv-998-123
+summary_through: msg-4
+---
+
+<!-- spark-chat-compact -->
+**user**: Older question
+<!-- /spark-chat-compact -->
+
+<!-- spark-chat-message -->
+@test-agent and now?
+<!-- /spark-chat-message -->
+`
+            );
+            mockExecutor.executeWithFileChanges.mockResolvedValue({ content: 'Answer', fileChanges: [] });
+
+            await handler.process('.spark/chat-queue/conv-998-123.md');
+
+            const [command] = mockExecutor.executeWithFileChanges.mock.calls[0]!;
+            expect(command.raw).toBe(
+                'Context from previous messages:\n**user**: Older question\n\n@test-agent and now?'
+            );
+        });
+
+        it('should report the files the agent changed with the final result', async () => {
+            const queueDir = join(vault.path, '.spark', 'chat-queue');
+            mkdirSync(queueDir, { recursive: true });
+            writeFileSync(
+                join(queueDir, 'conv-888-123.md'),
+                `---
+conversation_id: conv-888
+queue_id: conv-888-123
+---
+
+<!-- spark-chat-message -->
+@test-agent tidy my note
+<!-- /spark-chat-message -->
+`
+            );
+
+            const fileChanges = [{ path: 'notes/todo.md', before: '- a', after: '- [ ] a' }];
+            mockExecutor.executeWithFileChanges.mockResolvedValue({ content: 'Done', fileChanges });
+
+            await handler.process('.spark/chat-queue/conv-888-123.md');
+
+            const resultFile = join(vault.path, '.spark', 'chat-results', 'conv-888.jsonl');
+            const result = JSON.parse(readFileSync(resultFile, 'utf-8'));
+            expect(result.filesModified).toEqual(['notes/todo.md']);
+            expect(result.fileChanges).toEqual(fileChanges);
+        });
+
+        it('should stream partial responses and replace them with the final result', async () => {
+            const queueDir = join(vault.path, '.spark', 'chat-queue');
+            mkdirSync(queueDir, { recursive: true });
+            writeFileSync(
+                join(queueDir, 'conv-555-123.md'),
+                `---
+conversation_id: conv-555
+queue_id: conv-555-123
+---
+
+<!-- spark-chat-message -->
+@test-agent explain
+<!-- /spark-chat-message -->
+`
+            );
+
+            const resultFile = join(vault.path, '.spark', 'chat-results', 'conv-555.jsonl');
+            const readLines = () =>
+                readFileSync(resultFile, 'utf-8')
+                    .split('\n')
+                    .filter((line) => line.trim())
+                    .map((line) => JSON.parse(line));
+            let partialLines: Array<Record<string, unknown>> = [];
+
+            mockExecutor.executeWithFileChanges.mockImplementation(async (_command, _path, onPartial) => {
+                onPartial?.('First');
+                await new Promise((resolve) => setTimeout(resolve, 20));
+                onPartial?.('First words');
+                await new Promise((resolve) => setTimeout(resolve, 400));
+                partialLines = readLines();
+                return { content: 'First words and the rest', fileChanges: [] };
+            });
+
+            await handler.process('.spark/chat-queue/conv-555-123.md');
+
+            // Only the newest partial is kept while streaming
+            expect(partialLines).toHaveLength(1);
+            expect(partialLines[0]).toMatchObject({ content: 'First words', partial: true });
+
+            const lines = readLines();
+            expect(lines).toHaveLength(1);
+            expect(lines[0].content).toBe('First words and the rest');
+            expect(lines[0].partial).toBeUndefined();
+        });
     });
 });
-
@@ -199,6 +199,18 @@ describe('ConfigValidator', () => {
                 expect(() => validator.validate(config as unknown as SparkConfig)).toThrow(SparkError);
                 expect(() => validator.validate(config as unknown as SparkConfig)).toThrow('Provider');
             });
+
+            it('should throw if ai.retry is invalid', () => {
+                const config = {
+                    ...DEFAULT_SPARK_CONFIG,
+                    ai: {
+                        ...DEFAULT_SPARK_CONFIG.ai,
+                        retry: { enabled: true, max_attempts: 0, backoff_ms: 1000 },
+                    },
+                };
+
+                expect(() => validator.validate(config)).toThrow('ai.retry.max_attempts must be at least 1');
+            });
         });
 
         describe('logging validation', () => {
@@ -484,6 +496,92 @@ describe('ConfigValidator', () => {
                 expect(() => validator.validate(config as unknown as SparkConfig)).not.toThrow();
             });
         });
+
+        describe('mcp validation', () => {
+            const withMcp = (mcp: unknown): SparkConfig =>
+                ({ ...DEFAULT_SPARK_CONFIG, mcp }) as unknown as SparkConfig;
+
+            it('should accept a complete mcp section', () => {
+                const config = withMcp({
+                    servers: {
+                        gmail: {
+                            command: 'npx',
+                            args: ['-y', 'gmail-mcp'],
+                            env: { GMAIL_USER: 'me' },
+                            enabled: true,
+                            allowed_tools: ['search_emails'],
+                        },
+                    },
+                    timeout_ms: 10000,
+                    retry: { enabled: true, max_attempts: 3, backoff_ms: 500 },
+                });
+
+                expect(() => validator.validate(config)).not.toThrow();
+            });
+
+            it('should throw if a server has no command', () => {
+                const config = withMcp({ servers: { gmail: { args: [] } } });
+
+                expect(() => validator.validate(config)).toThrow('mcp.servers.gmail.command is required');
+            });
+
+            it('should throw if allowed_tools is not a string array', () => {
+                const config = withMcp({
+                    servers: { gmail: { command: 'gmail-mcp', allowed_tools: 'send_email' } },
+                });
+
+                expect(() => validator.validate(config)).toThrow(
+                    'mcp.servers.gmail.allowed_tools must be an array of strings'
+                );
+            });
+
+            it('should throw for a non-positive timeout', () => {
+                const config = withMcp({ servers: {}, timeout_ms: 0 });
+
+                expect(() => validator.validate(config)).toThrow('mcp.timeout_ms must be a positive number');
+            });
+
+            it('should throw for invalid retry settings', () => {
+                const config = withMcp({
+                    servers: {},
+                    retry: { enabled: true, max_attempts: 0, backoff_ms: 100 },
+                });
+
+                expect(() => validator.validate(config)).toThrow('mcp.retry.max_attempts must be at least 1');
+            });
+        });
+
+        describe('usage validation', () => {
+            const withUsage = (usage: unknown): SparkConfig =>
+                ({ ...DEFAULT_SPARK_CONFIG, usage }) as unknown as SparkConfig;
+
+            it('should accept prices and monthly limits', () => {
+                const config = withUsage({
+                    prices: { 'llama3.1': { input: 0, output: 0 } },
+                    limits: {
+                        agents: { betty: { monthly_cost_usd: 20 } },
+                        providers: { 'claude-client': { monthly_tokens: 2000000 } },
+                    },
+                });
+
+                expect(() => validator.validate(config)).not.toThrow();
+            });
+
+            it('should throw for a negative limit', () => {
+                const config = withUsage({ limits: { agents: { betty: { monthly_tokens: -1 } } } });
+
+                expect(() => validator.validate(config)).toThrow(
+                    'usage.limits.agents.betty.monthly_tokens must be a non-negative number'
+                );
+            });
+
+            it('should throw for a price without an output rate', () => {
+                const config = withUsage({ prices: { 'gpt-4o': { input: 2.5 } } });
+
+                expect(() => validator.validate(config)).toThrow(
+                    'usage.prices.gpt-4o.output must be a non-negative number'
+                );
+            });
+        });
     });
 });
-
@@ -0,0 +1,129 @@
+import { CommandLoader, renderInstructions } from '../../src/context/CommandLoader.js';
+import { Logger } from '../../src/logger/Logger.js';
+import type { CommandDefinition } from '../../src/types/command.js';
+import { TestVault } from '../utils/TestVault.js';
+
+describe('CommandLoader', () => {
+    let vault: TestVault;
+    let loader: CommandLoader;
+
+    beforeEach(async () => {
+        Logger.resetInstance();
+        Logger.getInstance({ level: 'error', console: false });
+
+        vault = new TestVault();
+        await vault.create();
+        loader = new CommandLoader(vault.root);
+    });
+
+    afterEach(async () => {
+        await vault.cleanup();
+    });
+
+    describe('load', () => {
+        it('should load a command definition with frontmatter options', async () => {
+            await vault.writeFile(
+                '.spark/commands/summarize.md',
+                [
+                    '---',
+                    'id: summarize',
+                    'name: Summarize Document',
+                    'description: Create a concise summary',
+                    'context: folder',
+                    'output: append',
+                    '---',
+                    '',
+                    'Summarize the provided notes.',
+                ].join('\n')
+            );
+
+            const definition = await loader.load('summarize');
+
+            expect(definition).toEqual({
+                id: 'summarize',
+                name: 'Summarize Document',
+                description: 'Create a concise summary',
+                context: 'folder',
+                output: 'append',
+                instructions: 'Summarize the provided notes.',
+                path: vault.getAbsolutePath('.spark/commands/summarize.md'),
+            });
+        });
+
+        it('should default to current_file context and leave output unset', async () => {
+            await vault.writeFile(
+                '.spark/commands/review.md',
+                ['---', 'name: Review', '---', '', 'Review the document.'].join('\n')
+            );
+
+            const definition = await loader.load('review');
+
+            expect(definition?.id).toBe('review');
+            expect(definition?.context).toBe('current_file');
+            expect(definition?.output).toBeUndefined();
+        });
+
+        it('should fall back to defaults for unsupported options', async () => {
+            await vault.writeFile(
+                '.spark/commands/odd.md',
+                ['---', 'context: everything', 'output: email', '---', 'Do it.'].join('\n')
+            );
+
+            const definition = await loader.load('odd');
+
+            expect(definition?.context).toBe('current_file');
+            expect(definition?.output).toBeUndefined();
+        });
+
+        it('should load a command file without frontmatter', async () => {
+            await vault.writeFile('.spark/commands/plain.md', 'Just do the thing.');
+
+            const definition = await loader.load('plain');
+
+            expect(definition?.name).toBe('plain');
+            expect(definition?.instructions).toBe('Just do the thing.');
+        });
+
+        it('should return null for unknown commands', async () => {
+            expect(await loader.load('missing')).toBeNull();
+        });
+
+        it('should return null when the definition has no instructions', async () => {
+            await vault.writeFile('.spark/commands/empty.md', '---\nname: Empty\n---\n');
+
+            expect(await loader.load('empty')).toBeNull();
+        });
+    });
+
+    describe('renderInstructions', () => {
+        const definition: CommandDefinition = {
+            id: 'translate',
+            name: 'Translate',
+            description: '',
+            context: 'selection',
+            output: 'replace',
+            instructions: 'Translate the selection into {{args}}.',
+            path: '/vault/.spark/commands/translate.md',
+        };
+
+        it('should substitute args into the placeholder', () => {
+            expect(renderInstructions(definition, 'French.')).toBe(
+                'Translate the selection into French.'
+            );
+        });
+
+        it('should append args when there is no placeholder', () => {
+            const plain = { ...definition, instructions: 'Summarize the document.' };
+
+            expect(renderInstructions(plain, 'focus on risks.')).toBe(
+                'Summarize the document.\n\nAdditional input: focus on risks'
+            );
+        });
+
+        it('should ignore a bare completion period', () => {
+            const plain = { ...definition, instructions: 'Summarize the document.' };
+
+            expect(renderInstructions(plain, '.')).toBe('Summarize the document.');
+        });
+    });
+});
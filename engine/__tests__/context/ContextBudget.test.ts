@@ -0,0 +1,129 @@
+import {
+    ContextBudget,
+    TRUNCATION_NOTE,
+    estimateTokens,
+    summarize,
+} from '../../src/context/ContextBudget.js';
+import type { LoadedContext } from '../../src/types/context.js';
+
+/** Text of roughly `tokens` tokens */
+const text = (tokens: number, char = 'a') => char.repeat(tokens * 4);
+
+function buildContext(overrides: Partial<LoadedContext> = {}): LoadedContext {
+    return {
+        currentFile: { path: '/vault/current.md', content: text(100) },
+        mentionedFiles: [],
+        nearbyFiles: [],
+        serviceConnections: [],
+        ...overrides,
+    };
+}
+
+describe('ContextBudget', () => {
+    it('should keep everything that fits', () => {
+        const context = buildContext({
+            agent: { path: '/vault/.spark/agents/betty.md', persona: text(50) },
+            mentionedFiles: [{ path: '/vault/a.md', content: text(100), priority: 1.0 }],
+            nearbyFiles: [{ path: '/vault/near.md', summary: text(20), distance: 1 }],
+        });
+
+        const report = new ContextBudget(1000).apply(context);
+
+        expect(report).toEqual({
+            budget: 1000,
+            usedTokens: 270,
+            truncated: [],
+            summarized: [],
+            dropped: [],
+        });
+        expect(context.mentionedFiles).toHaveLength(1);
+        expect(context.nearbyFiles).toHaveLength(1);
+    });
+
+    it('should fill the budget in priority order', () => {
+        const context = buildContext({
+            mentionedFiles: [
+                { path: '/vault/finance/q1.md', content: text(300, 'f'), priority: 0.9 },
+                { path: '/vault/explicit.md', content: text(300, 'e'), priority: 1.0 },
+            ],
+            nearbyFiles: [{ path: '/vault/near.md', summary: text(20), distance: 1 }],
+        });
+
+        const report = new ContextBudget(530).apply(context);
+
+        // Current file (100) and the explicit mention (300) come before folder files
+        expect(context.mentionedFiles[0]?.path).toBe('/vault/explicit.md');
+        expect(context.mentionedFiles[0]?.content).toBe(text(300, 'e'));
+        expect(report.summarized).toEqual(['/vault/finance/q1.md']);
+        expect(context.mentionedFiles[1]?.content).toBe(summarize(text(300, 'f')));
+        expect(report.dropped).toEqual(['/vault/near.md']);
+    });
+
+    it('should truncate an explicit mention that overflows', () => {
+        const context = buildContext({
+            mentionedFiles: [{ path: '/vault/big.md', content: text(5000), priority: 1.0 }],
+        });
+
+        const report = new ContextBudget(1000).apply(context);
+
+        expect(report.truncated).toEqual(['/vault/big.md']);
+        const content = context.mentionedFiles[0]?.content ?? '';
+        expect(content.endsWith(TRUNCATION_NOTE)).toBe(true);
+        expect(estimateTokens(content)).toBeLessThanOrEqual(900);
+        expect(report.usedTokens).toBe(1000);
+    });
+
+    it('should drop folder files once the budget is spent', () => {
+        const context = buildContext({
+            mentionedFiles: [
+                { path: '/vault/notes/a.md', content: text(50), priority: 0.8 },
+                { path: '/vault/notes/b.md', content: text(500), priority: 0.8 },
+            ],
+        });
+
+        const report = new ContextBudget(150).apply(context);
+
+        expect(context.mentionedFiles.map((f) => f.path)).toEqual(['/vault/notes/a.md']);
+        expect(report.dropped).toEqual(['/vault/notes/b.md']);
+    });
+
+    it('should truncate the agent persona and current file first in line', () => {
+        const context = buildContext({
+            agent: { path: '/vault/.spark/agents/betty.md', persona: text(80) },
+            currentFile: { path: '/vault/current.md', content: text(1000) },
+        });
+
+        const report = new ContextBudget(200).apply(context);
+
+        expect(context.agent?.persona).toBe(text(80));
+        expect(report.truncated).toEqual(['/vault/current.md']);
+        expect(context.currentFile.content).toContain(TRUNCATION_NOTE);
+    });
+
+    it('should budget the selection instead of the whole current file', () => {
+        const context = buildContext({
+            currentFile: { path: '/vault/current.md', content: text(5000) },
+            selection: { text: text(10), startLine: 1, endLine: 1 },
+        });
+
+        const report = new ContextBudget(100).apply(context);
+
+        expect(report.truncated).toEqual([]);
+        expect(report.usedTokens).toBe(10);
+    });
+
+    describe('summarize', () => {
+        it('should cut at the last sentence within 500 characters', () => {
+            const content = `${'First sentence. '.repeat(40)}`;
+
+            const summary = summarize(content);
+
+            expect(summary.length).toBeLessThanOrEqual(503);
+            expect(summary.endsWith('....')).toBe(true);
+        });
+
+        it('should return an empty summary for empty content', () => {
+            expect(summarize('')).toBe('');
+        });
+    });
+});
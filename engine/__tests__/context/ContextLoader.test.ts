@@ -1,4 +1,5 @@
 import { ContextLoader } from '../../src/context/ContextLoader.js';
+import { VaultIndex } from '../../src/context/VaultIndex.js';
 import { TestVault } from '../utils/TestVault.js';
 import type { ParsedMention } from '../../src/types/parser.js';
 
@@ -87,4 +88,115 @@ describe('ContextLoader', () => {
             expect(Array.isArray(context.serviceConnections)).toBe(true);
         });
     });
+
+    describe('context scopes', () => {
+        it('should use the block above the command as selection', async () => {
+            await vault.writeFile(
+                'notes/draft.md',
+                ['# Draft', '', 'First paragraph.', '', 'Line one', 'Line two', '', '/polish.'].join('\n')
+            );
+
+            const context = await loader.load(vault.getAbsolutePath('notes/draft.md'), [], {
+                scope: 'selection',
+                commandLine: 8,
+            });
+
+            expect(context.selection).toEqual({
+                text: 'Line one\nLine two',
+                startLine: 5,
+                endLine: 6,
+            });
+            expect(context.nearbyFiles).toHaveLength(0);
+        });
+
+        it('should throw when there is no text above a selection command', async () => {
+            await vault.writeFile('notes/empty.md', '/polish.');
+
+            await expect(
+                loader.load(vault.getAbsolutePath('notes/empty.md'), [], {
+                    scope: 'selection',
+                    commandLine: 1,
+                })
+            ).rejects.toThrow('no text directly above');
+        });
+
+        it('should load every note in the current folder for folder scope', async () => {
+            const context = await loader.load(vault.getAbsolutePath('notes/meeting.md'), [], {
+                scope: 'folder',
+            });
+
+            const paths = context.mentionedFiles.map((f) => f.path);
+            expect(paths).toContain(vault.getAbsolutePath('notes/todo.md'));
+            expect(paths).not.toContain(vault.getAbsolutePath('notes/meeting.md'));
+            expect(context.nearbyFiles).toHaveLength(0);
+        });
+
+        it('should include summaries of all vault notes for vault scope', async () => {
+            for (let i = 0; i < 12; i++) {
+                await vault.writeFile(`archive/note-${i}.md`, `# Note ${i}`);
+            }
+
+            const context = await loader.load(vault.getAbsolutePath('notes/meeting.md'), [], {
+                scope: 'vault',
+            });
+
+            expect(context.nearbyFiles.length).toBeGreaterThan(10);
+        });
+    });
+
+    describe('vault index', () => {
+        let index: VaultIndex;
+
+        beforeEach(async () => {
+            await vault.writeFile(
+                'archive/deep/2023/budget.md',
+                '# Budget\n\nQuarterly revenue forecast and hiring budget.'
+            );
+            await vault.writeFile(
+                'notes/planning.md',
+                '# Planning\n\nRevenue forecast review for the quarterly budget.'
+            );
+            index = new VaultIndex(vault.root);
+            await index.sync();
+            loader = new ContextLoader(vault.root, index);
+        });
+
+        it('should rank relevant notes from other folders as nearby files', async () => {
+            const context = await loader.load(vault.getAbsolutePath('notes/planning.md'), []);
+
+            const paths = context.nearbyFiles.map((f) => f.path);
+            // Ahead of the unrelated notes in the same folder
+            expect(paths[0]).toBe(vault.getAbsolutePath('archive/deep/2023/budget.md'));
+        });
+
+        it('should load matching chunks for a search mention', async () => {
+            const mentions: ParsedMention[] = [
+                {
+                    type: 'search',
+                    raw: '@search:"hiring budget"',
+                    value: 'hiring budget',
+                    position: 0,
+                },
+            ];
+
+            const context = await loader.load(vault.getAbsolutePath('notes/todo.md'), mentions);
+
+            expect(context.mentionedFiles[0]).toMatchObject({
+                path: vault.getAbsolutePath('archive/deep/2023/budget.md'),
+                priority: 1.0,
+            });
+            expect(context.mentionedFiles[0]!.content).toContain('hiring budget');
+        });
+
+        it('should ignore search mentions without an index', async () => {
+            loader = new ContextLoader(vault.root);
+            const mentions: ParsedMention[] = [
+                { type: 'search', raw: '@search:"budget"', value: 'budget', position: 0 },
+            ];
+
+            const context = await loader.load(vault.getAbsolutePath('notes/todo.md'), mentions);
+
+            expect(context.mentionedFiles).toHaveLength(0);
+        });
+    });
 });
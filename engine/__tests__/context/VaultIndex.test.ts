@@ -0,0 +1,132 @@
+import { existsSync, readFileSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import { VaultIndex, chunkMarkdown, tokenize } from '../../src/context/VaultIndex.js';
+import { Logger } from '../../src/logger/Logger.js';
+import { TestVault } from '../utils/TestVault.js';
+
+describe('VaultIndex', () => {
+    let vault: TestVault;
+    let index: VaultIndex;
+
+    beforeEach(async () => {
+        Logger.resetInstance();
+        Logger.getInstance({ level: 'error', console: false });
+
+        vault = new TestVault();
+        await vault.create();
+        await vault.writeFile(
+            'finance/q1.md',
+            '---\ntags: [finance]\n---\n# Revenue\n\nQuarterly revenue grew 12%.\n\n# Hiring\n\nTwo engineers joined.'
+        );
+        await vault.writeFile('notes/garden.md', '# Garden\n\nTomatoes and basil need water.');
+        await vault.writeFile('.spark/agents/betty.md', 'Revenue expert');
+
+        index = new VaultIndex(vault.root);
+        await index.sync();
+    });
+
+    afterEach(async () => {
+        index.flush();
+        await vault.cleanup();
+    });
+
+    it('should index vault notes but not .spark files', () => {
+        expect(index.size).toBe(2);
+        expect(VaultIndex.isIndexable('.spark/agents/betty.md')).toBe(false);
+        expect(VaultIndex.isIndexable('notes/garden.md')).toBe(true);
+        expect(VaultIndex.isIndexable('notes/data.json')).toBe(false);
+    });
+
+    it('should return the best matching chunk first', () => {
+        const hits = index.search('quarterly revenue');
+
+        expect(hits).toHaveLength(1);
+        expect(hits[0]).toMatchObject({
+            path: vault.getAbsolutePath('finance/q1.md'),
+            heading: 'Revenue',
+        });
+        expect(hits[0]!.text).toContain('Quarterly revenue grew');
+    });
+
+    it('should score files by their best chunk', () => {
+        const scores = index.scoreFiles('engineers and tomatoes');
+
+        expect([...scores.keys()].sort()).toEqual([
+            vault.getAbsolutePath('finance/q1.md'),
+            vault.getAbsolutePath('notes/garden.md'),
+        ]);
+    });
+
+    it('should pick up changed and deleted notes', async () => {
+        await vault.writeFile('notes/garden.md', '# Garden\n\nThe revenue from selling basil.');
+        index.update('notes/garden.md');
+
+        expect(index.search('tomatoes')).toHaveLength(0);
+        expect(index.search('revenue').map((h) => h.path)).toContain(
+            vault.getAbsolutePath('notes/garden.md')
+        );
+
+        unlinkSync(vault.getAbsolutePath('finance/q1.md'));
+        index.update('finance/q1.md');
+
+        expect(index.size).toBe(1);
+        expect(index.search('quarterly')).toHaveLength(0);
+    });
+
+    it('should key updates the same way as a sync', async () => {
+        await vault.writeFile('notes/garden.md', '# Garden\n\nThe revenue from selling basil.');
+        index.update('./notes//garden.md');
+
+        expect(index.size).toBe(2);
+        expect(index.search('tomatoes')).toHaveLength(0);
+
+        index.update(vault.getAbsolutePath('finance/q1.md'));
+        index.flush();
+        const saved = JSON.parse(readFileSync(join(vault.root, '.spark/index/bm25.json'), 'utf-8')) as {
+            files: Record<string, unknown>;
+        };
+        expect(Object.keys(saved.files).sort()).toEqual(['finance/q1.md', 'notes/garden.md']);
+    });
+
+    it('should persist under .spark/index and reload on the next sync', async () => {
+        const indexFile = join(vault.root, '.spark/index/bm25.json');
+        expect(existsSync(indexFile)).toBe(true);
+        const saved = JSON.parse(readFileSync(indexFile, 'utf-8')) as {
+            files: Record<string, unknown>;
+        };
+        expect(Object.keys(saved.files).sort()).toEqual(['finance/q1.md', 'notes/garden.md']);
+
+        await vault.writeFile('notes/new.md', '# New\n\nRevenue targets.');
+        const reloaded = new VaultIndex(vault.root);
+        await reloaded.sync();
+
+        expect(reloaded.size).toBe(3);
+        expect(reloaded.search('targets')[0]?.path).toBe(vault.getAbsolutePath('notes/new.md'));
+    });
+
+    describe('chunkMarkdown', () => {
+        it('should split at headings and skip frontmatter', () => {
+            const chunks = chunkMarkdown('---\ntitle: x\n---\nIntro\n## One\nFirst\n## Two\nSecond');
+
+            expect(chunks).toEqual([
+                { heading: '', text: 'Intro' },
+                { heading: 'One', text: '## One\nFirst' },
+                { heading: 'Two', text: '## Two\nSecond' },
+            ]);
+        });
+
+        it('should split long sections at paragraph breaks', () => {
+            const paragraph = 'word '.repeat(200).trim();
+            const chunks = chunkMarkdown(`${paragraph}\n\n${paragraph}`);
+
+            expect(chunks).toHaveLength(2);
+            expect(chunks[0]!.text).toBe(paragraph);
+        });
+    });
+
+    describe('tokenize', () => {
+        it('should lowercase words and drop stopwords', () => {
+            expect(tokenize('The Revenue of Zürich, 2024!')).toEqual(['revenue', 'zürich', '2024']);
+        });
+    });
+});
@@ -38,7 +38,7 @@ describe('CommandExecutor', () => {
 
         // Create temp directory
         testDir = mkdtempSync(join(tmpdir(), 'spark-executor-test-'));
-        mkdirSync(join(testDir, '.spark'), { recursive: true });
+        mkdirSync(join(testDir, '.spark', 'commands'), { recursive: true });
         testFile = join(testDir, 'test.md');
         writeFileSync(testFile, '# Test\n\n/summarize this');
 
@@ -54,10 +54,15 @@ describe('CommandExecutor', () => {
 
         mockContextLoader = {
             load: jest.fn(),
+            fitToBudget: jest.fn((context) => context),
         };
 
         mockResultWriter = {
             writeInline: jest.fn(),
+            writeSeparate: jest.fn(),
+            writeAppend: jest.fn(),
+            writePartial: jest.fn(),
+            clearPartial: jest.fn(),
             updateStatus: jest.fn(),
         };
 
@@ -291,6 +296,249 @@ describe('CommandExecutor', () => {
         });
     });
 
+    describe('result mode', () => {
+        const command: ParsedCommand = {
+            line: 3,
+            raw: '/summarize this.',
+            type: 'slash',
+            command: 'summarize',
+            args: 'this.',
+            status: 'pending',
+            isComplete: true,
+        };
+
+        const mockAIResult = (content: string) => {
+            jest.spyOn(executor as any, 'executeAI').mockResolvedValue({
+                content,
+                context: { serviceConnections: [] },
+            });
+        };
+
+        it('should write short results inline in auto mode', async () => {
+            mockAIResult('Short summary');
+
+            await executor.execute(command, testFile);
+
+            expect(mockResultWriter.writeInline).toHaveBeenCalled();
+            expect(mockResultWriter.writeSeparate).not.toHaveBeenCalled();
+        });
+
+        it('should write results over inline_max_chars to a separate note in auto mode', async () => {
+            mockAIResult('x'.repeat(501));
+
+            await executor.execute(command, testFile);
+
+            expect(mockResultWriter.writeInline).not.toHaveBeenCalled();
+            expect(mockResultWriter.writeSeparate).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    filePath: testFile,
+                    commandLine: 3,
+                    vaultPath: testDir,
+                    folder: 'reports/',
+                    commandName: 'summarize',
+                })
+            );
+        });
+
+        it('should always write inline in inline mode', async () => {
+            config.engine.results.mode = 'inline';
+            mockAIResult('x'.repeat(2000));
+
+            await executor.execute(command, testFile);
+
+            expect(mockResultWriter.writeInline).toHaveBeenCalled();
+        });
+
+        it('should always write separately in separate mode', async () => {
+            config.engine.results.mode = 'separate';
+            mockAIResult('Short summary');
+
+            await executor.execute(command, testFile);
+
+            expect(mockResultWriter.writeSeparate).toHaveBeenCalled();
+        });
+
+        it('should prefer the output set by the command definition', async () => {
+            writeFileSync(
+                join(testDir, '.spark', 'commands', 'summarize.md'),
+                '---\noutput: append\n---\nSummarize the note.'
+            );
+            mockAIResult('x'.repeat(2000));
+
+            await executor.execute(command, testFile);
+
+            expect(mockResultWriter.writeAppend).toHaveBeenCalled();
+            expect(mockResultWriter.writeSeparate).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('context budget footer', () => {
+        const command: ParsedCommand = {
+            line: 3,
+            raw: '/summarize @finance/.',
+            type: 'slash',
+            command: 'summarize',
+            args: '@finance/.',
+            status: 'pending',
+            isComplete: true,
+        };
+
+        it('should note trimmed context below the result', async () => {
+            jest.spyOn(executor as any, 'executeAI').mockResolvedValue({
+                content: 'Summary',
+                context: {
+                    serviceConnections: [],
+                    budget: {
+                        budget: 1000,
+                        usedTokens: 1000,
+                        truncated: [join(testDir, 'finance', 'q1.md')],
+                        summarized: [],
+                        dropped: ['a.md', 'b.md', 'c.md', 'd.md'],
+                    },
+                },
+            });
+
+            await executor.execute(command, testFile);
+
+            expect(mockResultWriter.writeInline).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    result:
+                        'Summary\n\n*Context trimmed to fit 1000 tokens (truncated: finance/q1.md; dropped: a.md, b.md, c.md +1 more)*',
+                })
+            );
+        });
+
+        it('should leave the result unchanged when everything fit', async () => {
+            jest.spyOn(executor as any, 'executeAI').mockResolvedValue({
+                content: 'Summary',
+                context: {
+                    serviceConnections: [],
+                    budget: { budget: 1000, usedTokens: 10, truncated: [], summarized: [], dropped: [] },
+                },
+            });
+
+            await executor.execute(command, testFile);
+
+            expect(mockResultWriter.writeInline).toHaveBeenCalledWith(
+                expect.objectContaining({ result: 'Summary' })
+            );
+        });
+    });
+
+    describe('usage ledger', () => {
+        const command: ParsedCommand = {
+            line: 3,
+            raw: '/summarize this.',
+            type: 'slash',
+            command: 'summarize',
+            args: 'this.',
+            status: 'pending',
+            isComplete: true,
+        };
+
+        const fakeProvider = {
+            name: 'claude-client',
+            complete: jest.fn(async () => ({
+                content: 'Summary',
+                usage: { inputTokens: 1000, outputTokens: 200 },
+            })),
+            getConfig: () => ({ model: 'claude-sonnet-4-5-20250929' }),
+            getFallbackProvider: () => null,
+        };
+
+        const useFakeProvider = () => {
+            jest.spyOn(executor.getProviderFactory(), 'createWithAgentConfig').mockReturnValue(
+                fakeProvider as any
+            );
+        };
+
+        beforeEach(() => {
+            fakeProvider.complete.mockClear();
+            mockContextLoader.load.mockResolvedValue({
+                currentFile: { path: testFile, content: '/summarize this.' },
+                mentionedFiles: [],
+                nearbyFiles: [],
+                serviceConnections: [],
+                agent: { path: join(testDir, '.spark', 'agents', 'betty.md'), persona: 'Betty' },
+            });
+        });
+
+        it('should record each completed call', async () => {
+            useFakeProvider();
+
+            await executor.execute(command, testFile);
+
+            const [record] = executor.getUsageLedger().read();
+            expect(record).toMatchObject({
+                source: 'command',
+                provider: 'claude-client',
+                model: 'claude-sonnet-4-5-20250929',
+                agent: 'betty',
+                command: 'summarize',
+                file: 'test.md',
+                inputTokens: 1000,
+                outputTokens: 200,
+            });
+            expect(record!.costUsd).toBeCloseTo(0.006);
+        });
+
+        it('should block the call with a warning status once the agent cap is reached', async () => {
+            config.usage = { limits: { agents: { betty: { monthly_tokens: 1000 } } } };
+            executor = new CommandExecutor(mockContextLoader, mockResultWriter, config, testDir);
+            useFakeProvider();
+
+            await executor.execute(command, testFile);
+            await expect(executor.execute(command, testFile)).rejects.toMatchObject({
+                code: 'USAGE_LIMIT_EXCEEDED',
+            });
+
+            expect(fakeProvider.complete).toHaveBeenCalledTimes(1);
+            expect(mockResultWriter.updateStatus).toHaveBeenLastCalledWith(
+                expect.objectContaining({ status: '⚠️' })
+            );
+        });
+    });
+
+    describe('$service mentions', () => {
+        it('should fail when the provider cannot use MCP servers', async () => {
+            config.mcp = {
+                servers: { gmail: { command: 'gmail-mcp' } },
+                timeout_ms: 5000,
+                retry: { enabled: false, max_attempts: 1, backoff_ms: 0 },
+            };
+            executor = new CommandExecutor(mockContextLoader, mockResultWriter, config, testDir);
+            const complete = jest.fn();
+            jest.spyOn(executor.getProviderFactory(), 'createWithAgentConfig').mockReturnValue({
+                name: 'claude-client',
+                complete,
+                getConfig: () => ({ model: 'claude-sonnet-4-5-20250929' }),
+                supportsTools: () => false,
+            } as any);
+            mockContextLoader.load.mockResolvedValue({
+                currentFile: { path: testFile, content: '/summarize $gmail' },
+                mentionedFiles: [],
+                nearbyFiles: [],
+                serviceConnections: [{ name: 'gmail', mcpServer: 'gmail' }],
+                agent: null,
+            });
+            const command: ParsedCommand = {
+                line: 3,
+                raw: '/summarize $gmail',
+                type: 'slash',
+                command: 'summarize',
+                args: '$gmail',
+                status: 'pending',
+                isComplete: true,
+            };
+
+            await expect(executor.execute(command, testFile)).rejects.toMatchObject({
+                code: 'MCP_NOT_SUPPORTED',
+                message: expect.stringContaining('$gmail'),
+            });
+            expect(complete).not.toHaveBeenCalled();
+        });
+    });
+
     describe('shouldExecute', () => {
         it('should return true for complete command', () => {
             const command: ParsedCommand = {
@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { PartialResultThrottle } from '../../src/execution/PartialResultThrottle.js';
+
+describe('PartialResultThrottle', () => {
+    let writes: string[];
+    let throttle: PartialResultThrottle;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        writes = [];
+        throttle = new PartialResultThrottle((text) => writes.push(text), 300);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should write the first update right away', () => {
+        throttle.push('Hel');
+        jest.advanceTimersByTime(0);
+
+        expect(writes).toEqual(['Hel']);
+    });
+
+    it('should only write the latest text within an interval', () => {
+        throttle.push('H');
+        jest.advanceTimersByTime(0);
+
+        throttle.push('He');
+        throttle.push('Hel');
+        throttle.push('Hello');
+        jest.advanceTimersByTime(299);
+        expect(writes).toEqual(['H']);
+
+        jest.advanceTimersByTime(1);
+        expect(writes).toEqual(['H', 'Hello']);
+    });
+
+    it('should drop queued text when cancelled', () => {
+        throttle.push('H');
+        jest.advanceTimersByTime(0);
+        throttle.push('Hello');
+
+        throttle.cancel();
+        jest.advanceTimersByTime(1000);
+
+        expect(writes).toEqual(['H']);
+    });
+});
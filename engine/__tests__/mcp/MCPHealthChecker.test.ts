@@ -0,0 +1,120 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MCPHealthChecker } from '../../src/mcp/MCPHealthChecker.js';
+import { Logger } from '../../src/logger/Logger.js';
+import type { MCPConfig } from '../../src/types/config.js';
+
+/**
+ * Minimal stdio MCP server: answers initialize and tools/list
+ */
+const STUB_SERVER = `
+const readline = require('readline');
+const rl = readline.createInterface({ input: process.stdin });
+rl.on('line', (line) => {
+    const msg = JSON.parse(line);
+    if (msg.method === 'initialize') {
+        reply(msg.id, { protocolVersion: '2024-11-05', capabilities: { tools: {} }, serverInfo: { name: 'stub', version: '1.0.0' } });
+    } else if (msg.method === 'tools/list') {
+        reply(msg.id, { tools: [{ name: 'search_emails' }, { name: 'send_email' }] });
+    }
+});
+function reply(id, result) {
+    process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id, result }) + '\\n');
+}
+`;
+
+describe('MCPHealthChecker', () => {
+    let testDir: string;
+    let stubPath: string;
+
+    const configFor = (servers: MCPConfig['servers'], overrides: Partial<MCPConfig> = {}): MCPConfig => ({
+        servers,
+        timeout_ms: 5000,
+        retry: { enabled: false, max_attempts: 1, backoff_ms: 0 },
+        ...overrides,
+    });
+
+    beforeEach(() => {
+        Logger.resetInstance();
+        Logger.getInstance({ level: 'error', console: false });
+
+        testDir = mkdtempSync(join(tmpdir(), 'spark-mcp-test-'));
+        stubPath = join(testDir, 'stub-server.cjs');
+        writeFileSync(stubPath, STUB_SERVER);
+    });
+
+    afterEach(() => {
+        rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it('should report a responding server as healthy with its tools', async () => {
+        const checker = new MCPHealthChecker(
+            configFor({ stub: { command: process.execPath, args: [stubPath] } })
+        );
+
+        const health = await checker.check('stub');
+
+        expect(health.status).toBe('healthy');
+        expect(health.tools).toEqual(['search_emails', 'send_email']);
+        expect(health.attempts).toBe(1);
+    });
+
+    it('should report disabled servers without spawning them', async () => {
+        const checker = new MCPHealthChecker(
+            configFor({ off: { command: 'does-not-exist', enabled: false } })
+        );
+
+        expect(await checker.check('off')).toEqual({
+            name: 'off',
+            status: 'disabled',
+            tools: [],
+            attempts: 0,
+        });
+    });
+
+    it('should retry and report a server that exits as unhealthy', async () => {
+        const checker = new MCPHealthChecker(
+            configFor(
+                { broken: { command: process.execPath, args: ['-e', 'process.exit(3)'] } },
+                { retry: { enabled: true, max_attempts: 2, backoff_ms: 10 } }
+            )
+        );
+
+        const health = await checker.check('broken');
+
+        expect(health.status).toBe('unhealthy');
+        expect(health.attempts).toBe(2);
+        expect(health.error).toContain('Exited with code 3');
+    });
+
+    it('should time out a server that never answers', async () => {
+        const checker = new MCPHealthChecker(
+            configFor(
+                { silent: { command: process.execPath, args: ['-e', 'setInterval(() => {}, 1000)'] } },
+                { timeout_ms: 300 }
+            )
+        );
+
+        const health = await checker.check('silent');
+
+        expect(health.status).toBe('unhealthy');
+        expect(health.error).toContain('No response within 300ms');
+    });
+
+    it('should check every configured server', async () => {
+        const checker = new MCPHealthChecker(
+            configFor({
+                stub: { command: process.execPath, args: [stubPath] },
+                off: { command: 'does-not-exist', enabled: false },
+            })
+        );
+
+        const results = await checker.checkAll();
+
+        expect(results.map((r) => [r.name, r.status])).toEqual([
+            ['stub', 'healthy'],
+            ['off', 'disabled'],
+        ]);
+    });
+});
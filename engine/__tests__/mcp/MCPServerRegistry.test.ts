@@ -0,0 +1,104 @@
+import {
+    DEFAULT_MCP_TIMEOUT_MS,
+    isMCPToolAllowed,
+    MCPServerRegistry,
+} from '../../src/mcp/MCPServerRegistry.js';
+import { Logger } from '../../src/logger/Logger.js';
+import type { MCPConfig } from '../../src/types/config.js';
+
+describe('MCPServerRegistry', () => {
+    const config: MCPConfig = {
+        servers: {
+            gmail: {
+                command: 'gmail-mcp',
+                args: ['--stdio'],
+                env: { GMAIL_USER: 'me' },
+                allowed_tools: ['search_emails', 'send_email'],
+            },
+            calendar: { command: 'calendar-mcp' },
+            slack: { command: 'slack-mcp', enabled: false },
+        },
+        timeout_ms: 5000,
+        retry: { enabled: false, max_attempts: 1, backoff_ms: 0 },
+    };
+
+    beforeEach(() => {
+        Logger.resetInstance();
+        Logger.getInstance({ level: 'error', console: false });
+    });
+
+    describe('select', () => {
+        it('should enable only the mentioned servers', () => {
+            const selection = new MCPServerRegistry(config).select(['gmail']);
+
+            expect(selection).toEqual({
+                servers: {
+                    gmail: {
+                        command: 'gmail-mcp',
+                        args: ['--stdio'],
+                        env: { GMAIL_USER: 'me' },
+                        allowedTools: ['search_emails', 'send_email'],
+                    },
+                },
+                timeoutMs: 5000,
+                retry: { maxAttempts: 1, backoffMs: 0 },
+            });
+        });
+
+        it('should skip unknown and disabled servers', () => {
+            const selection = new MCPServerRegistry(config).select(['slack', 'jira', 'calendar']);
+
+            expect(Object.keys(selection!.servers)).toEqual(['calendar']);
+            expect(selection!.servers.calendar!.args).toEqual([]);
+        });
+
+        it('should return undefined when nothing applies', () => {
+            expect(new MCPServerRegistry(config).select(['jira'])).toBeUndefined();
+            expect(new MCPServerRegistry(undefined).select(['gmail'])).toBeUndefined();
+        });
+
+        it('should use the default timeout when none is configured', () => {
+            const registry = new MCPServerRegistry({
+                ...config,
+                timeout_ms: undefined as unknown as number,
+            });
+
+            expect(registry.select(['gmail'])!.timeoutMs).toBe(DEFAULT_MCP_TIMEOUT_MS);
+        });
+    });
+
+    describe('getRetry', () => {
+        it('should follow mcp.retry when it is enabled', () => {
+            const registry = new MCPServerRegistry({
+                ...config,
+                retry: { enabled: true, max_attempts: 3, backoff_ms: 200 },
+            });
+
+            expect(registry.getRetry()).toEqual({ maxAttempts: 3, backoffMs: 200 });
+        });
+
+        it('should make a single attempt when retry is disabled', () => {
+            expect(new MCPServerRegistry(config).getRetry()).toEqual({ maxAttempts: 1, backoffMs: 0 });
+        });
+    });
+
+    describe('isMCPToolAllowed', () => {
+        const selection = new MCPServerRegistry(config).select(['gmail', 'calendar'])!;
+
+        it('should allow tools on the allowlist', () => {
+            expect(isMCPToolAllowed(selection, 'mcp__gmail__search_emails')).toBe(true);
+        });
+
+        it('should deny tools missing from the allowlist', () => {
+            expect(isMCPToolAllowed(selection, 'mcp__gmail__delete_email')).toBe(false);
+        });
+
+        it('should allow every tool when a server has no allowlist', () => {
+            expect(isMCPToolAllowed(selection, 'mcp__calendar__create_event')).toBe(true);
+        });
+
+        it('should deny tools of servers not enabled for the command', () => {
+            expect(isMCPToolAllowed(selection, 'mcp__slack__post_message')).toBe(false);
+        });
+    });
+});
@@ -67,6 +67,25 @@ status: draft
             expect(Object.keys(result.frontmatter)).toHaveLength(0);
         });
 
+        it('should not detect commands quoted in a saved chat note', () => {
+            const message = `# Notes chat
+
+> [!quote] You · 2025-03-10 09:00
+> Find my meeting notes
+> then run /summarize on them.
+`;
+
+            const chatNote = parser.parseFile('/vault/Chats/Notes chat.md', `---
+spark_conversation: chat-1741597200000
+---
+
+${message}`);
+
+            expect(parser.parseFile('/vault/test.md', message).commands).toHaveLength(1);
+            expect(chatNote.commands).toHaveLength(0);
+            expect(chatNote.inlineChats).toHaveLength(0);
+        });
+
         it('should handle empty content', () => {
             const content = '';
             const filePath = '/vault/test.md';
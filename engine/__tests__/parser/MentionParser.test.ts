@@ -209,6 +209,28 @@ describe('MentionParser', () => {
         });
     });
 
+    describe('Search Mentions', () => {
+        it('should parse a quoted search query', () => {
+            const content = '/summarize @search:"quarterly revenue forecast" for me';
+            const mentions = parser.parse(content);
+
+            expect(mentions).toHaveLength(2);
+            expect(mentions[1]).toMatchObject({
+                type: 'search',
+                value: 'quarterly revenue forecast',
+                raw: '@search:"quarterly revenue forecast"',
+            });
+        });
+
+        it('should not read commands or files inside the query', () => {
+            const content = '@search:"notes on /deploy and plan.md"';
+            const mentions = parser.parse(content);
+
+            expect(mentions).toHaveLength(1);
+            expect(mentions[0]!.type).toBe('search');
+        });
+    });
+
     describe('Complex Mention Chains', () => {
         it('should parse multiple mention types', () => {
             const content = '@betty review @finance/ using $quickbooks';
@@ -0,0 +1,66 @@
+/**
+ * FileChangeTracker Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { FileChangeTracker } from '../../src/providers/FileChangeTracker.js';
+import { TestVault } from '../utils/TestVault.js';
+
+describe('FileChangeTracker', () => {
+    let vault: TestVault;
+    let tracker: FileChangeTracker;
+
+    beforeEach(async () => {
+        vault = new TestVault();
+        await vault.create();
+        tracker = new FileChangeTracker(vault.path);
+    });
+
+    afterEach(async () => {
+        await vault.cleanup();
+    });
+
+    const write = (path: string, content: string) => {
+        const input = { file_path: join(vault.path, path), content };
+        tracker.beforeToolUse('Write', input);
+        writeFileSync(join(vault.path, path), content);
+        tracker.afterToolUse('Write', input);
+    };
+
+    it('should keep the content before the first edit and after the last one', async () => {
+        await vault.writeFile('note.md', 'original');
+
+        write('note.md', 'first edit');
+        write('note.md', 'second edit');
+
+        expect(tracker.getChanges()).toEqual([
+            { path: 'note.md', before: 'original', after: 'second edit' },
+        ]);
+    });
+
+    it('should record created files with no content before', () => {
+        write('new.md', 'created');
+
+        expect(tracker.getChanges()).toEqual([{ path: 'new.md', before: null, after: 'created' }]);
+    });
+
+    it('should record files in folders whose name starts with two dots', async () => {
+        await vault.writeFile('..notes/x.md', 'old');
+
+        write('..notes/x.md', 'new');
+
+        expect(tracker.getChanges()).toEqual([{ path: join('..notes', 'x.md'), before: 'old', after: 'new' }]);
+    });
+
+    it('should leave out files written back unchanged, other tools and paths outside the vault', async () => {
+        await vault.writeFile('same.md', 'same');
+        write('same.md', 'same');
+        tracker.beforeToolUse('Read', { file_path: join(vault.path, 'same.md') });
+        tracker.beforeToolUse('Write', { file_path: '/etc/hosts', content: '' });
+        tracker.beforeToolUse('Edit', { file_path: '../outside.md' });
+
+        expect(tracker.getChanges()).toEqual([]);
+    });
+});
@@ -0,0 +1,272 @@
+/**
+ * OpenAICompatibleProvider Tests
+ * Runs against a local HTTP stub that speaks the chat-completions protocol
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { OpenAICompatibleProvider } from '../../src/providers/OpenAICompatibleProvider.js';
+import { Logger } from '../../src/logger/Logger.js';
+import { SparkError } from '../../src/types/index.js';
+import type { ProviderConfig } from '../../src/types/provider.js';
+import { ProviderType } from '../../src/types/provider.js';
+
+interface RecordedRequest {
+    method?: string;
+    url?: string;
+    headers: IncomingMessage['headers'];
+    body: Record<string, unknown> | null;
+}
+
+describe('OpenAICompatibleProvider', () => {
+    let server: Server;
+    let baseUrl: string;
+    let requests: RecordedRequest[];
+    let failWith: number | null;
+    let misbehave: 'hang' | 'drop' | null;
+
+    const configFor = (overrides: Partial<ProviderConfig> = {}): ProviderConfig => ({
+        name: 'ollama',
+        type: ProviderType.OPENAI,
+        model: 'llama3.1',
+        maxTokens: 256,
+        temperature: 0.2,
+        options: { baseUrl },
+        ...overrides,
+    });
+
+    beforeAll(async () => {
+        server = createServer((req, res) => {
+            let raw = '';
+            req.on('data', (chunk) => (raw += chunk));
+            req.on('end', () => {
+                const body = raw ? (JSON.parse(raw) as Record<string, unknown>) : null;
+                requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+
+                if (failWith) {
+                    res.writeHead(failWith, { 'Content-Type': 'application/json' });
+                    res.end(JSON.stringify({ error: { message: 'model not found' } }));
+                    return;
+                }
+
+                if (misbehave === 'hang') {
+                    return;
+                }
+                if (misbehave === 'drop') {
+                    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                    res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: 'Hel' } }] })}\n\n`);
+                    setTimeout(() => res.destroy(), 20);
+                    return;
+                }
+
+                if (req.url?.startsWith('/v1/models')) {
+                    res.writeHead(200, { 'Content-Type': 'application/json' });
+                    res.end(JSON.stringify({ data: [{ id: 'llama3.1' }, { id: 'qwen2.5' }] }));
+                    return;
+                }
+
+                if (body?.stream) {
+                    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                    const send = (event: unknown) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+                    for (const text of ['Hel', 'lo ', 'there']) {
+                        send({ choices: [{ delta: { content: text } }] });
+                    }
+                    send({ choices: [], usage: { prompt_tokens: 12, completion_tokens: 3 } });
+                    res.end('data: [DONE]\n\n');
+                    return;
+                }
+
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(
+                    JSON.stringify({
+                        choices: [{ message: { role: 'assistant', content: 'Hello there' } }],
+                        usage: { prompt_tokens: 12, completion_tokens: 3 },
+                    })
+                );
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        Logger.resetInstance();
+        Logger.getInstance({ level: 'error', console: false });
+        requests = [];
+        failWith = null;
+        misbehave = null;
+    });
+
+    describe('complete', () => {
+        it('should send system and user messages and return the reply', async () => {
+            const provider = new OpenAICompatibleProvider(configFor());
+
+            const result = await provider.complete({
+                prompt: 'Say hello',
+                systemPrompt: 'Be brief',
+                context: {
+                    agentPersona: 'You are Betty',
+                    files: [{ path: 'notes/a.md', content: 'Alpha', priority: 'high' }],
+                },
+            });
+
+            expect(result).toEqual({
+                content: 'Hello there',
+                usage: { inputTokens: 12, outputTokens: 3 },
+            });
+
+            const [request] = requests;
+            expect(request!.url).toBe('/v1/chat/completions');
+            expect(request!.headers.authorization).toBeUndefined();
+            expect(request!.body).toMatchObject({
+                model: 'llama3.1',
+                max_tokens: 256,
+                temperature: 0.2,
+                stream: false,
+            });
+            const messages = request!.body!.messages as Array<{ role: string; content: string }>;
+            expect(messages[0]).toEqual({ role: 'system', content: 'Be brief\n\nYou are Betty' });
+            expect(messages[1]!.role).toBe('user');
+            expect(messages[1]!.content).toContain('<file path="notes/a.md">\nAlpha\n</file>');
+            expect(messages[1]!.content.endsWith('Say hello')).toBe(true);
+        });
+
+        it('should send the API key as a bearer token', async () => {
+            const provider = new OpenAICompatibleProvider(configFor({ apiKey: 'sk-test' }));
+
+            await provider.complete({ prompt: 'Hi' });
+
+            expect(requests[0]!.headers.authorization).toBe('Bearer sk-test');
+        });
+
+        it('should use the api-key header and api-version for Azure', async () => {
+            const provider = new OpenAICompatibleProvider(
+                configFor({ apiKey: 'azure-key', options: { baseUrl, apiVersion: '2024-06-01' } })
+            );
+
+            await provider.complete({ prompt: 'Hi' });
+
+            expect(requests[0]!.url).toBe('/v1/chat/completions?api-version=2024-06-01');
+            expect(requests[0]!.headers['api-key']).toBe('azure-key');
+            expect(requests[0]!.headers.authorization).toBeUndefined();
+        });
+
+        it('should surface HTTP errors as client or server errors', async () => {
+            const provider = new OpenAICompatibleProvider(configFor());
+
+            failWith = 404;
+            await expect(provider.complete({ prompt: 'Hi' })).rejects.toMatchObject({
+                code: 'AI_CLIENT_ERROR',
+                message: expect.stringContaining('model not found'),
+            });
+
+            failWith = 503;
+            await expect(provider.complete({ prompt: 'Hi' })).rejects.toMatchObject({
+                code: 'AI_SERVER_ERROR',
+            });
+        });
+
+        it('should report an unreachable endpoint as a network error', async () => {
+            const provider = new OpenAICompatibleProvider(
+                configFor({ options: { baseUrl: 'http://127.0.0.1:1/v1' } })
+            );
+
+            await expect(provider.complete({ prompt: 'Hi' })).rejects.toMatchObject({
+                code: 'AI_NETWORK_ERROR',
+            });
+        });
+
+        it('should give up on an endpoint that sends nothing within the timeout', async () => {
+            const provider = new OpenAICompatibleProvider(configFor({ options: { baseUrl, timeoutMs: 50 } }));
+
+            misbehave = 'hang';
+            await expect(provider.complete({ prompt: 'Hi' })).rejects.toMatchObject({
+                code: 'AI_NETWORK_ERROR',
+                message: expect.stringContaining('sent nothing for 50ms'),
+            });
+        });
+    });
+
+    describe('stream', () => {
+        it('should report partial text and resolve with the full reply', async () => {
+            const provider = new OpenAICompatibleProvider(configFor());
+            const partials: string[] = [];
+
+            const result = await provider.stream({ prompt: 'Say hello' }, (text) => {
+                partials.push(text);
+            });
+
+            expect(partials).toEqual(['Hel', 'Hello ', 'Hello there']);
+            expect(result).toEqual({
+                content: 'Hello there',
+                usage: { inputTokens: 12, outputTokens: 3 },
+            });
+            expect(requests[0]!.body).toMatchObject({
+                stream: true,
+                stream_options: { include_usage: true },
+            });
+        });
+
+        it('should report a connection dropped mid-stream as a network error', async () => {
+            const provider = new OpenAICompatibleProvider(configFor());
+
+            misbehave = 'drop';
+            const error = await provider.stream({ prompt: 'Say hello' }, () => {}).catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(SparkError);
+            expect(error).toMatchObject({ code: 'AI_NETWORK_ERROR' });
+        });
+    });
+
+    describe('models', () => {
+        it('should list models served by the endpoint', async () => {
+            const provider = new OpenAICompatibleProvider(configFor());
+
+            expect(provider.getAvailableModels()).toEqual(['llama3.1']);
+            expect(await provider.listModels()).toEqual(['llama3.1', 'qwen2.5']);
+            expect(provider.getAvailableModels()).toEqual(['llama3.1', 'qwen2.5']);
+            expect(requests[0]!.url).toBe('/v1/models');
+        });
+
+        it('should fetch the served models in the background once per endpoint', async () => {
+            const provider = new OpenAICompatibleProvider(configFor());
+            const override = new OpenAICompatibleProvider(configFor({ model: 'qwen2.5' }));
+
+            provider.refreshModels();
+            override.refreshModels();
+            await new Promise((resolve) => setTimeout(resolve, 50));
+
+            expect(provider.getAvailableModels()).toEqual(['llama3.1', 'qwen2.5']);
+            expect(override.getAvailableModels()).toEqual(['llama3.1', 'qwen2.5']);
+            expect(requests.filter((r) => r.url === '/v1/models')).toHaveLength(1);
+        });
+
+        it('should prefer models listed in options', () => {
+            const provider = new OpenAICompatibleProvider(
+                configFor({ options: { baseUrl, models: ['gpt-4o', 'gpt-4o-mini'] } })
+            );
+
+            expect(provider.getAvailableModels()).toEqual(['gpt-4o', 'gpt-4o-mini']);
+        });
+
+        it('should be healthy when the endpoint answers', async () => {
+            const provider = new OpenAICompatibleProvider(configFor());
+
+            expect(await provider.isHealthy()).toBe(true);
+
+            failWith = 500;
+            expect(await provider.isHealthy()).toBe(false);
+        });
+    });
+
+    it('should require an API key for the OpenAI endpoint', () => {
+        expect(() => new OpenAICompatibleProvider(configFor({ options: {} }))).toThrow(
+            'API key not provided'
+        );
+    });
+});
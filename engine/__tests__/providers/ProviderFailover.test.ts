@@ -0,0 +1,188 @@
+/**
+ * ProviderFailover Tests
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ProviderFailover, isRetryableError } from '../../src/providers/ProviderFailover.js';
+import type { ProviderAttempt } from '../../src/providers/ProviderFailover.js';
+import type { AIProviderFactory } from '../../src/providers/AIProviderFactory.js';
+import { Logger } from '../../src/logger/Logger.js';
+import type { AIConfig } from '../../src/types/config.js';
+import { SparkError } from '../../src/types/index.js';
+import type { IAIProvider } from '../../src/types/provider.js';
+import { ProviderType } from '../../src/types/provider.js';
+
+function fakeProvider(name: string, fallbackProvider?: string): IAIProvider {
+    return {
+        name,
+        type: ProviderType.ANTHROPIC,
+        complete: jest.fn<IAIProvider['complete']>(),
+        supportsTools: () => false,
+        supportsFileOperations: () => false,
+        getAvailableModels: () => [],
+        supportsFallback: () => fallbackProvider !== undefined,
+        getFallbackProvider: () => fallbackProvider ?? null,
+        isHealthy: () => Promise.resolve(true),
+        getConfig: () => ({ name, type: ProviderType.ANTHROPIC, model: 'test', fallbackProvider }),
+    };
+}
+
+describe('ProviderFailover', () => {
+    let providers: Record<string, IAIProvider>;
+    let factory: AIProviderFactory;
+    let aiConfig: AIConfig;
+    let delays: number[];
+    let attempts: ProviderAttempt[];
+
+    const overloaded = () => new SparkError('Claude API error: Overloaded', 'AI_SERVER_ERROR');
+
+    const createFailover = () =>
+        new ProviderFailover(
+            factory,
+            aiConfig,
+            (attempt) => attempts.push(attempt),
+            (ms) => {
+                delays.push(ms);
+                return Promise.resolve();
+            }
+        );
+
+    beforeEach(() => {
+        Logger.resetInstance();
+        Logger.getInstance({ level: 'error', console: false });
+
+        providers = {
+            primary: fakeProvider('primary', 'backup'),
+            backup: fakeProvider('backup', 'primary'),
+        };
+        factory = {
+            getFallbackProvider: (primary: string) => {
+                const name = providers[primary]?.getFallbackProvider();
+                return name ? (providers[name] ?? null) : null;
+            },
+        } as unknown as AIProviderFactory;
+        aiConfig = {
+            defaultProvider: 'primary',
+            providers: {},
+            retry: { enabled: true, max_attempts: 3, backoff_ms: 100 },
+        };
+        delays = [];
+        attempts = [];
+    });
+
+    it('should return the first successful result without retrying', async () => {
+        const failover = createFailover();
+
+        const result = await failover.run(providers.primary!, () => Promise.resolve('ok'));
+
+        expect(result).toBe('ok');
+        expect(attempts).toEqual([]);
+    });
+
+    it('should retry retryable errors with exponential backoff', async () => {
+        const call = jest
+            .fn<(provider: IAIProvider) => Promise<string>>()
+            .mockRejectedValueOnce(overloaded())
+            .mockRejectedValueOnce(new SparkError('Too many requests', 'AI_RATE_LIMIT_ERROR'))
+            .mockResolvedValueOnce('ok');
+
+        const result = await createFailover().run(providers.primary!, call);
+
+        expect(result).toBe('ok');
+        expect(delays).toEqual([100, 200]);
+        expect(attempts.map((a) => [a.provider, a.attempt, a.code, a.retryInMs])).toEqual([
+            ['primary', 1, 'AI_SERVER_ERROR', 100],
+            ['primary', 2, 'AI_RATE_LIMIT_ERROR', 200],
+        ]);
+    });
+
+    it('should fail over to the fallback provider once retries are exhausted', async () => {
+        const call = jest.fn((provider: IAIProvider) =>
+            provider.name === 'primary' ? Promise.reject(overloaded()) : Promise.resolve('backup ok')
+        );
+
+        const result = await createFailover().run(providers.primary!, call);
+
+        expect(result).toBe('backup ok');
+        expect(call).toHaveBeenCalledTimes(4);
+        expect(attempts).toHaveLength(3);
+        expect(attempts[2]).toMatchObject({ provider: 'primary', attempt: 3, fallbackTo: 'backup' });
+        expect(attempts[2]!.retryInMs).toBeUndefined();
+    });
+
+    it('should stop retrying once the request is cancelled', async () => {
+        const controller = new AbortController();
+        const call = jest.fn(() => Promise.reject(overloaded()));
+        const failover = new ProviderFailover(factory, aiConfig, (attempt) => attempts.push(attempt), () => {
+            controller.abort();
+            return Promise.resolve();
+        });
+
+        await expect(failover.run(providers.primary!, call, controller.signal)).rejects.toMatchObject({
+            code: 'AI_CANCELLED',
+        });
+        expect(call).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cut the backoff short when the request is cancelled', async () => {
+        aiConfig.retry = { enabled: true, max_attempts: 3, backoff_ms: 20000 };
+        const controller = new AbortController();
+        const call = jest.fn(() => Promise.reject(overloaded()));
+        setTimeout(() => controller.abort(), 10);
+
+        await expect(
+            new ProviderFailover(factory, aiConfig).run(providers.primary!, call, controller.signal)
+        ).rejects.toMatchObject({ code: 'AI_CANCELLED' });
+        expect(call).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry or fail over on client errors', async () => {
+        const error = new SparkError('Invalid API key', 'AI_CLIENT_ERROR');
+        const call = jest.fn(() => Promise.reject(error));
+
+        await expect(createFailover().run(providers.primary!, call)).rejects.toBe(error);
+        expect(call).toHaveBeenCalledTimes(1);
+        expect(attempts).toHaveLength(1);
+    });
+
+    it('should stop at a fallback loop and report every attempt', async () => {
+        const call = jest.fn(() => Promise.reject(overloaded()));
+
+        const error = await createFailover()
+            .run(providers.primary!, call)
+            .catch((e: unknown) => e);
+
+        expect(call).toHaveBeenCalledTimes(6);
+        expect(error).toBeInstanceOf(SparkError);
+        expect((error as SparkError).code).toBe('AI_SERVER_ERROR');
+        expect((error as SparkError).message).toBe('Claude API error: Overloaded');
+        const reported = (error as SparkError).context?.attempts as ProviderAttempt[];
+        expect(reported.map((a) => a.provider)).toEqual([
+            'primary',
+            'primary',
+            'primary',
+            'backup',
+            'backup',
+            'backup',
+        ]);
+    });
+
+    it('should make a single attempt per provider when retry is disabled', async () => {
+        aiConfig.retry = { enabled: false, max_attempts: 3, backoff_ms: 100 };
+        const call = jest.fn(() => Promise.reject(overloaded()));
+
+        await expect(createFailover().run(providers.primary!, call)).rejects.toThrow('Overloaded');
+        expect(call).toHaveBeenCalledTimes(2);
+        expect(delays).toEqual([]);
+    });
+
+    describe('isRetryableError', () => {
+        it('should treat rate limits, server and network errors as retryable', () => {
+            expect(isRetryableError(new SparkError('x', 'AI_RATE_LIMIT_ERROR'))).toBe(true);
+            expect(isRetryableError(new SparkError('x', 'AI_SERVER_ERROR'))).toBe(true);
+            expect(isRetryableError(new SparkError('x', 'AI_NETWORK_ERROR'))).toBe(true);
+            expect(isRetryableError(new SparkError('x', 'AI_CLIENT_ERROR'))).toBe(false);
+            expect(isRetryableError(new Error('x'))).toBe(false);
+        });
+    });
+});
@@ -5,6 +5,7 @@
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import { ProviderRegistry } from '../../src/providers/ProviderRegistry.js';
 import { ClaudeAgentProvider } from '../../src/providers/ClaudeAgentProvider.js';
+import { OpenAICompatibleProvider } from '../../src/providers/OpenAICompatibleProvider.js';
 import { Logger } from '../../src/logger/Logger.js';
 import type { ProviderConfig } from '../../src/types/provider.js';
 import { ProviderType } from '../../src/types/provider.js';
@@ -134,6 +135,34 @@ describe('ProviderRegistry', () => {
         });
     });
 
+    describe('createProvider', () => {
+        it('should fall back to the registration for the provider type', () => {
+            registry.registerProvider('openai', ProviderType.OPENAI, (config) => {
+                return new OpenAICompatibleProvider(config);
+            });
+
+            const provider = registry.createProvider('ollama', {
+                name: 'ollama',
+                type: ProviderType.OPENAI,
+                model: 'llama3.1',
+                options: { baseUrl: 'http://localhost:11434/v1' },
+            });
+
+            expect(provider.name).toBe('ollama');
+            expect(provider.type).toBe(ProviderType.OPENAI);
+        });
+
+        it('should throw for unregistered providers', () => {
+            expect(() =>
+                registry.createProvider('missing', {
+                    name: 'missing',
+                    type: ProviderType.OPENAI,
+                    model: 'gpt-4o',
+                })
+            ).toThrow("Provider 'missing' not registered");
+        });
+    });
+
     describe('unregister', () => {
         it('should unregister a provider', () => {
             const factory = (config: ProviderConfig) => new ClaudeAgentProvider(config);
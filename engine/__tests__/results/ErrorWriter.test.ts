@@ -159,6 +159,31 @@ describe('ErrorWriter', () => {
             expect(content).toContain('AI provider status page');
         });
 
+        it('should list retries and failovers before the error details', async () => {
+            const sparkError = new SparkError('Too many requests', 'AI_RATE_LIMIT_ERROR', {
+                status: 429,
+                attempts: [
+                    { provider: 'claude-agent', attempt: 1, code: 'AI_RATE_LIMIT_ERROR', message: 'Too many requests', timestamp: 1, retryInMs: 1000 },
+                    { provider: 'claude-agent', attempt: 2, code: 'AI_RATE_LIMIT_ERROR', message: 'Too many requests', timestamp: 2, fallbackTo: 'ollama' },
+                    { provider: 'ollama', attempt: 1, code: 'AI_RATE_LIMIT_ERROR', message: 'Too many requests', timestamp: 3 },
+                ],
+            });
+
+            const errorPath = await errorWriter.writeError({
+                error: sparkError,
+                filePath: '/vault/test.md',
+            });
+
+            const content = readFileSync(errorPath, 'utf-8');
+            expect(content).toContain('## Attempts');
+            expect(content).toContain('1. claude-agent (attempt 1): AI_RATE_LIMIT_ERROR - Too many requests → retried after 1000ms');
+            expect(content).toContain('2. claude-agent (attempt 2): AI_RATE_LIMIT_ERROR - Too many requests → failed over to ollama');
+            expect(content).toContain('3. ollama (attempt 1): AI_RATE_LIMIT_ERROR - Too many requests\n');
+            expect(content).toContain('"status": 429');
+            expect(content).not.toContain('"attempts"');
+            expect(content).toContain('fallbackProvider');
+        });
+
         it('should handle network errors with suggestions', async () => {
             const sparkError = new SparkError('Connection failed', 'AI_NETWORK_ERROR');
 
@@ -1,6 +1,6 @@
 import { ResultWriter } from '../../src/results/ResultWriter.js';
 import { Logger } from '../../src/logger/Logger.js';
-import { mkdtempSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { existsSync, mkdtempSync, readdirSync, writeFileSync, readFileSync, rmSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { SparkError } from '../../src/types/index.js';
@@ -572,5 +572,206 @@ describe('ResultWriter', () => {
             expect(lines[9]).toBe('More content');
         });
     });
-});
 
+    describe('writeAppend', () => {
+        it('should append result at end of file and mark command complete', async () => {
+            writeFileSync(testFile, ['# Test', '', '/summarize.', '', 'Body', '', ''].join('\n'));
+
+            await resultWriter.writeAppend({
+                filePath: testFile,
+                commandLine: 3,
+                commandText: '/summarize.',
+                result: 'Summary',
+            });
+
+            const lines = readFileSync(testFile, 'utf-8').split('\n');
+            expect(lines).toEqual([
+                '# Test',
+                '',
+                '✅ /summarize.',
+                '',
+                'Body',
+                '',
+                '<!-- spark-result-start -->',
+                'Summary',
+                '<!-- spark-result-end -->',
+                '',
+            ]);
+        });
+
+        it('should throw error for invalid line number', async () => {
+            writeFileSync(testFile, 'Line 1');
+
+            await expect(
+                resultWriter.writeAppend({
+                    filePath: testFile,
+                    commandLine: 5,
+                    commandText: '/test',
+                    result: 'Result',
+                })
+            ).rejects.toThrow(SparkError);
+        });
+    });
+
+    describe('writeReplace', () => {
+        it('should replace selection and command line with result', async () => {
+            writeFileSync(
+                testFile,
+                ['# Test', '', 'rough line one', 'rough line two', '', '/polish.', '', 'After'].join(
+                    '\n'
+                )
+            );
+
+            await resultWriter.writeReplace({
+                filePath: testFile,
+                commandLine: 6,
+                commandText: '/polish.',
+                result: 'Polished text',
+                range: { startLine: 3, endLine: 4 },
+            });
+
+            const lines = readFileSync(testFile, 'utf-8').split('\n');
+            expect(lines).toEqual(['# Test', '', 'Polished text', '', 'After']);
+        });
+
+        it('should replace note body but keep frontmatter', async () => {
+            writeFileSync(testFile, ['---', 'tags: [draft]', '---', '# Old', '', '/rewrite.'].join('\n'));
+
+            await resultWriter.writeReplace({
+                filePath: testFile,
+                commandLine: 6,
+                commandText: '/rewrite.',
+                result: '# New',
+            });
+
+            const result = readFileSync(testFile, 'utf-8');
+            expect(result).toBe('---\ntags: [draft]\n---\n# New\n');
+        });
+
+        it('should throw error when selection is not above the command', async () => {
+            writeFileSync(testFile, ['/polish.', 'text'].join('\n'));
+
+            await expect(
+                resultWriter.writeReplace({
+                    filePath: testFile,
+                    commandLine: 1,
+                    commandText: '/polish.',
+                    result: 'Result',
+                    range: { startLine: 2, endLine: 2 },
+                })
+            ).rejects.toThrow(SparkError);
+        });
+    });
+
+    describe('writeSeparate', () => {
+        it('should write result to a new note and link it below the command', async () => {
+            writeFileSync(testFile, ['# Test', '/report.', 'After'].join('\n'));
+
+            const resultPath = await resultWriter.writeSeparate({
+                filePath: testFile,
+                commandLine: 2,
+                commandText: '/report.',
+                result: 'Full report',
+                vaultPath: testDir,
+                folder: 'reports/',
+                commandName: 'report',
+            });
+
+            expect(resultPath.startsWith(join(testDir, 'reports', 'report-'))).toBe(true);
+            const note = readFileSync(resultPath, 'utf-8');
+            expect(note).toMatch(/^---\nsource: "\[\[test\]\]"\nsource_line: 2\ncommand: \/report\.\ncreated: .+\n---\n\nFull report\n$/);
+
+            const link = resultPath.substring(testDir.length + 1).replace(/\.md$/, '');
+            const lines = readFileSync(testFile, 'utf-8').split('\n');
+            expect(lines).toEqual([
+                '# Test',
+                '✅ /report.',
+                '<!-- spark-result-start -->',
+                `→ [[${link}]]`,
+                '<!-- spark-result-end -->',
+                'After',
+            ]);
+        });
+
+        it('should not overwrite an existing result note', async () => {
+            writeFileSync(testFile, ['/report.', '/report.'].join('\n'));
+            const options = {
+                filePath: testFile,
+                commandText: '/report.',
+                vaultPath: testDir,
+                folder: 'reports',
+                commandName: 'report',
+            };
+
+            const first = await resultWriter.writeSeparate({ ...options, commandLine: 1, result: 'One' });
+            const second = await resultWriter.writeSeparate({ ...options, commandLine: 5, result: 'Two' });
+
+            expect(second).not.toBe(first);
+            expect(readFileSync(first, 'utf-8')).toContain('\nOne\n');
+            expect(readFileSync(second, 'utf-8')).toContain('\nTwo\n');
+        });
+    });
+
+    describe('writePartial', () => {
+        const streamFiles = () => {
+            const dir = join(testDir, '.spark', 'command-stream');
+            return existsSync(dir) ? readdirSync(dir).map((name) => join(dir, name)) : [];
+        };
+
+        it('should write streamed text to a side file and leave the note alone', async () => {
+            const original = ['# Test', '⏳ /summarize.', 'After'].join('\n');
+            writeFileSync(testFile, original);
+
+            await resultWriter.writePartial({ vaultPath: testDir, filePath: testFile, commandLine: 2, result: 'Sum' });
+            await resultWriter.writePartial({
+                vaultPath: testDir,
+                filePath: testFile,
+                commandLine: 2,
+                result: 'Summary\nso far',
+            });
+
+            expect(readFileSync(testFile, 'utf-8')).toBe(original);
+            const files = streamFiles();
+            expect(files).toHaveLength(1);
+            expect(JSON.parse(readFileSync(files[0]!, 'utf-8'))).toEqual({
+                file: 'test.md',
+                line: 2,
+                text: 'Summary\nso far',
+            });
+        });
+
+        it('should remove the side file when cleared', async () => {
+            writeFileSync(testFile, ['# Test', '⏳ /summarize.'].join('\n'));
+
+            await resultWriter.writePartial({ vaultPath: testDir, filePath: testFile, commandLine: 2, result: 'Sum' });
+            await resultWriter.clearPartial({ vaultPath: testDir, filePath: testFile, commandLine: 2 });
+
+            expect(streamFiles()).toEqual([]);
+        });
+    });
+
+    describe('writeInlineChatPartial', () => {
+        it('should write streamed text to a side file and remove it when cleared', async () => {
+            const streamFile = join(testDir, '.spark', 'inline-chat-stream', 'chat-1.txt');
+
+            await resultWriter.writeInlineChatPartial({ vaultPath: testDir, chatId: 'chat-1', response: 'Half an' });
+            expect(readFileSync(streamFile, 'utf-8')).toBe('Half an');
+
+            await resultWriter.clearInlineChatPartial({ vaultPath: testDir, chatId: 'chat-1' });
+            expect(existsSync(streamFile)).toBe(false);
+        });
+    });
+
+    describe('isOwnWrite', () => {
+        it('should recognize the content it last wrote until the user changes the note', async () => {
+            writeFileSync(testFile, '# Note\n/summarize\n');
+
+            await resultWriter.updateStatus({ filePath: testFile, commandLine: 2, commandText: '/summarize', status: '⏳' });
+            const written = readFileSync(testFile, 'utf-8');
+
+            expect(resultWriter.isOwnWrite(testFile, written)).toBe(true);
+            expect(resultWriter.isOwnWrite(testFile, `${written}edited`)).toBe(false);
+            expect(resultWriter.isOwnWrite(join(testDir, 'other.md'), written)).toBe(false);
+        });
+    });
+});
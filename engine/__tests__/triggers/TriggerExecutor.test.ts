@@ -0,0 +1,52 @@
+import { jest } from '@jest/globals';
+import type { CommandExecutor } from '../../src/execution/CommandExecutor.js';
+import { Logger } from '../../src/logger/Logger.js';
+import { TriggerExecutor } from '../../src/triggers/TriggerExecutor.js';
+import type { Trigger } from '../../src/types/trigger.js';
+import type { FileChange } from '../../src/types/watcher.js';
+
+const VAULT = '/vault';
+
+const trigger: Trigger = {
+    name: 'archive',
+    description: '',
+    watch: { directory: 'notes/', event: 'file_deleted' },
+    instructions: 'Log the removal',
+    priority: 0,
+    source: '.spark/triggers/archive.yaml',
+};
+
+function makeChange(path: string, type: FileChange['type']): FileChange {
+    return { path, type, timestamp: Date.now() };
+}
+
+describe('TriggerExecutor', () => {
+    let executeAndReturn: jest.Mock<(command: unknown, filePath: string) => Promise<string>>;
+    let executor: TriggerExecutor;
+
+    beforeEach(() => {
+        Logger.resetInstance();
+        Logger.getInstance({ level: 'error', console: false });
+        executeAndReturn = jest.fn(() => Promise.resolve('done'));
+        executor = new TriggerExecutor({ executeAndReturn } as unknown as CommandExecutor, VAULT);
+    });
+
+    it('should run against the changed file', async () => {
+        await executor.execute(trigger, `${VAULT}/notes/a.md`, {
+            change: makeChange('notes/a.md', 'change'),
+        });
+
+        expect(executeAndReturn.mock.calls[0]?.[1]).toBe(`${VAULT}/notes/a.md`);
+    });
+
+    it('should run a deleted file trigger from its definition and name the file in the prompt', async () => {
+        await executor.execute(trigger, `${VAULT}/notes/a.md`, {
+            change: makeChange('notes/a.md', 'unlink'),
+        });
+
+        const [command, filePath] = executeAndReturn.mock.calls[0] ?? [];
+        expect(filePath).toBe(`${VAULT}/.spark/triggers/archive.yaml`);
+        expect((command as { raw: string }).raw).toContain('fired for notes/a.md');
+        expect((command as { raw: string }).raw).toContain('no longer exists');
+    });
+});
@@ -0,0 +1,188 @@
+import { TriggerLoader } from '../../src/triggers/TriggerLoader.js';
+import { Logger } from '../../src/logger/Logger.js';
+import { TestVault } from '../utils/TestVault.js';
+
+describe('TriggerLoader', () => {
+    let vault: TestVault;
+    let loader: TriggerLoader;
+
+    beforeEach(async () => {
+        Logger.resetInstance();
+        Logger.getInstance({ level: 'error', console: false });
+        vault = new TestVault();
+        await vault.create();
+        loader = new TriggerLoader();
+    });
+
+    afterEach(async () => {
+        await vault.cleanup();
+    });
+
+    it('should return no triggers when folder is empty', async () => {
+        const triggers = await loader.loadTriggers(vault.path);
+        expect(triggers).toEqual([]);
+        expect(loader.getLastErrors()).toEqual([]);
+    });
+
+    it('should load triggers from YAML files', async () => {
+        await vault.writeFile(
+            '.spark/triggers/email.yaml',
+            `triggers:
+  - name: send_email
+    description: Send email when status changes
+    watch:
+      directory: "emails/"
+      frontmatter_field: status
+      from_value: draft
+      to_value: sent
+    instructions: |
+      Send the email via $gmail
+    priority: 10
+`
+        );
+
+        const triggers = await loader.loadTriggers(vault.path);
+
+        expect(triggers).toHaveLength(1);
+        expect(triggers[0]).toEqual({
+            name: 'send_email',
+            description: 'Send email when status changes',
+            watch: {
+                directory: 'emails/',
+                frontmatter_field: 'status',
+                from_value: 'draft',
+                to_value: 'sent',
+                pattern: undefined,
+                event: undefined,
+            },
+            instructions: 'Send the email via $gmail',
+            priority: 10,
+            source: '.spark/triggers/email.yaml',
+        });
+    });
+
+    it('should sort triggers by priority across files', async () => {
+        await vault.writeFile(
+            '.spark/triggers/a.yaml',
+            `triggers:
+  - name: low
+    watch: { directory: notes/, event: file_created }
+    instructions: low
+    priority: 1
+`
+        );
+        await vault.writeFile(
+            '.spark/triggers/b.yml',
+            `triggers:
+  - name: high
+    watch: { directory: notes/, event: file_created }
+    instructions: high
+    priority: 50
+  - name: default
+    watch: { directory: notes/, event: file_created }
+    instructions: default priority
+`
+        );
+
+        const triggers = await loader.loadTriggers(vault.path);
+
+        expect(triggers.map((t) => t.name)).toEqual(['high', 'low', 'default']);
+        expect(triggers[2]?.priority).toBe(0);
+    });
+
+    it('should stringify non-string transition values', async () => {
+        await vault.writeFile(
+            '.spark/triggers/flags.yaml',
+            `triggers:
+  - name: done
+    watch:
+      directory: tasks/
+      frontmatter_field: done
+      to_value: true
+    instructions: Archive the task
+`
+        );
+
+        const triggers = await loader.loadTriggers(vault.path);
+
+        expect(triggers[0]?.watch.to_value).toBe('true');
+    });
+
+    it('should skip invalid triggers and report errors', async () => {
+        await vault.writeFile(
+            '.spark/triggers/mixed.yaml',
+            `triggers:
+  - name: no_instructions
+    watch: { directory: notes/, event: file_created }
+  - name: no_condition
+    watch: { directory: notes/ }
+    instructions: Do something
+  - name: bad_event
+    watch: { directory: notes/, event: file_renamed }
+    instructions: Do something
+  - name: valid
+    watch: { directory: notes/, event: file_deleted }
+    instructions: Do something
+`
+        );
+
+        const triggers = await loader.loadTriggers(vault.path);
+        const errors = loader.getLastErrors();
+
+        expect(triggers.map((t) => t.name)).toEqual(['valid']);
+        expect(errors.map((e) => e.trigger)).toEqual(['no_instructions', 'no_condition', 'bad_event']);
+    });
+
+    it('should reject frontmatter transitions on created or deleted files', async () => {
+        await vault.writeFile(
+            '.spark/triggers/frontmatter.yaml',
+            `triggers:
+  - name: on_create
+    watch: { directory: notes/, frontmatter_field: status, event: file_created }
+    instructions: Do something
+  - name: on_delete
+    watch: { directory: notes/, frontmatter_field: status, event: file_deleted }
+    instructions: Do something
+  - name: on_modify
+    watch: { directory: notes/, frontmatter_field: status, event: file_modified }
+    instructions: Do something
+`
+        );
+
+        const triggers = await loader.loadTriggers(vault.path);
+        const errors = loader.getLastErrors();
+
+        expect(triggers.map((t) => t.name)).toEqual(['on_modify']);
+        expect(errors.map((e) => e.trigger)).toEqual(['on_create', 'on_delete']);
+    });
+
+    it('should report files without a triggers list and invalid YAML', async () => {
+        await vault.writeFile('.spark/triggers/wrong.yaml', 'name: not-a-list\n');
+        await vault.writeFile('.spark/triggers/broken.yaml', 'triggers: [\n');
+
+        const triggers = await loader.loadTriggers(vault.path);
+        const errors = loader.getLastErrors();
+
+        expect(triggers).toEqual([]);
+        expect(errors.map((e) => e.source).sort()).toEqual([
+            '.spark/triggers/broken.yaml',
+            '.spark/triggers/wrong.yaml',
+        ]);
+    });
+
+    it('should skip duplicate trigger names', async () => {
+        const trigger = `triggers:
+  - name: same
+    watch: { directory: notes/, event: file_created }
+    instructions: first
+`;
+        await vault.writeFile('.spark/triggers/a.yaml', trigger);
+        await vault.writeFile('.spark/triggers/b.yaml', trigger.replace('first', 'second'));
+
+        const triggers = await loader.loadTriggers(vault.path);
+
+        expect(triggers).toHaveLength(1);
+        expect(triggers[0]?.instructions).toBe('first');
+        expect(loader.getLastErrors()[0]?.message).toContain('Duplicate');
+    });
+});
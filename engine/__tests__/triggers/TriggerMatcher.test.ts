@@ -0,0 +1,160 @@
+import { TriggerMatcher } from '../../src/triggers/TriggerMatcher.js';
+import type { Trigger, TriggerWatch } from '../../src/types/trigger.js';
+import type { FileChange } from '../../src/types/watcher.js';
+
+function makeTrigger(name: string, watch: Partial<TriggerWatch>, priority = 0): Trigger {
+    return {
+        name,
+        description: '',
+        watch: { directory: 'emails/', ...watch },
+        instructions: 'Do it',
+        priority,
+    };
+}
+
+function makeChange(path: string, type: FileChange['type'] = 'change'): FileChange {
+    return { path, type, timestamp: Date.now() };
+}
+
+describe('TriggerMatcher', () => {
+    let matcher: TriggerMatcher;
+
+    beforeEach(() => {
+        matcher = new TriggerMatcher();
+    });
+
+    describe('frontmatter transitions', () => {
+        const trigger = makeTrigger('send', {
+            frontmatter_field: 'status',
+            from_value: 'draft',
+            to_value: 'sent',
+        });
+
+        it('should match the configured transition', () => {
+            const result = matcher.findMatching(
+                makeChange('emails/proposal.md'),
+                [{ field: 'status', oldValue: 'draft', newValue: 'sent' }],
+                [trigger]
+            );
+            expect(result).toEqual([trigger]);
+        });
+
+        it('should not match other transitions', () => {
+            const result = matcher.findMatching(
+                makeChange('emails/proposal.md'),
+                [{ field: 'status', oldValue: 'review', newValue: 'sent' }],
+                [trigger]
+            );
+            expect(result).toEqual([]);
+        });
+
+        it('should not match without frontmatter changes', () => {
+            expect(matcher.findMatching(makeChange('emails/proposal.md'), [], [trigger])).toEqual([]);
+        });
+
+        it('should treat missing from_value as any previous value', () => {
+            const anyFrom = makeTrigger('any', { frontmatter_field: 'status', to_value: 'sent' });
+            const result = matcher.findMatching(
+                makeChange('emails/proposal.md'),
+                [{ field: 'status', oldValue: undefined, newValue: 'sent' }],
+                [anyFrom]
+            );
+            expect(result).toEqual([anyFrom]);
+        });
+
+        it('should compare non-string values as strings', () => {
+            const flag = makeTrigger('flag', { frontmatter_field: 'done', to_value: 'true' });
+            const result = matcher.findMatching(
+                makeChange('emails/proposal.md'),
+                [{ field: 'done', oldValue: false, newValue: true }],
+                [flag]
+            );
+            expect(result).toEqual([flag]);
+        });
+
+        it('should not fire on deleted files', () => {
+            const result = matcher.findMatching(
+                makeChange('emails/proposal.md', 'unlink'),
+                [{ field: 'status', oldValue: 'draft', newValue: 'sent' }],
+                [trigger]
+            );
+            expect(result).toEqual([]);
+        });
+    });
+
+    describe('file events', () => {
+        it('should map change types to events', () => {
+            const created = makeTrigger('created', { event: 'file_created' });
+            const modified = makeTrigger('modified', { event: 'file_modified' });
+            const deleted = makeTrigger('deleted', { event: 'file_deleted' });
+            const all = [created, modified, deleted];
+
+            expect(matcher.findMatching(makeChange('emails/a.md', 'add'), [], all)).toEqual([created]);
+            expect(matcher.findMatching(makeChange('emails/a.md', 'change'), [], all)).toEqual([
+                modified,
+            ]);
+            expect(matcher.findMatching(makeChange('emails/a.md', 'unlink'), [], all)).toEqual([
+                deleted,
+            ]);
+        });
+
+        it('should require both event and transition when both are set', () => {
+            const trigger = makeTrigger('both', {
+                event: 'file_modified',
+                frontmatter_field: 'status',
+                to_value: 'done',
+            });
+
+            expect(matcher.findMatching(makeChange('emails/a.md'), [], [trigger])).toEqual([]);
+            expect(
+                matcher.findMatching(
+                    makeChange('emails/a.md'),
+                    [{ field: 'status', oldValue: 'todo', newValue: 'done' }],
+                    [trigger]
+                )
+            ).toEqual([trigger]);
+        });
+    });
+
+    describe('location matching', () => {
+        it('should only match files inside the directory', () => {
+            const trigger = makeTrigger('t', { event: 'file_created' });
+            expect(matcher.matchesLocation(trigger, 'emails/a.md')).toBe(true);
+            expect(matcher.matchesLocation(trigger, 'emails/sent/a.md')).toBe(true);
+            expect(matcher.matchesLocation(trigger, 'emails-old/a.md')).toBe(false);
+            expect(matcher.matchesLocation(trigger, 'notes/a.md')).toBe(false);
+        });
+
+        it('should treat an empty or "." directory as the whole vault', () => {
+            expect(matcher.matchesLocation(makeTrigger('t', { directory: '' }), 'a/b.md')).toBe(true);
+            expect(matcher.matchesLocation(makeTrigger('t', { directory: './' }), 'a/b.md')).toBe(true);
+        });
+
+        it('should normalize directories without trailing slash', () => {
+            const trigger = makeTrigger('t', { directory: './emails' });
+            expect(matcher.matchesLocation(trigger, 'emails/a.md')).toBe(true);
+        });
+
+        it('should match basename patterns at any depth', () => {
+            const trigger = makeTrigger('t', { pattern: 'invoice-*.md' });
+            expect(matcher.matchesLocation(trigger, 'emails/invoice-1.md')).toBe(true);
+            expect(matcher.matchesLocation(trigger, 'emails/2025/invoice-2.md')).toBe(true);
+            expect(matcher.matchesLocation(trigger, 'emails/receipt.md')).toBe(false);
+        });
+
+        it('should match path patterns relative to the directory', () => {
+            const trigger = makeTrigger('t', { pattern: 'inbox/**/*.md' });
+            expect(matcher.matchesLocation(trigger, 'emails/inbox/a.md')).toBe(true);
+            expect(matcher.matchesLocation(trigger, 'emails/sent/a.md')).toBe(false);
+        });
+    });
+
+    it('should order matches by priority, highest first', () => {
+        const low = makeTrigger('low', { event: 'file_created' }, 1);
+        const high = makeTrigger('high', { event: 'file_created' }, 10);
+
+        const result = matcher.findMatching(makeChange('emails/a.md', 'add'), [], [low, high]);
+
+        expect(result.map((t) => t.name)).toEqual(['high', 'low']);
+    });
+});
@@ -0,0 +1,168 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import {
+    UsageLedger,
+    estimateCost,
+    monthKey,
+    rollupUsage,
+} from '../../src/usage/UsageLedger.js';
+import { Logger } from '../../src/logger/Logger.js';
+import type { UsageRecord } from '../../src/types/usage.js';
+import { TestVault } from '../utils/TestVault.js';
+
+function usageRecord(overrides: Partial<UsageRecord> = {}): UsageRecord {
+    return {
+        timestamp: new Date(2025, 2, 14, 10).getTime(),
+        source: 'command',
+        provider: 'claude-client',
+        model: 'claude-sonnet-4-5-20250929',
+        inputTokens: 1000,
+        outputTokens: 100,
+        costUsd: 0.0045,
+        ...overrides,
+    };
+}
+
+describe('UsageLedger', () => {
+    let vault: TestVault;
+
+    beforeEach(async () => {
+        Logger.resetInstance();
+        Logger.getInstance({ level: 'error', console: false });
+        vault = new TestVault();
+        await vault.create();
+    });
+
+    afterEach(async () => {
+        await vault.cleanup();
+    });
+
+    it('should append records to the monthly ledger file', () => {
+        const ledger = new UsageLedger(vault.root);
+
+        const record = ledger.record(
+            { source: 'chat', agent: 'betty', file: 'notes/a.md' },
+            'claude-client',
+            'claude-sonnet-4-5-20250929',
+            { inputTokens: 2000, outputTokens: 500 }
+        );
+        ledger.record({ source: 'chat_name' }, 'ollama', 'llama3.1', {
+            inputTokens: 50,
+            outputTokens: 5,
+        });
+
+        const file = join(vault.root, '.spark', 'usage', `${monthKey(Date.now())}.jsonl`);
+        expect(existsSync(file)).toBe(true);
+        expect(readFileSync(file, 'utf-8').trim().split('\n')).toHaveLength(2);
+        expect(record.costUsd).toBeCloseTo(0.0135);
+
+        const records = ledger.read();
+        expect(records.map((r) => r.source)).toEqual(['chat', 'chat_name']);
+        expect(records[1]!.costUsd).toBeUndefined();
+    });
+
+    it('should use configured prices before built-in ones', () => {
+        const ledger = new UsageLedger(vault.root, {
+            prices: { 'llama3.1': { input: 1, output: 1 } },
+        });
+
+        const record = ledger.record({ source: 'command' }, 'ollama', 'llama3.1', {
+            inputTokens: 500000,
+            outputTokens: 500000,
+        });
+
+        expect(record.costUsd).toBe(1);
+    });
+
+    it('should only read records since the given time', async () => {
+        const march = usageRecord();
+        const april = usageRecord({ timestamp: new Date(2025, 3, 2).getTime() });
+        await vault.writeFile('.spark/usage/2025-03.jsonl', `${JSON.stringify(march)}\n`);
+        await vault.writeFile(
+            '.spark/usage/2025-04.jsonl',
+            `${JSON.stringify(april)}\n{"partial":\n`
+        );
+
+        const ledger = new UsageLedger(vault.root);
+
+        expect(ledger.read()).toHaveLength(2);
+        expect(ledger.read(new Date(2025, 3, 1).getTime())).toEqual([april]);
+    });
+
+    describe('checkLimits', () => {
+        const spend = (ledger: UsageLedger, agent: string, tokens: number) =>
+            ledger.record({ source: 'command', agent }, 'claude-client', 'claude-sonnet-4-5', {
+                inputTokens: tokens,
+                outputTokens: 0,
+            });
+
+        it('should allow calls under the cap', () => {
+            const ledger = new UsageLedger(vault.root, {
+                limits: { agents: { betty: { monthly_tokens: 10000 } } },
+            });
+            spend(ledger, 'betty', 5000);
+
+            expect(() => ledger.checkLimits('betty', 'claude-client')).not.toThrow();
+        });
+
+        it('should block an agent that reached its monthly token cap', () => {
+            const ledger = new UsageLedger(vault.root, {
+                limits: { agents: { betty: { monthly_tokens: 10000 } } },
+            });
+            spend(ledger, 'betty', 10000);
+
+            expect(() => ledger.checkLimits('betty', 'claude-client')).toThrow(
+                'Monthly usage limit reached for agent "betty" (10,000 of 10,000 tokens)'
+            );
+            expect(() => ledger.checkLimits('alice', 'claude-client')).not.toThrow();
+        });
+
+        it('should block a provider that reached its monthly cost cap', () => {
+            const ledger = new UsageLedger(vault.root, {
+                limits: { providers: { 'claude-client': { monthly_cost_usd: 1 } } },
+            });
+            spend(ledger, 'betty', 400000);
+
+            expect(() => ledger.checkLimits(undefined, 'claude-client')).toThrow(
+                expect.objectContaining({ code: 'USAGE_LIMIT_EXCEEDED' })
+            );
+        });
+    });
+
+    describe('estimateCost', () => {
+        it('should match the longest model prefix', () => {
+            expect(estimateCost('gpt-4o-mini', 1000000, 0)).toBe(0.15);
+            expect(estimateCost('gpt-4o-2024-08-06', 1000000, 0)).toBe(2.5);
+            expect(estimateCost('llama3.1', 1000000, 1000000)).toBeUndefined();
+        });
+    });
+
+    describe('rollupUsage', () => {
+        const records = [
+            usageRecord({ agent: 'betty' }),
+            usageRecord({ agent: 'betty', timestamp: new Date(2025, 2, 15).getTime() }),
+            usageRecord({ model: 'gpt-4o', provider: 'openai', costUsd: 0.01 }),
+        ];
+
+        it('should group by day, newest first', () => {
+            expect(rollupUsage(records, 'day').map((r) => [r.key, r.calls])).toEqual([
+                ['2025-03-15', 1],
+                ['2025-03-14', 2],
+            ]);
+        });
+
+        it('should group by agent with the most expensive first', () => {
+            expect(rollupUsage(records, 'agent')).toEqual([
+                { key: '(none)', calls: 1, inputTokens: 1000, outputTokens: 100, costUsd: 0.01 },
+                { key: 'betty', calls: 2, inputTokens: 2000, outputTokens: 200, costUsd: 0.009 },
+            ]);
+        });
+
+        it('should group by model', () => {
+            expect(rollupUsage(records, 'model').map((r) => r.key)).toEqual([
+                'gpt-4o',
+                'claude-sonnet-4-5-20250929',
+            ]);
+        });
+    });
+});
@@ -0,0 +1,108 @@
+import { readFileSync } from 'fs';
+import { Logger } from '../../src/logger/Logger.js';
+import { ApprovalRunner, parseReviewNote } from '../../src/workflows/ApprovalRunner.js';
+import type { ExecutionContext, WorkflowNode } from '../../src/workflows/types.js';
+import { TestVault } from '../utils/TestVault.js';
+
+describe('ApprovalRunner', () => {
+    let vault: TestVault;
+    let runner: ApprovalRunner;
+
+    const node: WorkflowNode = {
+        id: 'review',
+        type: 'approval',
+        position: { x: 0, y: 0 },
+        data: { type: 'approval', label: 'Review draft', instructions: 'Check the tone.' },
+    };
+
+    const context = { workflowId: 'wf_test', runId: 'run_1' } as ExecutionContext;
+    const notePath = 'Approvals/Review draft (run_1).md';
+
+    const read = (path = notePath) => readFileSync(vault.getAbsolutePath(path), 'utf-8');
+
+    // Decide the note the way a reviewer would, optionally editing the output section
+    const decide = async (decision: string, output?: string, path = notePath) => {
+        let content = read(path).replace('spark_approval: pending', `spark_approval: ${decision}`);
+        if (output !== undefined) {
+            content = `${content.slice(0, content.indexOf('## Output'))}## Output\n\n${output}\n`;
+        }
+        await vault.writeFile(path, content);
+    };
+
+    beforeEach(async () => {
+        Logger.resetInstance();
+        const logger = Logger.getInstance({ level: 'error', console: false });
+        vault = new TestVault();
+        await vault.create();
+        runner = new ApprovalRunner(vault.root, logger);
+    });
+
+    afterEach(async () => {
+        await vault.cleanup();
+    });
+
+    it('should write a pending review note with the upstream output', async () => {
+        const outcome = await runner.run(node, 'Draft text', context, 1);
+
+        expect(outcome).toEqual({ notePath, output: 'Draft text' });
+        const content = read();
+        expect(parseReviewNote(content)).toEqual({
+            decision: 'pending',
+            workflowId: 'wf_test',
+            runId: 'run_1',
+            nodeId: 'review',
+        });
+        expect(content).toContain('Check the tone.');
+        expect(content).toContain('## Output\n\nDraft text\n');
+    });
+
+    it('should keep waiting while the note is pending', async () => {
+        await runner.run(node, 'Draft text', context, 1);
+
+        const outcome = await runner.run(node, 'Draft text', context, 1);
+
+        expect(outcome.decision).toBeUndefined();
+    });
+
+    it('should pass on the original output when approved without edits', async () => {
+        const input = { title: 'Plan', score: 3 };
+        await runner.run(node, input, context, 1);
+        await decide('approved');
+
+        const outcome = await runner.run(node, input, context, 1);
+
+        expect(outcome.decision).toBe('approved');
+        expect(outcome.output).toEqual(input);
+    });
+
+    it('should pass on edited text and edited JSON', async () => {
+        await runner.run(node, 'Draft text', context, 1);
+        await decide('approved', 'Final text');
+        expect((await runner.run(node, 'Draft text', context, 1)).output).toBe('Final text');
+
+        await runner.run(node, { score: 3 }, context, 2);
+        await decide('approved', '```json\n{ "score": 5 }\n```', 'Approvals/Review draft (run_1 #2).md');
+        expect((await runner.run(node, { score: 3 }, context, 2)).output).toEqual({ score: 5 });
+    });
+
+    it('should report a rejection', async () => {
+        await runner.run(node, 'Draft text', context, 1);
+        await decide('rejected');
+
+        const outcome = await runner.run(node, 'Draft text', context, 1);
+
+        expect(outcome.decision).toBe('rejected');
+    });
+
+    it('should name notes per visit and keep them out of hidden folders', () => {
+        expect(runner.notePath(node, 'run_1', 2)).toBe('Approvals/Review draft (run_1 #2).md');
+        expect(() =>
+            runner.notePath({ ...node, data: { type: 'approval', label: 'Review draft', folder: '.spark' } }, 'run_1', 1)
+        ).toThrow('folder in the vault');
+    });
+
+    it('should ignore notes without a review decision', () => {
+        expect(parseReviewNote('---\ntitle: A\n---\n\nBody')).toBeNull();
+        expect(parseReviewNote('---\nspark_approval: maybe\nworkflow: a\nrun: b\nstep: c\n---\n')).toBeNull();
+    });
+});
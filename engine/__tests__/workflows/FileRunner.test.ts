@@ -0,0 +1,205 @@
+import { readFileSync } from 'fs';
+import { Logger } from '../../src/logger/Logger.js';
+import { appendToNote, FileRunner, renderTemplate } from '../../src/workflows/FileRunner.js';
+import type { FileNodeData, WorkflowNode } from '../../src/workflows/types.js';
+import { TestVault } from '../utils/TestVault.js';
+
+describe('FileRunner', () => {
+    let vault: TestVault;
+    let runner: FileRunner;
+
+    const fileNode = (data: Omit<FileNodeData, 'label'>): WorkflowNode => ({
+        id: 'file_1',
+        type: 'file',
+        position: { x: 0, y: 0 },
+        data: { type: 'file', label: 'File', ...data },
+    });
+
+    const read = (path: string) => readFileSync(vault.getAbsolutePath(path), 'utf-8');
+
+    beforeEach(async () => {
+        Logger.resetInstance();
+        const logger = Logger.getInstance({ level: 'error', console: false });
+        vault = new TestVault();
+        await vault.create();
+        runner = new FileRunner(vault.root, logger);
+    });
+
+    afterEach(async () => {
+        await vault.cleanup();
+    });
+
+    describe('renderTemplate', () => {
+        it('should substitute $input and nested fields', () => {
+            const input = { title: 'Plan', meta: { folder: 'Projects' } };
+            expect(renderTemplate('$input.meta.folder/$input.title.md', input)).toBe('Projects/Plan.md');
+            expect(renderTemplate('Notes/$input.md', 'Weekly')).toBe('Notes/Weekly.md');
+        });
+
+        it('should leave unknown fields in place', () => {
+            expect(renderTemplate('$input.missing', { title: 'x' })).toBe('$input.missing');
+        });
+    });
+
+    describe('read', () => {
+        it('should read a single note with frontmatter', async () => {
+            await vault.writeFile('Notes/a.md', '---\nstatus: draft\n---\n\nHello');
+
+            const output = await runner.run(fileNode({ operation: 'read', path: 'Notes/a' }), null);
+
+            expect(output).toEqual({
+                path: 'Notes/a.md',
+                content: 'Hello',
+                frontmatter: { status: 'draft' },
+            });
+        });
+
+        it('should read every note in a folder and notes matching a glob', async () => {
+            await vault.writeFile('Inbox/one.md', 'One');
+            await vault.writeFile('Inbox/sub/two.md', 'Two');
+            await vault.writeFile('Inbox/image.png', 'png');
+
+            const folder = (await runner.run(fileNode({ operation: 'read', path: 'Inbox/' }), null)) as {
+                files: { path: string }[];
+                count: number;
+            };
+            expect(folder.files.map((f) => f.path)).toEqual(['Inbox/one.md', 'Inbox/sub/two.md']);
+            expect(folder.count).toBe(2);
+
+            const matched = (await runner.run(fileNode({ operation: 'read', path: 'Inbox/*.md' }), null)) as {
+                files: { path: string }[];
+            };
+            expect(matched.files.map((f) => f.path)).toEqual(['Inbox/one.md']);
+        });
+    });
+
+    describe('write', () => {
+        it('should create a note from a template with $input', async () => {
+            await vault.writeFile('Templates/meeting.md', '# $input.title\n\nAttendees: $input.people');
+
+            const output = await runner.run(
+                fileNode({ operation: 'write', path: 'Meetings/$input.title', template: 'Templates/meeting' }),
+                { title: 'Kickoff', people: 'Ann, Bo' }
+            );
+
+            expect(read('Meetings/Kickoff.md')).toBe('# Kickoff\n\nAttendees: Ann, Bo');
+            expect(output).toMatchObject({ path: 'Meetings/Kickoff.md' });
+        });
+
+        it('should refuse to overwrite unless enabled', async () => {
+            await vault.writeFile('a.md', 'old');
+
+            await expect(
+                runner.run(fileNode({ operation: 'write', path: 'a.md', content: 'new' }), null)
+            ).rejects.toThrow('Note already exists');
+
+            await runner.run(fileNode({ operation: 'write', path: 'a.md', content: 'new', overwrite: true }), null);
+            expect(read('a.md')).toBe('new');
+        });
+
+        it('should report each write to the listener', async () => {
+            const writes: Array<[string, string]> = [];
+            const logger = Logger.getInstance();
+            runner = new FileRunner(vault.root, logger, (filePath, content) => writes.push([filePath, content]));
+
+            await runner.run(fileNode({ operation: 'write', path: 'a.md', content: 'Hello' }), null);
+
+            expect(writes).toEqual([[vault.getAbsolutePath('a.md'), 'Hello']]);
+        });
+    });
+
+    describe('append', () => {
+        it('should append at the end of a heading section', () => {
+            const note = '# Day\n\n## Log\n\n- first\n\n## Todo\n\n- task\n';
+            expect(appendToNote(note, '- second', 'Log')).toBe(
+                '# Day\n\n## Log\n\n- first\n- second\n\n## Todo\n\n- task\n'
+            );
+        });
+
+        it('should ignore headings inside code blocks', () => {
+            const note = '```\n## Log\n```\n\n## Log\n\n- first\n';
+            expect(appendToNote(note, '- second', '## Log')).toBe('```\n## Log\n```\n\n## Log\n\n- first\n- second\n');
+        });
+
+        it('should add a missing heading and create missing notes', async () => {
+            await runner.run(
+                fileNode({ operation: 'append', path: 'Daily/today', heading: 'Links', content: '- $input' }),
+                'https://example.com'
+            );
+
+            expect(read('Daily/today.md')).toBe('## Links\n\n- https://example.com\n');
+        });
+    });
+
+    describe('frontmatter', () => {
+        it('should set fields and keep existing formatting', async () => {
+            await vault.writeFile('a.md', '---\ntitle: A # keep\n---\n\nBody\n');
+
+            const output = await runner.run(
+                fileNode({
+                    operation: 'frontmatter',
+                    path: 'a.md',
+                    fields: { status: 'done', score: '$input.score', count: '3' },
+                }),
+                { score: [1, 2] }
+            );
+
+            expect(read('a.md')).toBe('---\ntitle: A # keep\nstatus: done\nscore:\n  - 1\n  - 2\ncount: 3\n---\n\nBody\n');
+            expect(output).toMatchObject({ frontmatter: { status: 'done', count: 3 } });
+        });
+
+        it('should add frontmatter to a note without any', async () => {
+            await vault.writeFile('b.md', '# B\n');
+
+            await runner.run(fileNode({ operation: 'frontmatter', path: 'b.md', fields: { tags: 'x' } }), null);
+
+            expect(read('b.md')).toBe('---\ntags: x\n---\n# B\n');
+        });
+    });
+
+    describe('move', () => {
+        it('should move a note into a folder', async () => {
+            await vault.writeFile('Inbox/a.md', 'A');
+
+            const output = await runner.run(
+                fileNode({ operation: 'move', path: 'Inbox/a.md', destination: 'Archive/' }),
+                null
+            );
+
+            expect(output).toEqual({ from: 'Inbox/a.md', path: 'Archive/a.md' });
+            expect(await vault.fileExists('Inbox/a.md')).toBe(false);
+            expect(read('Archive/a.md')).toBe('A');
+        });
+    });
+
+    describe('path confinement', () => {
+        it('should reject paths outside the vault', async () => {
+            await expect(
+                runner.run(fileNode({ operation: 'write', path: '../escape.md', content: 'x' }), null)
+            ).rejects.toThrow('outside the vault');
+            await expect(
+                runner.run(fileNode({ operation: 'read', path: '$input' }), '../../etc/passwd')
+            ).rejects.toThrow('outside the vault');
+            await expect(runner.run(fileNode({ operation: 'read', path: '../**/*.md' }), null)).rejects.toThrow(
+                'outside the vault'
+            );
+        });
+
+        it('should reject Spark and Obsidian folders', async () => {
+            await expect(
+                runner.run(fileNode({ operation: 'write', path: '.spark/config.yaml', content: 'x' }), null)
+            ).rejects.toThrow('.spark/');
+
+            await vault.writeFile('a.md', 'A');
+            await expect(
+                runner.run(fileNode({ operation: 'move', path: 'a.md', destination: '.obsidian/' }), null)
+            ).rejects.toThrow('.obsidian/');
+        });
+
+        it('should reject paths with unresolved fields', async () => {
+            await expect(
+                runner.run(fileNode({ operation: 'write', path: 'Notes/$input.title', content: 'x' }), { name: 'x' })
+            ).rejects.toThrow('does not have');
+        });
+    });
+});
@@ -0,0 +1,652 @@
+import { readFileSync } from 'fs';
+import { jest } from '@jest/globals';
+import type { CommandExecutor } from '../../src/execution/CommandExecutor.js';
+import { Logger } from '../../src/logger/Logger.js';
+import type {
+    StepPolicy,
+    WorkflowDefinition,
+    WorkflowEdge,
+    WorkflowNode,
+    WorkflowPromptRequest,
+    WorkflowQueueItem,
+    WorkflowRun,
+    WorkflowRunControl,
+    WorkflowSettings,
+} from '../../src/workflows/types.js';
+import { WorkflowExecutor } from '../../src/workflows/WorkflowExecutor.js';
+import { TestVault } from '../utils/TestVault.js';
+
+describe('WorkflowExecutor', () => {
+    let vault: TestVault;
+    let executor: WorkflowExecutor;
+    let active: number;
+    let maxActive: number;
+    let flaky: boolean;
+    let failedOnce: boolean;
+
+    const prompt = (id: string, label = id): WorkflowNode => ({
+        id,
+        type: 'prompt',
+        position: { x: 0, y: 0 },
+        data: { type: 'prompt', label, prompt: id },
+    });
+
+    const code = (id: string, body: string): WorkflowNode => ({
+        id,
+        type: 'code',
+        position: { x: 0, y: 0 },
+        data: { type: 'code', label: id, code: body },
+    });
+
+    const join = (id: string, mode: 'all' | 'any' = 'all', count?: number): WorkflowNode => ({
+        id,
+        type: 'join',
+        position: { x: 0, y: 0 },
+        data: { type: 'join', label: id, mode, count },
+    });
+
+    const withPolicy = (node: WorkflowNode, policy: StepPolicy): WorkflowNode =>
+        ({ ...node, data: { ...node.data, policy } }) as WorkflowNode;
+
+    const edge = (source: string, target: string): WorkflowEdge => ({
+        id: `${source}-${target}`,
+        source,
+        target,
+    });
+
+    const queuePath = '.spark/workflow-queue/run_1.json';
+
+    const readRun = () =>
+        JSON.parse(readFileSync(vault.getAbsolutePath('.spark/workflow-runs/wf_test/run_1.json'), 'utf-8')) as WorkflowRun;
+
+    const writeQueueItem = (item: Partial<WorkflowQueueItem>) =>
+        vault.writeFile(
+            queuePath,
+            JSON.stringify({ workflowId: 'wf_test', runId: 'run_1', status: 'pending', timestamp: Date.now(), ...item })
+        );
+
+    const writeWorkflow = (
+        nodes: WorkflowNode[],
+        edges: WorkflowEdge[],
+        settings: WorkflowSettings = {},
+        id = 'wf_test'
+    ) =>
+        vault.writeFile(
+            `.spark/workflows/${id}.json`,
+            JSON.stringify({
+                id,
+                name: 'Test',
+                version: 1,
+                nodes,
+                edges,
+                settings,
+                created: '2025-03-01T00:00:00.000Z',
+                updated: '2025-03-01T00:00:00.000Z',
+            })
+        );
+
+    const run = async (
+        nodes: WorkflowNode[],
+        edges: WorkflowEdge[],
+        settings: WorkflowSettings = {}
+    ): Promise<WorkflowRun> => {
+        await writeWorkflow(nodes, edges, settings);
+        await writeQueueItem({});
+        await executor.processQueueFile(queuePath);
+        return readRun();
+    };
+
+    // Start a run and send a stop request while its first prompt is in flight
+    const runAndStop = async (
+        nodes: WorkflowNode[],
+        edges: WorkflowEdge[],
+        control: WorkflowRunControl
+    ): Promise<WorkflowRun> => {
+        await writeWorkflow(nodes, edges);
+        await writeQueueItem({});
+        const running = executor.processQueueFile(queuePath);
+
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        await writeQueueItem({ status: 'processing', control });
+        await executor.processQueueFile(queuePath);
+
+        await running;
+        return readRun();
+    };
+
+    const resume = async (): Promise<WorkflowRun> => {
+        await writeQueueItem({ resume: true });
+        await executor.processQueueFile(queuePath);
+        return readRun();
+    };
+
+    const countRuns = (result: WorkflowRun, nodeId: string) =>
+        result.stepResults.filter((s) => s.nodeId === nodeId).length;
+
+    beforeEach(async () => {
+        Logger.resetInstance();
+        const logger = Logger.getInstance({ level: 'error', console: false });
+        vault = new TestVault();
+        await vault.create();
+        active = 0;
+        maxActive = 0;
+        flaky = true;
+        failedOnce = false;
+
+        // Prompt steps take 30ms (or until aborted) and answer with their prompt text
+        const commandExecutor = {
+            executeWorkflowPrompt: async (request: WorkflowPromptRequest) => {
+                active++;
+                maxActive = Math.max(maxActive, active);
+                try {
+                    await new Promise((resolve, reject) => {
+                        const timer = setTimeout(resolve, 30);
+                        request.signal?.addEventListener('abort', () => {
+                            clearTimeout(timer);
+                            reject(new Error('AI request cancelled'));
+                        });
+                    });
+                } finally {
+                    active--;
+                }
+                if (request.task === 'fail' || (request.task === 'flaky' && flaky)) {
+                    throw new Error('provider down');
+                }
+                if (request.task === 'fail-once' && !failedOnce) {
+                    failedOnce = true;
+                    throw new Error('provider down');
+                }
+                return request.task;
+            },
+        } as unknown as CommandExecutor;
+        executor = new WorkflowExecutor(vault.root, logger, commandExecutor);
+    });
+
+    afterEach(async () => {
+        await vault.cleanup();
+    });
+
+    it('should run branches concurrently and join their outputs by label', async () => {
+        const result = await run(
+            [code('start', 'return 1;'), prompt('a', 'Research A'), prompt('b', 'Research B'), prompt('c'), join('merge')],
+            [edge('start', 'a'), edge('start', 'b'), edge('start', 'c'), edge('a', 'merge'), edge('b', 'merge'), edge('c', 'merge')]
+        );
+
+        expect(result.status).toBe('completed');
+        expect(maxActive).toBe(3);
+        expect(countRuns(result, 'merge')).toBe(1);
+        expect(result.output).toEqual({ 'Research A': 'a', 'Research B': 'b', c: 'c' });
+    });
+
+    it('should cap concurrent steps with maxParallelSteps', async () => {
+        const result = await run(
+            [code('start', 'return 1;'), prompt('a'), prompt('b'), prompt('c'), join('merge')],
+            [edge('start', 'a'), edge('start', 'b'), edge('start', 'c'), edge('a', 'merge'), edge('b', 'merge'), edge('c', 'merge')],
+            { maxParallelSteps: 2 }
+        );
+
+        expect(result.status).toBe('completed');
+        expect(maxActive).toBe(2);
+    });
+
+    it('should continue after the first branch in any mode', async () => {
+        const result = await run(
+            [code('start', 'return 1;'), code('fast', 'return "fast";'), prompt('slow'), join('first', 'any'), code('after', 'return input;')],
+            [edge('start', 'fast'), edge('start', 'slow'), edge('fast', 'first'), edge('slow', 'first'), edge('first', 'after')]
+        );
+
+        expect(countRuns(result, 'after')).toBe(1);
+        expect(result.stepResults.find((s) => s.nodeId === 'after')?.output).toEqual({ fast: 'fast' });
+    });
+
+    it('should run a join with the branches that arrived when others are routed away', async () => {
+        const result = await run(
+            [
+                code('start', 'return 1;'),
+                code('a', 'return "a";'),
+                { id: 'check', type: 'condition', position: { x: 0, y: 0 }, data: { type: 'condition', label: 'check', expression: 'false', maxCycles: 1 } },
+                code('b', 'return "b";'),
+                join('merge'),
+            ],
+            [
+                edge('start', 'a'),
+                edge('start', 'check'),
+                { ...edge('check', 'b'), sourceHandle: 'true' },
+                edge('a', 'merge'),
+                edge('b', 'merge'),
+            ]
+        );
+
+        expect(result.status).toBe('completed');
+        expect(result.output).toEqual({ a: 'a' });
+    });
+
+    it('should run a prompt fed by two parallel branches once, after both', async () => {
+        const result = await run(
+            [code('start', 'return 1;'), prompt('a'), code('b', 'return "b";'), prompt('summary')],
+            [edge('start', 'a'), edge('start', 'b'), edge('a', 'summary'), edge('b', 'summary')]
+        );
+
+        expect(result.status).toBe('completed');
+        expect(countRuns(result, 'summary')).toBe(1);
+        expect(result.stepResults.find((s) => s.nodeId === 'summary')?.input).toEqual({ a: 'a', b: 'b' });
+    });
+
+    it('should run a step rejoining a condition\'s branches as soon as the taken branch arrives', async () => {
+        const result = await run(
+            [
+                code('start', 'return 1;'),
+                { id: 'check', type: 'condition', position: { x: 0, y: 0 }, data: { type: 'condition', label: 'check', expression: 'true', maxCycles: 1 } },
+                prompt('a'),
+                code('b', 'return "b";'),
+                prompt('summary'),
+                prompt('side1'),
+                prompt('side2'),
+                prompt('side3'),
+            ],
+            [
+                edge('start', 'check'),
+                { ...edge('check', 'a'), sourceHandle: 'true' },
+                { ...edge('check', 'b'), sourceHandle: 'false' },
+                edge('a', 'summary'),
+                edge('b', 'summary'),
+                edge('start', 'side1'),
+                edge('side1', 'side2'),
+                edge('side2', 'side3'),
+            ]
+        );
+
+        const order = result.stepResults.map((s) => s.nodeId);
+        expect(result.status).toBe('completed');
+        expect(countRuns(result, 'b')).toBe(0);
+        expect(countRuns(result, 'summary')).toBe(1);
+        expect(order.indexOf('summary')).toBeGreaterThan(order.indexOf('a'));
+        expect(order.indexOf('summary')).toBeLessThan(order.indexOf('side3'));
+        expect(result.stepResults.find((s) => s.nodeId === 'summary')?.input).toEqual({ a: 'a' });
+    });
+
+    it('should run a waiting step once a condition rules out its other parent', async () => {
+        const result = await run(
+            [
+                code('start', 'return 1;'),
+                code('a', 'return "a";'),
+                prompt('slow'),
+                { id: 'check', type: 'condition', position: { x: 0, y: 0 }, data: { type: 'condition', label: 'check', expression: 'false', maxCycles: 1 } },
+                prompt('c'),
+                prompt('summary'),
+                prompt('side1'),
+                prompt('side2'),
+                prompt('side3'),
+            ],
+            [
+                edge('start', 'a'),
+                edge('start', 'slow'),
+                edge('slow', 'check'),
+                { ...edge('check', 'c'), sourceHandle: 'true' },
+                edge('a', 'summary'),
+                edge('c', 'summary'),
+                edge('start', 'side1'),
+                edge('side1', 'side2'),
+                edge('side2', 'side3'),
+            ]
+        );
+
+        const order = result.stepResults.map((s) => s.nodeId);
+        expect(result.status).toBe('completed');
+        expect(countRuns(result, 'c')).toBe(0);
+        expect(countRuns(result, 'summary')).toBe(1);
+        expect(order.indexOf('summary')).toBeGreaterThan(order.indexOf('check'));
+        expect(order.indexOf('summary')).toBeLessThan(order.indexOf('side3'));
+    });
+
+    it('should fail the run when a branch fails without starting new steps', async () => {
+        const result = await run(
+            [code('start', 'return 1;'), prompt('fail'), prompt('ok'), join('merge'), code('after', 'return 1;')],
+            [edge('start', 'fail'), edge('start', 'ok'), edge('fail', 'merge'), edge('ok', 'merge'), edge('merge', 'after')]
+        );
+
+        expect(result.status).toBe('failed');
+        expect(result.error).toContain('provider down');
+        expect(countRuns(result, 'ok')).toBe(1);
+        expect(countRuns(result, 'merge')).toBe(0);
+        expect(countRuns(result, 'after')).toBe(0);
+    });
+
+    describe('step policies', () => {
+        it('should retry a failed step and keep one result for it', async () => {
+            const result = await run(
+                [withPolicy(prompt('fail-once'), { maxRetries: 2, retryDelayMs: 1 }), code('after', 'return input;')],
+                [edge('fail-once', 'after')]
+            );
+
+            expect(result.status).toBe('completed');
+            expect(countRuns(result, 'fail-once')).toBe(1);
+            expect(result.stepResults[0]).toMatchObject({ status: 'completed', attempts: 2 });
+            expect(result.output).toBe('fail-once');
+        });
+
+        it('should pass null on when a step keeps failing with continue', async () => {
+            const result = await run(
+                [
+                    withPolicy(prompt('fail'), { maxRetries: 1, retryDelayMs: 1, onError: 'continue' }),
+                    code('after', 'return input === null ? "no draft" : input;'),
+                ],
+                [edge('fail', 'after')]
+            );
+
+            expect(result.status).toBe('completed');
+            expect(result.stepResults[0]).toMatchObject({
+                status: 'failed',
+                attempts: 2,
+                errorHandled: 'continue',
+                error: 'provider down',
+            });
+            expect(result.output).toBe('no draft');
+        });
+
+        it('should follow only the error edges with branch', async () => {
+            const result = await run(
+                [
+                    withPolicy(code('parse', 'throw new Error("bad json");'), { onError: 'branch' }),
+                    code('save', 'return "saved";'),
+                    code('recover', 'return input.error;'),
+                ],
+                [edge('parse', 'save'), { ...edge('parse', 'recover'), sourceHandle: 'error' }]
+            );
+
+            expect(result.status).toBe('completed');
+            expect(countRuns(result, 'save')).toBe(0);
+            expect(result.output).toBe('Code execution failed: bad json');
+        });
+
+        it('should fail a prompt that runs past its timeout', async () => {
+            const result = await run([withPolicy(prompt('slow'), { timeoutMs: 5 })], []);
+
+            expect(result.status).toBe('failed');
+            expect(result.stepResults[0]?.error).toBe('Timed out after 5ms');
+            expect(active).toBe(0);
+        });
+    });
+
+    describe('approval steps', () => {
+        const approval: WorkflowNode = {
+            id: 'review',
+            type: 'approval',
+            position: { x: 0, y: 0 },
+            data: { type: 'approval', label: 'Review' },
+        };
+        const notePath = 'Approvals/Review (run_1).md';
+
+        const runToApproval = () =>
+            run(
+                [prompt('draft'), approval, code('publish', 'return "published: " + input;'), code('revise', 'return "revise";')],
+                [
+                    edge('draft', 'review'),
+                    { ...edge('review', 'publish'), sourceHandle: 'approved' },
+                    { ...edge('review', 'revise'), sourceHandle: 'rejected' },
+                ]
+            );
+
+        const decide = async (decision: string) => {
+            const content = readFileSync(vault.getAbsolutePath(notePath), 'utf-8');
+            await vault.writeFile(notePath, content.replace('spark_approval: pending', `spark_approval: ${decision}`));
+            return executor.handleApprovalNote(notePath);
+        };
+
+        it('should wait for the reviewer and continue along the approved edge', async () => {
+            const waiting = await runToApproval();
+
+            expect(waiting.status).toBe('waiting');
+            expect(waiting.stepResults.find((s) => s.nodeId === 'review')).toMatchObject({
+                status: 'waiting',
+                reviewNote: notePath,
+            });
+            expect(waiting.checkpoint?.pending).toEqual([{ nodeId: 'review', input: 'draft', visitCount: 1 }]);
+
+            expect(await decide('approved')).toBe(true);
+            await executor.processQueueFile(queuePath);
+            const result = readRun();
+
+            expect(result.status).toBe('completed');
+            expect(countRuns(result, 'draft')).toBe(1);
+            expect(result.stepResults.map((s) => [s.nodeId, s.status])).toEqual([
+                ['draft', 'completed'],
+                ['review', 'completed'],
+                ['publish', 'completed'],
+            ]);
+            expect(result.output).toBe('published: draft');
+        });
+
+        it('should follow the rejected edge', async () => {
+            await runToApproval();
+            await decide('rejected');
+            await executor.processQueueFile(queuePath);
+
+            const result = readRun();
+            expect(result.stepResults.find((s) => s.nodeId === 'review')?.decision).toBe('rejected');
+            expect(countRuns(result, 'publish')).toBe(0);
+            expect(result.output).toBe('revise');
+        });
+
+        it('should not queue anything for pending or unrelated notes', async () => {
+            await runToApproval();
+            await vault.writeFile('Notes/other.md', '# Other');
+
+            expect(executor.handleApprovalNote(notePath)).toBe(true);
+            expect(executor.handleApprovalNote('Notes/other.md')).toBe(false);
+            expect(await vault.fileExists(queuePath)).toBe(false);
+        });
+    });
+
+    describe('run inputs', () => {
+        const runWithInputs = async (input: unknown): Promise<WorkflowRun> => {
+            await vault.writeFile(
+                '.spark/workflows/wf_test.json',
+                JSON.stringify({
+                    id: 'wf_test',
+                    name: 'Test',
+                    version: 1,
+                    nodes: [code('double', 'return input.count * 2;')],
+                    edges: [],
+                    settings: {},
+                    inputs: [
+                        { name: 'topic', type: 'text', label: 'Topic', required: true },
+                        { name: 'count', type: 'number', default: 2 },
+                    ],
+                    created: '2025-03-01T00:00:00.000Z',
+                    updated: '2025-03-01T00:00:00.000Z',
+                })
+            );
+            await writeQueueItem({ input });
+            await executor.processQueueFile(queuePath);
+            return readRun();
+        };
+
+        it('should run with the checked input and its defaults', async () => {
+            const result = await runWithInputs({ topic: 'Q3', count: '21' });
+
+            expect(result.status).toBe('completed');
+            expect(result.input).toEqual({ topic: 'Q3', count: 21 });
+            expect(result.output).toBe(42);
+        });
+
+        it('should fail before any step when the input is invalid', async () => {
+            const result = await runWithInputs({ count: 'many' });
+
+            expect(result.status).toBe('failed');
+            expect(result.error).toBe('Invalid input: Topic is required; count must be a number');
+            expect(result.stepResults).toEqual([]);
+        });
+    });
+
+    describe('sub-workflows', () => {
+        const call = (id: string, workflowId: string, inputMapping?: string): WorkflowNode => ({
+            id,
+            type: 'workflow',
+            position: { x: 0, y: 0 },
+            data: { type: 'workflow', label: id, workflowId, inputMapping },
+        });
+
+        const readChildRun = (runId: string) =>
+            JSON.parse(
+                readFileSync(vault.getAbsolutePath(`.spark/workflow-runs/wf_child/${runId}.json`), 'utf-8')
+            ) as WorkflowRun;
+
+        it('should run the called workflow with mapped input and pass on its output', async () => {
+            await writeWorkflow(
+                [code('shout', 'return input.text.toUpperCase();'), prompt('tag')],
+                [edge('shout', 'tag')],
+                {},
+                'wf_child'
+            );
+
+            const result = await run(
+                [code('start', 'return { content: "hello" };'), call('summarise', 'wf_child', '{ text: input.content }')],
+                [edge('start', 'summarise')]
+            );
+
+            expect(result.status).toBe('completed');
+            expect(result.output).toBe('tag');
+            const step = result.stepResults.find((s) => s.nodeId === 'summarise');
+            expect(step?.childRun?.workflowId).toBe('wf_child');
+
+            const child = readChildRun(step?.childRun?.runId ?? '');
+            expect(child.status).toBe('completed');
+            expect(child.input).toEqual({ text: 'hello' });
+            expect(child.parent).toEqual({ workflowId: 'wf_test', runId: 'run_1', nodeId: 'summarise' });
+        });
+
+        it('should stop listening to the parent run once the sub-workflow ends', async () => {
+            await writeWorkflow([code('child', 'return 1;')], [], {}, 'wf_child');
+            const add = jest.spyOn(AbortSignal.prototype, 'addEventListener');
+            const remove = jest.spyOn(AbortSignal.prototype, 'removeEventListener');
+
+            try {
+                await run([call('sub', 'wf_child')], []);
+
+                const added = add.mock.calls.filter(([type]) => type === 'abort').map(([, listener]) => listener);
+                const removed = remove.mock.calls.map(([, listener]) => listener);
+                expect(added.length).toBeGreaterThan(0);
+                expect(removed).toEqual(expect.arrayContaining(added));
+            } finally {
+                add.mockRestore();
+                remove.mockRestore();
+            }
+        });
+
+        it('should fail the step when the sub-workflow fails', async () => {
+            await writeWorkflow([prompt('fail')], [], {}, 'wf_child');
+
+            const result = await run([code('start', 'return 1;'), call('sub', 'wf_child')], [edge('start', 'sub')]);
+
+            expect(result.status).toBe('failed');
+            expect(result.error).toContain('Sub-workflow wf_child failed');
+            expect(result.stepResults.find((s) => s.nodeId === 'sub')?.childRun).toBeDefined();
+        });
+
+        it('should refuse calls back into a workflow already running in the chain', async () => {
+            await writeWorkflow([call('back', 'wf_test')], [], {}, 'wf_child');
+
+            const result = await run([call('sub', 'wf_child')], []);
+
+            expect(result.status).toBe('failed');
+            expect(result.error).toContain('wf_test → wf_child → wf_test');
+        });
+
+        it('should fail for a missing workflow', async () => {
+            const result = await run([call('sub', 'wf_missing')], []);
+
+            expect(result.error).toContain('Workflow wf_missing not found');
+        });
+    });
+
+    describe('stopping and resuming', () => {
+        it('should cancel a run and abort the prompt in flight', async () => {
+            const result = await runAndStop(
+                [prompt('a'), prompt('b')],
+                [edge('a', 'b')],
+                'cancel'
+            );
+
+            expect(result.status).toBe('cancelled');
+            expect(result.stepResults.map((s) => [s.nodeId, s.status])).toEqual([['a', 'cancelled']]);
+            expect(result.stepResults[0]?.error).toContain('cancelled');
+            expect(await vault.fileExists(queuePath)).toBe(false);
+        });
+
+        it('should pause after the steps in flight and resume without rerunning them', async () => {
+            const paused = await runAndStop(
+                [prompt('a'), prompt('b'), code('c', 'return input + "!";')],
+                [edge('a', 'b'), edge('b', 'c')],
+                'pause'
+            );
+
+            expect(paused.status).toBe('paused');
+            expect(paused.stepResults.map((s) => [s.nodeId, s.status])).toEqual([['a', 'completed']]);
+            expect(paused.checkpoint?.pending).toEqual([{ nodeId: 'b', fromNodeId: 'a' }]);
+
+            const resumed = await resume();
+
+            expect(resumed.status).toBe('completed');
+            expect(countRuns(resumed, 'a')).toBe(1);
+            expect(resumed.output).toBe('b!');
+            expect(resumed.checkpoint).toBeUndefined();
+        });
+
+        it('should resume a failed run from the failed step', async () => {
+            const nodes = [prompt('a'), prompt('flaky'), code('after', 'return input;')];
+            const edges = [edge('a', 'flaky'), edge('flaky', 'after')];
+
+            const failed = await run(nodes, edges);
+            expect(failed.status).toBe('failed');
+            expect(failed.checkpoint?.pending).toEqual([{ nodeId: 'flaky', input: 'a', visitCount: 1 }]);
+
+            flaky = false;
+            const resumed = await resume();
+
+            expect(resumed.status).toBe('completed');
+            expect(resumed.error).toBeUndefined();
+            expect(countRuns(resumed, 'a')).toBe(1);
+            expect(resumed.stepResults.filter((s) => s.nodeId === 'flaky').map((s) => s.status)).toEqual([
+                'failed',
+                'completed',
+            ]);
+            expect(resumed.output).toBe('flaky');
+        });
+
+        it('should record the definition version, and the latest one when resumed', async () => {
+            const nodes = [prompt('a'), prompt('flaky')];
+            const failed = await run(nodes, [edge('a', 'flaky')]);
+            expect(failed.workflowVersion).toBe(1);
+
+            const path = vault.getAbsolutePath('.spark/workflows/wf_test.json');
+            const workflow = JSON.parse(readFileSync(path, 'utf-8')) as WorkflowDefinition;
+            await vault.writeFile('.spark/workflows/wf_test.json', JSON.stringify({ ...workflow, version: 2 }));
+
+            flaky = false;
+            expect((await resume()).workflowVersion).toBe(2);
+        });
+
+        it('should mark a run left running by a crash as stopped', async () => {
+            await vault.writeFile(
+                '.spark/workflow-runs/wf_test/run_1.json',
+                JSON.stringify({
+                    id: 'run_1',
+                    workflowId: 'wf_test',
+                    status: 'running',
+                    stepResults: [{ nodeId: 'a', status: 'running', startTime: 1 }],
+                    startTime: 1,
+                    totalCycles: 1,
+                })
+            );
+            await writeQueueItem({ status: 'processing', control: 'pause' });
+
+            await executor.processQueueFile(queuePath);
+
+            const result = readRun();
+            expect(result.status).toBe('paused');
+            expect(result.stepResults[0]?.status).toBe('cancelled');
+            expect(await vault.fileExists(queuePath)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,63 @@
+import { existsSync, readFileSync } from 'fs';
+import type { WorkflowDefinition, WorkflowHistoryEntry } from '../../src/workflows/types.js';
+import { MAX_HISTORY_ENTRIES, saveWorkflowVersion } from '../../src/workflows/WorkflowHistory.js';
+import { TestVault } from '../utils/TestVault.js';
+
+describe('saveWorkflowVersion', () => {
+    let vault: TestVault;
+
+    const workflow = (name: string, version = 1): WorkflowDefinition => ({
+        id: 'wf_test',
+        name,
+        version,
+        nodes: [],
+        edges: [],
+        settings: {},
+        created: '2025-03-01T00:00:00.000Z',
+        updated: '2025-03-01T00:00:00.000Z',
+    });
+
+    const readEntry = (version: number) =>
+        JSON.parse(
+            readFileSync(vault.getAbsolutePath(`.spark/workflows/.history/wf_test/${version}.json`), 'utf-8')
+        ) as WorkflowHistoryEntry;
+
+    beforeEach(async () => {
+        vault = new TestVault();
+        await vault.create();
+    });
+
+    afterEach(async () => {
+        await vault.cleanup();
+    });
+
+    it('should save a new workflow as version 1', () => {
+        const saved = saveWorkflowVersion(vault.root, workflow('Draft', 7), 'generated');
+
+        expect(saved.version).toBe(1);
+        expect(readEntry(1)).toMatchObject({ version: 1, source: 'generated', workflow: { name: 'Draft' } });
+    });
+
+    it('should keep the replaced version when the history does not have it yet', async () => {
+        await vault.writeFile('.spark/workflows/wf_test.json', JSON.stringify(workflow('Handmade', 3)));
+
+        const saved = saveWorkflowVersion(vault.root, workflow('Generated'), 'generated');
+
+        expect(saved.version).toBe(4);
+        expect(readEntry(3)).toMatchObject({ source: 'editor', workflow: { name: 'Handmade' } });
+        expect(readEntry(4)).toMatchObject({ source: 'generated', workflow: { name: 'Generated', version: 4 } });
+        const file = JSON.parse(
+            readFileSync(vault.getAbsolutePath('.spark/workflows/wf_test.json'), 'utf-8')
+        ) as WorkflowDefinition;
+        expect(file).toMatchObject({ name: 'Generated', version: 4 });
+    });
+
+    it('should drop the oldest versions past the limit', () => {
+        for (let i = 0; i <= MAX_HISTORY_ENTRIES; i++) {
+            saveWorkflowVersion(vault.root, workflow(`v${i}`), 'editor');
+        }
+
+        expect(existsSync(vault.getAbsolutePath('.spark/workflows/.history/wf_test/1.json'))).toBe(false);
+        expect(readEntry(MAX_HISTORY_ENTRIES + 1).workflow.name).toBe(`v${MAX_HISTORY_ENTRIES}`);
+    });
+});
@@ -0,0 +1,86 @@
+import type { WorkflowInputField } from '../../src/workflows/types.js';
+import { validateWorkflowInput } from '../../src/workflows/WorkflowInputs.js';
+import { TestVault } from '../utils/TestVault.js';
+
+describe('validateWorkflowInput', () => {
+    let vault: TestVault;
+
+    const fields: WorkflowInputField[] = [
+        { name: 'topic', type: 'text', label: 'Topic', required: true },
+        { name: 'count', type: 'number', default: 3 },
+        { name: 'tone', type: 'enum', options: ['formal', 'casual'] },
+        { name: 'note', type: 'file' },
+        { name: 'folder', type: 'folder' },
+        { name: 'agent', type: 'agent' },
+    ];
+
+    beforeEach(async () => {
+        vault = new TestVault();
+        await vault.create();
+        await vault.writeFile('Projects/Plan.md', '# Plan');
+        await vault.writeFile('.spark/agents/betty.md', 'Betty');
+    });
+
+    afterEach(async () => {
+        await vault.cleanup();
+    });
+
+    it('should accept valid values, parse numbers and fill in defaults', () => {
+        const result = validateWorkflowInput(vault.root, fields, {
+            topic: 'Q3 review',
+            tone: 'formal',
+            note: 'Projects/Plan.md',
+            folder: 'Projects/',
+            agent: '@betty',
+            extra: true,
+        });
+
+        expect(result.errors).toEqual([]);
+        expect(result.input).toEqual({
+            topic: 'Q3 review',
+            count: 3,
+            tone: 'formal',
+            note: 'Projects/Plan.md',
+            folder: 'Projects',
+            agent: 'betty',
+            extra: true,
+        });
+    });
+
+    it('should report missing required fields and invalid values', () => {
+        const result = validateWorkflowInput(vault.root, fields, {
+            topic: ' ',
+            count: 'many',
+            tone: 'angry',
+            note: 'Projects',
+            folder: '../outside',
+            agent: 'nobody',
+        });
+
+        expect(result.errors).toEqual([
+            'Topic is required',
+            'count must be a number',
+            'tone must be one of: formal, casual',
+            'note must be an existing file in the vault (got Projects)',
+            'folder must be a folder in the vault (got ../outside)',
+            'agent must be an agent in .spark/agents (got nobody)',
+        ]);
+    });
+
+    it('should keep hidden folders out of file fields', () => {
+        const result = validateWorkflowInput(vault.root, fields, {
+            topic: 'x',
+            note: '.spark/agents/betty.md',
+        });
+
+        expect(result.errors).toEqual([
+            'note must be a file in the vault (got .spark/agents/betty.md)',
+        ]);
+    });
+
+    it('should reject input that is not an object', () => {
+        expect(validateWorkflowInput(vault.root, fields, 'Q3 review').errors).toEqual([
+            'Run input must be an object with a value per input field',
+        ]);
+    });
+});
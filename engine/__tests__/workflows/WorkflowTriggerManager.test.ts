@@ -0,0 +1,164 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { Logger } from '../../src/logger/Logger.js';
+import { FrontmatterParser } from '../../src/parser/FrontmatterParser.js';
+import type {
+    WorkflowQueueItem,
+    WorkflowScheduleIndex,
+    WorkflowTrigger,
+} from '../../src/workflows/types.js';
+import { WorkflowTriggerManager } from '../../src/workflows/WorkflowTriggerManager.js';
+import { TestVault } from '../utils/TestVault.js';
+
+describe('WorkflowTriggerManager', () => {
+    let vault: TestVault;
+    let parser: FrontmatterParser;
+    let manager: WorkflowTriggerManager;
+
+    const writeWorkflow = (id: string, triggers: WorkflowTrigger[]) =>
+        vault.writeFile(
+            `.spark/workflows/${id}.json`,
+            JSON.stringify({
+                id,
+                name: id,
+                version: 1,
+                nodes: [],
+                edges: [],
+                settings: {},
+                triggers,
+                created: '2025-03-01T00:00:00.000Z',
+                updated: '2025-03-01T00:00:00.000Z',
+            })
+        );
+
+    const readQueue = (): WorkflowQueueItem[] => {
+        const dir = join(vault.root, '.spark/workflow-queue');
+        return readdirSync(dir).map(
+            (file) => JSON.parse(readFileSync(join(dir, file), 'utf-8')) as WorkflowQueueItem
+        );
+    };
+
+    beforeEach(async () => {
+        Logger.resetInstance();
+        const logger = Logger.getInstance({ level: 'error', console: false });
+        vault = new TestVault();
+        await vault.create();
+        parser = new FrontmatterParser();
+        manager = new WorkflowTriggerManager(vault.root, parser, logger);
+    });
+
+    afterEach(async () => {
+        await manager.stop();
+        await vault.cleanup();
+    });
+
+    describe('schedules', () => {
+        // Wednesday 2025-03-12 10:17 local time
+        const now = new Date(2025, 2, 12, 10, 17).getTime();
+
+        beforeEach(async () => {
+            await writeWorkflow('wf_weekly', [
+                { id: 't1', type: 'schedule', cron: '0 9 * * mon' },
+                { id: 't2', type: 'schedule', cron: '0 9 * * fri', enabled: false },
+            ]);
+            await writeWorkflow('wf_broken', [{ id: 't1', type: 'schedule', cron: 'every day' }]);
+            await manager.reload(now);
+        });
+
+        it('should write the next run of each workflow for the UI', () => {
+            const index = JSON.parse(
+                readFileSync(join(vault.root, '.spark/workflow-runs/schedule.json'), 'utf-8')
+            ) as WorkflowScheduleIndex;
+
+            expect(index.workflows.wf_weekly).toEqual({
+                nextRun: new Date(2025, 2, 17, 9, 0).getTime(),
+            });
+            expect(index.workflows.wf_broken?.nextRun).toBeNull();
+            expect(index.workflows.wf_broken?.error).toContain('5 fields');
+        });
+
+        it('should queue a run once the schedule is due and move to the next one', () => {
+            expect(manager.runDueSchedules(now + 60_000)).toEqual([]);
+
+            const monday = new Date(2025, 2, 17, 9, 0, 10).getTime();
+            const [runId] = manager.runDueSchedules(monday);
+
+            expect(readQueue()).toEqual([
+                expect.objectContaining({
+                    workflowId: 'wf_weekly',
+                    runId,
+                    status: 'pending',
+                    trigger: { id: 't1', type: 'schedule' },
+                    input: {
+                        trigger: 'schedule',
+                        triggerId: 't1',
+                        scheduledAt: new Date(2025, 2, 17, 9, 0).toISOString(),
+                    },
+                }),
+            ]);
+            expect(manager.getScheduleIndex().workflows.wf_weekly?.nextRun).toBe(
+                new Date(2025, 2, 24, 9, 0).getTime()
+            );
+        });
+    });
+
+    describe('events', () => {
+        beforeEach(async () => {
+            await writeWorkflow('wf_inbox', [
+                { id: 'created', type: 'file_created', folder: 'inbox', pattern: '*.md' },
+                { id: 'status', type: 'frontmatter_changed', folder: 'tasks', field: 'status', to: 'done' },
+                { id: 'tag', type: 'tag_added', folder: 'tasks', tag: '#report' },
+            ]);
+            await vault.writeFile('tasks/a.md', '---\nstatus: todo\ntags: [work]\n---\nTask');
+            await manager.reload();
+        });
+
+        it('should queue a run with the created note as input', async () => {
+            await vault.writeFile('inbox/idea.md', 'New idea');
+
+            const queued = manager.handleChange(
+                { path: 'inbox/idea.md', type: 'add', timestamp: Date.now() },
+                [],
+                'New idea'
+            );
+
+            expect(queued).toHaveLength(1);
+            expect(readQueue()[0]?.input).toEqual({
+                trigger: 'file_created',
+                triggerId: 'created',
+                file: 'inbox/idea.md',
+                content: 'New idea',
+            });
+            expect(
+                manager.handleChange({ path: 'notes/idea.md', type: 'add', timestamp: Date.now() }, [])
+            ).toEqual([]);
+        });
+
+        it('should fire on frontmatter transitions and added tags', () => {
+            const path = vault.getAbsolutePath('tasks/a.md');
+            const content = '---\nstatus: done\ntags: [work, report]\n---\nTask';
+            const changes = parser.detectChanges(path, content);
+
+            manager.handleChange({ path: 'tasks/a.md', type: 'change', timestamp: Date.now() }, changes, content);
+
+            const inputs = readQueue().map((item) => item.input as Record<string, unknown>);
+            expect(inputs).toEqual(
+                expect.arrayContaining([
+                    expect.objectContaining({
+                        trigger: 'frontmatter_changed',
+                        frontmatter: { field: 'status', oldValue: 'todo', newValue: 'done' },
+                    }),
+                    expect.objectContaining({ trigger: 'tag_added', tag: 'report' }),
+                ])
+            );
+            expect(inputs).toHaveLength(2);
+        });
+
+        it('should not queue again while the triggered run is still pending', async () => {
+            const change = { path: 'inbox/idea.md', type: 'add' as const, timestamp: Date.now() };
+
+            expect(manager.handleChange(change, [])).toHaveLength(1);
+            expect(manager.handleChange(change, [])).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,49 @@
+import { nextCronTime, parseCron } from '../../src/workflows/cron.js';
+
+function next(expression: string, from: Date): Date | null {
+    const time = nextCronTime(parseCron(expression), from.getTime());
+    return time === null ? null : new Date(time);
+}
+
+describe('cron', () => {
+    // Wednesday 2025-03-12 10:17 local time
+    const now = new Date(2025, 2, 12, 10, 17, 30);
+
+    it('should find the next minute for every-minute schedules', () => {
+        expect(next('* * * * *', now)).toEqual(new Date(2025, 2, 12, 10, 18));
+    });
+
+    it('should support steps, ranges and lists', () => {
+        expect(next('*/15 * * * *', now)).toEqual(new Date(2025, 2, 12, 10, 30));
+        expect(next('0 8-18/2 * * *', now)).toEqual(new Date(2025, 2, 12, 12, 0));
+        expect(next('5,45 10 * * *', now)).toEqual(new Date(2025, 2, 12, 10, 45));
+    });
+
+    it('should roll over to the next matching weekday', () => {
+        // Weekly report: Mondays at 9:00
+        expect(next('0 9 * * mon', now)).toEqual(new Date(2025, 2, 17, 9, 0));
+        expect(next('0 9 * * 1-5', now)).toEqual(new Date(2025, 2, 13, 9, 0));
+        expect(next('0 0 * * 7', now)).toEqual(new Date(2025, 2, 16, 0, 0));
+    });
+
+    it('should match either day field when both are restricted', () => {
+        // 1st of the month or any Friday
+        expect(next('0 0 1 * fri', now)).toEqual(new Date(2025, 2, 14, 0, 0));
+    });
+
+    it('should expand macros', () => {
+        expect(next('@monthly', now)).toEqual(new Date(2025, 3, 1, 0, 0));
+        expect(next('@daily', now)).toEqual(new Date(2025, 2, 13, 0, 0));
+    });
+
+    it('should return null when no date ever matches', () => {
+        expect(next('0 0 30 feb *', now)).toBeNull();
+    });
+
+    it('should reject invalid expressions', () => {
+        expect(() => parseCron('* * * *')).toThrow('must have 5 fields');
+        expect(() => parseCron('61 * * * *')).toThrow('Invalid minute "61"');
+        expect(() => parseCron('* * * * funday')).toThrow('Invalid day of week');
+        expect(() => parseCron('*/0 * * * *')).toThrow('Invalid step');
+    });
+});
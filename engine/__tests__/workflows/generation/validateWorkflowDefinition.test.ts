@@ -1,4 +1,5 @@
 import { validateAndNormalizeWorkflowDefinition } from '../../../src/workflows/generation/validateWorkflowDefinition.js';
+import type { WorkflowDefinition } from '../../../src/workflows/types.js';
 
 describe('validateAndNormalizeWorkflowDefinition', () => {
   it('rejects action nodes (engine-only types are prompt|code|condition)', () => {
@@ -165,5 +166,270 @@ describe('validateAndNormalizeWorkflowDefinition', () => {
     if (result.ok) throw new Error('Expected validation to fail');
     expect(result.errors.join('\n')).toContain('structuredOutput=true');
   });
-});
 
+  it('normalizes file nodes', () => {
+    const result = validateAndNormalizeWorkflowDefinition(
+      {
+        id: 'wf_x',
+        name: 'Files',
+        version: 1,
+        nodes: [
+          {
+            id: 'f1',
+            type: 'file',
+            position: { x: 0, y: 0 },
+            data: {
+              type: 'file',
+              label: 'Mark done',
+              operation: 'frontmatter',
+              path: '$input.path',
+              fields: { status: 'done', priority: 2 },
+            },
+          },
+        ],
+        edges: [],
+        settings: {},
+        created: new Date().toISOString(),
+        updated: new Date().toISOString(),
+      },
+      { allowCode: false }
+    );
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) throw new Error('Expected validation to pass');
+    expect(result.workflow.nodes[0]?.data).toMatchObject({
+      type: 'file',
+      operation: 'frontmatter',
+      path: '$input.path',
+      fields: { status: 'done', priority: '2' },
+    });
+  });
+
+  it('rejects file nodes with an unknown operation or missing destination', () => {
+    const fileNode = (id: string, data: Record<string, unknown>) => ({
+      id,
+      type: 'file',
+      position: { x: 0, y: 0 },
+      data: { type: 'file', label: 'File', path: 'a.md', ...data },
+    });
+
+    const result = validateAndNormalizeWorkflowDefinition(
+      {
+        id: 'wf_x',
+        name: 'Bad files',
+        version: 1,
+        nodes: [fileNode('f1', { operation: 'delete' }), fileNode('f2', { operation: 'move' })],
+        edges: [],
+        settings: {},
+        created: new Date().toISOString(),
+        updated: new Date().toISOString(),
+      },
+      { allowCode: true }
+    );
+
+    expect(result.ok).toBe(false);
+    if (result.ok) throw new Error('Expected validation to fail');
+    expect(result.errors.join('\n')).toContain('data.operation must be one of');
+    expect(result.errors.join('\n')).toContain('missing data.destination');
+  });
+
+  it('requires join nodes to have at least two incoming edges', () => {
+    const node = (id: string, type: string, data: Record<string, unknown>) => ({
+      id,
+      type,
+      position: { x: 0, y: 0 },
+      data: { type, label: id, ...data },
+    });
+
+    const result = validateAndNormalizeWorkflowDefinition(
+      {
+        id: 'wf_x',
+        name: 'Join',
+        version: 1,
+        nodes: [
+          node('p1', 'prompt', { prompt: 'Research' }),
+          node('j1', 'join', { mode: 'any', count: 1 }),
+        ],
+        edges: [{ id: 'e1', source: 'p1', target: 'j1' }],
+        settings: {},
+        created: new Date().toISOString(),
+        updated: new Date().toISOString(),
+      },
+      { allowCode: true }
+    );
+
+    expect(result.ok).toBe(false);
+    if (result.ok) throw new Error('Expected validation to fail');
+    expect(result.errors.join('\n')).toContain('Join node j1 needs at least 2 incoming edges');
+  });
+
+  it('requires approval edges to leave from the approved or rejected handle', () => {
+    const result = validateAndNormalizeWorkflowDefinition(
+      {
+        id: 'wf_x',
+        name: 'Approval',
+        version: 1,
+        nodes: [
+          { id: 'a1', type: 'approval', position: { x: 0, y: 0 }, data: { type: 'approval', label: 'Review' } },
+          { id: 'p1', type: 'prompt', position: { x: 0, y: 0 }, data: { type: 'prompt', label: 'Publish', prompt: 'Publish' } },
+        ],
+        edges: [{ id: 'e1', source: 'a1', target: 'p1', sourceHandle: 'true' }],
+        settings: {},
+        created: new Date().toISOString(),
+        updated: new Date().toISOString(),
+      },
+      { allowCode: true }
+    );
+
+    expect(result.ok).toBe(false);
+    if (result.ok) throw new Error('Expected validation to fail');
+    expect(result.errors.join('\n')).toContain('approved');
+  });
+
+  it('keeps step policies and allows error edges from steps that branch on failure', () => {
+    const result = validateAndNormalizeWorkflowDefinition(
+      {
+        id: 'wf_x',
+        name: 'Policies',
+        version: 1,
+        nodes: [
+          {
+            id: 'c1',
+            type: 'condition',
+            position: { x: 0, y: 0 },
+            data: {
+              type: 'condition',
+              label: 'Check',
+              expression: 'input.ok',
+              maxCycles: 1,
+              policy: { maxRetries: 2, timeoutMs: 500, onError: 'branch' },
+            },
+          },
+          { id: 'p1', type: 'prompt', position: { x: 0, y: 0 }, data: { type: 'prompt', label: 'Yes', prompt: 'Yes' } },
+          { id: 'p2', type: 'prompt', position: { x: 0, y: 0 }, data: { type: 'prompt', label: 'No', prompt: 'No' } },
+          { id: 'p3', type: 'prompt', position: { x: 0, y: 0 }, data: { type: 'prompt', label: 'Oops', prompt: 'Oops' } },
+        ],
+        edges: [
+          { id: 'e1', source: 'c1', target: 'p1', sourceHandle: 'true' },
+          { id: 'e2', source: 'c1', target: 'p2', sourceHandle: 'false' },
+          { id: 'e3', source: 'c1', target: 'p3', sourceHandle: 'error' },
+        ],
+        settings: {},
+        created: new Date().toISOString(),
+        updated: new Date().toISOString(),
+      },
+      { allowCode: true }
+    );
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) throw new Error('Expected validation to pass');
+    expect(result.workflow.nodes[0]?.data).toMatchObject({
+      policy: { maxRetries: 2, timeoutMs: 500, onError: 'branch' },
+    });
+  });
+
+  it('rejects invalid policies and error edges from steps that fail the run', () => {
+    const result = validateAndNormalizeWorkflowDefinition(
+      {
+        id: 'wf_x',
+        name: 'Bad policies',
+        version: 1,
+        nodes: [
+          {
+            id: 'p1',
+            type: 'prompt',
+            position: { x: 0, y: 0 },
+            data: { type: 'prompt', label: 'Draft', prompt: 'Draft', policy: { maxRetries: -1, onError: 'ignore' } },
+          },
+          { id: 'p2', type: 'prompt', position: { x: 0, y: 0 }, data: { type: 'prompt', label: 'Oops', prompt: 'Oops' } },
+        ],
+        edges: [{ id: 'e1', source: 'p1', target: 'p2', sourceHandle: 'error' }],
+        settings: {},
+        created: new Date().toISOString(),
+        updated: new Date().toISOString(),
+      },
+      { allowCode: true }
+    );
+
+    expect(result.ok).toBe(false);
+    if (result.ok) throw new Error('Expected validation to fail');
+    expect(result.errors).toEqual([
+      'Node p1 data.policy.maxRetries must be a non-negative number.',
+      'Node p1 data.policy.onError must be "fail", "continue" or "branch".',
+      'Node p1 has an "error" edge but its data.policy.onError is not "branch".',
+    ]);
+  });
+
+  it('rejects policies on steps that do not apply them', () => {
+    const result = validateAndNormalizeWorkflowDefinition(
+      {
+        id: 'wf_x',
+        name: 'File policy',
+        version: 1,
+        nodes: [
+          {
+            id: 'f1',
+            type: 'file',
+            position: { x: 0, y: 0 },
+            data: { type: 'file', label: 'Save', operation: 'write', path: 'a.md', policy: { timeoutMs: 500 } },
+          },
+        ],
+        edges: [],
+        settings: {},
+        created: new Date().toISOString(),
+        updated: new Date().toISOString(),
+      },
+      { allowCode: true }
+    );
+
+    expect(result.ok).toBe(false);
+    if (result.ok) throw new Error('Expected validation to fail');
+    expect(result.errors).toEqual([
+      'Node f1 data.policy is only supported on prompt, code and condition nodes.',
+    ]);
+  });
+
+  describe('workflow nodes', () => {
+    const definition = (id: string, calls: string[]) => ({
+      id,
+      name: id,
+      version: 1,
+      nodes: calls.map((workflowId, i) => ({
+        id: `w${i}`,
+        type: 'workflow',
+        position: { x: 0, y: 0 },
+        data: { type: 'workflow', label: `Call ${workflowId}`, workflowId },
+      })),
+      edges: [],
+      settings: {},
+      created: new Date().toISOString(),
+      updated: new Date().toISOString(),
+    });
+
+    it('accepts a call to an existing workflow', () => {
+      const result = validateAndNormalizeWorkflowDefinition(definition('wf_a', ['wf_b']), {
+        allowCode: true,
+        workflows: [definition('wf_b', []) as WorkflowDefinition],
+      });
+
+      expect(result.ok).toBe(true);
+    });
+
+    it('rejects calls to missing workflows and calls that lead back to the workflow', () => {
+      const result = validateAndNormalizeWorkflowDefinition(definition('wf_a', ['wf_missing', 'wf_b']), {
+        allowCode: true,
+        workflows: [
+          definition('wf_b', ['wf_c']) as WorkflowDefinition,
+          definition('wf_c', ['wf_a']) as WorkflowDefinition,
+        ],
+      });
+
+      expect(result.ok).toBe(false);
+      if (result.ok) throw new Error('Expected validation to fail');
+      expect(result.errors).toEqual([
+        'Workflow node w0 references missing workflow: wf_missing',
+        'Workflow node w1 creates a sub-workflow cycle: wf_a → wf_b → wf_c → wf_a',
+      ]);
+    });
+  });
+});
@@ -39,12 +39,15 @@ export class ClaudeClient implements IAIClient {
     });
 
     try {
-      const response = await this.client.messages.create({
-        model,
-        max_tokens: maxTokens,
-        temperature,
-        messages: [{ role: 'user', content: prompt }],
-      });
+      const response = await this.client.messages.create(
+        {
+          model,
+          max_tokens: maxTokens,
+          temperature,
+          messages: [{ role: 'user', content: prompt }],
+        },
+        { signal: options.signal }
+      );
 
       return this.processResponse(response);
     } catch (error: unknown) {
@@ -52,6 +55,46 @@ export class ClaudeClient implements IAIClient {
     }
   }
 
+  /**
+   * Stream a completion, calling onPartial with the text received so far
+   */
+  async stream(
+    prompt: string,
+    onPartial: (text: string) => void,
+    options: AICompletionOptions = {}
+  ): Promise<AICompletionResult> {
+    const model = options.model || this.config.model;
+    const maxTokens = options.max_tokens || this.config.max_tokens;
+    const temperature = options.temperature ?? this.config.temperature;
+
+    this.logger.debug('Claude API streaming call', {
+      promptLength: prompt.length,
+      model,
+      maxTokens,
+      temperature,
+    });
+
+    try {
+      const stream = this.client.messages.stream(
+        {
+          model,
+          max_tokens: maxTokens,
+          temperature,
+          messages: [{ role: 'user', content: prompt }],
+        },
+        { signal: options.signal }
+      );
+
+      stream.on('text', (_delta, snapshot) => {
+        onPartial(snapshot);
+      });
+
+      return this.processResponse(await stream.finalMessage());
+    } catch (error: unknown) {
+      this.handleAPIError(error);
+    }
+  }
+
   /**
    * Process and validate Claude API response
    */
@@ -110,7 +153,11 @@ export class ClaudeClient implements IAIClient {
       return 'AI_NETWORK_ERROR';
     }
 
-    // Server errors (5xx) are retryable
+    // Rate limits (429) and server errors (5xx, including 529 overloaded) are retryable
+    if (err.status === 429) {
+      return 'AI_RATE_LIMIT_ERROR';
+    }
+
     if (err.status && err.status >= 500) {
       return 'AI_SERVER_ERROR';
     }
@@ -3,12 +3,15 @@
  * Structures prompts with context priority
  */
 
+import { renderInstructions } from '../context/CommandLoader.js';
+import { estimateTokens } from '../context/ContextBudget.js';
 import type { IPromptBuilder } from '../types/ai.js';
+import type { CommandDefinition } from '../types/command.js';
 import type { LoadedContext } from '../types/context.js';
 import type { ParsedCommand } from '../types/parser.js';
 
 export class PromptBuilder implements IPromptBuilder {
-  build(command: ParsedCommand, context: LoadedContext): string {
+  build(command: ParsedCommand, context: LoadedContext, definition?: CommandDefinition): string {
     const sections: string[] = [];
 
     // System prompt with Spark syntax rules
@@ -33,7 +36,12 @@ export class PromptBuilder implements IPromptBuilder {
     }
 
     // Instructions
-    sections.push('<instructions>', this.extractInstructions(command), '</instructions>', '');
+    sections.push(
+      '<instructions>',
+      this.extractInstructions(command, definition),
+      '</instructions>',
+      ''
+    );
 
     // HIGH priority: Explicitly mentioned files
     if (context.mentionedFiles.length > 0) {
@@ -44,15 +52,27 @@ export class PromptBuilder implements IPromptBuilder {
       sections.push('</context>', '');
     }
 
-    // MEDIUM priority: Current file (where command was typed)
-    sections.push(
-      '<context priority="medium">',
-      `<file path="${context.currentFile.path}" note="Command was typed here">`,
-      context.currentFile.content,
-      '</file>',
-      '</context>',
-      ''
-    );
+    if (context.selection) {
+      // Selection context: only the selected block, instead of the whole current file
+      sections.push(
+        '<context priority="high">',
+        `<selection path="${context.currentFile.path}" lines="${context.selection.startLine}-${context.selection.endLine}">`,
+        context.selection.text,
+        '</selection>',
+        '</context>',
+        ''
+      );
+    } else {
+      // MEDIUM priority: Current file (where command was typed)
+      sections.push(
+        '<context priority="medium">',
+        `<file path="${context.currentFile.path}" note="Command was typed here">`,
+        context.currentFile.content,
+        '</file>',
+        '</context>',
+        ''
+      );
+    }
 
     // LOW priority: Nearby files (summaries only)
     if (context.nearbyFiles.length > 0) {
@@ -73,13 +93,16 @@ export class PromptBuilder implements IPromptBuilder {
     return sections.join('\n');
   }
 
-  private extractInstructions(command: ParsedCommand): string {
-    // Use raw command line
-    // Future: Load from .spark/commands/ if /command detected
+  private extractInstructions(command: ParsedCommand, definition?: CommandDefinition): string {
+    // Commands defined in .spark/commands/ supply their own instructions
+    if (definition) {
+      return renderInstructions(definition, command.args);
+    }
+    // Otherwise use the raw command line
     return command.raw;
   }
 
   estimateTokens(prompt: string): number {
-    return Math.ceil(prompt.length / 4);
+    return estimateTokens(prompt);
   }
 }
@@ -7,15 +7,18 @@
 import { Logger } from '../logger/Logger.js';
 import type { AIProviderFactory } from '../providers/AIProviderFactory.js';
 import type { AIConfig } from '../types/config.js';
+import type { UsageLedger } from '../usage/UsageLedger.js';
 
 export class ChatNameGenerator {
   private providerFactory: AIProviderFactory;
   private aiConfig: AIConfig;
   private logger: Logger;
+  private usageLedger?: UsageLedger;
 
-  constructor(providerFactory: AIProviderFactory, aiConfig: AIConfig) {
+  constructor(providerFactory: AIProviderFactory, aiConfig: AIConfig, usageLedger?: UsageLedger) {
     this.providerFactory = providerFactory;
     this.aiConfig = aiConfig;
+    this.usageLedger = usageLedger;
     this.logger = Logger.getInstance();
   }
 
@@ -113,6 +116,9 @@ export class ChatNameGenerator {
       // For name generation fallback, we skip the health check and try directly
       // If the provider fails, we'll catch the error and try the next one
 
+      // A provider over its monthly cap throws here and the next one is tried
+      this.usageLedger?.checkLimits(undefined, providerName);
+
       // Generate name with minimal token usage
       // We put the instruction in the user prompt to ensure it overrides any default system prompts
       const result = await provider.complete({
@@ -135,6 +141,13 @@ Rules:
         temperature: 0.3, // Low temperature for consistent, focused output
       });
 
+      this.usageLedger?.record(
+        { source: 'chat_name' },
+        provider.name,
+        provider.getConfig().model,
+        result.usage
+      );
+
       if (result.content) {
         // Clean up the response (remove quotes, extra whitespace, etc.)
         const name = this.cleanupGeneratedName(result.content);
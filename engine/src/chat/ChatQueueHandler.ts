@@ -7,11 +7,58 @@ import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from '
 import { basename, join } from 'node:path';
 import { ErrorHandler } from '../errors/ErrorHandler.js';
 import type { CommandExecutor } from '../execution/CommandExecutor.js';
+import { PartialResultThrottle } from '../execution/PartialResultThrottle.js';
 import type { Logger } from '../logger/Logger.js';
 import type { MentionParser } from '../parser/MentionParser.js';
 import { ErrorWriter } from '../results/ErrorWriter.js';
+import type { FileChange } from '../types/ai.js';
 import type { ParsedCommand, ParsedMention } from '../types/parser.js';
 import type { ChatNameGenerator } from './ChatNameGenerator.js';
+import type { ChatSummarizer } from './ChatSummarizer.js';
+
+/**
+ * Fields of a chat queue file
+ */
+interface ParsedChatMessage {
+  conversationId: string;
+  queueId: string;
+  userMessage: string;
+  context: string;
+  /** Summary of the turns before the context, kept by the plugin */
+  summary: string;
+  /** Older turns to fold into the summary, sent when the conversation passed its threshold */
+  compact: string;
+  /** Last message id covered once the compact turns are summarized */
+  summaryThrough?: string;
+  activeFile?: string;
+  primaryAgent?: string;
+  /** Agent that answers instead of the mentioned one (regenerating a reply) */
+  replyAgent?: string;
+  /** Model used instead of the agent's or provider's (regenerating a reply) */
+  replyModel?: string;
+}
+
+/**
+ * One line of .spark/chat-results/<conversationId>.jsonl
+ */
+interface ChatResultEntry {
+  conversationId: string;
+  queueId: string;
+  timestamp: number;
+  agent: string;
+  content: string;
+  filesModified?: string[];
+  /** Content of each modified file before and after, so the edits can be reviewed and reverted */
+  fileChanges?: FileChange[];
+  error?: string;
+  /** Set on name and summary updates, which are not part of the reply to queueId */
+  kind?: 'name' | 'summary';
+  conversationName?: string;
+  /** New summary of the conversation up to and including throughMessageId */
+  summary?: { content: string; throughMessageId: string };
+  /** Response streamed so far; replaced by the next partial or the final result */
+  partial?: boolean;
+}
 
 export class ChatQueueHandler {
   private errorWriter: ErrorWriter;
@@ -23,7 +70,8 @@ export class ChatQueueHandler {
     private commandExecutor: CommandExecutor,
     private mentionParser: MentionParser,
     private logger: Logger,
-    private chatNameGenerator?: ChatNameGenerator
+    private chatNameGenerator?: ChatNameGenerator,
+    private chatSummarizer?: ChatSummarizer
   ) {
     this.errorWriter = new ErrorWriter(vaultPath);
   }
@@ -55,9 +103,11 @@ export class ChatQueueHandler {
         queueId: parsed.queueId,
       });
 
-      const mentions = this.buildMentions(parsed.userMessage, parsed.primaryAgent);
-      const fullPrompt = this.buildFullPrompt(parsed.userMessage, parsed.context);
-      const command = this.buildCommand(fullPrompt, mentions);
+      const mentions = this.buildMentions(
+        parsed.userMessage,
+        parsed.primaryAgent,
+        parsed.replyAgent
+      );
       const contextPath = this.getContextPath(parsed.activeFile);
 
       this.logger.debug('Using context path for chat', {
@@ -74,13 +124,44 @@ export class ChatQueueHandler {
         parsed
       );
 
-      const aiResponse = await this.commandExecutor.executeAndReturn(command, contextPath);
+      const summarized = await this.summarizeIfRequested(parsed, mentions);
+      const command = this.buildCommand(this.buildFullPrompt(summarized), mentions);
+
+      // Stream the response into the results file while it is generated
+      const agent = this.extractAgentName(mentions, parsed.primaryAgent);
+      const partials = new PartialResultThrottle((text) => {
+        this.writeResult({
+          conversationId: parsed.conversationId,
+          queueId: parsed.queueId,
+          timestamp: Date.now(),
+          agent,
+          content: text,
+          partial: true,
+        });
+      });
+
+      let aiResponse: { content: string; fileChanges: FileChange[] };
+      try {
+        aiResponse = await this.commandExecutor.executeWithFileChanges(
+          command,
+          contextPath,
+          (text) => {
+            partials.push(text);
+          },
+          'chat',
+          parsed.replyModel
+        );
+      } finally {
+        partials.cancel();
+      }
+
       this.writeFinalResult(
         parsed.conversationId,
         parsed.queueId,
         mentions,
         parsed.primaryAgent,
-        aiResponse
+        aiResponse.content,
+        aiResponse.fileChanges
       );
 
       this.deleteQueueFileIfExists(fullPath, relativePath);
@@ -119,8 +200,15 @@ export class ChatQueueHandler {
     }
   }
 
-  private buildMentions(userMessage: string, primaryAgent?: string): ParsedMention[] {
-    const mentions = this.mentionParser.parse(userMessage);
+  private buildMentions(
+    userMessage: string,
+    primaryAgent?: string,
+    replyAgent?: string
+  ): ParsedMention[] {
+    const parsed = this.mentionParser.parse(userMessage);
+    // A reply agent replaces any agents mentioned in the message
+    const mentions = replyAgent ? parsed.filter((m) => m.type !== 'agent') : parsed;
+    primaryAgent = replyAgent ?? primaryAgent;
     if (this.hasExplicitAgentMention(mentions) || !primaryAgent) {
       return mentions;
     }
@@ -140,9 +228,17 @@ export class ChatQueueHandler {
     return mentions.some((m) => m.type === 'agent');
   }
 
-  private buildFullPrompt(userMessage: string, context: string): string {
-    if (!context) return userMessage;
-    return `Context from previous messages:\n${context}\n\n${userMessage}`;
+  private buildFullPrompt(parsed: ParsedChatMessage): string {
+    const parts: string[] = [];
+    if (parsed.summary) {
+      parts.push(`Summary of earlier messages:\n${parsed.summary}`);
+    }
+    const context = [parsed.compact, parsed.context].filter(Boolean).join('\n\n');
+    if (context) {
+      parts.push(`Context from previous messages:\n${context}`);
+    }
+    parts.push(parsed.userMessage);
+    return parts.join('\n\n');
   }
 
   private buildCommand(raw: string, mentions: ParsedMention[]): ParsedCommand {
@@ -160,12 +256,9 @@ export class ChatQueueHandler {
     return activeFile ? join(this.vaultPath, activeFile) : this.vaultPath;
   }
 
-  private startNameGenerationIfFirstMessage(parsed: {
-    conversationId: string;
-    userMessage: string;
-    context: string;
-  }): Promise<string | null> {
-    const isFirstMessage = !parsed.context || parsed.context.trim().length === 0;
+  private startNameGenerationIfFirstMessage(parsed: ParsedChatMessage): Promise<string | null> {
+    const isFirstMessage =
+      !parsed.summary && (!parsed.context || parsed.context.trim().length === 0);
     if (!isFirstMessage || !this.chatNameGenerator) {
       return Promise.resolve(null);
     }
@@ -194,17 +287,46 @@ export class ChatQueueHandler {
         timestamp: Date.now(),
         agent: this.extractAgentName(mentions, parsed.primaryAgent),
         content: '',
+        kind: 'name',
         conversationName: name,
       });
     });
   }
 
+  /**
+   * Fold the older turns into the summary before the message is sent, and send the summary
+   * to the plugin to store. If summarizing fails the older turns are sent in full.
+   */
+  private async summarizeIfRequested(
+    parsed: ParsedChatMessage,
+    mentions: ParsedMention[]
+  ): Promise<ParsedChatMessage> {
+    const throughMessageId = parsed.summaryThrough;
+    if (!parsed.compact || !throughMessageId || !this.chatSummarizer) return parsed;
+
+    const summary = await this.chatSummarizer.summarize(parsed.summary, parsed.compact);
+    if (!summary) return parsed;
+
+    this.logger.debug('Chat summary generated', { conversationId: parsed.conversationId });
+    this.writeResult({
+      conversationId: parsed.conversationId,
+      queueId: parsed.queueId,
+      timestamp: Date.now(),
+      agent: this.extractAgentName(mentions, parsed.primaryAgent),
+      content: '',
+      kind: 'summary',
+      summary: { content: summary, throughMessageId },
+    });
+    return { ...parsed, summary, compact: '' };
+  }
+
   private writeFinalResult(
     conversationId: string,
     queueId: string,
     mentions: ParsedMention[],
     primaryAgent: string | undefined,
-    aiResponse: string
+    aiResponse: string,
+    fileChanges: FileChange[]
   ): void {
     this.writeResult({
       conversationId,
@@ -212,6 +334,8 @@ export class ChatQueueHandler {
       timestamp: Date.now(),
       agent: this.extractAgentName(mentions, primaryAgent),
       content: aiResponse,
+      filesModified: fileChanges.length > 0 ? fileChanges.map((change) => change.path) : undefined,
+      fileChanges: fileChanges.length > 0 ? fileChanges : undefined,
     });
   }
 
@@ -292,14 +416,7 @@ export class ChatQueueHandler {
     }, 2000);
   }
 
-  private parseQueueFile(content: string): {
-    conversationId: string;
-    queueId: string;
-    userMessage: string;
-    context: string;
-    activeFile?: string;
-    primaryAgent?: string;
-  } {
+  private parseQueueFile(content: string): ParsedChatMessage {
     const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
     if (!frontmatterMatch || !frontmatterMatch[1]) {
       throw new Error('Invalid queue file: missing frontmatter');
@@ -310,42 +427,49 @@ export class ChatQueueHandler {
     const queueIdMatch = frontmatter.match(/queue_id:\s*(.+)/);
     const activeFileMatch = frontmatter.match(/active_file:\s*(.+)/);
     const primaryAgentMatch = frontmatter.match(/primary_agent:\s*(.+)/);
+    const summaryThroughMatch = frontmatter.match(/summary_through:\s*(.+)/);
+    const replyAgentMatch = frontmatter.match(/reply_agent:\s*(.+)/);
+    const replyModelMatch = frontmatter.match(/reply_model:\s*(.+)/);
 
     if (!conversationIdMatch || !conversationIdMatch[1] || !queueIdMatch || !queueIdMatch[1]) {
       throw new Error('Invalid queue file: missing required frontmatter');
     }
 
-    const messageMatch = content.match(
-      /<!-- spark-chat-message -->\n([\s\S]*?)\n<!-- \/spark-chat-message -->/
-    );
-    if (!messageMatch || !messageMatch[1]) {
+    const userMessage = this.readSection(content, 'message');
+    if (!userMessage) {
       throw new Error('Invalid queue file: missing chat message');
     }
 
-    const contextMatch = content.match(
-      /<!-- spark-chat-context -->\n([\s\S]*?)\n<!-- \/spark-chat-context -->/
-    );
-
     return {
       conversationId: conversationIdMatch[1].trim(),
       queueId: queueIdMatch[1].trim(),
-      userMessage: messageMatch[1].trim(),
-      context: contextMatch?.[1] ? contextMatch[1].trim() : '',
+      userMessage,
+      context: this.readSection(content, 'context'),
+      summary: this.readSection(content, 'summary'),
+      compact: this.readSection(content, 'compact'),
+      summaryThrough: summaryThroughMatch?.[1] ? summaryThroughMatch[1].trim() : undefined,
       activeFile: activeFileMatch?.[1] ? activeFileMatch[1].trim() : undefined,
       primaryAgent: primaryAgentMatch?.[1] ? primaryAgentMatch[1].trim() : undefined,
+      replyAgent: replyAgentMatch?.[1] ? replyAgentMatch[1].trim() : undefined,
+      replyModel: replyModelMatch?.[1] ? replyModelMatch[1].trim() : undefined,
     };
   }
 
-  private writeResult(result: {
-    conversationId: string;
-    queueId: string;
-    timestamp: number;
-    agent: string;
-    content: string;
-    filesModified?: string[];
-    error?: string;
-    conversationName?: string;
-  }): void {
+  /**
+   * Trimmed text between <!-- spark-chat-{name} --> markers, or '' if the section is missing
+   */
+  private readSection(content: string, name: string): string {
+    const match = content.match(
+      new RegExp(`<!-- spark-chat-${name} -->\\n([\\s\\S]*?)\\n<!-- /spark-chat-${name} -->`)
+    );
+    return match?.[1] ? match[1].trim() : '';
+  }
+
+  /**
+   * Write a result line, dropping any earlier partial line for the same message
+   * so the newest partial (or the final result) is always the last line
+   */
+  private writeResult(result: ChatResultEntry): void {
     const resultsDir = join(this.vaultPath, '.spark', 'chat-results');
 
     if (!existsSync(resultsDir)) {
@@ -353,9 +477,26 @@ export class ChatQueueHandler {
     }
 
     const resultFile = join(resultsDir, `${result.conversationId}.jsonl`);
-    writeFileSync(resultFile, `${JSON.stringify(result)}\n`, { flag: 'a' });
+    const lines = existsSync(resultFile)
+      ? readFileSync(resultFile, 'utf-8')
+          .split('\n')
+          .filter((line) => line.trim() && !this.isPartialLineFor(line, result.queueId))
+      : [];
+    lines.push(JSON.stringify(result));
+    writeFileSync(resultFile, `${lines.join('\n')}\n`, 'utf-8');
+
+    if (!result.partial) {
+      this.logger.debug('Chat result written', { conversationId: result.conversationId });
+    }
+  }
 
-    this.logger.debug('Chat result written', { conversationId: result.conversationId });
+  private isPartialLineFor(line: string, queueId: string): boolean {
+    try {
+      const entry = JSON.parse(line) as Partial<ChatResultEntry>;
+      return entry.partial === true && entry.queueId === queueId;
+    } catch {
+      return false;
+    }
   }
 
   private extractAgentName(mentions: ParsedMention[], primaryAgent?: string): string {
@@ -386,6 +527,9 @@ export class ChatQueueHandler {
     // Add helpful suggestions for SparkErrors (reuse ErrorHandler logic)
     if (error instanceof Error && 'code' in error) {
       const sparkError = error as { code: string; context?: Record<string, unknown> };
+      if (sparkError.code === 'USAGE_LIMIT_EXCEEDED') {
+        message = `⚠️ ${message}`;
+      }
       const suggestions = ErrorHandler.getSuggestions(sparkError.code, error);
       if (suggestions.length > 0) {
         message += `\n\n💡 **Suggestions:**\n${suggestions.map((s, i) => `${i + 1}. ${s}`).join('\n')}`;
@@ -0,0 +1,71 @@
+/**
+ * Chat Summarizer
+ * Condenses the older turns of a long chat into a running summary, so only the summary
+ * and the recent turns are sent with each new message
+ */
+
+import { Logger } from '../logger/Logger.js';
+import type { AIProviderFactory } from '../providers/AIProviderFactory.js';
+import type { AIConfig } from '../types/config.js';
+import type { UsageLedger } from '../usage/UsageLedger.js';
+
+// Upper bound for the summary; it replaces turns that passed the compaction threshold
+const SUMMARY_MAX_TOKENS = 1024;
+
+export class ChatSummarizer {
+  private providerFactory: AIProviderFactory;
+  private aiConfig: AIConfig;
+  private logger: Logger;
+  private usageLedger?: UsageLedger;
+
+  constructor(providerFactory: AIProviderFactory, aiConfig: AIConfig, usageLedger?: UsageLedger) {
+    this.providerFactory = providerFactory;
+    this.aiConfig = aiConfig;
+    this.usageLedger = usageLedger;
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * Fold older turns into the previous summary (if any) with the default provider
+   * Returns null if summarizing fails; the turns are then sent in full until it succeeds
+   */
+  async summarize(previousSummary: string, turns: string): Promise<string | null> {
+    try {
+      const provider = this.providerFactory.createFromConfig(this.aiConfig);
+      this.usageLedger?.checkLimits(undefined, provider.name);
+
+      const result = await provider.complete({
+        prompt: `
+${previousSummary ? `Summary of the conversation so far:\n<summary>\n${previousSummary}\n</summary>\n\n` : ''}Later messages:
+<conversation>
+${turns}
+</conversation>
+
+Write an updated summary of the whole conversation for the assistant to continue from.
+Rules:
+1. Keep facts, decisions, names, file paths and open questions; drop pleasantries.
+2. Note which agent said what when it matters.
+3. Return ONLY the summary, at most a few short paragraphs or a bullet list.
+`,
+        systemPrompt: 'You are a precise assistant that summarizes chat conversations.',
+        maxTokens: SUMMARY_MAX_TOKENS,
+        temperature: 0.2,
+      });
+
+      this.usageLedger?.record(
+        { source: 'chat_summary' },
+        provider.name,
+        provider.getConfig().model,
+        result.usage
+      );
+
+      const summary = result.content.trim();
+      return summary || null;
+    } catch (error) {
+      this.logger.warn('Chat summary failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+}
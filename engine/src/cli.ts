@@ -17,6 +17,8 @@ import {
   registerStartCommand,
   registerStatusCommand,
   registerStopCommand,
+  registerTriggersCommand,
+  registerUsageCommand,
   registerVersionCommand,
 } from './cli/commands/index.js';
 
@@ -41,6 +43,8 @@ registerConfigCommand(program);
 registerInspectCommand(program);
 registerHistoryCommand(program);
 registerReloadCommand(program);
+registerTriggersCommand(program);
+registerUsageCommand(program);
 registerVersionCommand(program, packageJson.version);
 
 // Parse command line arguments
@@ -6,6 +6,7 @@
 import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'node:fs';
 import path from 'node:path';
 import type { SparkEngine } from '../main.js';
+import type { ProviderAttempt } from '../providers/ProviderFailover.js';
 import type { EngineState, FileChange, SparkConfig } from '../types/index.js';
 
 export interface InspectorState {
@@ -18,7 +19,13 @@ export interface InspectorState {
 
 export interface ProcessingEvent {
   timestamp: number;
-  type: 'file_change' | 'command_detected' | 'frontmatter_change' | 'error';
+  type:
+    | 'file_change'
+    | 'command_detected'
+    | 'frontmatter_change'
+    | 'trigger_fired'
+    | 'provider_attempt'
+    | 'error';
   path?: string;
   details?: Record<string, unknown>;
 }
@@ -109,6 +116,34 @@ export class EngineInspector {
     });
   }
 
+  /**
+   * Record an automation trigger firing
+   */
+  public recordTriggerFired(
+    filePath: string,
+    trigger: string,
+    details?: Record<string, unknown>
+  ): void {
+    this.addToHistory({
+      timestamp: Date.now(),
+      type: 'trigger_fired',
+      path: filePath,
+      details: { trigger, ...details },
+    });
+  }
+
+  /**
+   * Record a failed AI provider call that was retried or failed over
+   */
+  public recordProviderAttempt(attempt: ProviderAttempt): void {
+    const { timestamp, ...details } = attempt;
+    this.addToHistory({
+      timestamp,
+      type: 'provider_attempt',
+      details: { ...details },
+    });
+  }
+
   /**
    * Record an error
    */
@@ -155,6 +190,8 @@ export class EngineInspector {
     fileChanges: number;
     commandsDetected: number;
     frontmatterChanges: number;
+    triggersFired: number;
+    providerAttempts: number;
     errors: number;
   } {
     return {
@@ -163,6 +200,8 @@ export class EngineInspector {
       commandsDetected: this.processingHistory.filter((e) => e.type === 'command_detected').length,
       frontmatterChanges: this.processingHistory.filter((e) => e.type === 'frontmatter_change')
         .length,
+      triggersFired: this.processingHistory.filter((e) => e.type === 'trigger_fired').length,
+      providerAttempts: this.processingHistory.filter((e) => e.type === 'provider_attempt').length,
       errors: this.processingHistory.filter((e) => e.type === 'error').length,
     };
   }
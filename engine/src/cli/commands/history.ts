@@ -74,6 +74,8 @@ export function registerHistoryCommand(program: Command): void {
         fileChanges: history.filter((e) => e.type === 'file_change').length,
         commandsDetected: history.filter((e) => e.type === 'command_detected').length,
         frontmatterChanges: history.filter((e) => e.type === 'frontmatter_change').length,
+        triggersFired: history.filter((e) => e.type === 'trigger_fired').length,
+        providerAttempts: history.filter((e) => e.type === 'provider_attempt').length,
         errors: history.filter((e) => e.type === 'error').length,
       };
 
@@ -82,6 +84,8 @@ export function registerHistoryCommand(program: Command): void {
       print(`  File changes: ${stats.fileChanges}`);
       print(`  Commands detected: ${stats.commandsDetected}`);
       print(`  Frontmatter changes: ${stats.frontmatterChanges}`);
+      print(`  Triggers fired: ${stats.triggersFired}`);
+      print(`  Failed provider calls: ${stats.providerAttempts}`);
       print(`  Errors: ${stats.errors}`);
       print('');
 
@@ -101,6 +105,8 @@ export function registerHistoryCommand(program: Command): void {
               file_change: '📝',
               command_detected: '⚡',
               frontmatter_change: '📋',
+              trigger_fired: '🎯',
+              provider_attempt: '🔁',
               error: '❌',
             }[event.type] || '•';
 
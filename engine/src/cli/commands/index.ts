@@ -10,4 +10,6 @@ export { registerReloadCommand } from './reload.js';
 export { registerStartCommand } from './start.js';
 export { registerStatusCommand } from './status.js';
 export { registerStopCommand } from './stop.js';
+export { registerTriggersCommand } from './triggers.js';
+export { registerUsageCommand } from './usage.js';
 export { registerVersionCommand } from './version.js';
@@ -7,6 +7,7 @@ import path from 'node:path';
 import type { Command } from 'commander';
 import { ConfigLoader } from '../../config/ConfigLoader.js';
 import { SecretsLoader } from '../../config/SecretsLoader.js';
+import { MCPHealthChecker } from '../../mcp/MCPHealthChecker.js';
 import { validateVault } from '../helpers.js';
 import { print, printError } from '../output.js';
 
@@ -27,6 +28,7 @@ async function runInspectCommand(vaultPath: string): Promise<void> {
     printConfigInfo(config);
     printWatchInfo(config);
     printAiInfo(config, vaultPath);
+    await printMcpInfo(config);
   } catch (error) {
     printError('❌ Inspection failed:');
     printError(error instanceof Error ? error.message : String(error));
@@ -84,6 +86,36 @@ function printAiInfo(config: Awaited<ReturnType<ConfigLoader['load']>>, vaultPat
   }
 }
 
+async function printMcpInfo(config: Awaited<ReturnType<ConfigLoader['load']>>): Promise<void> {
+  print('');
+  print('🔌 MCP Servers:');
+
+  const serverNames = Object.keys(config.mcp?.servers ?? {});
+  if (serverNames.length === 0) {
+    print('  (none configured - add servers under mcp.servers in config.yaml)');
+    return;
+  }
+
+  const results = await new MCPHealthChecker(config.mcp).checkAll();
+  for (const health of results) {
+    const server = config.mcp?.servers[health.name];
+    const icon = { healthy: '✓', unhealthy: '✗', disabled: '○' }[health.status];
+    print(`  ${icon} ${health.name} (${health.status})`);
+    print(`      Command: ${[server?.command, ...(server?.args ?? [])].join(' ')}`);
+
+    if (health.status === 'healthy') {
+      print(`      Tools: ${health.tools.length > 0 ? health.tools.join(', ') : '(none)'}`);
+      print(`      Responded in ${health.latencyMs}ms`);
+    } else if (health.status === 'unhealthy') {
+      print(`      Error: ${health.error} (after ${health.attempts} attempt(s))`);
+    }
+
+    print(
+      `      Allowed tools: ${server?.allowed_tools ? server.allowed_tools.join(', ') : 'all'}`
+    );
+  }
+}
+
 export function registerInspectCommand(program: Command): void {
   program
     .command('inspect')
@@ -0,0 +1,162 @@
+/**
+ * Triggers Command
+ * List automation triggers and test which ones match a file change
+ */
+
+import path from 'node:path';
+import type { Command } from 'commander';
+import { TriggerLoader } from '../../triggers/TriggerLoader.js';
+import { TriggerMatcher } from '../../triggers/TriggerMatcher.js';
+import type { Trigger, TriggerEvent } from '../../types/trigger.js';
+import type { FileChange, FileChangeType, FrontmatterChange } from '../../types/watcher.js';
+import { validateVault } from '../helpers.js';
+import { print, printError } from '../output.js';
+
+interface TestOptions {
+  event: string;
+  field?: string;
+  from?: string;
+  to?: string;
+}
+
+const CHANGE_TYPE_BY_EVENT: Record<TriggerEvent, FileChangeType> = {
+  file_created: 'add',
+  file_modified: 'change',
+  file_deleted: 'unlink',
+};
+
+function describeWatch(trigger: Trigger): string {
+  const { watch } = trigger;
+  const parts: string[] = [`in ${watch.directory || '(vault root)'}`];
+  if (watch.pattern) {
+    parts.push(`matching ${watch.pattern}`);
+  }
+  if (watch.event) {
+    parts.push(`on ${watch.event}`);
+  }
+  if (watch.frontmatter_field) {
+    const from = watch.from_value ?? '*';
+    const to = watch.to_value ?? '*';
+    parts.push(`when ${watch.frontmatter_field}: ${from} → ${to}`);
+  }
+  return parts.join(', ');
+}
+
+async function loadTriggers(
+  absolutePath: string
+): Promise<{ loader: TriggerLoader; triggers: Trigger[] }> {
+  const loader = new TriggerLoader();
+  const triggers = await loader.loadTriggers(absolutePath);
+  return { loader, triggers };
+}
+
+async function runListCommand(vaultPath: string): Promise<void> {
+  const absolutePath = path.resolve(vaultPath);
+
+  // Validate that this is an Obsidian vault
+  validateVault(absolutePath, 'start');
+
+  const { loader, triggers } = await loadTriggers(absolutePath);
+
+  if (triggers.length === 0) {
+    print('ℹ️  No triggers defined');
+    print(`   Add trigger files to ${path.join(absolutePath, '.spark', 'triggers')}/`);
+  } else {
+    print(`🎯 Triggers (${triggers.length}, highest priority first):`);
+    print('');
+    for (const trigger of triggers) {
+      print(`  ${trigger.name} (priority ${trigger.priority})`);
+      if (trigger.description) {
+        print(`    ${trigger.description}`);
+      }
+      print(`    Watch: ${describeWatch(trigger)}`);
+      print(`    Source: ${trigger.source}`);
+      print('');
+    }
+  }
+
+  printLoadErrors(loader);
+}
+
+async function runTestCommand(
+  file: string,
+  vaultPath: string,
+  options: TestOptions
+): Promise<void> {
+  const absolutePath = path.resolve(vaultPath);
+
+  // Validate that this is an Obsidian vault
+  validateVault(absolutePath, 'start');
+
+  const changeType = CHANGE_TYPE_BY_EVENT[options.event as TriggerEvent];
+  if (!changeType) {
+    printError(`❌ Invalid event: ${options.event}`);
+    printError(`   Use one of: ${Object.keys(CHANGE_TYPE_BY_EVENT).join(', ')}`);
+    process.exit(1);
+  }
+
+  const relativePath = path.isAbsolute(file) ? path.relative(absolutePath, file) : file;
+  const change: FileChange = { path: relativePath, type: changeType, timestamp: Date.now() };
+  const frontmatterChanges: FrontmatterChange[] = options.field
+    ? [{ field: options.field, oldValue: options.from, newValue: options.to }]
+    : [];
+
+  const { loader, triggers } = await loadTriggers(absolutePath);
+  const matching = new TriggerMatcher().findMatching(change, frontmatterChanges, triggers);
+
+  print(`Testing ${options.event} for ${relativePath}`);
+  if (options.field) {
+    print(
+      `  Frontmatter: ${options.field}: ${options.from ?? '(unset)'} → ${options.to ?? '(unset)'}`
+    );
+  }
+  print('');
+
+  if (matching.length === 0) {
+    print('ℹ️  No triggers would fire');
+  } else {
+    print(`✅ ${matching.length} trigger(s) would fire, in this order:`);
+    matching.forEach((trigger, i) => {
+      print(`  ${i + 1}. ${trigger.name} (priority ${trigger.priority})`);
+    });
+  }
+
+  printLoadErrors(loader);
+}
+
+function printLoadErrors(loader: TriggerLoader): void {
+  const errors = loader.getLastErrors();
+  if (errors.length === 0) {
+    return;
+  }
+
+  print('');
+  print(`⚠️  ${errors.length} invalid trigger definition(s) skipped:`);
+  for (const error of errors) {
+    const name = error.trigger ? ` [${error.trigger}]` : '';
+    print(`  ${error.source}${name}: ${error.message}`);
+  }
+}
+
+export function registerTriggersCommand(program: Command): void {
+  const triggers = program
+    .command('triggers')
+    .description('List and test automation triggers in .spark/triggers/');
+
+  triggers
+    .command('list')
+    .description('List triggers in priority order')
+    .argument('[vault-path]', 'Path to Obsidian vault', process.cwd())
+    .action(runListCommand);
+
+  triggers
+    .command('test')
+    .description('Show which triggers would fire for a file change (dry run)')
+    .argument('<file>', 'File path relative to the vault')
+    .argument('[vault-path]', 'Path to Obsidian vault', process.cwd())
+    .option('-e, --event <event>', 'file_created, file_modified or file_deleted', 'file_modified')
+    .option('-f, --field <name>', 'Frontmatter field that changed')
+    .option('--from <value>', 'Previous frontmatter value')
+    .option('--to <value>', 'New frontmatter value')
+    .action(runTestCommand);
+}
@@ -0,0 +1,141 @@
+/**
+ * Usage Command
+ * Show token usage and estimated cost from the usage ledger
+ */
+
+import path from 'node:path';
+import type { Command } from 'commander';
+import { ConfigLoader } from '../../config/ConfigLoader.js';
+import type { UsageConfig, UsageLimit } from '../../types/config.js';
+import type { UsageRecord, UsageTotals } from '../../types/usage.js';
+import { rollupUsage, totalUsage, UsageLedger, type UsageRollup } from '../../usage/UsageLedger.js';
+import { validateVault } from '../helpers.js';
+import { print, printError } from '../output.js';
+
+const ROLLUPS: UsageRollup[] = ['day', 'agent', 'model', 'provider'];
+
+function formatTokens(tokens: number): string {
+  return tokens.toLocaleString('en-US');
+}
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(2)}`;
+}
+
+function printTotals(rows: UsageTotals[]): void {
+  const width = Math.max(8, ...rows.map((row) => row.key.length));
+  print(
+    `  ${'Key'.padEnd(width)}  ${'Calls'.padStart(6)}  ${'Input'.padStart(12)}  ${'Output'.padStart(12)}  ${'Cost'.padStart(9)}`
+  );
+  for (const row of rows) {
+    print(
+      `  ${row.key.padEnd(width)}  ${String(row.calls).padStart(6)}  ${formatTokens(row.inputTokens).padStart(12)}  ${formatTokens(row.outputTokens).padStart(12)}  ${formatCost(row.costUsd).padStart(9)}`
+    );
+  }
+}
+
+function describeLimit(limit: UsageLimit, records: UsageRecord[]): string {
+  const { tokens, costUsd: cost } = totalUsage(records);
+  const parts: string[] = [];
+  let exceeded = false;
+
+  if (limit.monthly_tokens !== undefined) {
+    parts.push(`${formatTokens(tokens)} / ${formatTokens(limit.monthly_tokens)} tokens`);
+    exceeded ||= tokens >= limit.monthly_tokens;
+  }
+  if (limit.monthly_cost_usd !== undefined) {
+    parts.push(`${formatCost(cost)} / ${formatCost(limit.monthly_cost_usd)}`);
+    exceeded ||= cost >= limit.monthly_cost_usd;
+  }
+
+  return `${exceeded ? '⚠️ ' : '✅'} ${parts.join(', ')}`;
+}
+
+/**
+ * Month-to-date usage against each configured cap
+ */
+function printLimits(usage: UsageConfig | undefined, ledger: UsageLedger): void {
+  const agents = Object.entries(usage?.limits?.agents ?? {});
+  const providers = Object.entries(usage?.limits?.providers ?? {});
+  if (agents.length === 0 && providers.length === 0) {
+    return;
+  }
+
+  const now = new Date();
+  const monthRecords = ledger.read(new Date(now.getFullYear(), now.getMonth(), 1).getTime());
+
+  print('');
+  print('🚦 Monthly Limits (this month):');
+  for (const [name, limit] of agents) {
+    const records = monthRecords.filter((r) => r.agent === name);
+    print(`  agent ${name}: ${describeLimit(limit, records)}`);
+  }
+  for (const [name, limit] of providers) {
+    const records = monthRecords.filter((r) => r.provider === name);
+    print(`  provider ${name}: ${describeLimit(limit, records)}`);
+  }
+}
+
+async function loadUsageConfig(vaultPath: string): Promise<UsageConfig | undefined> {
+  try {
+    const config = await new ConfigLoader().load(vaultPath);
+    return config.usage;
+  } catch {
+    // Usage can still be shown without limits or custom prices
+    return undefined;
+  }
+}
+
+export function registerUsageCommand(program: Command): void {
+  program
+    .command('usage')
+    .description('Show token usage and estimated cost by day, agent, model or provider')
+    .argument('[vault-path]', 'Path to Obsidian vault', process.cwd())
+    .option('-b, --by <rollup>', 'Group by day, agent, model or provider', 'day')
+    .option('-d, --days <number>', 'Number of days to include', '30')
+    .action(async (vaultPath: string, options: { by: string; days: string }) => {
+      const absolutePath = path.resolve(vaultPath);
+
+      // Validate that this is an Obsidian vault
+      validateVault(absolutePath, 'start');
+
+      const by = options.by as UsageRollup;
+      if (!ROLLUPS.includes(by)) {
+        printError(`❌ Unknown rollup: ${options.by} (use ${ROLLUPS.join(', ')})`);
+        process.exit(1);
+      }
+
+      const days = parseInt(options.days, 10);
+      if (!Number.isFinite(days) || days < 1) {
+        printError('❌ --days must be a positive number');
+        process.exit(1);
+      }
+
+      const usage = await loadUsageConfig(absolutePath);
+      const ledger = new UsageLedger(absolutePath, usage);
+
+      const today = new Date();
+      const since = new Date(
+        today.getFullYear(),
+        today.getMonth(),
+        today.getDate() - (days - 1)
+      ).getTime();
+      const records = ledger.read(since);
+
+      if (records.length === 0) {
+        print(`ℹ️  No usage recorded in the last ${days} days`);
+      } else {
+        const total = totalUsage(records);
+
+        print(`📊 Usage by ${by} (last ${days} days):`);
+        print('');
+        printTotals(rollupUsage(records, by));
+        print('');
+        print(
+          `  Total: ${records.length} calls, ${formatTokens(total.tokens)} tokens, ${formatCost(total.costUsd)} estimated`
+        );
+      }
+
+      printLimits(usage, ledger);
+    });
+}
@@ -63,6 +63,11 @@ export const DEFAULT_SPARK_CONFIG: SparkConfig = {
         temperature: 0.7,
       },
     },
+    retry: {
+      enabled: true,
+      max_attempts: 3,
+      backoff_ms: 1000,
+    },
   },
   logging: {
     level: 'info',
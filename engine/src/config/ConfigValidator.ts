@@ -20,6 +20,14 @@ export class ConfigValidator implements IConfigValidator {
     this.validateLogging(cfg.logging);
     this.validateFeatures(cfg.features);
 
+    if (cfg.mcp !== undefined) {
+      this.validateMCP(cfg.mcp);
+    }
+
+    if (cfg.usage !== undefined) {
+      this.validateUsage(cfg.usage);
+    }
+
     return cfg as unknown as SparkConfig;
   }
 
@@ -95,6 +103,10 @@ export class ConfigValidator implements IConfigValidator {
     for (const [name, config] of Object.entries(providers)) {
       this.validateProviderConfig(name, config);
     }
+
+    if (a.retry !== undefined) {
+      this.validateRetry(a.retry, 'ai.retry', 'INVALID_CONFIG_AI');
+    }
   }
 
   private validateProviderConfig(name: string, config: unknown): void {
@@ -125,8 +137,10 @@ export class ConfigValidator implements IConfigValidator {
       );
     }
 
-    // No additional optional field validation needed
+    this.validateProviderOptionalFields(name, c);
+  }
 
+  private validateProviderOptionalFields(name: string, c: Record<string, unknown>): void {
     if (c.maxTokens !== undefined && typeof c.maxTokens !== 'number') {
       throw new SparkError(
         `ai.providers.${name}.maxTokens must be a number`,
@@ -147,6 +161,16 @@ export class ConfigValidator implements IConfigValidator {
         'INVALID_PROVIDER_CONFIG'
       );
     }
+
+    if (
+      c.contextBudget !== undefined &&
+      (typeof c.contextBudget !== 'number' || c.contextBudget <= 0)
+    ) {
+      throw new SparkError(
+        `ai.providers.${name}.contextBudget must be a positive number`,
+        'INVALID_PROVIDER_CONFIG'
+      );
+    }
   }
 
   private validateLogging(logging: unknown): void {
@@ -184,4 +208,155 @@ export class ConfigValidator implements IConfigValidator {
       throw new SparkError('features.trigger_automation must be a boolean', 'INVALID_FEATURE_FLAG');
     }
   }
+
+  private validateMCP(mcp: unknown): void {
+    if (!mcp || typeof mcp !== 'object') {
+      throw new SparkError('mcp must be an object', 'INVALID_CONFIG_MCP');
+    }
+
+    const m = mcp as Record<string, unknown>;
+
+    if (!m.servers || typeof m.servers !== 'object' || Array.isArray(m.servers)) {
+      throw new SparkError('mcp.servers must be an object', 'INVALID_CONFIG_MCP');
+    }
+
+    for (const [name, server] of Object.entries(m.servers as Record<string, unknown>)) {
+      this.validateMCPServer(name, server);
+    }
+
+    if (m.timeout_ms !== undefined && (typeof m.timeout_ms !== 'number' || m.timeout_ms <= 0)) {
+      throw new SparkError('mcp.timeout_ms must be a positive number', 'INVALID_CONFIG_MCP');
+    }
+
+    if (m.retry !== undefined) {
+      this.validateRetry(m.retry, 'mcp.retry', 'INVALID_CONFIG_MCP');
+    }
+  }
+
+  private validateRetry(retry: unknown, path: string, code: string): void {
+    if (!retry || typeof retry !== 'object') {
+      throw new SparkError(`${path} must be an object`, code);
+    }
+
+    const r = retry as Record<string, unknown>;
+    if (typeof r.enabled !== 'boolean') {
+      throw new SparkError(`${path}.enabled must be a boolean`, code);
+    }
+    if (typeof r.max_attempts !== 'number' || r.max_attempts < 1) {
+      throw new SparkError(`${path}.max_attempts must be at least 1`, code);
+    }
+    if (typeof r.backoff_ms !== 'number' || r.backoff_ms < 0) {
+      throw new SparkError(`${path}.backoff_ms must be a non-negative number`, code);
+    }
+  }
+
+  private validateUsage(usage: unknown): void {
+    if (!this.isPlainObject(usage)) {
+      throw new SparkError('usage must be an object', 'INVALID_CONFIG_USAGE');
+    }
+
+    if (usage.prices !== undefined) {
+      this.validateUsageEntries(usage.prices, 'usage.prices', ['input', 'output'], true);
+    }
+
+    if (usage.limits === undefined) {
+      return;
+    }
+    if (!this.isPlainObject(usage.limits)) {
+      throw new SparkError('usage.limits must be an object', 'INVALID_CONFIG_USAGE');
+    }
+    for (const scope of ['agents', 'providers']) {
+      const limits = usage.limits[scope];
+      if (limits !== undefined) {
+        this.validateUsageEntries(
+          limits,
+          `usage.limits.${scope}`,
+          ['monthly_tokens', 'monthly_cost_usd'],
+          false
+        );
+      }
+    }
+  }
+
+  /**
+   * Each entry must be an object whose listed fields are non-negative numbers
+   */
+  private validateUsageEntries(
+    entries: unknown,
+    path: string,
+    fields: string[],
+    required: boolean
+  ): void {
+    if (!this.isPlainObject(entries)) {
+      throw new SparkError(`${path} must be an object`, 'INVALID_CONFIG_USAGE');
+    }
+
+    for (const [name, entry] of Object.entries(entries)) {
+      if (!this.isPlainObject(entry)) {
+        throw new SparkError(`${path}.${name} must be an object`, 'INVALID_CONFIG_USAGE');
+      }
+      for (const field of fields) {
+        const value = entry[field];
+        if (value === undefined && !required) {
+          continue;
+        }
+        if (typeof value !== 'number' || value < 0) {
+          throw new SparkError(
+            `${path}.${name}.${field} must be a non-negative number`,
+            'INVALID_CONFIG_USAGE'
+          );
+        }
+      }
+    }
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  private validateMCPServer(name: string, server: unknown): void {
+    if (!server || typeof server !== 'object') {
+      throw new SparkError(`mcp.servers.${name} must be an object`, 'INVALID_MCP_SERVER');
+    }
+
+    const s = server as Record<string, unknown>;
+
+    if (typeof s.command !== 'string' || s.command.trim().length === 0) {
+      throw new SparkError(`mcp.servers.${name}.command is required`, 'INVALID_MCP_SERVER');
+    }
+
+    if (s.args !== undefined && !this.isStringArray(s.args)) {
+      throw new SparkError(
+        `mcp.servers.${name}.args must be an array of strings`,
+        'INVALID_MCP_SERVER'
+      );
+    }
+
+    if (s.enabled !== undefined && typeof s.enabled !== 'boolean') {
+      throw new SparkError(`mcp.servers.${name}.enabled must be a boolean`, 'INVALID_MCP_SERVER');
+    }
+
+    if (s.allowed_tools !== undefined && !this.isStringArray(s.allowed_tools)) {
+      throw new SparkError(
+        `mcp.servers.${name}.allowed_tools must be an array of strings`,
+        'INVALID_MCP_SERVER'
+      );
+    }
+
+    if (
+      s.env !== undefined &&
+      (!s.env ||
+        typeof s.env !== 'object' ||
+        !Object.values(s.env).every((value) => typeof value === 'string'))
+    ) {
+      throw new SparkError(
+        `mcp.servers.${name}.env must map names to strings`,
+        'INVALID_MCP_SERVER'
+      );
+    }
+  }
+
+  private isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((item) => typeof item === 'string');
+  }
 }
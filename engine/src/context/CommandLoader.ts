@@ -0,0 +1,120 @@
+/**
+ * Command Loader
+ * Loads slash command definitions from .spark/commands/<name>.md
+ */
+
+import { readFileSync } from 'node:fs';
+import { Logger } from '../logger/Logger.js';
+import { FrontmatterParser } from '../parser/FrontmatterParser.js';
+import type {
+  CommandContextScope,
+  CommandDefinition,
+  CommandOutputMode,
+  ICommandLoader,
+} from '../types/command.js';
+import { PathResolver } from './PathResolver.js';
+
+const CONTEXT_SCOPES: CommandContextScope[] = ['current_file', 'selection', 'folder', 'vault'];
+const OUTPUT_MODES: CommandOutputMode[] = ['inline', 'separate', 'replace', 'append'];
+
+/**
+ * Placeholder in a command body that is replaced with the text typed after the command
+ */
+export const ARGS_PLACEHOLDER = '{{args}}';
+
+/**
+ * Build the instructions for a command invocation.
+ * Trailing args replace {{args}} in the body; without a placeholder they are
+ * appended as additional input so they still reach the model.
+ */
+export function renderInstructions(definition: CommandDefinition, args?: string): string {
+  // The trailing period only marks the command as complete; it isn't part of the input
+  const input = (args ?? '').trim().replace(/\.$/, '').trim();
+
+  if (definition.instructions.includes(ARGS_PLACEHOLDER)) {
+    return definition.instructions.split(ARGS_PLACEHOLDER).join(input);
+  }
+
+  if (!input) {
+    return definition.instructions;
+  }
+
+  return `${definition.instructions}\n\nAdditional input: ${input}`;
+}
+
+export class CommandLoader implements ICommandLoader {
+  private resolver: PathResolver;
+  private frontmatterParser: FrontmatterParser;
+  private logger: Logger;
+
+  constructor(vaultPath: string) {
+    this.resolver = new PathResolver(vaultPath);
+    this.frontmatterParser = new FrontmatterParser();
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * Load a command definition by name
+   * Returns null when no definition file exists or it has no instructions
+   */
+  public async load(name: string): Promise<CommandDefinition | null> {
+    const commandPath = await this.resolver.resolveCommand(name);
+    if (!commandPath) {
+      this.logger.debug('No command definition found', { command: name });
+      return null;
+    }
+
+    let content: string;
+    try {
+      content = readFileSync(commandPath, 'utf-8');
+    } catch (error) {
+      this.logger.warn('Failed to read command definition', {
+        path: commandPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+
+    const metadata = this.frontmatterParser.extractFrontmatter(content);
+    const instructions = this.frontmatterParser.getContent(content).trim();
+
+    if (!instructions) {
+      this.logger.warn('Command definition has no instructions, ignoring', { path: commandPath });
+      return null;
+    }
+
+    return {
+      id: typeof metadata.id === 'string' ? metadata.id : name,
+      name: typeof metadata.name === 'string' ? metadata.name : name,
+      description: typeof metadata.description === 'string' ? metadata.description : '',
+      context: this.parseOption(metadata.context, CONTEXT_SCOPES, 'current_file', commandPath),
+      // Unset output falls back to engine.results.mode
+      output: this.parseOption(metadata.output, OUTPUT_MODES, undefined, commandPath),
+      instructions,
+      path: commandPath,
+    };
+  }
+
+  private parseOption<T extends string, F extends T | undefined>(
+    value: unknown,
+    allowed: T[],
+    fallback: F,
+    commandPath: string
+  ): T | F {
+    if (value === undefined || value === null) {
+      return fallback;
+    }
+
+    if (typeof value === 'string' && allowed.includes(value as T)) {
+      return value as T;
+    }
+
+    this.logger.warn('Unsupported command option, using default', {
+      path: commandPath,
+      value,
+      allowed,
+      fallback,
+    });
+    return fallback;
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Context Budget
+ * Fits loaded context into a token budget, keeping the most important parts
+ *
+ * Priority: agent persona, current file (or selection), explicit mentions,
+ * folder files, nearby summaries. Explicit mentions that overflow are truncated,
+ * folder files are reduced to a summary, anything else that doesn't fit is dropped.
+ */
+
+import type { ContextBudgetReport, LoadedContext, MentionedFile } from '../types/context.js';
+
+/**
+ * Budget used when the provider doesn't set contextBudget
+ */
+export const DEFAULT_CONTEXT_BUDGET = 100000;
+
+/**
+ * Below this many remaining tokens a truncated file isn't worth sending
+ */
+const MIN_TRUNCATED_TOKENS = 100;
+
+/**
+ * Characters per token for the estimate
+ */
+const CHARS_PER_TOKEN = 4;
+
+export const TRUNCATION_NOTE = '[... truncated to fit the context budget]';
+
+/**
+ * Mentioned files at or above this priority were named explicitly (not via a folder)
+ */
+const EXPLICIT_MENTION_PRIORITY = 1.0;
+
+/**
+ * Rough token count (about four characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * First ~500 characters, ending at a sentence or line boundary where possible
+ */
+export function summarize(content: string): string {
+  if (!content) {
+    return '';
+  }
+
+  const truncated = content.substring(0, 500);
+
+  // Try to end at a sentence boundary
+  const lastPeriod = truncated.lastIndexOf('.');
+  const lastNewline = truncated.lastIndexOf('\n');
+  const cutoff = Math.max(lastPeriod, lastNewline);
+
+  if (cutoff > 100) {
+    return `${truncated.substring(0, cutoff + 1)}...`;
+  }
+
+  return `${truncated}...`;
+}
+
+export class ContextBudget {
+  private remaining: number;
+  private report: ContextBudgetReport;
+
+  constructor(private budget: number) {
+    this.remaining = budget;
+    this.report = { budget, usedTokens: 0, truncated: [], summarized: [], dropped: [] };
+  }
+
+  /**
+   * Trim the context in place and return what was changed
+   */
+  apply(context: LoadedContext): ContextBudgetReport {
+    if (context.agent) {
+      context.agent.persona = this.take(context.agent.persona, 'agent persona');
+    }
+
+    if (context.selection) {
+      context.selection.text = this.take(context.selection.text, context.currentFile.path);
+    } else {
+      context.currentFile.content = this.take(
+        context.currentFile.content,
+        context.currentFile.path
+      );
+    }
+
+    // Stable sort keeps mention order within the same priority
+    const mentioned = [...context.mentionedFiles].sort((a, b) => b.priority - a.priority);
+    context.mentionedFiles = mentioned.filter((file) => this.fitMentionedFile(file));
+
+    context.nearbyFiles = context.nearbyFiles.filter((file) => {
+      if (this.consume(file.summary)) {
+        return true;
+      }
+      this.report.dropped.push(file.path);
+      return false;
+    });
+
+    this.report.usedTokens = this.budget - this.remaining;
+    return this.report;
+  }
+
+  private fitMentionedFile(file: MentionedFile): boolean {
+    if (this.consume(file.content)) {
+      return true;
+    }
+
+    if (file.priority >= EXPLICIT_MENTION_PRIORITY && this.remaining >= MIN_TRUNCATED_TOKENS) {
+      file.content = this.take(file.content, file.path);
+      return true;
+    }
+
+    const summary = summarize(file.content);
+    if (file.priority < EXPLICIT_MENTION_PRIORITY && summary && this.consume(summary)) {
+      file.content = summary;
+      this.report.summarized.push(file.path);
+      return true;
+    }
+
+    this.report.dropped.push(file.path);
+    return false;
+  }
+
+  /**
+   * Use the budget for text when it fits entirely
+   */
+  private consume(text: string): boolean {
+    const tokens = estimateTokens(text);
+    if (tokens > this.remaining) {
+      return false;
+    }
+    this.remaining -= tokens;
+    return true;
+  }
+
+  /**
+   * Keep as much of text as the remaining budget allows
+   */
+  private take(text: string, label: string): string {
+    if (this.consume(text)) {
+      return text;
+    }
+
+    const keepChars = Math.max(0, this.remaining * CHARS_PER_TOKEN - TRUNCATION_NOTE.length - 2);
+    this.remaining = 0;
+    if (keepChars === 0) {
+      this.report.dropped.push(label);
+      return '';
+    }
+
+    this.report.truncated.push(label);
+    return `${text.slice(0, keepChars)}\n\n${TRUNCATION_NOTE}`;
+  }
+}
@@ -4,12 +4,37 @@
  */
 
 import { readFileSync } from 'node:fs';
+import { dirname } from 'node:path';
 import { Logger } from '../logger/Logger.js';
 import { FrontmatterParser } from '../parser/FrontmatterParser.js';
-import type { AgentAIConfig, IContextLoader, LoadedContext } from '../types/context.js';
+import type {
+  AgentAIConfig,
+  ContextLoadOptions,
+  IContextLoader,
+  LoadedContext,
+  SelectionContext,
+} from '../types/context.js';
+import { SparkError } from '../types/index.js';
 import type { ParsedMention } from '../types/parser.js';
+import { ContextBudget, summarize } from './ContextBudget.js';
 import { PathResolver } from './PathResolver.js';
 import { ProximityCalculator } from './ProximityCalculator.js';
+import type { VaultIndex } from './VaultIndex.js';
+
+/**
+ * Weight of retrieval relevance (vs. folder proximity) when ranking nearby files
+ */
+const RELEVANCE_WEIGHT = 0.5;
+
+/**
+ * Characters of the current note used as the retrieval query for nearby files
+ */
+const NEARBY_QUERY_CHARS = 2000;
+
+/**
+ * Chunks pulled in by an @search:"query" mention
+ */
+const SEARCH_MENTION_CHUNKS = 5;
 
 export class ContextLoader implements IContextLoader {
   private resolver: PathResolver;
@@ -17,14 +42,22 @@ export class ContextLoader implements IContextLoader {
   private frontmatterParser: FrontmatterParser;
   private logger: Logger;
 
-  constructor(vaultPath: string) {
+  constructor(
+    vaultPath: string,
+    private index?: VaultIndex
+  ) {
     this.resolver = new PathResolver(vaultPath);
     this.proximityCalc = new ProximityCalculator();
     this.frontmatterParser = new FrontmatterParser();
     this.logger = Logger.getInstance();
   }
 
-  public async load(currentFile: string, mentions: ParsedMention[]): Promise<LoadedContext> {
+  public async load(
+    currentFile: string,
+    mentions: ParsedMention[],
+    options: ContextLoadOptions = {}
+  ): Promise<LoadedContext> {
+    const scope = options.scope ?? 'current_file';
     const context: LoadedContext = {
       currentFile: {
         path: currentFile,
@@ -33,6 +66,7 @@ export class ContextLoader implements IContextLoader {
       mentionedFiles: [],
       nearbyFiles: [],
       serviceConnections: [],
+      scope,
     };
 
     // Load each mentioned item
@@ -40,12 +74,106 @@ export class ContextLoader implements IContextLoader {
       await this.loadMention(mention, context);
     }
 
-    // Load nearby files (proximity-based context)
-    await this.loadNearbyFiles(currentFile, context);
+    switch (scope) {
+      case 'selection':
+        // Only the selected block is relevant - skip nearby files
+        context.selection = this.extractSelection(context.currentFile.content, options.commandLine);
+        break;
+
+      case 'folder':
+        await this.loadCurrentFolder(currentFile, context);
+        break;
+
+      case 'vault':
+        // Summaries of every note, nearest first
+        await this.loadNearbyFiles(currentFile, context, Number.POSITIVE_INFINITY);
+        break;
+
+      default:
+        // Load nearby files (proximity-based context)
+        await this.loadNearbyFiles(currentFile, context);
+    }
+
+    return context;
+  }
+
+  /**
+   * Trim loaded context to a token budget (see ContextBudget for the priority order)
+   * The report is stored on context.budget
+   */
+  public fitToBudget(context: LoadedContext, tokenBudget: number): LoadedContext {
+    const report = new ContextBudget(tokenBudget).apply(context);
+    context.budget = report;
+
+    const trimmed = report.truncated.length + report.summarized.length + report.dropped.length;
+    if (trimmed > 0) {
+      this.logger.debug('Context trimmed to fit token budget', {
+        budget: report.budget,
+        usedTokens: report.usedTokens,
+        truncated: report.truncated,
+        summarized: report.summarized,
+        dropped: report.dropped,
+      });
+    }
 
     return context;
   }
 
+  /**
+   * Find the block of text directly above the command line.
+   * Blank lines between the block and the command are skipped; the block ends at
+   * the previous blank line, frontmatter or Spark result marker.
+   */
+  private extractSelection(content: string, commandLine?: number): SelectionContext {
+    const lines = content.split('\n');
+    const isBoundary = (line: string): boolean =>
+      line.trim() === '' || line.trim() === '---' || /<!--\s*spark-/.test(line);
+
+    let end = (commandLine ?? lines.length + 1) - 2; // 0-based index of the line above
+    while (end >= 0 && lines[end]?.trim() === '') {
+      end--;
+    }
+
+    let start = end;
+    while (start >= 0 && !isBoundary(lines[start] ?? '')) {
+      start--;
+    }
+    start++;
+
+    if (end < 0 || start > end) {
+      throw new SparkError(
+        'Command uses selection context but there is no text directly above it',
+        'EMPTY_SELECTION',
+        { commandLine }
+      );
+    }
+
+    return {
+      text: lines.slice(start, end + 1).join('\n'),
+      startLine: start + 1,
+      endLine: end + 1,
+    };
+  }
+
+  /**
+   * Load every note in the current file's folder (folder context)
+   */
+  private async loadCurrentFolder(currentFile: string, context: LoadedContext): Promise<void> {
+    const files = await this.resolver.getFilesInFolder(dirname(currentFile));
+    const alreadyLoaded = new Set(context.mentionedFiles.map((f) => f.path));
+
+    for (const file of files) {
+      if (file === currentFile || alreadyLoaded.has(file)) {
+        continue;
+      }
+      context.mentionedFiles.push({
+        path: file,
+        content: this.safeReadFile(file),
+        priority: 0.8, // Folder context ranks below anything mentioned explicitly
+      });
+    }
+  }
+
   private async loadMention(mention: ParsedMention, context: LoadedContext): Promise<void> {
     switch (mention.type) {
       case 'agent': {
@@ -70,6 +198,10 @@ export class ContextLoader implements IContextLoader {
         this.loadService(mention.value, context);
         break;
 
+      case 'search':
+        this.loadSearch(mention.value, context);
+        break;
+
       case 'command':
         // Commands are handled separately, not as context
         break;
@@ -288,13 +420,49 @@ export class ContextLoader implements IContextLoader {
 
   private loadService(serviceName: string, context: LoadedContext): void {
     // Add service reference for MCP integration
+    // $gmail enables the server configured as mcp.servers.gmail
     context.serviceConnections.push({
       name: serviceName,
-      mcpServer: `mcp-${serviceName}`, // Assuming standard naming
+      mcpServer: serviceName,
     });
   }
 
-  private async loadNearbyFiles(currentFile: string, context: LoadedContext): Promise<void> {
+  /**
+   * Load the best matching chunks for an @search:"query" mention, grouped by note
+   */
+  private loadSearch(query: string, context: LoadedContext): void {
+    if (!this.index) {
+      this.logger.debug('Vault index not available, skipping search', { query });
+      return;
+    }
+
+    const alreadyLoaded = new Set(context.mentionedFiles.map((f) => f.path));
+    const sections = new Map<string, string[]>();
+    for (const hit of this.index.search(query, SEARCH_MENTION_CHUNKS)) {
+      if (hit.path === context.currentFile.path || alreadyLoaded.has(hit.path)) {
+        continue;
+      }
+      const texts = sections.get(hit.path) ?? [];
+      texts.push(hit.text);
+      sections.set(hit.path, texts);
+    }
+
+    for (const [path, texts] of sections) {
+      context.mentionedFiles.push({
+        path,
+        content: texts.join('\n\n[...]\n\n'),
+        priority: 1.0, // Asked for explicitly, like a file mention
+      });
+    }
+
+    this.logger.debug('Search mention loaded', { query, files: sections.size });
+  }
+
+  private async loadNearbyFiles(
+    currentFile: string,
+    context: LoadedContext,
+    limit = 10
+  ): Promise<void> {
     try {
       // Get all vault files
       const allFiles = await this.resolver.getAllVaultFiles();
@@ -309,11 +477,11 @@ export class ContextLoader implements IContextLoader {
       // Filter out already loaded files
       const candidateFiles = allFiles.filter((file) => !alreadyLoaded.has(file));
 
-      // Rank by proximity
-      const ranked = this.proximityCalc.rankFilesByProximity(currentFile, candidateFiles);
+      // Rank by proximity, blended with relevance when the vault index is available
+      const ranked = this.rankNearbyFiles(currentFile, context, candidateFiles);
 
-      // Take top 10 nearest files
-      const nearbyFiles = ranked.slice(0, 10);
+      // Take the best ranked files (top 10 by default)
+      const nearbyFiles = ranked.slice(0, limit);
 
       for (const file of nearbyFiles) {
         const distance = this.proximityCalc.calculateDistance(currentFile, file);
@@ -335,6 +503,35 @@ export class ContextLoader implements IContextLoader {
     }
   }
 
+  /**
+   * Order candidates by folder proximity and, with an index, by how well they
+   * match the current note (each normalized to 0-1 and weighted equally)
+   */
+  private rankNearbyFiles(
+    currentFile: string,
+    context: LoadedContext,
+    candidates: string[]
+  ): string[] {
+    const ranked = this.proximityCalc.rankFilesByProximity(currentFile, candidates);
+    const query = context.currentFile.content
+      .replace(/^---\s*\n[\s\S]*?\n---\s*\n/, '')
+      .slice(0, NEARBY_QUERY_CHARS);
+    const relevance = this.index?.scoreFiles(query);
+    // Normalize against candidates only - the current note always matches itself best
+    const maxRelevance = ranked.reduce((max, file) => Math.max(max, relevance?.get(file) ?? 0), 0);
+    if (!relevance || maxRelevance === 0) {
+      return ranked;
+    }
+
+    const score = (file: string): number =>
+      (1 - RELEVANCE_WEIGHT) / (1 + this.proximityCalc.calculateDistance(currentFile, file)) +
+      (RELEVANCE_WEIGHT * (relevance.get(file) ?? 0)) / maxRelevance;
+
+    const scores = new Map(ranked.map((file) => [file, score(file)]));
+    // Stable sort keeps proximity order between equally scored files
+    return ranked.sort((a, b) => (scores.get(b) ?? 0) - (scores.get(a) ?? 0));
+  }
+
   private safeReadFile(filePath: string): string {
     try {
       return readFileSync(filePath, 'utf-8');
@@ -348,24 +545,6 @@ export class ContextLoader implements IContextLoader {
   }
 
   private generateSummary(filePath: string): string {
-    const content = this.safeReadFile(filePath);
-
-    if (!content) {
-      return '';
-    }
-
-    // Simple summary: first 500 characters
-    const truncated = content.substring(0, 500);
-
-    // Try to end at a sentence boundary
-    const lastPeriod = truncated.lastIndexOf('.');
-    const lastNewline = truncated.lastIndexOf('\n');
-    const cutoff = Math.max(lastPeriod, lastNewline);
-
-    if (cutoff > 100) {
-      return `${truncated.substring(0, cutoff + 1)}...`;
-    }
-
-    return `${truncated}...`;
+    return summarize(this.safeReadFile(filePath));
   }
 }
@@ -0,0 +1,425 @@
+/**
+ * Vault Index
+ * Local BM25 retrieval index over vault markdown, persisted under .spark/index/
+ *
+ * Notes are split into chunks at headings (and at paragraph breaks for long
+ * sections). The index is reconciled with the vault on start and kept fresh
+ * from file watcher events; everything runs offline.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from 'node:fs';
+import { join, relative, resolve, sep } from 'node:path';
+import { Logger } from '../logger/Logger.js';
+import type { IndexedChunk, SearchHit } from '../types/context.js';
+import { PathResolver } from './PathResolver.js';
+
+const INDEX_DIR = '.spark/index';
+const INDEX_FILENAME = 'bm25.json';
+const INDEX_TMP_FILENAME = 'bm25.json.tmp';
+const INDEX_VERSION = 1;
+
+/**
+ * Sections longer than this are split at paragraph breaks
+ */
+const MAX_CHUNK_CHARS = 1200;
+
+/**
+ * BM25 term frequency saturation and length normalization
+ */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Delay before writing the index after a change, so bursts of edits share one write
+ */
+const SAVE_DELAY_MS = 2000;
+
+const STOPWORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'but',
+  'by',
+  'for',
+  'from',
+  'has',
+  'have',
+  'i',
+  'in',
+  'is',
+  'it',
+  'its',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'was',
+  'were',
+  'will',
+  'with',
+]);
+
+interface IndexedFile {
+  mtimeMs: number;
+  chunks: IndexedChunk[];
+}
+
+interface PersistedIndex {
+  version: number;
+  updatedAt: number;
+  files: Record<string, IndexedFile>;
+}
+
+interface ChunkRef {
+  path: string;
+  chunk: IndexedChunk;
+}
+
+/**
+ * Lowercased words and numbers, without stopwords
+ */
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.filter((word) => word.length > 1 && !STOPWORDS.has(word));
+}
+
+/**
+ * Split a note into heading-delimited chunks (frontmatter is skipped)
+ */
+export function chunkMarkdown(content: string): Array<{ heading: string; text: string }> {
+  const body = content.replace(/^---\s*\n[\s\S]*?\n---\s*(\n|$)/, '');
+  const sections: Array<{ heading: string; lines: string[] }> = [{ heading: '', lines: [] }];
+
+  for (const line of body.split('\n')) {
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      sections.push({ heading: heading[1]?.trim() ?? '', lines: [line] });
+    } else {
+      sections[sections.length - 1]?.lines.push(line);
+    }
+  }
+
+  return sections.flatMap((section) =>
+    splitLongText(section.lines.join('\n').trim()).map((text) => ({
+      heading: section.heading,
+      text,
+    }))
+  );
+}
+
+function splitLongText(text: string): string[] {
+  if (!text) {
+    return [];
+  }
+  if (text.length <= MAX_CHUNK_CHARS) {
+    return [text];
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    if (current && current.length + paragraph.length + 2 > MAX_CHUNK_CHARS) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+export class VaultIndex {
+  private files = new Map<string, IndexedFile>();
+  private fileRefs = new Map<string, ChunkRef[]>();
+  /** Chunks containing each term (document frequency is the set size) */
+  private postings = new Map<string, Set<ChunkRef>>();
+  private chunkCount = 0;
+  private totalLength = 0;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private resolver: PathResolver;
+  private logger: Logger;
+
+  constructor(private vaultPath: string) {
+    this.resolver = new PathResolver(vaultPath);
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * Whether a vault-relative path belongs in the index
+   */
+  public static isIndexable(relativePath: string): boolean {
+    const normalized = relativePath.split(sep).join('/');
+    return normalized.endsWith('.md') && !normalized.startsWith('.spark/');
+  }
+
+  /**
+   * Load the persisted index and bring it up to date with the vault
+   */
+  public async sync(): Promise<void> {
+    this.load();
+
+    const vaultFiles = await this.resolver.getAllVaultFiles();
+    const seen = new Set<string>();
+    let changed = 0;
+
+    for (const file of vaultFiles) {
+      const relativePath = this.toRelative(file);
+      seen.add(relativePath);
+      const mtimeMs = this.mtime(file);
+      if (mtimeMs !== null && this.files.get(relativePath)?.mtimeMs !== mtimeMs) {
+        this.indexFile(relativePath, file, mtimeMs);
+        changed++;
+      }
+    }
+
+    for (const relativePath of [...this.files.keys()]) {
+      if (!seen.has(relativePath)) {
+        this.removeFile(relativePath);
+        changed++;
+      }
+    }
+
+    this.logger.debug('Vault index synced', {
+      files: this.files.size,
+      chunks: this.chunkCount,
+      changed,
+    });
+
+    if (changed > 0) {
+      this.save();
+    }
+  }
+
+  /**
+   * Re-index a note after it changed on disk (or drop it when it is gone)
+   * The path is keyed the same way as in sync(), whatever separators or ./ segments it has
+   */
+  public update(path: string): void {
+    const fullPath = resolve(this.vaultPath, path);
+    const relativePath = this.toRelative(fullPath);
+    if (!VaultIndex.isIndexable(relativePath)) {
+      return;
+    }
+
+    const mtimeMs = this.mtime(fullPath);
+    if (mtimeMs === null) {
+      this.removeFile(relativePath);
+    } else {
+      this.indexFile(relativePath, fullPath, mtimeMs);
+    }
+    this.scheduleSave();
+  }
+
+  /**
+   * Best matching chunks for a query, highest score first
+   */
+  public search(query: string, limit = 5): SearchHit[] {
+    return [...this.score(query)]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([ref, score]) => ({
+        path: join(this.vaultPath, ref.path),
+        heading: ref.chunk.heading,
+        text: ref.chunk.text,
+        score,
+      }));
+  }
+
+  /**
+   * Relevance of each matching note (its best chunk score), keyed by absolute path
+   */
+  public scoreFiles(query: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    for (const [ref, score] of this.score(query)) {
+      const path = join(this.vaultPath, ref.path);
+      scores.set(path, Math.max(scores.get(path) ?? 0, score));
+    }
+    return scores;
+  }
+
+  /**
+   * Write pending changes now (called on engine stop)
+   */
+  public flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      this.save();
+    }
+  }
+
+  public get size(): number {
+    return this.files.size;
+  }
+
+  private score(query: string): Map<ChunkRef, number> {
+    const scores = new Map<ChunkRef, number>();
+    if (this.chunkCount === 0) {
+      return scores;
+    }
+
+    const averageLength = this.totalLength / this.chunkCount;
+    for (const term of new Set(tokenize(query))) {
+      const refs = this.postings.get(term);
+      if (!refs) {
+        continue;
+      }
+
+      const idf = Math.log(1 + (this.chunkCount - refs.size + 0.5) / (refs.size + 0.5));
+      for (const ref of refs) {
+        const tf = ref.chunk.terms[term] ?? 0;
+        const norm = BM25_K1 * (1 - BM25_B + (BM25_B * ref.chunk.length) / averageLength);
+        scores.set(ref, (scores.get(ref) ?? 0) + (idf * tf * (BM25_K1 + 1)) / (tf + norm));
+      }
+    }
+    return scores;
+  }
+
+  private indexFile(relativePath: string, fullPath: string, mtimeMs: number): void {
+    let content: string;
+    try {
+      content = readFileSync(fullPath, 'utf-8');
+    } catch (error) {
+      this.logger.debug('Failed to read file for index', {
+        path: relativePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    const chunks = chunkMarkdown(content).map(({ heading, text }) => {
+      const words = tokenize(`${heading}\n${text}`);
+      const counts = new Map<string, number>();
+      for (const word of words) {
+        counts.set(word, (counts.get(word) ?? 0) + 1);
+      }
+      return { heading, text, terms: Object.fromEntries(counts), length: words.length };
+    });
+
+    this.removeFile(relativePath);
+    this.addFile(relativePath, { mtimeMs, chunks });
+  }
+
+  private addFile(relativePath: string, file: IndexedFile): void {
+    this.files.set(relativePath, file);
+    const refs = file.chunks.map((chunk) => ({ path: relativePath, chunk }));
+    this.fileRefs.set(relativePath, refs);
+    for (const ref of refs) {
+      const { chunk } = ref;
+      for (const term of Object.keys(chunk.terms)) {
+        let termRefs = this.postings.get(term);
+        if (!termRefs) {
+          termRefs = new Set();
+          this.postings.set(term, termRefs);
+        }
+        termRefs.add(ref);
+      }
+      this.chunkCount++;
+      this.totalLength += chunk.length;
+    }
+  }
+
+  private removeFile(relativePath: string): void {
+    const refs = this.fileRefs.get(relativePath);
+    if (!refs) {
+      return;
+    }
+
+    this.files.delete(relativePath);
+    this.fileRefs.delete(relativePath);
+    for (const ref of refs) {
+      for (const term of Object.keys(ref.chunk.terms)) {
+        const termRefs = this.postings.get(term);
+        termRefs?.delete(ref);
+        if (termRefs?.size === 0) {
+          this.postings.delete(term);
+        }
+      }
+      this.chunkCount--;
+      this.totalLength -= ref.chunk.length;
+    }
+  }
+
+  private load(): void {
+    const path = join(this.vaultPath, INDEX_DIR, INDEX_FILENAME);
+    if (!existsSync(path)) {
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(readFileSync(path, 'utf-8')) as PersistedIndex;
+      if (parsed?.version !== INDEX_VERSION || typeof parsed.files !== 'object') {
+        return;
+      }
+      for (const [relativePath, file] of Object.entries(parsed.files)) {
+        this.addFile(relativePath, file);
+      }
+    } catch {
+      // Corrupt or partially-written index; rebuild from the vault
+      this.logger.debug('Vault index unreadable, rebuilding', { path });
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  private save(): void {
+    const dir = join(this.vaultPath, INDEX_DIR);
+    const index: PersistedIndex = {
+      version: INDEX_VERSION,
+      updatedAt: Date.now(),
+      files: Object.fromEntries(this.files),
+    };
+
+    try {
+      mkdirSync(dir, { recursive: true });
+      const tmpPath = join(dir, INDEX_TMP_FILENAME);
+      const finalPath = join(dir, INDEX_FILENAME);
+      writeFileSync(tmpPath, JSON.stringify(index));
+      if (existsSync(finalPath)) {
+        unlinkSync(finalPath);
+      }
+      renameSync(tmpPath, finalPath);
+    } catch (error) {
+      this.logger.warn('Failed to save vault index', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private mtime(fullPath: string): number | null {
+    try {
+      return statSync(fullPath).mtimeMs;
+    } catch {
+      return null;
+    }
+  }
+
+  private toRelative(fullPath: string): string {
+    return relative(this.vaultPath, fullPath).split(sep).join('/');
+  }
+}
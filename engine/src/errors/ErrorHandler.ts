@@ -133,6 +133,20 @@ export class ErrorHandler {
         ];
       }
 
+      case 'AI_RATE_LIMIT_ERROR':
+        return [
+          'The AI provider is rate limiting requests',
+          'Wait a minute and try again',
+          'Configure a fallbackProvider to fail over automatically',
+        ];
+
+      case 'USAGE_LIMIT_EXCEEDED':
+        return [
+          'This agent or provider has reached its monthly cap',
+          'Run: spark usage <vault> --by agent to see what was used',
+          'Raise the cap under usage.limits in .spark/config.yaml, or wait for next month',
+        ];
+
       case 'AI_SERVER_ERROR':
         return [
           'This is a temporary server issue',
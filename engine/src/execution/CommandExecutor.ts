@@ -3,31 +3,68 @@
  * Orchestrates command execution: context loading, prompt building, AI calls, result writing
  */
 
+import { basename, isAbsolute, relative } from 'node:path';
+import { CommandLoader, renderInstructions } from '../context/CommandLoader.js';
+import { DEFAULT_CONTEXT_BUDGET } from '../context/ContextBudget.js';
 import type { ContextLoader } from '../context/ContextLoader.js';
 import { Logger } from '../logger/Logger.js';
-import { AIProviderFactory } from '../providers/index.js';
+import { MCPServerRegistry } from '../mcp/MCPServerRegistry.js';
+import {
+  AIProviderFactory,
+  type ProviderAttemptListener,
+  ProviderFailover,
+} from '../providers/index.js';
 import { ErrorWriter } from '../results/ErrorWriter.js';
 import type { ResultWriter } from '../results/ResultWriter.js';
+import type { AICompletionResult, FileChange } from '../types/ai.js';
+import type { CommandDefinition, CommandOutputMode } from '../types/command.js';
 import type { SparkConfig } from '../types/config.js';
+import type { LoadedContext } from '../types/context.js';
+import { SparkError } from '../types/index.js';
+import type { MCPSelection } from '../types/mcp.js';
 import type { ParsedCommand, ParsedInlineChat } from '../types/parser.js';
-import type { ProviderCompletionOptions, ProviderContextFile } from '../types/provider.js';
+import type {
+  IAIProvider,
+  ProviderCompletionOptions,
+  ProviderContextFile,
+  StreamCallback,
+} from '../types/provider.js';
+import type { UsageMeta, UsageSource } from '../types/usage.js';
+import { UsageLedger } from '../usage/UsageLedger.js';
 import { PromptRunner } from '../workflows/PromptRunner.js';
 import type { WorkflowPromptRequest } from '../workflows/types.js';
+import { PartialResultThrottle } from './PartialResultThrottle.js';
+
+interface AIExecutionResult {
+  content: string;
+  context: LoadedContext;
+  fileChanges: FileChange[];
+}
 
 export class CommandExecutor {
   private logger: Logger;
   private errorWriter: ErrorWriter;
   private providerFactory: AIProviderFactory;
+  private commandLoader: CommandLoader;
+  private failover: ProviderFailover;
+  private usageLedger: UsageLedger;
 
+  /**
+   * onProviderAttempt is told about every failed provider call (retries and failovers)
+   */
   constructor(
     private contextLoader: ContextLoader,
     private resultWriter: ResultWriter,
     private config: SparkConfig,
-    vaultPath: string
+    private vaultPath: string,
+    onProviderAttempt?: ProviderAttemptListener
   ) {
     this.logger = Logger.getInstance();
     this.errorWriter = new ErrorWriter(vaultPath);
     this.providerFactory = new AIProviderFactory(vaultPath);
+    this.commandLoader = new CommandLoader(vaultPath);
+    this.failover = new ProviderFailover(this.providerFactory, config.ai, onProviderAttempt);
+    this.usageLedger = new UsageLedger(vaultPath, config.usage);
   }
 
   /**
@@ -37,17 +74,38 @@ export class CommandExecutor {
     return this.providerFactory;
   }
 
+  /**
+   * Get usage ledger (for ChatNameGenerator and workflow generation)
+   */
+  getUsageLedger(): UsageLedger {
+    return this.usageLedger;
+  }
+
   /**
    * Core AI execution - returns AI response without writing to files
+   * When a command definition is given, its instructions and context scope are used.
+   * onPartial receives the text generated so far when the provider can stream
    */
-  private async executeAI(command: ParsedCommand, filePath: string): Promise<string> {
+  private async executeAI(
+    command: ParsedCommand,
+    filePath: string,
+    source: UsageSource,
+    definition?: CommandDefinition | null,
+    onPartial?: StreamCallback,
+    model?: string
+  ): Promise<AIExecutionResult> {
     this.logger.info('Executing command', {
       command: command.raw.substring(0, 100),
       file: filePath,
+      definition: definition?.path,
+      model,
     });
 
     // Load context including mentioned files and nearby files ranked by proximity
-    const context = await this.contextLoader.load(filePath, command.mentions || []);
+    const context = await this.contextLoader.load(filePath, command.mentions || [], {
+      scope: definition?.context,
+      commandLine: command.line,
+    });
 
     this.logger.debug('Context loaded', {
       mentionedFiles: context.mentionedFiles.map((f) => f.path),
@@ -57,10 +115,11 @@ export class CommandExecutor {
       agentPersonaLength: context.agent?.persona?.length,
     });
 
-    // Get appropriate AI provider (with agent-specific overrides if applicable)
+    // Get appropriate AI provider (with agent-specific overrides if applicable,
+    // and the model asked for when regenerating a chat reply)
     const provider = this.providerFactory.createWithAgentConfig(
       this.config.ai,
-      context.agent?.aiConfig
+      model ? { ...context.agent?.aiConfig, model } : context.agent?.aiConfig
     );
 
     this.logger.debug('Provider selected', {
@@ -72,14 +131,18 @@ export class CommandExecutor {
       agentModel: context.agent?.aiConfig?.model,
     });
 
+    // The budget depends on the provider, which an agent may override
+    this.contextLoader.fitToBudget(context, this.contextBudget(provider));
+
     // Build provider completion options
     const providerOptions: ProviderCompletionOptions = {
-      prompt: command.raw,
+      prompt: definition ? this.buildCommandPrompt(command, definition) : command.raw,
       systemPrompt: this.buildSystemPrompt(),
       context: {
         files: this.buildContextFiles(context),
         agentPersona: context.agent?.persona,
       },
+      mcp: this.selectMCPServers(context, provider),
     };
 
     this.logger.debug('Calling AI provider', {
@@ -104,7 +167,13 @@ export class CommandExecutor {
     });
 
     // Call AI provider
-    const result = await provider.complete(providerOptions);
+    const usage: UsageMeta = {
+      source,
+      agent: this.agentName(context),
+      command: command.command,
+      file: this.vaultRelative(filePath),
+    };
+    const result = await this.callProvider(provider, providerOptions, usage, onPartial);
 
     this.logger.info('Command executed', {
       provider: provider.name,
@@ -114,15 +183,88 @@ export class CommandExecutor {
 
     this.logger.debug('AI response', { response: result.content });
 
-    return result.content;
+    return { content: result.content, context, fileChanges: result.fileChanges ?? [] };
+  }
+
+  /**
+   * Stream when a partial callback is given and the provider supports it
+   * Transient failures are retried, then the fallbackProvider chain is tried.
+   * Each provider's monthly cap is checked before it is called and every
+   * completed call is written to the usage ledger
+   */
+  private async callProvider(
+    provider: IAIProvider,
+    options: ProviderCompletionOptions,
+    usage: UsageMeta,
+    onPartial?: StreamCallback
+  ): Promise<AICompletionResult> {
+    const call = async (current: IAIProvider) => {
+      this.usageLedger.checkLimits(usage.agent, current.name);
+      try {
+        const result =
+          onPartial && current.stream
+            ? await current.stream(options, onPartial)
+            : await current.complete(options);
+        this.usageLedger.record(usage, current.name, current.getConfig().model, result.usage);
+        return result;
+      } catch (error) {
+        // Whatever the provider reported, an aborted call is not worth retrying
+        if (options.signal?.aborted) {
+          throw new SparkError('AI request cancelled', 'AI_CANCELLED', { provider: current.name });
+        }
+        throw error;
+      }
+    };
+    // Cancelling also ends the wait between retries
+    return this.failover.run(provider, call, options.signal);
+  }
+
+  /**
+   * Agent name from its .spark/agents/ file, for usage records and caps
+   */
+  private agentName(context: LoadedContext): string | undefined {
+    return context.agent ? basename(context.agent.path, '.md') : undefined;
+  }
+
+  private vaultRelative(filePath: string): string {
+    return isAbsolute(filePath) ? relative(this.vaultPath, filePath) : filePath;
   }
 
   /**
    * Execute command and return AI response without writing to file
    * Used for chat and other cases where custom result handling is needed
    */
-  async executeAndReturn(command: ParsedCommand, filePath: string): Promise<string> {
-    return await this.executeAI(command, filePath);
+  async executeAndReturn(
+    command: ParsedCommand,
+    filePath: string,
+    onPartial?: StreamCallback,
+    source: UsageSource = 'chat'
+  ): Promise<string> {
+    const { content } = await this.executeWithFileChanges(command, filePath, onPartial, source);
+    return content;
+  }
+
+  /**
+   * Execute command and return the AI response with the vault files the AI changed
+   * Used by chat, which shows the edits so they can be kept or reverted; model overrides
+   * the agent's or provider's model
+   */
+  async executeWithFileChanges(
+    command: ParsedCommand,
+    filePath: string,
+    onPartial?: StreamCallback,
+    source: UsageSource = 'chat',
+    model?: string
+  ): Promise<{ content: string; fileChanges: FileChange[] }> {
+    const { content, fileChanges } = await this.executeAI(
+      command,
+      filePath,
+      source,
+      undefined,
+      onPartial,
+      model
+    );
+    return { content, fileChanges };
   }
 
   /**
@@ -130,6 +272,16 @@ export class CommandExecutor {
    */
 
   async execute(command: ParsedCommand, filePath: string): Promise<void> {
+    // Streamed text goes to a side file the plugin shows below the command until the final result
+    const partials = new PartialResultThrottle((text) => {
+      void this.resultWriter.writePartial({
+        vaultPath: this.vaultPath,
+        filePath,
+        commandLine: command.line,
+        result: text,
+      });
+    });
+
     try {
       // Update status to processing
       await this.resultWriter.updateStatus({
@@ -139,28 +291,36 @@ export class CommandExecutor {
         status: '⏳',
       });
 
-      // Execute AI
-      const aiResponse = await this.executeAI(command, filePath);
+      // Use the command's definition from .spark/commands/ when there is one
+      const definition = command.command ? await this.commandLoader.load(command.command) : null;
 
-      // Write result back to file
-      await this.resultWriter.writeInline({
+      // Execute AI
+      const { content, context } = await this.executeAI(
+        command,
         filePath,
-        commandLine: command.line,
-        commandText: command.raw,
-        result: aiResponse,
-        addBlankLines: this.config.engine.results.add_blank_lines,
-      });
+        'command',
+        definition,
+        (text) => {
+          partials.push(text);
+        }
+      );
+      await this.clearPartial(partials, command, filePath);
+
+      // Write result back to file, noting any context that didn't fit
+      const result = content + this.formatBudgetFooter(context);
+      await this.writeResult(command, filePath, result, context, definition);
 
       this.logger.info('Result written to file', { filePath });
     } catch (error) {
       this.logger.error('Command execution failed', error);
+      await this.clearPartial(partials, command, filePath);
 
-      // Write error status
+      // Write error status (a warning when a usage cap blocked the call)
       await this.resultWriter.updateStatus({
         filePath,
         commandLine: command.line,
         commandText: command.raw,
-        status: '❌',
+        status: this.isUsageLimit(error) ? '⚠️' : '❌',
       });
 
       // Write detailed error log and notification
@@ -175,6 +335,146 @@ export class CommandExecutor {
     }
   }
 
+  private isUsageLimit(error: unknown): boolean {
+    return error instanceof SparkError && error.code === 'USAGE_LIMIT_EXCEEDED';
+  }
+
+  /**
+   * Stop pending partial writes and remove the command's streamed side file
+   */
+  private async clearPartial(
+    partials: PartialResultThrottle,
+    command: ParsedCommand,
+    filePath: string
+  ): Promise<void> {
+    partials.cancel();
+    await this.resultWriter.clearPartial({
+      vaultPath: this.vaultPath,
+      filePath,
+      commandLine: command.line,
+    });
+  }
+
+  private contextBudget(provider: IAIProvider): number {
+    return provider.getConfig().contextBudget ?? DEFAULT_CONTEXT_BUDGET;
+  }
+
+  /**
+   * Footer listing context that was cut to fit the token budget (empty when nothing was)
+   */
+  private formatBudgetFooter(context: LoadedContext): string {
+    const report = context.budget;
+    if (!report) {
+      return '';
+    }
+
+    const parts: string[] = [];
+    const describe = (label: string, paths: string[]) => {
+      if (paths.length === 0) return;
+      const names = paths.map((p) => this.vaultRelative(p));
+      const shown = names.slice(0, 3).join(', ');
+      const more = names.length > 3 ? ` +${names.length - 3} more` : '';
+      parts.push(`${label}: ${shown}${more}`);
+    };
+    describe('truncated', report.truncated);
+    describe('summarized', report.summarized);
+    describe('dropped', report.dropped);
+
+    if (parts.length === 0) {
+      return '';
+    }
+    return `\n\n*Context trimmed to fit ${report.budget} tokens (${parts.join('; ')})*`;
+  }
+
+  /**
+   * MCP servers enabled by the command's $service mentions
+   * Only providers with tool support can reach them, so others fail rather than ignore the mention
+   */
+  private selectMCPServers(
+    context: LoadedContext,
+    provider: IAIProvider
+  ): MCPSelection | undefined {
+    if (context.serviceConnections.length === 0) {
+      return undefined;
+    }
+    if (!provider.supportsTools()) {
+      const services = context.serviceConnections.map((service) => `$${service.name}`);
+      throw new SparkError(
+        `${services.join(', ')} need${services.length === 1 ? 's' : ''} a provider with MCP support, but ${provider.name} has none. Use the claude-agent provider for commands that mention services.`,
+        'MCP_NOT_SUPPORTED',
+        { provider: provider.name, services }
+      );
+    }
+    return new MCPServerRegistry(this.config.mcp).select(
+      context.serviceConnections.map((service) => service.mcpServer)
+    );
+  }
+
+  /**
+   * Write the result where the command definition asks (inline by default)
+   */
+  private async writeResult(
+    command: ParsedCommand,
+    filePath: string,
+    result: string,
+    context: LoadedContext,
+    definition: CommandDefinition | null
+  ): Promise<void> {
+    const base = { filePath, commandLine: command.line, commandText: command.raw, result };
+
+    switch (definition?.output ?? this.resolveResultMode(result)) {
+      case 'append':
+        await this.resultWriter.writeAppend(base);
+        break;
+
+      case 'replace':
+        await this.resultWriter.writeReplace({ ...base, range: context.selection });
+        break;
+
+      case 'separate':
+        await this.resultWriter.writeSeparate({
+          ...base,
+          vaultPath: this.vaultPath,
+          folder: this.config.engine.results.separate_folder,
+          commandName: command.command ?? 'result',
+        });
+        break;
+
+      default:
+        await this.resultWriter.writeInline({
+          ...base,
+          addBlankLines: this.config.engine.results.add_blank_lines,
+        });
+    }
+  }
+
+  /**
+   * Pick inline or separate output from engine.results.mode
+   * auto writes results longer than inline_max_chars to a separate note
+   */
+  private resolveResultMode(result: string): CommandOutputMode {
+    const { mode, inline_max_chars } = this.config.engine.results;
+    if (mode === 'auto') {
+      return result.length > inline_max_chars ? 'separate' : 'inline';
+    }
+    return mode;
+  }
+
+  /**
+   * Build the prompt for a command defined in .spark/commands/
+   */
+  private buildCommandPrompt(command: ParsedCommand, definition: CommandDefinition): string {
+    const sections: string[] = [];
+
+    sections.push(`Run the /${definition.id} command (${definition.name}).`);
+    sections.push('');
+    sections.push(renderInstructions(definition, command.args));
+    sections.push('');
+    sections.push(`The user typed: ${command.raw}`);
+
+    return sections.join('\n');
+  }
+
   /**
    * Build system prompt with Spark conventions
    */
@@ -239,13 +539,19 @@ export class CommandExecutor {
   /**
    * Build context files array from loaded context
    */
-  private buildContextFiles(context: {
-    mentionedFiles: { path: string; content: string }[];
-    currentFile: { path: string; content: string };
-    nearbyFiles: { path: string; summary: string; distance: number }[];
-  }): ProviderContextFile[] {
+  private buildContextFiles(context: LoadedContext): ProviderContextFile[] {
     const files: ProviderContextFile[] = [];
 
+    // Selection context: the selected block replaces the current file
+    if (context.selection) {
+      files.push({
+        path: context.currentFile.path,
+        content: context.selection.text,
+        priority: 'high',
+        note: `Selected text (lines ${context.selection.startLine}-${context.selection.endLine}) - the command applies to this`,
+      });
+    }
+
     // High priority: Explicitly mentioned files
     for (const file of context.mentionedFiles) {
       files.push({
@@ -256,12 +562,14 @@ export class CommandExecutor {
     }
 
     // Medium priority: Current file where command was typed
-    files.push({
-      path: context.currentFile.path,
-      content: context.currentFile.content,
-      priority: 'medium',
-      note: 'Command was typed here',
-    });
+    if (!context.selection) {
+      files.push({
+        path: context.currentFile.path,
+        content: context.currentFile.content,
+        priority: 'medium',
+        note: 'Command was typed here',
+      });
+    }
 
     // Low priority: Nearby files (summaries only)
     for (const file of context.nearbyFiles) {
@@ -300,10 +608,22 @@ export class CommandExecutor {
       userMessage: chat.userMessage.substring(0, 100),
     });
 
+    // Streamed text goes to a side file so the chat block isn't rewritten mid-response
+    const partials = new PartialResultThrottle((text) => {
+      void this.resultWriter.writeInlineChatPartial({
+        vaultPath: this.vaultPath,
+        chatId: chat.id,
+        response: text,
+      });
+    });
+
     try {
       // Execute AI call using user message as prompt
       // No status update to "processing" - it causes feedback loops
-      const aiResponse = await this.executeAIForInlineChat(chat, filePath);
+      const aiResponse = await this.executeAIForInlineChat(chat, filePath, (text) => {
+        partials.push(text);
+      });
+      await this.clearInlineChatPartial(partials, chat);
 
       // Write AI response to file (replaces entire chat block with clean response)
       await this.resultWriter.writeInlineChatResponse({
@@ -321,6 +641,7 @@ export class CommandExecutor {
       });
     } catch (error) {
       this.logger.error('Inline chat execution failed', error);
+      await this.clearInlineChatPartial(partials, chat);
 
       // On error, replace chat block with error message (no markers)
       await this.resultWriter.writeInlineChatResponse({
@@ -328,17 +649,34 @@ export class CommandExecutor {
         chatId: chat.id,
         startLine: chat.startLine,
         endLine: chat.endLine,
-        response: `*Error processing inline chat: ${error instanceof Error ? error.message : String(error)}*`,
+        response: this.isUsageLimit(error)
+          ? `*⚠️ ${(error as Error).message}*`
+          : `*Error processing inline chat: ${error instanceof Error ? error.message : String(error)}*`,
       });
 
       throw error;
     }
   }
 
+  /**
+   * Stop pending partial writes and remove the inline chat stream file
+   */
+  private async clearInlineChatPartial(
+    partials: PartialResultThrottle,
+    chat: ParsedInlineChat
+  ): Promise<void> {
+    partials.cancel();
+    await this.resultWriter.clearInlineChatPartial({ vaultPath: this.vaultPath, chatId: chat.id });
+  }
+
   /**
    * Execute AI for inline chat - similar to executeAI but with inline-specific system prompt
    */
-  private async executeAIForInlineChat(chat: ParsedInlineChat, filePath: string): Promise<string> {
+  private async executeAIForInlineChat(
+    chat: ParsedInlineChat,
+    filePath: string,
+    onPartial?: StreamCallback
+  ): Promise<string> {
     this.logger.debug('Executing AI for inline chat', {
       chatId: chat.id,
       file: filePath,
@@ -364,6 +702,7 @@ export class CommandExecutor {
       this.config.ai,
       context.agent?.aiConfig
     );
+    this.contextLoader.fitToBudget(context, this.contextBudget(provider));
 
     // Build context files for provider
     const contextFiles: ProviderContextFile[] = [];
@@ -409,6 +748,7 @@ export class CommandExecutor {
       context: {
         files: contextFiles,
       },
+      mcp: this.selectMCPServers(context, provider),
     };
 
     this.logger.debug('Calling AI provider for inline chat', {
@@ -419,7 +759,12 @@ export class CommandExecutor {
     });
 
     // Call AI
-    const response = await provider.complete(providerOptions);
+    const response = await this.callProvider(
+      provider,
+      providerOptions,
+      { source: 'inline_chat', agent: this.agentName(context), file: this.vaultRelative(filePath) },
+      onPartial
+    );
 
     this.logger.debug('AI response received for inline chat', {
       responseLength: response.content.length,
@@ -475,6 +820,7 @@ export class CommandExecutor {
     const providerOptions: ProviderCompletionOptions = {
       prompt: userMessage,
       systemPrompt,
+      signal: request.signal,
     };
 
     this.logger.debug('Calling AI provider for workflow prompt', {
@@ -485,7 +831,11 @@ export class CommandExecutor {
     });
 
     // Call AI
-    const response = await provider.complete(providerOptions);
+    const response = await this.callProvider(provider, providerOptions, {
+      source: 'workflow_prompt',
+      agent: request.agentId,
+      command: request.workflowId,
+    });
 
     this.logger.debug('Workflow prompt response received', {
       responseLength: response.content.length,
@@ -0,0 +1,58 @@
+/**
+ * Partial Result Throttle
+ * Limits how often streamed partial text is written to disk
+ */
+
+/**
+ * Minimum time between partial writes
+ */
+export const PARTIAL_WRITE_INTERVAL_MS = 300;
+
+export class PartialResultThrottle {
+  private pending: string | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private lastWrite = 0;
+
+  constructor(
+    private write: (text: string) => void,
+    private intervalMs: number = PARTIAL_WRITE_INTERVAL_MS
+  ) {}
+
+  /**
+   * Queue the latest text; only the newest text is written when the interval elapses
+   */
+  push(text: string): void {
+    this.pending = text;
+    if (this.timer) {
+      return;
+    }
+
+    const wait = Math.max(0, this.lastWrite + this.intervalMs - Date.now());
+    this.timer = setTimeout(() => {
+      this.flush();
+    }, wait);
+  }
+
+  /**
+   * Drop any queued text. Call before writing the final result
+   */
+  cancel(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending = null;
+  }
+
+  private flush(): void {
+    this.timer = null;
+    const text = this.pending;
+    this.pending = null;
+    if (text === null) {
+      return;
+    }
+
+    this.lastWrite = Date.now();
+    this.write(text);
+  }
+}
@@ -9,9 +9,11 @@ import type { FSWatcher } from 'chokidar';
 import chokidar from 'chokidar';
 import { ChatNameGenerator } from './chat/ChatNameGenerator.js';
 import { ChatQueueHandler } from './chat/ChatQueueHandler.js';
+import { ChatSummarizer } from './chat/ChatSummarizer.js';
 import { EngineInspector } from './cli/EngineInspector.js';
 import { ConfigLoader } from './config/ConfigLoader.js';
 import { ContextLoader } from './context/ContextLoader.js';
+import { VaultIndex } from './context/VaultIndex.js';
 import { CommandExecutor } from './execution/CommandExecutor.js';
 import { VaultInitializer } from './init/VaultInitializer.js';
 import { Logger } from './logger/Logger.js';
@@ -21,18 +23,21 @@ import {
   ClaudeAgentProvider,
   ClaudeCodeProvider,
   ClaudeDirectProvider,
+  OpenAICompatibleProvider,
   ProviderRegistry,
 } from './providers/index.js';
 import { ResultWriter } from './results/ResultWriter.js';
+import { TriggerManager } from './triggers/TriggerManager.js';
 import type { SparkConfig } from './types/config.js';
 import type { EngineState, ISparkEngine } from './types/index.js';
 import { SparkError } from './types/index.js';
 import type { ParsedCommand, ParsedInlineChat, ParsedMention } from './types/parser.js';
 import { ProviderType } from './types/provider.js';
-import type { FileChange } from './types/watcher.js';
+import type { FileChange, FrontmatterChange } from './types/watcher.js';
 import { FileWatcher } from './watcher/FileWatcher.js';
 import { WorkflowGenerateHandler } from './workflows/generation/WorkflowGenerateHandler.js';
 import { WorkflowExecutor } from './workflows/WorkflowExecutor.js';
+import { WorkflowTriggerManager } from './workflows/WorkflowTriggerManager.js';
 
 export class SparkEngine implements ISparkEngine {
   private readonly vaultPath: string;
@@ -43,6 +48,7 @@ export class SparkEngine implements ISparkEngine {
   private readonly logger: Logger;
   private readonly fileParser: FileParser;
   private readonly inspector: EngineInspector;
+  private readonly vaultIndex: VaultIndex;
   private readonly contextLoader: ContextLoader;
   private readonly resultWriter: ResultWriter;
   private readonly mentionParser: MentionParser;
@@ -55,6 +61,8 @@ export class SparkEngine implements ISparkEngine {
   private chatQueueHandler: ChatQueueHandler | null = null;
   private workflowExecutor: WorkflowExecutor | null = null;
   private workflowGenerateHandler: WorkflowGenerateHandler | null = null;
+  private workflowTriggers: WorkflowTriggerManager | null = null;
+  private triggerManager: TriggerManager | null = null;
 
   /**
    * Get command executor (only valid after start())
@@ -71,7 +79,8 @@ export class SparkEngine implements ISparkEngine {
     this.logger = Logger.getInstance();
     this.fileParser = new FileParser();
     this.inspector = new EngineInspector(this);
-    this.contextLoader = new ContextLoader(vaultPath);
+    this.vaultIndex = new VaultIndex(vaultPath);
+    this.contextLoader = new ContextLoader(vaultPath, this.vaultIndex);
     this.resultWriter = new ResultWriter();
     this.mentionParser = new MentionParser();
   }
@@ -112,13 +121,20 @@ export class SparkEngine implements ISparkEngine {
         this.contextLoader,
         this.resultWriter,
         this.config,
-        this.vaultPath
+        this.vaultPath,
+        (attempt) => this.inspector.recordProviderAttempt(attempt)
       );
 
-      // Create chat name generator
+      // Create chat name generator and summarizer
       const chatNameGenerator = new ChatNameGenerator(
         this.commandExecutor.getProviderFactory(),
-        this.config.ai
+        this.config.ai,
+        this.commandExecutor.getUsageLedger()
+      );
+      const chatSummarizer = new ChatSummarizer(
+        this.commandExecutor.getProviderFactory(),
+        this.config.ai,
+        this.commandExecutor.getUsageLedger()
       );
 
       this.chatQueueHandler = new ChatQueueHandler(
@@ -126,14 +142,17 @@ export class SparkEngine implements ISparkEngine {
         this.commandExecutor,
         this.mentionParser,
         this.logger,
-        chatNameGenerator
+        chatNameGenerator,
+        chatSummarizer
       );
 
       // Initialize workflow executor
+      // Notes written by file and approval steps count as the engine's own writes
       this.workflowExecutor = new WorkflowExecutor(
         this.vaultPath,
         this.logger,
-        this.commandExecutor
+        this.commandExecutor,
+        (filePath, content) => this.resultWriter.recordWrite(filePath, content)
       );
 
       // Initialize workflow generation handler (workflow builder: prompt -> workflow definition)
@@ -141,10 +160,15 @@ export class SparkEngine implements ISparkEngine {
         this.vaultPath,
         this.logger,
         this.commandExecutor.getProviderFactory(),
-        this.config.ai
+        this.config.ai,
+        this.commandExecutor.getUsageLedger()
       );
       this.logger.debug('AI components initialized');
 
+      // Bring the retrieval index up to date before watching for changes
+      await this.vaultIndex.sync();
+      this.logger.debug('Vault index ready', { files: this.vaultIndex.size });
+
       // Create file watcher
       this.watcher = new FileWatcher({
         vaultPath: this.vaultPath,
@@ -177,6 +201,17 @@ export class SparkEngine implements ISparkEngine {
       // Watch config file for changes
       this.startConfigWatcher();
 
+      // Load automation triggers (if enabled)
+      await this.syncTriggerManager();
+
+      // Start scheduled and event-triggered workflow runs
+      this.workflowTriggers = new WorkflowTriggerManager(
+        this.vaultPath,
+        this.fileParser.getFrontmatterParser(),
+        this.logger
+      );
+      await this.workflowTriggers.start();
+
       // Process any pending workflow queue items from before restart
       await this.workflowExecutor.scanQueue();
       this.logger.debug('Workflow queue scanned');
@@ -225,6 +260,21 @@ export class SparkEngine implements ISparkEngine {
       this.watcher = null;
     }
 
+    // Write pending index changes
+    this.vaultIndex.flush();
+
+    // Stop trigger watcher
+    if (this.triggerManager) {
+      await this.triggerManager.stop();
+      this.triggerManager = null;
+    }
+
+    // Stop workflow schedules
+    if (this.workflowTriggers) {
+      await this.workflowTriggers.stop();
+      this.workflowTriggers = null;
+    }
+
     this.state = 'stopped';
     this.logger.info('Spark engine stopped');
   }
@@ -251,6 +301,15 @@ export class SparkEngine implements ISparkEngine {
       return new ClaudeCodeProvider(config);
     });
 
+    // Register OpenAI-compatible provider (OpenAI, Azure, Ollama, llama.cpp server)
+    // Also used by any provider configured with type: openai
+    registry.registerProvider('openai', ProviderType.OPENAI, (config) => {
+      const provider = new OpenAICompatibleProvider(config);
+      // Report the models the endpoint serves, not just the configured one
+      provider.refreshModels();
+      return provider;
+    });
+
     this.logger.debug('AI providers registered', {
       providers: registry.getProviderNames(),
     });
@@ -280,12 +339,19 @@ export class SparkEngine implements ISparkEngine {
         this.contextLoader,
         this.resultWriter,
         this.config,
-        this.vaultPath
+        this.vaultPath,
+        (attempt) => this.inspector.recordProviderAttempt(attempt)
       );
 
       const chatNameGenerator = new ChatNameGenerator(
         this.commandExecutor.getProviderFactory(),
-        this.config.ai
+        this.config.ai,
+        this.commandExecutor.getUsageLedger()
+      );
+      const chatSummarizer = new ChatSummarizer(
+        this.commandExecutor.getProviderFactory(),
+        this.config.ai,
+        this.commandExecutor.getUsageLedger()
       );
 
       this.chatQueueHandler = new ChatQueueHandler(
@@ -293,11 +359,15 @@ export class SparkEngine implements ISparkEngine {
         this.commandExecutor,
         this.mentionParser,
         this.logger,
-        chatNameGenerator
+        chatNameGenerator,
+        chatSummarizer
       );
 
       this.logger.info('AI components reinitialized with new config');
 
+      // Start, stop or rewire trigger automation to match the new config
+      await this.syncTriggerManager();
+
       // Update logger with new config
       this.logger.updateConfig(newConfig.logging);
       this.logger.info('Configuration reloaded successfully', {
@@ -337,6 +407,35 @@ export class SparkEngine implements ISparkEngine {
     }
   }
 
+  /**
+   * Start or stop trigger automation based on features.trigger_automation
+   */
+  private async syncTriggerManager(): Promise<void> {
+    const enabled = this.config?.features.trigger_automation ?? false;
+
+    if (!enabled) {
+      if (this.triggerManager) {
+        await this.triggerManager.stop();
+        this.triggerManager = null;
+        this.logger.info('Trigger automation disabled');
+      }
+      return;
+    }
+
+    if (this.triggerManager) {
+      this.triggerManager.setCommandExecutor(this.executor);
+      return;
+    }
+
+    this.triggerManager = new TriggerManager(
+      this.vaultPath,
+      this.executor,
+      this.fileParser.getFrontmatterParser(),
+      this.logger
+    );
+    await this.triggerManager.start();
+  }
+
   /**
    * Write reload status to file for CLI feedback
    */
@@ -423,6 +522,13 @@ export class SparkEngine implements ISparkEngine {
     return this.fileParser;
   }
 
+  /**
+   * Get trigger manager (null when trigger automation is disabled)
+   */
+  public getTriggerManager(): TriggerManager | null {
+    return this.triggerManager;
+  }
+
   /**
    * Get inspector (for inspection/debugging)
    */
@@ -439,9 +545,14 @@ export class SparkEngine implements ISparkEngine {
       type: change.type,
     });
 
-    // Skip if file was deleted
+    // Keep the retrieval index fresh (deleted notes are dropped)
+    this.vaultIndex.update(change.path);
+
+    // Skip if file was deleted (file_deleted triggers still fire)
     if (change.type === 'unlink') {
       this.logger.debug('File deleted, skipping processing', { path: change.path });
+      this.fileParser.getFrontmatterParser().clearCache(join(this.vaultPath, change.path));
+      this.processTriggers(change, []);
       return;
     }
 
@@ -459,6 +570,12 @@ export class SparkEngine implements ISparkEngine {
       return;
     }
 
+    // Review notes written by approval steps resume their run once decided
+    if (this.workflowExecutor?.handleApprovalNote(change.path)) {
+      this.logger.debug('Workflow review note detected', { path: change.path });
+      return;
+    }
+
     // Check if this is a workflow generation queue file
     if (this.workflowGenerateHandler?.isQueueFile(change.path)) {
       this.logger.debug('Workflow generation queue file detected', { path: change.path });
@@ -484,7 +601,14 @@ export class SparkEngine implements ISparkEngine {
       this.processInlineChats(change.path, fullPath, parsed.inlineChats);
 
       // Process frontmatter changes
-      this.processFrontmatterChanges(fullPath, change.path, parsed.content);
+      const frontmatterChanges = this.processFrontmatterChanges(
+        fullPath,
+        change.path,
+        parsed.content
+      );
+
+      // Fire matching automation triggers
+      this.processTriggers(change, frontmatterChanges, parsed.content);
     } catch (error) {
       this.logger.error('Error processing file', {
         path: change.path,
@@ -579,13 +703,17 @@ export class SparkEngine implements ISparkEngine {
     }
   }
 
-  private processFrontmatterChanges(fullPath: string, relativePath: string, content: string): void {
+  private processFrontmatterChanges(
+    fullPath: string,
+    relativePath: string,
+    content: string
+  ): FrontmatterChange[] {
     const frontmatterChanges = this.fileParser
       .getFrontmatterParser()
       .detectChanges(fullPath, content);
 
     if (frontmatterChanges.length === 0) {
-      return;
+      return frontmatterChanges;
     }
 
     this.logger.info(`Found ${frontmatterChanges.length} frontmatter change(s)`, {
@@ -605,5 +733,41 @@ export class SparkEngine implements ISparkEngine {
         fmChange.newValue
       );
     }
+
+    return frontmatterChanges;
+  }
+
+  private processTriggers(
+    change: FileChange,
+    frontmatterChanges: FrontmatterChange[],
+    content?: string
+  ): void {
+    // Engine-internal files (queues, results, logs) never fire triggers
+    if (change.path.startsWith('.spark/')) {
+      return;
+    }
+
+    // Nor do the engine's own writes to notes (status markers, results, workflow steps)
+    if (
+      content !== undefined &&
+      this.resultWriter.isOwnWrite(join(this.vaultPath, change.path), content)
+    ) {
+      this.logger.debug('Change written by the engine, skipping triggers', { path: change.path });
+      return;
+    }
+
+    this.workflowTriggers?.handleChange(change, frontmatterChanges, content);
+
+    if (!this.triggerManager) {
+      return;
+    }
+
+    const fired = this.triggerManager.handleChange(change, frontmatterChanges);
+    for (const trigger of fired) {
+      this.inspector.recordTriggerFired(change.path, trigger.name, {
+        event: change.type,
+        priority: trigger.priority,
+      });
+    }
   }
 }
@@ -0,0 +1,181 @@
+/**
+ * MCP Health Checker
+ * Probes configured stdio MCP servers: spawn, initialize, list tools
+ */
+
+import { spawn } from 'node:child_process';
+import { Logger } from '../logger/Logger.js';
+import type { MCPConfig, MCPServerConfig } from '../types/config.js';
+import { SparkError } from '../types/index.js';
+import type { MCPServerHealth } from '../types/mcp.js';
+import { MCPServerRegistry } from './MCPServerRegistry.js';
+
+const MCP_PROTOCOL_VERSION = '2024-11-05';
+
+interface JsonRpcMessage {
+  id?: number;
+  result?: Record<string, unknown>;
+  error?: { message?: string };
+}
+
+export class MCPHealthChecker {
+  private logger: Logger;
+  private registry: MCPServerRegistry;
+
+  constructor(config?: MCPConfig) {
+    this.logger = Logger.getInstance();
+    this.registry = new MCPServerRegistry(config);
+  }
+
+  /**
+   * Probe every configured server
+   */
+  async checkAll(): Promise<MCPServerHealth[]> {
+    const results: MCPServerHealth[] = [];
+    for (const name of this.registry.getServerNames()) {
+      results.push(await this.check(name));
+    }
+    return results;
+  }
+
+  /**
+   * Probe one server, retrying according to mcp.retry
+   */
+  async check(name: string): Promise<MCPServerHealth> {
+    const server = this.registry.getServer(name);
+    if (!server) {
+      throw new SparkError(`MCP server "${name}" is not configured`, 'MCP_SERVER_NOT_FOUND');
+    }
+
+    if (!this.registry.isEnabled(name)) {
+      return { name, status: 'disabled', tools: [], attempts: 0 };
+    }
+
+    const { maxAttempts, backoffMs } = this.registry.getRetry();
+    let lastError = '';
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const startedAt = Date.now();
+      try {
+        const tools = await this.probe(server, this.registry.getTimeoutMs());
+        return {
+          name,
+          status: 'healthy',
+          tools,
+          attempts: attempt,
+          latencyMs: Date.now() - startedAt,
+        };
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+        this.logger.debug('MCP server probe failed', { server: name, attempt, error: lastError });
+
+        if (attempt < maxAttempts) {
+          await new Promise((resolve) => setTimeout(resolve, backoffMs * attempt));
+        }
+      }
+    }
+
+    return { name, status: 'unhealthy', tools: [], attempts: maxAttempts, error: lastError };
+  }
+
+  /**
+   * Spawn the server, run the initialize handshake and list its tools
+   */
+  private probe(server: MCPServerConfig, timeoutMs: number): Promise<string[]> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(server.command, server.args ?? [], {
+        env: { ...process.env, ...server.env },
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+
+      let settled = false;
+      let stdout = '';
+      let stderr = '';
+
+      const finish = (error: Error | null, tools: string[] = []): void => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        child.kill();
+        if (error) {
+          reject(error);
+        } else {
+          resolve(tools);
+        }
+      };
+
+      const send = (message: Record<string, unknown>): void => {
+        child.stdin.write(`${JSON.stringify({ jsonrpc: '2.0', ...message })}\n`);
+      };
+
+      const handleMessage = (message: JsonRpcMessage): void => {
+        if (message.error) {
+          finish(
+            new SparkError(message.error.message ?? 'MCP request failed', 'MCP_REQUEST_FAILED')
+          );
+          return;
+        }
+
+        if (message.id === 1) {
+          send({ method: 'notifications/initialized' });
+          send({ id: 2, method: 'tools/list', params: {} });
+        } else if (message.id === 2) {
+          const tools = Array.isArray(message.result?.tools) ? message.result.tools : [];
+          finish(
+            null,
+            tools
+              .map((tool: unknown) => (tool as { name?: unknown }).name)
+              .filter((toolName): toolName is string => typeof toolName === 'string')
+          );
+        }
+      };
+
+      const timer = setTimeout(() => {
+        finish(new SparkError(`No response within ${timeoutMs}ms`, 'MCP_TIMEOUT'));
+      }, timeoutMs);
+
+      child.on('error', (error) => {
+        finish(new SparkError(`Failed to start: ${error.message}`, 'MCP_SPAWN_FAILED'));
+      });
+
+      child.on('exit', (code) => {
+        const detail = stderr.trim() ? `: ${stderr.trim().split('\n').pop()}` : '';
+        finish(new SparkError(`Exited with code ${code ?? 'unknown'}${detail}`, 'MCP_EXITED'));
+      });
+
+      // Writes fail with EPIPE if the server exits early; 'exit' reports it
+      child.stdin.on('error', () => {});
+
+      child.stderr.on('data', (chunk: Buffer) => {
+        stderr += chunk.toString();
+      });
+
+      child.stdout.on('data', (chunk: Buffer) => {
+        stdout += chunk.toString();
+        let newline = stdout.indexOf('\n');
+        while (newline !== -1) {
+          const line = stdout.substring(0, newline).trim();
+          stdout = stdout.substring(newline + 1);
+          newline = stdout.indexOf('\n');
+
+          if (!line) continue;
+          try {
+            handleMessage(JSON.parse(line) as JsonRpcMessage);
+          } catch {
+            // Ignore non-JSON output (some servers log to stdout)
+          }
+        }
+      });
+
+      send({
+        id: 1,
+        method: 'initialize',
+        params: {
+          protocolVersion: MCP_PROTOCOL_VERSION,
+          capabilities: {},
+          clientInfo: { name: 'spark-engine', version: '1.0.0' },
+        },
+      });
+    });
+  }
+}
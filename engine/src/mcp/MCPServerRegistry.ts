@@ -0,0 +1,111 @@
+/**
+ * MCP Server Registry
+ * Resolves $service mentions to the MCP servers configured in config.yaml
+ */
+
+import { Logger } from '../logger/Logger.js';
+import type { MCPConfig, MCPServerConfig } from '../types/config.js';
+import type { MCPRetry, MCPSelection, ProviderMCPServer } from '../types/mcp.js';
+
+export const DEFAULT_MCP_TIMEOUT_MS = 30000;
+
+export class MCPServerRegistry {
+  private logger: Logger;
+
+  constructor(private config?: MCPConfig) {
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * Names of all configured servers, enabled or not
+   */
+  getServerNames(): string[] {
+    return Object.keys(this.config?.servers ?? {});
+  }
+
+  getServer(name: string): MCPServerConfig | undefined {
+    return this.config?.servers?.[name];
+  }
+
+  isEnabled(name: string): boolean {
+    const server = this.getServer(name);
+    return !!server && server.enabled !== false;
+  }
+
+  getTimeoutMs(): number {
+    return this.config?.timeout_ms ?? DEFAULT_MCP_TIMEOUT_MS;
+  }
+
+  /**
+   * Attempts at starting a server from mcp.retry (a single one when retry is disabled)
+   */
+  getRetry(): MCPRetry {
+    const retry = this.config?.retry;
+    return retry?.enabled
+      ? { maxAttempts: Math.max(1, retry.max_attempts), backoffMs: retry.backoff_ms }
+      : { maxAttempts: 1, backoffMs: 0 };
+  }
+
+  /**
+   * Build the MCP servers for a command from its $service mentions
+   * Only the named servers are enabled; unknown or disabled names are skipped.
+   * Returns undefined when no server applies.
+   */
+  select(names: string[]): MCPSelection | undefined {
+    const servers: Record<string, ProviderMCPServer> = {};
+
+    for (const name of new Set(names)) {
+      const server = this.getServer(name);
+      if (!server) {
+        this.logger.warn('Service mentioned but no MCP server configured', {
+          service: name,
+          configured: this.getServerNames(),
+        });
+        continue;
+      }
+
+      if (server.enabled === false) {
+        this.logger.warn('Service mentioned but its MCP server is disabled', { service: name });
+        continue;
+      }
+
+      servers[name] = {
+        command: server.command,
+        args: server.args ?? [],
+        env: server.env,
+        allowedTools: server.allowed_tools,
+      };
+    }
+
+    if (Object.keys(servers).length === 0) {
+      return undefined;
+    }
+
+    this.logger.debug('MCP servers enabled for command', { servers: Object.keys(servers) });
+
+    return { servers, timeoutMs: this.getTimeoutMs(), retry: this.getRetry() };
+  }
+}
+
+/**
+ * Tool name the agent SDK uses for an MCP tool
+ */
+export function mcpToolName(server: string, tool: string): string {
+  return `mcp__${server}__${tool}`;
+}
+
+/**
+ * Check whether an MCP tool call is permitted by the selection's allowlists
+ * Returns false for tools of servers that aren't enabled for this call.
+ */
+export function isMCPToolAllowed(selection: MCPSelection, toolName: string): boolean {
+  for (const [name, server] of Object.entries(selection.servers)) {
+    const prefix = mcpToolName(name, '');
+    if (!toolName.startsWith(prefix)) {
+      continue;
+    }
+    const tool = toolName.substring(prefix.length);
+    return !server.allowedTools || server.allowedTools.includes(tool);
+  }
+  return false;
+}
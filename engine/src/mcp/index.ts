@@ -0,0 +1,11 @@
+/**
+ * MCP module exports
+ */
+
+export { MCPHealthChecker } from './MCPHealthChecker.js';
+export {
+  DEFAULT_MCP_TIMEOUT_MS,
+  isMCPToolAllowed,
+  MCPServerRegistry,
+  mcpToolName,
+} from './MCPServerRegistry.js';
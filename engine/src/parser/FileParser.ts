@@ -55,14 +55,17 @@ export class FileParser {
     // Get content without frontmatter
     const contentWithoutFrontmatter = this.frontmatterParser.getContent(content);
 
+    // Chat notes saved by the plugin quote the conversation; commands in them never run
+    const isChatNote = frontmatter.spark_conversation !== undefined;
+
     // Detect commands
-    const commands = this.commandDetector.detectInFile(content);
+    const commands = isChatNote ? [] : this.commandDetector.detectInFile(content);
 
     // Parse all mentions in the file
     const mentions = this.mentionParser.parse(contentWithoutFrontmatter);
 
     // Detect inline chats
-    const inlineChats = this.inlineChatDetector.detectInFile(content);
+    const inlineChats = isChatNote ? [] : this.inlineChatDetector.detectInFile(content);
 
     return {
       path: filePath,
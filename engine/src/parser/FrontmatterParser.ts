@@ -97,6 +97,13 @@ export class FrontmatterParser implements IFrontmatterParser {
     }
   }
 
+  /**
+   * Check if frontmatter for a file has been cached
+   */
+  public hasCache(filePath: string): boolean {
+    return this.cache.has(filePath);
+  }
+
   /**
    * Clear cached frontmatter for a file
    */
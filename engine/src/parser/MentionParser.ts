@@ -1,6 +1,6 @@
 /**
  * Mention Parser
- * Parses Spark syntax: @agent, @file.md, @folder/, /command, $service
+ * Parses Spark syntax: @agent, @file.md, @folder/, @search:"query", /command, $service
  */
 
 import type { IMentionParser, MentionType, ParsedMention } from '../types/parser.js';
@@ -17,6 +17,12 @@ export class MentionParser implements IMentionParser {
   constructor() {
     // Define patterns in priority order (higher priority checked first)
     this.patterns = [
+      // Search: @search:"query" (top matching chunks from the vault index)
+      {
+        type: 'search',
+        regex: /@search:"([^"]+)"/gi,
+        priority: 7,
+      },
       // Command: /command-name (must be preceded by whitespace, start of line, or @)
       {
         type: 'command',
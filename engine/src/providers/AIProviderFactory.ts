@@ -9,6 +9,7 @@ import { Logger } from '../logger/Logger.js';
 import type { AIConfig, ProviderConfiguration } from '../types/config.js';
 import { SparkError } from '../types/index.js';
 import type { IAIProvider, ProviderConfig } from '../types/provider.js';
+import { ProviderType } from '../types/provider.js';
 import { ProviderRegistry } from './ProviderRegistry.js';
 
 export class AIProviderFactory {
@@ -195,7 +196,7 @@ export class AIProviderFactory {
    * Injects API key from secrets.yaml if available
    */
   private convertConfiguration(name: string, config: ProviderConfiguration): ProviderConfig {
-    const apiKey = this.resolveApiKey(name);
+    const apiKey = this.resolveApiKey(name, config.type);
 
     return {
       name,
@@ -206,6 +207,7 @@ export class AIProviderFactory {
       temperature: config.temperature,
       systemPrompt: config.systemPrompt,
       fallbackProvider: config.fallbackProvider,
+      contextBudget: config.contextBudget,
       options: {
         ...config.options,
         vaultPath: this.vaultPath, // Pass vaultPath to providers that need it
@@ -213,12 +215,15 @@ export class AIProviderFactory {
     };
   }
 
-  private resolveApiKey(name: string): string | undefined {
+  private resolveApiKey(name: string, type: ProviderType): string | undefined {
     if (!this.secretsLoader) return undefined;
 
     const direct = this.secretsLoader.getApiKey(name);
     if (direct) return direct;
 
+    // OpenAI-compatible providers share the generic 'openai' key
+    if (type === ProviderType.OPENAI) return this.secretsLoader.getApiKey('openai');
+
     if (!name.startsWith('claude-')) return undefined;
     return this.resolveSharedAnthropicApiKey(name);
   }
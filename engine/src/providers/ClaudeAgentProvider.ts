@@ -6,13 +6,23 @@
  * with sandboxing via the `cwd` option.
  */
 
+import type { McpServerConfig } from '@anthropic-ai/claude-agent-sdk';
 import { query } from '@anthropic-ai/claude-agent-sdk';
 import { Logger } from '../logger/Logger.js';
+import { isMCPToolAllowed, mcpToolName } from '../mcp/MCPServerRegistry.js';
 import type { AICompletionResult } from '../types/ai.js';
 import type { ProviderConfiguration } from '../types/config.js';
 import { SparkError } from '../types/index.js';
-import type { IAIProvider, ProviderCompletionOptions, ProviderConfig } from '../types/provider.js';
+import type { MCPSelection } from '../types/mcp.js';
+import type {
+  IAIProvider,
+  ProviderCompletionOptions,
+  ProviderConfig,
+  StreamCallback,
+} from '../types/provider.js';
 import { ProviderType } from '../types/provider.js';
+import { FileChangeTracker } from './FileChangeTracker.js';
+import { sleepUnlessAborted } from './ProviderFailover.js';
 
 export class ClaudeAgentProvider implements IAIProvider {
   public readonly name: string;
@@ -45,6 +55,20 @@ export class ClaudeAgentProvider implements IAIProvider {
   }
 
   async complete(options: ProviderCompletionOptions): Promise<AICompletionResult> {
+    return this.runQuery(options);
+  }
+
+  async stream(
+    options: ProviderCompletionOptions,
+    onPartial: StreamCallback
+  ): Promise<AICompletionResult> {
+    return this.runQuery(options, onPartial);
+  }
+
+  private async runQuery(
+    options: ProviderCompletionOptions,
+    onPartial?: StreamCallback
+  ): Promise<AICompletionResult> {
     // Use the API key from config (already resolved in constructor)
     const apiKey = this.config.apiKey;
     if (!apiKey) {
@@ -76,68 +100,102 @@ export class ClaudeAgentProvider implements IAIProvider {
       // Set our explicit API key from secrets.yaml
       process.env.ANTHROPIC_API_KEY = apiKey;
 
+      // Vault files the agent writes, reported with the result
+      const fileChanges = new FileChangeTracker(this.vaultPath);
+
       try {
         // Call Claude Agent SDK
         // The SDK returns an async generator that yields messages
         // The SDK has built-in file operations - we just set cwd for sandboxing
-        const resultGenerator = query({
-          prompt: options.prompt,
-          options: {
-            model: this.config.model,
-            systemPrompt,
-            maxTurns: 15, // Allow more turns for complex multi-file operations
-            cwd: this.vaultPath, // SDK's built-in file operations will use this as base
-            mcpServers: {}, // Explicitly disable MCP servers - we don't need them
-            // Explicitly allow file operation tools (capitalized names per SDK docs)
-            allowedTools: ['Read', 'Write', 'Edit'],
-            // Auto-approve all file operations (we're already sandboxed via cwd)
-            canUseTool: async () =>
-              Promise.resolve({
-                behavior: 'allow' as const,
-                updatedInput: {},
-              }),
-            // Hooks for logging tool usage
-            hooks: {
-              PreToolUse: [
-                {
-                  hooks: [
-                    async (input) => {
-                      const hookInput = input as {
-                        tool_name: string;
-                        tool_input: Record<string, unknown>;
-                      };
-                      this.logger.info(`🔧 Tool: ${hookInput.tool_name}`, {
-                        tool: hookInput.tool_name,
-                        input: hookInput.tool_input,
-                      });
-                      return Promise.resolve({});
-                    },
-                  ],
-                },
-              ],
-              PostToolUse: [
-                {
-                  hooks: [
-                    async (input) => {
-                      const hookInput = input as {
-                        tool_name: string;
-                        tool_input: Record<string, unknown>;
-                        tool_response: Record<string, unknown>;
-                      };
-                      this.logger.debug(`✅ Tool result: ${hookInput.tool_name}`, {
-                        tool: hookInput.tool_name,
-                        result: hookInput.tool_response,
-                      });
-                      return Promise.resolve({});
-                    },
-                  ],
-                },
-              ],
+        // MCP servers that fail to start are retried with a fresh query, as mcp.retry allows
+        const runAttempt = async () => {
+          const abort = this.buildAbortController(options.signal);
+          const resultGenerator = query({
+            prompt: options.prompt,
+            options: {
+              model: this.config.model,
+              systemPrompt,
+              maxTurns: 15, // Allow more turns for complex multi-file operations
+              cwd: this.vaultPath, // SDK's built-in file operations will use this as base
+              // Only the MCP servers enabled by $service mentions in this command
+              mcpServers: this.buildMcpServers(options.mcp),
+              // Explicitly allow file operation tools (capitalized names per SDK docs)
+              // plus allowlisted MCP tools
+              allowedTools: ['Read', 'Write', 'Edit', ...this.buildAllowedMcpTools(options.mcp)],
+              env: this.buildEnv(options.mcp),
+              abortController: abort?.controller,
+              // Emit stream_event messages with text deltas when the caller wants partials
+              includePartialMessages: onPartial !== undefined,
+              // Auto-approve all file operations (we're already sandboxed via cwd)
+              // MCP tools outside the server's allowed_tools are denied
+              canUseTool: async (toolName, input) => {
+                if (toolName.startsWith('mcp__')) {
+                  if (!options.mcp || !isMCPToolAllowed(options.mcp, toolName)) {
+                    this.logger.warn('MCP tool call blocked by allowlist', { tool: toolName });
+                    return Promise.resolve({
+                      behavior: 'deny' as const,
+                      message: `Tool ${toolName} is not in the allowed_tools list for its MCP server`,
+                    });
+                  }
+                  return Promise.resolve({ behavior: 'allow' as const, updatedInput: input });
+                }
+                return Promise.resolve({
+                  behavior: 'allow' as const,
+                  updatedInput: {},
+                });
+              },
+              // Hooks for logging tool usage and snapshotting the files it writes
+              hooks: {
+                PreToolUse: [
+                  {
+                    hooks: [
+                      async (input) => {
+                        const hookInput = input as {
+                          tool_name: string;
+                          tool_input: Record<string, unknown>;
+                        };
+                        this.logger.info(`🔧 Tool: ${hookInput.tool_name}`, {
+                          tool: hookInput.tool_name,
+                          input: hookInput.tool_input,
+                        });
+                        fileChanges.beforeToolUse(hookInput.tool_name, hookInput.tool_input);
+                        return Promise.resolve({});
+                      },
+                    ],
+                  },
+                ],
+                PostToolUse: [
+                  {
+                    hooks: [
+                      async (input) => {
+                        const hookInput = input as {
+                          tool_name: string;
+                          tool_input: Record<string, unknown>;
+                          tool_response: Record<string, unknown>;
+                        };
+                        this.logger.debug(`✅ Tool result: ${hookInput.tool_name}`, {
+                          tool: hookInput.tool_name,
+                          result: hookInput.tool_response,
+                        });
+                        fileChanges.afterToolUse(hookInput.tool_name, hookInput.tool_input);
+                        return Promise.resolve({});
+                      },
+                    ],
+                  },
+                ],
+              },
             },
-          },
-        });
+          });
 
-        return await this.processQueryResults(resultGenerator);
+          try {
+            return await this.processQueryResults(resultGenerator, onPartial);
+          } finally {
+            abort?.release();
+          }
+        };
+
+        const result = await this.retryMCPStart(options.mcp, runAttempt, options.signal);
+        return { ...result, fileChanges: fileChanges.getChanges() };
       } finally {
         // Restore original API key
         if (originalApiKey !== undefined) {
@@ -151,19 +209,93 @@ export class ClaudeAgentProvider implements IAIProvider {
     }
   }
 
+  /**
+   * Convert the MCP selection to SDK stdio server configs
+   */
+  private buildMcpServers(mcp?: MCPSelection): Record<string, McpServerConfig> {
+    const servers: Record<string, McpServerConfig> = {};
+    for (const [name, server] of Object.entries(mcp?.servers ?? {})) {
+      servers[name] = {
+        type: 'stdio',
+        command: server.command,
+        args: server.args,
+        env: server.env,
+      };
+    }
+    return servers;
+  }
+
+  /**
+   * SDK tool names for allowlisted MCP tools (servers without a list allow all)
+   */
+  private buildAllowedMcpTools(mcp?: MCPSelection): string[] {
+    const tools: string[] = [];
+    for (const [name, server] of Object.entries(mcp?.servers ?? {})) {
+      if (server.allowedTools) {
+        tools.push(...server.allowedTools.map((tool) => mcpToolName(name, tool)));
+      } else {
+        tools.push(`mcp__${name}`);
+      }
+    }
+    return tools;
+  }
+
+  /**
+   * SDK abort controller that follows the caller's signal
+   * release stops following it once the query is done, so a long-lived signal (a workflow
+   * run's) doesn't collect a listener per call
+   */
+  private buildAbortController(
+    signal?: AbortSignal
+  ): { controller: AbortController; release: () => void } | undefined {
+    if (!signal) {
+      return undefined;
+    }
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (signal.aborted) {
+      controller.abort();
+    } else {
+      signal.addEventListener('abort', abort, { once: true });
+    }
+    return { controller, release: () => signal.removeEventListener('abort', abort) };
+  }
+
+  /**
+   * Environment for the SDK process, with MCP timeouts when servers are enabled
+   */
+  private buildEnv(mcp?: MCPSelection): Record<string, string | undefined> | undefined {
+    if (!mcp) {
+      return undefined;
+    }
+    return {
+      ...process.env,
+      MCP_TIMEOUT: String(mcp.timeoutMs),
+      MCP_TOOL_TIMEOUT: String(mcp.timeoutMs),
+    };
+  }
+
   /**
    * Process the query results from the SDK's async generator
    */
   private async processQueryResults(
-    resultGenerator: AsyncGenerator<unknown, void>
+    resultGenerator: AsyncGenerator<unknown, void>,
+    onPartial?: StreamCallback
   ): Promise<AICompletionResult> {
     let resultText = '';
     const usageTotals = { inputTokens: 0, outputTokens: 0 };
+    const partial = { text: '' };
 
     for await (const message of resultGenerator) {
       const msg = message as Record<string, unknown>;
 
+      if (msg.type === 'stream_event') {
+        this.handleStreamEvent(msg, partial, onPartial);
+        continue;
+      }
+
       this.logSdkMessage(msg);
+      this.assertMCPServersStarted(msg);
       const handledResult = this.handleResultMessage(msg);
       if (handledResult) {
         resultText = handledResult.resultText;
@@ -192,6 +324,79 @@ export class ClaudeAgentProvider implements IAIProvider {
     };
   }
 
+  /**
+   * Run a query, starting over while MCP servers fail to start and attempts remain
+   * The SDK reports server status before the model runs, so nothing is lost by retrying.
+   * A cancelled request stops retrying, including during the backoff.
+   */
+  private async retryMCPStart(
+    mcp: MCPSelection | undefined,
+    run: () => Promise<AICompletionResult>,
+    signal?: AbortSignal
+  ): Promise<AICompletionResult> {
+    const { maxAttempts, backoffMs } = mcp?.retry ?? { maxAttempts: 1, backoffMs: 0 };
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await run();
+      } catch (error) {
+        const startFailed = error instanceof SparkError && error.code === 'MCP_START_FAILED';
+        if (!startFailed || attempt >= maxAttempts || signal?.aborted) {
+          throw error;
+        }
+        this.logger.warn('MCP servers failed to start, retrying', {
+          attempt,
+          error: error.message,
+        });
+        await sleepUnlessAborted(backoffMs * attempt, signal);
+        if (signal?.aborted) {
+          throw new SparkError('AI request cancelled', 'AI_CANCELLED', { provider: this.name });
+        }
+      }
+    }
+  }
+
+  /**
+   * Fail on the SDK's init message when an MCP server didn't start
+   */
+  private assertMCPServersStarted(msg: Record<string, unknown>): void {
+    if (msg.type !== 'system' || msg.subtype !== 'init' || !Array.isArray(msg.mcp_servers)) return;
+
+    const failed = (msg.mcp_servers as Array<{ name?: string; status?: string }>)
+      .filter((server) => server.status === 'failed')
+      .map((server) => server.name ?? 'unknown');
+    if (failed.length > 0) {
+      throw new SparkError(
+        `MCP server${failed.length === 1 ? '' : 's'} failed to start: ${failed.join(', ')}`,
+        'MCP_START_FAILED',
+        { servers: failed }
+      );
+    }
+  }
+
+  /**
+   * Forward text deltas of the top-level assistant turn to the partial callback
+   * Each new assistant message restarts the text, so only the latest turn is shown
+   */
+  private handleStreamEvent(
+    msg: Record<string, unknown>,
+    partial: { text: string },
+    onPartial?: StreamCallback
+  ): void {
+    if (!onPartial || msg.parent_tool_use_id) return;
+
+    const event = msg.event as { type?: string; delta?: { type?: string; text?: string } };
+    if (event?.type === 'message_start') {
+      partial.text = '';
+      return;
+    }
+
+    if (event?.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+      partial.text += event.delta.text ?? '';
+      onPartial(partial.text);
+    }
+  }
+
   private logSdkMessage(msg: Record<string, unknown>): void {
     this.logger.debug('SDK message received', {
       type: msg.type,
@@ -400,6 +605,14 @@ class ClaudeAgentErrorHandler {
    * Handle Claude Agent SDK errors and convert them to SparkErrors
    */
   handleError(error: unknown): never {
+    // Already says which MCP servers didn't start, or that the request was cancelled
+    if (
+      error instanceof SparkError &&
+      (error.code === 'MCP_START_FAILED' || error.code === 'AI_CANCELLED')
+    ) {
+      throw error;
+    }
+
     // Log detailed error information for debugging
     const errorObj = error as Record<string, unknown>;
     this.logger.error('Claude Agent SDK error details', {
@@ -438,7 +651,23 @@ class ClaudeAgentErrorHandler {
 
     // Generic error handling
     const errorMessage = error instanceof Error ? error.message : String(error);
-    throw new SparkError(errorMessage, 'PROVIDER_CALL_FAILED', { originalError: error });
+    throw new SparkError(errorMessage, this.classifyMessage(errorMessage), {
+      originalError: error,
+    });
+  }
+
+  /**
+   * The SDK only reports API failures as text, so rate limits and overloaded
+   * servers are recognised by their status in the message
+   */
+  private classifyMessage(message: string): string {
+    if (/api error:?\s*429|rate.?limit/i.test(message)) {
+      return 'AI_RATE_LIMIT_ERROR';
+    }
+    if (/api error:?\s*5\d\d|overloaded/i.test(message)) {
+      return 'AI_SERVER_ERROR';
+    }
+    return 'PROVIDER_CALL_FAILED';
   }
 
   private isCliNotFoundError(error: unknown): boolean {
@@ -64,6 +64,7 @@ export class ClaudeCodeProvider implements IAIProvider {
       const { stdout, stderr } = await execAsync(command, {
         maxBuffer: 10 * 1024 * 1024, // 10MB buffer for large responses
         timeout: 300000, // 5 minute timeout
+        signal: options.signal,
       });
 
       if (stderr) {
@@ -13,6 +13,7 @@ import type {
   ProviderCompletionOptions,
   ProviderConfig,
   ProviderContextFile,
+  StreamCallback,
 } from '../types/provider.js';
 import { ProviderType } from '../types/provider.js';
 
@@ -66,11 +67,29 @@ export class ClaudeDirectProvider implements IAIProvider {
       model: options.model || this.config.model,
       max_tokens: options.maxTokens || this.config.maxTokens,
       temperature: options.temperature ?? this.config.temperature,
+      signal: options.signal,
     });
 
     return result;
   }
 
+  /**
+   * Stream a prompt using Claude API
+   */
+  async stream(
+    options: ProviderCompletionOptions,
+    onPartial: StreamCallback
+  ): Promise<AICompletionResult> {
+    const fullPrompt = this.buildPrompt(options);
+
+    return await this.client.stream(fullPrompt, onPartial, {
+      model: options.model || this.config.model,
+      max_tokens: options.maxTokens || this.config.maxTokens,
+      temperature: options.temperature ?? this.config.temperature,
+      signal: options.signal,
+    });
+  }
+
   /**
    * Build full prompt from options
    */
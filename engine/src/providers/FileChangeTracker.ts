@@ -0,0 +1,67 @@
+/**
+ * File change tracker
+ * Records the vault files an agent writes with its file tools, so the edits can be reviewed and undone
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { isAbsolute, relative, resolve, sep } from 'node:path';
+import type { FileChange } from '../types/ai.js';
+
+// Agent SDK tools that write files (the ones ClaudeAgentProvider allows)
+const FILE_EDIT_TOOLS = new Set(['Write', 'Edit']);
+
+export class FileChangeTracker {
+  // Content before the first edit and after the latest one, by vault-relative path
+  private snapshots = new Map<string, { before: string | null; after: string | null }>();
+
+  constructor(private vaultPath: string) {}
+
+  /**
+   * Snapshot a file before the first tool call that writes it (PreToolUse hook)
+   */
+  beforeToolUse(toolName: string, toolInput: Record<string, unknown>): void {
+    const path = this.editedPath(toolName, toolInput);
+    if (path && !this.snapshots.has(path)) {
+      const content = this.read(path);
+      this.snapshots.set(path, { before: content, after: content });
+    }
+  }
+
+  /**
+   * Snapshot a file after a tool call wrote it (PostToolUse hook)
+   */
+  afterToolUse(toolName: string, toolInput: Record<string, unknown>): void {
+    const path = this.editedPath(toolName, toolInput);
+    const snapshot = path ? this.snapshots.get(path) : undefined;
+    if (path && snapshot) {
+      snapshot.after = this.read(path);
+    }
+  }
+
+  /**
+   * Files whose content ended up different from before the first edit
+   */
+  getChanges(): FileChange[] {
+    return [...this.snapshots]
+      .filter(([, { before, after }]) => before !== after)
+      .map(([path, { before, after }]) => ({ path, before, after }));
+  }
+
+  /**
+   * Vault-relative path a file tool writes, or null for other tools and paths outside the vault
+   */
+  private editedPath(toolName: string, toolInput: Record<string, unknown>): string | null {
+    const filePath = toolInput.file_path;
+    if (!FILE_EDIT_TOOLS.has(toolName) || typeof filePath !== 'string') {
+      return null;
+    }
+    const path = relative(this.vaultPath, resolve(this.vaultPath, filePath));
+    const outside = path === '..' || path.startsWith(`..${sep}`) || isAbsolute(path);
+    return path && !outside ? path : null;
+  }
+
+  private read(path: string): string | null {
+    const fullPath = resolve(this.vaultPath, path);
+    return existsSync(fullPath) ? readFileSync(fullPath, 'utf-8') : null;
+  }
+}
@@ -0,0 +1,469 @@
+/**
+ * OpenAI-Compatible Provider
+ * Speaks the OpenAI chat-completions protocol over HTTP
+ *
+ * Works with OpenAI, Azure OpenAI and local servers that expose the same API
+ * (Ollama, llama.cpp server, LM Studio, vLLM) via options.baseUrl.
+ */
+
+import type { IncomingMessage } from 'node:http';
+import { request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { Logger } from '../logger/Logger.js';
+import type { AICompletionResult } from '../types/ai.js';
+import { SparkError } from '../types/index.js';
+import type {
+  IAIProvider,
+  ProviderCompletionOptions,
+  ProviderConfig,
+  ProviderContextFile,
+  StreamCallback,
+} from '../types/provider.js';
+import { ProviderType } from '../types/provider.js';
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+// A request fails when the endpoint sends nothing for this long, unless options.timeoutMs says otherwise
+// (non-streamed completions from slow local models send nothing until the whole reply is ready)
+export const DEFAULT_REQUEST_TIMEOUT_MS = 300_000;
+
+// Background model listings by base URL, shared by every provider for the endpoint
+// (agent overrides create a provider per call; the endpoint is asked once)
+const modelListings = new Map<string, Promise<string[]>>();
+
+interface ChatMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null }; finish_reason?: string | null }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+}
+
+export class OpenAICompatibleProvider implements IAIProvider {
+  readonly name: string;
+  readonly type = ProviderType.OPENAI;
+
+  private config: ProviderConfig;
+  private logger: Logger;
+  private baseUrl: string;
+  private apiVersion?: string;
+  private timeoutMs: number;
+  private configuredModels?: string[];
+  private listedModels: string[] = [];
+
+  constructor(config: ProviderConfig) {
+    this.name = config.name;
+    this.config = config;
+    this.logger = Logger.getInstance();
+
+    const options = config.options ?? {};
+    this.baseUrl = (
+      typeof options.baseUrl === 'string' ? options.baseUrl : DEFAULT_OPENAI_BASE_URL
+    ).replace(/\/+$/, '');
+    this.apiVersion = typeof options.apiVersion === 'string' ? options.apiVersion : undefined;
+    this.timeoutMs =
+      typeof options.timeoutMs === 'number' && options.timeoutMs > 0
+        ? options.timeoutMs
+        : DEFAULT_REQUEST_TIMEOUT_MS;
+    this.configuredModels = Array.isArray(options.models)
+      ? options.models.filter((model): model is string => typeof model === 'string')
+      : undefined;
+
+    // Local servers usually don't need a key; OpenAI itself rejects the request without one
+    if (!config.apiKey && this.baseUrl === DEFAULT_OPENAI_BASE_URL) {
+      throw new SparkError(
+        'API key not provided. Add your API key in the Spark plugin settings.',
+        'API_KEY_NOT_SET'
+      );
+    }
+
+    this.logger.debug('OpenAICompatibleProvider initialized', {
+      provider: this.name,
+      model: config.model,
+      baseUrl: this.baseUrl,
+    });
+  }
+
+  /**
+   * Complete a prompt with a chat-completions request
+   */
+  async complete(options: ProviderCompletionOptions): Promise<AICompletionResult> {
+    const response = await this.post(this.buildRequestBody(options, false), options.signal);
+    const data = await this.readJson<ChatCompletionResponse>(response);
+
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new SparkError('Empty response from OpenAI-compatible API', 'AI_ERROR', {
+        provider: this.name,
+      });
+    }
+
+    return {
+      content,
+      usage: {
+        inputTokens: data.usage?.prompt_tokens ?? 0,
+        outputTokens: data.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+
+  /**
+   * Stream a chat completion (server-sent events), reporting the text so far
+   */
+  async stream(
+    options: ProviderCompletionOptions,
+    onPartial: StreamCallback
+  ): Promise<AICompletionResult> {
+    const response = await this.post(this.buildRequestBody(options, true), options.signal);
+
+    let content = '';
+    const usage = { inputTokens: 0, outputTokens: 0 };
+
+    for await (const chunk of this.readEvents(response)) {
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onPartial(content);
+      }
+      if (chunk.usage) {
+        usage.inputTokens = chunk.usage.prompt_tokens ?? 0;
+        usage.outputTokens = chunk.usage.completion_tokens ?? 0;
+      }
+    }
+
+    return { content, usage };
+  }
+
+  /**
+   * Fetch the model ids the endpoint serves (GET /models)
+   * The result is cached for getAvailableModels()
+   */
+  async listModels(): Promise<string[]> {
+    const response = await this.request('/models', 'GET');
+    const data = await this.readJson<{ data?: Array<{ id?: unknown }> }>(response);
+
+    this.listedModels = (data.data ?? [])
+      .map((model) => model.id)
+      .filter((id): id is string => typeof id === 'string');
+    return this.listedModels;
+  }
+
+  /**
+   * Fetch the served models in the background so getAvailableModels() reports them
+   * Skipped when options.models lists them; the endpoint is listed once, failures are retried
+   */
+  refreshModels(): void {
+    if (this.configuredModels && this.configuredModels.length > 0) {
+      return;
+    }
+    const listing = modelListings.get(this.baseUrl) ?? this.startListing();
+    listing.then(
+      (models) => {
+        this.listedModels = models;
+      },
+      () => {}
+    );
+  }
+
+  private startListing(): Promise<string[]> {
+    const listing = this.listModels();
+    modelListings.set(this.baseUrl, listing);
+    listing.catch((error: unknown) => {
+      modelListings.delete(this.baseUrl);
+      this.logger.debug('Could not list models', { provider: this.name, error });
+    });
+    return listing;
+  }
+
+  private buildRequestBody(
+    options: ProviderCompletionOptions,
+    stream: boolean
+  ): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model: options.model || this.config.model,
+      messages: this.buildMessages(options),
+      max_tokens: options.maxTokens || this.config.maxTokens || 4096,
+      temperature: options.temperature ?? this.config.temperature ?? 0.7,
+      stream,
+    };
+    if (stream) {
+      body.stream_options = { include_usage: true };
+    }
+    return body;
+  }
+
+  /**
+   * System message: Spark instructions and persona; user message: context files and prompt
+   */
+  private buildMessages(options: ProviderCompletionOptions): ChatMessage[] {
+    const system: string[] = [];
+    const configPrompt =
+      typeof this.config.systemPrompt === 'string' ? this.config.systemPrompt : '';
+    const systemPrompt = configPrompt || options.systemPrompt;
+    if (systemPrompt) system.push(systemPrompt);
+    if (options.context?.agentPersona) system.push(options.context.agentPersona);
+    if (options.context?.additionalInstructions) {
+      system.push(options.context.additionalInstructions);
+    }
+
+    const user: string[] = [];
+    for (const priority of ['high', 'medium', 'low'] as const) {
+      const files = (options.context?.files ?? []).filter((f) => f.priority === priority);
+      if (files.length > 0) {
+        user.push(this.formatContext(priority, files));
+      }
+    }
+    user.push(options.prompt);
+
+    const messages: ChatMessage[] = [];
+    if (system.length > 0) {
+      messages.push({ role: 'system', content: system.join('\n\n') });
+    }
+    messages.push({ role: 'user', content: user.join('\n\n') });
+    return messages;
+  }
+
+  private formatContext(priority: string, files: ProviderContextFile[]): string {
+    const parts = [`<context priority="${priority}">`];
+    for (const file of files) {
+      const noteAttr = file.note ? ` note="${file.note}"` : '';
+      parts.push(`<file path="${file.path}"${noteAttr}>`, file.content, '</file>');
+    }
+    parts.push('</context>');
+    return parts.join('\n');
+  }
+
+  private async post(
+    body: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<IncomingMessage> {
+    this.logger.debug('OpenAI-compatible API call', {
+      provider: this.name,
+      model: body.model,
+      stream: body.stream,
+    });
+
+    return this.request('/chat/completions', 'POST', JSON.stringify(body), signal);
+  }
+
+  /**
+   * Send a request to the endpoint, converting failures to SparkErrors
+   * Resolves with the response stream once the status is known to be OK
+   */
+  private async request(
+    path: string,
+    method: string,
+    body?: string,
+    signal?: AbortSignal
+  ): Promise<IncomingMessage> {
+    const url = new URL(`${this.baseUrl}${path}`);
+    if (this.apiVersion) {
+      url.searchParams.set('api-version', this.apiVersion);
+    }
+
+    const headers: Record<string, string> = { ...this.authHeaders() };
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      headers['Content-Length'] = String(Buffer.byteLength(body));
+    }
+
+    let response: IncomingMessage;
+    try {
+      response = await new Promise<IncomingMessage>((resolve, reject) => {
+        const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+        const req = send(url, { method, headers, signal }, resolve);
+        req.setTimeout(this.timeoutMs, () => {
+          req.destroy(
+            new SparkError(
+              `OpenAI-compatible API at ${this.baseUrl} sent nothing for ${this.timeoutMs}ms`,
+              'AI_NETWORK_ERROR',
+              { provider: this.name }
+            )
+          );
+        });
+        req.on('error', reject);
+        req.end(body);
+      });
+    } catch (error) {
+      if (error instanceof SparkError) {
+        this.logger.error('OpenAI-compatible API timed out', { provider: this.name });
+        throw error;
+      }
+      this.logger.error('OpenAI-compatible API unreachable', { provider: this.name, error });
+      throw new SparkError(
+        `OpenAI-compatible API unreachable at ${this.baseUrl}`,
+        'AI_NETWORK_ERROR',
+        { provider: this.name, code: (error as NodeJS.ErrnoException).code, originalError: error }
+      );
+    }
+
+    const status = response.statusCode ?? 0;
+    if (status < 200 || status >= 300) {
+      const detail = await this.readText(response);
+      const code = this.classifyStatus(status);
+      this.logger.error('OpenAI-compatible API error', { provider: this.name, status, detail });
+      throw new SparkError(`OpenAI-compatible API error: ${status} ${detail}`.trim(), code, {
+        provider: this.name,
+        status,
+      });
+    }
+
+    return response;
+  }
+
+  private classifyStatus(status: number): string {
+    if (status === 429) return 'AI_RATE_LIMIT_ERROR';
+    if (status >= 500) return 'AI_SERVER_ERROR';
+    return 'AI_CLIENT_ERROR';
+  }
+
+  private async readText(response: IncomingMessage): Promise<string> {
+    let text = '';
+    response.setEncoding('utf-8');
+    try {
+      for await (const chunk of response) {
+        text += chunk as string;
+      }
+    } catch (error) {
+      throw this.connectionLost(error);
+    }
+    return text;
+  }
+
+  /**
+   * The connection dropped or stalled while reading the response, as a retryable network error
+   * Cancellation is passed on as is
+   */
+  private connectionLost(error: unknown): unknown {
+    if (error instanceof SparkError || (error instanceof Error && error.name === 'AbortError')) {
+      return error;
+    }
+    this.logger.error('OpenAI-compatible API connection lost', { provider: this.name, error });
+    return new SparkError(
+      `Connection to OpenAI-compatible API at ${this.baseUrl} was lost`,
+      'AI_NETWORK_ERROR',
+      { provider: this.name, code: (error as NodeJS.ErrnoException).code, originalError: error }
+    );
+  }
+
+  private async readJson<T>(response: IncomingMessage): Promise<T> {
+    const text = await this.readText(response);
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw new SparkError('Invalid JSON from OpenAI-compatible API', 'AI_ERROR', {
+        provider: this.name,
+        body: text.slice(0, 200),
+      });
+    }
+  }
+
+  /**
+   * Azure uses an api-key header; everything else a bearer token
+   */
+  private authHeaders(): Record<string, string> {
+    if (!this.config.apiKey) {
+      return {};
+    }
+    if (this.apiVersion) {
+      return { 'api-key': this.config.apiKey };
+    }
+    return { Authorization: `Bearer ${this.config.apiKey}` };
+  }
+
+  /**
+   * Parse server-sent events into chunks, stopping at [DONE]
+   */
+  private async *readEvents(response: IncomingMessage): AsyncGenerator<ChatCompletionChunk, void> {
+    for await (const line of this.readLines(response)) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice('data:'.length).trim();
+      if (data === '[DONE]') return;
+
+      try {
+        yield JSON.parse(data) as ChatCompletionChunk;
+      } catch {
+        this.logger.debug('Skipping malformed stream event', { provider: this.name, data });
+      }
+    }
+  }
+
+  /**
+   * Trimmed lines of the response as they arrive
+   */
+  private async *readLines(response: IncomingMessage): AsyncGenerator<string, void> {
+    let buffer = '';
+    response.setEncoding('utf-8');
+
+    try {
+      for await (const chunk of response) {
+        buffer += chunk as string;
+
+        let newline = buffer.indexOf('\n');
+        while (newline !== -1) {
+          yield buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+          newline = buffer.indexOf('\n');
+        }
+      }
+    } catch (error) {
+      throw this.connectionLost(error);
+    }
+  }
+
+  /**
+   * Tools and MCP are not wired up for chat-completions yet
+   */
+  supportsTools(): boolean {
+    return false;
+  }
+
+  supportsFileOperations(): boolean {
+    return false;
+  }
+
+  /**
+   * Models from options.models, else the last listModels() result, else the configured model
+   */
+  getAvailableModels(): string[] {
+    if (this.configuredModels && this.configuredModels.length > 0) {
+      return this.configuredModels;
+    }
+    if (this.listedModels.length > 0) {
+      return this.listedModels;
+    }
+    return [this.config.model];
+  }
+
+  supportsFallback(): boolean {
+    return this.config.fallbackProvider !== undefined;
+  }
+
+  getFallbackProvider(): string | null {
+    return this.config.fallbackProvider || null;
+  }
+
+  /**
+   * Healthy when the endpoint answers the model listing
+   */
+  async isHealthy(): Promise<boolean> {
+    try {
+      await this.listModels();
+      return true;
+    } catch (error) {
+      this.logger.error('Health check failed', { provider: this.name, error });
+      return false;
+    }
+  }
+
+  getConfig(): ProviderConfig {
+    return this.config;
+  }
+}
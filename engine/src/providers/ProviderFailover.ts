@@ -0,0 +1,217 @@
+/**
+ * Provider Failover
+ * Retries transient provider failures with exponential backoff, then fails over
+ * along the fallbackProvider chain
+ */
+
+import { Logger } from '../logger/Logger.js';
+import type { AIConfig, RetryConfig } from '../types/config.js';
+import { SparkError } from '../types/index.js';
+import type { IAIProvider } from '../types/provider.js';
+import type { AIProviderFactory } from './AIProviderFactory.js';
+
+/**
+ * Used when ai.retry is not configured
+ */
+export const DEFAULT_AI_RETRY: RetryConfig = {
+  enabled: true,
+  max_attempts: 3,
+  backoff_ms: 1000,
+};
+
+/**
+ * Upper bound for a single backoff delay
+ */
+export const MAX_BACKOFF_MS = 30000;
+
+/**
+ * Error codes for failures that may succeed when tried again
+ * (rate limits, overloaded or failing servers, dropped connections)
+ */
+const RETRYABLE_CODES = new Set(['AI_RATE_LIMIT_ERROR', 'AI_SERVER_ERROR', 'AI_NETWORK_ERROR']);
+
+/**
+ * One failed provider call
+ */
+export interface ProviderAttempt {
+  provider: string;
+  /** 1-based attempt number for this provider */
+  attempt: number;
+  code: string;
+  message: string;
+  timestamp: number;
+  /** Delay before the next attempt on the same provider */
+  retryInMs?: number;
+  /** Provider tried next once this one gave up */
+  fallbackTo?: string;
+}
+
+export type ProviderAttemptListener = (attempt: ProviderAttempt) => void;
+
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof SparkError && RETRYABLE_CODES.has(error.code);
+}
+
+export class ProviderFailover {
+  private logger: Logger;
+
+  constructor(
+    private providerFactory: AIProviderFactory,
+    private aiConfig: AIConfig,
+    private onAttempt?: ProviderAttemptListener,
+    private sleep: (ms: number, signal?: AbortSignal) => Promise<void> = sleepUnlessAborted
+  ) {
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * Run a provider call, retrying and failing over on retryable errors
+   * When every provider fails, the last error is rethrown with the attempts in its context
+   * Once signal is aborted nothing more is tried
+   */
+  async run<T>(
+    provider: IAIProvider,
+    call: (provider: IAIProvider) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const attempts: ProviderAttempt[] = [];
+    const visited = new Set<string>();
+    let current: IAIProvider | null = provider;
+    let lastError: unknown;
+
+    while (current) {
+      visited.add(current.name);
+      try {
+        return await this.runWithRetries(current, call, attempts, signal);
+      } catch (error) {
+        lastError = error;
+        if (!isRetryableError(error) || signal?.aborted) {
+          break;
+        }
+      }
+
+      current = this.nextProvider(current, visited);
+      const last = attempts[attempts.length - 1];
+      if (current && last) {
+        last.fallbackTo = current.name;
+        this.logger.warn('Failing over to fallback provider', {
+          from: last.provider,
+          to: current.name,
+        });
+      }
+    }
+
+    throw this.withAttempts(lastError, attempts);
+  }
+
+  private async runWithRetries<T>(
+    provider: IAIProvider,
+    call: (provider: IAIProvider) => Promise<T>,
+    attempts: ProviderAttempt[],
+    signal?: AbortSignal
+  ): Promise<T> {
+    const retry = this.aiConfig.retry ?? DEFAULT_AI_RETRY;
+    const maxAttempts = retry.enabled ? Math.max(1, retry.max_attempts) : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await call(provider);
+      } catch (error) {
+        const canRetry = isRetryableError(error) && attempt < maxAttempts && !signal?.aborted;
+        const delay = canRetry ? this.backoff(retry, attempt) : undefined;
+        this.record(attempts, this.describeFailure(provider, attempt, error, delay));
+
+        if (delay === undefined) {
+          throw error;
+        }
+
+        this.logger.warn('Provider call failed, retrying', {
+          provider: provider.name,
+          attempt,
+          maxAttempts,
+          delayMs: delay,
+        });
+        await this.sleep(delay, signal);
+        if (signal?.aborted) {
+          throw new SparkError('AI request cancelled', 'AI_CANCELLED', { provider: provider.name });
+        }
+      }
+    }
+  }
+
+  /**
+   * backoff_ms, doubled for every further attempt
+   */
+  private backoff(retry: RetryConfig, attempt: number): number {
+    return Math.min(retry.backoff_ms * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+  }
+
+  private describeFailure(
+    provider: IAIProvider,
+    attempt: number,
+    error: unknown,
+    retryInMs?: number
+  ): ProviderAttempt {
+    return {
+      provider: provider.name,
+      attempt,
+      code: error instanceof SparkError ? error.code : 'UNKNOWN_ERROR',
+      message: error instanceof Error ? error.message : String(error),
+      timestamp: Date.now(),
+      retryInMs,
+    };
+  }
+
+  /**
+   * Next provider in the fallbackProvider chain, skipping ones already tried
+   */
+  private nextProvider(provider: IAIProvider, visited: Set<string>): IAIProvider | null {
+    const fallbackName = provider.getFallbackProvider();
+    if (!fallbackName || visited.has(fallbackName)) {
+      return null;
+    }
+    return this.providerFactory.getFallbackProvider(provider.name, this.aiConfig);
+  }
+
+  private record(attempts: ProviderAttempt[], attempt: ProviderAttempt): void {
+    attempts.push(attempt);
+    try {
+      this.onAttempt?.(attempt);
+    } catch (error) {
+      this.logger.debug('Provider attempt listener failed', { error });
+    }
+  }
+
+  /**
+   * Keep a single failure untouched; otherwise carry every attempt to the error log
+   */
+  private withAttempts(error: unknown, attempts: ProviderAttempt[]): unknown {
+    if (attempts.length <= 1) {
+      return error;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    const code = error instanceof SparkError ? error.code : 'PROVIDER_CALL_FAILED';
+    const context = error instanceof SparkError ? error.context : { originalError: error };
+    return new SparkError(message, code, { ...context, attempts });
+  }
+}
+
+/**
+ * Resolve after ms, or early once signal is aborted
+ */
+export function sleepUnlessAborted(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
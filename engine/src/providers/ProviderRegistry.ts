@@ -104,9 +104,11 @@ export class ProviderRegistry {
 
   /**
    * Create provider instance
+   * Providers configured under a custom name (e.g. 'ollama') use the
+   * registration named after their type (e.g. 'openai')
    */
   createProvider(name: string, config: ProviderConfig): IAIProvider {
-    const registration = this.get(name);
+    const registration = this.get(name) ?? this.get(config.type);
     if (!registration) {
       throw new SparkError(`Provider '${name}' not registered`, 'PROVIDER_NOT_FOUND', {
         availableProviders: this.getProviderNames(),
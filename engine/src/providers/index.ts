@@ -7,4 +7,7 @@ export { AIProviderFactory } from './AIProviderFactory.js';
 export { ClaudeAgentProvider } from './ClaudeAgentProvider.js';
 export { ClaudeCodeProvider } from './ClaudeCodeProvider.js';
 export { ClaudeDirectProvider } from './ClaudeDirectProvider.js';
+export { OpenAICompatibleProvider } from './OpenAICompatibleProvider.js';
+export type { ProviderAttempt, ProviderAttemptListener } from './ProviderFailover.js';
+export { isRetryableError, ProviderFailover } from './ProviderFailover.js';
 export { ProviderRegistry } from './ProviderRegistry.js';
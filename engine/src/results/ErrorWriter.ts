@@ -6,6 +6,7 @@
 import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
 import { basename, join } from 'node:path';
 import { Logger } from '../logger/Logger.js';
+import type { ProviderAttempt } from '../providers/ProviderFailover.js';
 import { SparkError } from '../types/index.js';
 
 export interface ErrorDetails {
@@ -154,13 +155,33 @@ export class ErrorWriter {
       lines.push('```');
     }
 
+    lines.push(...this.formatDetails(error, context));
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Retries and failovers made before giving up, then the error or caller context
+   */
+  private formatDetails(error: unknown, context?: Record<string, unknown>): string[] {
+    const lines: string[] = [];
+
+    const { attempts, ...errorContext } = (error instanceof SparkError && error.context) || {};
+    if (Array.isArray(attempts) && attempts.length > 0) {
+      lines.push('');
+      lines.push('## Attempts');
+      lines.push(...this.formatAttempts(attempts as ProviderAttempt[]));
+    }
+
     // Add context details
     if (error instanceof SparkError && error.context) {
-      lines.push('');
-      lines.push('## Details');
-      lines.push('```json');
-      lines.push(JSON.stringify(error.context, null, 2));
-      lines.push('```');
+      if (Object.keys(errorContext).length > 0) {
+        lines.push('');
+        lines.push('## Details');
+        lines.push('```json');
+        lines.push(JSON.stringify(errorContext, null, 2));
+        lines.push('```');
+      }
     } else if (context && Object.keys(context).length > 0) {
       lines.push('');
       lines.push('## Context');
@@ -169,7 +190,22 @@ export class ErrorWriter {
       lines.push('```');
     }
 
-    return lines.join('\n');
+    return lines;
+  }
+
+  /**
+   * One line per failed provider call, noting the retry delay or failover
+   */
+  private formatAttempts(attempts: ProviderAttempt[]): string[] {
+    return attempts.map((attempt, index) => {
+      let next = '';
+      if (attempt.fallbackTo) {
+        next = ` → failed over to ${attempt.fallbackTo}`;
+      } else if (attempt.retryInMs !== undefined) {
+        next = ` → retried after ${attempt.retryInMs}ms`;
+      }
+      return `${index + 1}. ${attempt.provider} (attempt ${attempt.attempt}): ${attempt.code} - ${attempt.message}${next}`;
+    });
   }
 
   /**
@@ -229,6 +265,21 @@ export class ErrorWriter {
         ].join('\n');
       }
 
+      case 'AI_RATE_LIMIT_ERROR':
+        return [
+          '1. The AI provider is rate limiting requests - retries were exhausted',
+          '2. Wait a minute and run the command again',
+          '3. Configure a `fallbackProvider` to fail over automatically',
+          '4. Increase `ai.retry.max_attempts` or `ai.retry.backoff_ms` in config',
+        ].join('\n');
+
+      case 'USAGE_LIMIT_EXCEEDED':
+        return [
+          '1. This agent or provider has reached its monthly usage cap',
+          '2. Run: `spark usage <vault> --by agent` to see what was used',
+          '3. Raise the cap under `usage.limits` in `.spark/config.yaml`, or wait for next month',
+        ].join('\n');
+
       case 'AI_SERVER_ERROR':
         return [
           '1. This is a temporary server issue - the engine will retry automatically',
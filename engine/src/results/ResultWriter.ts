@@ -3,23 +3,71 @@
  * Writes AI results back to markdown files
  */
 
-import { readFileSync, writeFileSync } from 'node:fs';
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { stringify as stringifyYAML } from 'yaml';
 import { Logger } from '../logger/Logger.js';
 import { SparkError } from '../types/index.js';
 import type {
+  ClearPartialOptions,
   UpdateInlineChatStatusOptions,
   UpdateStatusOptions,
+  WriteAppendOptions,
+  WriteInlineChatPartialOptions,
   WriteInlineChatResponseOptions,
   WriteInlineOptions,
+  WritePartialOptions,
+  WriteReplaceOptions,
+  WriteSeparateOptions,
 } from '../types/results.js';
 
+/**
+ * Folder (relative to the vault) where streamed slash command results are written
+ */
+export const COMMAND_STREAM_DIR = '.spark/command-stream';
+
+/**
+ * Folder (relative to the vault) where streamed inline chat responses are written
+ */
+export const INLINE_CHAT_STREAM_DIR = '.spark/inline-chat-stream';
+
+/**
+ * How long a write is remembered for telling the engine's own changes apart
+ */
+const OWN_WRITE_WINDOW_MS = 60_000;
+
 export class ResultWriter {
   private logger: Logger;
+  // Hash and time of the content last written to each note, by absolute path
+  private ownWrites = new Map<string, { hash: string; time: number }>();
 
   constructor() {
     this.logger = Logger.getInstance();
   }
 
+  /**
+   * Whether the file holds exactly what this writer last wrote to it, i.e. the change
+   * came from the engine (status, result, partial) rather than the user
+   */
+  isOwnWrite(filePath: string, content: string): boolean {
+    const now = Date.now();
+    for (const [path, write] of this.ownWrites) {
+      if (now - write.time > OWN_WRITE_WINDOW_MS) {
+        this.ownWrites.delete(path);
+      }
+    }
+    return this.ownWrites.get(filePath)?.hash === hashContent(content);
+  }
+
+  /**
+   * Remember a note written elsewhere in the engine (e.g. by a workflow step) so its
+   * change is treated as the engine's own
+   */
+  recordWrite(filePath: string, content: string): void {
+    this.ownWrites.set(filePath, { hash: hashContent(content), time: Date.now() });
+  }
+
   /**
    * Write result inline below command with blank line separation
    */
@@ -32,26 +80,8 @@ export class ResultWriter {
       const content = readFileSync(filePath, 'utf-8');
       const lines = content.split('\n');
 
-      // Validate line number
-      if (commandLine < 1 || commandLine > lines.length) {
-        throw new SparkError(
-          `Invalid line number: ${commandLine} (file has ${lines.length} lines)`,
-          'INVALID_LINE_NUMBER'
-        );
-      }
-
       // Update command line with success indicator
-      const currentLine = lines[commandLine - 1];
-      if (!currentLine) {
-        throw new SparkError('Command line is empty', 'EMPTY_LINE');
-      }
-
-      // If line already has a status indicator, replace it
-      // Match status emojis: ⏳ (pending), ✅ (completed), ❌ (error), ⚠️ (warning)
-      // Use alternatives (not a character class) to avoid misleading character-class lint issues.
-      const statusPrefixRegex = /^(?:⏳|✅|❌|⚠️)\s+/u;
-      const cleanLine = currentLine.replace(statusPrefixRegex, '');
-      lines[commandLine - 1] = `✅ ${cleanLine}`;
+      this.markCommandComplete(lines, commandLine);
 
       // Insert result after command line with markers to prevent feedback loop
       const resultLines = addBlankLines
@@ -60,7 +90,7 @@ export class ResultWriter {
       lines.splice(commandLine, 0, ...resultLines);
 
       // Atomic write
-      writeFileSync(filePath, lines.join('\n'), 'utf-8');
+      this.writeNote(filePath, lines.join('\n'));
 
       this.logger.info('Result written', {
         filePath,
@@ -77,6 +107,256 @@ export class ResultWriter {
     return Promise.resolve();
   }
 
+  /**
+   * Append result to the end of the file and mark the command complete
+   */
+  async writeAppend(options: WriteAppendOptions): Promise<void> {
+    const { filePath, commandLine, result } = options;
+
+    this.logger.debug('Appending result', { filePath, commandLine });
+
+    try {
+      const content = readFileSync(filePath, 'utf-8');
+      const lines = content.split('\n');
+
+      this.markCommandComplete(lines, commandLine);
+
+      // Drop trailing blank lines so the result is separated by exactly one
+      while (lines.length > 0 && lines[lines.length - 1]?.trim() === '') {
+        lines.pop();
+      }
+      lines.push('', '<!-- spark-result-start -->', result, '<!-- spark-result-end -->', '');
+
+      // Atomic write
+      this.writeNote(filePath, lines.join('\n'));
+
+      this.logger.info('Result appended', { filePath, resultLength: result.length });
+    } catch (error) {
+      this.logger.error('Failed to append result', { error, filePath });
+      throw new SparkError('Failed to write result to file', 'RESULT_WRITE_ERROR', {
+        originalError: error,
+      });
+    }
+
+    return Promise.resolve();
+  }
+
+  /**
+   * Replace the selection (or the whole note body) with the result
+   * The command line is removed; no markers are left so the note stays clean
+   */
+  async writeReplace(options: WriteReplaceOptions): Promise<void> {
+    const { filePath, commandLine, result, range } = options;
+
+    this.logger.debug('Replacing content with result', { filePath, commandLine, range });
+
+    try {
+      const content = readFileSync(filePath, 'utf-8');
+      const lines = content.split('\n');
+
+      if (commandLine < 1 || commandLine > lines.length) {
+        throw new SparkError(
+          `Invalid line number: ${commandLine} (file has ${lines.length} lines)`,
+          'INVALID_LINE_NUMBER'
+        );
+      }
+
+      if (range) {
+        if (range.startLine < 1 || range.endLine >= commandLine) {
+          throw new SparkError(
+            `Invalid selection: ${range.startLine}-${range.endLine} (command on line ${commandLine})`,
+            'INVALID_LINE_RANGE'
+          );
+        }
+        // Replace selection through the command line (including blank lines between)
+        lines.splice(range.startLine - 1, commandLine - range.startLine + 1, result);
+        this.writeNote(filePath, lines.join('\n'));
+      } else {
+        // Keep frontmatter, replace everything after it
+        const bodyStart = this.findBodyStart(lines);
+        const updated = [...lines.slice(0, bodyStart), result, ''];
+        this.writeNote(filePath, updated.join('\n'));
+      }
+
+      this.logger.info('Content replaced with result', {
+        filePath,
+        resultLength: result.length,
+        selection: !!range,
+      });
+    } catch (error) {
+      this.logger.error('Failed to replace content with result', { error, filePath });
+      throw new SparkError('Failed to write result to file', 'RESULT_WRITE_ERROR', {
+        originalError: error,
+      });
+    }
+
+    return Promise.resolve();
+  }
+
+  /**
+   * Write result to a new note and link to it below the command
+   * The note's frontmatter links back to the source file and command line.
+   * Returns the path of the created note
+   */
+  async writeSeparate(options: WriteSeparateOptions): Promise<string> {
+    const { filePath, commandLine, commandText, result, vaultPath, folder, commandName } = options;
+
+    this.logger.debug('Writing result to separate note', { filePath, commandLine, folder });
+
+    try {
+      const content = readFileSync(filePath, 'utf-8');
+      const lines = content.split('\n');
+
+      this.markCommandComplete(lines, commandLine);
+
+      const resultPath = this.createResultNotePath(vaultPath, folder, commandName);
+      const frontmatter = stringifyYAML({
+        source: `[[${this.toWikiLink(vaultPath, filePath)}]]`,
+        source_line: commandLine,
+        command: commandText.replace(/^(?:⏳|✅|❌|⚠️)\s+/u, ''),
+        created: new Date().toISOString(),
+      });
+      this.writeNote(resultPath, `---\n${frontmatter}---\n\n${result}\n`);
+
+      // Link to the result note (inside markers so it isn't re-parsed)
+      const link = this.toWikiLink(vaultPath, resultPath);
+      lines.splice(
+        commandLine,
+        0,
+        '<!-- spark-result-start -->',
+        `→ [[${link}]]`,
+        '<!-- spark-result-end -->'
+      );
+
+      // Atomic write
+      this.writeNote(filePath, lines.join('\n'));
+
+      this.logger.info('Result written to separate note', {
+        filePath,
+        resultPath,
+        resultLength: result.length,
+      });
+
+      return Promise.resolve(resultPath);
+    } catch (error) {
+      this.logger.error('Failed to write separate result', { error, filePath });
+      throw new SparkError('Failed to write result to file', 'RESULT_WRITE_ERROR', {
+        originalError: error,
+      });
+    }
+  }
+
+  /**
+   * Write the text streamed so far for a command to a side file the plugin shows below it
+   * The note itself is only changed once, with the final result
+   */
+  async writePartial(options: WritePartialOptions): Promise<void> {
+    const { vaultPath, filePath, commandLine, result } = options;
+
+    try {
+      const streamDir = join(vaultPath, COMMAND_STREAM_DIR);
+      mkdirSync(streamDir, { recursive: true });
+      const file = this.toVaultPath(vaultPath, filePath);
+      writeFileSync(
+        join(streamDir, commandStreamFileName(file, commandLine)),
+        JSON.stringify({ file, line: commandLine, text: result }),
+        'utf-8'
+      );
+    } catch (error) {
+      this.logger.warn('Failed to write partial result', { error, filePath });
+      // Don't throw - the final result is still written
+    }
+
+    return Promise.resolve();
+  }
+
+  /**
+   * Remove the command's streamed side file, if any
+   */
+  async clearPartial(options: ClearPartialOptions): Promise<void> {
+    const { vaultPath, filePath, commandLine } = options;
+    const file = this.toVaultPath(vaultPath, filePath);
+    rmSync(join(vaultPath, COMMAND_STREAM_DIR, commandStreamFileName(file, commandLine)), {
+      force: true,
+    });
+    return Promise.resolve();
+  }
+
+  /**
+   * Mark the command line complete, replacing any existing status indicator
+   */
+  private markCommandComplete(lines: string[], commandLine: number): void {
+    // Validate line number
+    if (commandLine < 1 || commandLine > lines.length) {
+      throw new SparkError(
+        `Invalid line number: ${commandLine} (file has ${lines.length} lines)`,
+        'INVALID_LINE_NUMBER'
+      );
+    }
+
+    const currentLine = lines[commandLine - 1];
+    if (!currentLine) {
+      throw new SparkError('Command line is empty', 'EMPTY_LINE');
+    }
+
+    // If line already has a status indicator, replace it
+    // Match status emojis: ⏳ (pending), ✅ (completed), ❌ (error), ⚠️ (warning)
+    // Use alternatives (not a character class) to avoid misleading character-class lint issues.
+    const statusPrefixRegex = /^(?:⏳|✅|❌|⚠️)\s+/u;
+    const cleanLine = currentLine.replace(statusPrefixRegex, '');
+    lines[commandLine - 1] = `✅ ${cleanLine}`;
+  }
+
+  /**
+   * Write a note and remember the write (see isOwnWrite)
+   */
+  private writeNote(filePath: string, content: string): void {
+    writeFileSync(filePath, content, 'utf-8');
+    this.recordWrite(filePath, content);
+  }
+
+  /**
+   * Index of the first line after frontmatter (0 when there is none)
+   */
+  private findBodyStart(lines: string[]): number {
+    if (lines[0]?.trim() !== '---') {
+      return 0;
+    }
+    const closing = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+    return closing === -1 ? 0 : closing + 1;
+  }
+
+  /**
+   * Vault-relative wiki link target (forward slashes, no .md)
+   */
+  private toWikiLink(vaultPath: string, filePath: string): string {
+    return this.toVaultPath(vaultPath, filePath).replace(/\.md$/, '');
+  }
+
+  /**
+   * Vault-relative path with forward slashes
+   */
+  private toVaultPath(vaultPath: string, filePath: string): string {
+    return relative(vaultPath, filePath).split('\\').join('/');
+  }
+
+  /**
+   * Unique path for a result note: <folder>/<command>-<timestamp>.md
+   */
+  private createResultNotePath(vaultPath: string, folder: string, commandName: string): string {
+    const folderPath = join(vaultPath, folder);
+    mkdirSync(folderPath, { recursive: true });
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').replace('T', '_').slice(0, 19);
+    const base = `${commandName.replace(/[^\w-]/g, '-')}-${timestamp}`;
+
+    let candidate = join(folderPath, `${base}.md`);
+    for (let i = 2; existsSync(candidate); i++) {
+      candidate = join(folderPath, `${base}-${i}.md`);
+    }
+    return candidate;
+  }
+
   /**
    * Update status indicator only (no result content)
    */
@@ -110,7 +390,7 @@ export class ResultWriter {
       lines[commandLine - 1] = `${status} ${cleanLine}`;
 
       // Atomic write
-      writeFileSync(filePath, lines.join('\n'), 'utf-8');
+      this.writeNote(filePath, lines.join('\n'));
 
       this.logger.debug('Status updated', { filePath, status });
     } catch (error) {
@@ -147,7 +427,7 @@ export class ResultWriter {
       }
 
       // Atomic write
-      writeFileSync(filePath, lines.join('\n'), 'utf-8');
+      this.writeNote(filePath, lines.join('\n'));
 
       this.logger.info('Inline chat status updated', { filePath, chatId, status });
     } catch (error) {
@@ -160,6 +440,35 @@ export class ResultWriter {
     return Promise.resolve();
   }
 
+  /**
+   * Write the inline chat response streamed so far to a side file the plugin polls
+   * The chat block in the note is left untouched until the final response
+   */
+  async writeInlineChatPartial(options: WriteInlineChatPartialOptions): Promise<void> {
+    const { vaultPath, chatId, response } = options;
+
+    try {
+      const streamDir = join(vaultPath, INLINE_CHAT_STREAM_DIR);
+      mkdirSync(streamDir, { recursive: true });
+      writeFileSync(join(streamDir, `${chatId}.txt`), response, 'utf-8');
+    } catch (error) {
+      this.logger.warn('Failed to write inline chat partial', { error, chatId });
+    }
+
+    return Promise.resolve();
+  }
+
+  /**
+   * Remove the streamed inline chat side file
+   */
+  async clearInlineChatPartial(
+    options: Omit<WriteInlineChatPartialOptions, 'response'>
+  ): Promise<void> {
+    const { vaultPath, chatId } = options;
+    rmSync(join(vaultPath, INLINE_CHAT_STREAM_DIR, `${chatId}.txt`), { force: true });
+    return Promise.resolve();
+  }
+
   /**
    * Write AI response to inline chat (replaces entire chat block with just the response)
    * Removes all markers to prevent feedback loops and keep document clean
@@ -190,7 +499,7 @@ export class ResultWriter {
       lines.splice(startLine - 1, endLine - startLine + 1, response);
 
       // Atomic write
-      writeFileSync(filePath, lines.join('\n'), 'utf-8');
+      this.writeNote(filePath, lines.join('\n'));
 
       this.logger.info('Inline chat response written', {
         filePath,
@@ -207,3 +516,14 @@ export class ResultWriter {
     return Promise.resolve();
   }
 }
+
+/**
+ * Side file name for a command's streamed text, from the note path and command line
+ */
+function commandStreamFileName(file: string, commandLine: number): string {
+  return `${hashContent(`${file}:${commandLine}`).slice(0, 16)}.json`;
+}
+
+function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
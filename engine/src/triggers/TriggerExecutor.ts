@@ -0,0 +1,126 @@
+/**
+ * Trigger Executor
+ * Runs a trigger's instructions through the CommandExecutor against the changed file
+ * (or, for a deleted file, against the trigger's definition with the path in the prompt)
+ */
+
+import { join, relative } from 'node:path';
+import type { CommandExecutor } from '../execution/CommandExecutor.js';
+import { Logger } from '../logger/Logger.js';
+import { MentionParser } from '../parser/MentionParser.js';
+import { ErrorWriter } from '../results/ErrorWriter.js';
+import type { ParsedCommand } from '../types/parser.js';
+import type { ITriggerExecutor, Trigger, TriggerContext } from '../types/trigger.js';
+import { TRIGGERS_DIR } from './TriggerLoader.js';
+
+const EVENT_DESCRIPTIONS = {
+  add: 'was created',
+  change: 'was modified',
+  unlink: 'was deleted',
+} as const;
+
+export class TriggerExecutor implements ITriggerExecutor {
+  private logger: Logger;
+  private mentionParser: MentionParser;
+  private errorWriter: ErrorWriter;
+
+  constructor(
+    private commandExecutor: CommandExecutor,
+    private vaultPath: string
+  ) {
+    this.logger = Logger.getInstance();
+    this.mentionParser = new MentionParser();
+    this.errorWriter = new ErrorWriter(vaultPath);
+  }
+
+  /**
+   * Swap the command executor (engine recreates it on config reload)
+   */
+  setCommandExecutor(commandExecutor: CommandExecutor): void {
+    this.commandExecutor = commandExecutor;
+  }
+
+  /**
+   * Execute a trigger against an absolute file path
+   */
+  async execute(trigger: Trigger, filePath: string, context?: TriggerContext): Promise<void> {
+    const relativePath = relative(this.vaultPath, filePath);
+    const prompt = this.buildPrompt(trigger, relativePath, context);
+
+    // Mentions come from the instructions so $service and @file references load context
+    const command: ParsedCommand = {
+      line: 0,
+      raw: prompt,
+      type: 'slash',
+      command: `trigger:${trigger.name}`,
+      mentions: this.mentionParser.parse(trigger.instructions),
+      status: 'pending',
+      isComplete: true,
+    };
+
+    // A deleted note can't be loaded as context; the prompt names it and the trigger's
+    // definition file stands in as the file the command runs from
+    const commandFile =
+      context?.change.type === 'unlink'
+        ? join(this.vaultPath, trigger.source ?? TRIGGERS_DIR)
+        : filePath;
+
+    this.logger.info('Executing trigger', { trigger: trigger.name, file: relativePath });
+
+    try {
+      const response = await this.commandExecutor.executeAndReturn(
+        command,
+        commandFile,
+        undefined,
+        'trigger'
+      );
+      this.logger.info('Trigger completed', { trigger: trigger.name, file: relativePath });
+      this.logger.debug('Trigger response', { trigger: trigger.name, response });
+    } catch (error) {
+      await this.errorWriter.writeError({
+        error,
+        filePath,
+        commandText: `Trigger: ${trigger.name}`,
+        context: { trigger: trigger.name, source: trigger.source },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Build the prompt describing what happened and what to do about it
+   */
+  buildPrompt(trigger: Trigger, relativePath: string, context?: TriggerContext): string {
+    const parts: string[] = [];
+
+    parts.push(`Automation trigger "${trigger.name}" fired for ${relativePath}.`);
+    if (trigger.description) {
+      parts.push(`Purpose: ${trigger.description}`);
+    }
+
+    if (context?.frontmatterChange) {
+      const { field, oldValue, newValue } = context.frontmatterChange;
+      parts.push(
+        `Event: frontmatter field "${field}" changed from ${this.formatValue(oldValue)} to ${this.formatValue(newValue)}.`
+      );
+    } else if (context) {
+      parts.push(`Event: the file ${EVENT_DESCRIPTIONS[context.change.type]}.`);
+    }
+    if (context?.change.type === 'unlink') {
+      parts.push(`The file no longer exists in the vault, so its content isn't available.`);
+    }
+
+    parts.push('');
+    parts.push('## Instructions');
+    parts.push(trigger.instructions);
+
+    return parts.join('\n');
+  }
+
+  private formatValue(value: unknown): string {
+    if (value === undefined || value === null) {
+      return '(unset)';
+    }
+    return typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * Trigger Loader
+ * Loads trigger definitions from .spark/triggers/*.yaml
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parse as parseYAML } from 'yaml';
+import { Logger } from '../logger/Logger.js';
+import type {
+  ITriggerLoader,
+  Trigger,
+  TriggerEvent,
+  TriggerLoadError,
+  TriggerWatch,
+} from '../types/trigger.js';
+
+export const TRIGGERS_DIR = '.spark/triggers';
+
+const VALID_EVENTS: TriggerEvent[] = ['file_created', 'file_modified', 'file_deleted'];
+
+/**
+ * Order triggers by priority (highest first), then by name for a stable order
+ */
+export function sortByPriority(triggers: Trigger[]): Trigger[] {
+  return [...triggers].sort((a, b) => b.priority - a.priority || a.name.localeCompare(b.name));
+}
+
+export class TriggerLoader implements ITriggerLoader {
+  private logger: Logger;
+  private lastErrors: TriggerLoadError[] = [];
+
+  constructor() {
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * Load all valid triggers from the vault, sorted by priority
+   * Invalid triggers are skipped and reported via getLastErrors()
+   */
+  public loadTriggers(vaultPath: string): Promise<Trigger[]> {
+    this.lastErrors = [];
+    const triggersPath = join(vaultPath, TRIGGERS_DIR);
+
+    if (!existsSync(triggersPath)) {
+      return Promise.resolve([]);
+    }
+
+    const files = readdirSync(triggersPath)
+      .filter((f) => f.endsWith('.yaml') || f.endsWith('.yml'))
+      .sort();
+
+    const triggers: Trigger[] = [];
+    const seenNames = new Set<string>();
+
+    for (const file of files) {
+      const source = `${TRIGGERS_DIR}/${file}`;
+      for (const trigger of this.loadFile(join(triggersPath, file), source)) {
+        if (seenNames.has(trigger.name)) {
+          this.addError(source, 'Duplicate trigger name, skipping', trigger.name);
+          continue;
+        }
+        seenNames.add(trigger.name);
+        triggers.push(trigger);
+      }
+    }
+
+    this.logger.debug('Triggers loaded', {
+      count: triggers.length,
+      files: files.length,
+      errors: this.lastErrors.length,
+    });
+
+    return Promise.resolve(sortByPriority(triggers));
+  }
+
+  /**
+   * Errors encountered during the last loadTriggers() call
+   */
+  public getLastErrors(): TriggerLoadError[] {
+    return this.lastErrors;
+  }
+
+  private loadFile(fullPath: string, source: string): Trigger[] {
+    let parsed: unknown;
+    try {
+      parsed = parseYAML(readFileSync(fullPath, 'utf-8'));
+    } catch (error) {
+      this.addError(
+        source,
+        `Invalid YAML: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return [];
+    }
+
+    // Empty file or comments only
+    if (parsed === null || parsed === undefined) {
+      return [];
+    }
+
+    if (!this.isRecord(parsed) || !Array.isArray(parsed.triggers)) {
+      this.addError(source, 'File must contain a "triggers" list');
+      return [];
+    }
+
+    const triggers: Trigger[] = [];
+    parsed.triggers.forEach((raw: unknown, index: number) => {
+      const trigger = this.parseTrigger(raw, source, index);
+      if (trigger) {
+        triggers.push(trigger);
+      }
+    });
+    return triggers;
+  }
+
+  private parseTrigger(raw: unknown, source: string, index: number): Trigger | null {
+    if (!this.isRecord(raw)) {
+      this.addError(source, `Trigger #${index + 1} must be an object`);
+      return null;
+    }
+
+    const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+    if (!name) {
+      this.addError(source, `Trigger #${index + 1} is missing a name`);
+      return null;
+    }
+
+    if (typeof raw.instructions !== 'string' || raw.instructions.trim().length === 0) {
+      this.addError(source, 'instructions are required', name);
+      return null;
+    }
+
+    if (raw.priority !== undefined && typeof raw.priority !== 'number') {
+      this.addError(source, 'priority must be a number', name);
+      return null;
+    }
+
+    const watch = this.parseWatch(raw.watch, source, name);
+    if (!watch) {
+      return null;
+    }
+
+    return {
+      name,
+      description: typeof raw.description === 'string' ? raw.description : '',
+      watch,
+      instructions: raw.instructions.trim(),
+      priority: raw.priority ?? 0,
+      source,
+    };
+  }
+
+  private parseWatch(raw: unknown, source: string, name: string): TriggerWatch | null {
+    if (!this.isRecord(raw)) {
+      this.addError(source, 'watch configuration is required', name);
+      return null;
+    }
+
+    if (raw.directory !== undefined && typeof raw.directory !== 'string') {
+      this.addError(source, 'watch.directory must be a string', name);
+      return null;
+    }
+
+    if (raw.event !== undefined && !VALID_EVENTS.includes(raw.event as TriggerEvent)) {
+      this.addError(source, `watch.event must be one of: ${VALID_EVENTS.join(', ')}`, name);
+      return null;
+    }
+
+    if (raw.frontmatter_field === undefined && raw.event === undefined) {
+      this.addError(source, 'watch must specify a frontmatter_field or an event', name);
+      return null;
+    }
+
+    // Frontmatter changes are only detected on notes seen before, so a transition can't
+    // come with a created or deleted file
+    if (
+      raw.frontmatter_field !== undefined &&
+      raw.event !== undefined &&
+      raw.event !== 'file_modified'
+    ) {
+      this.addError(
+        source,
+        `watch.frontmatter_field can't be combined with event ${raw.event as TriggerEvent}`,
+        name
+      );
+      return null;
+    }
+
+    if (raw.pattern !== undefined && typeof raw.pattern !== 'string') {
+      this.addError(source, 'watch.pattern must be a string', name);
+      return null;
+    }
+
+    return {
+      directory: raw.directory ?? '',
+      frontmatter_field: this.optionalString(raw.frontmatter_field),
+      // YAML may parse values like `true` or `3` as non-strings; compare as strings
+      from_value: this.optionalString(raw.from_value),
+      to_value: this.optionalString(raw.to_value),
+      pattern: raw.pattern,
+      event: raw.event as TriggerEvent | undefined,
+    };
+  }
+
+  private optionalString(value: unknown): string | undefined {
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      return String(value);
+    }
+    return undefined;
+  }
+
+  private addError(source: string, message: string, trigger?: string): void {
+    this.lastErrors.push({ source, trigger, message });
+    this.logger.warn('Invalid trigger definition', { source, trigger, message });
+  }
+
+  private isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
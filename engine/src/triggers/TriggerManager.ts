@@ -0,0 +1,239 @@
+/**
+ * Trigger Manager
+ * Owns the loaded triggers, hot-reloads .spark/triggers/ and dispatches matches
+ */
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { FSWatcher } from 'chokidar';
+import chokidar from 'chokidar';
+import { glob } from 'glob';
+import type { CommandExecutor } from '../execution/CommandExecutor.js';
+import type { Logger } from '../logger/Logger.js';
+import type { FrontmatterParser } from '../parser/FrontmatterParser.js';
+import type { Trigger, TriggerLoadError } from '../types/trigger.js';
+import type { FileChange, FrontmatterChange } from '../types/watcher.js';
+import { TriggerExecutor } from './TriggerExecutor.js';
+import { TRIGGERS_DIR, TriggerLoader } from './TriggerLoader.js';
+import { TriggerMatcher } from './TriggerMatcher.js';
+
+/**
+ * Changes to a file shortly after a trigger ran on it are most likely the
+ * trigger's own edits; ignore them so a trigger can't re-fire itself in a loop.
+ */
+const TRIGGER_COOLDOWN_MS = 5000;
+
+/**
+ * Seed the frontmatter cache for notes in the given directories.
+ * FrontmatterParser ignores the first parse of a file, so without this the
+ * first frontmatter change after engine start would go unnoticed.
+ */
+export async function primeFrontmatterCache(
+  vaultPath: string,
+  directories: string[],
+  frontmatterParser: FrontmatterParser,
+  logger: Logger
+): Promise<void> {
+  for (const directory of new Set(directories)) {
+    try {
+      const files = await glob('**/*.md', {
+        cwd: join(vaultPath, directory),
+        ignore: ['node_modules/**', '.git/**'],
+        absolute: true,
+      });
+      for (const file of files) {
+        if (!frontmatterParser.hasCache(file)) {
+          frontmatterParser.detectChanges(file, readFileSync(file, 'utf-8'));
+        }
+      }
+    } catch (error) {
+      logger.debug('Failed to prime frontmatter cache for directory', {
+        directory,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+export class TriggerManager {
+  private loader: TriggerLoader;
+  private matcher: TriggerMatcher;
+  private executor: TriggerExecutor;
+  private triggers: Trigger[] = [];
+  private watcher?: FSWatcher;
+  private running: Set<string> = new Set();
+  private lastRun: Map<string, number> = new Map();
+
+  constructor(
+    private vaultPath: string,
+    commandExecutor: CommandExecutor,
+    private frontmatterParser: FrontmatterParser,
+    private logger: Logger
+  ) {
+    this.loader = new TriggerLoader();
+    this.matcher = new TriggerMatcher();
+    this.executor = new TriggerExecutor(commandExecutor, vaultPath);
+  }
+
+  /**
+   * Load triggers and start watching the triggers folder
+   */
+  async start(): Promise<void> {
+    await this.reload();
+    this.startWatcher();
+  }
+
+  async stop(): Promise<void> {
+    if (this.watcher) {
+      await this.watcher.close();
+      this.watcher = undefined;
+    }
+  }
+
+  /**
+   * Reload trigger definitions from disk
+   */
+  async reload(): Promise<void> {
+    this.triggers = await this.loader.loadTriggers(this.vaultPath);
+    this.logger.info('Triggers loaded', {
+      count: this.triggers.length,
+      triggers: this.triggers.map((t) => t.name),
+    });
+    await this.primeFrontmatterCache();
+  }
+
+  getTriggers(): Trigger[] {
+    return this.triggers;
+  }
+
+  getLoadErrors(): TriggerLoadError[] {
+    return this.loader.getLastErrors();
+  }
+
+  setCommandExecutor(commandExecutor: CommandExecutor): void {
+    this.executor.setCommandExecutor(commandExecutor);
+  }
+
+  /**
+   * Dispatch triggers matching a file change
+   * Matching triggers run sequentially in priority order; returns the triggers dispatched
+   */
+  handleChange(change: FileChange, frontmatterChanges: FrontmatterChange[]): Trigger[] {
+    const matching = this.matcher
+      .findMatching(change, frontmatterChanges, this.triggers)
+      .filter((trigger) => !this.isSuppressed(trigger, change.path));
+
+    if (matching.length === 0) {
+      return [];
+    }
+
+    this.logger.info(`Found ${matching.length} matching trigger(s)`, {
+      file: change.path,
+      triggers: matching.map((t) => t.name),
+    });
+
+    for (const trigger of matching) {
+      this.running.add(this.runKey(trigger, change.path));
+    }
+
+    void this.runSequentially(matching, change, frontmatterChanges);
+    return matching;
+  }
+
+  private async runSequentially(
+    triggers: Trigger[],
+    change: FileChange,
+    frontmatterChanges: FrontmatterChange[]
+  ): Promise<void> {
+    const fullPath = join(this.vaultPath, change.path);
+
+    for (const trigger of triggers) {
+      const key = this.runKey(trigger, change.path);
+      const frontmatterChange = this.matcher.findFrontmatterChange(trigger, frontmatterChanges);
+      try {
+        await this.executor.execute(trigger, fullPath, {
+          change,
+          frontmatterChange: frontmatterChange ?? undefined,
+        });
+      } catch (error) {
+        this.logger.error('Trigger execution failed', {
+          trigger: trigger.name,
+          file: change.path,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        this.running.delete(key);
+        this.lastRun.set(key, Date.now());
+      }
+    }
+  }
+
+  private isSuppressed(trigger: Trigger, relativePath: string): boolean {
+    const key = this.runKey(trigger, relativePath);
+    if (this.running.has(key)) {
+      this.logger.debug('Trigger already running for file, skipping', {
+        trigger: trigger.name,
+        file: relativePath,
+      });
+      return true;
+    }
+
+    const lastRun = this.lastRun.get(key);
+    if (lastRun !== undefined && Date.now() - lastRun < TRIGGER_COOLDOWN_MS) {
+      this.logger.debug('Trigger in cooldown for file, skipping', {
+        trigger: trigger.name,
+        file: relativePath,
+      });
+      return true;
+    }
+
+    return false;
+  }
+
+  private runKey(trigger: Trigger, relativePath: string): string {
+    return `${trigger.name}::${relativePath}`;
+  }
+
+  /**
+   * Seed the frontmatter cache for directories watched by frontmatter triggers
+   */
+  private async primeFrontmatterCache(): Promise<void> {
+    const directories = this.triggers
+      .filter((t) => t.watch.frontmatter_field)
+      .map((t) => t.watch.directory);
+    await primeFrontmatterCache(this.vaultPath, directories, this.frontmatterParser, this.logger);
+  }
+
+  /**
+   * Watch .spark/triggers/ so edits take effect without restarting the engine
+   */
+  private startWatcher(): void {
+    const triggersPath = join(this.vaultPath, TRIGGERS_DIR);
+
+    this.watcher = chokidar.watch(triggersPath, {
+      persistent: true,
+      ignoreInitial: true,
+      awaitWriteFinish: {
+        stabilityThreshold: 200,
+        pollInterval: 50,
+      },
+    });
+
+    const onChange = (filePath: string): void => {
+      if (!filePath.endsWith('.yaml') && !filePath.endsWith('.yml')) {
+        return;
+      }
+      this.logger.info('Trigger file changed, reloading triggers...', { path: filePath });
+      void this.reload();
+    };
+
+    this.watcher.on('add', onChange);
+    this.watcher.on('change', onChange);
+    this.watcher.on('unlink', onChange);
+    this.watcher.on('error', (error) => {
+      this.logger.error('Trigger watcher error:', { error });
+    });
+
+    this.logger.debug('Watching triggers folder for changes', { triggersPath });
+  }
+}
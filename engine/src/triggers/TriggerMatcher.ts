@@ -0,0 +1,112 @@
+/**
+ * Trigger Matcher
+ * Decides which triggers fire for a file change
+ */
+
+import { minimatch } from 'minimatch';
+import type { ITriggerMatcher, Trigger, TriggerEvent } from '../types/trigger.js';
+import type { FileChange, FileChangeType, FrontmatterChange } from '../types/watcher.js';
+import { sortByPriority } from './TriggerLoader.js';
+
+const EVENT_BY_CHANGE_TYPE: Record<FileChangeType, TriggerEvent> = {
+  add: 'file_created',
+  change: 'file_modified',
+  unlink: 'file_deleted',
+};
+
+export class TriggerMatcher implements ITriggerMatcher {
+  private readonly globOptions = { dot: true };
+
+  /**
+   * Find all triggers matching a change, highest priority first
+   */
+  public findMatching(
+    change: FileChange,
+    frontmatterChanges: FrontmatterChange[],
+    triggers: Trigger[]
+  ): Trigger[] {
+    const matching = triggers.filter(
+      (trigger) =>
+        this.matchesLocation(trigger, change.path) &&
+        this.matchesEvent(trigger, change) &&
+        this.findFrontmatterChange(trigger, frontmatterChanges) !== null
+    );
+    return sortByPriority(matching);
+  }
+
+  /**
+   * Get the frontmatter change that satisfies a trigger's transition
+   * Returns undefined when the trigger does not watch frontmatter, null when nothing matches
+   */
+  public findFrontmatterChange(
+    trigger: Pick<Trigger, 'watch'>,
+    frontmatterChanges: FrontmatterChange[]
+  ): FrontmatterChange | undefined | null {
+    const { frontmatter_field, from_value, to_value } = trigger.watch;
+    if (!frontmatter_field) {
+      return undefined;
+    }
+
+    const match = frontmatterChanges.find(
+      (fm) =>
+        fm.field === frontmatter_field &&
+        this.valueMatches(fm.oldValue, from_value) &&
+        this.valueMatches(fm.newValue, to_value)
+    );
+    return match ?? null;
+  }
+
+  /**
+   * Check that a vault-relative path lies in the trigger's directory and matches its pattern
+   */
+  public matchesLocation(trigger: Pick<Trigger, 'watch'>, relativePath: string): boolean {
+    const directory = this.normalizeDirectory(trigger.watch.directory);
+    const normalizedPath = relativePath.replace(/\\/g, '/');
+
+    if (directory && !normalizedPath.startsWith(`${directory}/`)) {
+      return false;
+    }
+
+    const { pattern } = trigger.watch;
+    if (!pattern) {
+      return true;
+    }
+
+    const pathInDirectory = directory
+      ? normalizedPath.substring(directory.length + 1)
+      : normalizedPath;
+    // Patterns without a slash (e.g. "*.md") match files at any depth
+    return minimatch(pathInDirectory, pattern, {
+      ...this.globOptions,
+      matchBase: !pattern.includes('/'),
+    });
+  }
+
+  private matchesEvent(trigger: Trigger, change: FileChange): boolean {
+    if (trigger.watch.event) {
+      return trigger.watch.event === EVENT_BY_CHANGE_TYPE[change.type];
+    }
+    // Frontmatter transitions can't happen on a deleted file
+    return change.type !== 'unlink';
+  }
+
+  private valueMatches(actual: unknown, expected: string | undefined): boolean {
+    if (expected === undefined) {
+      return true;
+    }
+    if (typeof actual === 'string') {
+      return actual === expected;
+    }
+    if (typeof actual === 'number' || typeof actual === 'boolean') {
+      return String(actual) === expected;
+    }
+    return false;
+  }
+
+  private normalizeDirectory(directory: string): string {
+    return directory
+      .replace(/\\/g, '/')
+      .replace(/^\.(\/|$)/, '')
+      .replace(/^\/+|\/+$/g, '');
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Triggers module exports
+ */
+
+export { TriggerExecutor } from './TriggerExecutor.js';
+export { sortByPriority, TRIGGERS_DIR, TriggerLoader } from './TriggerLoader.js';
+export { primeFrontmatterCache, TriggerManager } from './TriggerManager.js';
+export { TriggerMatcher } from './TriggerMatcher.js';
@@ -2,6 +2,7 @@
  * AI integration type definitions
  */
 
+import type { CommandDefinition } from './command.js';
 import type { LoadedContext } from './context.js';
 import type { ParsedCommand } from './parser.js';
 
@@ -12,6 +13,7 @@ export interface AICompletionOptions {
   model?: string;
   max_tokens?: number;
   temperature?: number;
+  signal?: AbortSignal;
 }
 
 /**
@@ -23,6 +25,17 @@ export interface AICompletionResult {
     inputTokens: number;
     outputTokens: number;
   };
+  /** Vault files the AI changed with its file tools (providers that support file operations) */
+  fileChanges?: FileChange[];
+}
+
+/**
+ * A vault file changed by the AI, with its content before and after
+ */
+export interface FileChange {
+  path: string; // Vault-relative
+  before: string | null; // null when the AI created the file
+  after: string | null; // null when the file is gone afterwards
 }
 
 /**
@@ -62,5 +75,5 @@ export interface ContextFile {
  * Interface for prompt builders
  */
 export interface IPromptBuilder {
-  build(command: ParsedCommand, context: LoadedContext): string;
+  build(command: ParsedCommand, context: LoadedContext, definition?: CommandDefinition): string;
 }
@@ -0,0 +1,43 @@
+/**
+ * Slash command definition types
+ * Commands are defined in .spark/commands/<name>.md
+ */
+
+/**
+ * What context a command receives
+ * - current_file: the file the command was typed in, plus nearby files
+ * - selection: only the block of text directly above the command line
+ * - folder: the current file plus every note in its folder
+ * - vault: the current file plus summaries of every note in the vault
+ */
+export type CommandContextScope = 'current_file' | 'selection' | 'folder' | 'vault';
+
+/**
+ * Where a command writes its result
+ * When a command doesn't set one, engine.results.mode decides (inline or separate)
+ * - inline: below the command line
+ * - separate: a new note in results.separate_folder, linked from the command line
+ * - replace: replaces the selection (selection context) or the note body
+ * - append: at the end of the note
+ */
+export type CommandOutputMode = 'inline' | 'separate' | 'replace' | 'append';
+
+/**
+ * Command definition loaded from .spark/commands/<name>.md
+ */
+export interface CommandDefinition {
+  id: string;
+  name: string;
+  description: string;
+  context: CommandContextScope;
+  output?: CommandOutputMode;
+  instructions: string;
+  path: string;
+}
+
+/**
+ * Interface for command definition loaders
+ */
+export interface ICommandLoader {
+  load(name: string): Promise<CommandDefinition | null>;
+}
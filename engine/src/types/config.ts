@@ -12,6 +12,7 @@ export interface SparkConfig {
   engine: EngineConfig;
   ai: AIConfig;
   mcp?: MCPConfig;
+  usage?: UsageConfig;
   logging: LoggingConfig;
   features: FeaturesConfig;
 }
@@ -70,6 +71,12 @@ export interface AIConfig {
    */
   providers: Record<string, ProviderConfiguration>;
 
+  /**
+   * Retries for rate limits, server and network errors before failing over
+   * to the provider's fallbackProvider
+   */
+  retry?: RetryConfig;
+
   /**
    * Legacy support (deprecated)
    */
@@ -90,6 +97,8 @@ export interface ProviderConfiguration {
   temperature?: number;
   systemPrompt?: string | SystemPromptConfiguration;
   fallbackProvider?: string;
+  /** Token budget for context (persona, files, summaries) sent with each request */
+  contextBudget?: number;
   options?: Record<string, unknown>;
 }
 
@@ -145,7 +154,11 @@ export interface MCPConfig {
 export interface MCPServerConfig {
   command: string;
   args?: string[];
-  enabled: boolean;
+  env?: Record<string, string>;
+  /** Defaults to true */
+  enabled?: boolean;
+  /** Tools the model may call; omit to allow every tool the server exposes */
+  allowed_tools?: string[];
 }
 
 /**
@@ -157,6 +170,36 @@ export interface RetryConfig {
   backoff_ms: number;
 }
 
+/**
+ * Usage ledger configuration (prices and monthly caps)
+ */
+export interface UsageConfig {
+  /** USD per million tokens by model id (or id prefix), overriding built-in prices */
+  prices?: Record<string, ModelPrice>;
+  limits?: {
+    /** Monthly caps by agent name */
+    agents?: Record<string, UsageLimit>;
+    /** Monthly caps by provider name */
+    providers?: Record<string, UsageLimit>;
+  };
+}
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Monthly cap; calls are blocked once either is reached
+ */
+export interface UsageLimit {
+  monthly_tokens?: number;
+  monthly_cost_usd?: number;
+}
+
 /**
  * Logging configuration
  */
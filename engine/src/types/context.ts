@@ -2,6 +2,7 @@
  * Context loading type definitions
  */
 
+import type { CommandContextScope } from './command.js';
 import type { ParsedMention } from './parser.js';
 
 /**
@@ -13,6 +14,44 @@ export interface LoadedContext {
   agent?: AgentContext;
   nearbyFiles: NearbyFile[];
   serviceConnections: ServiceConnection[];
+  scope?: CommandContextScope;
+  selection?: SelectionContext;
+  /** Set once the context has been fitted to the provider's token budget */
+  budget?: ContextBudgetReport;
+}
+
+/**
+ * What was cut to fit the context into its token budget
+ */
+export interface ContextBudgetReport {
+  budget: number;
+  usedTokens: number;
+  /** Paths (or 'agent persona') cut short */
+  truncated: string[];
+  /** Folder files replaced by a summary */
+  summarized: string[];
+  /** Left out entirely */
+  dropped: string[];
+}
+
+/**
+ * Options controlling what context is loaded for a command
+ */
+export interface ContextLoadOptions {
+  scope?: CommandContextScope;
+  /** 1-based line of the command, used to locate the selection */
+  commandLine?: number;
+}
+
+/**
+ * Block of text directly above a command (selection context)
+ */
+export interface SelectionContext {
+  text: string;
+  /** 1-based, inclusive */
+  startLine: number;
+  /** 1-based, inclusive */
+  endLine: number;
 }
 
 /**
@@ -90,5 +129,33 @@ export interface IProximityCalculator {
  * Interface for context loaders
  */
 export interface IContextLoader {
-  load(currentFile: string, mentions: ParsedMention[]): Promise<LoadedContext>;
+  load(
+    currentFile: string,
+    mentions: ParsedMention[],
+    options?: ContextLoadOptions
+  ): Promise<LoadedContext>;
+}
+
+/**
+ * Section of a note stored in the retrieval index
+ */
+export interface IndexedChunk {
+  /** Nearest heading above the chunk ('' before the first heading) */
+  heading: string;
+  text: string;
+  /** Term frequencies */
+  terms: Record<string, number>;
+  /** Number of terms in the chunk */
+  length: number;
+}
+
+/**
+ * Chunk matched by a retrieval query
+ */
+export interface SearchHit {
+  /** Absolute path of the note */
+  path: string;
+  heading: string;
+  text: string;
+  score: number;
 }
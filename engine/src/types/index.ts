@@ -4,17 +4,20 @@
  */
 
 export * from './ai.js';
+export * from './command.js';
 // Re-export all types from domain-specific files
 export * from './config.js';
 // Export from context and trigger after parser
 export * from './context.js';
 export * from './events.js';
+export * from './mcp.js';
 export * from './notification.js';
 // Export from parser (includes FrontmatterChange)
 export * from './parser.js';
 export * from './provider.js';
 export * from './result.js';
 export * from './trigger.js';
+export * from './usage.js';
 // Export from watcher (without FrontmatterChange to avoid duplication)
 export type {
   FileChange,
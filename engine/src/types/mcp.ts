@@ -0,0 +1,44 @@
+/**
+ * MCP (Model Context Protocol) runtime types
+ */
+
+/**
+ * MCP server handed to an AI provider for a single command
+ */
+export interface ProviderMCPServer {
+  command: string;
+  args: string[];
+  env?: Record<string, string>;
+  /** Tools the model may call; undefined allows every tool the server exposes */
+  allowedTools?: string[];
+}
+
+/**
+ * MCP servers enabled for a command via $service mentions
+ */
+export interface MCPSelection {
+  servers: Record<string, ProviderMCPServer>;
+  timeoutMs: number;
+  /** Attempts at starting the servers, from mcp.retry */
+  retry?: MCPRetry;
+}
+
+export interface MCPRetry {
+  maxAttempts: number;
+  /** Wait before the next attempt, multiplied by the attempt number */
+  backoffMs: number;
+}
+
+export type MCPServerStatus = 'healthy' | 'unhealthy' | 'disabled';
+
+/**
+ * Result of probing an MCP server (spawn, initialize, list tools)
+ */
+export interface MCPServerHealth {
+  name: string;
+  status: MCPServerStatus;
+  tools: string[];
+  attempts: number;
+  latencyMs?: number;
+  error?: string;
+}
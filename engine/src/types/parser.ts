@@ -5,7 +5,7 @@
 /**
  * Mention types
  */
-export type MentionType = 'agent' | 'file' | 'folder' | 'service' | 'command' | 'tag';
+export type MentionType = 'agent' | 'file' | 'folder' | 'service' | 'command' | 'tag' | 'search';
 
 /**
  * Parsed mention
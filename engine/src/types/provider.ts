@@ -4,12 +4,15 @@
  */
 
 import type { AICompletionResult } from './ai.js';
+import type { MCPSelection } from './mcp.js';
 
 /**
  * Supported AI provider types
  */
 export enum ProviderType {
   ANTHROPIC = 'anthropic',
+  /** OpenAI chat-completions protocol (OpenAI, Azure, Ollama, llama.cpp server) */
+  OPENAI = 'openai',
 }
 
 /**
@@ -22,6 +25,10 @@ export interface ProviderCompletionOptions {
   maxTokens?: number;
   temperature?: number;
   context?: ProviderContext;
+  /** MCP servers enabled for this call ($service mentions) */
+  mcp?: MCPSelection;
+  /** Aborts the call (e.g. the workflow run was cancelled) */
+  signal?: AbortSignal;
 }
 
 /**
@@ -43,6 +50,11 @@ export interface ProviderContextFile {
   note?: string;
 }
 
+/**
+ * Receives the full text generated so far while a response streams
+ */
+export type StreamCallback = (text: string) => void;
+
 /**
  * Main AI Provider interface
  * All providers must implement this interface
@@ -63,6 +75,15 @@ export interface IAIProvider {
    */
   complete(options: ProviderCompletionOptions): Promise<AICompletionResult>;
 
+  /**
+   * Complete a prompt, reporting the text generated so far as it streams (optional)
+   * Resolves with the same result complete() would return
+   */
+  stream?(
+    options: ProviderCompletionOptions,
+    onPartial: StreamCallback
+  ): Promise<AICompletionResult>;
+
   /**
    * Check if this provider supports tool use (MCP, function calling)
    */
@@ -145,6 +166,11 @@ export interface ProviderConfig {
    */
   fallbackProvider?: string;
 
+  /**
+   * Token budget for context sent with each request
+   */
+  contextBudget?: number;
+
   /**
    * Provider-specific options
    */
@@ -21,6 +21,48 @@ export interface WriteInlineOptions {
   addBlankLines?: boolean;
 }
 
+export interface WriteAppendOptions {
+  filePath: string;
+  commandLine: number;
+  commandText: string;
+  result: string;
+}
+
+export interface WriteReplaceOptions {
+  filePath: string;
+  commandLine: number;
+  commandText: string;
+  result: string;
+  /** Lines to replace (selection); the whole note body when omitted */
+  range?: { startLine: number; endLine: number };
+}
+
+export interface WriteSeparateOptions {
+  filePath: string;
+  commandLine: number;
+  commandText: string;
+  result: string;
+  vaultPath: string;
+  /** Folder for result notes, relative to the vault */
+  folder: string;
+  /** Used to name the result note */
+  commandName: string;
+}
+
+export interface WritePartialOptions {
+  vaultPath: string;
+  filePath: string;
+  commandLine: number;
+  /** Text streamed so far */
+  result: string;
+}
+
+export interface ClearPartialOptions {
+  vaultPath: string;
+  filePath: string;
+  commandLine: number;
+}
+
 export interface UpdateStatusOptions {
   filePath: string;
   commandLine: number;
@@ -36,6 +78,13 @@ export interface WriteInlineChatResponseOptions {
   response: string;
 }
 
+export interface WriteInlineChatPartialOptions {
+  vaultPath: string;
+  chatId: string;
+  /** Text streamed so far */
+  response: string;
+}
+
 export interface UpdateInlineChatStatusOptions {
   filePath: string;
   chatId: string;
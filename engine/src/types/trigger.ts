@@ -4,6 +4,11 @@
 
 import type { FileChange, FrontmatterChange } from './watcher.js';
 
+/**
+ * File events a trigger can watch for
+ */
+export type TriggerEvent = 'file_created' | 'file_modified' | 'file_deleted';
+
 /**
  * Trigger configuration
  */
@@ -13,6 +18,8 @@ export interface Trigger {
   watch: TriggerWatch;
   instructions: string;
   priority: number;
+  /** Trigger file this trigger was loaded from (relative to vault) */
+  source?: string;
 }
 
 /**
@@ -24,7 +31,24 @@ export interface TriggerWatch {
   from_value?: string;
   to_value?: string;
   pattern?: string;
-  event?: 'file_created' | 'file_modified' | 'file_deleted';
+  event?: TriggerEvent;
+}
+
+/**
+ * Problem found while loading a trigger file
+ */
+export interface TriggerLoadError {
+  source: string;
+  trigger?: string;
+  message: string;
+}
+
+/**
+ * What caused a trigger to fire (passed to the executor)
+ */
+export interface TriggerContext {
+  change: FileChange;
+  frontmatterChange?: FrontmatterChange;
 }
 
 /**
@@ -49,5 +73,5 @@ export interface ITriggerMatcher {
  * Interface for trigger executors
  */
 export interface ITriggerExecutor {
-  execute(trigger: Trigger, filePath: string): Promise<void>;
+  execute(trigger: Trigger, filePath: string, context?: TriggerContext): Promise<void>;
 }
@@ -0,0 +1,51 @@
+/**
+ * Usage ledger type definitions
+ */
+
+/**
+ * What kind of request made the provider call
+ */
+export type UsageSource =
+  | 'command'
+  | 'inline_chat'
+  | 'chat'
+  | 'trigger'
+  | 'workflow_prompt'
+  | 'chat_name'
+  | 'chat_summary'
+  | 'workflow_generate';
+
+/**
+ * One provider call in the usage ledger (.spark/usage/YYYY-MM.jsonl)
+ */
+export interface UsageRecord {
+  timestamp: number;
+  source: UsageSource;
+  provider: string;
+  model: string;
+  agent?: string;
+  /** Slash command name or workflow id */
+  command?: string;
+  /** Vault-relative path of the note the request came from */
+  file?: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated from model prices; omitted when the model has no known price */
+  costUsd?: number;
+}
+
+/**
+ * Who is making a provider call, for usage records and limit checks
+ */
+export type UsageMeta = Pick<UsageRecord, 'source' | 'agent' | 'command' | 'file'>;
+
+/**
+ * Summed usage for one rollup key (a day, agent, model or provider)
+ */
+export interface UsageTotals {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
@@ -0,0 +1,264 @@
+/**
+ * Usage Ledger
+ * Records tokens and estimated cost of every provider call and enforces monthly caps
+ *
+ * Stored at: .spark/usage/YYYY-MM.jsonl (one JSON record per line)
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { Logger } from '../logger/Logger.js';
+import type { ModelPrice, UsageConfig, UsageLimit } from '../types/config.js';
+import { SparkError } from '../types/index.js';
+import type { UsageMeta, UsageRecord, UsageTotals } from '../types/usage.js';
+
+const USAGE_DIR = '.spark/usage';
+
+/**
+ * Built-in prices in USD per million tokens, matched by model id prefix
+ * Override or extend with usage.prices in config
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+};
+
+export type UsageRollup = 'day' | 'agent' | 'model' | 'provider';
+
+/**
+ * Estimated cost in USD, using the price with the longest matching model prefix
+ * Returns undefined for models without a price (e.g. local models)
+ */
+export function estimateCost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+  prices: Record<string, ModelPrice> = DEFAULT_MODEL_PRICES
+): number | undefined {
+  const match = Object.keys(prices)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  const price = match ? prices[match] : undefined;
+  if (!price) {
+    return undefined;
+  }
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Local calendar month, e.g. 2025-03
+ */
+export function monthKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Local calendar day, e.g. 2025-03-14
+ */
+export function dayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${monthKey(timestamp)}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Total tokens (input + output) and estimated cost of records
+ */
+export function totalUsage(records: UsageRecord[]): { tokens: number; costUsd: number } {
+  return records.reduce(
+    (total, r) => ({
+      tokens: total.tokens + r.inputTokens + r.outputTokens,
+      costUsd: total.costUsd + (r.costUsd ?? 0),
+    }),
+    { tokens: 0, costUsd: 0 }
+  );
+}
+
+/**
+ * Sum records by day, agent, model or provider (largest cost first, days newest first)
+ */
+export function rollupUsage(records: UsageRecord[], by: UsageRollup): UsageTotals[] {
+  const keyOf: Record<UsageRollup, (record: UsageRecord) => string> = {
+    day: (record) => dayKey(record.timestamp),
+    agent: (record) => record.agent ?? '(none)',
+    model: (record) => record.model,
+    provider: (record) => record.provider,
+  };
+
+  const totals = new Map<string, UsageTotals>();
+  for (const record of records) {
+    const key = keyOf[by](record);
+    const total = totals.get(key) ?? {
+      key,
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: 0,
+    };
+    total.calls++;
+    total.inputTokens += record.inputTokens;
+    total.outputTokens += record.outputTokens;
+    total.costUsd += record.costUsd ?? 0;
+    totals.set(key, total);
+  }
+
+  const rows = [...totals.values()];
+  if (by === 'day') {
+    return rows.sort((a, b) => b.key.localeCompare(a.key));
+  }
+  return rows.sort((a, b) => b.costUsd - a.costUsd || b.inputTokens - a.inputTokens);
+}
+
+export class UsageLedger {
+  private logger: Logger;
+
+  constructor(
+    private vaultPath: string,
+    private config: UsageConfig = {}
+  ) {
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * Append a completed provider call to this month's ledger
+   * Failures are logged, never thrown - the call itself already succeeded
+   */
+  record(
+    meta: UsageMeta,
+    provider: string,
+    model: string,
+    usage: { inputTokens: number; outputTokens: number }
+  ): UsageRecord {
+    const prices = { ...DEFAULT_MODEL_PRICES, ...this.config.prices };
+    const record: UsageRecord = {
+      timestamp: Date.now(),
+      ...meta,
+      provider,
+      model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      costUsd: estimateCost(model, usage.inputTokens, usage.outputTokens, prices),
+    };
+
+    try {
+      const dir = join(this.vaultPath, USAGE_DIR);
+      mkdirSync(dir, { recursive: true });
+      appendFileSync(
+        join(dir, `${monthKey(record.timestamp)}.jsonl`),
+        `${JSON.stringify(record)}\n`,
+        'utf-8'
+      );
+    } catch (error) {
+      this.logger.warn('Failed to record usage', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return record;
+  }
+
+  /**
+   * Records at or after since (all records when omitted), oldest first
+   */
+  read(since = 0): UsageRecord[] {
+    const dir = join(this.vaultPath, USAGE_DIR);
+    if (!existsSync(dir)) {
+      return [];
+    }
+
+    const firstMonth = monthKey(since);
+    const files = readdirSync(dir)
+      .filter((name) => /^\d{4}-\d{2}\.jsonl$/.test(name) && name.slice(0, 7) >= firstMonth)
+      .sort();
+
+    return files
+      .flatMap((name) => this.readFile(join(dir, name)))
+      .filter((record) => record.timestamp >= since);
+  }
+
+  /**
+   * Throw USAGE_LIMIT_EXCEEDED when the agent or provider has used up its monthly cap
+   */
+  checkLimits(agent: string | undefined, provider: string): void {
+    const limits = this.config.limits;
+    const agentLimit = agent ? limits?.agents?.[agent] : undefined;
+    const providerLimit = limits?.providers?.[provider];
+    if (!agentLimit && !providerLimit) {
+      return;
+    }
+
+    const now = new Date();
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+    const records = this.read(monthStart);
+
+    if (agent && agentLimit) {
+      this.enforce(
+        'agent',
+        agent,
+        agentLimit,
+        records.filter((r) => r.agent === agent)
+      );
+    }
+    if (providerLimit) {
+      this.enforce(
+        'provider',
+        provider,
+        providerLimit,
+        records.filter((r) => r.provider === provider)
+      );
+    }
+  }
+
+  private enforce(
+    scope: 'agent' | 'provider',
+    name: string,
+    limit: UsageLimit,
+    records: UsageRecord[]
+  ): void {
+    const { tokens, costUsd: cost } = totalUsage(records);
+
+    let used: string | null = null;
+    if (limit.monthly_tokens !== undefined && tokens >= limit.monthly_tokens) {
+      used = `${tokens.toLocaleString('en-US')} of ${limit.monthly_tokens.toLocaleString('en-US')} tokens`;
+    } else if (limit.monthly_cost_usd !== undefined && cost >= limit.monthly_cost_usd) {
+      used = `$${cost.toFixed(2)} of $${limit.monthly_cost_usd.toFixed(2)}`;
+    }
+
+    if (used) {
+      throw new SparkError(
+        `Monthly usage limit reached for ${scope} "${name}" (${used})`,
+        'USAGE_LIMIT_EXCEEDED',
+        { scope, name, limit, tokens, costUsd: cost }
+      );
+    }
+  }
+
+  private readFile(path: string): UsageRecord[] {
+    try {
+      return readFileSync(path, 'utf-8')
+        .split('\n')
+        .filter((line) => line.trim())
+        .flatMap((line) => {
+          try {
+            return [JSON.parse(line) as UsageRecord];
+          } catch {
+            // Skip a partially-written line
+            return [];
+          }
+        });
+    } catch (error) {
+      this.logger.warn('Failed to read usage ledger', {
+        path,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * ApprovalRunner - Human sign-off steps
+ * The first time an approval step runs it writes a review note with the upstream output
+ * and the run waits. Once the reviewer sets the note's decision the step runs again,
+ * reads the decision and passes on the output, including any edits made in the note.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { parseDocument } from 'yaml';
+import type { Logger } from '../logger/Logger.js';
+import { splitFrontmatter } from './FileRunner.js';
+import type {
+  ApprovalDecision,
+  ApprovalNodeData,
+  ExecutionContext,
+  NoteWriteListener,
+  WorkflowNode,
+} from './types.js';
+
+const DEFAULT_APPROVAL_FOLDER = 'Approvals';
+const OUTPUT_HEADING = '## Output';
+const JSON_FENCE = /^```json\n([\s\S]*)\n```$/;
+const UNSAFE_FILENAME_CHARS = /[\\/:*?"<>|#^[\]]/g;
+
+/**
+ * Frontmatter field holding the decision: pending, approved or rejected
+ */
+export const APPROVAL_FIELD = 'spark_approval';
+
+/**
+ * What a review note's frontmatter says about its run
+ */
+export interface ReviewNote {
+  decision: ApprovalDecision | 'pending';
+  workflowId: string;
+  runId: string;
+  nodeId: string;
+}
+
+/**
+ * Result of running an approval step
+ */
+export interface ApprovalOutcome {
+  notePath: string;
+  /** Absent while the reviewer has not decided */
+  decision?: ApprovalDecision;
+  output: unknown;
+}
+
+/**
+ * Read the frontmatter of a review note; null for any other note
+ */
+export function parseReviewNote(content: string): ReviewNote | null {
+  if (!content.includes(APPROVAL_FIELD)) {
+    return null;
+  }
+
+  const { yaml } = splitFrontmatter(content);
+  let data: unknown;
+  try {
+    data = parseDocument(yaml).toJS();
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+
+  const fields = data as Record<string, unknown>;
+  const decision = fields[APPROVAL_FIELD];
+  if (decision !== 'pending' && decision !== 'approved' && decision !== 'rejected') {
+    return null;
+  }
+  if (
+    typeof fields.workflow !== 'string' ||
+    typeof fields.run !== 'string' ||
+    typeof fields.step !== 'string'
+  ) {
+    return null;
+  }
+
+  return { decision, workflowId: fields.workflow, runId: fields.run, nodeId: fields.step };
+}
+
+/**
+ * Output as shown in the review note: text as-is, anything else as a JSON block
+ */
+function renderOutput(output: unknown): string {
+  if (typeof output === 'string') {
+    return output;
+  }
+  return `\`\`\`json\n${JSON.stringify(output ?? null, null, 2)}\n\`\`\``;
+}
+
+/**
+ * The output section as the reviewer left it, read back into a value
+ * Unchanged sections keep the original value (and its type)
+ */
+function readEditedOutput(body: string, original: unknown): unknown {
+  const lines = body.split('\n');
+  const start = lines.findIndex((line) => line.trim() === OUTPUT_HEADING);
+  if (start === -1) {
+    return original;
+  }
+
+  const text = lines
+    .slice(start + 1)
+    .join('\n')
+    .trim();
+  if (text === renderOutput(original).trim()) {
+    return original;
+  }
+
+  const fenced = JSON_FENCE.exec(text);
+  if (fenced) {
+    try {
+      return JSON.parse(fenced[1] ?? '') as unknown;
+    } catch {
+      // Not valid JSON any more: pass the reviewer's text on as it is
+    }
+  }
+  return text;
+}
+
+export class ApprovalRunner {
+  constructor(
+    private readonly vaultPath: string,
+    private readonly logger: Logger,
+    private readonly onWrite?: NoteWriteListener
+  ) {}
+
+  /**
+   * Write the review note, or read the reviewer's decision from it
+   */
+  async run(
+    node: WorkflowNode,
+    input: unknown,
+    context: ExecutionContext,
+    visitCount: number
+  ): Promise<ApprovalOutcome> {
+    const notePath = this.notePath(node, context.runId, visitCount);
+    const fullPath = join(this.vaultPath, notePath);
+
+    if (!existsSync(fullPath)) {
+      mkdirSync(dirname(fullPath), { recursive: true });
+      const note = this.buildNote(node, input, context);
+      writeFileSync(fullPath, note);
+      this.onWrite?.(fullPath, note);
+      this.logger.info('Approval requested', {
+        workflowId: context.workflowId,
+        runId: context.runId,
+        nodeId: node.id,
+        note: notePath,
+      });
+      return { notePath, output: input };
+    }
+
+    const content = readFileSync(fullPath, 'utf-8');
+    const review = parseReviewNote(content);
+    if (!review) {
+      throw new Error(`Review note ${notePath} has no ${APPROVAL_FIELD} decision`);
+    }
+    if (review.decision === 'pending') {
+      return { notePath, output: input };
+    }
+
+    this.logger.info('Approval decided', {
+      runId: context.runId,
+      nodeId: node.id,
+      decision: review.decision,
+    });
+    return {
+      notePath,
+      decision: review.decision,
+      output: readEditedOutput(splitFrontmatter(content).body, input),
+    };
+  }
+
+  /**
+   * Vault path of the review note for one visit of an approval step
+   */
+  notePath(node: WorkflowNode, runId: string, visitCount: number): string {
+    const data = node.data as ApprovalNodeData & { type: 'approval' };
+    const folder = (data.folder || DEFAULT_APPROVAL_FOLDER).trim().replace(/^\/+|\/+$/g, '');
+    if (!folder || folder.startsWith('.') || folder.split('/').includes('..')) {
+      throw new Error(`Approval folder must be a folder in the vault: ${data.folder}`);
+    }
+
+    const label = (data.label || node.id).replace(UNSAFE_FILENAME_CHARS, '-').trim();
+    const visit = visitCount > 1 ? ` #${visitCount}` : '';
+    return `${folder}/${label} (${runId}${visit}).md`;
+  }
+
+  private buildNote(node: WorkflowNode, input: unknown, context: ExecutionContext): string {
+    const data = node.data as ApprovalNodeData & { type: 'approval' };
+    return [
+      '---',
+      `${APPROVAL_FIELD}: pending`,
+      `workflow: ${context.workflowId}`,
+      `run: ${context.runId}`,
+      `step: ${node.id}`,
+      '---',
+      '',
+      `# ${data.label || 'Approval'}`,
+      '',
+      data.instructions?.trim() || 'Review the output of the previous step.',
+      '',
+      `Set \`${APPROVAL_FIELD}\` to \`approved\` or \`rejected\` (or use the buttons in Spark).`,
+      'When approved, the output below is passed on, including your edits.',
+      '',
+      OUTPUT_HEADING,
+      '',
+      renderOutput(input),
+      '',
+    ].join('\n');
+  }
+}
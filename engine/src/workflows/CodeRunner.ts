@@ -4,9 +4,10 @@
 
 import { runInNewContext } from 'node:vm';
 import type { Logger } from '../logger/Logger.js';
+import { withTimeout } from './StepPolicy.js';
 import type { CodeNodeData, ExecutionContext, WorkflowNode } from './types.js';
 
-// Timeout for code execution (5 seconds)
+// Default timeout for code execution (5 seconds); steps can set their own
 const CODE_TIMEOUT_MS = 5000;
 
 export class CodeRunner {
@@ -29,6 +30,7 @@ export class CodeRunner {
 
     // Create sandbox context
     const sandbox = this.createSandbox(input, context);
+    const timeoutMs = data.policy?.timeoutMs || CODE_TIMEOUT_MS;
 
     try {
       // Wrap code to handle return statement
@@ -36,13 +38,13 @@ export class CodeRunner {
 
       // Execute in sandbox with timeout
       const result = runInNewContext(wrappedCode, sandbox, {
-        timeout: CODE_TIMEOUT_MS,
+        timeout: timeoutMs,
         displayErrors: true,
       });
 
-      // Handle async results
+      // Handle async results (the sandbox timeout only covers synchronous code)
       if (result instanceof Promise) {
-        return await result;
+        return await withTimeout(result, timeoutMs);
       }
 
       return result;
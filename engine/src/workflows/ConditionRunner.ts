@@ -6,7 +6,7 @@ import { runInNewContext } from 'node:vm';
 import type { Logger } from '../logger/Logger.js';
 import type { ConditionNodeData, ExecutionContext, WorkflowNode } from './types.js';
 
-// Timeout for expression evaluation (1 second)
+// Default timeout for expression evaluation (1 second); steps can set their own
 const EXPRESSION_TIMEOUT_MS = 1000;
 
 export class ConditionRunner {
@@ -38,7 +38,7 @@ export class ConditionRunner {
     try {
       // Evaluate expression
       const result = runInNewContext(data.expression, sandbox, {
-        timeout: EXPRESSION_TIMEOUT_MS,
+        timeout: data.policy?.timeoutMs || EXPRESSION_TIMEOUT_MS,
         displayErrors: true,
       });
 
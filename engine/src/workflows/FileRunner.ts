@@ -0,0 +1,411 @@
+/**
+ * FileRunner - Reads and writes vault notes for file steps
+ *
+ * Paths, content and frontmatter values support $input and $input.field templating.
+ * Every path is confined to the vault; hidden folders (.spark/, .git/, the Obsidian
+ * config folder) are off limits.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'node:fs';
+import { basename, dirname, extname, isAbsolute, relative, resolve, sep } from 'node:path';
+import { glob } from 'glob';
+import { parseDocument } from 'yaml';
+import type { Logger } from '../logger/Logger.js';
+import { PromptRunner } from './PromptRunner.js';
+import type { FileNodeData, NoteWriteListener, WorkflowNode } from './types.js';
+
+// Notes returned by a single folder or glob read
+const MAX_READ_FILES = 100;
+
+const INPUT_PLACEHOLDER = /\$input((?:\.\w+)*)/g;
+const EXACT_INPUT_PLACEHOLDER = /^\$input((?:\.\w+)*)$/;
+const GLOB_CHARS = /[*?[\]{}]/;
+const HEADING_LINE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_LINE = /^\s*(```|~~~)/;
+
+/**
+ * A note as seen by downstream steps ($input renders as its content)
+ */
+export interface FileStepNote {
+  path: string;
+  content: string;
+  frontmatter: Record<string, unknown>;
+}
+
+interface ResolvedInput {
+  value: unknown;
+  /** Path segments left over after the input stopped being an object (e.g. ".md") */
+  rest: string;
+  resolved: boolean;
+}
+
+/**
+ * Follow $input.a.b as far as the input has those properties.
+ * Segments after a string/number are kept as literal text so "$input.md" works in paths.
+ */
+function resolveInput(input: unknown, fieldPath: string): ResolvedInput {
+  const segments = fieldPath.split('.').filter(Boolean);
+  let value = input;
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i] as string;
+    if (value === null || typeof value !== 'object') {
+      return { value, rest: `.${segments.slice(i).join('.')}`, resolved: true };
+    }
+    if (!Object.hasOwn(value, segment)) {
+      return { value: undefined, rest: '', resolved: false };
+    }
+    value = (value as Record<string, unknown>)[segment];
+  }
+
+  return { value, rest: '', resolved: true };
+}
+
+/**
+ * Substitute $input and $input.field in text
+ * Unknown fields are left as-is so the step fails visibly instead of writing "undefined"
+ */
+export function renderTemplate(text: string, input: unknown): string {
+  return text.replace(INPUT_PLACEHOLDER, (match, fieldPath: string) => {
+    const { value, rest, resolved } = resolveInput(input, fieldPath);
+    if (!resolved) {
+      return match;
+    }
+    return `${value === undefined ? '' : PromptRunner.formatOutput(value)}${rest}`;
+  });
+}
+
+/**
+ * Frontmatter value: exact placeholders keep the input's type, numbers and booleans are parsed
+ */
+function renderFieldValue(template: string, input: unknown): unknown {
+  const exact = EXACT_INPUT_PLACEHOLDER.exec(template.trim());
+  if (exact) {
+    const { value, rest, resolved } = resolveInput(input, exact[1] ?? '');
+    if (resolved && !rest) {
+      return value;
+    }
+  }
+
+  const text = renderTemplate(template, input);
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  if (text === 'true' || text === 'false') return text === 'true';
+  return text;
+}
+
+/**
+ * Split a note into its raw frontmatter YAML and body
+ */
+export function splitFrontmatter(note: string): { yaml: string; body: string } {
+  const lines = note.split('\n');
+  if (lines[0]?.trim() !== '---') {
+    return { yaml: '', body: note };
+  }
+  const closing = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+  if (closing === -1) {
+    return { yaml: '', body: note };
+  }
+  return { yaml: lines.slice(1, closing).join('\n'), body: lines.slice(closing + 1).join('\n') };
+}
+
+/**
+ * Index and level of the heading matching `heading` ("## Log" or just "Log"), outside code blocks
+ */
+function findHeading(lines: string[], heading: string): { index: number; level: number } | null {
+  const wanted = HEADING_LINE.exec(heading.trim());
+  const wantedLevel = wanted ? (wanted[1] as string).length : null;
+  const wantedTitle = (wanted ? (wanted[2] as string) : heading.trim()).toLowerCase();
+
+  let inFence = false;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i] as string;
+    if (FENCE_LINE.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    const match = inFence ? null : HEADING_LINE.exec(line);
+    if (!match) continue;
+
+    const level = (match[1] as string).length;
+    if ((match[2] as string).toLowerCase() === wantedTitle && (wantedLevel ?? level) === level) {
+      return { index: i, level };
+    }
+  }
+  return null;
+}
+
+/**
+ * Index of the line that ends the section started by the heading at `start`
+ */
+function findSectionEnd(lines: string[], start: number, level: number): number {
+  let inFence = false;
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lines[i] as string;
+    if (FENCE_LINE.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    const match = inFence ? null : HEADING_LINE.exec(line);
+    if (match && (match[1] as string).length <= level) {
+      return i;
+    }
+  }
+  return lines.length;
+}
+
+/**
+ * Append text at the end of a heading's section, or at the end of the note.
+ * A missing heading is added at the end of the note.
+ */
+export function appendToNote(note: string, text: string, heading?: string): string {
+  const block = text.replace(/\n+$/, '');
+
+  if (!heading?.trim()) {
+    const trimmed = note.replace(/\s+$/, '');
+    return trimmed ? `${trimmed}\n\n${block}\n` : `${block}\n`;
+  }
+
+  const lines = note.split('\n');
+  const found = findHeading(lines, heading);
+  if (!found) {
+    const title = HEADING_LINE.test(heading.trim()) ? heading.trim() : `## ${heading.trim()}`;
+    return appendToNote(note, `${title}\n\n${block}`);
+  }
+
+  const end = findSectionEnd(lines, found.index, found.level);
+  let insertAt = end;
+  while (insertAt > found.index + 1 && !(lines[insertAt - 1] as string).trim()) {
+    insertAt--;
+  }
+
+  const before = lines.slice(0, insertAt);
+  const after = lines.slice(insertAt);
+  // Keep a blank line between the appended text and the next heading
+  const separator = end < lines.length && insertAt === end ? [''] : [];
+  const spacer = insertAt === found.index + 1 ? [''] : [];
+  return [...before, ...spacer, block, ...separator, ...after].join('\n');
+}
+
+export class FileRunner {
+  private vaultPath: string;
+  private logger: Logger;
+  private onWrite?: NoteWriteListener;
+
+  constructor(vaultPath: string, logger: Logger, onWrite?: NoteWriteListener) {
+    this.vaultPath = vaultPath;
+    this.logger = logger;
+    this.onWrite = onWrite;
+  }
+
+  /**
+   * Run a file step
+   */
+  async run(node: WorkflowNode, input: unknown): Promise<unknown> {
+    const data = node.data as FileNodeData & { type: 'file' };
+
+    this.logger.debug('Running file step', {
+      nodeId: node.id,
+      operation: data.operation,
+      path: data.path,
+    });
+
+    try {
+      switch (data.operation) {
+        case 'read':
+          return await this.read(this.renderPath(data.path, input));
+        case 'write':
+          return this.write(data, input);
+        case 'append':
+          return this.append(data, input);
+        case 'frontmatter':
+          return this.setFrontmatter(data, input);
+        case 'move':
+          return this.move(data, input);
+        default:
+          throw new Error(`Unknown file operation: ${String(data.operation)}`);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error('File step failed', {
+        nodeId: node.id,
+        operation: data.operation,
+        error: errorMessage,
+      });
+      throw new Error(`File step failed: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Read a note, every note in a folder ("Inbox/") or notes matching a glob
+   */
+  private async read(
+    path: string
+  ): Promise<FileStepNote | { files: FileStepNote[]; count: number }> {
+    if (GLOB_CHARS.test(path)) {
+      // Checks the pattern itself so "../" can't walk out of the vault
+      this.resolvePath(path);
+      const matches = await glob(path, { cwd: this.vaultPath, nodir: true, posix: true });
+      return this.readMany(matches);
+    }
+
+    const absolute = this.resolvePath(path);
+    if (existsSync(absolute) && statSync(absolute).isDirectory()) {
+      const matches = await glob('**/*.md', { cwd: absolute, nodir: true, absolute: true });
+      return this.readMany(matches.map((file) => this.toVaultPath(file)));
+    }
+
+    return this.readNote(this.notePath(path));
+  }
+
+  private readMany(paths: string[]): { files: FileStepNote[]; count: number } {
+    const allowed = paths.filter((path) => !path.startsWith('.'));
+    allowed.sort();
+
+    if (allowed.length > MAX_READ_FILES) {
+      this.logger.warn('File step read matched too many notes, truncating', {
+        matched: allowed.length,
+        limit: MAX_READ_FILES,
+      });
+    }
+
+    const files = allowed.slice(0, MAX_READ_FILES).map((path) => this.readNote(path));
+    return { files, count: files.length };
+  }
+
+  private write(data: FileNodeData, input: unknown): FileStepNote {
+    const path = this.notePath(this.renderPath(data.path, input));
+    const absolute = this.resolvePath(path);
+    if (existsSync(absolute) && !data.overwrite) {
+      throw new Error(`Note already exists: ${path} (enable overwrite to replace it)`);
+    }
+
+    let content = renderTemplate(data.content ?? '', input);
+    if (!data.content?.trim() && data.template?.trim()) {
+      const templatePath = this.notePath(this.renderPath(data.template, input));
+      content = renderTemplate(this.readRaw(templatePath), input);
+    }
+
+    mkdirSync(dirname(absolute), { recursive: true });
+    this.writeNote(absolute, content);
+    return this.readNote(path);
+  }
+
+  private append(data: FileNodeData, input: unknown): FileStepNote {
+    const path = this.notePath(this.renderPath(data.path, input));
+    const absolute = this.resolvePath(path);
+    const existing = existsSync(absolute) ? readFileSync(absolute, 'utf-8') : '';
+    const heading = data.heading ? renderTemplate(data.heading, input) : undefined;
+
+    mkdirSync(dirname(absolute), { recursive: true });
+    this.writeNote(
+      absolute,
+      appendToNote(existing, renderTemplate(data.content ?? '', input), heading)
+    );
+    return this.readNote(path);
+  }
+
+  private setFrontmatter(data: FileNodeData, input: unknown): FileStepNote {
+    const path = this.notePath(this.renderPath(data.path, input));
+    const absolute = this.resolvePath(path);
+    const { yaml, body } = splitFrontmatter(this.readRaw(path));
+
+    // Edit the YAML document in place so untouched fields keep their formatting
+    const doc = parseDocument(yaml);
+    if (doc.errors.length > 0) {
+      throw new Error(`Invalid frontmatter in ${path}: ${doc.errors[0]?.message}`);
+    }
+    for (const [field, value] of Object.entries(data.fields ?? {})) {
+      doc.set(field, renderFieldValue(value, input));
+    }
+
+    this.writeNote(absolute, `---\n${doc.toString()}---\n${body}`);
+    return this.readNote(path);
+  }
+
+  private move(data: FileNodeData, input: unknown): { from: string; path: string } {
+    const from = this.notePath(this.renderPath(data.path, input));
+    const source = this.resolvePath(from);
+    if (!existsSync(source)) {
+      throw new Error(`Note not found: ${from}`);
+    }
+
+    const destinationText = this.renderPath(data.destination ?? '', input);
+    const to = destinationText.endsWith('/')
+      ? `${destinationText}${basename(from)}`
+      : this.notePath(destinationText, extname(from));
+    const target = this.resolvePath(to);
+    if (existsSync(target)) {
+      throw new Error(`Destination already exists: ${to}`);
+    }
+
+    mkdirSync(dirname(target), { recursive: true });
+    renameSync(source, target);
+    this.onWrite?.(target, readFileSync(target, 'utf-8'));
+    return { from, path: this.toVaultPath(target) };
+  }
+
+  private writeNote(absolute: string, content: string): void {
+    writeFileSync(absolute, content, 'utf-8');
+    this.onWrite?.(absolute, content);
+  }
+
+  private readNote(path: string): FileStepNote {
+    const { yaml, body } = splitFrontmatter(this.readRaw(path));
+    const parsed = yaml ? (parseDocument(yaml).toJS() as unknown) : null;
+    const frontmatter =
+      parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? (parsed as Record<string, unknown>)
+        : {};
+    return { path, content: body.replace(/^\n/, ''), frontmatter };
+  }
+
+  private readRaw(path: string): string {
+    const absolute = this.resolvePath(path);
+    if (!existsSync(absolute)) {
+      throw new Error(`Note not found: ${path}`);
+    }
+    return readFileSync(absolute, 'utf-8');
+  }
+
+  /**
+   * Render a path template; unresolved placeholders are an error
+   */
+  private renderPath(template: string, input: unknown): string {
+    const path = renderTemplate(template, input).trim().replace(/^\/+/, '');
+    if (!path) {
+      throw new Error('Path is empty');
+    }
+    if (path.includes('$input')) {
+      throw new Error(`Path references a field the input does not have: ${path}`);
+    }
+    return path;
+  }
+
+  /**
+   * Note paths without an extension get one (".md" unless another is given)
+   */
+  private notePath(path: string, extension = '.md'): string {
+    return extname(path) ? path : `${path}${extension || '.md'}`;
+  }
+
+  /**
+   * Absolute path for a vault-relative path; throws when it leaves the vault
+   */
+  private resolvePath(path: string): string {
+    const absolute = resolve(this.vaultPath, path);
+    const relativePath = relative(this.vaultPath, absolute);
+    if (relativePath === '..' || relativePath.startsWith(`..${sep}`) || isAbsolute(relativePath)) {
+      throw new Error(`Path is outside the vault: ${path}`);
+    }
+    // .spark/, .git/ and the Obsidian config folder
+    const topFolder = relativePath.split(sep)[0] ?? '';
+    if (topFolder.startsWith('.')) {
+      throw new Error(`Hidden files and folders are off limits: ${path}`);
+    }
+    return absolute;
+  }
+
+  private toVaultPath(absolute: string): string {
+    return relative(this.vaultPath, absolute).split(sep).join('/');
+  }
+}
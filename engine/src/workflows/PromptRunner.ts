@@ -11,6 +11,7 @@
 
 import type { CommandExecutor } from '../execution/CommandExecutor.js';
 import type { Logger } from '../logger/Logger.js';
+import { withTimeout } from './StepPolicy.js';
 import type {
   ExecutionContext,
   LabeledOutput,
@@ -63,10 +64,11 @@ export class PromptRunner {
       task: cleanPrompt,
       structuredOutput: data.structuredOutput,
       outputSchema: data.outputSchema,
+      signal: context.signal,
     };
 
     // Execute via command executor
-    const result = await this.commandExecutor.executeWorkflowPrompt(request);
+    const result = await this.executeWithTimeout(request, data.policy?.timeoutMs);
 
     // Parse structured output if enabled
     if (data.structuredOutput && result) {
@@ -76,6 +78,37 @@ export class PromptRunner {
     return result;
   }
 
+  /**
+   * Execute the request, aborting the AI call when the step's time limit runs out
+   */
+  private async executeWithTimeout(
+    request: WorkflowPromptRequest,
+    timeoutMs: number | undefined
+  ): Promise<unknown> {
+    if (!timeoutMs) {
+      return this.commandExecutor.executeWorkflowPrompt(request);
+    }
+
+    // Own signal so a timeout aborts this call only, while a run cancel still aborts it too
+    const controller = new AbortController();
+    const runSignal = request.signal;
+    const abort = () => controller.abort();
+    if (runSignal?.aborted) {
+      controller.abort();
+    }
+    runSignal?.addEventListener('abort', abort);
+
+    try {
+      return await withTimeout(
+        this.commandExecutor.executeWorkflowPrompt({ ...request, signal: controller.signal }),
+        timeoutMs,
+        abort
+      );
+    } finally {
+      runSignal?.removeEventListener('abort', abort);
+    }
+  }
+
   /**
    * Parse structured JSON output from LLM response
    */
@@ -0,0 +1,97 @@
+/**
+ * StepPolicy - Retry, timeout and error handling settings of a step
+ * The executor retries and routes failures; runners apply the time limit
+ */
+
+import type { StepErrorMode, StepPolicy, StepType, WorkflowNode } from './types.js';
+
+// Steps whose runner applies a policy; others ignore one (file steps are local
+// writes, approvals wait on a person and sub-workflows are limited by their own steps)
+export const POLICY_STEP_TYPES: StepType[] = ['prompt', 'code', 'condition'];
+
+// Source handle of the edges a failed step follows when its policy is "branch"
+export const ERROR_HANDLE = 'error';
+
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+// Longest wait between attempts, however many retries are configured
+const MAX_RETRY_DELAY_MS = 60_000;
+
+export interface ResolvedStepPolicy {
+  maxRetries: number;
+  retryDelayMs: number;
+  timeoutMs?: number;
+  onError: StepErrorMode;
+}
+
+/**
+ * Policy of a node with defaults filled in (steps without one fail the run on the first error)
+ */
+export function resolveStepPolicy(node: WorkflowNode): ResolvedStepPolicy {
+  const policy: StepPolicy =
+    POLICY_STEP_TYPES.includes(node.type) && 'policy' in node.data ? (node.data.policy ?? {}) : {};
+  return {
+    maxRetries: Math.max(0, Math.floor(policy.maxRetries ?? 0)),
+    retryDelayMs: Math.max(0, policy.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS),
+    timeoutMs: policy.timeoutMs && policy.timeoutMs > 0 ? policy.timeoutMs : undefined,
+    onError: policy.onError ?? 'fail',
+  };
+}
+
+/**
+ * Wait before a retry: the base delay, doubled for each retry before it
+ */
+export function retryDelay(policy: ResolvedStepPolicy, retry: number): number {
+  return Math.min(policy.retryDelayMs * 2 ** (retry - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Resolve after ms, or early once the run is cancelled
+ */
+export function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * Reject with a timeout error if the task has not settled within timeoutMs
+ * onTimeout runs first, so the task can be aborted
+ */
+export async function withTimeout<T>(
+  task: Promise<T>,
+  timeoutMs: number | undefined,
+  onTimeout?: () => void
+): Promise<T> {
+  if (!timeoutMs) {
+    return task;
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      onTimeout?.();
+      reject(new Error(`Timed out after ${formatDuration(timeoutMs)}`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([task, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function formatDuration(ms: number): string {
+  return ms % 1000 === 0 ? `${ms / 1000}s` : `${ms}ms`;
+}
@@ -0,0 +1,94 @@
+/**
+ * SubWorkflowRunner - Runs another workflow as a single step
+ * Maps the step's input, guards against recursion and hands the child run to the executor
+ */
+
+import { runInNewContext } from 'node:vm';
+import type { Logger } from '../logger/Logger.js';
+import type { ExecutionContext, SubWorkflowNodeData, WorkflowNode, WorkflowRun } from './types.js';
+
+// Timeout for input mapping evaluation (1 second)
+const MAPPING_TIMEOUT_MS = 1000;
+
+/**
+ * Workflows in one call chain, counting the top-level run
+ */
+export const MAX_WORKFLOW_DEPTH = 5;
+
+/**
+ * Start a child run of a workflow and resolve once it has settled
+ */
+export type RunChildWorkflow = (
+  workflowId: string,
+  input: unknown,
+  parent: ExecutionContext,
+  nodeId: string
+) => Promise<WorkflowRun>;
+
+export class SubWorkflowRunner {
+  private logger: Logger;
+  private runChild: RunChildWorkflow;
+
+  constructor(logger: Logger, runChild: RunChildWorkflow) {
+    this.logger = logger;
+    this.runChild = runChild;
+  }
+
+  /**
+   * Run a sub-workflow step
+   * Returns the child run; its output is the step's output once it completed
+   */
+  async run(node: WorkflowNode, input: unknown, context: ExecutionContext): Promise<WorkflowRun> {
+    const data = node.data as SubWorkflowNodeData & { type: 'workflow' };
+
+    if (!data.workflowId) {
+      throw new Error('No workflow selected');
+    }
+    if (context.callStack.includes(data.workflowId)) {
+      throw new Error(
+        `Workflow ${data.workflowId} would call itself (${[...context.callStack, data.workflowId].join(' → ')})`
+      );
+    }
+    if (context.callStack.length >= MAX_WORKFLOW_DEPTH) {
+      throw new Error(`Sub-workflows can be nested at most ${MAX_WORKFLOW_DEPTH} levels deep`);
+    }
+
+    const childInput = this.mapInput(node, data.inputMapping, input);
+    this.logger.info('Starting sub-workflow', {
+      workflowId: context.workflowId,
+      runId: context.runId,
+      nodeId: node.id,
+      childWorkflowId: data.workflowId,
+    });
+
+    return this.runChild(data.workflowId, childInput, context, node.id);
+  }
+
+  /**
+   * Evaluate the input mapping expression against the step input
+   */
+  private mapInput(node: WorkflowNode, mapping: string | undefined, input: unknown): unknown {
+    if (!mapping?.trim()) {
+      return input;
+    }
+
+    try {
+      // Parentheses let the mapping be an object literal: { text: input.content }
+      return runInNewContext(
+        `(${mapping})`,
+        { input, JSON },
+        {
+          timeout: MAPPING_TIMEOUT_MS,
+          displayErrors: true,
+        }
+      ) as unknown;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error('Sub-workflow input mapping failed', {
+        nodeId: node.id,
+        error: errorMessage,
+      });
+      throw new Error(`Input mapping failed: ${errorMessage}`);
+    }
+  }
+}
@@ -14,13 +14,22 @@ import {
 import { join } from 'node:path';
 import type { CommandExecutor } from '../execution/CommandExecutor.js';
 import type { Logger } from '../logger/Logger.js';
+import { ApprovalRunner, parseReviewNote } from './ApprovalRunner.js';
 import { CodeRunner } from './CodeRunner.js';
 import { ConditionRunner } from './ConditionRunner.js';
+import { FileRunner } from './FileRunner.js';
 import { PromptRunner } from './PromptRunner.js';
+import { StepLimiter } from './StepLimiter.js';
+import { ERROR_HANDLE, resolveStepPolicy, retryDelay, waitForRetry } from './StepPolicy.js';
+import { SubWorkflowRunner } from './SubWorkflowRunner.js';
 import type {
   ConditionNodeData,
   ExecutionContext,
+  JoinArrivals,
+  JoinNodeData,
   LabeledOutput,
+  NoteWriteListener,
+  PendingStep,
   StepResult,
   WorkflowDefinition,
   WorkflowEdge,
@@ -28,27 +37,63 @@ import type {
   WorkflowNode,
   WorkflowQueueItem,
   WorkflowRun,
+  WorkflowRunCheckpoint,
 } from './types.js';
+import { validateWorkflowInput } from './WorkflowInputs.js';
 import { updateRunsIndexFromRun } from './WorkflowRunsIndex.js';
 
 const WORKFLOWS_DIR = '.spark/workflows';
 const WORKFLOW_RUNS_DIR = '.spark/workflow-runs';
 const WORKFLOW_QUEUE_DIR = '.spark/workflow-queue';
 
+// Steps of one run executing at the same time, unless settings.maxParallelSteps says otherwise
+const DEFAULT_MAX_PARALLEL_STEPS = 4;
+
+// Steps that take their most recent upstream output instead of merging several (common in loops)
+const MOST_RECENT_INPUT_TYPES = new Set<WorkflowNode['type']>([
+  'condition',
+  'code',
+  'file',
+  'approval',
+]);
+
+/**
+ * State of a run executing in this engine, reachable by stop requests
+ */
+interface ActiveRun {
+  context: ExecutionContext;
+  limiter: StepLimiter;
+  abortController: AbortController;
+}
+
 export class WorkflowExecutor {
   private vaultPath: string;
   private logger: Logger;
   private promptRunner: PromptRunner;
   private codeRunner: CodeRunner;
   private conditionRunner: ConditionRunner;
+  private fileRunner: FileRunner;
+  private approvalRunner: ApprovalRunner;
+  private subWorkflowRunner: SubWorkflowRunner;
   private processingRuns: Set<string> = new Set();
-
-  constructor(vaultPath: string, logger: Logger, commandExecutor: CommandExecutor) {
+  private activeRuns: Map<string, ActiveRun> = new Map();
+
+  constructor(
+    vaultPath: string,
+    logger: Logger,
+    commandExecutor: CommandExecutor,
+    onNoteWrite?: NoteWriteListener
+  ) {
     this.vaultPath = vaultPath;
     this.logger = logger;
     this.promptRunner = new PromptRunner(commandExecutor, logger);
     this.codeRunner = new CodeRunner(logger);
     this.conditionRunner = new ConditionRunner(logger);
+    this.fileRunner = new FileRunner(vaultPath, logger, onNoteWrite);
+    this.approvalRunner = new ApprovalRunner(vaultPath, logger, onNoteWrite);
+    this.subWorkflowRunner = new SubWorkflowRunner(logger, (workflowId, input, parent, nodeId) =>
+      this.runChildWorkflow(workflowId, input, parent, nodeId)
+    );
   }
 
   /**
@@ -72,6 +117,12 @@ export class WorkflowExecutor {
       const content = readFileSync(fullPath, 'utf-8');
       const queueItem = JSON.parse(content) as WorkflowQueueItem;
 
+      // Cancel and pause requests are written into the run's queue item
+      if (queueItem.control) {
+        this.stopRun(queueItem, fullPath);
+        return;
+      }
+
       // Handle stuck items: reset "processing" items older than 5 minutes back to "pending"
       // This happens when engine crashed during execution
       const STUCK_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
@@ -87,6 +138,7 @@ export class WorkflowExecutor {
         });
         queueItem.status = 'pending';
         queueItem.timestamp = Date.now(); // Reset timestamp to avoid immediate re-reset
+        queueItem.resume = true; // Continue from the last checkpoint instead of starting over
         writeFileSync(fullPath, JSON.stringify(queueItem, null, 2));
       }
 
@@ -120,6 +172,50 @@ export class WorkflowExecutor {
     }
   }
 
+  /**
+   * Resume the run behind a review note once the reviewer has decided
+   * Returns true for review notes so they skip regular note processing
+   */
+  handleApprovalNote(relativePath: string): boolean {
+    const fullPath = join(this.vaultPath, relativePath);
+    if (!relativePath.endsWith('.md') || !existsSync(fullPath)) {
+      return false;
+    }
+
+    const review = parseReviewNote(readFileSync(fullPath, 'utf-8'));
+    if (!review) {
+      return false;
+    }
+
+    if (review.decision !== 'pending') {
+      this.resumeWaitingRun(review.workflowId, review.runId);
+    }
+    return true;
+  }
+
+  /**
+   * Queue a run that waits for approval to continue from its checkpoint
+   * Runs still executing are checked again when they settle
+   */
+  private resumeWaitingRun(workflowId: string, runId: string): void {
+    const run = this.loadRun(workflowId, runId);
+    if (run?.status !== 'waiting' || this.processingRuns.has(runId)) {
+      return;
+    }
+
+    this.logger.info('Approval decided, resuming workflow run', { workflowId, runId });
+    const queueItem: WorkflowQueueItem = {
+      workflowId,
+      runId,
+      status: 'pending',
+      timestamp: Date.now(),
+      resume: true,
+    };
+    const queuePath = join(this.vaultPath, WORKFLOW_QUEUE_DIR);
+    mkdirSync(queuePath, { recursive: true });
+    writeFileSync(join(queuePath, `${runId}.json`), JSON.stringify(queueItem, null, 2));
+  }
+
   /**
    * Scan and process any pending queue items
    * Called on engine startup to handle items queued while engine was down
@@ -144,10 +240,43 @@ export class WorkflowExecutor {
   }
 
   /**
-   * Execute a workflow
+   * Handle a cancel or pause request for a run
+   * Runs executing here stop cooperatively; runs waiting for approval or left "running"
+   * by a crash are marked directly
+   */
+  private stopRun(queueItem: WorkflowQueueItem, fullPath: string): void {
+    const { workflowId, runId, control } = queueItem;
+    const active = this.activeRuns.get(runId);
+
+    if (active) {
+      this.logger.info('Stopping workflow run', { workflowId, runId, control });
+      // A cancel after a pause still aborts the steps in flight
+      if (active.context.stopRequested !== 'cancel') {
+        active.context.stopRequested = control;
+      }
+      if (control === 'cancel') {
+        active.abortController.abort();
+      }
+      return;
+    }
+
+    const run = this.loadRun(workflowId, runId);
+    if (run?.status === 'running' || run?.status === 'waiting') {
+      run.status = control === 'cancel' ? 'cancelled' : 'paused';
+      run.endTime = Date.now();
+      this.markInterruptedSteps(run);
+      this.saveRun(run);
+    }
+    if (existsSync(fullPath)) {
+      unlinkSync(fullPath);
+    }
+  }
+
+  /**
+   * Execute a workflow, or continue a stopped run from its checkpoint
    */
   private async executeWorkflow(queueItem: WorkflowQueueItem): Promise<void> {
-    const { workflowId, runId, input } = queueItem;
+    const { workflowId, runId } = queueItem;
 
     // Load workflow definition
     const workflow = this.loadWorkflow(workflowId);
@@ -157,128 +286,521 @@ export class WorkflowExecutor {
       return;
     }
 
-    // Initialize run
-    const run: WorkflowRun = {
-      id: runId,
-      workflowId,
-      status: 'running',
-      input,
-      stepResults: [],
-      startTime: Date.now(),
-      totalCycles: 0,
-    };
+    const resumed = queueItem.resume ? this.loadResumableRun(workflowId, runId) : null;
+    const run = resumed?.run ?? this.createRun(queueItem);
+    const context = this.createContext(run, resumed?.checkpoint);
 
-    // Initialize execution context
-    const context: ExecutionContext = {
-      workflowId,
-      runId,
-      input,
-      stepOutputs: new Map(),
-      visitCounts: new Map(),
-      totalCycles: 0,
-    };
+    await this.runWorkflow(workflow, run, context, resumed?.checkpoint);
+    this.processingRuns.delete(runId);
+
+    // A reviewer may have decided while other branches were still running
+    if (run.status === 'waiting' && this.hasDecidedApproval(workflow, run, context)) {
+      this.resumeWaitingRun(workflowId, runId);
+    }
+  }
+
+  /**
+   * Run a workflow until it settles, saving progress as it goes
+   * Starts at the entry node, or at the checkpoint's pending steps when resuming
+   */
+  private async runWorkflow(
+    workflow: WorkflowDefinition,
+    run: WorkflowRun,
+    context: ExecutionContext,
+    checkpoint?: WorkflowRunCheckpoint,
+    parentSignal?: AbortSignal
+  ): Promise<void> {
+    const abortController = new AbortController();
+    context.signal = abortController.signal;
+    // Cancelling a parent run cancels the sub-workflow it waits for
+    const abortWithParent = () => abortController.abort();
+    parentSignal?.addEventListener('abort', abortWithParent, { once: true });
+
+    // A resumed run continues with the workflow as saved now
+    run.workflowVersion = workflow.version;
+
+    const maxParallelSteps = workflow.settings?.maxParallelSteps;
+    this.activeRuns.set(run.id, {
+      context,
+      abortController,
+      limiter: new StepLimiter(
+        maxParallelSteps && maxParallelSteps > 0 ? maxParallelSteps : DEFAULT_MAX_PARALLEL_STEPS
+      ),
+    });
 
     // Save initial run state so UI can see workflow is running
-    this.saveRun(run);
+    this.saveRun(run, context);
 
     try {
-      // Find entry point: first node with no incoming edges
-      const targetNodeIds = new Set(workflow.edges.map((e) => e.target));
-      const entryNode = workflow.nodes.find((n) => !targetNodeIds.has(n.id));
-      if (!entryNode) {
-        throw new Error('No entry point found in workflow (no node without incoming edges)');
+      if (!checkpoint) {
+        this.checkRunInput(workflow, run, context);
       }
 
-      // Execute from entry node
-      await this.executeFromNode(workflow, entryNode.id, context, run);
+      const pending = checkpoint
+        ? checkpoint.pending
+        : [{ nodeId: this.findEntryNode(workflow).id }];
 
-      // Mark as completed
-      run.status = 'completed';
-      run.endTime = Date.now();
-      run.totalCycles = context.totalCycles;
-
-      // Get final output (from last completed step)
-      const lastResult = run.stepResults.filter((r) => r.status === 'completed').pop();
-      run.output = lastResult?.output;
-
-      this.logger.info('Workflow completed', {
-        workflowId,
-        runId,
-        duration: run.endTime - run.startTime,
-        totalCycles: run.totalCycles,
-      });
+      await this.runPendingSteps(workflow, pending, context, run);
+      await this.flushPendingJoins(workflow, context, run);
+      this.finishRun(run, context);
     } catch (error) {
       run.status = 'failed';
       run.error = error instanceof Error ? error.message : String(error);
       run.endTime = Date.now();
 
       this.logger.error('Workflow execution failed', {
-        workflowId,
-        runId,
+        workflowId: run.workflowId,
+        runId: run.id,
         error: run.error,
       });
     } finally {
       // Save run result
+      this.saveRun(run, context);
+      this.activeRuns.delete(run.id);
+      parentSignal?.removeEventListener('abort', abortWithParent);
+    }
+  }
+
+  /**
+   * Check a new run's input against the workflow's input fields
+   * Trigger runs get the triggering note instead, so their input is left alone
+   */
+  private checkRunInput(
+    workflow: WorkflowDefinition,
+    run: WorkflowRun,
+    context: ExecutionContext
+  ): void {
+    if (!workflow.inputs?.length || run.trigger) {
+      return;
+    }
+
+    const { input, errors } = validateWorkflowInput(this.vaultPath, workflow.inputs, run.input);
+    if (errors.length > 0) {
+      throw new Error(`Invalid input: ${errors.join('; ')}`);
+    }
+    run.input = input;
+    context.input = input;
+  }
+
+  /**
+   * Run a sub-workflow for a step of a parent run
+   * The child run is saved with the parent's workflow and run ids so the UI can link them
+   */
+  private async runChildWorkflow(
+    workflowId: string,
+    input: unknown,
+    parent: ExecutionContext,
+    nodeId: string
+  ): Promise<WorkflowRun> {
+    const workflow = this.loadWorkflow(workflowId);
+    if (!workflow) {
+      throw new Error(`Workflow ${workflowId} not found`);
+    }
+
+    const run = this.createRun({
+      workflowId,
+      runId: `run_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 11)}`,
+      status: 'processing',
+      input,
+      timestamp: Date.now(),
+    });
+    run.parent = { workflowId: parent.workflowId, runId: parent.runId, nodeId };
+
+    const context = this.createContext(run);
+    context.callStack = [...parent.callStack, workflowId];
+
+    await this.runWorkflow(workflow, run, context, undefined, parent.signal);
+
+    // Nobody resumes a sub-workflow run on its own, so it must not wait for a reviewer
+    if (run.status === 'waiting') {
+      run.status = 'cancelled';
+      run.error = 'Approval steps are not supported in sub-workflows';
+      this.markInterruptedSteps(run);
       this.saveRun(run);
-      this.processingRuns.delete(runId);
     }
+    return run;
+  }
+
+  private hasDecidedApproval(
+    workflow: WorkflowDefinition,
+    run: WorkflowRun,
+    context: ExecutionContext
+  ): boolean {
+    return [...context.pending].some((step) => {
+      const node = workflow.nodes.find((n) => n.id === step.nodeId);
+      if (node?.type !== 'approval') {
+        return false;
+      }
+      const notePath = join(
+        this.vaultPath,
+        this.approvalRunner.notePath(node, run.id, step.visitCount ?? 1)
+      );
+      const review = existsSync(notePath) ? parseReviewNote(readFileSync(notePath, 'utf-8')) : null;
+      return review !== null && review.decision !== 'pending';
+    });
+  }
+
+  /**
+   * Fresh run record for a queue item
+   */
+  private createRun(queueItem: WorkflowQueueItem): WorkflowRun {
+    return {
+      id: queueItem.runId,
+      workflowId: queueItem.workflowId,
+      status: 'running',
+      input: queueItem.input,
+      stepResults: [],
+      startTime: Date.now(),
+      totalCycles: 0,
+      trigger: queueItem.trigger,
+    };
+  }
+
+  /**
+   * Load a stopped run to continue; null (start over) when it has no checkpoint
+   */
+  private loadResumableRun(
+    workflowId: string,
+    runId: string
+  ): { run: WorkflowRun; checkpoint: WorkflowRunCheckpoint } | null {
+    const run = this.loadRun(workflowId, runId);
+    if (!run?.checkpoint || run.status === 'completed') {
+      this.logger.warn('Workflow run has no checkpoint, starting over', { workflowId, runId });
+      return null;
+    }
+
+    this.logger.info('Resuming workflow run', {
+      workflowId,
+      runId,
+      pendingSteps: run.checkpoint.pending.length,
+    });
+    // Waiting approval steps run again and record their outcome then
+    run.stepResults = run.stepResults.filter((step) => step.status !== 'waiting');
+    this.markInterruptedSteps(run);
+    run.status = 'running';
+    run.error = undefined;
+    run.output = undefined;
+    run.endTime = undefined;
+    return { run, checkpoint: run.checkpoint };
+  }
+
+  /**
+   * Steps still running (or waiting) belong to an earlier attempt that never finished
+   */
+  private markInterruptedSteps(run: WorkflowRun): void {
+    for (const step of run.stepResults) {
+      if (step.status === 'running' || step.status === 'waiting') {
+        step.status = 'cancelled';
+        step.error = 'Interrupted';
+        step.endTime = Date.now();
+      }
+    }
+  }
+
+  /**
+   * Execution context for a run, restored from its checkpoint when resuming
+   */
+  private createContext(run: WorkflowRun, checkpoint?: WorkflowRunCheckpoint): ExecutionContext {
+    return {
+      workflowId: run.workflowId,
+      runId: run.id,
+      input: run.input,
+      stepOutputs: new Map(checkpoint?.stepOutputs),
+      visitCounts: new Map(checkpoint?.visitCounts),
+      totalCycles: checkpoint?.totalCycles ?? 0,
+      joinArrivals: new Map(
+        checkpoint?.joinArrivals.map((join) => [
+          join.nodeId,
+          { outputs: new Map(join.outputs), fired: join.fired },
+        ])
+      ),
+      skippedEdges: new Set(checkpoint?.skippedEdges),
+      pending: new Set(),
+      callStack: [run.workflowId],
+    };
+  }
+
+  /**
+   * Serializable copy of the execution context
+   */
+  private createCheckpoint(context: ExecutionContext): WorkflowRunCheckpoint {
+    return {
+      stepOutputs: [...context.stepOutputs],
+      visitCounts: [...context.visitCounts],
+      totalCycles: context.totalCycles,
+      joinArrivals: [...context.joinArrivals].map(([nodeId, state]) => ({
+        nodeId,
+        outputs: [...state.outputs],
+        fired: state.fired,
+      })),
+      skippedEdges: [...context.skippedEdges],
+      pending: [...context.pending],
+    };
+  }
+
+  /**
+   * First node with no incoming edges
+   */
+  private findEntryNode(workflow: WorkflowDefinition): WorkflowNode {
+    const targetNodeIds = new Set(workflow.edges.map((e) => e.target));
+    const entryNode = workflow.nodes.find((n) => !targetNodeIds.has(n.id));
+    if (!entryNode) {
+      throw new Error('No entry point found in workflow (no node without incoming edges)');
+    }
+    return entryNode;
+  }
+
+  /**
+   * Mark a run whose traversal settled as completed, or as stopped if a stop left steps pending
+   * Without a stop, only approval steps leave steps pending: the run waits for a reviewer
+   */
+  private finishRun(run: WorkflowRun, context: ExecutionContext): void {
+    run.endTime = Date.now();
+    run.totalCycles = context.totalCycles;
+
+    if (context.stopRequested && context.pending.size > 0) {
+      run.status = context.stopRequested === 'cancel' ? 'cancelled' : 'paused';
+      this.logger.info('Workflow stopped', {
+        workflowId: run.workflowId,
+        runId: run.id,
+        status: run.status,
+        pendingSteps: context.pending.size,
+      });
+      return;
+    }
+
+    if (context.pending.size > 0) {
+      run.status = 'waiting';
+      this.logger.info('Workflow waiting for approval', {
+        workflowId: run.workflowId,
+        runId: run.id,
+      });
+      return;
+    }
+
+    run.status = 'completed';
+
+    // Get final output (from the step that completed last)
+    const lastResult = run.stepResults
+      .filter((r) => r.status === 'completed')
+      .reduce<StepResult | undefined>(
+        (last, r) => (!last || (r.endTime ?? 0) >= (last.endTime ?? 0) ? r : last),
+        undefined
+      );
+    run.output = lastResult?.output;
+
+    this.logger.info('Workflow completed', {
+      workflowId: run.workflowId,
+      runId: run.id,
+      duration: run.endTime - run.startTime,
+      totalCycles: run.totalCycles,
+    });
+  }
+
+  /**
+   * Start (or resume) every pending step as its own branch
+   */
+  private async runPendingSteps(
+    workflow: WorkflowDefinition,
+    pending: PendingStep[],
+    context: ExecutionContext,
+    run: WorkflowRun
+  ): Promise<void> {
+    await this.settleBranches(
+      pending.map(async (step) => {
+        if (step.visitCount === undefined) {
+          return this.executeFromNode(workflow, step.nodeId, context, run, step.fromNodeId);
+        }
+        return this.runNode(workflow, this.getNode(workflow, step.nodeId), step, context, run);
+      })
+    );
   }
 
   /**
    * Execute workflow from a specific node
+   * Outgoing branches run concurrently, capped per run by settings.maxParallelSteps
    */
   private async executeFromNode(
     workflow: WorkflowDefinition,
     nodeId: string,
     context: ExecutionContext,
-    run: WorkflowRun
+    run: WorkflowRun,
+    fromNodeId?: string
   ): Promise<void> {
-    const node = workflow.nodes.find((n) => n.id === nodeId);
-    if (!node) {
-      throw new Error(`Node ${nodeId} not found`);
+    // Another branch failed or the run is stopping: don't start new steps,
+    // but remember where this branch was so a resume can continue it
+    if (context.failed || context.stopRequested) {
+      context.pending.add({ nodeId, fromNodeId });
+      return;
+    }
+
+    const node = this.getNode(workflow, nodeId);
+
+    // Join nodes only run once enough branches have arrived
+    const joinInput =
+      node.type === 'join' ? this.arriveAtJoin(workflow, node, fromNodeId, context) : undefined;
+    if (joinInput === null) {
+      return;
+    }
+
+    // Other steps with several parents wait for all of them and run once
+    if (node.type !== 'join' && !this.arriveAtMerge(workflow, node, fromNodeId, context)) {
+      return;
     }
 
     // Track visit count for loop detection
     const visitCount = (context.visitCounts.get(nodeId) || 0) + 1;
     context.visitCounts.set(nodeId, visitCount);
 
-    // Check node-specific cycle limit for condition nodes (revisits only)
-    if (node.type === 'condition') {
-      const conditionData = node.data as ConditionNodeData & { type: 'condition' };
-      if (visitCount > conditionData.maxCycles) {
-        this.logger.warn('Condition node max cycles exceeded, stopping loop', {
-          nodeId,
-          maxCycles: conditionData.maxCycles,
-          visitCount,
-        });
-        return;
-      }
+    if (this.exceedsMaxCycles(node, visitCount)) {
+      return;
     }
 
     context.totalCycles++;
 
-    // Get input from previous step
-    const previousOutput = this.getNodeInput(workflow, node, context);
+    // Get input from previous step (joins get the combined branch outputs)
+    const input = joinInput ?? this.getNodeInput(workflow, node, context);
+
+    await this.runNode(workflow, node, { nodeId, input, visitCount }, context, run);
+  }
+
+  /**
+   * Run a node's step, then continue into the branches after it
+   * The step stays pending in the checkpoint until it completes
+   */
+  private async runNode(
+    workflow: WorkflowDefinition,
+    node: WorkflowNode,
+    step: PendingStep,
+    context: ExecutionContext,
+    run: WorkflowRun
+  ): Promise<void> {
+    context.pending.add(step);
+
+    // Failures and stop requests may come in while the step waits for a slot
+    const limiter =
+      this.activeRuns.get(run.id)?.limiter ?? new StepLimiter(DEFAULT_MAX_PARALLEL_STEPS);
+    const result = await limiter.run(async () =>
+      context.failed || context.stopRequested
+        ? null
+        : this.runStep(workflow, node, step, context, run)
+    );
+
+    // Cancelled and waiting (approval) steps stay pending for a resume
+    if (!result || result.status === 'cancelled' || result.status === 'waiting') {
+      return;
+    }
+
+    // If step failed (and its policy doesn't let the run go on), stop execution
+    if (result.status === 'failed' && !result.errorHandled) {
+      context.failed = true;
+      throw new Error(`Step ${node.id} failed: ${result.error}`);
+    }
+
+    // Execute next nodes in parallel, and merges that no longer wait on the branches not taken
+    const nextNodes = this.getNextNodes(workflow, node, result);
+    const releasedMerges = this.skipUnfollowedEdges(workflow, node, nextNodes, context);
+    await this.settleBranches([
+      ...nextNodes.map((nextNodeId) =>
+        this.executeFromNode(workflow, nextNodeId, context, run, node.id)
+      ),
+      ...releasedMerges.map((mergeId) => this.executeFromNode(workflow, mergeId, context, run)),
+    ]);
+  }
+
+  /**
+   * Wait for every branch before reporting the first failure
+   */
+  private async settleBranches(branches: Promise<void>[]): Promise<void> {
+    const settled = await Promise.allSettled(branches);
+    const failedBranch = settled.find((b): b is PromiseRejectedResult => b.status === 'rejected');
+    if (failedBranch) {
+      throw failedBranch.reason;
+    }
+  }
+
+  private getNode(workflow: WorkflowDefinition, nodeId: string): WorkflowNode {
+    const node = workflow.nodes.find((n) => n.id === nodeId);
+    if (!node) {
+      throw new Error(`Node ${nodeId} not found`);
+    }
+    return node;
+  }
+
+  /**
+   * Check node-specific cycle limit for condition nodes (revisits only)
+   */
+  private exceedsMaxCycles(node: WorkflowNode, visitCount: number): boolean {
+    if (node.type !== 'condition') {
+      return false;
+    }
+
+    const conditionData = node.data as ConditionNodeData & { type: 'condition' };
+    if (visitCount <= conditionData.maxCycles) {
+      return false;
+    }
+
+    this.logger.warn('Condition node max cycles exceeded, stopping loop', {
+      nodeId: node.id,
+      maxCycles: conditionData.maxCycles,
+      visitCount,
+    });
+    return true;
+  }
+
+  /**
+   * Run one step, saving the run before and after so the UI can follow along
+   */
+  private async runStep(
+    workflow: WorkflowDefinition,
+    node: WorkflowNode,
+    step: PendingStep,
+    context: ExecutionContext,
+    run: WorkflowRun
+  ): Promise<StepResult> {
+    const { input, visitCount } = step;
 
     // Create initial "running" result and save immediately for UI feedback
     const runningResult: StepResult = {
       nodeId: node.id,
       status: 'running',
-      input: previousOutput,
+      input,
       startTime: Date.now(),
       cycleCount: visitCount,
     };
     run.stepResults.push(runningResult);
-    this.saveRun(run);
+    this.saveRun(run, context);
 
     // Execute the step (pass workflow for prompt nodes to access labels)
-    const result = await this.executeStep(workflow, node, previousOutput, context);
+    const result = await this.executeStepWithRetries(workflow, node, input, context, visitCount);
     result.cycleCount = visitCount;
 
-    // Update the running result in place with final status
-    const resultIndex = run.stepResults.findIndex(
-      (r) => r.nodeId === node.id && r.status === 'running'
-    );
+    if (result.status === 'failed' && context.signal?.aborted) {
+      result.status = 'cancelled';
+    }
+
+    if (result.status === 'failed') {
+      this.applyErrorPolicy(node, result, input);
+    }
+
+    // Store output for downstream nodes before saving, so the checkpoint has it
+    if (result.errorHandled) {
+      context.pending.delete(step);
+      context.stepOutputs.set(node.id, result.output);
+    } else if (result.status === 'completed') {
+      context.pending.delete(step);
+      if (node.type === 'condition') {
+        // Condition nodes pass through their INPUT, not their boolean output
+        // The output (true/false) is only used for routing decisions
+        // This preserves data flow through conditional branches
+        context.stepOutputs.set(node.id, input);
+      } else if (result.output !== undefined) {
+        context.stepOutputs.set(node.id, result.output);
+      }
+    }
+
+    // Replace this step's running result (other branches may have added results meanwhile)
+    const resultIndex = run.stepResults.indexOf(runningResult);
     if (resultIndex !== -1) {
       run.stepResults[resultIndex] = result;
     } else {
@@ -287,31 +809,328 @@ export class WorkflowExecutor {
     }
 
     // Save run after each step for real-time progress updates
-    this.saveRun(run);
+    this.saveRun(run, context);
+    return result;
+  }
 
-    // Store output for downstream nodes
-    if (result.status === 'completed') {
-      if (node.type === 'condition') {
-        // Condition nodes pass through their INPUT, not their boolean output
-        // The output (true/false) is only used for routing decisions
-        // This preserves data flow through conditional branches
-        context.stepOutputs.set(nodeId, previousOutput);
-      } else if (result.output !== undefined) {
-        context.stepOutputs.set(nodeId, result.output);
+  /**
+   * Execute a step, retrying failed attempts with backoff as its policy allows
+   */
+  private async executeStepWithRetries(
+    workflow: WorkflowDefinition,
+    node: WorkflowNode,
+    input: unknown,
+    context: ExecutionContext,
+    visitCount?: number
+  ): Promise<StepResult> {
+    const policy = resolveStepPolicy(node);
+    const startTime = Date.now();
+    let result = await this.executeStep(workflow, node, input, context, visitCount);
+    let attempt = 1;
+
+    while (result.status === 'failed' && attempt <= policy.maxRetries && !context.signal?.aborted) {
+      const delay = retryDelay(policy, attempt);
+      this.logger.warn('Step failed, retrying', {
+        runId: context.runId,
+        nodeId: node.id,
+        attempt,
+        delay,
+        error: result.error,
+      });
+      await waitForRetry(delay, context.signal);
+      if (context.signal?.aborted) {
+        break;
       }
+
+      attempt++;
+      result = await this.executeStep(workflow, node, input, context, visitCount);
     }
 
-    // If step failed, stop execution
-    if (result.status === 'failed') {
-      throw new Error(`Step ${nodeId} failed: ${result.error}`);
+    if (attempt > 1) {
+      result.attempts = attempt;
+      result.startTime = startTime;
+    }
+    return result;
+  }
+
+  /**
+   * Let the run go on past a failed step when its policy says so
+   * "continue" passes null on; "branch" passes the error and the step's input to its error edges
+   */
+  private applyErrorPolicy(node: WorkflowNode, result: StepResult, input: unknown): void {
+    const { onError } = resolveStepPolicy(node);
+    if (onError === 'fail') {
+      return;
+    }
+
+    result.errorHandled = onError;
+    result.output = onError === 'branch' ? { error: result.error, input } : null;
+    this.logger.warn('Step failed, continuing per its error policy', {
+      nodeId: node.id,
+      onError,
+      error: result.error,
+    });
+  }
+
+  /**
+   * Record a branch reaching a join node
+   * Returns the combined branch outputs once the join should run, otherwise null
+   */
+  private arriveAtJoin(
+    workflow: WorkflowDefinition,
+    node: WorkflowNode,
+    fromNodeId: string | undefined,
+    context: ExecutionContext
+  ): Record<string, unknown> | null {
+    const sources = new Set(
+      workflow.edges.filter((e) => e.target === node.id).map((e) => e.source)
+    );
+    let state = context.joinArrivals.get(node.id);
+
+    // A branch arriving again after the join ran starts a new round (joins inside loops)
+    if (!state || (state.fired && fromNodeId !== undefined && state.outputs.has(fromNodeId))) {
+      state = { outputs: new Map(), fired: false };
+      context.joinArrivals.set(node.id, state);
+    }
+    if (fromNodeId !== undefined) {
+      state.outputs.set(fromNodeId, context.stepOutputs.get(fromNodeId));
+    }
+
+    const data = node.data as JoinNodeData & { type: 'join' };
+    const required = data.mode === 'any' ? Math.min(data.count ?? 1, sources.size) : sources.size;
+    const ready = !state.fired && (state.forced || state.outputs.size >= required);
+    if (ready) {
+      state.fired = true;
+    }
+
+    // Every branch is in: the next arrival belongs to a new round
+    if (state.fired && state.outputs.size >= sources.size) {
+      context.joinArrivals.delete(node.id);
+    }
+
+    return ready ? this.combineJoinOutputs(workflow, state.outputs) : null;
+  }
+
+  /**
+   * Record a parent reaching a step that merges several parents' outputs
+   * Returns true once the step should run: every parent that can still run finished, or the
+   * run forced it. Loop-back edges don't count as parents.
+   */
+  private arriveAtMerge(
+    workflow: WorkflowDefinition,
+    node: WorkflowNode,
+    fromNodeId: string | undefined,
+    context: ExecutionContext
+  ): boolean {
+    const state = context.joinArrivals.get(node.id);
+    if (fromNodeId === undefined) {
+      context.joinArrivals.delete(node.id);
+      return true;
     }
 
-    // Find next node(s) to execute
-    const nextNodes = this.getNextNodes(workflow, node, result.output);
+    const parents = this.getMergeParents(workflow, node, context);
+    if (parents.size < 2 || !parents.has(fromNodeId)) {
+      return true;
+    }
 
-    // Execute next nodes
-    for (const nextNodeId of nextNodes) {
-      await this.executeFromNode(workflow, nextNodeId, context, run);
+    const arrivals = state ?? { outputs: new Map<string, unknown>(), fired: false };
+    arrivals.outputs.set(fromNodeId, context.stepOutputs.get(fromNodeId));
+    if (!this.allLiveParentsArrived(workflow, node, parents, arrivals, context)) {
+      context.joinArrivals.set(node.id, arrivals);
+      return false;
+    }
+
+    context.joinArrivals.delete(node.id);
+    return true;
+  }
+
+  /**
+   * Whether every parent that can still reach the step has arrived
+   * A parent on a branch that wasn't taken, or whose edge to the step was skipped, can't
+   */
+  private allLiveParentsArrived(
+    workflow: WorkflowDefinition,
+    node: WorkflowNode,
+    parents: Set<string>,
+    arrivals: JoinArrivals,
+    context: ExecutionContext
+  ): boolean {
+    const deadNodes = this.getDeadNodes(workflow, context);
+    return [...parents].every(
+      (parentId) =>
+        arrivals.outputs.has(parentId) ||
+        deadNodes.has(parentId) ||
+        workflow.edges
+          .filter((e) => e.source === parentId && e.target === node.id)
+          .every((e) => context.skippedEdges.has(e.id))
+    );
+  }
+
+  /**
+   * Record which of a finished step's edges it didn't follow (a condition's other branch, an
+   * approval's other decision). Returns the merge steps that were waiting only on steps
+   * that can no longer run because of it.
+   */
+  private skipUnfollowedEdges(
+    workflow: WorkflowDefinition,
+    node: WorkflowNode,
+    nextNodes: string[],
+    context: ExecutionContext
+  ): string[] {
+    const followed = new Set(nextNodes);
+    let changed = false;
+    for (const edge of workflow.edges.filter((e) => e.source === node.id)) {
+      const skipped = !followed.has(edge.target);
+      if (skipped !== context.skippedEdges.has(edge.id)) {
+        changed = true;
+        if (skipped) {
+          context.skippedEdges.add(edge.id);
+        } else {
+          context.skippedEdges.delete(edge.id);
+        }
+      }
+    }
+    if (!changed) {
+      return [];
+    }
+
+    context.deadNodes = undefined;
+    const released: string[] = [];
+    for (const [mergeId, arrivals] of context.joinArrivals) {
+      const merge = this.getNode(workflow, mergeId);
+      if (merge.type === 'join' || arrivals.fired || arrivals.outputs.size === 0) {
+        continue;
+      }
+      const parents = this.getMergeParents(workflow, merge, context);
+      if (this.allLiveParentsArrived(workflow, merge, parents, arrivals, context)) {
+        released.push(mergeId);
+      }
+    }
+    return released;
+  }
+
+  /**
+   * Steps whose every incoming edge (loop-back edges aside) was skipped or comes from
+   * such a step, computed once per change to the skipped edges
+   */
+  private getDeadNodes(workflow: WorkflowDefinition, context: ExecutionContext): Set<string> {
+    if (context.deadNodes) {
+      return context.deadNodes;
+    }
+
+    const backEdges = this.getBackEdges(workflow, context);
+    const forward = workflow.edges.filter((e) => !backEdges.has(e));
+    const dead = new Set<string>();
+    const isDead = (edge: WorkflowEdge) =>
+      context.skippedEdges.has(edge.id) || dead.has(edge.source);
+
+    const queue = forward.filter((e) => context.skippedEdges.has(e.id)).map((e) => e.target);
+    for (let nodeId = queue.pop(); nodeId !== undefined; nodeId = queue.pop()) {
+      if (dead.has(nodeId) || !forward.filter((e) => e.target === nodeId).every(isDead)) {
+        continue;
+      }
+      dead.add(nodeId);
+      queue.push(...forward.filter((e) => e.source === nodeId).map((e) => e.target));
+    }
+
+    context.deadNodes = dead;
+    return dead;
+  }
+
+  /**
+   * Sources of a step's incoming edges when it merges their outputs, without loop-back edges
+   * Condition, code, file and approval steps take the most recent input and run per arrival
+   */
+  private getMergeParents(
+    workflow: WorkflowDefinition,
+    node: WorkflowNode,
+    context: ExecutionContext
+  ): Set<string> {
+    if (MOST_RECENT_INPUT_TYPES.has(node.type)) {
+      return new Set();
+    }
+    const incoming = workflow.edges.filter((e) => e.target === node.id);
+    if (incoming.length < 2) {
+      return new Set();
+    }
+    const backEdges = this.getBackEdges(workflow, context);
+    return new Set(incoming.filter((e) => !backEdges.has(e)).map((e) => e.source));
+  }
+
+  private getBackEdges(workflow: WorkflowDefinition, context: ExecutionContext): Set<WorkflowEdge> {
+    context.backEdges ??= this.findBackEdges(workflow);
+    return context.backEdges;
+  }
+
+  /**
+   * Edges that close a loop: depth-first from the entry steps, edges back to a step still on the path
+   */
+  private findBackEdges(workflow: WorkflowDefinition): Set<WorkflowEdge> {
+    const backEdges = new Set<WorkflowEdge>();
+    const visited = new Set<string>();
+    const onPath = new Set<string>();
+
+    const visit = (nodeId: string): void => {
+      visited.add(nodeId);
+      onPath.add(nodeId);
+      for (const edge of workflow.edges.filter((e) => e.source === nodeId)) {
+        if (onPath.has(edge.target)) {
+          backEdges.add(edge);
+        } else if (!visited.has(edge.target)) {
+          visit(edge.target);
+        }
+      }
+      onPath.delete(nodeId);
+    };
+
+    const targets = new Set(workflow.edges.map((e) => e.target));
+    for (const node of workflow.nodes) {
+      if (!targets.has(node.id) && !visited.has(node.id)) {
+        visit(node.id);
+      }
+    }
+    return backEdges;
+  }
+
+  /**
+   * Branch outputs keyed by the source step's label (node id when labels clash)
+   */
+  private combineJoinOutputs(
+    workflow: WorkflowDefinition,
+    outputs: Map<string, unknown>
+  ): Record<string, unknown> {
+    const combined: Record<string, unknown> = {};
+    for (const [sourceId, output] of outputs) {
+      const label = workflow.nodes.find((n) => n.id === sourceId)?.data.label || sourceId;
+      combined[label in combined ? sourceId : label] = output;
+    }
+    return combined;
+  }
+
+  /**
+   * Run joins still waiting on branches that can no longer arrive
+   * (e.g. a condition routed the other way), with the outputs they did receive
+   */
+  private async flushPendingJoins(
+    workflow: WorkflowDefinition,
+    context: ExecutionContext,
+    run: WorkflowRun
+  ): Promise<void> {
+    for (;;) {
+      const pending = [...context.joinArrivals].find(
+        ([, state]) => !state.fired && state.outputs.size > 0
+      );
+      if (!pending || context.failed || context.stopRequested) {
+        return;
+      }
+
+      const [nodeId, state] = pending;
+      this.logger.info('Join node running with the branches that arrived', {
+        nodeId,
+        arrived: state.outputs.size,
+      });
+      state.forced = true;
+      await this.executeFromNode(workflow, nodeId, context, run);
     }
   }
 
@@ -322,7 +1141,8 @@ export class WorkflowExecutor {
     workflow: WorkflowDefinition,
     node: WorkflowNode,
     input: unknown,
-    context: ExecutionContext
+    context: ExecutionContext,
+    visitCount = 1
   ): Promise<StepResult> {
     const result: StepResult = {
       nodeId: node.id,
@@ -350,11 +1170,41 @@ export class WorkflowExecutor {
           output = await this.conditionRunner.run(node, input, context);
           break;
 
+        case 'file':
+          output = await this.fileRunner.run(node, input);
+          break;
+
+        case 'join':
+          // Joins pass the combined branch outputs straight through
+          output = input;
+          break;
+
+        case 'approval': {
+          const outcome = await this.approvalRunner.run(node, input, context, visitCount);
+          result.reviewNote = outcome.notePath;
+          result.decision = outcome.decision;
+          output = outcome.output;
+          break;
+        }
+
+        case 'workflow': {
+          const childRun = await this.subWorkflowRunner.run(node, input, context);
+          result.childRun = { workflowId: childRun.workflowId, runId: childRun.id };
+          if (childRun.status !== 'completed') {
+            throw new Error(
+              `Sub-workflow ${childRun.workflowId} ${childRun.status}${childRun.error ? `: ${childRun.error}` : ''}`
+            );
+          }
+          output = childRun.output;
+          break;
+        }
+
         default:
           throw new Error(`Unknown step type: ${String(node.type)}`);
       }
 
-      result.status = 'completed';
+      // Approval steps wait until the reviewer decides
+      result.status = node.type === 'approval' && !result.decision ? 'waiting' : 'completed';
       result.output = output;
     } catch (error) {
       result.status = 'failed';
@@ -446,10 +1296,10 @@ export class WorkflowExecutor {
       return edge ? context.stepOutputs.get(edge.source) : context.input;
     }
 
-    // Condition + code nodes: even with multiple incoming edges (common in loops),
+    // Condition, code, file + approval nodes: even with multiple incoming edges (common in loops),
     // we want to use the most recent upstream value, not a merged object keyed by node ids.
     // This keeps code/expressions simple (e.g. input.results, input.score) and makes loops intuitive.
-    if (node.type === 'condition' || node.type === 'code') {
+    if (MOST_RECENT_INPUT_TYPES.has(node.type)) {
       return this.getMostRecentInput(incomingEdges, context);
     }
 
@@ -458,7 +1308,7 @@ export class WorkflowExecutor {
   }
 
   /**
-   * Get the most recent output from incoming edges (for condition/code nodes)
+   * Get the most recent output from incoming edges (for condition/code/file/approval nodes)
    */
   private getMostRecentInput(incomingEdges: WorkflowEdge[], context: ExecutionContext): unknown {
     const stepOutputKeys = Array.from(context.stepOutputs.keys());
@@ -500,23 +1350,38 @@ export class WorkflowExecutor {
   private getNextNodes(
     workflow: WorkflowDefinition,
     node: WorkflowNode,
-    output: unknown
+    result: StepResult
   ): string[] {
-    const outgoingEdges = workflow.edges.filter((e) => e.source === node.id);
+    // Error edges are only followed from a failed step whose policy is "branch"
+    if (result.errorHandled === 'branch') {
+      return workflow.edges
+        .filter((e) => e.source === node.id && e.sourceHandle === ERROR_HANDLE)
+        .map((e) => e.target);
+    }
+
+    const outgoingEdges = workflow.edges.filter(
+      (e) => e.source === node.id && e.sourceHandle !== ERROR_HANDLE
+    );
 
     if (outgoingEdges.length === 0) {
       return [];
     }
 
     // For condition nodes, filter by sourceHandle (the source of truth for which port the edge comes from)
+    // A condition that failed with the "continue" policy has output null and takes the false branch
     if (node.type === 'condition') {
-      const conditionResult = Boolean(output);
+      const conditionResult = Boolean(result.output);
       const expectedHandle = conditionResult ? 'true' : 'false';
       // Use sourceHandle as the source of truth - it indicates which output port (true/false) the edge comes from
       const matchingEdges = outgoingEdges.filter((e) => e.sourceHandle === expectedHandle);
       return matchingEdges.map((e) => e.target);
     }
 
+    // Approval steps follow the edge for the reviewer's decision
+    if (node.type === 'approval') {
+      return outgoingEdges.filter((e) => e.sourceHandle === result.decision).map((e) => e.target);
+    }
+
     // For other nodes, return all targets
     return outgoingEdges.map((e) => e.target);
   }
@@ -544,9 +1409,35 @@ export class WorkflowExecutor {
   }
 
   /**
-   * Save workflow run
+   * Load a saved workflow run
+   */
+  private loadRun(workflowId: string, runId: string): WorkflowRun | null {
+    const path = join(this.vaultPath, WORKFLOW_RUNS_DIR, workflowId, `${runId}.json`);
+
+    if (!existsSync(path)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(readFileSync(path, 'utf-8')) as WorkflowRun;
+    } catch (error) {
+      this.logger.warn('Failed to load workflow run', {
+        workflowId,
+        runId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Save workflow run, with a checkpoint of the context while it can still be resumed
    */
-  private saveRun(run: WorkflowRun): void {
+  private saveRun(run: WorkflowRun, context?: ExecutionContext): void {
+    if (context) {
+      run.checkpoint = run.status === 'completed' ? undefined : this.createCheckpoint(context);
+    }
+
     const runsDir = join(this.vaultPath, WORKFLOW_RUNS_DIR, run.workflowId);
 
     // Ensure directory exists
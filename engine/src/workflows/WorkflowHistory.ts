@@ -0,0 +1,95 @@
+/**
+ * Workflow history
+ * Saves workflow definitions with a new version and keeps each version in .spark/workflows/.history/{id}/
+ *
+ * The plugin saves editor changes the same way; the engine saves generated workflows.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  unlinkSync,
+  writeFileSync,
+} from 'node:fs';
+import { join } from 'node:path';
+import type { WorkflowDefinition, WorkflowHistoryEntry, WorkflowHistorySource } from './types.js';
+
+const WORKFLOWS_DIR = '.spark/workflows';
+export const WORKFLOW_HISTORY_DIR = '.spark/workflows/.history';
+
+// Versions kept per workflow; the oldest are dropped first
+export const MAX_HISTORY_ENTRIES = 100;
+
+/**
+ * Save a workflow as its next version and record it in the history
+ * The version saved before is recorded too if the history doesn't have it yet (e.g. workflows
+ * saved before history existed), so it can be restored.
+ */
+export function saveWorkflowVersion(
+  vaultPath: string,
+  workflow: WorkflowDefinition,
+  source: WorkflowHistorySource
+): WorkflowDefinition {
+  const path = join(vaultPath, WORKFLOWS_DIR, `${workflow.id}.json`);
+  const historyDir = join(vaultPath, WORKFLOW_HISTORY_DIR, workflow.id);
+  mkdirSync(historyDir, { recursive: true });
+
+  const previous = readWorkflow(path);
+  const versions = listVersions(historyDir);
+  if (previous && !versions.includes(previous.version)) {
+    writeEntry(historyDir, {
+      version: previous.version,
+      savedAt: previous.updated,
+      source: 'editor',
+      workflow: previous,
+    });
+    versions.push(previous.version);
+  }
+
+  const saved: WorkflowDefinition = {
+    ...workflow,
+    version: Math.max(0, previous?.version ?? 0, ...versions) + 1,
+    updated: new Date().toISOString(),
+  };
+  writeFileSync(path, JSON.stringify(saved, null, 2));
+  writeEntry(historyDir, {
+    version: saved.version,
+    savedAt: saved.updated,
+    source,
+    workflow: saved,
+  });
+  pruneHistory(historyDir, [...versions, saved.version]);
+
+  return saved;
+}
+
+function readWorkflow(path: string): WorkflowDefinition | null {
+  if (!existsSync(path)) {
+    return null;
+  }
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as WorkflowDefinition;
+  } catch {
+    return null;
+  }
+}
+
+function listVersions(historyDir: string): number[] {
+  return readdirSync(historyDir)
+    .map((file) => /^(\d+)\.json$/.exec(file)?.[1])
+    .filter((version): version is string => version !== undefined)
+    .map(Number);
+}
+
+function writeEntry(historyDir: string, entry: WorkflowHistoryEntry): void {
+  writeFileSync(join(historyDir, `${entry.version}.json`), JSON.stringify(entry, null, 2));
+}
+
+function pruneHistory(historyDir: string, versions: number[]): void {
+  const sorted = [...versions].sort((a, b) => a - b);
+  for (const version of sorted.slice(0, Math.max(0, sorted.length - MAX_HISTORY_ENTRIES))) {
+    unlinkSync(join(historyDir, `${version}.json`));
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Workflow run inputs
+ * Checks a run's input against the workflow's input fields, filling in defaults
+ *
+ * File and folder values must exist in the vault (outside hidden folders) and agent
+ * values must name a file in .spark/agents/. The plugin checks the same before queueing.
+ */
+
+import { existsSync, statSync } from 'node:fs';
+import { isAbsolute, join, normalize, sep } from 'node:path';
+import type { WorkflowInputField } from './types.js';
+
+export interface WorkflowInputCheck {
+  /** The input with defaults filled in and numbers parsed */
+  input: Record<string, unknown>;
+  errors: string[];
+}
+
+/**
+ * Check a run input against input fields
+ * Values for fields the workflow doesn't declare are passed on as they are
+ */
+export function validateWorkflowInput(
+  vaultPath: string,
+  fields: WorkflowInputField[],
+  input: unknown
+): WorkflowInputCheck {
+  if (
+    input !== undefined &&
+    input !== null &&
+    (typeof input !== 'object' || Array.isArray(input))
+  ) {
+    return { input: {}, errors: ['Run input must be an object with a value per input field'] };
+  }
+
+  const values: Record<string, unknown> = { ...(input as Record<string, unknown> | undefined) };
+  const errors: string[] = [];
+
+  for (const field of fields) {
+    const value = values[field.name] ?? field.default;
+    const name = field.label || field.name;
+
+    if (isEmpty(value)) {
+      delete values[field.name];
+      if (field.required) {
+        errors.push(`${name} is required`);
+      }
+      continue;
+    }
+
+    const checked = checkValue(vaultPath, field, value);
+    if ('error' in checked) {
+      errors.push(`${name} ${checked.error}`);
+    } else {
+      values[field.name] = checked.value;
+    }
+  }
+
+  return { input: values, errors };
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && !value.trim());
+}
+
+function checkValue(
+  vaultPath: string,
+  field: WorkflowInputField,
+  value: unknown
+): { value: unknown } | { error: string } {
+  switch (field.type) {
+    case 'number': {
+      const parsed = typeof value === 'number' ? value : Number(String(value).trim());
+      return Number.isFinite(parsed) ? { value: parsed } : { error: 'must be a number' };
+    }
+    case 'enum':
+      return field.options?.includes(String(value))
+        ? { value: String(value) }
+        : { error: `must be one of: ${(field.options ?? []).join(', ')}` };
+    case 'file':
+    case 'folder':
+      return checkVaultPath(vaultPath, String(value).trim(), field.type);
+    case 'agent': {
+      const agent = String(value).trim().replace(/^@/, '');
+      return /^[\w-]+$/.test(agent) &&
+        existsSync(join(vaultPath, '.spark', 'agents', `${agent}.md`))
+        ? { value: agent }
+        : { error: `must be an agent in .spark/agents (got ${String(value)})` };
+    }
+    default:
+      return { value: String(value) };
+  }
+}
+
+/**
+ * Vault-relative path of an existing note or folder
+ */
+function checkVaultPath(
+  vaultPath: string,
+  value: string,
+  type: 'file' | 'folder'
+): { value: string } | { error: string } {
+  const path = normalize(value.replace(/^\/+|\/+$/g, ''));
+  const topFolder = path.split(sep)[0] ?? '';
+  if (isAbsolute(path) || path.startsWith('..') || topFolder.startsWith('.')) {
+    return { error: `must be a ${type} in the vault (got ${value})` };
+  }
+
+  const absolute = join(vaultPath, path);
+  const exists = existsSync(absolute);
+  const isFolder = exists && statSync(absolute).isDirectory();
+  if (!exists || isFolder !== (type === 'folder')) {
+    return { error: `must be an existing ${type} in the vault (got ${value})` };
+  }
+  return { value: path.split(sep).join('/') };
+}
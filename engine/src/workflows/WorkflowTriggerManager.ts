@@ -0,0 +1,452 @@
+/**
+ * WorkflowTriggerManager - Starts workflow runs from schedules and vault events
+ *
+ * Triggers are stored on the workflow definition (.spark/workflows/{id}.json).
+ * Firing a trigger writes a queue item to .spark/workflow-queue/, exactly like
+ * pressing Run in the plugin, with the triggering note as the run input.
+ * Next scheduled runs are written to .spark/workflow-runs/schedule.json for the UI.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  unlinkSync,
+  writeFileSync,
+} from 'node:fs';
+import { join } from 'node:path';
+import type { FSWatcher } from 'chokidar';
+import chokidar from 'chokidar';
+import type { Logger } from '../logger/Logger.js';
+import type { FrontmatterParser } from '../parser/FrontmatterParser.js';
+import { primeFrontmatterCache } from '../triggers/TriggerManager.js';
+import { TriggerMatcher } from '../triggers/TriggerMatcher.js';
+import type { FileChange, FrontmatterChange } from '../types/watcher.js';
+import { type CronSchedule, nextCronTime, parseCron } from './cron.js';
+import type {
+  ScheduleTrigger,
+  WorkflowDefinition,
+  WorkflowQueueItem,
+  WorkflowRun,
+  WorkflowScheduleIndex,
+  WorkflowTrigger,
+  WorkflowTriggerInput,
+} from './types.js';
+
+const WORKFLOWS_DIR = '.spark/workflows';
+const WORKFLOW_RUNS_DIR = '.spark/workflow-runs';
+const WORKFLOW_QUEUE_DIR = '.spark/workflow-queue';
+const SCHEDULE_FILENAME = 'schedule.json';
+const SCHEDULE_TMP_FILENAME = 'schedule.json.tmp';
+
+/**
+ * How often due schedules are checked
+ */
+const SCHEDULE_TICK_MS = 30_000;
+
+/**
+ * A workflow often edits notes in the folder it watches; changes made while its
+ * triggered run is still going (or just after) must not start it again.
+ */
+const TRIGGER_COOLDOWN_MS = 5000;
+
+interface ScheduledEntry {
+  workflowId: string;
+  trigger: ScheduleTrigger;
+  schedule: CronSchedule | null;
+  nextRun: number | null;
+  error?: string;
+}
+
+interface EventEntry {
+  workflowId: string;
+  trigger: Exclude<WorkflowTrigger, ScheduleTrigger>;
+}
+
+/**
+ * Tags from a frontmatter value (list or comma/space separated string), without "#"
+ */
+function normalizeTags(value: unknown): string[] {
+  const raw = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,\s]+/) : [];
+  return raw
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map((tag) => tag.trim().replace(/^#/, '').toLowerCase())
+    .filter(Boolean);
+}
+
+export class WorkflowTriggerManager {
+  private matcher = new TriggerMatcher();
+  private schedules: ScheduledEntry[] = [];
+  private events: EventEntry[] = [];
+  private timer?: NodeJS.Timeout;
+  private watcher?: FSWatcher;
+  /** Last run queued per workflow trigger and note, for loop suppression */
+  private lastRunIds: Map<string, string> = new Map();
+
+  constructor(
+    private vaultPath: string,
+    private frontmatterParser: FrontmatterParser,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Load triggers, start the schedule timer and watch workflow definitions
+   */
+  async start(): Promise<void> {
+    await this.reload();
+    this.timer = setInterval(() => this.runDueSchedules(), SCHEDULE_TICK_MS);
+    this.timer.unref();
+    this.startWatcher();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    if (this.watcher) {
+      await this.watcher.close();
+      this.watcher = undefined;
+    }
+  }
+
+  /**
+   * Re-read triggers from all workflow definitions
+   * Next runs of schedules that did not change are kept
+   */
+  async reload(now = Date.now()): Promise<void> {
+    const previous = new Map(this.schedules.map((s) => [this.scheduleKey(s), s]));
+    this.schedules = [];
+    this.events = [];
+
+    for (const workflow of this.loadWorkflows()) {
+      for (const trigger of workflow.triggers ?? []) {
+        if (trigger.enabled === false) {
+          continue;
+        }
+        if (trigger.type === 'schedule') {
+          const entry = this.createScheduleEntry(workflow.id, trigger, now);
+          const existing = previous.get(this.scheduleKey(entry));
+          this.schedules.push(existing ?? entry);
+        } else {
+          this.events.push({ workflowId: workflow.id, trigger });
+        }
+      }
+    }
+
+    this.logger.info('Workflow triggers loaded', {
+      schedules: this.schedules.length,
+      events: this.events.length,
+    });
+
+    const frontmatterFolders = this.events
+      .filter((e) => e.trigger.type === 'frontmatter_changed' || e.trigger.type === 'tag_added')
+      .map((e) => e.trigger.folder);
+    await primeFrontmatterCache(
+      this.vaultPath,
+      frontmatterFolders,
+      this.frontmatterParser,
+      this.logger
+    );
+
+    this.writeScheduleIndex();
+  }
+
+  /**
+   * Queue runs for schedules that are due; returns the run ids queued
+   */
+  runDueSchedules(now = Date.now()): string[] {
+    const queued: string[] = [];
+
+    for (const entry of this.schedules) {
+      if (entry.nextRun === null || entry.nextRun > now) {
+        continue;
+      }
+
+      const input: WorkflowTriggerInput = {
+        trigger: 'schedule',
+        triggerId: entry.trigger.id,
+        scheduledAt: new Date(entry.nextRun).toISOString(),
+      };
+      queued.push(this.enqueue(entry.workflowId, entry.trigger, input));
+      // Runs missed while the engine was down are not caught up
+      entry.nextRun = entry.schedule ? nextCronTime(entry.schedule, now) : null;
+    }
+
+    if (queued.length > 0) {
+      this.writeScheduleIndex();
+    }
+    return queued;
+  }
+
+  /**
+   * Queue runs for event triggers matching a note change; returns the run ids queued
+   */
+  handleChange(
+    change: FileChange,
+    frontmatterChanges: FrontmatterChange[],
+    content?: string
+  ): string[] {
+    const queued: string[] = [];
+
+    for (const { workflowId, trigger } of this.events) {
+      const input = this.matchEvent(trigger, change, frontmatterChanges, content);
+      if (!input) {
+        continue;
+      }
+
+      const key = `${workflowId}::${trigger.id}::${change.path}`;
+      if (this.isSuppressed(workflowId, key)) {
+        this.logger.debug('Workflow trigger suppressed while its run is active', {
+          workflowId,
+          trigger: trigger.id,
+          file: change.path,
+        });
+        continue;
+      }
+
+      const runId = this.enqueue(workflowId, trigger, input);
+      this.lastRunIds.set(key, runId);
+      queued.push(runId);
+    }
+
+    if (queued.length > 0) {
+      this.logger.info(`Queued ${queued.length} triggered workflow run(s)`, {
+        file: change.path,
+        runs: queued,
+      });
+    }
+    return queued;
+  }
+
+  /**
+   * Next scheduled run per workflow
+   */
+  getScheduleIndex(): WorkflowScheduleIndex {
+    const workflows: WorkflowScheduleIndex['workflows'] = {};
+    for (const entry of this.schedules) {
+      const current = workflows[entry.workflowId] ?? { nextRun: null };
+      if (entry.nextRun !== null && (current.nextRun === null || entry.nextRun < current.nextRun)) {
+        current.nextRun = entry.nextRun;
+      }
+      if (entry.error) {
+        current.error = entry.error;
+      }
+      workflows[entry.workflowId] = current;
+    }
+    return { version: 1, updatedAt: Date.now(), workflows };
+  }
+
+  private matchEvent(
+    trigger: EventEntry['trigger'],
+    change: FileChange,
+    frontmatterChanges: FrontmatterChange[],
+    content: string | undefined
+  ): WorkflowTriggerInput | null {
+    if (!change.path.endsWith('.md')) {
+      return null;
+    }
+    const pattern =
+      trigger.type === 'file_created' || trigger.type === 'file_modified'
+        ? trigger.pattern
+        : undefined;
+    if (
+      !this.matcher.matchesLocation({ watch: { directory: trigger.folder, pattern } }, change.path)
+    ) {
+      return null;
+    }
+
+    const base = { triggerId: trigger.id, file: change.path };
+    switch (trigger.type) {
+      case 'file_created':
+      case 'file_modified': {
+        const expected = trigger.type === 'file_created' ? 'add' : 'change';
+        if (change.type !== expected) {
+          return null;
+        }
+        return { ...base, trigger: trigger.type, content };
+      }
+
+      case 'frontmatter_changed': {
+        const match = this.matcher.findFrontmatterChange(
+          {
+            watch: {
+              directory: trigger.folder,
+              frontmatter_field: trigger.field,
+              from_value: trigger.from,
+              to_value: trigger.to,
+            },
+          },
+          frontmatterChanges
+        );
+        if (!match) {
+          return null;
+        }
+        return {
+          ...base,
+          trigger: trigger.type,
+          content,
+          frontmatter: { field: match.field, oldValue: match.oldValue, newValue: match.newValue },
+        };
+      }
+
+      case 'tag_added': {
+        const tag = trigger.tag.replace(/^#/, '').toLowerCase();
+        const added = frontmatterChanges.some(
+          (fm) =>
+            (fm.field === 'tags' || fm.field === 'tag') &&
+            normalizeTags(fm.newValue).includes(tag) &&
+            !normalizeTags(fm.oldValue).includes(tag)
+        );
+        return added ? { ...base, trigger: trigger.type, content, tag } : null;
+      }
+    }
+  }
+
+  /**
+   * Whether the last run this trigger queued for the note is pending, running or just ended
+   */
+  private isSuppressed(workflowId: string, key: string): boolean {
+    const runId = this.lastRunIds.get(key);
+    if (!runId) {
+      return false;
+    }
+    if (existsSync(join(this.vaultPath, WORKFLOW_QUEUE_DIR, `${runId}.json`))) {
+      return true;
+    }
+
+    const runPath = join(this.vaultPath, WORKFLOW_RUNS_DIR, workflowId, `${runId}.json`);
+    try {
+      const run = JSON.parse(readFileSync(runPath, 'utf-8')) as WorkflowRun;
+      return run.endTime === undefined || Date.now() - run.endTime < TRIGGER_COOLDOWN_MS;
+    } catch {
+      return false;
+    }
+  }
+
+  private enqueue(
+    workflowId: string,
+    trigger: WorkflowTrigger,
+    input: WorkflowTriggerInput
+  ): string {
+    const runId = `run_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 11)}`;
+    const queueItem: WorkflowQueueItem = {
+      workflowId,
+      runId,
+      status: 'pending',
+      input,
+      timestamp: Date.now(),
+      trigger: { id: trigger.id, type: trigger.type },
+    };
+
+    const queueDir = join(this.vaultPath, WORKFLOW_QUEUE_DIR);
+    mkdirSync(queueDir, { recursive: true });
+    writeFileSync(join(queueDir, `${runId}.json`), JSON.stringify(queueItem, null, 2));
+
+    this.logger.info('Workflow run queued by trigger', {
+      workflowId,
+      runId,
+      trigger: trigger.type,
+      file: input.file,
+    });
+    return runId;
+  }
+
+  private createScheduleEntry(
+    workflowId: string,
+    trigger: ScheduleTrigger,
+    now: number
+  ): ScheduledEntry {
+    try {
+      const schedule = parseCron(trigger.cron);
+      return { workflowId, trigger, schedule, nextRun: nextCronTime(schedule, now) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn('Invalid workflow schedule', {
+        workflowId,
+        cron: trigger.cron,
+        error: message,
+      });
+      return { workflowId, trigger, schedule: null, nextRun: null, error: message };
+    }
+  }
+
+  private scheduleKey(entry: ScheduledEntry): string {
+    return `${entry.workflowId}::${entry.trigger.id}::${entry.trigger.cron}`;
+  }
+
+  private loadWorkflows(): WorkflowDefinition[] {
+    const dir = join(this.vaultPath, WORKFLOWS_DIR);
+    if (!existsSync(dir)) {
+      return [];
+    }
+
+    return readdirSync(dir)
+      .filter((file) => file.endsWith('.json'))
+      .flatMap((file) => {
+        try {
+          const workflow = JSON.parse(readFileSync(join(dir, file), 'utf-8')) as WorkflowDefinition;
+          return Array.isArray(workflow.triggers) ? [workflow] : [];
+        } catch (error) {
+          this.logger.warn('Failed to load workflow triggers', {
+            file,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return [];
+        }
+      });
+  }
+
+  private writeScheduleIndex(): void {
+    const dir = join(this.vaultPath, WORKFLOW_RUNS_DIR);
+    try {
+      mkdirSync(dir, { recursive: true });
+      const tmpPath = join(dir, SCHEDULE_TMP_FILENAME);
+      const finalPath = join(dir, SCHEDULE_FILENAME);
+      writeFileSync(tmpPath, JSON.stringify(this.getScheduleIndex(), null, 2));
+      if (existsSync(finalPath)) {
+        unlinkSync(finalPath);
+      }
+      renameSync(tmpPath, finalPath);
+    } catch (error) {
+      this.logger.warn('Failed to write workflow schedule index', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Watch .spark/workflows/ so trigger edits take effect without restarting the engine
+   */
+  private startWatcher(): void {
+    const workflowsPath = join(this.vaultPath, WORKFLOWS_DIR);
+
+    this.watcher = chokidar.watch(workflowsPath, {
+      persistent: true,
+      ignoreInitial: true,
+      // Saved versions in .history/ are not live definitions
+      depth: 0,
+      awaitWriteFinish: {
+        stabilityThreshold: 200,
+        pollInterval: 50,
+      },
+    });
+
+    const onChange = (filePath: string): void => {
+      if (!filePath.endsWith('.json')) {
+        return;
+      }
+      this.logger.debug('Workflow definition changed, reloading triggers', { path: filePath });
+      void this.reload();
+    };
+
+    this.watcher.on('add', onChange);
+    this.watcher.on('change', onChange);
+    this.watcher.on('unlink', onChange);
+    this.watcher.on('error', (error) => {
+      this.logger.error('Workflow trigger watcher error:', { error });
+    });
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Cron expressions for scheduled workflow triggers
+ * Standard 5 fields (minute hour day-of-month month day-of-week) in local time
+ *
+ * Supports *, lists (1,15), ranges (1-5), steps (*\/15, 8-18/2), month and
+ * weekday names (jan, mon) and the @hourly, @daily, @weekly, @monthly macros.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Day-of-month and day-of-week restricted at the same time match either (as in cron) */
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Give up looking for a matching time after this many years (e.g. "0 0 30 2 *")
+ */
+const MAX_SEARCH_YEARS = 5;
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Offset added to a name's index (months are 1-based) */
+  nameOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  // 7 is accepted as Sunday and folded to 0
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+/**
+ * Parse a cron expression; throws with a readable message when it is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim().toLowerCase();
+  const fields = (MACROS[trimmed] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields, got ${fields.length}: "${expression}"`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELDS[i] as FieldSpec)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: !fields[2]?.startsWith('*'),
+    dowRestricted: !fields[4]?.startsWith('*'),
+  };
+}
+
+/**
+ * First matching minute strictly after `after`, or null when none exists
+ */
+export function nextCronTime(schedule: CronSchedule, after: number): number | null {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  while (date <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!dayMatches(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime();
+    }
+  }
+  return null;
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getDate());
+  const dow = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.domRestricted && schedule.dowRestricted) {
+    return dom || dow;
+  }
+  return dom && dow;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range = '', stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}" in ${spec.name} field`);
+    }
+
+    const [start, end] = parseRange(range, stepText !== undefined, spec);
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+function parseRange(range: string, stepped: boolean, spec: FieldSpec): [number, number] {
+  if (range === '*') {
+    return [spec.min, spec.max];
+  }
+
+  if (!range.includes('-')) {
+    const start = parseValue(range, spec);
+    // "5/15" means every 15 starting at 5
+    return [start, stepped ? spec.max : start];
+  }
+
+  const [from = '', to = ''] = range.split('-');
+  const start = parseValue(from, spec);
+  const end = parseValue(to, spec);
+  if (start > end) {
+    throw new Error(`Invalid range "${range}" in ${spec.name} field`);
+  }
+  return [start, end];
+}
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const nameIndex = spec.names?.indexOf(text) ?? -1;
+  const value = nameIndex >= 0 ? nameIndex + (spec.nameOffset ?? 0) : Number(text);
+  if (!text || !Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new Error(`Invalid ${spec.name} "${text}" (allowed ${spec.min}-${spec.max})`);
+  }
+  return value;
+}
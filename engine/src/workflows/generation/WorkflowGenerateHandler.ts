@@ -10,7 +10,10 @@ import { join } from 'node:path';
 import type { Logger } from '../../logger/Logger.js';
 import type { AIProviderFactory } from '../../providers/AIProviderFactory.js';
 import type { AIConfig } from '../../types/config.js';
+import type { IAIProvider } from '../../types/provider.js';
+import type { UsageLedger } from '../../usage/UsageLedger.js';
 import type { WorkflowDefinition } from '../types.js';
+import { saveWorkflowVersion } from '../WorkflowHistory.js';
 import { layoutWorkflow } from './layoutWorkflow.js';
 import type {
   WorkflowGenerateClarificationResponse,
@@ -82,7 +85,10 @@ function isClarificationResponse(value: unknown): value is WorkflowGenerateClari
   return value.questions.every((q) => typeof q === 'string' && q.trim().length > 0);
 }
 
-function buildGenerationPrompt(request: WorkflowGenerateRequest): string {
+function buildGenerationPrompt(
+  request: WorkflowGenerateRequest,
+  workflows: WorkflowDefinition[]
+): string {
   const lines: string[] = [];
 
   lines.push(WORKFLOW_BUILDER_V1_PROMPT, '');
@@ -91,6 +97,14 @@ function buildGenerationPrompt(request: WorkflowGenerateRequest): string {
     lines.push('IMPORTANT: Do NOT use any code nodes. Only prompt and condition nodes.', '');
   }
 
+  if (workflows.length > 0) {
+    lines.push(
+      'Existing workflows (callable from a workflow node by id):',
+      ...workflows.map((w) => `- ${w.id}: ${w.name}${w.description ? ` - ${w.description}` : ''}`),
+      ''
+    );
+  }
+
   lines.push('User prompt:', request.prompt.trim(), '');
 
   if (request.clarifications?.trim()) {
@@ -124,13 +138,24 @@ function writeResultFile(vaultPath: string, result: WorkflowGenerateResult): voi
   writeFileSync(path, JSON.stringify(result, null, 2));
 }
 
-function writeWorkflowFile(vaultPath: string, workflow: WorkflowDefinition): void {
+/**
+ * Saved workflows, for sub-workflow references (unreadable files are skipped)
+ */
+function loadWorkflowFiles(vaultPath: string): WorkflowDefinition[] {
   const workflowsDir = join(vaultPath, WORKFLOWS_DIR);
   if (!existsSync(workflowsDir)) {
-    mkdirSync(workflowsDir, { recursive: true });
+    return [];
   }
-  const path = join(workflowsDir, `${workflow.id}.json`);
-  writeFileSync(path, JSON.stringify(workflow, null, 2));
+
+  return readdirSync(workflowsDir)
+    .filter((file) => file.endsWith('.json'))
+    .flatMap((file) => {
+      try {
+        return [JSON.parse(readFileSync(join(workflowsDir, file), 'utf-8')) as WorkflowDefinition];
+      } catch {
+        return [];
+      }
+    });
 }
 
 export class WorkflowGenerateHandler {
@@ -140,7 +165,8 @@ export class WorkflowGenerateHandler {
     private vaultPath: string,
     private logger: Logger,
     private providerFactory: AIProviderFactory,
-    private aiConfig: AIConfig
+    private aiConfig: AIConfig,
+    private usageLedger?: UsageLedger
   ) {}
 
   isQueueFile(relativePath: string): boolean {
@@ -199,9 +225,16 @@ export class WorkflowGenerateHandler {
 
   private async parseModelJsonOrThrow(
     prompt: string,
-    provider: { complete: (options: { prompt: string }) => Promise<{ content: string }> }
+    provider: IAIProvider
   ): Promise<{ parsed: unknown; rawJson: string }> {
+    this.usageLedger?.checkLimits(undefined, provider.name);
     const result = await provider.complete({ prompt });
+    this.usageLedger?.record(
+      { source: 'workflow_generate' },
+      provider.name,
+      provider.getConfig().model,
+      result.usage
+    );
     const parsed = safeJsonParse(result.content);
     return { parsed, rawJson: JSON.stringify(parsed, null, 2) };
   }
@@ -230,6 +263,7 @@ export class WorkflowGenerateHandler {
     this.writeProgress(request.requestId, 'validating', { message: 'Validating workflow…' });
     const validated = validateAndNormalizeWorkflowDefinition(parsed, {
       allowCode: request.allowCode,
+      workflows: loadWorkflowFiles(this.vaultPath),
     });
     if (!validated.ok) {
       return { ok: false, errors: validated.errors };
@@ -238,7 +272,8 @@ export class WorkflowGenerateHandler {
     this.writeProgress(request.requestId, 'layout', { message: 'Organizing nodes…' });
     const laidOut = layoutWorkflow(validated.workflow, { force: true });
     this.writeProgress(request.requestId, 'writing', { message: 'Saving workflow…' });
-    writeWorkflowFile(this.vaultPath, laidOut);
+    // A generated id can match an existing workflow; the history keeps the version it replaces
+    saveWorkflowVersion(this.vaultPath, laidOut, 'generated');
     writeResultFile(this.vaultPath, {
       requestId: request.requestId,
       status: 'completed',
@@ -309,7 +344,7 @@ export class WorkflowGenerateHandler {
         maxAttempts: DEFAULT_MAX_ATTEMPTS,
         attempt: 1,
       });
-      const initialPrompt = buildGenerationPrompt(request);
+      const initialPrompt = buildGenerationPrompt(request, loadWorkflowFiles(this.vaultPath));
       const initial = await this.parseModelJsonOrThrow(initialPrompt, provider);
       this.logger.debug('[WorkflowGenerate] Initial model response parsed', {
         requestId: request.requestId,
@@ -1,4 +1,12 @@
-import type { WorkflowDefinition, WorkflowEdge, WorkflowNode } from '../types.js';
+import { ERROR_HANDLE, POLICY_STEP_TYPES } from '../StepPolicy.js';
+import type {
+  FileOperation,
+  StepErrorMode,
+  StepPolicy,
+  WorkflowDefinition,
+  WorkflowEdge,
+  WorkflowNode,
+} from '../types.js';
 
 type Ok = { ok: true; workflow: WorkflowDefinition; warnings: string[] };
 type Err = { ok: false; errors: string[] };
@@ -105,12 +113,35 @@ function warnIfInvalidPosition(rawPosition: unknown, nodeId: string, warnings: s
   }
 }
 
-type EngineWorkflowNodeType = 'prompt' | 'code' | 'condition';
+type EngineWorkflowNodeType =
+  | 'prompt'
+  | 'code'
+  | 'condition'
+  | 'file'
+  | 'join'
+  | 'approval'
+  | 'workflow';
+
+const ENGINE_WORKFLOW_NODE_TYPES: EngineWorkflowNodeType[] = [
+  'prompt',
+  'code',
+  'condition',
+  'file',
+  'join',
+  'approval',
+  'workflow',
+];
 
 function isEngineWorkflowNodeType(value: string | null): value is EngineWorkflowNodeType {
-  return value === 'prompt' || value === 'code' || value === 'condition';
+  return ENGINE_WORKFLOW_NODE_TYPES.includes(value as EngineWorkflowNodeType);
 }
 
+const FILE_OPERATIONS: FileOperation[] = ['read', 'write', 'append', 'frontmatter', 'move'];
+
+const STEP_ERROR_MODES: StepErrorMode[] = ['fail', 'continue', 'branch'];
+
+const STEP_POLICY_NUMBERS = ['maxRetries', 'retryDelayMs', 'timeoutMs'] as const;
+
 type NodeBase = {
   nodeId: string;
   type: EngineWorkflowNodeType;
@@ -165,6 +196,38 @@ function parseNodeBase(
   return { nodeId, type: typeRaw, position, data: raw.data, label };
 }
 
+function normalizeStepPolicy(base: NodeBase, errors: string[]): StepPolicy | undefined {
+  const raw = base.data.policy;
+  if (raw === undefined) return undefined;
+  if (!isRecord(raw)) {
+    errors.push(`Node ${base.nodeId} data.policy must be an object.`);
+    return undefined;
+  }
+
+  const policy: StepPolicy = {};
+  for (const field of STEP_POLICY_NUMBERS) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (isFiniteNumber(value) && value >= 0) {
+      policy[field] = value;
+    } else {
+      errors.push(`Node ${base.nodeId} data.policy.${field} must be a non-negative number.`);
+    }
+  }
+
+  if (raw.onError !== undefined) {
+    if (STEP_ERROR_MODES.includes(raw.onError as StepErrorMode)) {
+      policy.onError = raw.onError as StepErrorMode;
+    } else {
+      errors.push(
+        `Node ${base.nodeId} data.policy.onError must be "fail", "continue" or "branch".`
+      );
+    }
+  }
+
+  return Object.keys(policy).length > 0 ? policy : undefined;
+}
+
 function normalizePromptNode(base: NodeBase, errors: string[]): WorkflowNode | null {
   const prompt = normalizeString(base.data.prompt);
   if (!prompt) {
@@ -216,6 +279,7 @@ function normalizePromptNode(base: NodeBase, errors: string[]): WorkflowNode | n
       description: normalizeString(base.data.description) ?? undefined,
       structuredOutput: structuredOutput ? true : undefined,
       outputSchema,
+      policy: normalizeStepPolicy(base, errors),
     },
   };
 }
@@ -236,6 +300,7 @@ function normalizeCodeNode(base: NodeBase, errors: string[]): WorkflowNode | nul
       label: base.label,
       code,
       description: normalizeString(base.data.description) ?? undefined,
+      policy: normalizeStepPolicy(base, errors),
     },
   };
 }
@@ -262,26 +327,190 @@ function normalizeConditionNode(base: NodeBase, errors: string[]): WorkflowNode
       expression,
       maxCycles,
       description: normalizeString(base.data.description) ?? undefined,
+      policy: normalizeStepPolicy(base, errors),
     },
   };
 }
 
-function normalizeNodeByType(
+function normalizeFileFields(value: unknown): Record<string, string> | undefined {
+  if (!isRecord(value)) return undefined;
+  const fields: Record<string, string> = {};
+  for (const [key, raw] of Object.entries(value)) {
+    if (!key.trim() || raw === null || raw === undefined) continue;
+    fields[key] = typeof raw === 'string' ? raw : JSON.stringify(raw);
+  }
+  return Object.keys(fields).length > 0 ? fields : undefined;
+}
+
+function validateFileOperationFields(
   base: NodeBase,
+  operation: FileOperation,
+  fields: Record<string, string> | undefined,
   errors: string[]
-): { node: WorkflowNode; isCondition: boolean } | null {
-  if (base.type === 'prompt') {
-    const node = normalizePromptNode(base, errors);
-    return node ? { node, isCondition: false } : null;
+): boolean {
+  if (operation === 'move' && !normalizeString(base.data.destination)) {
+    errors.push(`File node ${base.nodeId} (move) missing data.destination.`);
+    return false;
+  }
+  if (operation === 'frontmatter' && !fields) {
+    errors.push(`File node ${base.nodeId} (frontmatter) missing data.fields.`);
+    return false;
+  }
+  if (operation === 'append' && !normalizeString(base.data.content)) {
+    errors.push(`File node ${base.nodeId} (append) missing data.content.`);
+    return false;
+  }
+  return true;
+}
+
+function normalizeFileNode(base: NodeBase, errors: string[]): WorkflowNode | null {
+  const operation = normalizeString(base.data.operation) as FileOperation | null;
+  if (!operation || !FILE_OPERATIONS.includes(operation)) {
+    errors.push(
+      `File node ${base.nodeId} data.operation must be one of: ${FILE_OPERATIONS.join(', ')}.`
+    );
+    return null;
+  }
+
+  const path = normalizeString(base.data.path);
+  if (!path) {
+    errors.push(`File node ${base.nodeId} missing data.path.`);
+    return null;
+  }
+
+  const fields = normalizeFileFields(base.data.fields);
+  if (!validateFileOperationFields(base, operation, fields, errors)) return null;
+
+  return {
+    id: base.nodeId,
+    type: 'file',
+    position: base.position,
+    data: {
+      type: 'file',
+      label: base.label,
+      operation,
+      path,
+      content: normalizeString(base.data.content) ?? undefined,
+      template: normalizeString(base.data.template) ?? undefined,
+      overwrite: base.data.overwrite === true ? true : undefined,
+      heading: normalizeString(base.data.heading) ?? undefined,
+      fields,
+      destination: normalizeString(base.data.destination) ?? undefined,
+      description: normalizeString(base.data.description) ?? undefined,
+    },
+  };
+}
+
+function normalizeJoinNode(
+  base: NodeBase,
+  errors: string[],
+  warnings: string[]
+): WorkflowNode | null {
+  const modeRaw = normalizeString(base.data.mode);
+  if (modeRaw !== null && modeRaw !== 'all' && modeRaw !== 'any') {
+    errors.push(`Join node ${base.nodeId} data.mode must be "all" or "any".`);
+    return null;
+  }
+  if (modeRaw === null) warnings.push(`Join node ${base.nodeId} missing mode; defaulted to "all".`);
+
+  const mode = modeRaw ?? 'all';
+  const count = base.data.count;
+  if (
+    mode === 'any' &&
+    count !== undefined &&
+    (!Number.isInteger(count) || (count as number) < 1)
+  ) {
+    errors.push(`Join node ${base.nodeId} data.count must be a positive integer.`);
+    return null;
+  }
+
+  return {
+    id: base.nodeId,
+    type: 'join',
+    position: base.position,
+    data: {
+      type: 'join',
+      label: base.label,
+      mode,
+      count: mode === 'any' && count !== undefined ? (count as number) : undefined,
+      description: normalizeString(base.data.description) ?? undefined,
+    },
+  };
+}
+
+function normalizeApprovalNode(base: NodeBase): WorkflowNode {
+  return {
+    id: base.nodeId,
+    type: 'approval',
+    position: base.position,
+    data: {
+      type: 'approval',
+      label: base.label,
+      instructions: normalizeString(base.data.instructions) ?? undefined,
+      folder: normalizeString(base.data.folder) ?? undefined,
+      description: normalizeString(base.data.description) ?? undefined,
+    },
+  };
+}
+
+function normalizeSubWorkflowNode(base: NodeBase, errors: string[]): WorkflowNode | null {
+  const workflowId = normalizeString(base.data.workflowId);
+  if (!workflowId) {
+    errors.push(`Workflow node ${base.nodeId} missing data.workflowId.`);
+    return null;
   }
 
-  if (base.type === 'code') {
-    const node = normalizeCodeNode(base, errors);
-    return node ? { node, isCondition: false } : null;
+  return {
+    id: base.nodeId,
+    type: 'workflow',
+    position: base.position,
+    data: {
+      type: 'workflow',
+      label: base.label,
+      workflowId: workflowId.trim(),
+      inputMapping: normalizeString(base.data.inputMapping) ?? undefined,
+      description: normalizeString(base.data.description) ?? undefined,
+    },
+  };
+}
+
+function normalizeNodeByType(
+  base: NodeBase,
+  errors: string[],
+  warnings: string[]
+): { node: WorkflowNode; isCondition: boolean } | null {
+  const node = normalizeNodeData(base, errors, warnings);
+  return node ? { node, isCondition: base.type === 'condition' } : null;
+}
+
+function normalizeNodeData(
+  base: NodeBase,
+  errors: string[],
+  warnings: string[]
+): WorkflowNode | null {
+  if (base.data.policy !== undefined && !POLICY_STEP_TYPES.includes(base.type)) {
+    errors.push(
+      `Node ${base.nodeId} data.policy is only supported on prompt, code and condition nodes.`
+    );
+    return null;
   }
 
-  const node = normalizeConditionNode(base, errors);
-  return node ? { node, isCondition: true } : null;
+  switch (base.type) {
+    case 'prompt':
+      return normalizePromptNode(base, errors);
+    case 'code':
+      return normalizeCodeNode(base, errors);
+    case 'file':
+      return normalizeFileNode(base, errors);
+    case 'join':
+      return normalizeJoinNode(base, errors, warnings);
+    case 'approval':
+      return normalizeApprovalNode(base);
+    case 'workflow':
+      return normalizeSubWorkflowNode(base, errors);
+    default:
+      return normalizeConditionNode(base, errors);
+  }
 }
 
 function normalizeNodes(
@@ -303,7 +532,7 @@ function normalizeNodes(
     const base = parseNodeBase(raw, options, nodeIds, errors, warnings);
     if (!base) continue;
 
-    const normalized = normalizeNodeByType(base, errors);
+    const normalized = normalizeNodeByType(base, errors, warnings);
     if (!normalized) continue;
 
     if (normalized.isCondition) conditionNodeIds.add(base.nodeId);
@@ -391,6 +620,112 @@ function normalizeEdges(
   return edges;
 }
 
+function validateJoinIncoming(
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[],
+  errors: string[]
+): void {
+  for (const node of nodes) {
+    if (node.type !== 'join') continue;
+    const incoming = edges.filter((e) => e.target === node.id).length;
+    if (incoming < 2) {
+      errors.push(`Join node ${node.id} needs at least 2 incoming edges (has ${incoming}).`);
+    }
+  }
+}
+
+function validateApprovalRouting(
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[],
+  errors: string[]
+): void {
+  for (const node of nodes) {
+    if (node.type !== 'approval') continue;
+    for (const e of edges) {
+      if (e.source !== node.id) continue;
+      if (e.sourceHandle !== 'approved' && e.sourceHandle !== 'rejected') {
+        errors.push(
+          `Approval node ${node.id} outgoing edge ${e.id} must set sourceHandle to "approved" or "rejected".`
+        );
+      }
+    }
+  }
+}
+
+function validateErrorEdges(
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[],
+  errors: string[],
+  warnings: string[]
+): void {
+  for (const node of nodes) {
+    const branches = 'policy' in node.data && node.data.policy?.onError === 'branch';
+    const errorEdges = edges.filter((e) => e.source === node.id && e.sourceHandle === ERROR_HANDLE);
+    if (errorEdges.length > 0 && !branches) {
+      errors.push(
+        `Node ${node.id} has an "${ERROR_HANDLE}" edge but its data.policy.onError is not "branch".`
+      );
+    }
+    if (branches && errorEdges.length === 0) {
+      warnings.push(
+        `Node ${node.id} has data.policy.onError "branch" but no "${ERROR_HANDLE}" edge; a failure ends its branch.`
+      );
+    }
+  }
+}
+
+function subWorkflowIds(nodes: WorkflowNode[]): string[] {
+  return nodes.flatMap((n) => (n.data.type === 'workflow' ? [n.data.workflowId] : []));
+}
+
+/**
+ * Chain of sub-workflow calls leading from one workflow to another, if any
+ */
+function findCallPath(
+  fromId: string,
+  toId: string,
+  workflows: Map<string, WorkflowDefinition>,
+  path: string[],
+  visited: Set<string>
+): string[] | null {
+  const next = [...path, fromId];
+  if (fromId === toId) return next;
+  if (visited.has(fromId)) return null;
+  visited.add(fromId);
+
+  for (const childId of subWorkflowIds(workflows.get(fromId)?.nodes ?? [])) {
+    const found = findCallPath(childId, toId, workflows, next, visited);
+    if (found) return found;
+  }
+  return null;
+}
+
+function validateSubWorkflowReferences(
+  workflowId: string,
+  nodes: WorkflowNode[],
+  existing: WorkflowDefinition[] | undefined,
+  errors: string[]
+): void {
+  // The saved copy of this workflow may be outdated; its nodes come from the input
+  const workflows = new Map(
+    (existing ?? []).filter((w) => w.id !== workflowId).map((w) => [w.id, w])
+  );
+
+  for (const node of nodes) {
+    if (node.data.type !== 'workflow') continue;
+    const targetId = node.data.workflowId;
+    if (existing && targetId !== workflowId && !workflows.has(targetId)) {
+      errors.push(`Workflow node ${node.id} references missing workflow: ${targetId}`);
+      continue;
+    }
+
+    const cycle = findCallPath(targetId, workflowId, workflows, [workflowId], new Set());
+    if (cycle) {
+      errors.push(`Workflow node ${node.id} creates a sub-workflow cycle: ${cycle.join(' → ')}`);
+    }
+  }
+}
+
 function validateEntryPoint(nodes: WorkflowNode[], edges: WorkflowEdge[], errors: string[]): void {
   if (nodes.length === 0) return;
   const targets = new Set(edges.map((e) => e.target));
@@ -442,7 +777,8 @@ function validateConditionRouting(
   errors: string[]
 ): void {
   for (const nodeId of conditionNodeIds) {
-    const outgoing = edges.filter((e) => e.source === nodeId);
+    // Error edges are checked by validateErrorEdges
+    const outgoing = edges.filter((e) => e.source === nodeId && e.sourceHandle !== ERROR_HANDLE);
     if (!validateConditionOutgoingCount(nodeId, outgoing, errors)) continue;
     const { hasTrue, hasFalse } = validateConditionEdgeHandles(nodeId, outgoing, errors);
 
@@ -454,9 +790,13 @@ function validateConditionRouting(
   }
 }
 
+/**
+ * Validate and normalize a workflow definition
+ * Pass the existing workflows to check that sub-workflow steps reference one of them
+ */
 export function validateAndNormalizeWorkflowDefinition(
   input: unknown,
-  options: { allowCode: boolean }
+  options: { allowCode: boolean; workflows?: WorkflowDefinition[] }
 ): Ok | Err {
   const errors: string[] = [];
   const warnings: string[] = [];
@@ -477,6 +817,10 @@ export function validateAndNormalizeWorkflowDefinition(
 
   validateEntryPoint(normalizedNodes.nodes, edges, errors);
   validateConditionRouting(normalizedNodes.conditionNodeIds, edges, errors);
+  validateJoinIncoming(normalizedNodes.nodes, edges, errors);
+  validateApprovalRouting(normalizedNodes.nodes, edges, errors);
+  validateErrorEdges(normalizedNodes.nodes, edges, errors, warnings);
+  validateSubWorkflowReferences(meta.id, normalizedNodes.nodes, options.workflows, errors);
 
   if (errors.length > 0) {
     return { ok: false, errors };
@@ -24,6 +24,10 @@ NODE TYPES ALLOWED:
 - prompt
 - code
 - condition
+- file
+- join
+- approval
+- workflow
 
 NODE DATA RULE:
 - node.data.type MUST equal node.type
@@ -32,9 +36,18 @@ REQUIRED NODE DATA FIELDS:
 - prompt node: data.prompt (string)
 - code node: data.code (string)
 - condition node: data.expression (string) and data.maxCycles (number)
+- file node: data.operation ("read" | "write" | "append" | "frontmatter" | "move") and data.path (string)
+  - write: data.content (string) or data.template (path of a template note); data.overwrite?: boolean
+  - append: data.content (string); data.heading?: string (appends under that heading)
+  - frontmatter: data.fields (object of field name -> string value)
+  - move: data.destination (string; end with "/" to move into a folder)
+- join node: data.mode ("all" | "any"); data.count?: number (branches to wait for in "any" mode, default 1)
+- approval node: no required fields; data.instructions?: string (shown to the reviewer); data.folder?: string (default "Approvals")
+- workflow node: data.workflowId (id of an existing workflow); data.inputMapping?: string (JavaScript expression)
+- prompt, code and condition nodes may set data.policy?: { maxRetries?, retryDelayMs?, timeoutMs?, onError? } (see ERROR HANDLING)
 
 IMPORTANT RUNTIME CONSTRAINTS:
-- Do NOT generate any "action" nodes. Only prompt/code/condition exist at runtime.
+- Do NOT generate any "action" nodes. Only prompt/code/condition/file/join/approval/workflow exist at runtime.
 - Condition routing uses edge.sourceHandle as the source of truth:
   - Outgoing edges from a condition node MUST include sourceHandle: "true" or "false"
   - Do NOT rely on edge.label for routing (label may exist for display only).
@@ -54,6 +67,10 @@ NODE TITLES + DESCRIPTIONS (required for good UX):
   - prompt: label "Generate ideas", description "Generate 5 headline options."
   - code: label "Pick best", description "Select the strongest headline based on constraints."
   - condition: label "More iterations?", description "Continue refining until done or max cycles reached."
+  - file: label "Save summary", description "Write the summary to a note in Summaries/."
+  - join: label "Combine research", description "Wait for all three research branches."
+  - approval: label "Approve draft", description "A person signs off on the email before it is sent."
+  - workflow: label "Summarise and tag", description "Run the shared summarise-and-tag workflow."
 
 RUNTIME VARIABLES (important; do not invent variables):
 - prompt nodes:
@@ -73,6 +90,42 @@ RUNTIME VARIABLES (important; do not invent variables):
     - maxCycles (the node's data.maxCycles)
   - The expression MUST evaluate to a boolean (truthy/falsey).
   - The boolean is ONLY for routing; the payload passed to the next node remains the previous output.
+- file nodes:
+  - Read and change vault notes without an AI call. Prefer them over asking a prompt to write files.
+  - data.path, data.destination, data.content, data.heading and data.fields values may use
+    "$input" (previous output as text) and "$input.field" (a field of the previous output).
+  - Paths are vault-relative ("Projects/Plan.md"); ".md" is added when there is no extension.
+    Paths outside the vault and inside hidden folders (.spark/, .git/, ...) are rejected.
+  - read: data.path is a note, a folder ending in "/", or a glob ("Daily/*.md").
+    Output for a note: { path, content, frontmatter }. For a folder/glob: { files: [{ path, content, frontmatter }], count }.
+  - write/append/frontmatter output the resulting note ({ path, content, frontmatter }); move outputs { from, path }.
+  - A frontmatter value that is exactly "$input" or "$input.field" keeps its type; "3"/"true" become number/boolean.
+
+PARALLEL BRANCHES + JOIN NODES:
+- A node with several outgoing edges (other than a condition) starts all targets at the same time.
+- To continue once the branches are done, connect every branch to ONE join node (at least 2 incoming edges).
+  - mode "all" waits for every branch; mode "any" continues after the first data.count branches.
+  - The join's output is an object keyed by each branch step's label: { "Research A": ..., "Research B": ... }.
+- Without a join, a node with several incoming edges runs once per arriving branch. Use a join instead.
+
+APPROVAL NODES (human sign-off):
+- Use an approval node when a person must check output before the workflow continues (e.g. before sending or saving).
+- The run waits until the reviewer approves or rejects; the output passes on, including the reviewer's edits.
+- Outgoing edges MUST set sourceHandle: "approved" or "rejected". A missing branch just ends the run there.
+
+WORKFLOW NODES (reuse an existing workflow):
+- Only use a workflow node when one of the listed existing workflows already does the job; use its exact id.
+- It runs that workflow with the previous output as its input and outputs that workflow's final output.
+- data.inputMapping reshapes the input first, with variable: input (e.g. "{ text: input.content }").
+- A workflow must never call itself, directly or through other workflows.
+
+ERROR HANDLING (prompt, code and condition nodes only):
+- Leave data.policy out unless a step is likely to fail intermittently (e.g. a prompt with structured output).
+- data.policy.maxRetries: further attempts after a failure; retryDelayMs (default 1000) doubles per retry.
+- data.policy.timeoutMs: time limit per attempt.
+- data.policy.onError: "fail" (default, the run fails), "continue" (null is passed on; a condition takes "false"),
+  or "branch" (only edges with sourceHandle: "error" are followed, with input { error, input }).
+- Only a node with onError "branch" may have an outgoing edge with sourceHandle "error".
 
 WHEN TO USE structuredOutput:
 - Use structuredOutput ONLY when a later code/condition needs to read specific fields.
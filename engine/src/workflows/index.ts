@@ -2,8 +2,16 @@
  * Workflows module exports
  */
 
+export { ApprovalRunner, parseReviewNote } from './ApprovalRunner.js';
 export { CodeRunner } from './CodeRunner.js';
 export { ConditionRunner } from './ConditionRunner.js';
+export { nextCronTime, parseCron } from './cron.js';
+export { FileRunner } from './FileRunner.js';
 export { PromptRunner } from './PromptRunner.js';
+export { ERROR_HANDLE, resolveStepPolicy } from './StepPolicy.js';
+export { MAX_WORKFLOW_DEPTH, SubWorkflowRunner } from './SubWorkflowRunner.js';
 export * from './types.js';
 export { WorkflowExecutor } from './WorkflowExecutor.js';
+export { saveWorkflowVersion } from './WorkflowHistory.js';
+export { validateWorkflowInput } from './WorkflowInputs.js';
+export { WorkflowTriggerManager } from './WorkflowTriggerManager.js';
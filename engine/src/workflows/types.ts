@@ -4,13 +4,30 @@
  */
 
 // Step types available in workflows
-export type StepType = 'prompt' | 'code' | 'condition';
+export type StepType = 'prompt' | 'code' | 'condition' | 'file' | 'join' | 'approval' | 'workflow';
 
 // Step status during execution
-export type StepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+export type StepStatus =
+  | 'pending'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'skipped'
+  | 'cancelled'
+  | 'waiting';
 
 // Workflow execution status
-export type WorkflowStatus = 'idle' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type WorkflowStatus =
+  | 'idle'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'paused'
+  | 'waiting';
+
+// Stop request for a run, written by the plugin into the run's queue item
+export type WorkflowRunControl = 'cancel' | 'pause';
 
 /**
  * Base data for all node types
@@ -20,6 +37,24 @@ export interface BaseNodeData {
   description?: string;
 }
 
+// What a step does once it failed and has no retries left:
+// fail the run, pass null on along its normal edges, or follow its "error" edges
+export type StepErrorMode = 'fail' | 'continue' | 'branch';
+
+/**
+ * Retry, timeout and error handling for prompt, code and condition steps
+ */
+export interface StepPolicy {
+  /** Further attempts after a failed one (default 0) */
+  maxRetries?: number;
+  /** Wait before the first retry, doubled for each one after it (default 1000) */
+  retryDelayMs?: number;
+  /** Time limit per attempt (default: none for prompts, 5s for code, 1s for conditions) */
+  timeoutMs?: number;
+  /** Default "fail" */
+  onError?: StepErrorMode;
+}
+
 /**
  * Prompt step data
  * Agent is specified via @agent mention in the prompt text
@@ -30,6 +65,7 @@ export interface PromptNodeData extends BaseNodeData {
   structuredOutput?: boolean;
   /** JSON example/schema the agent must output (required when structuredOutput is true) */
   outputSchema?: string;
+  policy?: StepPolicy;
 }
 
 /**
@@ -37,6 +73,7 @@ export interface PromptNodeData extends BaseNodeData {
  */
 export interface CodeNodeData extends BaseNodeData {
   code: string;
+  policy?: StepPolicy;
 }
 
 /**
@@ -45,6 +82,70 @@ export interface CodeNodeData extends BaseNodeData {
 export interface ConditionNodeData extends BaseNodeData {
   expression: string;
   maxCycles: number;
+  policy?: StepPolicy;
+}
+
+/**
+ * Vault file operations available to file steps
+ */
+export type FileOperation = 'read' | 'write' | 'append' | 'frontmatter' | 'move';
+
+/**
+ * File step data
+ * Paths are vault-relative and support $input / $input.field templating
+ */
+export interface FileNodeData extends BaseNodeData {
+  operation: FileOperation;
+  /** Note to act on; for read also a folder ("Inbox/") or glob ("Projects/**\/*.md") */
+  path: string;
+  /** write/append: text to write (templated) */
+  content?: string;
+  /** write: note whose content is used when content is empty (templated) */
+  template?: string;
+  /** write: replace an existing note instead of failing */
+  overwrite?: boolean;
+  /** append: heading to append under; created at the end when missing */
+  heading?: string;
+  /** frontmatter: fields to set; a value that is exactly "$input[.field]" keeps its type */
+  fields?: Record<string, string>;
+  /** move: new path, or a folder ending in "/" to keep the file name */
+  destination?: string;
+}
+
+/**
+ * Join step data
+ * Waits for incoming branches and passes their outputs on, keyed by step label
+ */
+export interface JoinNodeData extends BaseNodeData {
+  /** Wait for every incoming branch, or only the first `count` to arrive */
+  mode: 'all' | 'any';
+  /** Branches to wait for in "any" mode (default 1) */
+  count?: number;
+}
+
+/**
+ * Approval step data
+ * The run waits for a person to approve or reject the upstream output in a review note
+ */
+export interface ApprovalNodeData extends BaseNodeData {
+  /** Shown to the reviewer above the output */
+  instructions?: string;
+  /** Vault folder for review notes (default "Approvals") */
+  folder?: string;
+}
+
+// Reviewer's decision; approval steps route along edges with the matching sourceHandle
+export type ApprovalDecision = 'approved' | 'rejected';
+
+/**
+ * Sub-workflow step data
+ * Runs another workflow to completion and passes its output on
+ */
+export interface SubWorkflowNodeData extends BaseNodeData {
+  /** Id of the workflow to run */
+  workflowId: string;
+  /** JavaScript expression building the sub-workflow's input from `input` (default: input as-is) */
+  inputMapping?: string;
 }
 
 /**
@@ -53,7 +154,11 @@ export interface ConditionNodeData extends BaseNodeData {
 export type WorkflowNodeData =
   | ({ type: 'prompt' } & PromptNodeData)
   | ({ type: 'code' } & CodeNodeData)
-  | ({ type: 'condition' } & ConditionNodeData);
+  | ({ type: 'condition' } & ConditionNodeData)
+  | ({ type: 'file' } & FileNodeData)
+  | ({ type: 'join' } & JoinNodeData)
+  | ({ type: 'approval' } & ApprovalNodeData)
+  | ({ type: 'workflow' } & SubWorkflowNodeData);
 
 /**
  * Position for nodes
@@ -89,7 +194,95 @@ export interface WorkflowEdge {
  * Workflow settings
  * Note: Global limits (maxGlobalCycles, timeout) removed - will be user-configurable in plugin
  */
-export type WorkflowSettings = Record<string, never>;
+export interface WorkflowSettings {
+  /** Steps of one run that may execute at the same time across parallel branches (default 4) */
+  maxParallelSteps?: number;
+}
+
+/**
+ * Base fields for workflow triggers
+ */
+export interface WorkflowTriggerBase {
+  id: string;
+  /** Disabled triggers are kept but never fire (default: enabled) */
+  enabled?: boolean;
+}
+
+/**
+ * Run on a cron schedule (5 fields: minute hour day-of-month month day-of-week, local time)
+ */
+export interface ScheduleTrigger extends WorkflowTriggerBase {
+  type: 'schedule';
+  cron: string;
+}
+
+/**
+ * Run when a note is created or modified in a folder
+ */
+export interface FileTrigger extends WorkflowTriggerBase {
+  type: 'file_created' | 'file_modified';
+  folder: string;
+  /** Optional glob within the folder, e.g. "*.md" */
+  pattern?: string;
+}
+
+/**
+ * Run when a frontmatter field of a note in a folder changes
+ */
+export interface FrontmatterTrigger extends WorkflowTriggerBase {
+  type: 'frontmatter_changed';
+  folder: string;
+  field: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Run when a tag is added to the frontmatter tags of a note in a folder
+ */
+export interface TagTrigger extends WorkflowTriggerBase {
+  type: 'tag_added';
+  folder: string;
+  tag: string;
+}
+
+export type WorkflowTrigger = ScheduleTrigger | FileTrigger | FrontmatterTrigger | TagTrigger;
+
+export type WorkflowTriggerType = WorkflowTrigger['type'];
+
+/**
+ * Workflow input for runs started by a trigger
+ */
+export interface WorkflowTriggerInput {
+  trigger: WorkflowTriggerType;
+  triggerId: string;
+  /** Vault-relative path of the triggering note */
+  file?: string;
+  /** Content of the triggering note */
+  content?: string;
+  frontmatter?: { field: string; oldValue: unknown; newValue: unknown };
+  tag?: string;
+  /** Scheduled time of a cron run (ISO) */
+  scheduledAt?: string;
+}
+
+// Kinds of run input a workflow can ask for
+export type WorkflowInputType = 'text' | 'number' | 'file' | 'folder' | 'agent' | 'enum';
+
+/**
+ * A field of a workflow's run input, filled in before a manual run
+ * Runs get an object keyed by field name ($input.name); file and folder values are vault paths
+ */
+export interface WorkflowInputField {
+  name: string;
+  type: WorkflowInputType;
+  label?: string;
+  description?: string;
+  required?: boolean;
+  default?: string | number;
+  /** enum: the allowed values */
+  options?: string[];
+}
 
 /**
  * Workflow definition
@@ -98,14 +291,35 @@ export interface WorkflowDefinition {
   id: string;
   name: string;
   description?: string;
+  /** Incremented on every change; earlier versions are kept in .spark/workflows/.history/{id}/ */
   version: number;
   nodes: WorkflowNode[];
   edges: WorkflowEdge[];
   settings: WorkflowSettings;
+  triggers?: WorkflowTrigger[];
+  /** Run input form; checked for manual runs and sub-workflow calls, not for trigger runs */
+  inputs?: WorkflowInputField[];
   created: string;
   updated: string;
 }
 
+/**
+ * What saved a workflow version
+ */
+export type WorkflowHistorySource = 'editor' | 'generated' | 'restored' | 'imported' | 'duplicated';
+
+/**
+ * Saved version of a workflow (stored in .spark/workflows/.history/{id}/{version}.json)
+ */
+export interface WorkflowHistoryEntry {
+  version: number;
+  savedAt: string;
+  source: WorkflowHistorySource;
+  /** Restored versions: the version they were restored from */
+  restoredFrom?: number;
+  workflow: WorkflowDefinition;
+}
+
 /**
  * Step execution result
  */
@@ -118,6 +332,16 @@ export interface StepResult {
   startTime: number;
   endTime?: number;
   cycleCount?: number;
+  /** Approval steps: vault path of the review note */
+  reviewNote?: string;
+  /** Approval steps: the reviewer's decision, once made */
+  decision?: ApprovalDecision;
+  /** Sub-workflow steps: the run they started */
+  childRun?: WorkflowRunLink;
+  /** Attempts made, when the step was retried */
+  attempts?: number;
+  /** Failed steps whose policy let the run go on: how it went on */
+  errorHandled?: Exclude<StepErrorMode, 'fail'>;
 }
 
 /**
@@ -134,6 +358,57 @@ export interface WorkflowRun {
   startTime: number;
   endTime?: number;
   totalCycles: number;
+  /** Trigger that started the run (absent for manual runs) */
+  trigger?: WorkflowRunTrigger;
+  /** Execution state for resuming; dropped once the run completes */
+  checkpoint?: WorkflowRunCheckpoint;
+  /** Sub-workflow runs: the run and step that started them */
+  parent?: WorkflowRunLink & { nodeId: string };
+  /** Definition version the run executed (the latest one, for resumed runs) */
+  workflowVersion?: number;
+}
+
+/**
+ * Reference to a run of another workflow
+ */
+export interface WorkflowRunLink {
+  workflowId: string;
+  runId: string;
+}
+
+/**
+ * Saved execution context of an unfinished run
+ * Maps are stored as entry lists so step output order (used for primary inputs) survives
+ */
+export interface WorkflowRunCheckpoint {
+  stepOutputs: Array<[string, unknown]>;
+  visitCounts: Array<[string, number]>;
+  totalCycles: number;
+  joinArrivals: Array<{ nodeId: string; outputs: Array<[string, unknown]>; fired: boolean }>;
+  /** Ids of edges not followed by the last run of their source step */
+  skippedEdges?: string[];
+  /** Steps to pick up from when the run resumes */
+  pending: PendingStep[];
+}
+
+/**
+ * A step that had not finished when the run stopped
+ * With visitCount set the step had passed loop checks and reruns with the saved input;
+ * otherwise the branch re-enters the node from fromNodeId
+ */
+export interface PendingStep {
+  nodeId: string;
+  fromNodeId?: string;
+  input?: unknown;
+  visitCount?: number;
+}
+
+/**
+ * Trigger that queued a run
+ */
+export interface WorkflowRunTrigger {
+  id: string;
+  type: WorkflowTriggerType;
 }
 
 /**
@@ -145,6 +420,28 @@ export interface WorkflowQueueItem {
   status: 'pending' | 'processing';
   input?: unknown;
   timestamp: number;
+  trigger?: WorkflowRunTrigger;
+  /** Continue the existing run from its checkpoint instead of starting over */
+  resume?: boolean;
+  /** Stop the run: cancel aborts in-flight steps, pause lets them finish */
+  control?: WorkflowRunControl;
+}
+
+/**
+ * Next scheduled run per workflow (stored in .spark/workflow-runs/schedule.json)
+ * Engine-maintained so the plugin can show it without parsing cron
+ */
+export interface WorkflowScheduleEntry {
+  /** Earliest upcoming run across the workflow's schedule triggers */
+  nextRun: number | null;
+  /** Invalid cron expression, if any */
+  error?: string;
+}
+
+export interface WorkflowScheduleIndex {
+  version: 1;
+  updatedAt: number;
+  workflows: Record<string, WorkflowScheduleEntry>;
 }
 
 /**
@@ -157,6 +454,35 @@ export interface ExecutionContext {
   stepOutputs: Map<string, unknown>;
   visitCounts: Map<string, number>;
   totalCycles: number;
+  /** Branch outputs that reached each join node in its current round */
+  joinArrivals: Map<string, JoinArrivals>;
+  /** Ids of edges the last run of their source step didn't follow (e.g. a condition's other branch) */
+  skippedEdges: Set<string>;
+  /** Steps reachable only through skipped edges, found again whenever skippedEdges changes */
+  deadNodes?: Set<string>;
+  /** Loop-back edges of the workflow, found once per run */
+  backEdges?: Set<WorkflowEdge>;
+  /** Set once a step fails so parallel branches stop starting new steps */
+  failed?: boolean;
+  /** Set when the plugin asked to cancel or pause the run */
+  stopRequested?: WorkflowRunControl;
+  /** Aborted on cancel so in-flight provider calls stop */
+  signal?: AbortSignal;
+  /** Steps not yet finished, saved in the checkpoint */
+  pending: Set<PendingStep>;
+  /** Workflow ids from the top-level run down to this one, for sub-workflow recursion checks */
+  callStack: string[];
+}
+
+/**
+ * Branches that reached a join node, by source node id
+ */
+export interface JoinArrivals {
+  outputs: Map<string, unknown>;
+  /** The join already ran this round; later arrivals are absorbed */
+  fired: boolean;
+  /** Run with whatever arrived (the remaining branches can no longer reach the join) */
+  forced?: boolean;
 }
 
 /**
@@ -207,4 +533,13 @@ export interface WorkflowPromptRequest {
   // Output requirements
   structuredOutput?: boolean;
   outputSchema?: string;
+
+  // Aborts the provider call when the run is cancelled
+  signal?: AbortSignal;
 }
+
+/**
+ * Called after a step writes a note, with its absolute path and new content
+ * (lets the engine tell its own writes apart from the user's)
+ */
+export type NoteWriteListener = (filePath: string, content: string) => void;
@@ -39,6 +39,10 @@ export abstract class SuggestModal<T> extends Modal {
 	onChooseSuggestion(_item: T, _evt: MouseEvent | KeyboardEvent): void { }
 }
 
+export class Setting {
+	constructor(_containerEl: HTMLElement) { }
+}
+
 // Notice class - uses globalThis mock if available (for testing)
 export class Notice {
 	constructor(message: string, timeout?: number) {
@@ -99,6 +103,10 @@ export class TFolder {
 	}
 }
 
+export function normalizePath(path: string): string {
+	return path.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+}
+
 export const Platform = {
 	isMobile: false,
 	isDesktop: true,
@@ -0,0 +1,79 @@
+import {
+	branchCount,
+	branchPosition,
+	forkConversation,
+	switchBranch,
+} from '../../src/chat/ChatBranches';
+import type { ChatMessage } from '../../src/chat/types';
+
+describe('ChatBranches', () => {
+	const message = (id: string, type: ChatMessage['type'], content: string): ChatMessage => ({
+		id,
+		timestamp: '2025-03-01T00:00:00.000Z',
+		type,
+		content,
+	});
+
+	const conversation = [
+		message('u1', 'user', '@betty plan my week'),
+		message('a1', 'agent', 'Monday: review'),
+		message('u2', 'user', 'and the weekend?'),
+		message('a2', 'agent', 'Rest'),
+	];
+
+	const ids = (messages: ChatMessage[]) => messages.map(m => m.id);
+
+	describe('forkConversation', () => {
+		it('should replace the messages from the edited one and keep them as a branch', () => {
+			const forked = forkConversation(conversation, 2, message('u3', 'user', 'and Tuesday?'));
+
+			expect(ids(forked)).toEqual(['u1', 'a1', 'u3']);
+			expect(branchCount(forked[2])).toBe(2);
+			expect(branchPosition(forked[2])).toBe(1);
+			expect(ids(forked[2].branches?.[0] ?? [])).toEqual(['u2', 'a2']);
+			expect(branchPosition(forked[2].branches?.[0]?.[0] as ChatMessage)).toBe(0);
+		});
+
+		it('should add further versions to the same fork', () => {
+			const once = forkConversation(conversation, 2, message('u3', 'user', 'and Tuesday?'));
+			const twice = forkConversation(once, 2, message('u4', 'user', 'and Friday?'));
+
+			expect(ids(twice)).toEqual(['u1', 'a1', 'u4']);
+			expect(branchCount(twice[2])).toBe(3);
+			expect(branchPosition(twice[2])).toBe(2);
+			expect(twice[2].branches?.map(b => b[0].id)).toEqual(['u2', 'u3']);
+			expect(twice[2].branches?.[1]?.[0]?.branches).toBeUndefined();
+		});
+	});
+
+	describe('switchBranch', () => {
+		it('should make another version active and keep the rest in order', () => {
+			const once = forkConversation(conversation, 2, message('u3', 'user', 'and Tuesday?'));
+			const twice = forkConversation(once, 2, message('u4', 'user', 'and Friday?'));
+
+			const first = switchBranch(twice, 2, 0);
+			expect(ids(first)).toEqual(['u1', 'a1', 'u2', 'a2']);
+			expect(first[2].branches?.map(b => b[0].id)).toEqual(['u3', 'u4']);
+
+			const back = switchBranch(first, 2, 2);
+			expect(ids(back)).toEqual(['u1', 'a1', 'u4']);
+			expect(back[2].branches?.map(b => b[0].id)).toEqual(['u2', 'u3']);
+		});
+
+		it('should keep forks further down inside a branch', () => {
+			const inner = forkConversation(conversation, 2, message('u3', 'user', 'and Tuesday?'));
+			const outer = forkConversation(inner, 0, message('u5', 'user', '@bob plan my week'));
+
+			const restored = switchBranch(outer, 0, 0);
+			expect(ids(restored)).toEqual(['u1', 'a1', 'u3']);
+			expect(ids(restored[2].branches?.[0] ?? [])).toEqual(['u2', 'a2']);
+		});
+
+		it('should leave the messages alone for an unknown version', () => {
+			const forked = forkConversation(conversation, 2, message('u3', 'user', 'and Tuesday?'));
+
+			expect(switchBranch(forked, 2, 5)).toBe(forked);
+			expect(switchBranch(conversation, 2, 0)).toBe(conversation);
+		});
+	});
+});
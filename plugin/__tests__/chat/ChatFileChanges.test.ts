@@ -0,0 +1,29 @@
+import { MAX_KEPT_CHANGE_CHARS, storableFileChange } from '../../src/chat/ChatFileChanges';
+import type { ChatFileChange } from '../../src/chat/types';
+
+describe('ChatFileChanges', () => {
+	describe('storableFileChange', () => {
+		it('should keep the contents of a small change', () => {
+			const change: ChatFileChange = { path: 'tasks/billing.md', before: '- a', after: '- b' };
+
+			expect(storableFileChange(change)).toBe(change);
+		});
+
+		it('should drop the contents of a large change', () => {
+			const large = 'x'.repeat(MAX_KEPT_CHANGE_CHARS);
+
+			expect(storableFileChange({ path: 'data.md', before: large, after: `${large}!` })).toEqual({
+				path: 'data.md',
+				before: '',
+				after: '',
+				status: undefined,
+				omitted: true,
+			});
+			expect(storableFileChange({ path: 'new.md', before: null, after: `${large}!` })).toMatchObject({
+				before: null,
+				after: '',
+				omitted: true,
+			});
+		});
+	});
+});
@@ -0,0 +1,60 @@
+import { buildChatHistory, RECENT_MESSAGES } from '../../src/chat/ChatHistory';
+import type { ChatMessage } from '../../src/chat/types';
+
+describe('ChatHistory', () => {
+	const message = (id: string, type: ChatMessage['type'], content: string): ChatMessage => ({
+		id,
+		timestamp: '2025-03-01T00:00:00.000Z',
+		type,
+		content,
+	});
+
+	// Ten messages of about 100 tokens each
+	const messages = Array.from({ length: 10 }, (_, i) =>
+		message(`m${i}`, i % 2 === 0 ? 'user' : 'agent', `${i} ${'x'.repeat(400)}`)
+	);
+
+	describe('buildChatHistory', () => {
+		it('should send every message while under the threshold', () => {
+			const history = buildChatHistory(
+				[...messages, message('l', 'loading', 'Betty is typing')],
+				null,
+				2000
+			);
+
+			expect(history.summary).toBeUndefined();
+			expect(history.compact).toEqual([]);
+			expect(history.compactThrough).toBeUndefined();
+			expect(history.recent).toHaveLength(10);
+			expect(history.recent[1].role).toBe('assistant');
+		});
+
+		it('should send older messages to summarize once over the threshold', () => {
+			const history = buildChatHistory(messages, null, 500);
+
+			expect(history.compact).toHaveLength(10 - RECENT_MESSAGES);
+			expect(history.compactThrough).toBe(`m${9 - RECENT_MESSAGES}`);
+			expect(history.recent).toHaveLength(RECENT_MESSAGES);
+			expect(history.recent[0].content).toMatch(/^4 /);
+		});
+
+		it('should replace summarized messages with the summary', () => {
+			const history = buildChatHistory(
+				messages,
+				{ content: 'They talked about x', throughMessageId: 'm5' },
+				2000
+			);
+
+			expect(history.summary).toBe('They talked about x');
+			expect(history.compact).toEqual([]);
+			expect(history.recent.map(t => t.content[0])).toEqual(['6', '7', '8', '9']);
+		});
+
+		it('should ignore a summary whose last message is gone', () => {
+			const history = buildChatHistory(messages, { content: 'Old', throughMessageId: 'gone' }, 2000);
+
+			expect(history.summary).toBeUndefined();
+			expect(history.recent).toHaveLength(10);
+		});
+	});
+});
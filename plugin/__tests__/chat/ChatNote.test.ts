@@ -0,0 +1,72 @@
+import { chatNoteTitle, fallbackChatNoteTitle, renderChatNote } from '../../src/chat/ChatNote';
+import type { ChatConversation, ChatMessage } from '../../src/chat/types';
+
+describe('ChatNote', () => {
+	const message = (
+		id: string,
+		type: ChatMessage['type'],
+		content: string,
+		extra: Partial<ChatMessage> = {}
+	): ChatMessage => ({
+		id,
+		timestamp: '2025-03-10T09:00:00.000Z',
+		type,
+		content,
+		...extra,
+	});
+
+	const conversation: ChatConversation = {
+		id: 'chat-1741597200000',
+		created: '2025-03-10T09:00:00.000Z',
+		updated: '2025-03-10T09:05:00.000Z',
+		name: 'Invoice: "March"',
+		mentionedAgents: ['betty'],
+		messages: [
+			message('m1', 'user', '@betty check @billing in @tasks/\nthanks'),
+			message('m2', 'agent', 'Done.', { agent: 'betty' }),
+			message('m3', 'agent', '📝 Modified 2 file(s):', {
+				agent: 'Spark Assistant',
+				fileChanges: [
+					{ path: 'tasks/billing.md', before: '', after: '- pay', status: 'kept' },
+					{ path: 'tasks/old.md', before: '- a', after: '- b', status: 'reverted' },
+				],
+			}),
+			message('l', 'loading', 'Betty is typing'),
+		],
+	};
+
+	const linkMention = (name: string) => (name === 'billing' ? 'tasks/billing' : null);
+
+	describe('renderChatNote', () => {
+		it('should write frontmatter with the chat name, date and agents', () => {
+			const note = renderChatNote(conversation, linkMention);
+
+			expect(note.startsWith('---\nspark_conversation: chat-1741597200000\n')).toBe(true);
+			expect(note).toContain('name: "Invoice: \\"March\\""\n');
+			expect(note).toMatch(/\ndate: \d{4}-\d{2}-\d{2}\n/);
+			expect(note).toContain('agents:\n  - betty\n---\n\n# Invoice: "March"\n');
+		});
+
+		it('should render messages as callouts with mentioned notes as wikilinks', () => {
+			const note = renderChatNote(conversation, linkMention);
+
+			expect(note).toMatch(/> \[!quote\] You · [\d-]+ [\d:]+\n> @betty check \[\[tasks\/billing\]\] in @tasks\/\n> thanks/);
+			expect(note).toMatch(/> \[!note\] betty · [\d-]+ [\d:]+\n> Done\./);
+			expect(note).toContain('> - [[tasks/billing]]\n> - [[tasks/old]] (reverted)');
+			expect(note).not.toContain('typing');
+		});
+	});
+
+	describe('chatNoteTitle', () => {
+		it('should use the chat name without characters notes cannot have', () => {
+			expect(chatNoteTitle(conversation)).toBe('Invoice March');
+		});
+
+		it('should fall back to the creation time', () => {
+			const unnamed = { ...conversation, name: undefined };
+
+			expect(chatNoteTitle(unnamed)).toBe(fallbackChatNoteTitle(unnamed));
+			expect(chatNoteTitle(unnamed)).toMatch(/^Chat \d{4}-\d{2}-\d{2} \d{4}$/);
+		});
+	});
+});
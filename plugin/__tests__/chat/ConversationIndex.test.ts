@@ -0,0 +1,148 @@
+import {
+	indexConversation,
+	parseChatQuery,
+	searchConversations,
+	snippetAround,
+} from '../../src/chat/ConversationIndex';
+import type { ChatConversation, ChatMessage } from '../../src/chat/types';
+
+describe('ConversationIndex', () => {
+	const message = (
+		id: string,
+		type: ChatMessage['type'],
+		content: string,
+		extra: Partial<ChatMessage> = {}
+	): ChatMessage => ({
+		id,
+		timestamp: '2025-03-10T09:00:00.000Z',
+		type,
+		content,
+		...extra,
+	});
+
+	const conversation = (
+		id: string,
+		messages: ChatMessage[],
+		extra: Partial<ChatConversation> = {}
+	): ChatConversation => ({
+		id,
+		created: messages[0]?.timestamp ?? '2025-03-01T00:00:00.000Z',
+		updated: '2025-03-10T09:00:00.000Z',
+		messages,
+		...extra,
+	});
+
+	const invoices = indexConversation(
+		conversation(
+			'chat-1',
+			[
+				message('m1', 'user', '@betty check the invoice in @tasks/'),
+				message('m2', 'agent', 'The invoice is overdue.', { agent: 'betty' }),
+				message('m3', 'agent', '📝 Modified 1 file(s):', {
+					agent: 'Spark Assistant',
+					fileChanges: [{ path: 'tasks/billing.md', before: '', after: '- pay' }],
+				}),
+				message('l', 'loading', 'Betty is typing'),
+			],
+			{ name: 'Billing follow-up', mentionedAgents: ['betty'] }
+		),
+		1
+	);
+
+	const planning = indexConversation(
+		conversation(
+			'chat-2',
+			[
+				message('p1', 'user', '@bob plan my week with @meeting-notes', {
+					timestamp: '2025-04-02T09:00:00.000Z',
+				}),
+				message('p2', 'agent', 'Monday: pay the invoice', {
+					agent: 'bob',
+					timestamp: '2025-04-02T09:01:00.000Z',
+				}),
+			],
+			{ mentionedAgents: ['bob'] }
+		),
+		1
+	);
+
+	describe('indexConversation', () => {
+		it('should collect agents, mentions and edited files', () => {
+			expect(invoices.agents).toEqual(['betty']);
+			expect(invoices.mentions).toEqual(['@tasks/']);
+			expect(invoices.files).toEqual(['tasks/billing.md']);
+			expect(invoices.messages.map(m => m.id)).toEqual(['m1', 'm2', 'm3']);
+			expect(invoices.lastActivity).toBe('2025-03-10T09:00:00.000Z');
+		});
+	});
+
+	describe('parseChatQuery', () => {
+		it('should split words, filters and dates', () => {
+			expect(parseChatQuery('@Betty Invoice after:2025-03-01 before:2025-03-31 @tasks/')).toEqual({
+				terms: ['invoice'],
+				filters: ['betty', 'tasks/'],
+				after: Date.parse('2025-03-01'),
+				before: Date.parse('2025-04-01'),
+			});
+		});
+	});
+
+	describe('searchConversations', () => {
+		const entries = [invoices, planning];
+
+		it('should list every conversation, most recent first, for an empty query', () => {
+			expect(searchConversations(entries, '').map(r => r.conversation.id)).toEqual([
+				'chat-2',
+				'chat-1',
+			]);
+		});
+
+		it('should return the messages containing all the words', () => {
+			const results = searchConversations(entries, 'invoice overdue');
+
+			expect(results).toHaveLength(1);
+			expect(results[0].conversation.id).toBe('chat-1');
+			expect(results[0].matches).toEqual([
+				{ messageId: 'm2', snippet: 'The invoice is overdue.' },
+			]);
+		});
+
+		it('should filter by agent, mentioned file and folder', () => {
+			const ids = (query: string) =>
+				searchConversations(entries, query).map(r => r.conversation.id);
+
+			expect(ids('@betty')).toEqual(['chat-1']);
+			expect(ids('@meeting-notes')).toEqual(['chat-2']);
+			expect(ids('@tasks/')).toEqual(['chat-1']);
+			expect(ids('@billing')).toEqual(['chat-1']);
+			expect(ids('@bob invoice')).toEqual(['chat-2']);
+		});
+
+		it('should filter by date range', () => {
+			const ids = (query: string) =>
+				searchConversations(entries, query).map(r => r.conversation.id);
+
+			expect(ids('after:2025-04-01')).toEqual(['chat-2']);
+			expect(ids('before:2025-03-10')).toEqual(['chat-1']);
+			expect(ids('after:2025-05-01')).toEqual([]);
+		});
+
+		it('should match conversation names', () => {
+			const results = searchConversations(entries, 'follow-up');
+			expect(results.map(r => r.conversation.id)).toEqual(['chat-1']);
+			expect(results[0].matches).toEqual([]);
+		});
+	});
+
+	describe('snippetAround', () => {
+		it('should cut long messages around the word', () => {
+			const text = `${'a '.repeat(100)}needle${' b'.repeat(100)}`;
+			const snippet = snippetAround(text, 'needle');
+
+			expect(snippet.startsWith('…')).toBe(true);
+			expect(snippet.endsWith('…')).toBe(true);
+			expect(snippet).toContain('needle');
+			expect(snippet.length).toBeLessThan(140);
+		});
+	});
+});
@@ -417,6 +417,30 @@ describe('InlineChatWidget', () => {
             expect(statusMessage?.textContent).toBeTruthy();
         });
 
+        it('should show the streamed response in processing state', () => {
+            const widget = new InlineChatWidget(mockApp, {
+                mentionDecorator: mockMentionDecorator,
+                agentName: 'alice',
+                onSend: jest.fn(),
+                onCancel: jest.fn(),
+                top: 100,
+                left: 50,
+                parentElement,
+            });
+
+            widget.show();
+            widget.showPartialResponse('ignored before processing');
+            expect(parentElement.querySelector('.spark-inline-chat-partial')).toBeNull();
+
+            widget.transformToProcessing('What is burn rate?');
+            widget.showPartialResponse('Burn rate is');
+            widget.showPartialResponse('Burn rate is the monthly');
+
+            const partials = parentElement.querySelectorAll('.spark-inline-chat-partial');
+            expect(partials).toHaveLength(1);
+            expect(partials[0]?.textContent).toBe('Burn rate is the monthly');
+        });
+
         it('should not show mention input in processing state', () => {
             const widget = new InlineChatWidget(mockApp, {
                 mentionDecorator: mockMentionDecorator,
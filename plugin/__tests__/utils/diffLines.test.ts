@@ -0,0 +1,34 @@
+import { diffLines, MAX_DIFF_CELLS } from '../../src/utils/diffLines';
+
+describe('diffLines', () => {
+	it('should mark added, removed and unchanged lines', () => {
+		expect(diffLines('a\nb\nc', 'a\nx\nc\nd')).toEqual([
+			{ type: 'same', text: 'a' },
+			{ type: 'removed', text: 'b' },
+			{ type: 'added', text: 'x' },
+			{ type: 'same', text: 'c' },
+			{ type: 'added', text: 'd' },
+		]);
+	});
+
+	it('should treat an empty text as having no lines', () => {
+		expect(diffLines('', 'a\nb')).toEqual([
+			{ type: 'added', text: 'a' },
+			{ type: 'added', text: 'b' },
+		]);
+		expect(diffLines('a', '')).toEqual([{ type: 'removed', text: 'a' }]);
+	});
+
+	it('should show a large edit as replaced instead of diffing it', () => {
+		const size = Math.sqrt(MAX_DIFF_CELLS) + 1;
+		const before = Array.from({ length: size }, (_, i) => `a${i}`);
+		const after = Array.from({ length: size }, (_, i) => (i === 1 ? 'a1' : `b${i}`));
+
+		const lines = diffLines(['head', ...before].join('\n'), ['head', ...after].join('\n'));
+
+		expect(lines[0]).toEqual({ type: 'same', text: 'head' });
+		expect(lines.filter(l => l.type === 'removed')).toHaveLength(size);
+		expect(lines.filter(l => l.type === 'added')).toHaveLength(size);
+		expect(lines[size + 1]).toEqual({ type: 'added', text: 'b0' });
+	});
+});
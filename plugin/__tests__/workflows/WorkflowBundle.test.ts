@@ -0,0 +1,127 @@
+import {
+	copyWorkflowName,
+	findWorkflowReferences,
+	parseWorkflowBundle,
+	renameWorkflowReferences,
+	uniqueName,
+	WORKFLOW_BUNDLE_FORMAT,
+} from '../../src/workflows/WorkflowBundle';
+import type { WorkflowDefinition } from '../../src/workflows/types';
+
+describe('WorkflowBundle', () => {
+	const workflow: WorkflowDefinition = {
+		id: 'wf_main',
+		name: 'Weekly review',
+		version: 1,
+		nodes: [
+			{
+				id: 'p1',
+				type: 'prompt',
+				position: { x: 0, y: 0 },
+				data: {
+					type: 'prompt',
+					label: 'Summarize',
+					prompt: '@betty /summarize $input and/or email me@example.com',
+				},
+			},
+			{
+				id: 'w1',
+				type: 'workflow',
+				position: { x: 0, y: 100 },
+				data: { type: 'workflow', label: 'Publish', workflowId: 'wf_publish' },
+			},
+		],
+		edges: [],
+		settings: {},
+		inputs: [{ name: 'reviewer', type: 'agent', default: '@alice' }],
+		created: '2025-03-01T00:00:00.000Z',
+		updated: '2025-03-01T00:00:00.000Z',
+	};
+
+	describe('findWorkflowReferences', () => {
+		it('should find mentioned agents and commands and called workflows', () => {
+			expect(findWorkflowReferences(workflow)).toEqual({
+				agents: ['betty', 'alice'],
+				commands: ['summarize'],
+				workflows: ['wf_publish'],
+			});
+		});
+	});
+
+	describe('renameWorkflowReferences', () => {
+		it('should rename mentions, sub-workflow ids and agent defaults', () => {
+			const renamed = renameWorkflowReferences(workflow, {
+				agents: { betty: 'betty-2', alice: 'alice-2' },
+				commands: { summarize: 'summarize-2' },
+				workflows: { wf_publish: 'wf_new' },
+			});
+
+			expect(renamed.nodes[0].data).toMatchObject({
+				prompt: '@betty-2 /summarize-2 $input and/or email me@example.com',
+			});
+			expect(renamed.nodes[1].data).toMatchObject({ workflowId: 'wf_new' });
+			expect(renamed.inputs?.[0].default).toBe('alice-2');
+			expect(workflow.nodes[0].data).toMatchObject({ prompt: expect.stringContaining('@betty /summarize') });
+		});
+	});
+
+	describe('names', () => {
+		it('should pick the first free name', () => {
+			expect(uniqueName('betty', new Set(['alice']))).toBe('betty');
+			expect(uniqueName('betty', new Set(['betty', 'betty-2']))).toBe('betty-3');
+			expect(copyWorkflowName('Review', 'copy', new Set(['Review (copy)']))).toBe('Review (copy 2)');
+		});
+	});
+
+	describe('parseWorkflowBundle', () => {
+		const bundle = {
+			manifest: {
+				format: WORKFLOW_BUNDLE_FORMAT,
+				version: 1,
+				exportedAt: '2025-03-01T00:00:00.000Z',
+				workflowId: 'wf_main',
+				workflows: ['wf_main'],
+				agents: ['betty'],
+				commands: [],
+			},
+			workflows: [workflow],
+			agents: { betty: '# Betty' },
+			commands: {},
+		};
+
+		it('should accept a valid bundle', () => {
+			expect(parseWorkflowBundle(JSON.stringify(bundle))).toEqual(bundle);
+		});
+
+		it('should reject files that are not bundles', () => {
+			expect(() => parseWorkflowBundle('{')).toThrow('not valid JSON');
+			expect(() => parseWorkflowBundle(JSON.stringify(workflow))).toThrow('manifest is missing');
+		});
+
+		it('should reject newer bundle versions and unsafe agent names', () => {
+			expect(() =>
+				parseWorkflowBundle(JSON.stringify({ ...bundle, manifest: { ...bundle.manifest, version: 2 } }))
+			).toThrow('Bundle format version 2 is newer');
+			expect(() =>
+				parseWorkflowBundle(JSON.stringify({ ...bundle, agents: { '../config': 'x' } }))
+			).toThrow('agents must map names to file contents');
+		});
+
+		it('should reject workflow ids that are not safe file names', () => {
+			expect(() =>
+				parseWorkflowBundle(
+					JSON.stringify({
+						...bundle,
+						manifest: { ...bundle.manifest, workflowId: '../../config' },
+						workflows: [{ ...workflow, id: '../../config' }],
+					})
+				)
+			).toThrow('workflow id "../../config" may only contain');
+			expect(() =>
+				parseWorkflowBundle(
+					JSON.stringify({ ...bundle, workflows: [workflow, { ...workflow, id: 'a/b' }] })
+				)
+			).toThrow('workflow id "a/b" may only contain');
+		});
+	});
+});
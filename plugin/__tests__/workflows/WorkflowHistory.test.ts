@@ -0,0 +1,78 @@
+import {
+	diffWorkflows,
+	hasDefinitionChanged,
+	summarizeChanges,
+} from '../../src/workflows/WorkflowHistory';
+import type { WorkflowDefinition, WorkflowNode } from '../../src/workflows/types';
+
+describe('WorkflowHistory', () => {
+	const prompt = (id: string, text: string): WorkflowNode => ({
+		id,
+		type: 'prompt',
+		position: { x: 0, y: 0 },
+		data: { type: 'prompt', label: `Step ${id}`, prompt: text },
+	});
+
+	const workflow: WorkflowDefinition = {
+		id: 'wf_main',
+		name: 'Weekly review',
+		version: 1,
+		nodes: [prompt('p1', 'Summarize\n$input\nbriefly'), prompt('p2', 'Translate')],
+		edges: [{ id: 'e1', source: 'p1', target: 'p2' }],
+		settings: {},
+		created: '2025-03-01T00:00:00.000Z',
+		updated: '2025-03-01T00:00:00.000Z',
+	};
+
+	describe('hasDefinitionChanged', () => {
+		it('should ignore positions, selection and measured sizes', () => {
+			const selected = {
+				...workflow,
+				nodes: workflow.nodes.map(n => ({ ...n, selected: true, measured: { width: 200, height: 80 } })),
+				updated: '2025-03-02T00:00:00.000Z',
+			};
+			const moved = {
+				...workflow,
+				nodes: workflow.nodes.map(n => ({ ...n, position: { x: 120, y: 40 } })),
+			};
+
+			expect(hasDefinitionChanged(workflow, selected)).toBe(false);
+			expect(hasDefinitionChanged(workflow, moved)).toBe(false);
+			expect(hasDefinitionChanged(workflow, { ...workflow, name: 'Daily review' })).toBe(true);
+		});
+	});
+
+	describe('diffWorkflows', () => {
+		it('should list added, removed and edited steps with prompt diffs', () => {
+			const after: WorkflowDefinition = {
+				...workflow,
+				nodes: [prompt('p1', 'Summarize\n$input\nin detail'), prompt('p3', 'Publish')],
+				edges: [{ id: 'e2', source: 'p1', target: 'p3' }],
+			};
+
+			const changes = diffWorkflows(workflow, after);
+
+			expect(changes).toContainEqual({
+				kind: 'node-changed',
+				nodeId: 'p1',
+				label: 'Step p1',
+				fields: ['prompt'],
+				text: [
+					{ type: 'same', text: 'Summarize' },
+					{ type: 'same', text: '$input' },
+					{ type: 'removed', text: 'briefly' },
+					{ type: 'added', text: 'in detail' },
+				],
+			});
+			expect(changes).toContainEqual({ kind: 'node-added', nodeId: 'p3', label: 'Step p3' });
+			expect(changes).toContainEqual({ kind: 'node-removed', nodeId: 'p2', label: 'Step p2' });
+			expect(changes).toContainEqual({ kind: 'edges', added: 1, removed: 1 });
+			expect(summarizeChanges(changes)).toBe('1 step added, 1 step removed, 1 step changed, edges +1 −1');
+		});
+
+		it('should report no changes for the same definition', () => {
+			expect(diffWorkflows(workflow, workflow)).toEqual([]);
+			expect(summarizeChanges([])).toBe('No changes');
+		});
+	});
+});
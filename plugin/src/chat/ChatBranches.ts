@@ -0,0 +1,70 @@
+/**
+ * ChatBranches - Alternative versions of a conversation from an edited or regenerated message
+ * The conversation's messages are the active branch. Where it forks, the first message of the
+ * active branch keeps the other branches (each from that point on), and every branch's first
+ * message keeps its position among them in branchIndex.
+ */
+
+import type { ChatMessage } from './types';
+
+/**
+ * Number of versions of the conversation from this message on (1 if it never forked)
+ */
+export function branchCount(message: ChatMessage): number {
+	return (message.branches?.length ?? 0) + 1;
+}
+
+/**
+ * Position of this message's branch among the versions, from 0
+ */
+export function branchPosition(message: ChatMessage): number {
+	return message.branchIndex ?? 0;
+}
+
+/**
+ * Replace the messages from index on with replacement as a new, active branch
+ * The replaced messages are kept as a branch that can be switched back to
+ */
+export function forkConversation(
+	messages: ChatMessage[],
+	index: number,
+	replacement: ChatMessage
+): ChatMessage[] {
+	const first = messages[index];
+	if (!first) return [...messages, replacement];
+
+	const others = first.branches ?? [];
+	const replaced = [
+		{ ...first, branches: undefined, branchIndex: branchPosition(first) },
+		...messages.slice(index + 1),
+	];
+
+	return [
+		...messages.slice(0, index),
+		{ ...replacement, branches: [...others, replaced], branchIndex: others.length + 1 },
+	];
+}
+
+/**
+ * Make another branch from index on the active one
+ */
+export function switchBranch(
+	messages: ChatMessage[],
+	index: number,
+	position: number
+): ChatMessage[] {
+	const first = messages[index];
+	if (!first?.branches) return messages;
+
+	const active = [{ ...first, branches: undefined }, ...messages.slice(index + 1)];
+	const tails = [active, ...first.branches];
+	const target = tails.find(tail => tail[0] && branchPosition(tail[0]) === position);
+	if (!target || target === active) return messages;
+
+	const others = tails
+		.filter(tail => tail !== target)
+		.sort((a, b) => branchPosition(a[0]) - branchPosition(b[0]));
+	const [targetFirst, ...rest] = target;
+
+	return [...messages.slice(0, index), { ...targetFirst, branches: others }, ...rest];
+}
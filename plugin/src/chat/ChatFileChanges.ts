@@ -0,0 +1,147 @@
+/**
+ * ChatFileChanges - Review, keep or revert the vault files an agent edited from chat
+ */
+
+import { type App, Notice, TFile } from 'obsidian';
+import { showConfirmModal } from '../utils/confirmModal';
+import { diffLines } from '../utils/diffLines';
+import type { ChatFileChange } from './types';
+
+/**
+ * Largest before + after kept in the conversation for one file, in characters
+ */
+export const MAX_KEPT_CHANGE_CHARS = 200_000;
+
+/**
+ * The change as saved with the conversation: a larger file keeps its path and whether it was
+ * created or deleted, but not its contents
+ */
+export function storableFileChange(change: ChatFileChange): ChatFileChange {
+	const size = (change.before?.length ?? 0) + (change.after?.length ?? 0);
+	if (size <= MAX_KEPT_CHANGE_CHARS) return change;
+
+	return {
+		path: change.path,
+		before: change.before === null ? null : '',
+		after: change.after === null ? null : '',
+		status: change.status,
+		omitted: true,
+	};
+}
+
+/**
+ * Render each changed file with its diff and keep/revert buttons
+ * onUpdate is called after a file is kept or reverted, so the conversation can be saved
+ */
+export function renderFileChanges(
+	app: App,
+	containerEl: HTMLElement,
+	changes: ChatFileChange[],
+	onUpdate: () => void
+): void {
+	const listEl = containerEl.createDiv({ cls: 'spark-chat-file-changes' });
+	for (const change of changes) {
+		renderFileChange(app, listEl.createDiv({ cls: 'spark-chat-file-change' }), change, onUpdate);
+	}
+}
+
+function renderFileChange(
+	app: App,
+	el: HTMLElement,
+	change: ChatFileChange,
+	onUpdate: () => void
+): void {
+	el.empty();
+	const lines = diffLines(change.before ?? '', change.after ?? '');
+
+	const headerEl = el.createDiv({ cls: 'spark-chat-file-change-header' });
+	const pathEl = headerEl.createEl('a', { cls: 'spark-chat-file-change-path', text: change.path });
+	pathEl.addEventListener('click', e => {
+		e.preventDefault();
+		void app.workspace.openLinkText(change.path, '', false);
+	});
+	headerEl.createSpan({ cls: 'spark-chat-file-change-stats', text: describeChange(change, lines) });
+	if (change.omitted) return;
+
+	const diffEl = el.createEl('pre', { cls: 'spark-chat-file-change-diff' });
+	for (const line of lines) {
+		const prefix = line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  ';
+		diffEl.createDiv({ cls: `spark-chat-file-change-${line.type}`, text: prefix + line.text });
+	}
+	diffEl.classList.add('is-collapsed');
+
+	const actionsEl = el.createDiv({ cls: 'spark-chat-file-change-actions' });
+	const diffButton = actionsEl.createEl('button', { text: 'Show diff' });
+	diffButton.addEventListener('click', () => {
+		const collapsed = diffEl.classList.toggle('is-collapsed');
+		diffButton.setText(collapsed ? 'Show diff' : 'Hide diff');
+	});
+
+	if (change.status) {
+		actionsEl.createSpan({
+			cls: 'spark-chat-file-change-status',
+			text: change.status === 'kept' ? 'Kept' : 'Reverted',
+		});
+		return;
+	}
+
+	actionsEl.createEl('button', { text: 'Keep' }).addEventListener('click', () => {
+		change.status = 'kept';
+		renderFileChange(app, el, change, onUpdate);
+		onUpdate();
+	});
+	actionsEl
+		.createEl('button', { cls: 'mod-warning', text: 'Revert' })
+		.addEventListener('click', () => {
+			void revertFileChange(app, change).then(reverted => {
+				if (!reverted) return;
+				change.status = 'reverted';
+				renderFileChange(app, el, change, onUpdate);
+				onUpdate();
+			});
+		});
+}
+
+function describeChange(change: ChatFileChange, lines: ReturnType<typeof diffLines>): string {
+	if (change.before === null) return 'Created';
+	if (change.after === null) return 'Deleted';
+	if (change.omitted) return 'Too large to show';
+	const added = lines.filter(l => l.type === 'added').length;
+	const removed = lines.filter(l => l.type === 'removed').length;
+	return `+${added} −${removed}`;
+}
+
+/**
+ * Put a file back as it was before the agent's edit, or remove it if the agent created it
+ * Asks first if the file was changed again since; returns whether it was reverted
+ */
+async function revertFileChange(app: App, change: ChatFileChange): Promise<boolean> {
+	const adapter = app.vault.adapter;
+	const current = (await adapter.exists(change.path)) ? await adapter.read(change.path) : null;
+
+	if (current !== change.after) {
+		const confirmed = await showConfirmModal(
+			app,
+			`${change.path} has changed since the agent edited it. Reverting discards those changes too.`,
+			{ title: 'Revert file?', confirmText: 'Revert', dangerous: true }
+		);
+		if (!confirmed) return false;
+	}
+
+	try {
+		if (change.before === null) {
+			const file = app.vault.getAbstractFileByPath(change.path);
+			if (file instanceof TFile) {
+				await app.fileManager.trashFile(file);
+			}
+		} else {
+			await adapter.write(change.path, change.before);
+		}
+		return true;
+	} catch (error) {
+		new Notice(
+			`Failed to revert ${change.path}: ${error instanceof Error ? error.message : String(error)}`
+		);
+		return false;
+	}
+}
@@ -0,0 +1,57 @@
+/**
+ * ChatHistory - Which earlier messages are sent with a new chat message
+ * Messages covered by the conversation's summary are replaced by it. Once the rest pass the
+ * summary threshold, all but the most recent are sent for the engine to fold into the summary.
+ */
+
+import type { ChatMessage, ChatSummary } from './types';
+
+export interface ChatTurn {
+	role: string;
+	content: string;
+}
+
+export interface ChatHistory {
+	summary?: string;
+	compact: ChatTurn[]; // Older turns the engine summarizes before sending (in full if that fails)
+	compactThrough?: string; // Id of the last message in compact
+	recent: ChatTurn[];
+}
+
+// Messages always sent in full, however long the conversation
+export const RECENT_MESSAGES = 6;
+
+/**
+ * Rough token count (about four characters per token)
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+export function buildChatHistory(
+	messages: ChatMessage[],
+	summary: ChatSummary | null | undefined,
+	threshold: number
+): ChatHistory {
+	// A summary whose last message is gone (e.g. a cleared chat) no longer applies
+	const summaryIndex = summary ? messages.findIndex(m => m.id === summary.throughMessageId) : -1;
+	const unsummarized = messages.slice(summaryIndex + 1).filter(m => m.type !== 'loading');
+
+	const tokens = unsummarized.reduce((total, m) => total + estimateTokens(m.content), 0);
+	const split = tokens > threshold ? Math.max(0, unsummarized.length - RECENT_MESSAGES) : 0;
+	const compact = unsummarized.slice(0, split);
+
+	return {
+		summary: summaryIndex >= 0 ? summary?.content : undefined,
+		compact: compact.map(toTurn),
+		compactThrough: compact.length > 0 ? compact[compact.length - 1].id : undefined,
+		recent: unsummarized.slice(split).map(toTurn),
+	};
+}
+
+function toTurn(message: ChatMessage): ChatTurn {
+	return {
+		role: message.type === 'user' ? 'user' : 'assistant',
+		content: message.content,
+	};
+}
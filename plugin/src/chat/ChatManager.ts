@@ -58,6 +58,10 @@ export class ChatManager {
 		await this.chatWindow.refreshCurrentChat();
 	}
 
+	async saveChatAsNote(): Promise<void> {
+		await this.chatWindow.saveAsNote();
+	}
+
 	// Export conversation storage for external access
 	getConversationStorage() {
 		return this.conversationStorage;
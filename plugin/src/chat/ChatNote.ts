@@ -0,0 +1,127 @@
+/**
+ * ChatNote - A conversation as a markdown note, so Obsidian search, graph and backlinks see it
+ * Messages become callouts and mentioned notes wikilinks; the note is rewritten on each save
+ */
+
+import { type App, normalizePath, TFile } from 'obsidian';
+import { MENTION_REGEX } from '../constants';
+import type { ChatConversation, ChatMessage } from './types';
+
+/**
+ * Link text for a mentioned note (without the @), or null to leave the mention as it is
+ */
+export type MentionLinker = (name: string) => string | null;
+
+/**
+ * Note title: the chat's generated name, or its creation time until it has one
+ */
+export function chatNoteTitle(conversation: ChatConversation): string {
+	const name = conversation.name?.replace(/[\\/:*?"<>|#^[\]]/g, '').trim();
+	return name || fallbackChatNoteTitle(conversation);
+}
+
+export function fallbackChatNoteTitle(conversation: ChatConversation): string {
+	return `Chat ${formatTime(conversation.created).replace(':', '')}`;
+}
+
+export function renderChatNote(conversation: ChatConversation, linkMention: MentionLinker): string {
+	const messages = conversation.messages.filter(m => m.type !== 'loading');
+	const agents = conversation.mentionedAgents ?? [];
+
+	const frontmatter = [
+		'---',
+		// Also tells the engine not to run commands quoted in the messages
+		`spark_conversation: ${conversation.id}`,
+		conversation.name ? `name: ${JSON.stringify(conversation.name)}` : null,
+		`date: ${formatTime(conversation.created).slice(0, 10)}`,
+		`updated: ${conversation.updated}`,
+		agents.length > 0 ? `agents:\n${agents.map(a => `  - ${a}`).join('\n')}` : 'agents: []',
+		'---',
+	].filter(line => line !== null);
+
+	const body = messages.map(message => renderMessage(message, linkMention));
+
+	return `${frontmatter.join('\n')}\n\n# ${conversation.name || fallbackChatNoteTitle(conversation)}\n\n${body.join('\n\n')}\n`;
+}
+
+function renderMessage(message: ChatMessage, linkMention: MentionLinker): string {
+	const author = message.type === 'user' ? 'You' : message.agent || 'Agent';
+	const lines = [
+		`[!${message.type === 'user' ? 'quote' : 'note'}] ${author} · ${formatTime(message.timestamp)}`,
+	];
+
+	lines.push(...linkMentions(message.content, linkMention).split('\n'));
+
+	for (const change of message.fileChanges ?? []) {
+		const status = change.status === 'reverted' ? ' (reverted)' : '';
+		lines.push(`- [[${change.path.replace(/\.md$/, '')}]]${status}`);
+	}
+
+	return lines.map(line => (line ? `> ${line}` : '>')).join('\n');
+}
+
+function linkMentions(content: string, linkMention: MentionLinker): string {
+	return content.replace(MENTION_REGEX, (match, prefix: string, mention: string) => {
+		const link = mention.endsWith('/') ? null : linkMention(mention.slice(1));
+		return link ? `${prefix}[[${link}]]` : match;
+	});
+}
+
+/**
+ * Local date and time as YYYY-MM-DD HH:mm
+ */
+function formatTime(timestamp: string): string {
+	const date = new Date(timestamp);
+	const pad = (n: number) => String(n).padStart(2, '0');
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Write the conversation's note into folder, or update the note it was saved to before
+ * Returns the note's path
+ */
+export async function writeChatNote(
+	app: App,
+	conversation: ChatConversation,
+	folder: string
+): Promise<string> {
+	const existing = conversation.notePath
+		? app.vault.getAbstractFileByPath(conversation.notePath)
+		: null;
+	const notePath = existing instanceof TFile ? existing.path : '';
+	const content = renderChatNote(conversation, name => {
+		const file = app.vault.getMarkdownFiles().find(f => f.basename === name);
+		return file ? app.metadataCache.fileToLinktext(file, notePath) : null;
+	});
+
+	if (existing instanceof TFile) {
+		// A note saved before the chat was named takes the name once it has one
+		if (conversation.name && existing.basename === fallbackChatNoteTitle(conversation)) {
+			const folderPath = existing.parent?.path ?? folder;
+			await app.fileManager.renameFile(
+				existing,
+				await availablePath(app, folderPath, chatNoteTitle(conversation))
+			);
+		}
+		await app.vault.modify(existing, content);
+		return existing.path;
+	}
+
+	const folderPath = normalizePath(folder);
+	if (!(await app.vault.adapter.exists(folderPath))) {
+		await app.vault.createFolder(folderPath);
+	}
+	const file = await app.vault.create(
+		await availablePath(app, folderPath, chatNoteTitle(conversation)),
+		content
+	);
+	return file.path;
+}
+
+async function availablePath(app: App, folder: string, title: string): Promise<string> {
+	let path = normalizePath(`${folder}/${title}.md`);
+	for (let i = 2; await app.vault.adapter.exists(path); i++) {
+		path = normalizePath(`${folder}/${title} ${i}.md`);
+	}
+	return path;
+}
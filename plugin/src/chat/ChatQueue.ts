@@ -1,4 +1,5 @@
 import { type App, normalizePath } from 'obsidian';
+import type { ChatHistory, ChatTurn } from './ChatHistory';
 
 /**
  * Manages writing chat messages to the queue for engine processing
@@ -15,16 +16,18 @@ export class ChatQueue {
 	 * Write a chat message to the queue for engine processing
 	 * @param conversationId - The conversation ID
 	 * @param userMessage - The user's message content
-	 * @param conversationHistory - Previous messages for context
+	 * @param history - Summary and previous messages for context, and older messages to summarize
 	 * @param activeFilePath - Currently active file path for vault context
 	 * @param primaryAgent - Primary agent for this conversation (last mentioned agent)
+	 * @param reply - Agent and model to answer with instead, when regenerating a reply
 	 */
 	async enqueue(
 		conversationId: string,
 		userMessage: string,
-		conversationHistory: Array<{ role: string; content: string }>,
+		history: ChatHistory,
 		activeFilePath?: string,
-		primaryAgent?: string
+		primaryAgent?: string,
+		reply?: { agent?: string; model?: string }
 	): Promise<string> {
 		// Ensure queue directory exists
 		await this.ensureQueueDir();
@@ -45,16 +48,23 @@ export class ChatQueue {
 		if (primaryAgent) {
 			content += `primary_agent: ${primaryAgent}\n`;
 		}
+		if (reply?.agent) {
+			content += `reply_agent: ${reply.agent}\n`;
+		}
+		if (reply?.model) {
+			content += `reply_model: ${reply.model}\n`;
+		}
+		if (history.compactThrough) {
+			content += `summary_through: ${history.compactThrough}\n`;
+		}
 		content += '---\n\n';
 
 		// Add conversation context if available
-		if (conversationHistory.length > 0) {
-			content += '<!-- spark-chat-context -->\n';
-			conversationHistory.forEach(msg => {
-				content += `**${msg.role}**: ${msg.content}\n\n`;
-			});
-			content += '<!-- /spark-chat-context -->\n\n';
+		if (history.summary) {
+			content += `<!-- spark-chat-summary -->\n${history.summary}\n<!-- /spark-chat-summary -->\n\n`;
 		}
+		content += this.formatTurns('compact', history.compact);
+		content += this.formatTurns('context', history.recent);
 
 		// Add the user's current message
 		content += '<!-- spark-chat-message -->\n';
@@ -66,6 +76,16 @@ export class ChatQueue {
 		return queueId;
 	}
 
+	private formatTurns(section: string, turns: ChatTurn[]): string {
+		if (turns.length === 0) return '';
+
+		let content = `<!-- spark-chat-${section} -->\n`;
+		turns.forEach(msg => {
+			content += `**${msg.role}**: ${msg.content}\n\n`;
+		});
+		return `${content}<!-- /spark-chat-${section} -->\n\n`;
+	}
+
 	/**
 	 * Ensure queue directory exists
 	 */
@@ -1,4 +1,5 @@
 import { type App, normalizePath } from 'obsidian';
+import type { ChatFileChange, ChatSummary } from './types';
 
 export interface ChatResult {
 	conversationId: string;
@@ -7,8 +8,12 @@ export interface ChatResult {
 	agent: string;
 	content: string;
 	filesModified?: string[];
+	fileChanges?: ChatFileChange[]; // Content before and after, to review and revert
 	error?: string;
+	kind?: 'name' | 'summary'; // Name or summary update, not part of the reply to queueId
 	conversationName?: string; // Generated chat name from engine
+	summary?: ChatSummary; // New summary of earlier messages
+	partial?: boolean; // Response streamed so far; the final result follows
 }
 
 /**
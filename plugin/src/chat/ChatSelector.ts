@@ -1,22 +1,50 @@
 import { type App, SuggestModal, setIcon } from 'obsidian';
+import { REGEX_ESCAPE_PATTERN } from '../constants';
 import { setCssProps } from '../utils/setCssProps';
+import {
+	type ChatSearchResult,
+	type IndexedConversation,
+	parseChatQuery,
+	searchConversations,
+} from './ConversationIndex';
 import type { ConversationStorage } from './ConversationStorage';
-import type { ChatConversation } from './types';
+
+// Matching messages listed under each conversation
+const MAX_MATCHES_SHOWN = 3;
+
+/**
+ * Set text with each occurrence of the terms wrapped in <mark>
+ */
+function highlightTerms(el: HTMLElement, text: string, terms: string[]): void {
+	const escaped = terms.filter(Boolean).map(t => t.replace(REGEX_ESCAPE_PATTERN, '\\$&'));
+	if (escaped.length === 0) {
+		el.setText(text);
+		return;
+	}
+
+	for (const part of text.split(new RegExp(`(${escaped.join('|')})`, 'gi'))) {
+		if (terms.includes(part.toLowerCase())) {
+			el.createEl('mark', { text: part });
+		} else if (part) {
+			el.appendText(part);
+		}
+	}
+}
 
 /**
- * Modal for selecting conversations
+ * Modal for searching and selecting conversations
  */
-class ConversationSelectModal extends SuggestModal<ChatConversation> {
-	private conversations: ChatConversation[];
-	private onSelect: (conversation: ChatConversation | null) => void;
+class ConversationSelectModal extends SuggestModal<ChatSearchResult> {
+	private conversations: IndexedConversation[];
+	private onSelect: (conversationId: string | null, messageId?: string) => void;
 	private storage: ConversationStorage;
 	private selector: ChatSelector | null;
 
 	constructor(
 		app: App,
 		storage: ConversationStorage,
-		conversations: ChatConversation[],
-		onSelect: (conversation: ChatConversation | null) => void,
+		conversations: IndexedConversation[],
+		onSelect: (conversationId: string | null, messageId?: string) => void,
 		selector?: ChatSelector
 	) {
 		super(app);
@@ -24,23 +52,22 @@ class ConversationSelectModal extends SuggestModal<ChatConversation> {
 		this.conversations = conversations;
 		this.onSelect = onSelect;
 		this.selector = selector || null;
+		this.setPlaceholder('Search chats, or filter by @agent, @folder/ or after:2025-03-01');
+		this.setInstructions([
+			{ command: '@name', purpose: 'with an agent or file' },
+			{ command: '@folder/', purpose: 'touching a folder' },
+			{ command: 'after: before:', purpose: 'by date' },
+		]);
 	}
 
-	// Returns available suggestions.
-	getSuggestions(query: string): ChatConversation[] {
-		// If no query, return all conversations
-		if (!query || query.trim() === '') {
-			return this.conversations;
-		}
-
-		// Otherwise filter by content
-		return this.conversations.filter(conv =>
-			conv.messages.some(msg => msg.content.toLowerCase().includes(query.toLowerCase()))
-		);
+	// Returns conversations matching the query, most recent first.
+	getSuggestions(query: string): ChatSearchResult[] {
+		return searchConversations(this.conversations, query);
 	}
 
 	// Renders each suggestion item.
-	renderSuggestion(conversation: ChatConversation, el: HTMLElement) {
+	renderSuggestion(result: ChatSearchResult, el: HTMLElement) {
+		const conversation = result.conversation;
 		const firstMessage = conversation.messages[0];
 		const date = new Date(conversation.created).toLocaleDateString();
 
@@ -74,6 +101,8 @@ class ConversationSelectModal extends SuggestModal<ChatConversation> {
 			setCssProps(noteEl, { opacity: '0.5' });
 		}
 
+		this.renderMatches(result, contentEl);
+
 		// Add delete button
 		const deleteBtn = contentEl.createDiv({
 			cls: 'spark-conversation-delete-btn',
@@ -88,12 +117,36 @@ class ConversationSelectModal extends SuggestModal<ChatConversation> {
 		el.dataset.conversationId = conversation.id;
 	}
 
+	/**
+	 * Matching messages with the searched words highlighted; clicking one jumps to it
+	 */
+	private renderMatches(result: ChatSearchResult, containerEl: HTMLElement): void {
+		if (result.matches.length === 0) return;
+
+		const terms = parseChatQuery(this.inputEl.value).terms;
+		const matchesEl = containerEl.createDiv({ cls: 'spark-conversation-matches' });
+		for (const match of result.matches.slice(0, MAX_MATCHES_SHOWN)) {
+			const matchEl = matchesEl.createDiv({ cls: 'spark-conversation-match' });
+			highlightTerms(matchEl, match.snippet, terms);
+			matchEl.onclick = (e: MouseEvent) => {
+				e.stopPropagation();
+				this.close();
+				this.onSelect(result.conversation.id, match.messageId);
+			};
+		}
+		if (result.matches.length > MAX_MATCHES_SHOWN) {
+			matchesEl.createDiv({
+				cls: 'spark-conversation-match-more',
+				text: `${result.matches.length - MAX_MATCHES_SHOWN} more matching messages`,
+			});
+		}
+	}
+
 	// Delete a conversation
 	private async deleteConversation(conversationId: string, element: HTMLElement): Promise<void> {
 		try {
 			await this.storage.deleteConversation(conversationId);
 			this.conversations = this.conversations.filter(conv => conv.id !== conversationId);
-
 			// Notify selector to update its cache
 			this.selector?.onConversationDeleted(conversationId);
 
@@ -111,8 +164,8 @@ class ConversationSelectModal extends SuggestModal<ChatConversation> {
 	}
 
 	// Perform action on the selected suggestion.
-	onChooseSuggestion(conversation: ChatConversation, _evt: MouseEvent | KeyboardEvent) {
-		this.onSelect(conversation);
+	onChooseSuggestion(result: ChatSearchResult, _evt: MouseEvent | KeyboardEvent) {
+		this.onSelect(result.conversation.id, result.matches[0]?.messageId);
 	}
 }
 
@@ -124,16 +177,16 @@ export class ChatSelector {
 	private containerEl: HTMLElement;
 	private storage: ConversationStorage;
 	private onNewChat: () => void;
-	private onSelectConversation: (_conversationId: string) => void;
+	private onSelectConversation: (_conversationId: string, _messageId?: string) => void;
 	private onConversationDeletedCallback: ((conversationId: string) => void) | null = null;
 	private activeModal: ConversationSelectModal | null = null;
-	private conversations: ChatConversation[] | null = null;
+	private conversations: IndexedConversation[] | null = null;
 
 	constructor(
 		app: App,
 		storage: ConversationStorage,
 		onNewChat: () => void,
-		onSelectConversation: (conversationId: string) => void
+		onSelectConversation: (conversationId: string, messageId?: string) => void
 	) {
 		this.app = app;
 		this.storage = storage;
@@ -153,7 +206,7 @@ export class ChatSelector {
 	 */
 	async loadConversations(): Promise<void> {
 		try {
-			this.conversations = await this.storage.listConversations();
+			this.conversations = await this.storage.getIndex();
 		} catch (error) {
 			console.error('Failed to load conversations:', error);
 			this.conversations = [];
@@ -236,10 +289,10 @@ export class ChatSelector {
 			this.app,
 			this.storage,
 			this.conversations || [],
-			conversation => {
+			(conversationId, messageId) => {
 				this.activeModal = null;
-				if (conversation) {
-					this.onSelectConversation(conversation.id);
+				if (conversationId) {
+					this.onSelectConversation(conversationId, messageId);
 				}
 			},
 			this
@@ -1,21 +1,64 @@
-import { type App, Component, MarkdownRenderer } from 'obsidian';
+import { type App, Component, MarkdownRenderer, Notice, SuggestModal, setIcon } from 'obsidian';
 import {
 	DEFAULT_CHAT_BOTTOM,
 	DEFAULT_CHAT_HEIGHT,
+	DEFAULT_CHAT_NOTE_FOLDER,
 	DEFAULT_CHAT_RIGHT,
+	DEFAULT_CHAT_SUMMARY_THRESHOLD,
 	DEFAULT_CHAT_WIDTH,
 	MENTION_REGEX,
 } from '../constants';
 import type SparkPlugin from '../main';
 import type { MentionDecorator } from '../mention/MentionDecorator';
 import { MentionInput } from '../mention/MentionInput';
+import { ALL_MODELS, getModelLabel } from '../models';
 import { ResourceService } from '../services/ResourceService';
 import { setCssProps } from '../utils/setCssProps';
+import { branchCount, branchPosition, forkConversation, switchBranch } from './ChatBranches';
+import { renderFileChanges, storableFileChange } from './ChatFileChanges';
+import { buildChatHistory } from './ChatHistory';
+import { writeChatNote } from './ChatNote';
 import { ChatQueue } from './ChatQueue';
 import { type ChatResult, ChatResultWatcher } from './ChatResultWatcher';
 import { ChatSelector } from './ChatSelector';
 import type { ConversationStorage } from './ConversationStorage';
-import type { ChatMessage, ChatState } from './types';
+import type { ChatConversation, ChatMessage, ChatState } from './types';
+
+type ReplyOption = { agent: string } | { model: string };
+
+function describeReplyOption(option: ReplyOption): string {
+	return 'agent' in option ? `@${option.agent}` : getModelLabel(option.model);
+}
+
+/**
+ * Modal for choosing the agent or model that regenerates a reply
+ */
+class RegenerateModal extends SuggestModal<ReplyOption> {
+	private options: ReplyOption[];
+	private onChoose: (option: ReplyOption) => void;
+
+	constructor(app: App, agents: string[], onChoose: (option: ReplyOption) => void) {
+		super(app);
+		this.options = [...agents.map(agent => ({ agent })), ...ALL_MODELS.map(model => ({ model }))];
+		this.onChoose = onChoose;
+		this.setPlaceholder('Regenerate with an agent or model...');
+	}
+
+	getSuggestions(query: string): ReplyOption[] {
+		const lowerQuery = query.toLowerCase();
+		return this.options.filter(option =>
+			describeReplyOption(option).toLowerCase().includes(lowerQuery)
+		);
+	}
+
+	renderSuggestion(option: ReplyOption, el: HTMLElement) {
+		el.setText(describeReplyOption(option));
+	}
+
+	onChooseSuggestion(option: ReplyOption) {
+		this.onChoose(option);
+	}
+}
 
 export class ChatWindow extends Component {
 	private app: App;
@@ -41,6 +84,8 @@ export class ChatWindow extends Component {
 	private resizeStartRight = 0;
 	private resizeStartBottom = 0;
 	private currentResizeCorner: string | null = null;
+	// Note writes run one at a time, so a chat's first saves don't each create a note
+	private noteWrites: Promise<void> = Promise.resolve();
 	private state: ChatState = {
 		isVisible: false,
 		conversationId: null,
@@ -49,6 +94,8 @@ export class ChatWindow extends Component {
 		mentionedAgents: new Set(),
 		lastMentionedAgent: null,
 		conversationName: null, // Auto-generated name from engine
+		summary: null,
+		notePath: null,
 	};
 
 	constructor(app: App, plugin: SparkPlugin, conversationStorage: ConversationStorage) {
@@ -66,8 +113,10 @@ export class ChatWindow extends Component {
 			() => {
 				this.createNewChat();
 			},
-			(conversationId: string) => {
-				void this.switchToConversation(conversationId);
+			(conversationId: string, messageId?: string) => {
+				void this.switchToConversation(conversationId).then(() => {
+					if (messageId) this.revealMessage(messageId);
+				});
 			}
 		);
 	}
@@ -150,6 +199,15 @@ export class ChatWindow extends Component {
 		// Add new chat button
 		this.chatSelector.createRightSide(headerRightEl);
 
+		const noteBtn = document.createElement('button');
+		noteBtn.className = 'spark-chat-note-btn';
+		noteBtn.title = 'Save chat as note';
+		setIcon(noteBtn, 'file-output');
+		noteBtn.onclick = () => {
+			void this.saveAsNote();
+		};
+		headerRightEl.appendChild(noteBtn);
+
 		const closeBtn = document.createElement('button');
 		closeBtn.textContent = '×';
 		closeBtn.className = 'spark-chat-close-btn';
@@ -645,6 +703,8 @@ export class ChatWindow extends Component {
 		this.state.messages = [];
 		this.state.mentionedAgents.clear();
 		this.state.lastMentionedAgent = null;
+		this.state.summary = null;
+		this.state.notePath = null;
 
 		// Try to load existing conversation using ConversationStorage
 		try {
@@ -655,6 +715,8 @@ export class ChatWindow extends Component {
 				this.state.messages = conversation.messages || [];
 				this.state.mentionedAgents = new Set(conversation.mentionedAgents || []);
 				this.state.conversationName = conversation.name || null;
+				this.state.summary = conversation.summary || null;
+				this.state.notePath = conversation.notePath || null;
 
 				// Restore lastMentionedAgent from mentionedAgents set
 				// Use the last agent in the set (most recently added)
@@ -671,7 +733,7 @@ export class ChatWindow extends Component {
 		}
 	}
 
-	private async saveConversation() {
+	private async saveConversation(options: { writeNote?: boolean } = {}) {
 		if (!this.state.conversationId) return;
 
 		// Check if conversation is empty (no real messages, only loading messages)
@@ -691,15 +753,21 @@ export class ChatWindow extends Component {
 		// Load existing conversation to get created timestamp, but use current state for everything else
 		const existing = await this.conversationStorage.loadConversation(this.state.conversationId);
 
-		const conversationData = {
+		const conversationData: ChatConversation = {
 			id: this.state.conversationId,
 			created: existing?.created || new Date().toISOString(),
 			updated: new Date().toISOString(),
 			messages: this.state.messages,
 			mentionedAgents: Array.from(this.state.mentionedAgents),
 			name: this.state.conversationName || undefined, // Use current state, not preserved from storage
+			summary: this.state.summary || undefined,
+			notePath: this.state.notePath || undefined,
 		};
 
+		if (options.writeNote || this.plugin.settings.chatNoteMirror) {
+			await this.writeNote(conversationData, Boolean(options.writeNote));
+		}
+
 		try {
 			await this.conversationStorage.saveConversation(conversationData);
 			// Invalidate cache so dropdown shows updated list
@@ -709,11 +777,56 @@ export class ChatWindow extends Component {
 		}
 	}
 
+	/**
+	 * Save the open chat as a vault note (or update its note) and open it
+	 */
+	async saveAsNote(): Promise<void> {
+		if (!this.state.messages.some(msg => msg.type !== 'loading')) {
+			new Notice('This chat has no messages to save yet');
+			return;
+		}
+
+		await this.saveConversation({ writeNote: true });
+		if (this.state.notePath) {
+			void this.app.workspace.openLinkText(this.state.notePath, '', true);
+		}
+	}
+
+	/**
+	 * Write the conversation's note and remember its path on the conversation
+	 * Failures are only reported when the note was asked for
+	 */
+	private writeNote(conversation: ChatConversation, notify: boolean): Promise<void> {
+		const folder = this.plugin.settings.chatNoteFolder || DEFAULT_CHAT_NOTE_FOLDER;
+		this.noteWrites = this.noteWrites.then(async () => {
+			// An earlier write may have created the note since this save started
+			if (conversation.id === this.state.conversationId) {
+				conversation.notePath = this.state.notePath || conversation.notePath;
+			}
+			try {
+				conversation.notePath = await writeChatNote(this.app, conversation, folder);
+				if (conversation.id === this.state.conversationId) {
+					this.state.notePath = conversation.notePath;
+				}
+				if (notify) {
+					new Notice(`Saved chat to ${conversation.notePath}`);
+				}
+			} catch (error) {
+				console.error('Spark Chat: Failed to save chat as note:', error);
+				if (notify) {
+					new Notice('Failed to save chat as note');
+				}
+			}
+		});
+		return this.noteWrites;
+	}
+
 	private renderAllMessages() {
 		this.messagesEl.empty();
 		this.state.messages.forEach(message => {
 			this.renderMessage(message);
 		});
+		this.renderReplyActions();
 		this.scrollToBottom();
 	}
 
@@ -769,6 +882,7 @@ export class ChatWindow extends Component {
 	addMessage(message: ChatMessage) {
 		this.state.messages.push(message);
 		this.renderMessage(message);
+		this.renderReplyActions();
 		this.scrollToBottom();
 		// Save conversation after adding message
 		void this.saveConversation();
@@ -808,10 +922,202 @@ export class ChatWindow extends Component {
 
 		messageEl.appendChild(contentEl);
 
+		if (message.type === 'user') {
+			this.renderUserMessageActions(message, messageEl, contentEl);
+		}
+
+		// Files the agent edited, with a diff and keep/revert buttons
+		if (message.fileChanges && message.fileChanges.length > 0) {
+			renderFileChanges(this.app, messageEl, message.fileChanges, () => {
+				void this.saveConversation();
+			});
+		}
+
 		// Store message reference for removal
 		this.messageByElement.set(messageEl, message);
 
 		this.messagesEl.appendChild(messageEl);
+
+		if (this.state.summary?.throughMessageId === message.id) {
+			this.renderSummaryDivider(this.state.summary.content);
+		}
+	}
+
+	/**
+	 * Edit button, the agent or model a regenerated message asked for, and the switcher
+	 * between the versions of the conversation from this message on
+	 */
+	private renderUserMessageActions(
+		message: ChatMessage,
+		messageEl: HTMLElement,
+		contentEl: HTMLElement
+	): void {
+		const overrides = [
+			message.targetAgent ? `@${message.targetAgent}` : null,
+			message.model ? getModelLabel(message.model) : null,
+		].filter(Boolean);
+		if (overrides.length > 0) {
+			messageEl.createDiv({
+				cls: 'spark-chat-regenerated',
+				text: `Regenerated with ${overrides.join(' · ')}`,
+			});
+		}
+
+		const actionsEl = messageEl.createDiv({ cls: 'spark-chat-message-actions' });
+		const count = branchCount(message);
+		if (count > 1) {
+			const position = branchPosition(message);
+			this.createActionButton(actionsEl, 'chevron-left', 'Previous version', () => {
+				this.showBranch(message, position - 1);
+			}).disabled = position === 0;
+			actionsEl.createSpan({
+				cls: 'spark-chat-branch-position',
+				text: `${position + 1} / ${count}`,
+			});
+			this.createActionButton(actionsEl, 'chevron-right', 'Next version', () => {
+				this.showBranch(message, position + 1);
+			}).disabled = position === count - 1;
+		}
+		this.createActionButton(actionsEl, 'pencil', 'Edit message', () => {
+			this.editMessage(message, contentEl);
+		});
+	}
+
+	/**
+	 * Regenerate buttons under the latest reply
+	 */
+	private renderReplyActions(): void {
+		this.messagesEl.querySelectorAll('.spark-chat-reply-actions').forEach(el => {
+			el.remove();
+		});
+
+		const messages = this.state.messages;
+		const last = messages[messages.length - 1];
+		if (!last || last.type !== 'agent') return;
+
+		let userIndex = messages.length - 1;
+		while (userIndex >= 0 && messages[userIndex].type !== 'user') userIndex--;
+		if (userIndex < 0) return;
+		const userMessage = messages[userIndex];
+
+		const lastEl = Array.from(
+			this.messagesEl.querySelectorAll<HTMLElement>('.spark-chat-message')
+		).find(el => this.messageByElement.get(el)?.id === last.id);
+		if (!lastEl) return;
+
+		const actionsEl = lastEl.createDiv({
+			cls: 'spark-chat-message-actions spark-chat-reply-actions',
+		});
+		this.createActionButton(actionsEl, 'refresh-cw', 'Regenerate response', () => {
+			this.regenerateReply(userMessage);
+		});
+		this.createActionButton(actionsEl, 'bot', 'Regenerate with another agent or model', () => {
+			void this.resourceService.getAgentNames().then(agents => {
+				new RegenerateModal(this.app, agents, option => {
+					this.regenerateReply(
+						userMessage,
+						'agent' in option
+							? { targetAgent: option.agent, model: undefined }
+							: { targetAgent: userMessage.targetAgent, model: option.model }
+					);
+				}).open();
+			});
+		});
+	}
+
+	private createActionButton(
+		containerEl: HTMLElement,
+		icon: string,
+		label: string,
+		onClick: () => void
+	): HTMLButtonElement {
+		const button = containerEl.createEl('button', { cls: 'spark-chat-message-action' });
+		setIcon(button, icon);
+		button.setAttribute('aria-label', label);
+		button.addEventListener('click', onClick);
+		return button;
+	}
+
+	/**
+	 * Edit a sent message in place; saving sends it as a new version of the conversation
+	 */
+	private editMessage(message: ChatMessage, contentEl: HTMLElement): void {
+		if (this.state.isProcessing) return;
+
+		contentEl.empty();
+		const editorEl = contentEl.createEl('textarea', { cls: 'spark-chat-edit-input' });
+		editorEl.value = message.content;
+
+		const buttonsEl = contentEl.createDiv({ cls: 'spark-chat-edit-actions' });
+		buttonsEl.createEl('button', { text: 'Cancel' }).addEventListener('click', () => {
+			this.renderAllMessages();
+		});
+		buttonsEl
+			.createEl('button', { cls: 'mod-cta', text: 'Save and send' })
+			.addEventListener('click', () => {
+				const content = editorEl.value.trim();
+				if (!content) return;
+				this.resendFrom(message, {
+					id: this.generateId(),
+					timestamp: new Date().toISOString(),
+					type: 'user',
+					content,
+				});
+			});
+
+		editorEl.focus();
+	}
+
+	/**
+	 * Send the message again for a new reply, optionally from another agent or model
+	 */
+	private regenerateReply(
+		message: ChatMessage,
+		reply: Pick<ChatMessage, 'targetAgent' | 'model'> = message
+	): void {
+		this.resendFrom(message, {
+			id: this.generateId(),
+			timestamp: new Date().toISOString(),
+			type: 'user',
+			content: message.content,
+			targetAgent: reply.targetAgent,
+			model: reply.model,
+		});
+	}
+
+	/**
+	 * Start a new version of the conversation at message, keeping the old one as a branch
+	 */
+	private resendFrom(message: ChatMessage, replacement: ChatMessage): void {
+		if (this.state.isProcessing) return;
+
+		const index = this.state.messages.findIndex(m => m.id === message.id);
+		if (index < 0) return;
+
+		this.state.messages = forkConversation(this.state.messages, index, replacement);
+		this.renderAllMessages();
+		void this.saveConversation();
+		void this.processMessage(this.state.messages[index]);
+	}
+
+	private showBranch(message: ChatMessage, position: number): void {
+		if (this.state.isProcessing) return;
+
+		const index = this.state.messages.findIndex(m => m.id === message.id);
+		if (index < 0) return;
+
+		this.state.messages = switchBranch(this.state.messages, index, position);
+		this.renderAllMessages();
+		void this.saveConversation();
+	}
+
+	/**
+	 * Divider after the last summarized message; the messages above are no longer sent in full
+	 */
+	private renderSummaryDivider(summary: string): void {
+		const dividerEl = this.messagesEl.createEl('details', { cls: 'spark-chat-summary-divider' });
+		dividerEl.createEl('summary', { text: 'Earlier messages summarized' });
+		dividerEl.createDiv({ cls: 'spark-chat-summary-content', text: summary });
 	}
 
 	private async extractAgentNames(content: string): Promise<string[]> {
@@ -883,6 +1189,8 @@ export class ChatWindow extends Component {
 		this.state.mentionedAgents.clear();
 		this.state.conversationId = this.generateConversationId();
 		this.state.conversationName = null; // Clear name for new chat
+		this.state.summary = null;
+		this.state.notePath = null;
 		this.messagesEl.empty();
 		this.updateChatTitle();
 		this.chatSelector.update(this.state.conversationId);
@@ -909,6 +1217,20 @@ export class ChatWindow extends Component {
 		this.chatSelector.invalidateCache();
 	}
 
+	/**
+	 * Scroll to a message found by search and highlight it briefly
+	 */
+	private revealMessage(messageId: string): void {
+		const messageEl = Array.from(
+			this.messagesEl.querySelectorAll<HTMLElement>('.spark-chat-message')
+		).find(el => this.messageByElement.get(el)?.id === messageId);
+		if (!messageEl) return;
+
+		messageEl.scrollIntoView({ block: 'center' });
+		messageEl.addClass('is-search-match');
+		window.setTimeout(() => messageEl.removeClass('is-search-match'), 2000);
+	}
+
 	// Public methods for ChatManager access
 	getMessages(): ChatMessage[] {
 		return [...this.state.messages]; // Return copy
@@ -926,6 +1248,8 @@ export class ChatWindow extends Component {
 		this.state.messages = [];
 		this.state.mentionedAgents.clear();
 		this.state.lastMentionedAgent = null;
+		this.state.summary = null;
+		this.state.notePath = null;
 		this.state.conversationId = this.generateConversationId();
 		this.messagesEl.empty();
 		this.updateChatTitle();
@@ -959,6 +1283,7 @@ export class ChatWindow extends Component {
 				// Update in-memory state with the updated messages (agent names, mentions)
 				this.state.messages = conversation.messages || [];
 				this.state.mentionedAgents = new Set(conversation.mentionedAgents || []);
+				this.state.summary = conversation.summary || null;
 
 				// Update lastMentionedAgent from mentionedAgents set
 				const agentsArray = Array.from(this.state.mentionedAgents);
@@ -1038,7 +1363,7 @@ export class ChatWindow extends Component {
 
 		// Check if this is the first message with no agents in the conversation
 		const hasAgentsInConversation = this.state.mentionedAgents.size > 0;
-		const hasAgentsInMessage = agentNames.length > 0;
+		const hasAgentsInMessage = agentNames.length > 0 || Boolean(message.targetAgent);
 
 		// If no agents mentioned at all and no agents in conversation, show suggestion
 		if (!hasAgentsInConversation && !hasAgentsInMessage) {
@@ -1066,7 +1391,8 @@ export class ChatWindow extends Component {
 		this.updateChatTitle(Array.from(this.state.mentionedAgents));
 
 		// Show loading message with agent name
-		const agentName = this.state.lastMentionedAgent || 'Agent';
+		// A regenerated reply's agent answers this message only; it doesn't join the conversation
+		const agentName = message.targetAgent || this.state.lastMentionedAgent || 'Agent';
 		const capitalizedAgentName = agentName.charAt(0).toUpperCase() + agentName.slice(1);
 		const loadingMessage: ChatMessage = {
 			id: this.generateId(),
@@ -1079,13 +1405,11 @@ export class ChatWindow extends Component {
 
 		try {
 			// Build conversation history for context (exclude current message)
-			const history = this.state.messages
-				.filter(msg => msg.type !== 'loading' && msg.id !== message.id)
-				.slice(-10) // Last 10 messages for context
-				.map(msg => ({
-					role: msg.type === 'user' ? 'user' : 'assistant',
-					content: msg.content,
-				}));
+			const history = buildChatHistory(
+				this.state.messages.filter(msg => msg.id !== message.id),
+				this.state.summary,
+				this.plugin.settings.chatSummaryThreshold ?? DEFAULT_CHAT_SUMMARY_THRESHOLD
+			);
 
 			// Enqueue message for engine processing
 			if (this.state.conversationId) {
@@ -1098,7 +1422,8 @@ export class ChatWindow extends Component {
 					message.content,
 					history,
 					activeFilePath,
-					this.state.lastMentionedAgent || undefined
+					this.state.lastMentionedAgent || undefined,
+					{ agent: message.targetAgent, model: message.model }
 				);
 			}
 		} catch (error) {
@@ -1121,9 +1446,19 @@ export class ChatWindow extends Component {
 	 * Handle result from engine
 	 */
 	private handleEngineResult(result: ChatResult): void {
-		const isFinalResult = Boolean(result.content || result.error);
 		const isActiveConversation = result.conversationId === this.state.conversationId;
 
+		// Streamed text is only shown while the conversation is open; it is never saved
+		if (result.partial) {
+			if (isActiveConversation) {
+				this.renderPartialResult(result);
+			}
+			return;
+		}
+
+		// Name and summary updates may arrive before or after the reply
+		const isFinalResult = !result.kind && Boolean(result.content || result.error);
+
 		if (isActiveConversation) {
 			this.handleActiveConversationResult(result, isFinalResult);
 		} else {
@@ -1150,11 +1485,32 @@ export class ChatWindow extends Component {
 			this.addFilesModifiedNotification(result);
 		}
 
-		this.state.isProcessing = false;
+		if (!result.kind) {
+			this.state.isProcessing = false;
+		}
 
 		if (result.conversationName) {
 			void this.updateConversationName(result.conversationName);
 		}
+
+		if (result.summary) {
+			this.state.summary = result.summary;
+			this.renderAllMessages();
+			void this.saveConversation();
+		}
+	}
+
+	/**
+	 * Show the response streamed so far in place of the typing indicator
+	 */
+	private renderPartialResult(result: ChatResult): void {
+		const loadingEls = this.messagesEl.querySelectorAll<HTMLElement>('.spark-chat-loading');
+		const loadingEl = loadingEls[loadingEls.length - 1];
+		const contentEl = loadingEl?.querySelector<HTMLElement>('.spark-chat-message-content');
+		if (!loadingEl || !contentEl) return;
+
+		loadingEl.addClass('spark-chat-streaming');
+		void this.renderMarkdown(result.content, contentEl).then(() => this.scrollToBottom());
 	}
 
 	private removeLoadingMessages(): void {
@@ -1188,16 +1544,29 @@ export class ChatWindow extends Component {
 	}
 
 	private addFilesModifiedNotification(result: ChatResult): void {
-		if (!result.filesModified || result.filesModified.length === 0) return;
+		const notificationMessage = this.createFilesModifiedMessage(result);
+		if (notificationMessage) {
+			this.addMessage(notificationMessage);
+		}
+	}
+
+	/**
+	 * Message listing the files the agent modified; with their contents, each can be reviewed and reverted
+	 */
+	private createFilesModifiedMessage(result: ChatResult): ChatMessage | null {
+		if (!result.filesModified || result.filesModified.length === 0) return null;
 
-		const notificationMessage: ChatMessage = {
+		const header = `📝 Modified ${result.filesModified.length} file(s)`;
+		return {
 			id: this.generateId(),
 			timestamp: new Date(result.timestamp).toISOString(),
 			type: 'agent',
-			content: `📝 Modified ${result.filesModified.length} file(s):\n${result.filesModified.map(f => `  • ${f}`).join('\n')}`,
+			content: result.fileChanges
+				? `${header}:`
+				: `${header}:\n${result.filesModified.map(f => `  • ${f}`).join('\n')}`,
 			agent: 'Spark Assistant',
+			fileChanges: result.fileChanges?.map(storableFileChange),
 		};
-		this.addMessage(notificationMessage);
 	}
 
 	/**
@@ -1215,8 +1584,10 @@ export class ChatWindow extends Component {
 				return;
 			}
 
-			// Remove loading messages
-			conversation.messages = conversation.messages.filter(msg => msg.type !== 'loading');
+			// Remove loading messages once the reply arrives
+			if (!result.kind) {
+				conversation.messages = conversation.messages.filter(msg => msg.type !== 'loading');
+			}
 
 			// Add response
 			if (result.error) {
@@ -1227,7 +1598,7 @@ export class ChatWindow extends Component {
 					content: `❌ Error: ${result.error}`,
 					agent: result.agent || 'Spark Assistant',
 				});
-			} else {
+			} else if (result.content) {
 				conversation.messages.push({
 					id: this.generateId(),
 					timestamp: new Date(result.timestamp).toISOString(),
@@ -1238,14 +1609,9 @@ export class ChatWindow extends Component {
 				});
 
 				// Add file modification notification
-				if (result.filesModified && result.filesModified.length > 0) {
-					conversation.messages.push({
-						id: this.generateId(),
-						timestamp: new Date(result.timestamp).toISOString(),
-						type: 'agent',
-						content: `📝 Modified ${result.filesModified.length} file(s):\n${result.filesModified.map(f => `  • ${f}`).join('\n')}`,
-						agent: 'Spark Assistant',
-					});
+				const notificationMessage = this.createFilesModifiedMessage(result);
+				if (notificationMessage) {
+					conversation.messages.push(notificationMessage);
 				}
 			}
 
@@ -1253,9 +1619,15 @@ export class ChatWindow extends Component {
 			if (result.conversationName) {
 				conversation.name = result.conversationName;
 			}
+			if (result.summary) {
+				conversation.summary = result.summary;
+			}
 
 			// Save updated conversation
 			conversation.updated = new Date().toISOString();
+			if (this.plugin.settings.chatNoteMirror) {
+				await this.writeNote(conversation, false);
+			}
 			await this.conversationStorage.saveConversation(conversation);
 			this.chatSelector.invalidateCache();
 		} catch (error) {
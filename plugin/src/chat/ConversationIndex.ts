@@ -0,0 +1,201 @@
+/**
+ * ConversationIndex - Searchable summary of each saved conversation
+ * Queries combine words (all must appear in a message or the chat name), @agent or @file
+ * filters, @folder/ filters and after:/before: dates, e.g. "@betty @tasks/ invoice after:2025-03-01"
+ */
+
+import { MENTION_REGEX } from '../constants';
+import type { ChatConversation, ChatMessage } from './types';
+
+export interface IndexedMessage {
+	id: string;
+	type: 'user' | 'agent';
+	agent?: string;
+	content: string;
+}
+
+export interface IndexedConversation {
+	id: string;
+	name?: string;
+	created: string;
+	lastActivity: string; // Latest message, or creation if there are none
+	modified: number; // File modification time the entry was built from
+	agents: string[];
+	mentions: string[]; // @mentions other than agents, e.g. "@tasks/" or "@meeting-notes"
+	files: string[]; // Vault files the agents edited
+	messages: IndexedMessage[];
+}
+
+export interface ChatQuery {
+	terms: string[];
+	filters: string[]; // Without the @
+	after?: number;
+	before?: number;
+}
+
+export interface ChatMatch {
+	messageId: string;
+	snippet: string;
+}
+
+export interface ChatSearchResult {
+	conversation: IndexedConversation;
+	matches: ChatMatch[];
+}
+
+// Characters of context around the first match in a message
+const SNIPPET_CONTEXT = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function indexConversation(
+	conversation: ChatConversation,
+	modified: number
+): IndexedConversation {
+	const messages = conversation.messages.filter(m => m.type !== 'loading');
+	const agents = new Set(conversation.mentionedAgents ?? []);
+	const mentions = new Set<string>();
+	const files = new Set<string>();
+
+	for (const message of messages) {
+		collectReferences(message, agents, mentions, files);
+	}
+	for (const agent of agents) mentions.delete(`@${agent}`);
+
+	const last = messages[messages.length - 1];
+	return {
+		id: conversation.id,
+		name: conversation.name,
+		created: conversation.created,
+		lastActivity: last?.timestamp ?? conversation.created,
+		modified,
+		agents: [...agents],
+		mentions: [...mentions],
+		files: [...files],
+		messages: messages.map(m => ({
+			id: m.id,
+			type: m.type === 'user' ? 'user' : 'agent',
+			agent: m.agent,
+			content: m.content,
+		})),
+	};
+}
+
+function collectReferences(
+	message: ChatMessage,
+	agents: Set<string>,
+	mentions: Set<string>,
+	files: Set<string>
+): void {
+	if (message.agent && message.agent !== 'Spark Assistant') agents.add(message.agent);
+	if (message.targetAgent) agents.add(message.targetAgent);
+	for (const mention of message.content.match(MENTION_REGEX) ?? []) {
+		mentions.add(mention);
+	}
+	for (const path of message.filesModified ?? []) files.add(path);
+	for (const change of message.fileChanges ?? []) files.add(change.path);
+}
+
+export function parseChatQuery(query: string): ChatQuery {
+	const parsed: ChatQuery = { terms: [], filters: [] };
+
+	for (const word of query.trim().split(/\s+/).filter(Boolean)) {
+		const date = word.match(/^(after|before):(\d{4}-\d{2}-\d{2})$/);
+		const time = date ? Date.parse(date[2]) : Number.NaN;
+		if (date && !Number.isNaN(time)) {
+			// before: includes the whole day
+			if (date[1] === 'after') parsed.after = time;
+			else parsed.before = time + DAY_MS;
+		} else if (word.length > 1 && word.startsWith('@')) {
+			parsed.filters.push(word.slice(1).toLowerCase());
+		} else {
+			parsed.terms.push(word.toLowerCase());
+		}
+	}
+
+	return parsed;
+}
+
+/**
+ * Conversations matching the query, most recent first, with the messages that contain its words
+ */
+export function searchConversations(
+	conversations: IndexedConversation[],
+	query: string
+): ChatSearchResult[] {
+	const parsed = parseChatQuery(query);
+	const results: ChatSearchResult[] = [];
+
+	for (const conversation of conversations) {
+		if (!inDateRange(conversation, parsed)) continue;
+		if (!parsed.filters.every(filter => matchesFilter(conversation, filter))) continue;
+
+		const matches = findMatches(conversation, parsed.terms);
+		const nameMatches = parsed.terms.every(term =>
+			(conversation.name ?? '').toLowerCase().includes(term)
+		);
+		if (parsed.terms.length > 0 && matches.length === 0 && !nameMatches) continue;
+
+		results.push({ conversation, matches });
+	}
+
+	return results.sort(
+		(a, b) =>
+			new Date(b.conversation.lastActivity).getTime() -
+			new Date(a.conversation.lastActivity).getTime()
+	);
+}
+
+function inDateRange(conversation: IndexedConversation, query: ChatQuery): boolean {
+	const time = new Date(conversation.lastActivity).getTime();
+	if (query.after !== undefined && time < query.after) return false;
+	if (query.before !== undefined && time >= query.before) return false;
+	return true;
+}
+
+/**
+ * @name matches an agent or mentioned file; @folder/ matches a mentioned folder or files edited in it
+ */
+function matchesFilter(conversation: IndexedConversation, filter: string): boolean {
+	const lower = (values: string[]) => values.map(v => v.toLowerCase());
+
+	if (filter.endsWith('/')) {
+		return (
+			lower(conversation.mentions).some(m => m.startsWith(`@${filter}`)) ||
+			lower(conversation.files).some(f => f.startsWith(filter))
+		);
+	}
+
+	return (
+		lower(conversation.agents).includes(filter) ||
+		lower(conversation.mentions).includes(`@${filter}`) ||
+		lower(conversation.files).some(f => baseName(f) === filter)
+	);
+}
+
+function baseName(path: string): string {
+	return (path.split('/').pop() ?? path).replace(/\.md$/, '');
+}
+
+function findMatches(conversation: IndexedConversation, terms: string[]): ChatMatch[] {
+	if (terms.length === 0) return [];
+
+	return conversation.messages
+		.filter(message => {
+			const content = message.content.toLowerCase();
+			return terms.every(term => content.includes(term));
+		})
+		.map(message => ({ messageId: message.id, snippet: snippetAround(message.content, terms[0]) }));
+}
+
+/**
+ * The part of the text around the first occurrence of term, on one line
+ */
+export function snippetAround(text: string, term: string): string {
+	const flat = text.replace(/\s+/g, ' ').trim();
+	const index = flat.toLowerCase().indexOf(term.toLowerCase());
+	if (index < 0) return flat.slice(0, SNIPPET_CONTEXT * 2);
+
+	const start = Math.max(0, index - SNIPPET_CONTEXT);
+	const end = Math.min(flat.length, index + term.length + SNIPPET_CONTEXT);
+	return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+}
@@ -1,10 +1,14 @@
 import { type App, normalizePath } from 'obsidian';
 import { CHAT_FILENAME_REGEX, REGEX_ESCAPE_PATTERN } from '../constants';
+import { type IndexedConversation, indexConversation } from './ConversationIndex';
 import type { ChatConversation } from './types';
 
 export class ConversationStorage {
 	private app: App;
 	private conversationsDir = '.spark/conversations';
+	// Search index, kept in sync with the conversation files by modification time
+	private indexPath = '.spark/conversations/index.json';
+	private index: Map<string, IndexedConversation> | null = null;
 
 	constructor(app: App) {
 		this.app = app;
@@ -70,6 +74,76 @@ export class ConversationStorage {
 		}
 	}
 
+	/**
+	 * Search index entries for all conversations
+	 * Only conversations whose file changed since they were indexed are read again
+	 */
+	async getIndex(): Promise<IndexedConversation[]> {
+		try {
+			const index = this.index ?? (await this.loadIndex());
+			const files = (await this.app.vault.adapter.exists(this.conversationsDir))
+				? (await this.app.vault.adapter.list(this.conversationsDir)).files
+				: [];
+			const ids = new Set<string>();
+			let changed = false;
+
+			for (const file of files) {
+				if (!file.includes('chat-')) continue;
+				const id = file.replace(`${this.conversationsDir}/`, '').replace('.json', '');
+				ids.add(id);
+
+				const stat = await this.app.vault.adapter.stat(file);
+				const mtime = stat?.mtime ?? 0;
+				if (index.get(id)?.modified === mtime) continue;
+
+				const conversation = await this.loadConversation(id);
+				if (conversation) {
+					index.set(id, indexConversation(conversation, mtime));
+					changed = true;
+				}
+			}
+
+			for (const id of index.keys()) {
+				if (!ids.has(id)) {
+					index.delete(id);
+					changed = true;
+				}
+			}
+
+			this.index = index;
+			if (changed) {
+				await this.saveIndex();
+			}
+			return Array.from(index.values());
+		} catch (error) {
+			console.error('ConversationStorage: Failed to index conversations:', error);
+			return [];
+		}
+	}
+
+	private async loadIndex(): Promise<Map<string, IndexedConversation>> {
+		try {
+			const content = await this.app.vault.adapter.read(this.indexPath);
+			const entries = JSON.parse(content) as IndexedConversation[];
+			return new Map(entries.map(entry => [entry.id, entry]));
+		} catch {
+			// Missing or unreadable index: rebuilt from the conversation files
+			return new Map();
+		}
+	}
+
+	private async saveIndex(): Promise<void> {
+		if (!this.index) return;
+		try {
+			await this.app.vault.adapter.write(
+				this.indexPath,
+				JSON.stringify(Array.from(this.index.values()))
+			);
+		} catch (error) {
+			console.warn('ConversationStorage: Failed to save search index:', error);
+		}
+	}
+
 	async deleteConversation(id: string): Promise<void> {
 		try {
 			const filePath = normalizePath(`${this.conversationsDir}/${id}.json`);
@@ -5,6 +5,22 @@ export interface ChatMessage {
 	content: string;
 	agent?: string;
 	filesModified?: string[];
+	fileChanges?: ChatFileChange[]; // Agent edits to review, on the "Modified files" message
+	targetAgent?: string; // Agent asked to answer a regenerated message
+	model?: string; // Model asked to answer a regenerated message
+	branches?: ChatMessage[][]; // Other versions of the conversation from this message on
+	branchIndex?: number; // Position of this message's version among them
+}
+
+/**
+ * A vault file the agent changed, with its content before and after
+ */
+export interface ChatFileChange {
+	path: string;
+	before: string | null; // null when the agent created the file
+	after: string | null;
+	status?: 'kept' | 'reverted';
+	omitted?: boolean; // Contents not kept (the file was too large), so no diff or revert
 }
 
 export interface ChatConversation {
@@ -14,6 +30,16 @@ export interface ChatConversation {
 	messages: ChatMessage[];
 	mentionedAgents?: string[];
 	name?: string; // Auto-generated chat name
+	summary?: ChatSummary;
+	notePath?: string; // Vault note the conversation was saved to
+}
+
+/**
+ * Summary of the messages up to and including throughMessageId, sent in their place
+ */
+export interface ChatSummary {
+	content: string;
+	throughMessageId: string;
 }
 
 export interface ChatState {
@@ -24,4 +50,6 @@ export interface ChatState {
 	mentionedAgents: Set<string>;
 	lastMentionedAgent: string | null; // Most recently mentioned agent (for conversation continuity)
 	conversationName: string | null; // Auto-generated name from engine
+	summary: ChatSummary | null; // Summary of earlier messages from engine
+	notePath: string | null; // Vault note the conversation was saved to
 }
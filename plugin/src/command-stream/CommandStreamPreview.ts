@@ -0,0 +1,148 @@
+/**
+ * CommandStreamPreview - Shows a slash command's answer below the command while it streams
+ * The engine writes the text so far to .spark/command-stream/ and only edits the note once,
+ * with the final result
+ */
+
+import { RangeSetBuilder } from '@codemirror/state';
+import {
+	Decoration,
+	type DecorationSet,
+	type EditorView,
+	ViewPlugin,
+	type ViewUpdate,
+	WidgetType,
+} from '@codemirror/view';
+import { type App, editorInfoField, normalizePath } from 'obsidian';
+import { COMMAND_STREAM_DIR } from '../constants';
+
+/**
+ * Text streamed so far for the command on a note's line (1-based)
+ */
+export interface CommandStream {
+	file: string;
+	line: number;
+	text: string;
+}
+
+export class CommandStreamPreview {
+	private app: App;
+	private streams: CommandStream[] = [];
+	private interval: number | null = null;
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/**
+	 * Poll for streamed results every 500ms, like chat results
+	 */
+	start(): void {
+		this.interval = window.setInterval(() => {
+			void this.refresh();
+		}, 500);
+	}
+
+	stop(): void {
+		if (this.interval !== null) {
+			window.clearInterval(this.interval);
+			this.interval = null;
+		}
+	}
+
+	/**
+	 * Create the editor extension showing the streams for the open note
+	 */
+	createExtension() {
+		const buildDecorations = (view: EditorView) => this.buildDecorations(view);
+
+		return ViewPlugin.fromClass(
+			class {
+				decorations: DecorationSet;
+
+				constructor(view: EditorView) {
+					this.decorations = buildDecorations(view);
+				}
+
+				update(update: ViewUpdate) {
+					this.decorations = buildDecorations(update.view);
+				}
+			},
+			{
+				decorations: v => v.decorations,
+			}
+		);
+	}
+
+	private async refresh(): Promise<void> {
+		const streams = await this.readStreams();
+		if (JSON.stringify(streams) === JSON.stringify(this.streams)) {
+			return;
+		}
+		this.streams = streams;
+		this.forceEditorUpdates();
+	}
+
+	private async readStreams(): Promise<CommandStream[]> {
+		const dir = normalizePath(COMMAND_STREAM_DIR);
+		if (!(await this.app.vault.adapter.exists(dir))) {
+			return [];
+		}
+
+		const streams: CommandStream[] = [];
+		const listing = await this.app.vault.adapter.list(dir);
+		for (const path of listing.files.filter(f => f.endsWith('.json'))) {
+			try {
+				streams.push(JSON.parse(await this.app.vault.adapter.read(path)) as CommandStream);
+			} catch {
+				// Removed or half-written between checks - the next poll catches up
+			}
+		}
+		return streams.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+	}
+
+	private buildDecorations(view: EditorView): DecorationSet {
+		const builder = new RangeSetBuilder<Decoration>();
+		const path = view.state.field(editorInfoField, false)?.file?.path;
+		const doc = view.state.doc;
+
+		for (const stream of this.streams) {
+			if (stream.file !== path || stream.line < 1 || stream.line > doc.lines) continue;
+			const line = doc.line(stream.line);
+			builder.add(
+				line.to,
+				line.to,
+				Decoration.widget({ widget: new StreamWidget(stream.text), side: 1 })
+			);
+		}
+
+		return builder.finish();
+	}
+
+	private forceEditorUpdates(): void {
+		this.app.workspace.iterateAllLeaves(leaf => {
+			// @ts-expect-error - Accessing internal Obsidian API
+			if (leaf.view?.getViewType?.() === 'markdown' && leaf.view?.editor?.cm) {
+				// @ts-expect-error - Accessing CodeMirror internal API
+				leaf.view.editor.cm.dispatch({});
+			}
+		});
+	}
+}
+
+class StreamWidget extends WidgetType {
+	constructor(private readonly text: string) {
+		super();
+	}
+
+	eq(other: StreamWidget): boolean {
+		return other.text === this.text;
+	}
+
+	toDOM(): HTMLElement {
+		const el = document.createElement('div');
+		el.className = 'spark-command-stream';
+		el.textContent = this.text;
+		return el;
+	}
+}
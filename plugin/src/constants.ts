@@ -62,6 +62,16 @@ export const TEMP_MARKER_BLOCK_REGEX =
 export const ENGINE_MARKER_BLOCK_REGEX =
 	/<!--\s*spark-inline-chat:pending:[\w-]+:[^>]+\s*-->\n[\s\S]*?<!--\s*\/spark-inline-chat\s*-->\n?/g;
 
+/**
+ * Folder where the engine streams partial inline chat responses (<uuid>.txt)
+ */
+export const INLINE_CHAT_STREAM_DIR = '.spark/inline-chat-stream';
+
+/**
+ * Folder where the engine streams partial slash command results (<hash>.json)
+ */
+export const COMMAND_STREAM_DIR = '.spark/command-stream';
+
 /**
  * Default chat window dimensions
  */
@@ -69,3 +79,13 @@ export const DEFAULT_CHAT_WIDTH = 512;
 export const DEFAULT_CHAT_HEIGHT = 682;
 export const DEFAULT_CHAT_RIGHT = 0;
 export const DEFAULT_CHAT_BOTTOM = 27;
+
+/**
+ * Estimated tokens of unsummarized chat history after which older messages are summarized
+ */
+export const DEFAULT_CHAT_SUMMARY_THRESHOLD = 8000;
+
+/**
+ * Folder chats are saved to as notes
+ */
+export const DEFAULT_CHAT_NOTE_FOLDER = 'Chats';
@@ -4,11 +4,12 @@
  */
 
 import type { App, Editor, TFile } from 'obsidian';
-import { Notice } from 'obsidian';
+import { Notice, normalizePath } from 'obsidian';
 import {
 	AGENT_PREFIX_REGEX,
 	INLINE_CHAT_PENDING_MARKER_REGEX,
 	INLINE_CHAT_START_MARKER_REGEX,
+	INLINE_CHAT_STREAM_DIR,
 } from '../constants';
 import type { MentionDecorator } from '../mention/MentionDecorator';
 import { ResultWriter } from '../services/ResultWriter';
@@ -38,6 +39,8 @@ export class InlineChatManager {
 	private agentMentionCompleteHandler: EventListener | null = null;
 	private currentFilePath: string = ''; // Track current file with active markers
 	private isAdjustingContent: boolean = false; // Track when we're programmatically modifying content
+	private widgetChatUuid: string = ''; // Pending chat shown in the processing widget
+	private streamPollInterval: number | null = null;
 
 	private constructor(app: App, mentionDecorator: MentionDecorator) {
 		this.app = app;
@@ -440,6 +443,10 @@ export class InlineChatManager {
 			timestamp: Date.now(),
 		});
 
+		// Show the response in the widget while the engine streams it
+		this.widgetChatUuid = uuid;
+		this.startStreamPolling();
+
 		// Extract clean user message (remove @agent prefix)
 		const cleanMessage = message.replace(AGENT_PREFIX_REGEX, '').trim();
 
@@ -485,6 +492,56 @@ export class InlineChatManager {
 		// State will be reset when completion is detected in handleFileModify()
 	}
 
+	/**
+	 * Poll the engine's stream file for the chat shown in the widget
+	 * Files under .spark/ don't raise vault events, so they are read through the adapter
+	 */
+	private startStreamPolling(): void {
+		if (this.streamPollInterval !== null) {
+			return;
+		}
+
+		this.streamPollInterval = window.setInterval(() => {
+			void this.showStreamedResponse();
+		}, 500);
+	}
+
+	private stopStreamPolling(): void {
+		if (this.streamPollInterval !== null) {
+			window.clearInterval(this.streamPollInterval);
+			this.streamPollInterval = null;
+		}
+	}
+
+	/**
+	 * Show the partial response for the widget's chat, if the engine has streamed any
+	 */
+	private async showStreamedResponse(): Promise<void> {
+		if (this.pendingChats.size === 0) {
+			this.stopStreamPolling();
+			return;
+		}
+
+		const uuid = this.widgetChatUuid;
+		if (!uuid || !this.pendingChats.has(uuid) || !this.activeWidget?.isVisible()) {
+			return;
+		}
+
+		const streamPath = normalizePath(`${INLINE_CHAT_STREAM_DIR}/${uuid}.txt`);
+		try {
+			if (!(await this.app.vault.adapter.exists(streamPath))) {
+				return;
+			}
+			const text = await this.app.vault.adapter.read(streamPath);
+			// The chat may have completed while reading
+			if (this.widgetChatUuid === uuid && text) {
+				this.activeWidget?.showPartialResponse(text);
+			}
+		} catch {
+			// Stream file removed between checks - the final response is on its way
+		}
+	}
+
 	/**
 	 * Handle cancel button click
 	 */
@@ -515,6 +572,7 @@ export class InlineChatManager {
 	 * Reset internal state
 	 */
 	private resetState(): void {
+		this.widgetChatUuid = '';
 		this.currentMention = null;
 		this.currentEditor = undefined;
 		this.markerId = '';
@@ -586,6 +644,7 @@ export class InlineChatManager {
 		}
 
 		// Clear pending chats
+		this.stopStreamPolling();
 		this.pendingChats.clear();
 	}
 }
@@ -51,6 +51,7 @@ export class InlineChatWidget {
 	private sendButtonEl: HTMLButtonElement | null = null;
 	private options: InlineChatWidgetOptions;
 	private statusMessageEl: HTMLElement | null = null;
+	private partialResponseEl: HTMLElement | null = null;
 	private statusIntervalId: number | null = null;
 	private currentStatusIndex: number = 0;
 
@@ -135,6 +136,7 @@ export class InlineChatWidget {
 			this.containerEl = null;
 			this.sendButtonEl = null;
 			this.statusMessageEl = null;
+			this.partialResponseEl = null;
 		}
 	}
 
@@ -149,6 +151,7 @@ export class InlineChatWidget {
 
 		// Clear current content
 		this.containerEl.empty();
+		this.partialResponseEl = null;
 
 		// Recreate with processing UI
 		const mainContent = this.containerEl.createDiv('spark-inline-chat-content processing');
@@ -174,6 +177,24 @@ export class InlineChatWidget {
 		this.startStatusRotation();
 	}
 
+	/**
+	 * Show the response streamed so far below the status row (processing state only)
+	 */
+	showPartialResponse(text: string): void {
+		const contentEl = this.containerEl?.querySelector<HTMLElement>(
+			'.spark-inline-chat-content.processing'
+		);
+		if (!contentEl) {
+			return;
+		}
+
+		if (!this.partialResponseEl) {
+			this.partialResponseEl = contentEl.createDiv('spark-inline-chat-partial');
+		}
+		this.partialResponseEl.setText(text);
+		this.partialResponseEl.scrollTop = this.partialResponseEl.scrollHeight;
+	}
+
 	/**
 	 * Check if widget is visible
 	 */
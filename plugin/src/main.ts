@@ -1,6 +1,7 @@
-import { Plugin } from 'obsidian';
+import { Plugin, TFile } from 'obsidian';
 import { ChatManager } from './chat/ChatManager';
 import { CommandPaletteManager } from './command-palette/CommandPaletteManager';
+import { CommandStreamPreview } from './command-stream/CommandStreamPreview';
 import { InlineChatManager } from './inline-chat/InlineChatManager';
 import { MentionDecorator } from './mention/MentionDecorator';
 import { SetupModal } from './modals/SetupModal';
@@ -8,6 +9,7 @@ import { EngineService } from './services/EngineService';
 import { ResourceService } from './services/ResourceService';
 import { DEFAULT_SETTINGS, SparkSettingTab } from './settings';
 import type { ISparkPlugin, SparkSettings } from './types';
+import { ApprovalNotifier } from './workflows/ApprovalNotifier';
 import { WORKFLOW_LIST_VIEW_TYPE, WorkflowListView } from './workflows/WorkflowListView';
 import { WorkflowManager } from './workflows/WorkflowManager';
 import { WORKFLOW_VIEW_TYPE, WorkflowView } from './workflows/WorkflowView';
@@ -18,9 +20,11 @@ export default class SparkPlugin extends Plugin implements ISparkPlugin {
 	mentionDecorator: MentionDecorator;
 	chatManager: ChatManager;
 	private inlineChatManager: InlineChatManager;
+	private commandStreamPreview: CommandStreamPreview;
 	private statusBarItem: HTMLElement;
 	private statusCheckInterval: number;
 	private workflowManager: WorkflowManager;
+	private approvalNotifier: ApprovalNotifier;
 
 	async onload() {
 		console.debug('Spark Assistant: Loading plugin...');
@@ -36,6 +40,11 @@ export default class SparkPlugin extends Plugin implements ISparkPlugin {
 		await this.mentionDecorator.initialize();
 		this.registerEditorExtension(this.mentionDecorator.createExtension());
 
+		// Show slash command answers below the command while they stream
+		this.commandStreamPreview = new CommandStreamPreview(this.app);
+		this.registerEditorExtension(this.commandStreamPreview.createExtension());
+		this.commandStreamPreview.start();
+
 		// Initialize command palette manager with decorator reference
 		this.commandPaletteManager = CommandPaletteManager.getInstance(this, this.mentionDecorator);
 		this.commandPaletteManager.register();
@@ -57,6 +66,14 @@ export default class SparkPlugin extends Plugin implements ISparkPlugin {
 			},
 		});
 
+		this.addCommand({
+			id: 'save-chat-as-note',
+			name: 'Save chat as note',
+			callback: () => {
+				void this.chatManager.saveChatAsNote();
+			},
+		});
+
 		// Initialize workflow manager and register views
 		this.workflowManager = WorkflowManager.getInstance(this.app, this);
 
@@ -64,6 +81,10 @@ export default class SparkPlugin extends Plugin implements ISparkPlugin {
 		this.registerView(WORKFLOW_VIEW_TYPE, leaf => new WorkflowView(leaf, this));
 		this.registerView(WORKFLOW_LIST_VIEW_TYPE, leaf => new WorkflowListView(leaf, this));
 
+		// Show notices for workflow runs waiting on a reviewer
+		this.approvalNotifier = ApprovalNotifier.getInstance(this.app, this);
+		this.approvalNotifier.initialize();
+
 		// Register workflow commands
 		this.addCommand({
 			id: 'open-workflows',
@@ -81,6 +102,29 @@ export default class SparkPlugin extends Plugin implements ISparkPlugin {
 			},
 		});
 
+		this.addCommand({
+			id: 'run-workflow',
+			name: 'Run workflow',
+			callback: () => {
+				void this.workflowManager.chooseWorkflowToRun(this.app.workspace.getActiveFile());
+			},
+		});
+
+		// Run a workflow on a note from its context menu
+		this.registerEvent(
+			this.app.workspace.on('file-menu', (menu, file) => {
+				if (!(file instanceof TFile)) return;
+				menu.addItem(item => {
+					item
+						.setTitle('Run workflow…')
+						.setIcon('workflow')
+						.onClick(() => {
+							void this.workflowManager.chooseWorkflowToRun(file);
+						});
+				});
+			})
+		);
+
 		// Add ribbon icon for workflows
 		this.addRibbonIcon('workflow', 'Open workflows', () => {
 			void this.workflowManager.showWorkflowList();
@@ -220,7 +264,9 @@ export default class SparkPlugin extends Plugin implements ISparkPlugin {
 	onunload(): void {
 		this.commandPaletteManager?.unload();
 		this.chatManager?.unload();
+		this.approvalNotifier?.unload();
 		void this.inlineChatManager?.cleanup();
+		this.commandStreamPreview?.stop();
 		this.mentionDecorator?.stopTableObserver();
 		console.debug('Spark Assistant: Plugin unloaded');
 	}
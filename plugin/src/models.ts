@@ -3,6 +3,7 @@
  */
 export enum ProviderType {
 	ANTHROPIC = 'anthropic',
+	OPENAI = 'openai',
 }
 
 /**
@@ -29,6 +30,17 @@ export enum ClaudeModel {
 	HAIKU_3 = 'claude-3-haiku-20240307',
 }
 
+/**
+ * Suggested models for OpenAI-compatible providers
+ * Local servers (Ollama, llama.cpp) accept any model name they serve
+ */
+export enum OpenAIModel {
+	GPT_4_1 = 'gpt-4.1',
+	GPT_4_1_MINI = 'gpt-4.1-mini',
+	GPT_4O = 'gpt-4o',
+	GPT_4O_MINI = 'gpt-4o-mini',
+}
+
 // Human-readable labels for models
 export const MODEL_LABELS: Record<string, string> = {
 	[ClaudeModel.SONNET_4_5]: 'Claude Sonnet 4.5 (Latest)',
@@ -38,6 +50,10 @@ export const MODEL_LABELS: Record<string, string> = {
 	[ClaudeModel.OPUS_4]: 'Claude Opus 4',
 	[ClaudeModel.HAIKU_3_5]: 'Claude Haiku 3.5',
 	[ClaudeModel.HAIKU_3]: 'Claude Haiku 3',
+	[OpenAIModel.GPT_4_1]: 'GPT-4.1',
+	[OpenAIModel.GPT_4_1_MINI]: 'GPT-4.1 mini',
+	[OpenAIModel.GPT_4O]: 'GPT-4o',
+	[OpenAIModel.GPT_4O_MINI]: 'GPT-4o mini',
 };
 
 // Get all models by provider
@@ -45,6 +61,8 @@ export function getModelsByProvider(provider: ProviderType): string[] {
 	switch (provider) {
 		case ProviderType.ANTHROPIC:
 			return Object.values(ClaudeModel);
+		case ProviderType.OPENAI:
+			return Object.values(OpenAIModel);
 		default:
 			return [];
 	}
@@ -61,6 +79,7 @@ export function getModelLabel(model: string): string {
 // Provider labels
 export const PROVIDER_LABELS: Record<ProviderType, string> = {
 	[ProviderType.ANTHROPIC]: 'Anthropic Claude',
+	[ProviderType.OPENAI]: 'OpenAI-compatible',
 };
 
 export function getProviderLabel(provider: string): string {
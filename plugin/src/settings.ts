@@ -6,7 +6,9 @@ import { type App, Modal, Notice, normalizePath, PluginSettingTab, Setting } fro
 import {
 	DEFAULT_CHAT_BOTTOM,
 	DEFAULT_CHAT_HEIGHT,
+	DEFAULT_CHAT_NOTE_FOLDER,
 	DEFAULT_CHAT_RIGHT,
+	DEFAULT_CHAT_SUMMARY_THRESHOLD,
 	DEFAULT_CHAT_WIDTH,
 } from './constants';
 import { decryptSecrets, encryptSecrets, isEncrypted } from './crypto/index';
@@ -30,6 +32,9 @@ export const DEFAULT_SETTINGS: SparkSettings = {
 	chatWindowHeight: DEFAULT_CHAT_HEIGHT,
 	chatWindowRight: DEFAULT_CHAT_RIGHT,
 	chatWindowBottom: DEFAULT_CHAT_BOTTOM,
+	chatSummaryThreshold: DEFAULT_CHAT_SUMMARY_THRESHOLD,
+	chatNoteFolder: DEFAULT_CHAT_NOTE_FOLDER,
+	chatNoteMirror: false,
 	workflowSidebarWidth: 440,
 };
 
@@ -177,6 +182,52 @@ export class SparkSettingTab extends PluginSettingTab {
 					void this.plugin.saveSettings();
 				})
 			);
+
+		new Setting(containerEl)
+			.setName('Summarize long chats after')
+			.setDesc(
+				'Estimated tokens of chat history sent with each message. Past this, older messages are summarized and only the summary and recent messages are sent.'
+			)
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text
+					.setPlaceholder(String(DEFAULT_CHAT_SUMMARY_THRESHOLD))
+					.setValue(
+						String(this.plugin.settings.chatSummaryThreshold ?? DEFAULT_CHAT_SUMMARY_THRESHOLD)
+					)
+					.onChange(value => {
+						const threshold = Number(value);
+						if (Number.isInteger(threshold) && threshold > 0) {
+							this.plugin.settings.chatSummaryThreshold = threshold;
+							void this.plugin.saveSettings();
+						}
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Chat notes folder')
+			.setDesc('Folder that chats are saved to as notes.')
+			.addText(text =>
+				text
+					.setPlaceholder(DEFAULT_CHAT_NOTE_FOLDER)
+					.setValue(this.plugin.settings.chatNoteFolder ?? DEFAULT_CHAT_NOTE_FOLDER)
+					.onChange(value => {
+						this.plugin.settings.chatNoteFolder = value.trim() || DEFAULT_CHAT_NOTE_FOLDER;
+						void this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Keep chats as notes')
+			.setDesc(
+				'Save every chat as a note in the chat notes folder and update it as the conversation continues.'
+			)
+			.addToggle(toggle =>
+				toggle.setValue(this.plugin.settings.chatNoteMirror ?? false).onChange(value => {
+					this.plugin.settings.chatNoteMirror = value;
+					void this.plugin.saveSettings();
+				})
+			);
 	}
 
 	private populateEngineSection(containerEl: HTMLElement) {
@@ -816,34 +867,62 @@ export class SparkSettingTab extends PluginSettingTab {
 					toggleProvider();
 				});
 
-				// Create model dropdown function
-				const createModelDropdown = () => {
-					const modelSetting = new Setting(providerContent)
-						.setName('Model')
-						.setDesc(`Select ${getProviderLabel(providerConfig.type)} model`)
-						.addDropdown(dropdown => {
-							// Get models for the current provider type
-							const availableModels = getModelsByProvider(providerConfig.type);
-							availableModels.forEach(model => {
-								dropdown.addOption(model, getModelLabel(model));
+				// Model and endpoint settings depend on the type, so they live in their own container
+				let modelContainer: HTMLElement;
+
+				const renderModelSettings = () => {
+					modelContainer.empty();
+
+					if (providerConfig.type !== ProviderType.OPENAI) {
+						new Setting(modelContainer)
+							.setName('Model')
+							.setDesc(`Select ${getProviderLabel(providerConfig.type)} model`)
+							.addDropdown(dropdown => {
+								// Get models for the current provider type
+								const availableModels = getModelsByProvider(providerConfig.type);
+								availableModels.forEach(model => {
+									dropdown.addOption(model, getModelLabel(model));
+								});
+								dropdown
+									.setValue(providerConfig.model)
+									.onChange(value => (providerConfig.model = value));
+								return dropdown;
 							});
-							dropdown
+						return;
+					}
+
+					// OpenAI-compatible servers accept any model name they serve
+					new Setting(modelContainer)
+						.setName('Model')
+						.setDesc(`Model name, e.g. ${getModelsByProvider(providerConfig.type).join(', ')}`)
+						.addText(text =>
+							text
+								.setPlaceholder('Enter model name...')
 								.setValue(providerConfig.model)
-								.onChange(value => (providerConfig.model = value));
-							return dropdown;
-						});
-					return modelSetting;
-				};
+								.onChange(value => (providerConfig.model = value.trim()))
+						);
 
-				// Track current model dropdown for updates
-				const modelDropdownRef = {
-					current: createModelDropdown(),
-				};
-				const updateModelDropdown = () => {
-					// Remove the old model dropdown
-					modelDropdownRef.current.settingEl.remove();
-					// Create new model dropdown with updated models
-					modelDropdownRef.current = createModelDropdown();
+					new Setting(modelContainer)
+						.setName('Base URL')
+						.setDesc(
+							'Leave empty for OpenAI. Azure, ollama (http://localhost:11434/v1) and llama.cpp also work'
+						)
+						.addText(text => {
+							const baseUrl = providerConfig.options?.baseUrl;
+							text
+								.setPlaceholder('https://api.openai.com/v1')
+								.setValue(typeof baseUrl === 'string' ? baseUrl : '')
+								.onChange(value => {
+									const options = { ...providerConfig.options };
+									if (value.trim()) {
+										options.baseUrl = value.trim();
+									} else {
+										delete options.baseUrl;
+									}
+									providerConfig.options = options;
+								});
+							return text;
+						});
 				};
 
 				new Setting(providerContent)
@@ -856,24 +935,35 @@ export class SparkSettingTab extends PluginSettingTab {
 						});
 						dropdown.setValue(providerConfig.type).onChange(value => {
 							providerConfig.type = value as ProviderType;
-							// Update model dropdown when provider type changes
-							updateModelDropdown();
+							// Keep the model valid for the new provider type
+							const models = getModelsByProvider(providerConfig.type);
+							if (!models.includes(providerConfig.model) && models.length > 0) {
+								providerConfig.model = models[0];
+							}
+							renderModelSettings();
 							// Update header title
 							titleEl.textContent = `${providerName} (${getProviderLabel(providerConfig.type)})`;
 						});
 						return dropdown;
 					});
 
-				// Create initial model dropdown
-				updateModelDropdown();
+				modelContainer = providerContent.createDiv();
+				renderModelSettings();
 
 				// API Key input
 				const isOptional = providerName === 'claude-code';
+				const isOpenAI = providerConfig.type === ProviderType.OPENAI;
 				let apiKeyValue = this.cachedApiKeys[providerName] || '';
 
 				const apiKeySetting = new Setting(providerContent)
 					.setName('API key')
-					.setDesc(isOptional ? 'Optional for claude-code' : 'Required')
+					.setDesc(
+						isOptional
+							? 'Optional for claude-code'
+							: isOpenAI
+								? 'Required for OpenAI and Azure. Optional for local endpoints'
+								: 'Required'
+					)
 					.addText(text => {
 						text.inputEl.type = 'password';
 						text.setPlaceholder('Enter API key...');
@@ -12,6 +12,9 @@ export interface SparkSettings {
 	chatWindowHeight?: number; // Chat window height in pixels
 	chatWindowRight?: number; // Chat window position from right edge in pixels
 	chatWindowBottom?: number; // Chat window position from bottom edge in pixels
+	chatSummaryThreshold?: number; // Estimated tokens of chat history before older messages are summarized
+	chatNoteFolder?: string; // Folder chats are saved to as notes
+	chatNoteMirror?: boolean; // Save every chat as a note and keep it in sync
 	// Workflows UI
 	workflowSidebarWidth?: number; // Workflow node sidebar width in pixels
 	// Engine setup
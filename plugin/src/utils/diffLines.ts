@@ -0,0 +1,85 @@
+/**
+ * Line diff of two texts, for showing edits
+ */
+
+export interface DiffLine {
+	type: 'same' | 'added' | 'removed';
+	text: string;
+}
+
+// Largest edited part, in line pairs, compared line by line; a larger one is shown as replaced
+export const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Lines of both texts in order, marked as kept, added or removed (longest common subsequence)
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+	const a = splitLines(before);
+	const b = splitLines(after);
+
+	// Lines shared at the start and end are kept as is, so only the edited part is compared
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) start++;
+	let end = 0;
+	while (
+		end < a.length - start &&
+		end < b.length - start &&
+		a[a.length - 1 - end] === b[b.length - 1 - end]
+	) {
+		end++;
+	}
+
+	const same = (lines: string[]): DiffLine[] => lines.map(text => ({ type: 'same', text }));
+	const editedBefore = a.slice(start, a.length - end);
+	const editedAfter = b.slice(start, b.length - end);
+	return [
+		...same(a.slice(0, start)),
+		// Comparing takes editedBefore × editedAfter steps, so a large edit is shown as replaced
+		...(editedBefore.length * editedAfter.length > MAX_DIFF_CELLS
+			? replaced(editedBefore, editedAfter)
+			: diffMiddle(editedBefore, editedAfter)),
+		...same(a.slice(a.length - end)),
+	];
+}
+
+function replaced(a: string[], b: string[]): DiffLine[] {
+	return [
+		...a.map(text => ({ type: 'removed' as const, text })),
+		...b.map(text => ({ type: 'added' as const, text })),
+	];
+}
+
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+	// lengths[i][j]: common lines of a[i..] and b[j..]
+	const lengths = Array.from({ length: a.length + 1 }, () =>
+		new Array<number>(b.length + 1).fill(0)
+	);
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lengths[i][j] =
+				a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+		}
+	}
+
+	const lines: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			lines.push({ type: 'same', text: a[i++] });
+			j++;
+		} else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+			lines.push({ type: 'removed', text: a[i++] });
+		} else {
+			lines.push({ type: 'added', text: b[j++] });
+		}
+	}
+	while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+	while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+	return lines;
+}
+
+// An empty text has no lines, so a created or emptied file is all added or removed
+function splitLines(text: string): string[] {
+	return text === '' ? [] : text.split('\n');
+}
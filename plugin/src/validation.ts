@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { ALL_MODELS, ProviderType } from './models';
+import { ALL_MODELS, getModelsByProvider, ProviderType } from './models';
 
 // Agent validation schema
 export const AgentConfigSchema = z.object({
@@ -19,24 +19,35 @@ export const AgentConfigSchema = z.object({
 });
 
 // Config validation schema (for commonly edited fields)
-export const SparkConfigSchema = z.object({
+// Objects are loose so sections edited by hand (usage, mcp, retry, ...) survive a save
+export const SparkConfigSchema = z.looseObject({
 	version: z.number().positive(),
-	engine: z.object({
+	engine: z.looseObject({
 		debounce_ms: z.number().min(0, 'Debounce must be non-negative'),
-		results: z.object({
+		results: z.looseObject({
 			add_blank_lines: z.boolean(),
 		}),
 	}),
-	ai: z.object({
+	ai: z.looseObject({
 		defaultProvider: z.string().min(1, 'Default provider is required'),
 		providers: z.record(
 			z.string(),
-			z.object({
-				type: z.enum(ProviderType),
-				model: z.enum([...ALL_MODELS] as [string, ...string[]]),
-				maxTokens: z.number().positive('Max tokens must be positive'),
-				temperature: z.number().min(0).max(1),
-			})
+			z
+				.looseObject({
+					type: z.enum(ProviderType),
+					model: z.string().min(1, 'Model is required'),
+					maxTokens: z.number().positive('Max tokens must be positive'),
+					temperature: z.number().min(0).max(1),
+					// Provider-specific settings, e.g. baseUrl for OpenAI-compatible endpoints
+					options: z.record(z.string(), z.unknown()).optional(),
+				})
+				// OpenAI-compatible endpoints serve arbitrary model names; Claude models are fixed
+				.refine(
+					provider =>
+						provider.type !== ProviderType.ANTHROPIC ||
+						getModelsByProvider(ProviderType.ANTHROPIC).includes(provider.model),
+					{ message: 'Select a supported Claude model', path: ['model'] }
+				)
 		),
 	}),
 	logging: z.object({
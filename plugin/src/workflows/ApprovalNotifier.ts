@@ -0,0 +1,125 @@
+/**
+ * ApprovalNotifier - Notices for workflow runs waiting on a reviewer
+ * The engine writes a review note for each approval step; deciding it here sets the
+ * note's frontmatter, which the engine watches to resume the run
+ */
+
+import { type App, Notice, type TFile } from 'obsidian';
+import type { ISparkPlugin } from '../types';
+import type { ApprovalDecision } from './types';
+
+// Frontmatter field the engine reads the decision from (pending, approved or rejected)
+const APPROVAL_FIELD = 'spark_approval';
+
+export class ApprovalNotifier {
+	private static instance: ApprovalNotifier;
+	private app: App;
+	private plugin: ISparkPlugin;
+	private notices: Map<string, Notice> = new Map();
+
+	private constructor(app: App, plugin: ISparkPlugin) {
+		this.app = app;
+		this.plugin = plugin;
+	}
+
+	public static getInstance(app: App, plugin: ISparkPlugin): ApprovalNotifier {
+		if (!ApprovalNotifier.instance) {
+			ApprovalNotifier.instance = new ApprovalNotifier(app, plugin);
+		}
+		return ApprovalNotifier.instance;
+	}
+
+	/**
+	 * Watch review notes and show notices for pending ones, including those written while Obsidian was closed
+	 */
+	initialize(): void {
+		this.plugin.registerEvent(
+			this.app.metadataCache.on('changed', file => {
+				this.check(file);
+			})
+		);
+		this.plugin.registerEvent(
+			this.app.vault.on('delete', file => {
+				this.dismiss(file.path);
+			})
+		);
+
+		this.app.workspace.onLayoutReady(() => {
+			for (const file of this.app.vault.getMarkdownFiles()) {
+				this.check(file);
+			}
+		});
+	}
+
+	unload(): void {
+		for (const path of [...this.notices.keys()]) {
+			this.dismiss(path);
+		}
+	}
+
+	private check(file: TFile): void {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (frontmatter?.[APPROVAL_FIELD] === 'pending') {
+			if (!this.notices.has(file.path)) {
+				this.notices.set(file.path, this.show(file));
+			}
+		} else {
+			this.dismiss(file.path);
+		}
+	}
+
+	/**
+	 * Sticky notice with the review note's title and the reviewer's actions
+	 */
+	private show(file: TFile): Notice {
+		const fragment = document.createDocumentFragment();
+		const container = fragment.createDiv({ cls: 'spark-approval-notice' });
+		container.createDiv({
+			cls: 'spark-approval-notice-title',
+			text: 'Workflow waiting for approval',
+		});
+		container.createDiv({ cls: 'spark-approval-notice-note', text: file.basename });
+
+		const actions = container.createDiv({ cls: 'spark-approval-notice-actions' });
+		const button = (text: string, cls: string, onClick: () => void) => {
+			const el = actions.createEl('button', { text, cls });
+			el.addEventListener('click', event => {
+				// Keep the click from dismissing the notice
+				event.stopPropagation();
+				onClick();
+			});
+		};
+
+		button('Open', '', () => {
+			void this.app.workspace.getLeaf('tab').openFile(file);
+		});
+		button('Approve', 'mod-cta', () => {
+			void this.decide(file, 'approved');
+		});
+		button('Reject', 'mod-warning', () => {
+			void this.decide(file, 'rejected');
+		});
+
+		return new Notice(fragment, 0);
+	}
+
+	private async decide(file: TFile, decision: ApprovalDecision): Promise<void> {
+		try {
+			await this.app.fileManager.processFrontMatter(
+				file,
+				(frontmatter: Record<string, unknown>) => {
+					frontmatter[APPROVAL_FIELD] = decision;
+				}
+			);
+			this.dismiss(file.path);
+		} catch (error) {
+			console.error('[Spark] Failed to record approval decision:', error);
+			new Notice(`Could not update ${file.basename}`);
+		}
+	}
+
+	private dismiss(path: string): void {
+		this.notices.get(path)?.hide();
+		this.notices.delete(path);
+	}
+}
@@ -15,18 +15,29 @@ import type {
 	PromptNodeData,
 	CodeNodeData,
 	ConditionNodeData,
+	FileNodeData,
+	FileOperation,
+	JoinNodeData,
+	ApprovalNodeData,
+	SubWorkflowNodeData,
+	StepPolicy,
+	StepErrorMode,
+	WorkflowDefinition,
+	StepType,
 } from './types';
 import { MentionTextarea, type VariableItem } from './MentionTextarea';
+import { WorkflowStorage } from './WorkflowStorage';
 
 interface SidebarProps {
 	app: App;
 	plugin: ISparkPlugin;
+	workflowId: string;
 	node: WorkflowNode;
 	nodes: WorkflowNode[];
 	edges: WorkflowEdge[];
 	runs: WorkflowRun[];
 	onUpdateNode: (nodeId: string, data: Partial<WorkflowNode['data']>) => void;
-	onTransformNode: (nodeId: string, newType: 'prompt' | 'code' | 'condition', newData: WorkflowNode['data']) => void;
+	onTransformNode: (nodeId: string, newType: Exclude<StepType, 'action'>, newData: WorkflowNode['data']) => void;
 	onDeleteNode: (nodeId: string) => void;
 	onClose: () => void;
 }
@@ -96,6 +107,29 @@ function parseSchemaFields(schema: string): { name: string; type: string }[] {
 	}
 }
 
+/**
+ * Output fields of a file step, by operation
+ */
+function fileOutputFields(data: FileNodeData): { name: string; type: string }[] {
+	if (data.operation === 'move') {
+		return [
+			{ name: 'from', type: 'string' },
+			{ name: 'path', type: 'string' },
+		];
+	}
+	if (data.operation === 'read' && (data.path.endsWith('/') || /[*?[\]{}]/.test(data.path))) {
+		return [
+			{ name: 'files', type: 'array' },
+			{ name: 'count', type: 'number' },
+		];
+	}
+	return [
+		{ name: 'path', type: 'string' },
+		{ name: 'content', type: 'string' },
+		{ name: 'frontmatter', type: 'object' },
+	];
+}
+
 /**
  * Find all upstream nodes that provide input to a given node
  */
@@ -121,6 +155,9 @@ function findUpstreamInputs(
 			if (sourceNode.data.type === 'condition') {
 				// Conditions pass through their input, trace further back
 				traceBack(sourceNode.id, true);
+			} else if (sourceNode.data.type === 'approval') {
+				// Approvals pass the reviewed input on (possibly edited)
+				traceBack(sourceNode.id, viaCondition);
 			} else {
 				// Found an actual data source
 				const input: AvailableInput = {
@@ -138,6 +175,18 @@ function findUpstreamInputs(
 					}
 				}
 
+				if (sourceNode.data.type === 'file') {
+					input.fields = fileOutputFields(sourceNode.data);
+				}
+
+				// Joins output an object keyed by the label of each incoming branch
+				if (sourceNode.data.type === 'join') {
+					input.fields = edges
+						.filter((e) => e.target === sourceNode.id)
+						.map((e) => nodes.find((n) => n.id === e.source)?.data.label || e.source)
+						.map((name) => ({ name, type: 'unknown' }));
+				}
+
 				inputs.push(input);
 			}
 		}
@@ -151,7 +200,7 @@ function findUpstreamInputs(
  * Action types available for selection
  */
 interface ActionTypeOption {
-	type: 'prompt' | 'code' | 'condition';
+	type: Exclude<StepType, 'action'>;
 	label: string;
 	description: string;
 	icon: React.JSX.Element;
@@ -197,9 +246,133 @@ const ACTION_TYPES: ActionTypeOption[] = [
 		),
 		defaultData: { type: 'condition', label: 'Condition', expression: 'input.success === true', maxCycles: 3 },
 	},
+	{
+		type: 'join',
+		label: 'Join',
+		description: 'Wait for parallel branches and combine their outputs',
+		icon: (
+			<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+				<path d="M4 4v4a4 4 0 0 0 4 4h12" />
+				<path d="M4 20v-4a4 4 0 0 1 4-4" />
+				<path d="m16 8 4 4-4 4" />
+			</svg>
+		),
+		defaultData: { type: 'join', label: 'Join', mode: 'all' },
+	},
+	{
+		type: 'approval',
+		label: 'Approval',
+		description: 'Wait for a person to approve or reject the output',
+		icon: (
+			<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+				<path d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2" />
+				<circle cx="9" cy="7" r="4" />
+				<path d="m16 11 2 2 4-4" />
+			</svg>
+		),
+		defaultData: { type: 'approval', label: 'Approval', instructions: '' },
+	},
+	{
+		type: 'workflow',
+		label: 'Sub-workflow',
+		description: 'Run another workflow and use its output',
+		icon: (
+			<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+				<rect x="3" y="3" width="7" height="7" rx="1" />
+				<rect x="14" y="14" width="7" height="7" rx="1" />
+				<path d="M6.5 10v4a3 3 0 0 0 3 3H14" />
+			</svg>
+		),
+		defaultData: { type: 'workflow', label: 'Sub-workflow', workflowId: '' },
+	},
+	{
+		type: 'file',
+		label: 'Read Note',
+		description: 'Read a note, folder or glob from the vault',
+		icon: (
+			<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+				<path d="M2 3h6a4 4 0 0 1 4 4v14a3 3 0 0 0-3-3H2z" />
+				<path d="M22 3h-6a4 4 0 0 0-4 4v14a3 3 0 0 1 3-3h7z" />
+			</svg>
+		),
+		defaultData: { type: 'file', label: 'Read Note', operation: 'read', path: '' },
+	},
+	{
+		type: 'file',
+		label: 'Write Note',
+		description: 'Create or overwrite a note from text or a template',
+		icon: (
+			<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+				<path d="M15 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7Z" />
+				<path d="M14 2v4a2 2 0 0 0 2 2h4" />
+				<path d="M9 15h6" />
+				<path d="M12 18v-6" />
+			</svg>
+		),
+		defaultData: { type: 'file', label: 'Write Note', operation: 'write', path: '', content: '$input' },
+	},
+	{
+		type: 'file',
+		label: 'Append to Note',
+		description: 'Append text under a heading or at the end of a note',
+		icon: (
+			<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+				<path d="M11 12H3" />
+				<path d="M16 6H3" />
+				<path d="M16 18H3" />
+				<path d="M18 9v6" />
+				<path d="M21 12h-6" />
+			</svg>
+		),
+		defaultData: { type: 'file', label: 'Append to Note', operation: 'append', path: '', content: '$input' },
+	},
+	{
+		type: 'file',
+		label: 'Set Frontmatter',
+		description: 'Set frontmatter fields on a note',
+		icon: (
+			<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+				<path d="M12.586 2.586A2 2 0 0 0 11.172 2H4a2 2 0 0 0-2 2v7.172a2 2 0 0 0 .586 1.414l8.704 8.704a2.426 2.426 0 0 0 3.42 0l6.58-6.58a2.426 2.426 0 0 0 0-3.42z" />
+				<circle cx="7.5" cy="7.5" r=".5" fill="currentColor" />
+			</svg>
+		),
+		defaultData: { type: 'file', label: 'Set Frontmatter', operation: 'frontmatter', path: '$input.path', fields: { status: 'done' } },
+	},
+	{
+		type: 'file',
+		label: 'Move Note',
+		description: 'Move or rename a note',
+		icon: (
+			<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+				<path d="M2 9V5a2 2 0 0 1 2-2h3.9a2 2 0 0 1 1.69.9l.81 1.2a2 2 0 0 0 1.67.9H20a2 2 0 0 1 2 2v10a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2v-1" />
+				<path d="M2 13h10" />
+				<path d="m9 16 3-3-3-3" />
+			</svg>
+		),
+		defaultData: { type: 'file', label: 'Move Note', operation: 'move', path: '$input.path', destination: 'Archive/' },
+	},
 ];
 
-export function Sidebar({ app, plugin, node, nodes, edges, runs, onUpdateNode, onTransformNode, onDeleteNode, onClose }: SidebarProps) {
+/**
+ * Action option a node was created from (file steps share a type, so match the operation too)
+ */
+function findActionType(data: WorkflowNode['data']): ActionTypeOption | undefined {
+	return ACTION_TYPES.find(
+		(option) =>
+			option.type === data.type &&
+			(data.type !== 'file' || (option.defaultData.type === 'file' && option.defaultData.operation === data.operation))
+	);
+}
+
+const FILE_OPERATION_LABELS: Record<FileOperation, string> = {
+	read: 'Read note, folder or glob',
+	write: 'Write note',
+	append: 'Append to note',
+	frontmatter: 'Set frontmatter',
+	move: 'Move or rename note',
+};
+
+export function Sidebar({ app, plugin, workflowId, node, nodes, edges, runs, onUpdateNode, onTransformNode, onDeleteNode, onClose }: SidebarProps) {
 	const [activeTab, setActiveTab] = useState<SidebarTab>('properties');
 	const [searchQuery, setSearchQuery] = useState('');
 
@@ -260,7 +433,9 @@ export function Sidebar({ app, plugin, node, nodes, edges, runs, onUpdateNode, o
 
 		if (node.data.type === 'prompt') {
 			base.push({ id: 'prompt', label: 'Prompt' });
-		} else {
+		} else if (node.data.type === 'file') {
+			base.push({ id: 'file', label: 'File' });
+		} else if (node.data.type !== 'join' && node.data.type !== 'approval' && node.data.type !== 'workflow') {
 			base.push({ id: 'code', label: 'Code' });
 		}
 
@@ -271,7 +446,7 @@ export function Sidebar({ app, plugin, node, nodes, edges, runs, onUpdateNode, o
 	// Determine if node has meaningful content (beyond defaults)
 	const nodeHasContent = useMemo(() => {
 		const data = node.data;
-		const actionType = ACTION_TYPES.find((a) => a.type === data.type);
+		const actionType = findActionType(data);
 		if (!actionType) return false;
 
 		const defaults = actionType.defaultData;
@@ -290,11 +465,14 @@ export function Sidebar({ app, plugin, node, nodes, edges, runs, onUpdateNode, o
 		if (data.type === 'condition' && defaults.type === 'condition') {
 			return hasCustomMeta || (data.expression && data.expression !== defaults.expression);
 		}
+		if (data.type === 'file' && defaults.type === 'file') {
+			return hasCustomMeta || (data.path && data.path !== defaults.path);
+		}
 		return false;
 	}, [node.data]);
 
 	// Set smart initial tab when node changes
-	// For nodes with content, open the behavior tab (prompt/code)
+	// For nodes with content, open the behavior tab (prompt/code/file)
 	// For new/default nodes, open properties
 	const prevNodeIdRef = useRef<string | null>(null);
 	useEffect(() => {
@@ -304,7 +482,7 @@ export function Sidebar({ app, plugin, node, nodes, edges, runs, onUpdateNode, o
 
 		if (nodeHasContent) {
 			// Node has content - open behavior tab
-			setActiveTab(node.data.type === 'prompt' ? 'prompt' : 'code');
+			setActiveTab(node.data.type === 'prompt' || node.data.type === 'file' ? node.data.type : 'code');
 		} else {
 			// New/default node - open properties
 			setActiveTab('properties');
@@ -349,7 +527,7 @@ export function Sidebar({ app, plugin, node, nodes, edges, runs, onUpdateNode, o
 					<div className="spark-workflow-action-grid">
 						{filteredActionTypes.map((option) => (
 							<button
-								key={option.type}
+								key={option.label}
 								type="button"
 								className="spark-workflow-action-card"
 								onClick={() => handleSelectActionType(option)}
@@ -410,6 +588,8 @@ export function Sidebar({ app, plugin, node, nodes, edges, runs, onUpdateNode, o
 			<div className="spark-workflow-sidebar-content">
 				{activeTab === 'properties' && (
 					<PropertiesTab
+						app={app}
+						workflowId={workflowId}
 						node={node}
 						onChange={handleChange}
 						onDelete={() => void handleDelete()}
@@ -425,6 +605,9 @@ export function Sidebar({ app, plugin, node, nodes, edges, runs, onUpdateNode, o
 					/>
 				)}
 				{activeTab === 'code' && <CodeTab node={node} availableInputs={availableInputs} onChange={handleChange} />}
+				{activeTab === 'file' && node.data.type === 'file' && (
+					<FileTab data={node.data} availableInputs={availableInputs} onChange={handleChange} />
+				)}
 				{activeTab === 'runs' && <RunsTab results={stepResults} />}
 			</div>
 		</div>
@@ -435,12 +618,14 @@ export function Sidebar({ app, plugin, node, nodes, edges, runs, onUpdateNode, o
  * Properties Tab
  */
 interface PropertiesTabProps {
+	app: App;
+	workflowId: string;
 	node: WorkflowNode;
 	onChange: (field: string, value: unknown) => void;
 	onDelete: () => void;
 }
 
-function PropertiesTab({ node, onChange, onDelete }: PropertiesTabProps) {
+function PropertiesTab({ app, workflowId, node, onChange, onDelete }: PropertiesTabProps) {
 	const data = node.data;
 
 	return (
@@ -466,6 +651,19 @@ function PropertiesTab({ node, onChange, onDelete }: PropertiesTabProps) {
 				/>
 			</div>
 
+			{data.type === 'join' && <JoinFields data={data} onChange={onChange} />}
+			{data.type === 'approval' && <ApprovalFields data={data} onChange={onChange} />}
+			{data.type === 'workflow' && (
+				<SubWorkflowFields app={app} workflowId={workflowId} data={data} onChange={onChange} />
+			)}
+			{(data.type === 'prompt' || data.type === 'code' || data.type === 'condition') && (
+				<StepPolicyFields
+					policy={data.policy}
+					defaultTimeout={DEFAULT_TIMEOUT_SECONDS[data.type]}
+					onChange={onChange}
+				/>
+			)}
+
 			{/* Delete button */}
 			<div className="spark-workflow-form-group spark-workflow-form-actions">
 				<button
@@ -480,6 +678,240 @@ function PropertiesTab({ node, onChange, onDelete }: PropertiesTabProps) {
 	);
 }
 
+/**
+ * Join-specific fields
+ */
+interface JoinFieldsProps {
+	data: { type: 'join' } & JoinNodeData;
+	onChange: (field: string, value: unknown) => void;
+}
+
+function JoinFields({ data, onChange }: JoinFieldsProps) {
+	return (
+		<>
+			<div className="spark-workflow-form-group">
+				<label>Wait for</label>
+				<select value={data.mode} onChange={(e) => onChange('mode', e.target.value)}>
+					<option value="all">All incoming branches</option>
+					<option value="any">The first branches to finish</option>
+				</select>
+				<span className="spark-workflow-form-hint">
+					Passes on an object keyed by each branch&apos;s step label. Branches a condition routes
+					elsewhere are not waited for once the rest of the run is done.
+				</span>
+			</div>
+
+			{data.mode === 'any' && (
+				<div className="spark-workflow-form-group">
+					<label>Number of branches</label>
+					<input
+						type="number"
+						value={data.count ?? 1}
+						onChange={(e) => onChange('count', Math.max(1, parseInt(e.target.value, 10) || 1))}
+						min={1}
+					/>
+				</div>
+			)}
+		</>
+	);
+}
+
+/**
+ * Approval-specific fields
+ */
+interface ApprovalFieldsProps {
+	data: { type: 'approval' } & ApprovalNodeData;
+	onChange: (field: string, value: unknown) => void;
+}
+
+function ApprovalFields({ data, onChange }: ApprovalFieldsProps) {
+	return (
+		<>
+			<div className="spark-workflow-form-group">
+				<label>Instructions for the reviewer</label>
+				<textarea
+					value={data.instructions || ''}
+					onChange={(e) => onChange('instructions', e.target.value)}
+					placeholder="Check the tone and the figures before the email is sent."
+					rows={3}
+				/>
+			</div>
+
+			<div className="spark-workflow-form-group">
+				<label>Review note folder</label>
+				<input
+					type="text"
+					value={data.folder || ''}
+					onChange={(e) => onChange('folder', e.target.value)}
+					placeholder="Approvals"
+				/>
+				<span className="spark-workflow-form-hint">
+					The run writes a review note here with the previous step&apos;s output and waits. Approve or
+					reject from the notice or the note&apos;s <code>spark_approval</code> property; edits to the
+					output section are passed on when approved.
+				</span>
+			</div>
+		</>
+	);
+}
+
+// Time limits the engine applies when a step sets none (seconds; prompts have none)
+const DEFAULT_TIMEOUT_SECONDS: Record<'prompt' | 'code' | 'condition', number | undefined> = {
+	prompt: undefined,
+	code: 5,
+	condition: 1,
+};
+
+/**
+ * Retry, timeout and error handling fields (prompt, code and condition steps)
+ */
+interface StepPolicyFieldsProps {
+	policy?: StepPolicy;
+	defaultTimeout?: number;
+	onChange: (field: string, value: unknown) => void;
+}
+
+function StepPolicyFields({ policy = {}, defaultTimeout, onChange }: StepPolicyFieldsProps) {
+	const update = (changes: Partial<StepPolicy>) => {
+		const next: StepPolicy = { ...policy, ...changes };
+		// Drop unset fields so steps without a policy stay unchanged on disk
+		for (const key of Object.keys(next) as (keyof StepPolicy)[]) {
+			if (next[key] === undefined) delete next[key];
+		}
+		onChange('policy', Object.keys(next).length > 0 ? next : undefined);
+	};
+
+	// Seconds in the form, milliseconds on disk; empty means the default
+	const seconds = (ms?: number) => (ms === undefined ? '' : String(ms / 1000));
+	const toMs = (value: string) => {
+		const parsed = parseFloat(value);
+		return Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed * 1000) : undefined;
+	};
+
+	return (
+		<>
+			<div className="spark-workflow-form-group">
+				<label>Retries</label>
+				<input
+					type="number"
+					value={policy.maxRetries ?? 0}
+					onChange={(e) => update({ maxRetries: Math.max(0, parseInt(e.target.value, 10) || 0) || undefined })}
+					min={0}
+					max={10}
+				/>
+			</div>
+
+			{(policy.maxRetries ?? 0) > 0 && (
+				<div className="spark-workflow-form-group">
+					<label>Retry delay (seconds)</label>
+					<input
+						type="number"
+						value={seconds(policy.retryDelayMs)}
+						onChange={(e) => update({ retryDelayMs: toMs(e.target.value) })}
+						placeholder="1"
+						min={0}
+						step={0.5}
+					/>
+					<span className="spark-workflow-form-hint">Doubles after each retry.</span>
+				</div>
+			)}
+
+			<div className="spark-workflow-form-group">
+				<label>Timeout (seconds)</label>
+				<input
+					type="number"
+					value={seconds(policy.timeoutMs)}
+					onChange={(e) => update({ timeoutMs: toMs(e.target.value) })}
+					placeholder={defaultTimeout ? String(defaultTimeout) : 'No limit'}
+					min={0}
+				/>
+				<span className="spark-workflow-form-hint">Applies to each attempt.</span>
+			</div>
+
+			<div className="spark-workflow-form-group">
+				<label>On error</label>
+				<select
+					value={policy.onError ?? 'fail'}
+					onChange={(e) => {
+						const onError = e.target.value as StepErrorMode;
+						update({ onError: onError === 'fail' ? undefined : onError });
+					}}
+				>
+					<option value="fail">Fail the run</option>
+					<option value="continue">Continue with null</option>
+					<option value="branch">Follow the error edge</option>
+				</select>
+				{policy.onError === 'branch' && (
+					<span className="spark-workflow-form-hint">
+						Connect the step&apos;s <code>!</code> handle to the steps that should handle the failure.
+						They get <code>{'{ error, input }'}</code>.
+					</span>
+				)}
+			</div>
+		</>
+	);
+}
+
+/**
+ * Sub-workflow-specific fields
+ */
+interface SubWorkflowFieldsProps {
+	app: App;
+	workflowId: string;
+	data: { type: 'workflow' } & SubWorkflowNodeData;
+	onChange: (field: string, value: unknown) => void;
+}
+
+function SubWorkflowFields({ app, workflowId, data, onChange }: SubWorkflowFieldsProps) {
+	const [workflows, setWorkflows] = useState<WorkflowDefinition[]>([]);
+
+	useEffect(() => {
+		let cancelled = false;
+		void new WorkflowStorage(app).listWorkflows().then((list) => {
+			if (!cancelled) setWorkflows(list.filter((w) => w.id !== workflowId));
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, [app, workflowId]);
+
+	const missing = data.workflowId && !workflows.some((w) => w.id === data.workflowId);
+
+	return (
+		<>
+			<div className="spark-workflow-form-group">
+				<label>Workflow</label>
+				<select value={data.workflowId} onChange={(e) => onChange('workflowId', e.target.value)}>
+					<option value="">Select a workflow…</option>
+					{missing && <option value={data.workflowId}>{data.workflowId}</option>}
+					{workflows.map((w) => (
+						<option key={w.id} value={w.id}>
+							{w.name}
+						</option>
+					))}
+				</select>
+			</div>
+
+			<div className="spark-workflow-form-group">
+				<label>Input mapping</label>
+				<textarea
+					className="spark-workflow-code-editor"
+					value={data.inputMapping || ''}
+					onChange={(e) => onChange('inputMapping', e.target.value)}
+					placeholder="{ text: input.content }"
+					rows={3}
+					spellCheck={false}
+				/>
+				<span className="spark-workflow-form-hint">
+					JavaScript expression for the sub-workflow&apos;s input, with the previous step&apos;s output as{' '}
+					<code>input</code>. Leave empty to pass it on unchanged. The sub-workflow&apos;s output becomes
+					this step&apos;s output.
+				</span>
+			</div>
+		</>
+	);
+}
+
 /**
  * Prompt Tab (prompt nodes only)
  */
@@ -842,6 +1274,203 @@ return { result: input };"
 	);
 }
 
+/**
+ * File Tab (file nodes only)
+ */
+interface FileTabProps {
+	data: { type: 'file' } & FileNodeData;
+	availableInputs: AvailableInput[];
+	onChange: (field: string, value: unknown) => void;
+}
+
+const FILE_PATH_PLACEHOLDERS: Record<FileOperation, string> = {
+	read: 'Projects/Plan.md, Inbox/ or Daily/*.md',
+	write: 'Summaries/$input.title.md',
+	append: 'Daily/Log.md',
+	frontmatter: '$input.path',
+	move: '$input.path',
+};
+
+function FileTab({ data, availableInputs, onChange }: FileTabProps) {
+	return (
+		<div className="spark-workflow-sidebar-section">
+			{availableInputs.length > 0 && <AvailableVariablesSection inputs={availableInputs} />}
+
+			<div className="spark-workflow-form-group">
+				<label>Operation</label>
+				<select value={data.operation} onChange={(e) => onChange('operation', e.target.value as FileOperation)}>
+					{(Object.keys(FILE_OPERATION_LABELS) as FileOperation[]).map((operation) => (
+						<option key={operation} value={operation}>
+							{FILE_OPERATION_LABELS[operation]}
+						</option>
+					))}
+				</select>
+			</div>
+
+			<div className="spark-workflow-form-group">
+				<label>{data.operation === 'read' ? 'Note, folder or glob' : 'Note'}</label>
+				<input
+					type="text"
+					value={data.path || ''}
+					onChange={(e) => onChange('path', e.target.value)}
+					placeholder={FILE_PATH_PLACEHOLDERS[data.operation]}
+				/>
+				<span className="spark-workflow-form-hint">
+					Vault-relative; .md is added when there is no extension. Use $input or $input.field for
+					dynamic paths.
+				</span>
+			</div>
+
+			<FileOperationFields data={data} onChange={onChange} />
+		</div>
+	);
+}
+
+/**
+ * Fields specific to the selected file operation
+ */
+function FileOperationFields({ data, onChange }: Omit<FileTabProps, 'availableInputs'>) {
+	switch (data.operation) {
+		case 'read':
+			return (
+				<span className="spark-workflow-form-hint">
+					Outputs the note&apos;s path, content and frontmatter. Folders (ending in /) and globs output{' '}
+					<code>files</code> and <code>count</code>.
+				</span>
+			);
+		case 'write':
+			return (
+				<>
+					<FileContentField data={data} onChange={onChange} />
+					<div className="spark-workflow-form-group">
+						<label>Template note</label>
+						<input
+							type="text"
+							value={data.template || ''}
+							onChange={(e) => onChange('template', e.target.value || undefined)}
+							placeholder="Templates/Meeting.md"
+						/>
+						<span className="spark-workflow-form-hint">
+							Used when content is empty; $input placeholders in the template are filled in.
+						</span>
+					</div>
+					<div className="spark-workflow-form-group spark-workflow-form-checkbox">
+						<label>
+							<input
+								type="checkbox"
+								checked={data.overwrite || false}
+								onChange={(e) => onChange('overwrite', e.target.checked || undefined)}
+							/>
+							Overwrite existing note
+						</label>
+					</div>
+				</>
+			);
+		case 'append':
+			return (
+				<>
+					<div className="spark-workflow-form-group">
+						<label>Under heading</label>
+						<input
+							type="text"
+							value={data.heading || ''}
+							onChange={(e) => onChange('heading', e.target.value || undefined)}
+							placeholder="End of note"
+						/>
+						<span className="spark-workflow-form-hint">
+							Appends at the end of the heading&apos;s section; the heading is added when missing.
+						</span>
+					</div>
+					<FileContentField data={data} onChange={onChange} />
+				</>
+			);
+		case 'frontmatter':
+			return <FrontmatterFieldsEditor fields={data.fields ?? {}} onChange={(fields) => onChange('fields', fields)} />;
+		case 'move':
+			return (
+				<div className="spark-workflow-form-group">
+					<label>Destination</label>
+					<input
+						type="text"
+						value={data.destination || ''}
+						onChange={(e) => onChange('destination', e.target.value)}
+						placeholder="Archive/ or Projects/$input.title.md"
+					/>
+					<span className="spark-workflow-form-hint">
+						End with / to keep the file name. Links to the note are not updated.
+					</span>
+				</div>
+			);
+	}
+}
+
+function FileContentField({ data, onChange }: Omit<FileTabProps, 'availableInputs'>) {
+	return (
+		<div className="spark-workflow-form-group">
+			<label>Content</label>
+			<textarea
+				value={data.content || ''}
+				onChange={(e) => onChange('content', e.target.value)}
+				placeholder="$input"
+				rows={6}
+			/>
+		</div>
+	);
+}
+
+interface FrontmatterFieldsEditorProps {
+	fields: Record<string, string>;
+	onChange: (fields: Record<string, string>) => void;
+}
+
+function FrontmatterFieldsEditor({ fields, onChange }: FrontmatterFieldsEditorProps) {
+	const entries = Object.entries(fields);
+
+	const updateEntry = (index: number, key: string, value: string) => {
+		onChange(Object.fromEntries(entries.map((entry, i) => (i === index ? [key, value] : entry))));
+	};
+
+	return (
+		<div className="spark-workflow-form-group">
+			<label>Fields</label>
+			{entries.map(([key, value], index) => (
+				<div key={index} className="spark-workflow-file-field">
+					<input
+						type="text"
+						value={key}
+						onChange={(e) => updateEntry(index, e.target.value, value)}
+						placeholder="status"
+					/>
+					<input
+						type="text"
+						value={value}
+						onChange={(e) => updateEntry(index, key, e.target.value)}
+						placeholder="done"
+					/>
+					<button
+						type="button"
+						className="spark-workflow-btn spark-workflow-btn-secondary"
+						onClick={() => onChange(Object.fromEntries(entries.filter((_, i) => i !== index)))}
+						aria-label="Remove field"
+					>
+						×
+					</button>
+				</div>
+			))}
+			<button
+				type="button"
+				className="spark-workflow-btn spark-workflow-btn-secondary"
+				onClick={() => onChange({ ...fields, [`field${entries.length + 1}`]: '' })}
+			>
+				Add field
+			</button>
+			<span className="spark-workflow-form-hint">
+				Values support $input; a value of exactly $input.field keeps its type (lists, numbers).
+			</span>
+		</div>
+	);
+}
+
 /**
  * Runs Tab
  */
@@ -0,0 +1,207 @@
+/**
+ * WorkflowBundle - Reading, checking and renaming the contents of workflow bundles
+ * WorkflowStorage does the vault side of exporting and importing
+ */
+
+import type { WorkflowBundle, WorkflowDefinition, WorkflowInputField, WorkflowNode } from './types';
+
+export const WORKFLOW_BUNDLE_FORMAT = 'spark-workflow-bundle';
+export const WORKFLOW_BUNDLE_VERSION = 1;
+
+// Mentions in prompt text; the lookbehind keeps e.g. "and/or" and emails out
+const AGENT_MENTION = /(?<=^|\s)@([\w-]+)(?!\.\w)/g;
+const COMMAND_MENTION = /(?<=^|\s)\/([\w-]+)(?![\w/.-])/g;
+
+// Workflow, agent and command names become file names, so nothing that could leave their folder
+const SAFE_NAME = /^[\w-]+$/;
+
+export interface WorkflowReferences {
+	agents: string[];
+	commands: string[];
+	workflows: string[]; // Sub-workflows called
+}
+
+/**
+ * New names for bundle contents that clash with the vault
+ */
+export interface WorkflowRenames {
+	agents?: Record<string, string>;
+	commands?: Record<string, string>;
+	workflows?: Record<string, string>;
+}
+
+/**
+ * Agents and commands mentioned in a workflow's prompts, and the workflows it calls
+ */
+export function findWorkflowReferences(workflow: WorkflowDefinition): WorkflowReferences {
+	const agents = new Set<string>();
+	const commands = new Set<string>();
+	const workflows = new Set<string>();
+
+	for (const node of workflow.nodes) {
+		if (node.data.type === 'prompt') {
+			addMentions(node.data.prompt, AGENT_MENTION, agents);
+			addMentions(node.data.prompt, COMMAND_MENTION, commands);
+		} else if (node.data.type === 'workflow' && node.data.workflowId) {
+			workflows.add(node.data.workflowId);
+		}
+	}
+
+	for (const field of workflow.inputs ?? []) {
+		const agent = agentDefault(field);
+		if (agent) agents.add(agent);
+	}
+
+	return { agents: [...agents], commands: [...commands], workflows: [...workflows] };
+}
+
+function addMentions(text: string, pattern: RegExp, names: Set<string>): void {
+	for (const match of text.matchAll(pattern)) {
+		names.add(match[1]);
+	}
+}
+
+/**
+ * Copy of a workflow with renamed agent and command mentions and sub-workflow ids
+ */
+export function renameWorkflowReferences(
+	workflow: WorkflowDefinition,
+	renames: WorkflowRenames
+): WorkflowDefinition {
+	const agents = renames.agents ?? {};
+	const commands = renames.commands ?? {};
+	const workflows = renames.workflows ?? {};
+
+	const renameNode = (node: WorkflowNode): WorkflowNode => {
+		if (node.data.type === 'prompt') {
+			const prompt = node.data.prompt
+				.replace(AGENT_MENTION, (mention: string, name: string) =>
+					agents[name] ? `@${agents[name]}` : mention
+				)
+				.replace(COMMAND_MENTION, (mention: string, name: string) =>
+					commands[name] ? `/${commands[name]}` : mention
+				);
+			return { ...node, data: { ...node.data, prompt } };
+		}
+		if (node.data.type === 'workflow' && workflows[node.data.workflowId]) {
+			return { ...node, data: { ...node.data, workflowId: workflows[node.data.workflowId] } };
+		}
+		return node;
+	};
+
+	return {
+		...workflow,
+		nodes: workflow.nodes.map(renameNode),
+		inputs: workflow.inputs?.map(field => {
+			const agent = agentDefault(field);
+			return agent && agents[agent] ? { ...field, default: agents[agent] } : field;
+		}),
+	};
+}
+
+/**
+ * Agent preselected by an agent input field, if any
+ */
+function agentDefault(field: WorkflowInputField): string | undefined {
+	return field.type === 'agent' && typeof field.default === 'string' && field.default
+		? field.default.replace(/^@/, '')
+		: undefined;
+}
+
+/**
+ * First of name, name-2, name-3… not taken yet
+ */
+export function uniqueName(name: string, taken: Set<string>): string {
+	let candidate = name;
+	for (let i = 2; taken.has(candidate); i++) {
+		candidate = `${name}-${i}`;
+	}
+	return candidate;
+}
+
+/**
+ * Display name for a copy of a workflow: "Name (copy)", "Name (copy 2)"…
+ */
+export function copyWorkflowName(name: string, label: string, taken: Set<string>): string {
+	let candidate = `${name} (${label})`;
+	for (let i = 2; taken.has(candidate); i++) {
+		candidate = `${name} (${label} ${i})`;
+	}
+	return candidate;
+}
+
+/**
+ * Parse a bundle file, throwing an error that says what is wrong with it
+ */
+export function parseWorkflowBundle(content: string): WorkflowBundle {
+	let bundle: Partial<WorkflowBundle>;
+	try {
+		bundle = JSON.parse(content) as Partial<WorkflowBundle>;
+	} catch {
+		throw new Error('Not a workflow bundle: the file is not valid JSON');
+	}
+
+	const manifest = bundle?.manifest;
+	if (manifest?.format !== WORKFLOW_BUNDLE_FORMAT) {
+		throw new Error('Not a workflow bundle: the manifest is missing');
+	}
+	if (typeof manifest.version !== 'number' || manifest.version > WORKFLOW_BUNDLE_VERSION) {
+		throw new Error(
+			`Bundle format version ${String(manifest.version)} is newer than this version of Spark supports (${WORKFLOW_BUNDLE_VERSION})`
+		);
+	}
+
+	const workflows = Array.isArray(bundle.workflows) ? bundle.workflows : [];
+	const invalid = workflows.find(
+		w => typeof w?.id !== 'string' || !Array.isArray(w.nodes) || !Array.isArray(w.edges)
+	);
+	if (workflows.length === 0 || invalid) {
+		throw new Error('Invalid workflow bundle: every workflow needs an id, nodes and edges');
+	}
+	const unsafe = [manifest.workflowId, ...workflows.flatMap(workflowIds)].find(
+		id => typeof id !== 'string' || !SAFE_NAME.test(id)
+	);
+	if (unsafe !== undefined) {
+		throw new Error(
+			`Invalid workflow bundle: workflow id ${JSON.stringify(unsafe)} may only contain letters, digits, _ and -`
+		);
+	}
+	if (!workflows.some(w => w.id === manifest.workflowId)) {
+		throw new Error(
+			`Invalid workflow bundle: workflow ${manifest.workflowId} is not in the bundle`
+		);
+	}
+
+	return {
+		manifest,
+		workflows,
+		agents: stringRecord(bundle.agents, 'agents'),
+		commands: stringRecord(bundle.commands, 'commands'),
+	};
+}
+
+/**
+ * A workflow's own id and the ids of the workflows it calls
+ */
+function workflowIds(workflow: WorkflowDefinition): unknown[] {
+	const called = workflow.nodes.map(node =>
+		node?.data?.type === 'workflow' && node.data.workflowId ? node.data.workflowId : null
+	);
+	return [workflow.id, ...called.filter(id => id !== null)];
+}
+
+function stringRecord(value: unknown, key: string): Record<string, string> {
+	if (value === undefined) {
+		return {};
+	}
+	const valid =
+		typeof value === 'object' &&
+		value !== null &&
+		Object.entries(value).every(
+			([name, content]) => SAFE_NAME.test(name) && typeof content === 'string'
+		);
+	if (!valid) {
+		throw new Error(`Invalid workflow bundle: ${key} must map names to file contents`);
+	}
+	return value as Record<string, string>;
+}
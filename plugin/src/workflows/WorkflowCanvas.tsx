@@ -2,7 +2,7 @@
  * WorkflowCanvas - Main React Flow canvas component
  */
 
-import type { App } from 'obsidian';
+import { type App, Notice } from 'obsidian';
 import { useCallback, useState, useMemo, useRef, useEffect, type MutableRefObject } from 'react';
 import {
 	ReactFlow,
@@ -29,17 +29,30 @@ import {
 	type WorkflowNode,
 	type WorkflowNodeData,
 	type WorkflowEdge,
+	type WorkflowHistoryEntry,
+	type WorkflowInputField,
 	type WorkflowRun,
+	type WorkflowScheduleEntry,
+	type WorkflowTrigger,
 	type StepStatus,
+	type StepType,
 	generateId,
 	createEmptyWorkflow,
 } from './types';
 import { ActionNode } from './nodes/ActionNode';
+import { ApprovalNode } from './nodes/ApprovalNode';
 import { PromptNode } from './nodes/PromptNode';
 import { CodeNode } from './nodes/CodeNode';
 import { ConditionNode } from './nodes/ConditionNode';
+import { FileNode } from './nodes/FileNode';
+import { JoinNode } from './nodes/JoinNode';
+import { SubWorkflowNode } from './nodes/SubWorkflowNode';
 import { Sidebar } from './Sidebar';
+import { requestRunInput } from './WorkflowInputModal';
+import { WorkflowHistorySidebar } from './WorkflowHistorySidebar';
+import { WorkflowInputsSidebar } from './WorkflowInputsSidebar';
 import { WorkflowRunsSidebar } from './WorkflowRunsSidebar';
+import { WorkflowTriggersSidebar } from './WorkflowTriggersSidebar';
 import { WorkflowStorage } from './WorkflowStorage';
 
 interface WorkflowCanvasProps {
@@ -48,6 +61,8 @@ interface WorkflowCanvasProps {
 	workflow: WorkflowDefinition | null;
 	onWorkflowChange: (workflow: WorkflowDefinition) => void;
 	onNavigateToList?: () => void;
+	focusedRunId?: string | null; // Run to show in the run history
+	onOpenRun?: (workflowId: string, runId: string) => void; // Open a run of another workflow
 }
 
 const WORKFLOW_SIDEBAR_MIN_WIDTH = 320;
@@ -60,6 +75,10 @@ const nodeTypes = {
 	prompt: PromptNode,
 	code: CodeNode,
 	condition: ConditionNode,
+	file: FileNode,
+	join: JoinNode,
+	approval: ApprovalNode,
+	workflow: SubWorkflowNode,
 } as unknown as NodeTypes;
 
 // Auto-save debounce delay in milliseconds
@@ -80,7 +99,13 @@ function useAutoSave(
 
 	useEffect(() => {
 		// Create a snapshot to compare for changes
-		const snapshot = JSON.stringify({ nodes, edges, name: workflow.name });
+		const snapshot = JSON.stringify({
+			nodes,
+			edges,
+			name: workflow.name,
+			triggers: workflow.triggers,
+			inputs: workflow.inputs,
+		});
 
 		// Skip if nothing changed since last save
 		if (snapshot === lastSavedRef.current) return;
@@ -99,9 +124,9 @@ function useAutoSave(
 					edges,
 					updated: new Date().toISOString(),
 				};
-				await storageRef.current.saveWorkflow(workflowToSave);
+				const saved = await storageRef.current.saveWorkflow(workflowToSave);
 				lastSavedRef.current = snapshot;
-				onWorkflowChange(workflowToSave);
+				onWorkflowChange(saved);
 			})();
 		}, AUTO_SAVE_DELAY);
 
@@ -110,7 +135,7 @@ function useAutoSave(
 				clearTimeout(timeoutRef.current);
 			}
 		};
-	}, [workflow.id, workflow.name, nodes, edges, storageRef, onWorkflowChange]);
+	}, [workflow.id, workflow.name, workflow.triggers, workflow.inputs, nodes, edges, storageRef, onWorkflowChange]);
 }
 
 // Default edge options - use smoothstep for cleaner routing around nodes
@@ -157,6 +182,8 @@ function WorkflowCanvasInner({
 	workflow: initialWorkflow,
 	onWorkflowChange,
 	onNavigateToList,
+	focusedRunId,
+	onOpenRun,
 }: Readonly<WorkflowCanvasProps>) {
 	// React Flow instance for viewport control
 	const reactFlowInstance = useReactFlow();
@@ -205,7 +232,22 @@ function WorkflowCanvasInner({
 
 	// UI state - store ID only, derive node from nodes array to stay in sync
 	const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
-	const [sidebarMode, setSidebarMode] = useState<'node' | 'workflowRuns' | null>(null);
+	const [sidebarMode, setSidebarMode] = useState<
+		'node' | 'workflowRuns' | 'workflowTriggers' | 'workflowInputs' | 'workflowHistory' | null
+	>(null);
+	const [schedule, setSchedule] = useState<WorkflowScheduleEntry | null>(null);
+
+	// Version on disk; auto-save doesn't update workflow state, so it is tracked here
+	const [savedVersion, setSavedVersion] = useState(workflow.version);
+	const [history, setHistory] = useState<WorkflowHistoryEntry[]>([]);
+	const [focusedVersion, setFocusedVersion] = useState<number | null>(null);
+
+	// Open the run history when asked to show a run
+	useEffect(() => {
+		if (!focusedRunId) return;
+		setSelectedNodeId(null);
+		setSidebarMode('workflowRuns');
+	}, [focusedRunId]);
 
 	// Auto-select initial action node on empty workflow (first load)
 	const hasAutoSelectedRef = useRef(false);
@@ -286,13 +328,21 @@ function WorkflowCanvasInner({
 		setRuns(workflowRuns);
 	}, [workflow.id]);
 
+	const handleSaved = useCallback(
+		(saved: WorkflowDefinition) => {
+			setSavedVersion(saved.version);
+			onWorkflowChange(saved);
+		},
+		[onWorkflowChange]
+	);
+
 	// Auto-save on changes (debounced)
 	useAutoSave(
 		workflow,
 		nodes as unknown as WorkflowNode[],
 		edges as unknown as WorkflowEdge[],
 		storageRef,
-		onWorkflowChange
+		handleSaved
 	);
 
 	// Sync workflow state when nodes/edges change
@@ -325,7 +375,10 @@ function WorkflowCanvasInner({
 			setEdges((currentEdges) => {
 				let label: string | undefined;
 
-				if (isCondition) {
+				if (connection.sourceHandle === 'error') {
+					// Error edges are followed when the step fails (policy "branch")
+					label = 'error';
+				} else if (isCondition) {
 					// Check existing edges from this condition node using CURRENT state
 					const existingEdges = currentEdges.filter((e) => e.source === connection.source);
 					const hasTrueEdge = existingEdges.some((e) => e.label === 'true');
@@ -336,6 +389,9 @@ function WorkflowCanvasInner({
 					} else if (!hasFalseEdge) {
 						label = 'false';
 					}
+				} else if (sourceNode?.type === 'approval') {
+					// Approval edges are labelled with the decision handle they leave from
+					label = connection.sourceHandle ?? undefined;
 				}
 
 				const newEdge: WorkflowEdge = {
@@ -409,7 +465,7 @@ function WorkflowCanvasInner({
 			return;
 		}
 		setSelectedNodeId(null);
-		// Keep workflow-level Runs panel open when it is active.
+		// Keep workflow-level Runs/Triggers/Inputs panels open when active.
 		if (sidebarMode === 'node') {
 			setSidebarMode(null);
 		}
@@ -475,10 +531,10 @@ function WorkflowCanvasInner({
 	);
 
 	/**
-	 * Transform a node to a different type (action -> prompt/code/condition)
+	 * Transform a node to a different type (action -> prompt/code/condition/file/join/approval/workflow)
 	 */
 	const transformNode = useCallback(
-		(nodeId: string, newType: 'prompt' | 'code' | 'condition', newData: WorkflowNode['data']) => {
+		(nodeId: string, newType: Exclude<StepType, 'action'>, newData: WorkflowNode['data']) => {
 			setNodes(
 				(nds) =>
 					nds.map((node) => {
@@ -567,7 +623,9 @@ function WorkflowCanvasInner({
 				setEdges((currentEdges) => {
 					let label: string | undefined;
 
-					if (isCondition) {
+					if (sourceHandleId === 'error') {
+						label = 'error';
+					} else if (isCondition) {
 						const existingEdges = currentEdges.filter((e) => e.source === sourceNodeId);
 						const hasTrueEdge = existingEdges.some((e) => e.label === 'true');
 						const hasFalseEdge = existingEdges.some((e) => e.label === 'false');
@@ -577,6 +635,8 @@ function WorkflowCanvasInner({
 						} else if (!hasFalseEdge) {
 							label = 'false';
 						}
+					} else if (sourceNode?.type === 'approval') {
+						label = sourceHandleId;
 					}
 
 					const newEdge: WorkflowEdge = {
@@ -687,13 +747,15 @@ function WorkflowCanvasInner({
 			edges: edges,
 			updated: new Date().toISOString(),
 		};
-		await storageRef.current.saveWorkflow(workflowToSave);
-		setWorkflow(workflowToSave);
-		onWorkflowChange(workflowToSave);
-	}, [workflow, nodes, edges, onWorkflowChange]);
+		const saved = await storageRef.current.saveWorkflow(workflowToSave);
+		setWorkflow(saved);
+		handleSaved(saved);
+	}, [workflow, nodes, edges, handleSaved]);
 
 	// Track current run for polling
 	const [currentRunId, setCurrentRunId] = useState<string | null>(null);
+	// End time a resumed run had when it stopped; it keeps that state until the engine picks it up
+	const resumedEndTimeRef = useRef<number | undefined>(undefined);
 
 	// Track execution status for each node
 	const [nodeExecutionStatus, setNodeExecutionStatus] = useState<Record<string, StepStatus>>({});
@@ -740,8 +802,8 @@ function WorkflowCanvasInner({
 					}
 					setNodeExecutionStatus(statusMap);
 
-					// Check if run is finished (completed or failed)
-					if (currentRun.status === 'completed' || currentRun.status === 'failed') {
+					// Check if run is finished (or stopped)
+					if (currentRun.status !== 'running' && currentRun.endTime !== resumedEndTimeRef.current) {
 						setIsRunning(false);
 						setCurrentRunId(null);
 					}
@@ -756,24 +818,126 @@ function WorkflowCanvasInner({
 	 * Run workflow
 	 */
 	const runWorkflow = useCallback(async () => {
+		// Ask for the workflow's inputs first; cancelling the dialog cancels the run
+		const runInput = await requestRunInput(app, workflow);
+		if (!runInput) return;
+
 		setIsRunning(true);
+		resumedEndTimeRef.current = undefined;
 
 		// Save immediately before running
 		await saveWorkflowNow();
 
 		// Queue for engine execution
 		const runId = generateId('run');
-		await storageRef.current.queueWorkflow(workflow.id, runId);
+		await storageRef.current.queueWorkflow(workflow.id, runId, runInput.input);
 
 		// Set current run to trigger polling
 		setCurrentRunId(runId);
-	}, [workflow.id, saveWorkflowNow]);
+	}, [app, workflow, saveWorkflowNow]);
+
+	/**
+	 * Continue a stopped or failed run from its checkpoint
+	 */
+	const resumeRun = useCallback(
+		async (runId: string) => {
+			setIsRunning(true);
+			resumedEndTimeRef.current = runs.find((r) => r.id === runId)?.endTime;
+			await saveWorkflowNow();
+			await storageRef.current.resumeRun(workflow.id, runId);
+			setCurrentRunId(runId);
+		},
+		[workflow.id, runs, saveWorkflowNow]
+	);
 
 	const openWorkflowRuns = useCallback(() => {
 		setSelectedNodeId(null);
 		setSidebarMode((mode) => (mode === 'workflowRuns' ? null : 'workflowRuns'));
 	}, []);
 
+	const openWorkflowTriggers = useCallback(() => {
+		setSelectedNodeId(null);
+		setSidebarMode((mode) => (mode === 'workflowTriggers' ? null : 'workflowTriggers'));
+	}, []);
+
+	const openWorkflowInputs = useCallback(() => {
+		setSelectedNodeId(null);
+		setSidebarMode((mode) => (mode === 'workflowInputs' ? null : 'workflowInputs'));
+	}, []);
+
+	const openWorkflowHistory = useCallback(() => {
+		setSelectedNodeId(null);
+		setFocusedVersion(null);
+		setSidebarMode((mode) => (mode === 'workflowHistory' ? null : 'workflowHistory'));
+	}, []);
+
+	/**
+	 * Show a version in the history panel (e.g. the one a run used)
+	 */
+	const showWorkflowVersion = useCallback((version: number) => {
+		setSelectedNodeId(null);
+		setFocusedVersion(version);
+		setSidebarMode('workflowHistory');
+	}, []);
+
+	// Reload the versions while the history panel is open and after each save
+	useEffect(() => {
+		if (sidebarMode !== 'workflowHistory') return;
+		storageRef.current
+			.listWorkflowHistory(workflow.id)
+			.then(setHistory)
+			.catch(() => { });
+	}, [sidebarMode, workflow.id, savedVersion]);
+
+	/**
+	 * Restore a saved version as the newest version and load it into the editor
+	 */
+	const restoreWorkflowVersion = useCallback(
+		async (version: number) => {
+			try {
+				const restored = await storageRef.current.restoreWorkflowVersion(workflow.id, version);
+				setWorkflow(restored);
+				setNodes(restored.nodes);
+				setEdges(restored.edges.map(ensureEdgeClassName));
+				handleSaved(restored);
+				new Notice(`Restored version ${version}`);
+			} catch (error) {
+				new Notice(`Failed to restore version ${version}: ${error instanceof Error ? error.message : String(error)}`);
+			}
+		},
+		[workflow.id, setNodes, setEdges, handleSaved]
+	);
+
+	/**
+	 * Update the run input fields (saved by auto-save)
+	 */
+	const updateWorkflowInputs = useCallback((inputs: WorkflowInputField[]) => {
+		setWorkflow((w) => ({ ...w, inputs: inputs.length > 0 ? inputs : undefined, updated: new Date().toISOString() }));
+	}, []);
+
+	/**
+	 * Update workflow triggers (saved by auto-save, picked up by the engine)
+	 */
+	const updateWorkflowTriggers = useCallback((triggers: WorkflowTrigger[]) => {
+		setWorkflow((w) => ({ ...w, triggers, updated: new Date().toISOString() }));
+	}, []);
+
+	// Show the engine-computed next scheduled run while the triggers panel is open
+	useEffect(() => {
+		if (sidebarMode !== 'workflowTriggers') return;
+
+		const refresh = async () => {
+			const index = await storageRef.current.loadScheduleIndex();
+			setSchedule(index?.workflows?.[workflow.id] ?? null);
+		};
+		refresh().catch(() => { });
+		const interval = globalThis.setInterval(() => {
+			refresh().catch(() => { });
+		}, 2000);
+
+		return () => globalThis.clearInterval(interval);
+	}, [sidebarMode, workflow.id]);
+
 	/**
 	 * Update workflow name
 	 */
@@ -807,13 +971,13 @@ function WorkflowCanvasInner({
 			}
 
 			// Edge is "executed" only if:
-			// - Source is completed AND target is completed/running
+			// - Source is completed (or failed with an error policy that went on) AND target is completed/running
 			// This ensures we only show the path that was actually taken
 			const sourceStatus = nodeExecutionStatus[workflowEdge.source];
 			const targetStatus = nodeExecutionStatus[workflowEdge.target];
 			const isExecuted =
-				sourceStatus === 'completed' &&
-				(targetStatus === 'completed' || targetStatus === 'running');
+				(sourceStatus === 'completed' || sourceStatus === 'failed') &&
+				(targetStatus === 'completed' || targetStatus === 'running' || targetStatus === 'waiting');
 
 			if (isExecuted) {
 				className = `${className} spark-edge-executed`.trim();
@@ -902,6 +1066,73 @@ function WorkflowCanvasInner({
 							<path d="M5 12h14" />
 						</svg>
 					</button>
+					<button
+						type="button"
+						className={`spark-workflow-icon-btn${sidebarMode === 'workflowInputs' ? ' spark-workflow-icon-btn-active' : ''}`}
+						onClick={openWorkflowInputs}
+						title="Inputs"
+					>
+						<svg
+							xmlns="http://www.w3.org/2000/svg"
+							width="18"
+							height="18"
+							viewBox="0 0 24 24"
+							fill="none"
+							stroke="currentColor"
+							strokeWidth="2"
+							strokeLinecap="round"
+							strokeLinejoin="round"
+						>
+							<path d="M5 4h1a3 3 0 0 1 3 3 3 3 0 0 1 3-3h1" />
+							<path d="M13 20h-1a3 3 0 0 1-3-3 3 3 0 0 1-3 3H5" />
+							<path d="M5 16H4a2 2 0 0 1-2-2v-4a2 2 0 0 1 2-2h1" />
+							<path d="M13 8h7a2 2 0 0 1 2 2v4a2 2 0 0 1-2 2h-7" />
+							<path d="M9 7v10" />
+						</svg>
+					</button>
+					<button
+						type="button"
+						className={`spark-workflow-icon-btn${sidebarMode === 'workflowTriggers' ? ' spark-workflow-icon-btn-active' : ''}`}
+						onClick={openWorkflowTriggers}
+						title="Triggers"
+					>
+						<svg
+							xmlns="http://www.w3.org/2000/svg"
+							width="18"
+							height="18"
+							viewBox="0 0 24 24"
+							fill="none"
+							stroke="currentColor"
+							strokeWidth="2"
+							strokeLinecap="round"
+							strokeLinejoin="round"
+						>
+							<path d="M13 2 3 14h9l-1 8 10-12h-9l1-8z" />
+						</svg>
+					</button>
+					<button
+						type="button"
+						className={`spark-workflow-icon-btn${sidebarMode === 'workflowHistory' ? ' spark-workflow-icon-btn-active' : ''}`}
+						onClick={openWorkflowHistory}
+						title="Version history"
+					>
+						<svg
+							xmlns="http://www.w3.org/2000/svg"
+							width="18"
+							height="18"
+							viewBox="0 0 24 24"
+							fill="none"
+							stroke="currentColor"
+							strokeWidth="2"
+							strokeLinecap="round"
+							strokeLinejoin="round"
+						>
+							<path d="M16 22h2a2 2 0 0 0 2-2V7l-5-5H6a2 2 0 0 0-2 2v3" />
+							<path d="M14 2v4a2 2 0 0 0 2 2h4" />
+							<circle cx="8" cy="16" r="6" />
+							<path d="M9.5 17.5 8 16.25V14" />
+						</svg>
+					</button>
 					<button
 						type="button"
 						className={`spark-workflow-icon-btn${sidebarMode === 'workflowRuns' ? ' spark-workflow-icon-btn-active' : ''}`}
@@ -971,13 +1202,18 @@ function WorkflowCanvasInner({
 			</ReactFlow>
 
 			{/* Sidebar */}
-			{(sidebarMode === 'workflowRuns' || (sidebarMode === 'node' && selectedNode)) && (
+			{(sidebarMode === 'workflowRuns' ||
+				sidebarMode === 'workflowTriggers' ||
+				sidebarMode === 'workflowInputs' ||
+				sidebarMode === 'workflowHistory' ||
+				(sidebarMode === 'node' && selectedNode)) && (
 				<div className="spark-workflow-sidebar-wrapper" style={{ width: `${sidebarWidth}px` }}>
 					<hr className="spark-workflow-sidebar-resizer" aria-label="Resize sidebar" onPointerDown={handleSidebarResizePointerDown} />
 					{sidebarMode === 'node' && selectedNode && (
 						<Sidebar
 							app={app}
 							plugin={plugin}
+							workflowId={workflow.id}
 							node={selectedNode}
 							nodes={nodes}
 							edges={edges}
@@ -998,11 +1234,46 @@ function WorkflowCanvasInner({
 							workflow={workflow}
 							runs={runs}
 							onRerun={runWorkflow}
+							onStopRun={async (runId, control) => {
+								await storageRef.current.requestRunStop(workflow.id, runId, control);
+							}}
+							onResumeRun={resumeRun}
 							onDeleteRun={async (runId) => {
 								await storageRef.current.deleteRun(workflow.id, runId);
 								await loadRuns();
 							}}
 							onJumpToNode={jumpToNode}
+							focusedRunId={focusedRunId}
+							onOpenRun={(workflowId, runId) => onOpenRun?.(workflowId, runId)}
+							currentVersion={savedVersion}
+							onShowVersion={showWorkflowVersion}
+							onClose={() => setSidebarMode(null)}
+						/>
+					)}
+
+					{sidebarMode === 'workflowTriggers' && (
+						<WorkflowTriggersSidebar
+							triggers={workflow.triggers ?? []}
+							schedule={schedule}
+							onChange={updateWorkflowTriggers}
+							onClose={() => setSidebarMode(null)}
+						/>
+					)}
+
+					{sidebarMode === 'workflowInputs' && (
+						<WorkflowInputsSidebar
+							inputs={workflow.inputs ?? []}
+							onChange={updateWorkflowInputs}
+							onClose={() => setSidebarMode(null)}
+						/>
+					)}
+
+					{sidebarMode === 'workflowHistory' && (
+						<WorkflowHistorySidebar
+							history={history}
+							currentVersion={savedVersion}
+							focusedVersion={focusedVersion}
+							onRestore={(version) => void restoreWorkflowVersion(version)}
 							onClose={() => setSidebarMode(null)}
 						/>
 					)}
@@ -0,0 +1,160 @@
+/**
+ * WorkflowHistory - What changed between two versions of a workflow
+ */
+
+import { type DiffLine, diffLines } from '../utils/diffLines';
+import type { WorkflowDefinition, WorkflowEdge, WorkflowNode } from './types';
+
+export type WorkflowChange =
+	| { kind: 'renamed'; from: string; to: string }
+	| { kind: 'node-added' | 'node-removed'; nodeId: string; label: string }
+	| { kind: 'node-changed'; nodeId: string; label: string; fields: string[]; text?: DiffLine[] }
+	| { kind: 'edges'; added: number; removed: number }
+	| { kind: 'settings'; fields: string[] };
+
+// Fields compared as a whole, outside nodes and edges
+const WORKFLOW_FIELDS = ['description', 'settings', 'triggers', 'inputs'] as const;
+
+/**
+ * Nodes and edges without layout or React Flow's view state (position, selection, measured size)
+ * Dragging steps around doesn't make a version, so autosaves don't push real edits out of history
+ */
+function definitionOf(workflow: WorkflowDefinition) {
+	return {
+		name: workflow.name,
+		description: workflow.description,
+		settings: workflow.settings,
+		triggers: workflow.triggers,
+		inputs: workflow.inputs,
+		nodes: workflow.nodes.map(nodeOf),
+		edges: workflow.edges.map(edgeKey),
+	};
+}
+
+function nodeOf(node: WorkflowNode) {
+	return { id: node.id, type: node.type, data: node.data };
+}
+
+function edgeKey(edge: WorkflowEdge): string {
+	return [
+		edge.source,
+		edge.sourceHandle ?? '',
+		edge.target,
+		edge.targetHandle ?? '',
+		edge.label ?? '',
+	].join('|');
+}
+
+/**
+ * Whether saving after would change the definition (moving, selecting or measuring nodes doesn't)
+ */
+export function hasDefinitionChanged(
+	before: WorkflowDefinition,
+	after: WorkflowDefinition
+): boolean {
+	return JSON.stringify(definitionOf(before)) !== JSON.stringify(definitionOf(after));
+}
+
+/**
+ * Changes from one version to the next: renames, steps added, removed or edited, edges and settings
+ */
+export function diffWorkflows(
+	before: WorkflowDefinition,
+	after: WorkflowDefinition
+): WorkflowChange[] {
+	const changes: WorkflowChange[] = [];
+
+	if (before.name !== after.name) {
+		changes.push({ kind: 'renamed', from: before.name, to: after.name });
+	}
+
+	const beforeNodes = new Map(before.nodes.map(n => [n.id, n]));
+	const afterNodes = new Map(after.nodes.map(n => [n.id, n]));
+	for (const node of after.nodes) {
+		const previous = beforeNodes.get(node.id);
+		if (!previous) {
+			changes.push({ kind: 'node-added', nodeId: node.id, label: node.data.label });
+			continue;
+		}
+		const changed = diffNode(previous, node);
+		if (changed) changes.push(changed);
+	}
+	for (const node of before.nodes) {
+		if (!afterNodes.has(node.id)) {
+			changes.push({ kind: 'node-removed', nodeId: node.id, label: node.data.label });
+		}
+	}
+
+	const beforeEdges = new Set(before.edges.map(edgeKey));
+	const afterEdges = new Set(after.edges.map(edgeKey));
+	const added = [...afterEdges].filter(e => !beforeEdges.has(e)).length;
+	const removed = [...beforeEdges].filter(e => !afterEdges.has(e)).length;
+	if (added > 0 || removed > 0) {
+		changes.push({ kind: 'edges', added, removed });
+	}
+
+	const fields = WORKFLOW_FIELDS.filter(
+		f => JSON.stringify(before[f]) !== JSON.stringify(after[f])
+	);
+	if (fields.length > 0) {
+		changes.push({ kind: 'settings', fields });
+	}
+
+	return changes;
+}
+
+function diffNode(before: WorkflowNode, after: WorkflowNode): WorkflowChange | null {
+	const beforeData = before.data as Record<string, unknown>;
+	const afterData = after.data as Record<string, unknown>;
+	const keys = new Set([...Object.keys(beforeData), ...Object.keys(afterData)]);
+	const fields = [...keys].filter(
+		k => JSON.stringify(beforeData[k]) !== JSON.stringify(afterData[k])
+	);
+
+	const moved = before.position.x !== after.position.x || before.position.y !== after.position.y;
+	if (fields.length === 0 && !moved) return null;
+
+	// Prompt and code edits are shown line by line
+	const textField = fields.find(f => f === 'prompt' || f === 'code');
+	const text = textField
+		? diffLines(textOf(beforeData[textField]), textOf(afterData[textField]))
+		: undefined;
+
+	return {
+		kind: 'node-changed',
+		nodeId: after.id,
+		label: after.data.label,
+		fields: moved ? [...fields, 'position'] : fields,
+		text,
+	};
+}
+
+function textOf(value: unknown): string {
+	return typeof value === 'string' ? value : '';
+}
+
+/**
+ * Short summary of changes, e.g. "2 steps added, 1 step changed, edges +1 −0"
+ */
+export function summarizeChanges(changes: WorkflowChange[]): string {
+	if (changes.length === 0) return 'No changes';
+
+	const count = (kind: WorkflowChange['kind']) => changes.filter(c => c.kind === kind).length;
+	const steps = (n: number, what: string) =>
+		n > 0 ? `${n} step${n === 1 ? '' : 's'} ${what}` : null;
+	const edges = changes.find(c => c.kind === 'edges');
+	const settings = changes.find(c => c.kind === 'settings');
+	const renamed = changes.find(c => c.kind === 'renamed');
+
+	return [
+		renamed ? `renamed to "${renamed.to}"` : null,
+		steps(count('node-added'), 'added'),
+		steps(count('node-removed'), 'removed'),
+		steps(count('node-changed'), 'changed'),
+		edges ? `edges +${edges.added} −${edges.removed}` : null,
+		settings ? `${settings.fields.join(', ')} changed` : null,
+	]
+		.filter(Boolean)
+		.join(', ')
+		.replace(/^./, c => c.toUpperCase());
+}
@@ -0,0 +1,179 @@
+/**
+ * WorkflowHistorySidebar - Saved versions of the workflow, what changed in each, and restore
+ */
+
+import { useEffect, useState } from 'react';
+import type { WorkflowHistoryEntry } from './types';
+import { diffWorkflows, summarizeChanges, type WorkflowChange } from './WorkflowHistory';
+
+interface WorkflowHistorySidebarProps {
+	history: WorkflowHistoryEntry[]; // Newest first
+	currentVersion: number;
+	focusedVersion?: number | null; // Version opened from a run
+	onRestore: (version: number) => void;
+	onClose: () => void;
+}
+
+function describeSource(entry: WorkflowHistoryEntry): string {
+	switch (entry.source) {
+		case 'generated':
+			return 'Generated by AI';
+		case 'restored':
+			return entry.restoredFrom !== undefined ? `Restored from v${entry.restoredFrom}` : 'Restored';
+		case 'imported':
+			return 'Imported';
+		case 'duplicated':
+			return 'Duplicated';
+		default:
+			return 'Edited';
+	}
+}
+
+function describeChange(change: WorkflowChange): string {
+	switch (change.kind) {
+		case 'renamed':
+			return `Renamed from "${change.from}" to "${change.to}"`;
+		case 'node-added':
+			return `Added step ${change.label || change.nodeId}`;
+		case 'node-removed':
+			return `Removed step ${change.label || change.nodeId}`;
+		case 'node-changed':
+			return `Changed step ${change.label || change.nodeId}: ${change.fields.join(', ')}`;
+		case 'edges':
+			return `Connections: ${change.added} added, ${change.removed} removed`;
+		case 'settings':
+			return `Changed ${change.fields.join(', ')}`;
+	}
+}
+
+function ChangeList({ changes }: { changes: WorkflowChange[] }) {
+	if (changes.length === 0) {
+		return <p className="spark-workflow-sidebar-empty">No changes to the definition.</p>;
+	}
+
+	return (
+		<ul className="spark-workflow-history-changes">
+			{changes.map((change, index) => (
+				<li key={index}>
+					{describeChange(change)}
+					{change.kind === 'node-changed' && change.text && (
+						<pre className="spark-workflow-history-diff">
+							{change.text.map((line, i) => (
+								<div key={i} className={`spark-workflow-history-diff-${line.type}`}>
+									{line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+									{line.text}
+								</div>
+							))}
+						</pre>
+					)}
+				</li>
+			))}
+		</ul>
+	);
+}
+
+export function WorkflowHistorySidebar({
+	history,
+	currentVersion,
+	focusedVersion,
+	onRestore,
+	onClose,
+}: WorkflowHistorySidebarProps) {
+	const [expandedVersion, setExpandedVersion] = useState<number | null>(focusedVersion ?? null);
+	const [compareWithCurrent, setCompareWithCurrent] = useState(focusedVersion != null);
+
+	useEffect(() => {
+		if (focusedVersion != null) {
+			setExpandedVersion(focusedVersion);
+			setCompareWithCurrent(true);
+		}
+	}, [focusedVersion]);
+
+	const current = history.find((e) => e.version === currentVersion);
+
+	return (
+		<div className="spark-workflow-sidebar">
+			<div className="spark-workflow-sidebar-header">
+				<h3>Version history</h3>
+				<button type="button" className="spark-workflow-sidebar-close" onClick={onClose} aria-label="Close">
+					×
+				</button>
+			</div>
+
+			<div className="spark-workflow-sidebar-content">
+				<div className="spark-workflow-sidebar-section">
+					{history.length === 0 && (
+						<p className="spark-workflow-sidebar-empty">No saved versions yet. Each save adds one.</p>
+					)}
+
+					{history.map((entry, index) => {
+						// History is newest first, so the version before is the next entry
+						const previous = history[index + 1];
+						const changes = previous ? diffWorkflows(previous.workflow, entry.workflow) : [];
+						const expanded = expandedVersion === entry.version;
+						const isCurrent = entry.version === currentVersion;
+						const comparing = expanded && compareWithCurrent && current && !isCurrent;
+
+						return (
+							<div
+								key={entry.version}
+								className={`spark-workflow-history-entry${expanded ? ' is-expanded' : ''}`}
+							>
+								<button
+									type="button"
+									className="spark-workflow-history-entry-header"
+									onClick={() => {
+										setExpandedVersion(expanded ? null : entry.version);
+										setCompareWithCurrent(false);
+									}}
+								>
+									<span className="spark-workflow-history-version">
+										v{entry.version}
+										{isCurrent && ' (current)'}
+									</span>
+									<span className="spark-workflow-history-date">
+										{new Date(entry.savedAt).toLocaleString()}
+									</span>
+									<span className="spark-workflow-history-source">{describeSource(entry)}</span>
+									<span className="spark-workflow-history-summary">
+										{previous ? summarizeChanges(changes) : 'First saved version'}
+									</span>
+								</button>
+
+								{expanded && (
+									<div className="spark-workflow-history-details">
+										{comparing ? (
+											<ChangeList changes={diffWorkflows(entry.workflow, current.workflow)} />
+										) : (
+											previous && <ChangeList changes={changes} />
+										)}
+
+										<div className="spark-workflow-trigger-actions">
+											{!isCurrent && current && (
+												<button
+													type="button"
+													className="spark-workflow-btn spark-workflow-btn-secondary"
+													onClick={() => setCompareWithCurrent(!compareWithCurrent)}
+												>
+													{compareWithCurrent ? 'Show changes in this version' : 'Compare with current'}
+												</button>
+											)}
+											<button
+												type="button"
+												className="spark-workflow-btn spark-workflow-btn-primary"
+												disabled={isCurrent}
+												onClick={() => onRestore(entry.version)}
+											>
+												Restore
+											</button>
+										</div>
+									</div>
+								)}
+							</div>
+						);
+					})}
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,225 @@
+/**
+ * WorkflowInputModal - Run dialog asking for a workflow's input fields
+ */
+
+import {
+	AbstractInputSuggest,
+	type App,
+	Modal,
+	Setting,
+	type TAbstractFile,
+	TFile,
+	TFolder,
+} from 'obsidian';
+import { ResourceService } from '../services/ResourceService';
+import type { WorkflowDefinition, WorkflowInputField } from './types';
+import {
+	getDefaultInputValues,
+	getInputFieldLabel,
+	validateWorkflowInput,
+	type WorkflowInputValues,
+} from './WorkflowInputs';
+
+// Suggestions shown at once while typing a path
+const MAX_PATH_SUGGESTIONS = 50;
+
+/**
+ * Input for a manual run of a workflow, or null if the run dialog was cancelled
+ * Workflows without input fields get the bound note's path and content, like a note trigger
+ */
+export async function requestRunInput(
+	app: App,
+	workflow: WorkflowDefinition,
+	file?: TFile | null
+): Promise<{ input?: unknown } | null> {
+	const fields = workflow.inputs ?? [];
+	if (fields.length === 0) {
+		return file ? { input: { file: file.path, content: await app.vault.cachedRead(file) } } : {};
+	}
+
+	const agentNames = fields.some(f => f.type === 'agent')
+		? await ResourceService.getInstance(app).getAgentNames()
+		: [];
+
+	return new Promise(resolve => {
+		new WorkflowInputModal(
+			app,
+			workflow,
+			getDefaultInputValues(fields, file),
+			agentNames,
+			resolve
+		).open();
+	});
+}
+
+/**
+ * Suggests vault notes or folders for a path field
+ */
+class VaultPathSuggest extends AbstractInputSuggest<TAbstractFile> {
+	private type: 'file' | 'folder';
+	private onPick: (path: string) => void;
+
+	constructor(
+		app: App,
+		inputEl: HTMLInputElement,
+		type: 'file' | 'folder',
+		onPick: (path: string) => void
+	) {
+		super(app, inputEl);
+		this.type = type;
+		this.onPick = onPick;
+	}
+
+	protected getSuggestions(query: string): TAbstractFile[] {
+		const lowerQuery = query.toLowerCase();
+		return this.app.vault
+			.getAllLoadedFiles()
+			.filter(f =>
+				this.type === 'file' ? f instanceof TFile : f instanceof TFolder && !f.isRoot()
+			)
+			.filter(f => f.path.toLowerCase().includes(lowerQuery))
+			.slice(0, MAX_PATH_SUGGESTIONS);
+	}
+
+	renderSuggestion(item: TAbstractFile, el: HTMLElement): void {
+		el.setText(item.path);
+	}
+
+	selectSuggestion(item: TAbstractFile): void {
+		this.setValue(item.path);
+		this.onPick(item.path);
+		this.close();
+	}
+}
+
+class WorkflowInputModal extends Modal {
+	private workflow: WorkflowDefinition;
+	private values: WorkflowInputValues;
+	private agentNames: string[];
+	private resolve: (result: { input: unknown } | null) => void;
+	private resolved = false;
+	private errorsEl: HTMLElement | null = null;
+
+	constructor(
+		app: App,
+		workflow: WorkflowDefinition,
+		values: WorkflowInputValues,
+		agentNames: string[],
+		resolve: (result: { input: unknown } | null) => void
+	) {
+		super(app);
+		this.workflow = workflow;
+		this.values = values;
+		this.agentNames = agentNames;
+		this.resolve = resolve;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('spark-workflow-input-modal');
+
+		new Setting(contentEl).setName(`Run ${this.workflow.name}`).setHeading();
+
+		for (const field of this.workflow.inputs ?? []) {
+			this.addField(contentEl, field);
+		}
+
+		this.errorsEl = contentEl.createDiv({ cls: 'spark-workflow-input-errors' });
+
+		new Setting(contentEl)
+			.addButton(btn =>
+				btn
+					.setButtonText('Run')
+					.setCta()
+					.onClick(() => this.submit())
+			)
+			.addButton(btn =>
+				btn.setButtonText('Cancel').onClick(() => {
+					this.resolved = true;
+					this.close();
+					this.resolve(null);
+				})
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		// Closed with Escape or the close button
+		if (!this.resolved) {
+			this.resolve(null);
+		}
+	}
+
+	private addField(containerEl: HTMLElement, field: WorkflowInputField) {
+		const setting = new Setting(containerEl).setName(
+			field.required ? `${getInputFieldLabel(field)} *` : getInputFieldLabel(field)
+		);
+		if (field.description) {
+			setting.setDesc(field.description);
+		}
+
+		const current = this.values[field.name];
+		const update = (value: string) => {
+			this.values[field.name] = value;
+		};
+
+		switch (field.type) {
+			case 'enum':
+			case 'agent': {
+				const options = field.type === 'enum' ? (field.options ?? []) : this.agentNames;
+				setting.addDropdown(dropdown => {
+					dropdown.addOption('', field.required ? 'Select…' : 'None');
+					for (const option of options) {
+						dropdown.addOption(option, field.type === 'agent' ? `@${option}` : option);
+					}
+					dropdown
+						.setValue(current === undefined ? '' : String(current).replace(/^@/, ''))
+						.onChange(update);
+				});
+				break;
+			}
+			case 'file':
+			case 'folder':
+				setting.addText(text => {
+					text
+						.setPlaceholder(field.type === 'file' ? 'Path/to/note.md' : 'Path/to/folder')
+						.setValue(current === undefined ? '' : String(current))
+						.onChange(update);
+					new VaultPathSuggest(this.app, text.inputEl, field.type as 'file' | 'folder', update);
+				});
+				break;
+			case 'number':
+				setting.addText(text => {
+					text.inputEl.type = 'number';
+					text.setValue(current === undefined ? '' : String(current)).onChange(update);
+				});
+				break;
+			default:
+				setting.addTextArea(text => {
+					text.setValue(current === undefined ? '' : String(current)).onChange(update);
+				});
+		}
+	}
+
+	private submit() {
+		const { input, errors } = validateWorkflowInput(
+			this.app,
+			this.workflow.inputs ?? [],
+			this.values,
+			this.agentNames
+		);
+
+		if (errors.length > 0) {
+			this.errorsEl?.empty();
+			for (const error of errors) {
+				this.errorsEl?.createDiv({ text: error });
+			}
+			return;
+		}
+
+		this.resolved = true;
+		this.close();
+		this.resolve({ input });
+	}
+}
@@ -0,0 +1,113 @@
+/**
+ * Workflow run inputs - Defaults and checks for the values of a workflow's input fields
+ * Mirrors the engine's check, so mistakes show up in the run dialog instead of a failed run
+ */
+
+import { type App, TFile, TFolder } from 'obsidian';
+import type { WorkflowInputField } from './types';
+
+export type WorkflowInputValues = Record<string, string | number>;
+
+export function getInputFieldLabel(field: WorkflowInputField): string {
+	return field.label || field.name;
+}
+
+/**
+ * Starting values of the run dialog
+ * The first file field without a default is bound to the given note
+ */
+export function getDefaultInputValues(
+	fields: WorkflowInputField[],
+	file?: TFile | null
+): WorkflowInputValues {
+	const values: WorkflowInputValues = {};
+	let fileBound = false;
+
+	for (const field of fields) {
+		if (field.default !== undefined && field.default !== '') {
+			values[field.name] = field.default;
+		} else if (field.type === 'file' && file && !fileBound) {
+			values[field.name] = file.path;
+			fileBound = true;
+		}
+	}
+	return values;
+}
+
+/**
+ * Check dialog values against the input fields
+ * Returns the run input (numbers parsed, empty values dropped) and one error per invalid field
+ */
+export function validateWorkflowInput(
+	app: App,
+	fields: WorkflowInputField[],
+	values: WorkflowInputValues,
+	agentNames: string[]
+): { input: WorkflowInputValues; errors: string[] } {
+	const input: WorkflowInputValues = {};
+	const errors: string[] = [];
+
+	for (const field of fields) {
+		const raw = values[field.name];
+		const value = typeof raw === 'string' ? raw.trim() : raw;
+		const label = getInputFieldLabel(field);
+
+		if (value === undefined || value === '') {
+			if (field.required) {
+				errors.push(`${label} is required`);
+			}
+			continue;
+		}
+
+		const error = checkValue(app, field, value, agentNames);
+		if (error) {
+			errors.push(`${label} ${error}`);
+		} else {
+			input[field.name] = normalizeValue(field, value);
+		}
+	}
+
+	return { input, errors };
+}
+
+function checkValue(
+	app: App,
+	field: WorkflowInputField,
+	value: string | number,
+	agentNames: string[]
+): string | null {
+	const text = String(value);
+	switch (field.type) {
+		case 'number':
+			return Number.isFinite(Number(text)) ? null : 'must be a number';
+		case 'enum':
+			return field.options?.includes(text)
+				? null
+				: `must be one of: ${(field.options ?? []).join(', ')}`;
+		case 'file':
+			return app.vault.getAbstractFileByPath(text) instanceof TFile
+				? null
+				: `must be an existing file in the vault (got ${text})`;
+		case 'folder':
+			return app.vault.getAbstractFileByPath(text) instanceof TFolder
+				? null
+				: `must be an existing folder in the vault (got ${text})`;
+		case 'agent':
+			return agentNames.includes(text.replace(/^@/, ''))
+				? null
+				: `must be an agent in .spark/agents (got ${text})`;
+		default:
+			return null;
+	}
+}
+
+function normalizeValue(field: WorkflowInputField, value: string | number): string | number {
+	switch (field.type) {
+		case 'number':
+			return Number(value);
+		case 'agent':
+			return String(value).replace(/^@/, '');
+		default:
+			return value;
+	}
+}
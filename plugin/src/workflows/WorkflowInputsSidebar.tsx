@@ -0,0 +1,223 @@
+/**
+ * WorkflowInputsSidebar - Edit the input fields asked for when the workflow is run by hand
+ */
+
+import type { WorkflowInputField, WorkflowInputType } from './types';
+
+interface WorkflowInputsSidebarProps {
+	inputs: WorkflowInputField[];
+	onChange: (inputs: WorkflowInputField[]) => void;
+	onClose: () => void;
+}
+
+const INPUT_TYPE_LABELS: Record<WorkflowInputType, string> = {
+	text: 'Text',
+	number: 'Number',
+	file: 'Note',
+	folder: 'Folder',
+	agent: 'Agent',
+	enum: 'Choice',
+};
+
+/**
+ * Next unused field name: input, input_2, ...
+ */
+function nextFieldName(inputs: WorkflowInputField[]): string {
+	const names = new Set(inputs.map((f) => f.name));
+	let name = 'input';
+	for (let i = 2; names.has(name); i++) {
+		name = `input_${i}`;
+	}
+	return name;
+}
+
+/**
+ * Field with a new type, dropping settings the type doesn't use
+ */
+function changeFieldType(field: WorkflowInputField, type: WorkflowInputType): WorkflowInputField {
+	return {
+		name: field.name,
+		type,
+		label: field.label,
+		description: field.description,
+		required: field.required,
+		options: type === 'enum' ? (field.options ?? []) : undefined,
+	};
+}
+
+interface InputFieldEditorProps {
+	field: WorkflowInputField;
+	duplicateName: boolean;
+	onChange: (field: WorkflowInputField) => void;
+}
+
+function InputFieldEditor({ field, duplicateName, onChange }: InputFieldEditorProps) {
+	return (
+		<>
+			<div className="spark-workflow-form-group">
+				<label>Name</label>
+				<input
+					type="text"
+					value={field.name}
+					onChange={(e) => onChange({ ...field, name: e.target.value.replace(/[^\w]/g, '_') })}
+					placeholder="topic"
+				/>
+				{duplicateName ? (
+					<span className="spark-workflow-hint-error">Another field already uses this name.</span>
+				) : (
+					<span className="spark-workflow-form-hint">
+						Available to steps as <code>$input.{field.name || 'name'}</code>.
+					</span>
+				)}
+			</div>
+
+			<div className="spark-workflow-form-group">
+				<label>Type</label>
+				<select
+					value={field.type}
+					onChange={(e) => onChange(changeFieldType(field, e.target.value as WorkflowInputType))}
+				>
+					{(Object.keys(INPUT_TYPE_LABELS) as WorkflowInputType[]).map((type) => (
+						<option key={type} value={type}>
+							{INPUT_TYPE_LABELS[type]}
+						</option>
+					))}
+				</select>
+			</div>
+
+			<div className="spark-workflow-form-group">
+				<label>Label</label>
+				<input
+					type="text"
+					value={field.label ?? ''}
+					onChange={(e) => onChange({ ...field, label: e.target.value || undefined })}
+					placeholder={field.name}
+				/>
+			</div>
+
+			<div className="spark-workflow-form-group">
+				<label>Description</label>
+				<input
+					type="text"
+					value={field.description ?? ''}
+					onChange={(e) => onChange({ ...field, description: e.target.value || undefined })}
+					placeholder="Shown under the field in the run dialog"
+				/>
+			</div>
+
+			{field.type === 'enum' && (
+				<div className="spark-workflow-form-group">
+					<label>Options</label>
+					<input
+						type="text"
+						value={(field.options ?? []).join(', ')}
+						onChange={(e) =>
+							onChange({
+								...field,
+								options: e.target.value
+									.split(',')
+									.map((o) => o.trim())
+									.filter(Boolean),
+							})
+						}
+						placeholder="formal, casual"
+					/>
+					<span className="spark-workflow-form-hint">Comma-separated.</span>
+				</div>
+			)}
+
+			{field.type !== 'agent' && (
+				<div className="spark-workflow-form-group">
+					<label>Default</label>
+					<input
+						type={field.type === 'number' ? 'number' : 'text'}
+						value={field.default ?? ''}
+						onChange={(e) => {
+							const value = e.target.value;
+							onChange({
+								...field,
+								default: value === '' ? undefined : field.type === 'number' ? Number(value) : value,
+							});
+						}}
+						placeholder="None"
+					/>
+					{field.type === 'file' && (
+						<span className="spark-workflow-form-hint">
+							Without a default, the first note field gets the note the workflow is run on.
+						</span>
+					)}
+				</div>
+			)}
+		</>
+	);
+}
+
+export function WorkflowInputsSidebar({ inputs, onChange, onClose }: WorkflowInputsSidebarProps) {
+	const updateField = (index: number, field: WorkflowInputField) => {
+		onChange(inputs.map((f, i) => (i === index ? field : f)));
+	};
+
+	return (
+		<div className="spark-workflow-sidebar">
+			<div className="spark-workflow-sidebar-header">
+				<h3>Inputs</h3>
+				<button type="button" className="spark-workflow-sidebar-close" onClick={onClose} aria-label="Close">
+					×
+				</button>
+			</div>
+
+			<div className="spark-workflow-sidebar-content">
+				<div className="spark-workflow-sidebar-section">
+					{inputs.length === 0 && (
+						<p className="spark-workflow-sidebar-empty">
+							No inputs. Runs started from a note get its path and content as <code>$input</code>.
+						</p>
+					)}
+
+					{inputs.map((field, index) => (
+						// Index keys: names are edited in place and may briefly collide
+						<div key={index} className="spark-workflow-trigger">
+							<InputFieldEditor
+								field={field}
+								duplicateName={inputs.some((f, i) => i !== index && f.name === field.name)}
+								onChange={(f) => updateField(index, f)}
+							/>
+
+							<div className="spark-workflow-trigger-actions">
+								<div className="spark-workflow-form-group spark-workflow-form-checkbox">
+									<label>
+										<input
+											type="checkbox"
+											checked={field.required === true}
+											onChange={(e) =>
+												updateField(index, { ...field, required: e.target.checked || undefined })
+											}
+										/>
+										Required
+									</label>
+								</div>
+								<button
+									type="button"
+									className="spark-workflow-btn spark-workflow-btn-danger"
+									onClick={() => onChange(inputs.filter((_, i) => i !== index))}
+								>
+									Remove
+								</button>
+							</div>
+						</div>
+					))}
+
+					<div className="spark-workflow-form-group spark-workflow-form-actions">
+						<button
+							type="button"
+							className="spark-workflow-btn spark-workflow-btn-secondary"
+							onClick={() => onChange([...inputs, { name: nextFieldName(inputs), type: 'text' }])}
+						>
+							Add input
+						</button>
+					</div>
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -2,7 +2,7 @@
  * WorkflowListView - Obsidian view showing all workflows
  */
 
-import { type App, ItemView, Notice, type WorkspaceLeaf } from 'obsidian';
+import { type App, ItemView, Notice, SuggestModal, type TFile, type WorkspaceLeaf } from 'obsidian';
 import { createRoot, type Root } from 'react-dom/client';
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import type { ISparkPlugin } from '../types';
@@ -11,14 +11,60 @@ import type {
 	WorkflowDefinition,
 	WorkflowGenerateRequest,
 	WorkflowGenerateResult,
+	WorkflowImportResult,
 	WorkflowLastRunSummary,
 	WorkflowRunsIndex,
+	WorkflowScheduleIndex,
 } from './types';
 import { generateId } from './types';
+import { parseWorkflowBundle } from './WorkflowBundle';
+import { requestRunInput } from './WorkflowInputModal';
 import { WorkflowStorage } from './WorkflowStorage';
 
 export const WORKFLOW_LIST_VIEW_TYPE = 'spark-workflow-list-view';
 
+/**
+ * Modal for picking a bundle file in the vault
+ */
+class BundleFileModal extends SuggestModal<TFile> {
+	private onSelect: (file: TFile) => void;
+
+	constructor(app: App, onSelect: (file: TFile) => void) {
+		super(app);
+		this.onSelect = onSelect;
+		this.setPlaceholder('Pick a workflow bundle to import');
+	}
+
+	getSuggestions(query: string): TFile[] {
+		const lowerQuery = query.toLowerCase();
+		return this.app.vault
+			.getFiles()
+			.filter((f) => f.extension === 'json' && f.path.toLowerCase().includes(lowerQuery))
+			.sort((a, b) => Number(b.path.endsWith('.workflow.json')) - Number(a.path.endsWith('.workflow.json')));
+	}
+
+	renderSuggestion(file: TFile, el: HTMLElement) {
+		el.setText(file.path);
+	}
+
+	onChooseSuggestion(file: TFile) {
+		this.onSelect(file);
+	}
+}
+
+/**
+ * One-line summary of what an import had to rename
+ */
+function describeImport(result: WorkflowImportResult): string {
+	const renames = [
+		...Object.entries(result.renamedAgents).map(([from, to]) => `@${from} → @${to}`),
+		...Object.entries(result.renamedCommands).map(([from, to]) => `/${from} → /${to}`),
+	];
+	const count = result.workflows.length;
+	const imported = `Imported ${result.workflow.name}${count > 1 ? ` and ${count - 1} sub-workflow${count > 2 ? 's' : ''}` : ''}`;
+	return renames.length > 0 ? `${imported}. Renamed to avoid clashes: ${renames.join(', ')}` : imported;
+}
+
 interface WorkflowListProps {
 	app: App;
 	onOpenWorkflow: (id: string) => void;
@@ -29,6 +75,7 @@ interface WorkflowListProps {
 function WorkflowList({ app, onOpenWorkflow, onCreateWorkflow, refreshKey }: WorkflowListProps) {
 	const [workflows, setWorkflows] = useState<WorkflowDefinition[]>([]);
 	const [runsIndex, setRunsIndex] = useState<WorkflowRunsIndex | null>(null);
+	const [scheduleIndex, setScheduleIndex] = useState<WorkflowScheduleIndex | null>(null);
 	const [loading, setLoading] = useState(true);
 	const storage = useMemo(() => new WorkflowStorage(app), [app]);
 
@@ -45,12 +92,14 @@ function WorkflowList({ app, onOpenWorkflow, onCreateWorkflow, refreshKey }: Wor
 
 	const loadWorkflows = useCallback(async () => {
 		setLoading(true);
-		const [list, index] = await Promise.all([
+		const [list, index, schedule] = await Promise.all([
 			storage.listWorkflows(),
 			storage.loadRunsIndex(),
+			storage.loadScheduleIndex(),
 		]);
 		setWorkflows(list);
 		setRunsIndex(index);
+		setScheduleIndex(schedule);
 		setLoading(false);
 	}, []);
 
@@ -75,6 +124,47 @@ function WorkflowList({ app, onOpenWorkflow, onCreateWorkflow, refreshKey }: Wor
 		[app, loadWorkflows]
 	);
 
+	const handleDuplicate = useCallback(
+		async (e: React.MouseEvent, id: string) => {
+			e.stopPropagation();
+			const copy = await storage.duplicateWorkflow(id);
+			if (copy) {
+				new Notice(`Created ${copy.name}`);
+				await loadWorkflows();
+			}
+		},
+		[storage, loadWorkflows]
+	);
+
+	const handleExport = useCallback(
+		async (e: React.MouseEvent, id: string) => {
+			e.stopPropagation();
+			try {
+				const bundle = await storage.exportWorkflowBundle(id);
+				const path = await storage.saveWorkflowBundle(bundle);
+				new Notice(`Exported to ${path}`);
+			} catch (error) {
+				new Notice(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
+			}
+		},
+		[storage]
+	);
+
+	const handleImport = useCallback(() => {
+		new BundleFileModal(app, (file) => {
+			void (async () => {
+				try {
+					const bundle = parseWorkflowBundle(await app.vault.read(file));
+					const result = await storage.importWorkflowBundle(bundle);
+					new Notice(describeImport(result), 8000);
+					await loadWorkflows();
+				} catch (error) {
+					new Notice(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+				}
+			})();
+		}).open();
+	}, [app, storage, loadWorkflows]);
+
 	const formatDate = (isoString: string) => {
 		const date = new Date(isoString);
 		const now = new Date();
@@ -112,6 +202,20 @@ function WorkflowList({ app, onOpenWorkflow, onCreateWorkflow, refreshKey }: Wor
 		return `${EN_MONTHS[date.getMonth()]} ${date.getDate()}${date.getFullYear() !== now.getFullYear() ? `, ${date.getFullYear()}` : ''}`;
 	};
 
+	const formatNextRun = (ts: number) => {
+		const date = new Date(ts);
+		const time = date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+		const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+		const diffDays = Math.round((startOfDay(date) - startOfDay(new Date())) / (1000 * 60 * 60 * 24));
+
+		if (diffDays === 0) return `Today ${time}`;
+		if (diffDays === 1) return `Tomorrow ${time}`;
+		const EN_DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+		if (diffDays < 7) return `${EN_DAYS[date.getDay()]} ${time}`;
+		const EN_MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'] as const;
+		return `${EN_MONTHS[date.getMonth()]} ${date.getDate()} ${time}`;
+	};
+
 	const statusIcon = (status: WorkflowLastRunSummary['status']) => {
 		switch (status) {
 			case 'completed':
@@ -122,16 +226,24 @@ function WorkflowList({ app, onOpenWorkflow, onCreateWorkflow, refreshKey }: Wor
 				return '⏳';
 			case 'cancelled':
 				return '⦸';
+			case 'paused':
+				return '⏸';
+			case 'waiting':
+				return '🙋';
 			default:
 				return '○';
 		}
 	};
 
 	const handleRun = useCallback(
-		async (e: React.MouseEvent, workflowId: string) => {
+		async (e: React.MouseEvent, workflow: WorkflowDefinition) => {
 			e.stopPropagation();
+			const runInput = await requestRunInput(app, workflow);
+			if (!runInput) return;
+
+			const workflowId = workflow.id;
 			const runId = generateId('run');
-			await storage.queueWorkflow(workflowId, runId);
+			await storage.queueWorkflow(workflowId, runId, runInput.input);
 
 			// Optimistically show a running last-run pill immediately.
 			setRunsIndex((prev) => {
@@ -160,7 +272,7 @@ function WorkflowList({ app, onOpenWorkflow, onCreateWorkflow, refreshKey }: Wor
 				}, delayMs);
 			}
 		},
-		[storage]
+		[app, storage]
 	);
 
 	const pollForGenerationResult = useCallback(
@@ -385,6 +497,29 @@ function WorkflowList({ app, onOpenWorkflow, onCreateWorkflow, refreshKey }: Wor
 							<path d="M16.24 7.76l2.83-2.83" />
 						</svg>
 					</button>
+					<button
+						type="button"
+						className="clickable-icon"
+						onClick={handleImport}
+						aria-label="Import workflow bundle"
+						title="Import workflow bundle"
+					>
+						<svg
+							xmlns="http://www.w3.org/2000/svg"
+							width="18"
+							height="18"
+							viewBox="0 0 24 24"
+							fill="none"
+							stroke="currentColor"
+							strokeWidth="2"
+							strokeLinecap="round"
+							strokeLinejoin="round"
+						>
+							<path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+							<path d="m7 10 5 5 5-5" />
+							<path d="M12 15V3" />
+						</svg>
+					</button>
 					<button
 						type="button"
 						className="clickable-icon"
@@ -564,6 +699,7 @@ function WorkflowList({ app, onOpenWorkflow, onCreateWorkflow, refreshKey }: Wor
 					{workflows.map((workflow) => (
 						(() => {
 							const last = runsIndex?.workflows?.[workflow.id];
+							const scheduled = scheduleIndex?.workflows?.[workflow.id];
 							return (
 								<div
 									key={workflow.id}
@@ -610,12 +746,27 @@ function WorkflowList({ app, onOpenWorkflow, onCreateWorkflow, refreshKey }: Wor
 											) : (
 												<span className="spark-workflow-last-run spark-workflow-last-run-none">No runs</span>
 											)}
+											{scheduled?.nextRun ? (
+												<>
+													<span>·</span>
+													<span className="spark-workflow-next-run" title="Next scheduled run">
+														⏰ {formatNextRun(scheduled.nextRun)}
+													</span>
+												</>
+											) : scheduled?.error ? (
+												<>
+													<span>·</span>
+													<span className="spark-workflow-next-run spark-workflow-next-run-error" title={scheduled.error}>
+														Invalid schedule
+													</span>
+												</>
+											) : null}
 										</div>
 									</div>
 									<button
 										type="button"
 										className="spark-workflow-list-item-run clickable-icon"
-										onClick={(e) => void handleRun(e, workflow.id)}
+										onClick={(e) => void handleRun(e, workflow)}
 										aria-label="Run workflow"
 										title="Run workflow"
 									>
@@ -633,6 +784,51 @@ function WorkflowList({ app, onOpenWorkflow, onCreateWorkflow, refreshKey }: Wor
 											<polygon points="6 3 20 12 6 21 6 3" />
 										</svg>
 									</button>
+									<button
+										type="button"
+										className="spark-workflow-list-item-action clickable-icon"
+										onClick={(e) => void handleDuplicate(e, workflow.id)}
+										aria-label="Duplicate workflow"
+										title="Duplicate workflow"
+									>
+										<svg
+											xmlns="http://www.w3.org/2000/svg"
+											width="16"
+											height="16"
+											viewBox="0 0 24 24"
+											fill="none"
+											stroke="currentColor"
+											strokeWidth="2"
+											strokeLinecap="round"
+											strokeLinejoin="round"
+										>
+											<rect width="14" height="14" x="8" y="8" rx="2" ry="2" />
+											<path d="M4 16c-1.1 0-2-.9-2-2V4c0-1.1.9-2 2-2h10c1.1 0 2 .9 2 2" />
+										</svg>
+									</button>
+									<button
+										type="button"
+										className="spark-workflow-list-item-action clickable-icon"
+										onClick={(e) => void handleExport(e, workflow.id)}
+										aria-label="Export workflow bundle"
+										title="Export workflow bundle"
+									>
+										<svg
+											xmlns="http://www.w3.org/2000/svg"
+											width="16"
+											height="16"
+											viewBox="0 0 24 24"
+											fill="none"
+											stroke="currentColor"
+											strokeWidth="2"
+											strokeLinecap="round"
+											strokeLinejoin="round"
+										>
+											<path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+											<path d="m17 8-5-5-5 5" />
+											<path d="M12 3v12" />
+										</svg>
+									</button>
 									<button
 										type="button"
 										className="spark-workflow-list-item-delete clickable-icon"
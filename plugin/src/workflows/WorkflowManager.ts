@@ -2,13 +2,49 @@
  * WorkflowManager - Manages workflow views and operations
  */
 
-import type { App, WorkspaceLeaf } from 'obsidian';
+import { type App, Notice, SuggestModal, type TFile, type WorkspaceLeaf } from 'obsidian';
 import type { ISparkPlugin } from '../types';
-import { createEmptyWorkflow, type WorkflowDefinition } from './types';
+import { createEmptyWorkflow, generateId, type WorkflowDefinition } from './types';
+import { requestRunInput } from './WorkflowInputModal';
 import { WORKFLOW_LIST_VIEW_TYPE } from './WorkflowListView';
 import { WorkflowStorage } from './WorkflowStorage';
 import { WORKFLOW_VIEW_TYPE, WorkflowView } from './WorkflowView';
 
+/**
+ * Modal for picking the workflow to run
+ */
+class WorkflowSelectModal extends SuggestModal<WorkflowDefinition> {
+	private workflows: WorkflowDefinition[];
+	private onSelect: (workflow: WorkflowDefinition) => void;
+
+	constructor(
+		app: App,
+		workflows: WorkflowDefinition[],
+		onSelect: (workflow: WorkflowDefinition) => void
+	) {
+		super(app);
+		this.workflows = workflows;
+		this.onSelect = onSelect;
+		this.setPlaceholder('Run workflow…');
+	}
+
+	getSuggestions(query: string): WorkflowDefinition[] {
+		const lowerQuery = query.toLowerCase();
+		return this.workflows.filter(w => w.name.toLowerCase().includes(lowerQuery));
+	}
+
+	renderSuggestion(workflow: WorkflowDefinition, el: HTMLElement) {
+		el.createDiv({ text: workflow.name });
+		if (workflow.description) {
+			el.createEl('small', { text: workflow.description });
+		}
+	}
+
+	onChooseSuggestion(workflow: WorkflowDefinition) {
+		this.onSelect(workflow);
+	}
+}
+
 export class WorkflowManager {
 	private static instance: WorkflowManager;
 	private app: App;
@@ -36,9 +72,9 @@ export class WorkflowManager {
 	}
 
 	/**
-	 * Open an existing workflow
+	 * Open an existing workflow, optionally with one of its runs shown in the run history
 	 */
-	async openWorkflow(workflowId: string): Promise<void> {
+	async openWorkflow(workflowId: string, runId?: string): Promise<void> {
 		const workflow = await this.storage.loadWorkflow(workflowId);
 		if (!workflow) {
 			console.error(`Workflow ${workflowId} not found`);
@@ -57,10 +93,40 @@ export class WorkflowManager {
 			}
 		}
 
+		if (runId && leaf.view instanceof WorkflowView) {
+			leaf.view.showRun(runId);
+		}
+
 		// Reveal the leaf
 		await this.app.workspace.revealLeaf(leaf);
 	}
 
+	/**
+	 * Ask for the workflow's inputs and queue a run, optionally bound to a note
+	 */
+	async runWorkflow(workflow: WorkflowDefinition, file?: TFile | null): Promise<void> {
+		const runInput = await requestRunInput(this.app, workflow, file);
+		if (!runInput) return;
+
+		await this.storage.queueWorkflow(workflow.id, generateId('run'), runInput.input);
+		new Notice(`Running ${workflow.name}`);
+	}
+
+	/**
+	 * Pick a workflow and run it, optionally bound to a note
+	 */
+	async chooseWorkflowToRun(file?: TFile | null): Promise<void> {
+		const workflows = await this.storage.listWorkflows();
+		if (workflows.length === 0) {
+			new Notice('No workflows yet. Create one from the workflows view.');
+			return;
+		}
+
+		new WorkflowSelectModal(this.app, workflows, workflow => {
+			void this.runWorkflow(workflow, file);
+		}).open();
+	}
+
 	/**
 	 * List all workflows
 	 */
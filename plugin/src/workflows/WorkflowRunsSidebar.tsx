@@ -3,8 +3,9 @@
  */
 
 import type { App } from 'obsidian';
-import { useCallback, useMemo, useState } from 'react';
-import type { StepResult, WorkflowDefinition, WorkflowRun } from './types';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { StepResult, WorkflowDefinition, WorkflowRun, WorkflowRunControl } from './types';
+import { WorkflowStorage } from './WorkflowStorage';
 import { showConfirmModal } from '../utils/confirmModal';
 
 interface WorkflowRunsSidebarProps {
@@ -12,8 +13,14 @@ interface WorkflowRunsSidebarProps {
 	workflow: WorkflowDefinition;
 	runs: WorkflowRun[];
 	onRerun: () => Promise<void>;
+	onStopRun: (runId: string, control: WorkflowRunControl) => Promise<void>;
+	onResumeRun: (runId: string) => Promise<void>;
 	onDeleteRun: (runId: string) => Promise<void>;
 	onJumpToNode: (nodeId: string) => void;
+	focusedRunId?: string | null;
+	onOpenRun: (workflowId: string, runId: string) => void;
+	currentVersion: number;
+	onShowVersion: (version: number) => void; // Open the version in the history panel
 	onClose: () => void;
 }
 
@@ -49,6 +56,10 @@ function statusIcon(status: WorkflowRun['status'] | StepResult['status']): strin
 			return '⏳';
 		case 'cancelled':
 			return '⦸';
+		case 'paused':
+			return '⏸';
+		case 'waiting':
+			return '🙋';
 		case 'pending':
 			return '○';
 		case 'skipped':
@@ -66,6 +77,44 @@ function durationMs(start: number, end?: number): number {
 	return end ? Math.max(0, end - start) : 0;
 }
 
+/**
+ * Unfinished runs the engine saved a checkpoint for can continue where they stopped
+ * Runs waiting for approval continue on their own once the reviewer decides;
+ * sub-workflow runs are resumed through their parent run
+ */
+function canResume(run: WorkflowRun): boolean {
+	return (
+		!run.parent &&
+		run.status !== 'running' &&
+		run.status !== 'waiting' &&
+		run.status !== 'completed' &&
+		(run.checkpoint?.pending.length ?? 0) > 0
+	);
+}
+
+/**
+ * Group chronologically sorted steps whose execution overlapped (parallel branches)
+ */
+function groupOverlappingSteps(steps: StepResult[]): StepResult[][] {
+	const groups: StepResult[][] = [];
+	let groupEnd = -Infinity;
+
+	for (const step of steps) {
+		// Running steps have no end yet, so they overlap with everything after them
+		const stepEnd = step.endTime ?? Infinity;
+		const current = groups[groups.length - 1];
+		if (current && step.startTime < groupEnd) {
+			current.push(step);
+			groupEnd = Math.max(groupEnd, stepEnd);
+		} else {
+			groups.push([step]);
+			groupEnd = stepEnd;
+		}
+	}
+
+	return groups;
+}
+
 interface DataBlockProps {
 	label: string;
 	data: unknown;
@@ -88,9 +137,11 @@ interface StepRowProps {
 	label: string;
 	canJump: boolean;
 	onJump: () => void;
+	onOpenNote: (path: string) => void;
+	onOpenRun: (workflowId: string, runId: string) => void;
 }
 
-function StepRow({ step, label, canJump, onJump }: StepRowProps) {
+function StepRow({ step, label, canJump, onJump, onOpenNote, onOpenRun }: StepRowProps) {
 	const [expanded, setExpanded] = useState(false);
 	const duration = durationMs(step.startTime, step.endTime);
 
@@ -104,6 +155,9 @@ function StepRow({ step, label, canJump, onJump }: StepRowProps) {
 				{step.cycleCount && step.cycleCount > 0 && (
 					<span className="spark-workflow-run-cycles">cycle {step.cycleCount}</span>
 				)}
+				{step.attempts && step.attempts > 1 && (
+					<span className="spark-workflow-run-cycles">{step.attempts} attempts</span>
+				)}
 				{canJump && (
 					<button
 						type="button"
@@ -122,6 +176,47 @@ function StepRow({ step, label, canJump, onJump }: StepRowProps) {
 				<span className="spark-workflow-run-expand">{expanded ? '▼' : '▶'}</span>
 			</div>
 
+			{step.reviewNote && (
+				<div className="spark-workflow-run-review">
+					<span>{step.decision ? `Reviewer ${step.decision}` : 'Waiting for review'}</span>
+					<a
+						href="#"
+						onClick={(e) => {
+							e.preventDefault();
+							onOpenNote(step.reviewNote as string);
+						}}
+					>
+						Open review note
+					</a>
+				</div>
+			)}
+
+			{step.errorHandled && (
+				<div className="spark-workflow-run-review">
+					<span>
+						{step.errorHandled === 'branch'
+							? 'Failed, continued along the error edge'
+							: 'Failed, continued with null'}
+					</span>
+				</div>
+			)}
+
+			{step.childRun && (
+				<div className="spark-workflow-run-review">
+					<span>Sub-workflow run</span>
+					<a
+						href="#"
+						onClick={(e) => {
+							e.preventDefault();
+							const { workflowId, runId } = step.childRun as NonNullable<StepResult['childRun']>;
+							onOpenRun(workflowId, runId);
+						}}
+					>
+						Open sub-workflow run
+					</a>
+				</div>
+			)}
+
 			{expanded && (
 				<div className="spark-workflow-run-details">
 					{step.input !== undefined && (
@@ -144,8 +239,14 @@ export function WorkflowRunsSidebar({
 	workflow,
 	runs,
 	onRerun,
+	onStopRun,
+	onResumeRun,
 	onDeleteRun,
 	onJumpToNode,
+	focusedRunId,
+	onOpenRun,
+	currentVersion,
+	onShowVersion,
 	onClose,
 }: WorkflowRunsSidebarProps) {
 	const sortedRuns = useMemo(() => {
@@ -153,6 +254,11 @@ export function WorkflowRunsSidebar({
 	}, [runs]);
 
 	const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+	const [parentWorkflowName, setParentWorkflowName] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (focusedRunId) setSelectedRunId(focusedRunId);
+	}, [focusedRunId]);
 
 	const selectedRun = useMemo(() => {
 		if (!selectedRunId) return sortedRuns[0] ?? null;
@@ -176,6 +282,38 @@ export function WorkflowRunsSidebar({
 		return [...selectedRun.stepResults].sort((a, b) => a.startTime - b.startTime);
 	}, [selectedRun]);
 
+	const stepGroups = useMemo(() => groupOverlappingSteps(stepsChronological), [stepsChronological]);
+
+	// Name of the workflow that started the selected run as a sub-workflow
+	const parentWorkflowId = selectedRun?.parent?.workflowId;
+	useEffect(() => {
+		setParentWorkflowName(null);
+		if (!parentWorkflowId) return;
+		let cancelled = false;
+		void new WorkflowStorage(app).loadWorkflow(parentWorkflowId).then((parent) => {
+			if (!cancelled) setParentWorkflowName(parent?.name ?? parentWorkflowId);
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, [app, parentWorkflowId]);
+
+	const renderStep = (step: StepResult, index: number) => {
+		const label = nodeLabelById.get(step.nodeId) || step.nodeId;
+		const canJump = nodeLabelById.has(step.nodeId);
+		return (
+			<StepRow
+				key={`${step.nodeId}-${step.startTime}-${index}`}
+				step={step}
+				label={label}
+				canJump={canJump}
+				onJump={() => onJumpToNode(step.nodeId)}
+				onOpenNote={(path) => void app.workspace.openLinkText(path, '', true)}
+				onOpenRun={onOpenRun}
+			/>
+		);
+	};
+
 	const handleDelete = useCallback(async () => {
 		if (!selectedRun) return;
 		const confirmed = await showConfirmModal(app, 'Delete this run? This cannot be undone.', {
@@ -327,7 +465,87 @@ export function WorkflowRunsSidebar({
 										</div>
 										<div className="spark-workflow-run-detail-subtle">
 											Duration: {durationMs(selectedRun.startTime, selectedRun.endTime)}ms · Cycles: {selectedRun.totalCycles}
+											{selectedRun.trigger && ` · Triggered by ${selectedRun.trigger.type.replace(/_/g, ' ')}`}
 										</div>
+										{selectedRun.workflowVersion !== undefined && (
+											<div className="spark-workflow-run-detail-subtle">
+												Ran version{' '}
+												<a
+													href="#"
+													onClick={(e) => {
+														e.preventDefault();
+														onShowVersion(selectedRun.workflowVersion as number);
+													}}
+												>
+													{selectedRun.workflowVersion}
+												</a>
+												{selectedRun.workflowVersion !== currentVersion && ' · the workflow has changed since'}
+											</div>
+										)}
+										{selectedRun.parent && (
+											<div className="spark-workflow-run-detail-subtle">
+												Started by{' '}
+												<a
+													href="#"
+													onClick={(e) => {
+														e.preventDefault();
+														const { workflowId, runId } = selectedRun.parent as NonNullable<WorkflowRun['parent']>;
+														onOpenRun(workflowId, runId);
+													}}
+												>
+													{parentWorkflowName ?? selectedRun.parent.workflowId}
+												</a>
+											</div>
+										)}
+										{selectedRun.status === 'running' && (
+											<div className="spark-workflow-run-detail-actions">
+												<button
+													type="button"
+													className="spark-workflow-btn spark-workflow-btn-secondary"
+													onClick={() => void onStopRun(selectedRun.id, 'pause')}
+													title="Let running steps finish, then stop"
+												>
+													Pause
+												</button>
+												<button
+													type="button"
+													className="spark-workflow-btn spark-workflow-btn-danger"
+													onClick={() => void onStopRun(selectedRun.id, 'cancel')}
+													title="Stop now and abort running steps"
+												>
+													Cancel
+												</button>
+											</div>
+										)}
+										{selectedRun.status === 'waiting' && (
+											<div className="spark-workflow-run-detail-actions">
+												<button
+													type="button"
+													className="spark-workflow-btn spark-workflow-btn-danger"
+													onClick={() => void onStopRun(selectedRun.id, 'cancel')}
+													title="Stop waiting for the reviewer"
+												>
+													Cancel
+												</button>
+											</div>
+										)}
+										{canResume(selectedRun) && (
+											<div className="spark-workflow-run-detail-actions">
+												<button
+													type="button"
+													className="spark-workflow-btn spark-workflow-btn-primary"
+													onClick={() => void onResumeRun(selectedRun.id)}
+													disabled={hasRunning}
+													title={
+														hasRunning
+															? 'A run is currently running'
+															: 'Continue from the steps that did not finish'
+													}
+												>
+													Resume
+												</button>
+											</div>
+										)}
 									</div>
 
 									{selectedRun.input !== undefined && (
@@ -345,19 +563,21 @@ export function WorkflowRunsSidebar({
 										<p className="spark-workflow-sidebar-empty">No steps executed.</p>
 									) : (
 										<div className="spark-workflow-run-steps">
-											{stepsChronological.map((step) => {
-												const label = nodeLabelById.get(step.nodeId) || step.nodeId;
-												const canJump = nodeLabelById.has(step.nodeId);
-												return (
-													<StepRow
-														key={`${step.nodeId}-${step.startTime}`}
-														step={step}
-														label={label}
-														canJump={canJump}
-														onJump={() => onJumpToNode(step.nodeId)}
-													/>
-												);
-											})}
+											{stepGroups.map((group) =>
+												group.length === 1 ? (
+													renderStep(group[0], 0)
+												) : (
+													<div
+														key={`parallel-${group[0].nodeId}-${group[0].startTime}`}
+														className="spark-workflow-run-parallel"
+													>
+														<div className="spark-workflow-run-parallel-label">
+															Parallel · {group.length} steps
+														</div>
+														{group.map(renderStep)}
+													</div>
+												)
+											)}
 										</div>
 									)}
 								</>
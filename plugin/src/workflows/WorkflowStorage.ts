@@ -3,21 +3,46 @@
  */
 
 import type { App } from 'obsidian';
+import { ResourceService } from '../services/ResourceService';
 import type {
+	WorkflowBundle,
 	WorkflowDefinition,
 	WorkflowGenerateRequest,
 	WorkflowGenerateResult,
+	WorkflowHistoryEntry,
+	WorkflowHistorySource,
+	WorkflowImportResult,
 	WorkflowQueueItem,
 	WorkflowRun,
+	WorkflowRunControl,
 	WorkflowRunsIndex,
+	WorkflowScheduleIndex,
 } from './types';
+import { generateId } from './types';
+import {
+	copyWorkflowName,
+	findWorkflowReferences,
+	renameWorkflowReferences,
+	uniqueName,
+	WORKFLOW_BUNDLE_FORMAT,
+	WORKFLOW_BUNDLE_VERSION,
+} from './WorkflowBundle';
+import { hasDefinitionChanged } from './WorkflowHistory';
 
 const WORKFLOWS_DIR = '.spark/workflows';
 const WORKFLOW_RUNS_DIR = '.spark/workflow-runs';
 const WORKFLOW_QUEUE_DIR = '.spark/workflow-queue';
 const WORKFLOW_RUNS_INDEX_PATH = '.spark/workflow-runs/index.json';
+const WORKFLOW_SCHEDULE_PATH = '.spark/workflow-runs/schedule.json';
 const WORKFLOW_GENERATE_QUEUE_DIR = '.spark/workflow-generate-queue';
 const WORKFLOW_GENERATE_RESULTS_DIR = '.spark/workflow-generate-results';
+const WORKFLOW_HISTORY_DIR = '.spark/workflows/.history';
+const WORKFLOW_BUNDLES_DIR = 'Workflow bundles';
+
+// Versions kept per workflow; the oldest are dropped first
+const MAX_HISTORY_ENTRIES = 100;
+const AGENTS_DIR = '.spark/agents';
+const COMMANDS_DIR = '.spark/commands';
 
 export class WorkflowStorage {
 	private readonly app: App;
@@ -91,19 +116,120 @@ export class WorkflowStorage {
 	}
 
 	/**
-	 * Save a workflow
+	 * Save a workflow as its next version and record it in the history
+	 * Saves that don't change the definition (e.g. selecting a node) keep the version.
+	 * Returns the workflow as saved.
 	 */
-	async saveWorkflow(workflow: WorkflowDefinition): Promise<void> {
+	async saveWorkflow(
+		workflow: WorkflowDefinition,
+		source: WorkflowHistorySource = 'editor',
+		restoredFrom?: number
+	): Promise<WorkflowDefinition> {
 		await this.ensureDir(WORKFLOWS_DIR);
 
 		const path = `${WORKFLOWS_DIR}/${workflow.id}.json`;
-		const content = JSON.stringify(workflow, null, 2);
-
 		console.debug('[WorkflowStorage] Saving workflow:', workflow.id, 'to', path);
 
+		const previous = await this.loadWorkflow(workflow.id);
+		if (previous && !hasDefinitionChanged(previous, workflow)) {
+			const saved = { ...workflow, version: previous.version };
+			await this.app.vault.adapter.write(path, JSON.stringify(saved, null, 2));
+			return saved;
+		}
+
+		const historyDir = `${WORKFLOW_HISTORY_DIR}/${workflow.id}`;
+		await this.ensureDir(WORKFLOW_HISTORY_DIR);
+		await this.ensureDir(historyDir);
+		const versions = await this.listHistoryVersions(workflow.id);
+
+		// Keep the version being replaced if the history doesn't have it (saved before history existed)
+		if (previous && !versions.includes(previous.version)) {
+			await this.writeHistoryEntry({
+				version: previous.version,
+				savedAt: previous.updated,
+				source: 'editor',
+				workflow: previous,
+			});
+			versions.push(previous.version);
+		}
+
+		const saved: WorkflowDefinition = {
+			...workflow,
+			version: Math.max(0, previous?.version ?? 0, ...versions) + 1,
+			updated: new Date().toISOString(),
+		};
+
 		// Use adapter directly for .spark/ internal files
-		await this.app.vault.adapter.write(path, content);
-		console.debug('[WorkflowStorage] Save complete');
+		await this.app.vault.adapter.write(path, JSON.stringify(saved, null, 2));
+		await this.writeHistoryEntry({
+			version: saved.version,
+			savedAt: saved.updated,
+			source,
+			restoredFrom,
+			workflow: saved,
+		});
+		await this.pruneHistory(workflow.id, [...versions, saved.version]);
+		console.debug('[WorkflowStorage] Save complete, version', saved.version);
+		return saved;
+	}
+
+	/**
+	 * Saved versions of a workflow, newest first
+	 */
+	async listWorkflowHistory(workflowId: string): Promise<WorkflowHistoryEntry[]> {
+		const entries: WorkflowHistoryEntry[] = [];
+		for (const version of await this.listHistoryVersions(workflowId)) {
+			try {
+				const content = await this.app.vault.adapter.read(
+					`${WORKFLOW_HISTORY_DIR}/${workflowId}/${version}.json`
+				);
+				entries.push(JSON.parse(content) as WorkflowHistoryEntry);
+			} catch (error) {
+				console.error(`Failed to load version ${version} of workflow ${workflowId}:`, error);
+			}
+		}
+		return entries.sort((a, b) => b.version - a.version);
+	}
+
+	/**
+	 * Make an earlier version current again, saved as a new version
+	 */
+	async restoreWorkflowVersion(workflowId: string, version: number): Promise<WorkflowDefinition> {
+		const path = `${WORKFLOW_HISTORY_DIR}/${workflowId}/${version}.json`;
+		if (!(await this.app.vault.adapter.exists(path))) {
+			throw new Error(`Version ${version} of workflow ${workflowId} not found`);
+		}
+
+		const entry = JSON.parse(await this.app.vault.adapter.read(path)) as WorkflowHistoryEntry;
+		return this.saveWorkflow(entry.workflow, 'restored', version);
+	}
+
+	private async listHistoryVersions(workflowId: string): Promise<number[]> {
+		const dir = `${WORKFLOW_HISTORY_DIR}/${workflowId}`;
+		if (!(await this.app.vault.adapter.exists(dir))) {
+			return [];
+		}
+
+		const listing = await this.app.vault.adapter.list(dir);
+		return listing.files
+			.map(f => /(\d+)\.json$/.exec(f)?.[1])
+			.filter((v): v is string => v !== undefined)
+			.map(Number);
+	}
+
+	private async writeHistoryEntry(entry: WorkflowHistoryEntry): Promise<void> {
+		const path = `${WORKFLOW_HISTORY_DIR}/${entry.workflow.id}/${entry.version}.json`;
+		await this.app.vault.adapter.write(path, JSON.stringify(entry, null, 2));
+	}
+
+	/**
+	 * Drop the oldest versions past MAX_HISTORY_ENTRIES
+	 */
+	private async pruneHistory(workflowId: string, versions: number[]): Promise<void> {
+		const sorted = [...versions].sort((a, b) => a - b);
+		for (const version of sorted.slice(0, Math.max(0, sorted.length - MAX_HISTORY_ENTRIES))) {
+			await this.app.vault.adapter.remove(`${WORKFLOW_HISTORY_DIR}/${workflowId}/${version}.json`);
+		}
 	}
 
 	/**
@@ -118,8 +244,213 @@ export class WorkflowStorage {
 			await this.app.vault.adapter.remove(path);
 		}
 
-		// Also delete run history
+		// Also delete run history and saved versions
 		await this.deleteRuns(id);
+		const historyDir = `${WORKFLOW_HISTORY_DIR}/${id}`;
+		if (await this.app.vault.adapter.exists(historyDir)) {
+			await this.app.vault.adapter.rmdir(historyDir, true);
+		}
+	}
+
+	/**
+	 * Save a copy of a workflow under a new id, without its run history
+	 * Triggers start disabled so the copy doesn't fire alongside the original
+	 */
+	async duplicateWorkflow(id: string): Promise<WorkflowDefinition | null> {
+		const workflow = await this.loadWorkflow(id);
+		if (!workflow) return null;
+
+		const takenNames = new Set((await this.listWorkflows()).map(w => w.name));
+		const now = new Date().toISOString();
+		const copy: WorkflowDefinition = {
+			...workflow,
+			id: generateId('wf'),
+			name: copyWorkflowName(workflow.name, 'copy', takenNames),
+			triggers: workflow.triggers?.map(t => ({ ...t, enabled: false })),
+			created: now,
+			updated: now,
+		};
+		return this.saveWorkflow(copy, 'duplicated');
+	}
+
+	/**
+	 * Bundle a workflow with the sub-workflows it calls and the agents and commands its prompts mention
+	 */
+	async exportWorkflowBundle(workflowId: string): Promise<WorkflowBundle> {
+		const workflow = await this.loadWorkflow(workflowId);
+		if (!workflow) {
+			throw new Error(`Workflow ${workflowId} not found`);
+		}
+
+		const workflows = [workflow];
+		const agentNames = new Set<string>();
+		const commandNames = new Set<string>();
+
+		// Sub-workflows are appended while iterating, so theirs are collected too
+		for (const current of workflows) {
+			const references = findWorkflowReferences(current);
+			for (const name of references.agents) agentNames.add(name);
+			for (const name of references.commands) commandNames.add(name);
+			for (const id of references.workflows) {
+				if (workflows.some(w => w.id === id)) continue;
+				const subWorkflow = await this.loadWorkflow(id);
+				if (subWorkflow) workflows.push(subWorkflow);
+			}
+		}
+
+		const bundleAgents = await this.readResources(AGENTS_DIR, agentNames);
+		const bundleCommands = await this.readResources(COMMANDS_DIR, commandNames);
+
+		return {
+			manifest: {
+				format: WORKFLOW_BUNDLE_FORMAT,
+				version: WORKFLOW_BUNDLE_VERSION,
+				exportedAt: new Date().toISOString(),
+				workflowId,
+				workflows: workflows.map(w => w.id),
+				agents: Object.keys(bundleAgents),
+				commands: Object.keys(bundleCommands),
+			},
+			workflows,
+			agents: bundleAgents,
+			commands: bundleCommands,
+		};
+	}
+
+	/**
+	 * Write a bundle to the vault as "Workflow bundles/{name}.workflow.json"
+	 * Returns the path of the new file
+	 */
+	async saveWorkflowBundle(bundle: WorkflowBundle): Promise<string> {
+		await this.ensureDir(WORKFLOW_BUNDLES_DIR);
+
+		const workflow = bundle.workflows.find(w => w.id === bundle.manifest.workflowId);
+		const baseName =
+			(workflow?.name ?? 'Workflow').replace(/[\\/:*?"<>|#^[\]]/g, '').trim() || 'Workflow';
+		let path = `${WORKFLOW_BUNDLES_DIR}/${baseName}.workflow.json`;
+		for (let i = 2; await this.app.vault.adapter.exists(path); i++) {
+			path = `${WORKFLOW_BUNDLES_DIR}/${baseName} ${i}.workflow.json`;
+		}
+
+		await this.app.vault.create(path, JSON.stringify(bundle, null, 2));
+		return path;
+	}
+
+	/**
+	 * Add a bundle's workflows, agents and commands to the vault
+	 * Workflow ids already in use get new ones; agents and commands that exist with other
+	 * content are added under a new name and the imported prompts are updated to match.
+	 * Triggers start disabled, since the folders they watch may not exist in this vault.
+	 */
+	async importWorkflowBundle(bundle: WorkflowBundle): Promise<WorkflowImportResult> {
+		const existing = await this.listWorkflows();
+		const takenIds = new Set(existing.map(w => w.id));
+		const takenNames = new Set(existing.map(w => w.name));
+
+		const renamedWorkflows: Record<string, string> = {};
+		for (const workflow of bundle.workflows) {
+			if (takenIds.has(workflow.id)) {
+				renamedWorkflows[workflow.id] = generateId('wf');
+			}
+		}
+
+		const agents = await this.importResources(AGENTS_DIR, bundle.agents);
+		const commands = await this.importResources(COMMANDS_DIR, bundle.commands);
+		if (agents.added.length > 0 || Object.keys(agents.renamed).length > 0) {
+			ResourceService.getInstance(this.app).invalidateAgentCache();
+		}
+		if (commands.added.length > 0 || Object.keys(commands.renamed).length > 0) {
+			ResourceService.getInstance(this.app).invalidateCommandCache();
+		}
+
+		const now = new Date().toISOString();
+		const workflows: WorkflowDefinition[] = [];
+		for (const workflow of bundle.workflows) {
+			const renamed = renameWorkflowReferences(workflow, {
+				agents: agents.renamed,
+				commands: commands.renamed,
+				workflows: renamedWorkflows,
+			});
+			const name = takenNames.has(workflow.name)
+				? copyWorkflowName(workflow.name, 'imported', takenNames)
+				: workflow.name;
+			takenNames.add(name);
+
+			const imported: WorkflowDefinition = {
+				...renamed,
+				id: renamedWorkflows[workflow.id] ?? workflow.id,
+				name,
+				triggers: workflow.triggers?.map(t => ({ ...t, enabled: false })),
+				updated: now,
+			};
+			workflows.push(await this.saveWorkflow(imported, 'imported'));
+		}
+
+		const mainId = renamedWorkflows[bundle.manifest.workflowId] ?? bundle.manifest.workflowId;
+		return {
+			workflow: workflows.find(w => w.id === mainId) ?? workflows[0],
+			workflows,
+			renamedWorkflows,
+			renamedAgents: agents.renamed,
+			renamedCommands: commands.renamed,
+			addedAgents: agents.added,
+			addedCommands: commands.added,
+		};
+	}
+
+	/**
+	 * Write agent or command files, keeping identical existing files and renaming clashing ones
+	 */
+	private async importResources(
+		dir: string,
+		files: Record<string, string>
+	): Promise<{ added: string[]; renamed: Record<string, string> }> {
+		const added: string[] = [];
+		const renamed: Record<string, string> = {};
+		if (Object.keys(files).length === 0) {
+			return { added, renamed };
+		}
+
+		await this.ensureDir(dir);
+		const listing = await this.app.vault.adapter.list(dir);
+		const taken = new Set(
+			listing.files
+				.filter(f => f.endsWith('.md'))
+				.map(f => (f.split('/').pop() ?? '').replace(/\.md$/, ''))
+		);
+
+		for (const [name, content] of Object.entries(files)) {
+			if (taken.has(name)) {
+				const current = await this.app.vault.adapter.read(`${dir}/${name}.md`);
+				if (current.trim() === content.trim()) continue;
+			}
+
+			const target = uniqueName(name, taken);
+			await this.app.vault.adapter.write(`${dir}/${target}.md`, content);
+			taken.add(target);
+			if (target === name) {
+				added.push(name);
+			} else {
+				renamed[name] = target;
+			}
+		}
+
+		return { added, renamed };
+	}
+
+	/**
+	 * Read agent or command files by name
+	 * Mentions without a file (e.g. a "/" in a path) are left out
+	 */
+	private async readResources(dir: string, names: Set<string>): Promise<Record<string, string>> {
+		const files: Record<string, string> = {};
+		for (const name of names) {
+			const path = `${dir}/${name}.md`;
+			if (await this.app.vault.adapter.exists(path)) {
+				files[name] = await this.app.vault.adapter.read(path);
+			}
+		}
+		return files;
 	}
 
 	/**
@@ -172,6 +503,23 @@ export class WorkflowStorage {
 		}
 	}
 
+	/**
+	 * Load engine-maintained next scheduled run per workflow.
+	 */
+	async loadScheduleIndex(): Promise<WorkflowScheduleIndex | null> {
+		// Use adapter directly for .spark/ internal files
+		const exists = await this.app.vault.adapter.exists(WORKFLOW_SCHEDULE_PATH);
+		if (!exists) return null;
+
+		try {
+			const content = await this.app.vault.adapter.read(WORKFLOW_SCHEDULE_PATH);
+			return JSON.parse(content) as WorkflowScheduleIndex;
+		} catch (error) {
+			console.error('Failed to load workflow schedule index:', error);
+			return null;
+		}
+	}
+
 	/**
 	 * Save a workflow run
 	 */
@@ -271,6 +619,55 @@ export class WorkflowStorage {
 		await this.app.vault.adapter.write(path, content);
 	}
 
+	/**
+	 * Ask the engine to cancel or pause a run
+	 * The request goes into the run's queue item, which the engine watches
+	 */
+	async requestRunStop(
+		workflowId: string,
+		runId: string,
+		control: WorkflowRunControl
+	): Promise<void> {
+		await this.ensureDir(WORKFLOW_QUEUE_DIR);
+
+		const path = `${WORKFLOW_QUEUE_DIR}/${runId}.json`;
+		let queueItem: WorkflowQueueItem = {
+			workflowId,
+			runId,
+			status: 'processing',
+			timestamp: Date.now(),
+		};
+
+		// Use adapter directly for .spark/ internal files
+		if (await this.app.vault.adapter.exists(path)) {
+			try {
+				queueItem = JSON.parse(await this.app.vault.adapter.read(path)) as WorkflowQueueItem;
+			} catch {
+				// Unreadable item: the fresh one above still reaches the engine
+			}
+		}
+
+		await this.app.vault.adapter.write(path, JSON.stringify({ ...queueItem, control }, null, 2));
+	}
+
+	/**
+	 * Queue a stopped or failed run to continue from its checkpoint
+	 */
+	async resumeRun(workflowId: string, runId: string): Promise<void> {
+		await this.ensureDir(WORKFLOW_QUEUE_DIR);
+
+		const queueItem: WorkflowQueueItem = {
+			workflowId,
+			runId,
+			status: 'pending',
+			timestamp: Date.now(),
+			resume: true,
+		};
+
+		const path = `${WORKFLOW_QUEUE_DIR}/${runId}.json`;
+		await this.app.vault.adapter.write(path, JSON.stringify(queueItem, null, 2));
+	}
+
 	/**
 	 * Remove item from queue
 	 */
@@ -0,0 +1,247 @@
+/**
+ * WorkflowTriggersSidebar - Edit schedules and vault events that start the workflow
+ */
+
+import type { WorkflowScheduleEntry, WorkflowTrigger, WorkflowTriggerType } from './types';
+import { generateId } from './types';
+
+interface WorkflowTriggersSidebarProps {
+	triggers: WorkflowTrigger[];
+	schedule: WorkflowScheduleEntry | null;
+	onChange: (triggers: WorkflowTrigger[]) => void;
+	onClose: () => void;
+}
+
+const TRIGGER_TYPE_LABELS: Record<WorkflowTriggerType, string> = {
+	schedule: 'On a schedule',
+	file_created: 'Note created in folder',
+	file_modified: 'Note modified in folder',
+	frontmatter_changed: 'Frontmatter field changed',
+	tag_added: 'Tag added',
+};
+
+/**
+ * New trigger of a type, keeping the id and folder when switching types
+ */
+function createTrigger(type: WorkflowTriggerType, previous?: WorkflowTrigger): WorkflowTrigger {
+	const id = previous?.id ?? generateId('trigger');
+	const enabled = previous?.enabled;
+	const folder = previous && 'folder' in previous ? previous.folder : '';
+
+	switch (type) {
+		case 'schedule':
+			return { id, enabled, type, cron: '0 9 * * mon' };
+		case 'file_created':
+		case 'file_modified':
+			return { id, enabled, type, folder };
+		case 'frontmatter_changed':
+			return { id, enabled, type, folder, field: 'status' };
+		case 'tag_added':
+			return { id, enabled, type, folder, tag: '' };
+	}
+}
+
+function formatNextRun(ts: number): string {
+	return new Date(ts).toLocaleString(undefined, {
+		weekday: 'short',
+		month: 'short',
+		day: 'numeric',
+		hour: '2-digit',
+		minute: '2-digit',
+	});
+}
+
+interface TriggerFieldsProps {
+	trigger: WorkflowTrigger;
+	onChange: (trigger: WorkflowTrigger) => void;
+}
+
+function TriggerFields({ trigger, onChange }: TriggerFieldsProps) {
+	if (trigger.type === 'schedule') {
+		return (
+			<div className="spark-workflow-form-group">
+				<label>Cron expression</label>
+				<input
+					type="text"
+					value={trigger.cron}
+					onChange={(e) => onChange({ ...trigger, cron: e.target.value })}
+					placeholder="0 9 * * mon"
+				/>
+				<span className="spark-workflow-form-hint">
+					Minute, hour, day of month, month, day of week (local time). Examples: <code>0 9 * * mon</code>{' '}
+					every Monday at 9:00, <code>*/30 8-18 * * 1-5</code> every 30 minutes on workdays, <code>@daily</code>.
+				</span>
+			</div>
+		);
+	}
+
+	return (
+		<>
+			<div className="spark-workflow-form-group">
+				<label>Folder</label>
+				<input
+					type="text"
+					value={trigger.folder}
+					onChange={(e) => onChange({ ...trigger, folder: e.target.value })}
+					placeholder="Whole vault"
+				/>
+			</div>
+
+			{(trigger.type === 'file_created' || trigger.type === 'file_modified') && (
+				<div className="spark-workflow-form-group">
+					<label>Pattern</label>
+					<input
+						type="text"
+						value={trigger.pattern ?? ''}
+						onChange={(e) => onChange({ ...trigger, pattern: e.target.value || undefined })}
+						placeholder="*.md"
+					/>
+				</div>
+			)}
+
+			{trigger.type === 'frontmatter_changed' && (
+				<>
+					<div className="spark-workflow-form-group">
+						<label>Field</label>
+						<input
+							type="text"
+							value={trigger.field}
+							onChange={(e) => onChange({ ...trigger, field: e.target.value })}
+							placeholder="status"
+						/>
+					</div>
+					<div className="spark-workflow-form-group">
+						<label>From value</label>
+						<input
+							type="text"
+							value={trigger.from ?? ''}
+							onChange={(e) => onChange({ ...trigger, from: e.target.value || undefined })}
+							placeholder="Any"
+						/>
+					</div>
+					<div className="spark-workflow-form-group">
+						<label>To value</label>
+						<input
+							type="text"
+							value={trigger.to ?? ''}
+							onChange={(e) => onChange({ ...trigger, to: e.target.value || undefined })}
+							placeholder="Any"
+						/>
+					</div>
+				</>
+			)}
+
+			{trigger.type === 'tag_added' && (
+				<div className="spark-workflow-form-group">
+					<label>Tag</label>
+					<input
+						type="text"
+						value={trigger.tag}
+						onChange={(e) => onChange({ ...trigger, tag: e.target.value })}
+						placeholder="#report"
+					/>
+					<span className="spark-workflow-form-hint">Matches tags in the note&apos;s frontmatter.</span>
+				</div>
+			)}
+
+			<span className="spark-workflow-form-hint">
+				The triggering note&apos;s path and content are passed to the run as <code>$input</code>.
+			</span>
+		</>
+	);
+}
+
+export function WorkflowTriggersSidebar({ triggers, schedule, onChange, onClose }: WorkflowTriggersSidebarProps) {
+	const updateTrigger = (index: number, trigger: WorkflowTrigger) => {
+		onChange(triggers.map((t, i) => (i === index ? trigger : t)));
+	};
+
+	const hasSchedule = triggers.some((t) => t.type === 'schedule' && t.enabled !== false);
+
+	return (
+		<div className="spark-workflow-sidebar">
+			<div className="spark-workflow-sidebar-header">
+				<h3>Triggers</h3>
+				<button type="button" className="spark-workflow-sidebar-close" onClick={onClose} aria-label="Close">
+					×
+				</button>
+			</div>
+
+			<div className="spark-workflow-sidebar-content">
+				<div className="spark-workflow-sidebar-section">
+					{triggers.length === 0 && (
+						<p className="spark-workflow-sidebar-empty">
+							No triggers. The workflow only runs when you press Run.
+						</p>
+					)}
+
+					{hasSchedule && (
+						<div className="spark-workflow-trigger-next-run">
+							{schedule?.error ? (
+								<span className="spark-workflow-hint-error">{schedule.error}</span>
+							) : schedule?.nextRun ? (
+								<>Next scheduled run: {formatNextRun(schedule.nextRun)}</>
+							) : (
+								<>Next scheduled run appears once the engine picks up the schedule.</>
+							)}
+						</div>
+					)}
+
+					{triggers.map((trigger, index) => (
+						<div key={trigger.id} className="spark-workflow-trigger">
+							<div className="spark-workflow-form-group">
+								<label>When</label>
+								<select
+									value={trigger.type}
+									onChange={(e) =>
+										updateTrigger(index, createTrigger(e.target.value as WorkflowTriggerType, trigger))
+									}
+								>
+									{(Object.keys(TRIGGER_TYPE_LABELS) as WorkflowTriggerType[]).map((type) => (
+										<option key={type} value={type}>
+											{TRIGGER_TYPE_LABELS[type]}
+										</option>
+									))}
+								</select>
+							</div>
+
+							<TriggerFields trigger={trigger} onChange={(t) => updateTrigger(index, t)} />
+
+							<div className="spark-workflow-trigger-actions">
+								<div className="spark-workflow-form-group spark-workflow-form-checkbox">
+									<label>
+										<input
+											type="checkbox"
+											checked={trigger.enabled !== false}
+											onChange={(e) =>
+												updateTrigger(index, { ...trigger, enabled: e.target.checked ? undefined : false })
+											}
+										/>
+										Enabled
+									</label>
+								</div>
+								<button
+									type="button"
+									className="spark-workflow-btn spark-workflow-btn-danger"
+									onClick={() => onChange(triggers.filter((_, i) => i !== index))}
+								>
+									Remove
+								</button>
+							</div>
+						</div>
+					))}
+
+					<div className="spark-workflow-form-group spark-workflow-form-actions">
+						<button
+							type="button"
+							className="spark-workflow-btn spark-workflow-btn-secondary"
+							onClick={() => onChange([...triggers, createTrigger('schedule')])}
+						>
+							Add trigger
+						</button>
+					</div>
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -21,6 +21,7 @@ export class WorkflowView extends ItemView {
 	private plugin: ISparkPlugin;
 	private workflowId: string | null = null;
 	private workflow: WorkflowDefinition | null = null;
+	private focusedRunId: string | null = null;
 	private storage: WorkflowStorage;
 
 	constructor(leaf: WorkspaceLeaf, plugin: ISparkPlugin) {
@@ -98,6 +99,14 @@ export class WorkflowView extends ItemView {
 		this.app.workspace.requestSaveLayout();
 	}
 
+	/**
+	 * Show a run in the run history (e.g. a sub-workflow run opened from its parent)
+	 */
+	showRun(runId: string): void {
+		this.focusedRunId = runId;
+		this.renderCanvas();
+	}
+
 	/**
 	 * Get current workflow
 	 */
@@ -119,6 +128,7 @@ export class WorkflowView extends ItemView {
 				app={this.app}
 				plugin={this.plugin}
 				workflow={this.workflow}
+				focusedRunId={this.focusedRunId}
 				onWorkflowChange={(workflow) => {
 					this.workflow = workflow;
 					this.workflowId = workflow.id;
@@ -128,6 +138,9 @@ export class WorkflowView extends ItemView {
 				onNavigateToList={() => {
 					void WorkflowManager.getInstance(this.app, this.plugin).showWorkflowList();
 				}}
+				onOpenRun={(workflowId, runId) => {
+					void WorkflowManager.getInstance(this.app, this.plugin).openWorkflow(workflowId, runId);
+				}}
 			/>
 		);
 	}
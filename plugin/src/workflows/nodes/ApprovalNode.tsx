@@ -0,0 +1,38 @@
+/**
+ * ApprovalNode - Waits for a reviewer to approve or reject the upstream output
+ */
+
+import type { ApprovalNodeData, StepStatus } from '../types';
+import { ApprovalHandles, StatusIcon } from './shared';
+
+interface ApprovalNodeProps {
+	data: { type: 'approval'; executionStatus?: StepStatus } & ApprovalNodeData;
+	selected?: boolean;
+}
+
+export function ApprovalNode({ data, selected }: ApprovalNodeProps) {
+	return (
+		<div className={`spark-workflow-node spark-workflow-node-approval ${selected ? 'selected' : ''}`}>
+			<ApprovalHandles />
+			<StatusIcon status={data.executionStatus} />
+			<div className="spark-workflow-node-icon">🙋</div>
+			<div className="spark-workflow-node-content">
+				<div className="spark-workflow-node-label">{data.label}</div>
+				<div className="spark-workflow-node-badges">
+					<div className="spark-workflow-node-badge spark-workflow-node-badge-approval">
+						{data.folder || 'Approvals'}/
+					</div>
+				</div>
+				{data.description && (
+					<div className="spark-workflow-node-description">{data.description}</div>
+				)}
+				{data.instructions && (
+					<div className="spark-workflow-node-preview">
+						{data.instructions.substring(0, 60)}
+						{data.instructions.length > 60 ? '...' : ''}
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
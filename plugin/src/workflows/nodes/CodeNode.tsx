@@ -3,7 +3,7 @@
  */
 
 import type { CodeNodeData, StepStatus } from '../types';
-import { NodeHandles, StatusIcon } from './shared';
+import { NodeHandles, ErrorHandle, PolicyBadge, StatusIcon } from './shared';
 
 interface CodeNodeProps {
 	data: { type: 'code'; executionStatus?: StepStatus } & CodeNodeData;
@@ -14,6 +14,7 @@ export function CodeNode({ data, selected }: CodeNodeProps) {
 	return (
 		<div className={`spark-workflow-node spark-workflow-node-code ${selected ? 'selected' : ''}`}>
 			<NodeHandles />
+			<ErrorHandle policy={data.policy} />
 			<StatusIcon status={data.executionStatus} />
 			<div className="spark-workflow-node-icon">{'</>'}</div>
 			<div className="spark-workflow-node-content">
@@ -21,6 +22,7 @@ export function CodeNode({ data, selected }: CodeNodeProps) {
 				{data.description && (
 					<div className="spark-workflow-node-description">{data.description}</div>
 				)}
+				<PolicyBadge policy={data.policy} />
 				{data.code && (
 					<div className="spark-workflow-node-preview spark-workflow-node-code-preview">
 						{data.code.substring(0, 50)}
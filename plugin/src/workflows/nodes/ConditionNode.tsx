@@ -3,7 +3,7 @@
  */
 
 import type { ConditionNodeData, StepStatus } from '../types';
-import { ConditionHandles, StatusIcon } from './shared';
+import { ConditionHandles, ErrorHandle, PolicyBadge, StatusIcon } from './shared';
 
 interface ConditionNodeProps {
 	data: { type: 'condition'; executionStatus?: StepStatus } & ConditionNodeData;
@@ -14,6 +14,7 @@ export function ConditionNode({ data, selected }: ConditionNodeProps) {
 	return (
 		<div className={`spark-workflow-node spark-workflow-node-condition ${selected ? 'selected' : ''}`}>
 			<ConditionHandles />
+			<ErrorHandle policy={data.policy} />
 			<StatusIcon status={data.executionStatus} />
 			<div className="spark-workflow-node-icon">◇</div>
 			<div className="spark-workflow-node-content">
@@ -30,6 +31,7 @@ export function ConditionNode({ data, selected }: ConditionNodeProps) {
 				{data.maxCycles > 0 && (
 					<div className="spark-workflow-node-badge spark-workflow-node-badge-info">max {data.maxCycles} cycles</div>
 				)}
+				<PolicyBadge policy={data.policy} />
 			</div>
 		</div>
 	);
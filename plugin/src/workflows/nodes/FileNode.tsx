@@ -0,0 +1,59 @@
+/**
+ * FileNode - Vault file step (read, write, append, frontmatter, move)
+ */
+
+import type { FileNodeData, FileOperation, StepStatus } from '../types';
+import { NodeHandles, StatusIcon } from './shared';
+
+interface FileNodeProps {
+	data: { type: 'file'; executionStatus?: StepStatus } & FileNodeData;
+	selected?: boolean;
+}
+
+const OPERATION_ICONS: Record<FileOperation, string> = {
+	read: '📖',
+	write: '📝',
+	append: '➕',
+	frontmatter: '🏷️',
+	move: '📦',
+};
+
+/**
+ * One-line summary of what the step touches
+ */
+function describeTarget(data: FileNodeData): string {
+	if (data.operation === 'move') {
+		return `${data.path} → ${data.destination ?? ''}`;
+	}
+	if (data.operation === 'append' && data.heading) {
+		return `${data.path} # ${data.heading}`;
+	}
+	if (data.operation === 'frontmatter' && data.fields) {
+		return `${data.path} (${Object.keys(data.fields).join(', ')})`;
+	}
+	return data.path;
+}
+
+export function FileNode({ data, selected }: FileNodeProps) {
+	return (
+		<div className={`spark-workflow-node spark-workflow-node-file ${selected ? 'selected' : ''}`}>
+			<NodeHandles />
+			<StatusIcon status={data.executionStatus} />
+			<div className="spark-workflow-node-icon">{OPERATION_ICONS[data.operation] ?? '📄'}</div>
+			<div className="spark-workflow-node-content">
+				<div className="spark-workflow-node-label">{data.label}</div>
+				<div className="spark-workflow-node-badges">
+					<div className="spark-workflow-node-badge spark-workflow-node-badge-file">{data.operation}</div>
+				</div>
+				{data.description && (
+					<div className="spark-workflow-node-description">{data.description}</div>
+				)}
+				{data.path && (
+					<div className="spark-workflow-node-preview spark-workflow-node-code-preview">
+						{describeTarget(data)}
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,30 @@
+/**
+ * JoinNode - Waits for parallel branches and combines their outputs
+ */
+
+import type { JoinNodeData, StepStatus } from '../types';
+import { NodeHandles, StatusIcon } from './shared';
+
+interface JoinNodeProps {
+	data: { type: 'join'; executionStatus?: StepStatus } & JoinNodeData;
+	selected?: boolean;
+}
+
+export function JoinNode({ data, selected }: JoinNodeProps) {
+	const waitFor = data.mode === 'any' ? `first ${data.count ?? 1}` : 'all branches';
+
+	return (
+		<div className={`spark-workflow-node spark-workflow-node-join ${selected ? 'selected' : ''}`}>
+			<NodeHandles />
+			<StatusIcon status={data.executionStatus} />
+			<div className="spark-workflow-node-icon">⋈</div>
+			<div className="spark-workflow-node-content">
+				<div className="spark-workflow-node-label">{data.label}</div>
+				{data.description && (
+					<div className="spark-workflow-node-description">{data.description}</div>
+				)}
+				<div className="spark-workflow-node-badge spark-workflow-node-badge-info">waits for {waitFor}</div>
+			</div>
+		</div>
+	);
+}
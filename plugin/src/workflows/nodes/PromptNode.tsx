@@ -3,7 +3,7 @@
  */
 
 import type { PromptNodeData, StepStatus } from '../types';
-import { NodeHandles, StatusIcon } from './shared';
+import { NodeHandles, ErrorHandle, PolicyBadge, StatusIcon } from './shared';
 
 interface PromptNodeProps {
 	data: { type: 'prompt'; executionStatus?: StepStatus } & PromptNodeData;
@@ -25,6 +25,7 @@ export function PromptNode({ data, selected }: PromptNodeProps) {
 	return (
 		<div className={`spark-workflow-node spark-workflow-node-prompt ${selected ? 'selected' : ''}`}>
 			<NodeHandles />
+			<ErrorHandle policy={data.policy} />
 			<StatusIcon status={data.executionStatus} />
 			<div className="spark-workflow-node-icon">{hasAgent ? '🤖' : '💬'}</div>
 			<div className="spark-workflow-node-content">
@@ -36,6 +37,7 @@ export function PromptNode({ data, selected }: PromptNodeProps) {
 					{data.structuredOutput && (
 						<div className="spark-workflow-node-badge spark-workflow-node-badge-format">JSON</div>
 					)}
+					<PolicyBadge policy={data.policy} />
 				</div>
 				{data.description && (
 					<div className="spark-workflow-node-description">{data.description}</div>
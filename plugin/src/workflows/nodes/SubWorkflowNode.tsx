@@ -0,0 +1,38 @@
+/**
+ * SubWorkflowNode - Runs another workflow as a single step
+ */
+
+import type { StepStatus, SubWorkflowNodeData } from '../types';
+import { NodeHandles, StatusIcon } from './shared';
+
+interface SubWorkflowNodeProps {
+	data: { type: 'workflow'; executionStatus?: StepStatus } & SubWorkflowNodeData;
+	selected?: boolean;
+}
+
+export function SubWorkflowNode({ data, selected }: SubWorkflowNodeProps) {
+	return (
+		<div className={`spark-workflow-node spark-workflow-node-workflow ${selected ? 'selected' : ''}`}>
+			<NodeHandles />
+			<StatusIcon status={data.executionStatus} />
+			<div className="spark-workflow-node-icon">↪</div>
+			<div className="spark-workflow-node-content">
+				<div className="spark-workflow-node-label">{data.label}</div>
+				<div className="spark-workflow-node-badges">
+					<div className="spark-workflow-node-badge spark-workflow-node-badge-workflow">
+						{data.workflowId ? 'sub-workflow' : 'no workflow selected'}
+					</div>
+				</div>
+				{data.description && (
+					<div className="spark-workflow-node-description">{data.description}</div>
+				)}
+				{data.inputMapping && (
+					<div className="spark-workflow-node-preview spark-workflow-node-code-preview">
+						{data.inputMapping.substring(0, 40)}
+						{data.inputMapping.length > 40 ? '...' : ''}
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -2,6 +2,10 @@
  * Node components index
  */
 
+export { ApprovalNode } from './ApprovalNode';
 export { CodeNode } from './CodeNode';
 export { ConditionNode } from './ConditionNode';
+export { FileNode } from './FileNode';
+export { JoinNode } from './JoinNode';
 export { PromptNode } from './PromptNode';
+export { SubWorkflowNode } from './SubWorkflowNode';
@@ -3,7 +3,7 @@
  */
 
 import { Handle, Position } from '@xyflow/react';
-import type { StepStatus } from '../types';
+import type { StepPolicy, StepStatus } from '../types';
 
 /**
  * Spinning loader SVG for running status
@@ -50,6 +50,8 @@ export function StatusIcon({ status }: { status?: StepStatus }) {
 		completed: { icon: '✓', className: 'status-completed' },
 		failed: { icon: '✗', className: 'status-failed' },
 		skipped: { icon: '−', className: 'status-skipped' },
+		waiting: { icon: '⏸', className: 'status-waiting' },
+		cancelled: { icon: '⦸', className: 'status-cancelled' },
 	};
 
 	const { icon, className } = icons[status] || { icon: '', className: '' };
@@ -176,3 +178,91 @@ export function ConditionHandles() {
 		</>
 	);
 }
+
+/**
+ * Handles for approval nodes with approved/rejected branches
+ * Inputs on left/top/bottom, decision outputs on right
+ */
+export function ApprovalHandles() {
+	return (
+		<>
+			<Handle
+				type="target"
+				position={Position.Left}
+				id="left-in"
+				className="spark-workflow-handle"
+			/>
+			<Handle
+				type="target"
+				position={Position.Top}
+				id="top-in"
+				className="spark-workflow-handle spark-workflow-handle-secondary"
+			/>
+			<Handle
+				type="target"
+				position={Position.Bottom}
+				id="bottom-in"
+				className="spark-workflow-handle spark-workflow-handle-secondary"
+			/>
+
+			{/* Approved branch output (green) with label */}
+			<div className="spark-workflow-handle-label spark-workflow-handle-label-true" style={{ top: '30%' }}>
+				✓
+			</div>
+			<Handle
+				type="source"
+				position={Position.Right}
+				id="approved"
+				className="spark-workflow-handle spark-workflow-handle-true"
+				style={{ top: '30%' }}
+			/>
+
+			{/* Rejected branch output (red) with label */}
+			<div className="spark-workflow-handle-label spark-workflow-handle-label-false" style={{ top: '70%' }}>
+				✗
+			</div>
+			<Handle
+				type="source"
+				position={Position.Right}
+				id="rejected"
+				className="spark-workflow-handle spark-workflow-handle-false"
+				style={{ top: '70%' }}
+			/>
+		</>
+	);
+}
+
+/**
+ * Output for the "error" edges of a step whose policy branches on failure
+ * Sits at the bottom right, next to the regular bottom handle
+ */
+export function ErrorHandle({ policy }: { policy?: StepPolicy }) {
+	if (policy?.onError !== 'branch') return null;
+
+	return (
+		<>
+			<div className="spark-workflow-handle-label spark-workflow-handle-label-error" style={{ left: '80%' }}>
+				!
+			</div>
+			<Handle
+				type="source"
+				position={Position.Bottom}
+				id="error"
+				className="spark-workflow-handle spark-workflow-handle-error"
+				style={{ left: '80%' }}
+			/>
+		</>
+	);
+}
+
+/**
+ * Badge summarising a step's retry and timeout settings
+ */
+export function PolicyBadge({ policy }: { policy?: StepPolicy }) {
+	const parts: string[] = [];
+	if (policy?.maxRetries) parts.push(`retry ×${policy.maxRetries}`);
+	if (policy?.timeoutMs) parts.push(`${policy.timeoutMs / 1000}s limit`);
+	if (parts.length === 0) return null;
+
+	return <div className="spark-workflow-node-badge spark-workflow-node-badge-info">{parts.join(' · ')}</div>;
+}
@@ -6,13 +6,38 @@
 import type { Edge } from '@xyflow/react';
 
 // Step types available in workflows
-export type StepType = 'action' | 'prompt' | 'code' | 'condition';
+export type StepType =
+	| 'action'
+	| 'prompt'
+	| 'code'
+	| 'condition'
+	| 'file'
+	| 'join'
+	| 'approval'
+	| 'workflow';
 
 // Step status during execution
-export type StepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+export type StepStatus =
+	| 'pending'
+	| 'running'
+	| 'waiting'
+	| 'completed'
+	| 'failed'
+	| 'skipped'
+	| 'cancelled';
 
 // Workflow execution status
-export type WorkflowStatus = 'idle' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type WorkflowStatus =
+	| 'idle'
+	| 'running'
+	| 'waiting'
+	| 'completed'
+	| 'failed'
+	| 'cancelled'
+	| 'paused';
+
+// Stop request for a run, written into the run's queue item
+export type WorkflowRunControl = 'cancel' | 'pause';
 
 /**
  * Base data for all node types
@@ -23,6 +48,20 @@ export interface BaseNodeData extends Record<string, unknown> {
 	description?: string;
 }
 
+// What a step does once it failed and has no retries left:
+// fail the run, pass null on along its normal edges, or follow its "error" edges
+export type StepErrorMode = 'fail' | 'continue' | 'branch';
+
+/**
+ * Retry, timeout and error handling for prompt, code and condition steps
+ */
+export interface StepPolicy {
+	maxRetries?: number; // Further attempts after a failed one (default 0)
+	retryDelayMs?: number; // Wait before the first retry, doubled for each one after it (default 1000)
+	timeoutMs?: number; // Time limit per attempt (default: none for prompts, 5s for code, 1s for conditions)
+	onError?: StepErrorMode; // Default "fail"
+}
+
 /**
  * Prompt step data
  * Agent is specified via @agent mention in the prompt text
@@ -33,6 +72,7 @@ export interface PromptNodeData extends BaseNodeData {
 	structuredOutput?: boolean;
 	/** JSON example/schema the agent must output (required when structuredOutput is true) */
 	outputSchema?: string;
+	policy?: StepPolicy;
 }
 
 /**
@@ -40,6 +80,7 @@ export interface PromptNodeData extends BaseNodeData {
  */
 export interface CodeNodeData extends BaseNodeData {
 	code: string; // JavaScript code to execute
+	policy?: StepPolicy;
 }
 
 /**
@@ -48,6 +89,57 @@ export interface CodeNodeData extends BaseNodeData {
 export interface ConditionNodeData extends BaseNodeData {
 	expression: string; // JavaScript expression to evaluate
 	maxCycles: number; // Max times this node can be visited in loops
+	policy?: StepPolicy;
+}
+
+/**
+ * Vault file operations available to file steps
+ */
+export type FileOperation = 'read' | 'write' | 'append' | 'frontmatter' | 'move';
+
+/**
+ * File step data
+ * Paths are vault-relative and support $input / $input.field templating
+ */
+export interface FileNodeData extends BaseNodeData {
+	operation: FileOperation;
+	path: string; // Note, or for read also a folder ("Inbox/") or glob
+	content?: string; // write/append: text to write
+	template?: string; // write: template note used when content is empty
+	overwrite?: boolean; // write: replace an existing note
+	heading?: string; // append: heading to append under
+	fields?: Record<string, string>; // frontmatter: fields to set
+	destination?: string; // move: new path, or folder ending in "/"
+}
+
+/**
+ * Join step data
+ * Waits for incoming branches and passes their outputs on, keyed by step label
+ */
+export interface JoinNodeData extends BaseNodeData {
+	mode: 'all' | 'any'; // Wait for every branch, or only the first `count`
+	count?: number; // Branches to wait for in "any" mode (default 1)
+}
+
+/**
+ * Approval step data
+ * Writes a review note with the upstream output and waits for the reviewer's decision
+ */
+export interface ApprovalNodeData extends BaseNodeData {
+	instructions?: string; // Shown to the reviewer in the note
+	folder?: string; // Vault folder for review notes (default "Approvals")
+}
+
+// Reviewer decision, also the source handle the run continues from
+export type ApprovalDecision = 'approved' | 'rejected';
+
+/**
+ * Sub-workflow step data
+ * Runs another workflow and passes its output on
+ */
+export interface SubWorkflowNodeData extends BaseNodeData {
+	workflowId: string; // Workflow to run
+	inputMapping?: string; // JavaScript expression building its input from `input`
 }
 
 /**
@@ -62,7 +154,11 @@ export type WorkflowNodeData =
 	| ({ type: 'action' } & ActionNodeData)
 	| ({ type: 'prompt' } & PromptNodeData)
 	| ({ type: 'code' } & CodeNodeData)
-	| ({ type: 'condition' } & ConditionNodeData);
+	| ({ type: 'condition' } & ConditionNodeData)
+	| ({ type: 'file' } & FileNodeData)
+	| ({ type: 'join' } & JoinNodeData)
+	| ({ type: 'approval' } & ApprovalNodeData)
+	| ({ type: 'workflow' } & SubWorkflowNodeData);
 
 /**
  * Workflow node with typed data
@@ -79,14 +175,80 @@ export interface WorkflowNode {
  * Workflow edge with optional label for conditions
  */
 export interface WorkflowEdge extends Edge {
-	label?: string; // 'true' | 'false' for condition branches
+	label?: string; // 'true' | 'false' for condition branches, 'approved' | 'rejected' for approvals
 }
 
 /**
  * Workflow settings
  * Note: Global limits (maxGlobalCycles, timeout) removed - will be user-configurable later
  */
-export type WorkflowSettings = Record<string, never>;
+export interface WorkflowSettings {
+	maxParallelSteps?: number; // Steps of one run executing at the same time (engine default 4)
+}
+
+/**
+ * Base fields for workflow triggers
+ */
+export interface WorkflowTriggerBase {
+	id: string;
+	enabled?: boolean; // Default: enabled
+}
+
+/**
+ * Run on a cron schedule (minute hour day-of-month month day-of-week, local time)
+ */
+export interface ScheduleTrigger extends WorkflowTriggerBase {
+	type: 'schedule';
+	cron: string;
+}
+
+/**
+ * Run when a note is created or modified in a folder
+ */
+export interface FileTrigger extends WorkflowTriggerBase {
+	type: 'file_created' | 'file_modified';
+	folder: string;
+	pattern?: string; // Optional glob within the folder, e.g. "*.md"
+}
+
+/**
+ * Run when a frontmatter field of a note in a folder changes
+ */
+export interface FrontmatterTrigger extends WorkflowTriggerBase {
+	type: 'frontmatter_changed';
+	folder: string;
+	field: string;
+	from?: string;
+	to?: string;
+}
+
+/**
+ * Run when a tag is added to the frontmatter tags of a note in a folder
+ */
+export interface TagTrigger extends WorkflowTriggerBase {
+	type: 'tag_added';
+	folder: string;
+	tag: string;
+}
+
+export type WorkflowTrigger = ScheduleTrigger | FileTrigger | FrontmatterTrigger | TagTrigger;
+
+export type WorkflowTriggerType = WorkflowTrigger['type'];
+
+export type WorkflowInputType = 'text' | 'number' | 'file' | 'folder' | 'agent' | 'enum';
+
+/**
+ * Field of a workflow's run input, asked for when the workflow is run by hand
+ */
+export interface WorkflowInputField {
+	name: string; // Key in $input
+	type: WorkflowInputType;
+	label?: string;
+	description?: string;
+	required?: boolean;
+	default?: string | number;
+	options?: string[]; // Enum fields: the allowed values
+}
 
 /**
  * Workflow definition (stored in .spark/workflows/{id}.json)
@@ -95,14 +257,32 @@ export interface WorkflowDefinition {
 	id: string;
 	name: string;
 	description?: string;
-	version: number;
+	version: number; // Incremented on every change; earlier versions are kept in .spark/workflows/.history/{id}/
 	nodes: WorkflowNode[];
 	edges: WorkflowEdge[];
 	settings: WorkflowSettings;
+	triggers?: WorkflowTrigger[]; // Evaluated by the engine
+	inputs?: WorkflowInputField[]; // Checked by the plugin and the engine; not for trigger runs
 	created: string; // ISO timestamp
 	updated: string; // ISO timestamp
 }
 
+/**
+ * What saved a workflow version
+ */
+export type WorkflowHistorySource = 'editor' | 'generated' | 'restored' | 'imported' | 'duplicated';
+
+/**
+ * Saved version of a workflow (stored in .spark/workflows/.history/{id}/{version}.json)
+ */
+export interface WorkflowHistoryEntry {
+	version: number;
+	savedAt: string; // ISO timestamp
+	source: WorkflowHistorySource;
+	restoredFrom?: number; // Restored versions: the version they were restored from
+	workflow: WorkflowDefinition;
+}
+
 /**
  * Step execution result
  */
@@ -115,6 +295,11 @@ export interface StepResult {
 	startTime: number;
 	endTime?: number;
 	cycleCount?: number; // For loop detection
+	reviewNote?: string; // Approval steps: vault path of the review note
+	decision?: ApprovalDecision; // Approval steps: set once the reviewer decided
+	childRun?: WorkflowRunLink; // Sub-workflow steps: the run they started
+	attempts?: number; // Attempts made, when the step was retried
+	errorHandled?: Exclude<StepErrorMode, 'fail'>; // Failed, but its policy let the run go on
 }
 
 /**
@@ -131,6 +316,47 @@ export interface WorkflowRun {
 	startTime: number;
 	endTime?: number;
 	totalCycles: number;
+	trigger?: WorkflowRunTrigger; // Absent for manual runs
+	checkpoint?: WorkflowRunCheckpoint; // Engine state for resuming; absent once completed
+	parent?: WorkflowRunLink & { nodeId: string }; // Sub-workflow runs: the run and step that started them
+	workflowVersion?: number; // Definition version the run executed (the latest one, for resumed runs)
+}
+
+/**
+ * Reference to a run of another workflow
+ */
+export interface WorkflowRunLink {
+	workflowId: string;
+	runId: string;
+}
+
+/**
+ * Saved execution context of an unfinished run (engine-written)
+ */
+export interface WorkflowRunCheckpoint {
+	stepOutputs: Array<[string, unknown]>;
+	visitCounts: Array<[string, number]>;
+	totalCycles: number;
+	joinArrivals: Array<{ nodeId: string; outputs: Array<[string, unknown]>; fired: boolean }>;
+	pending: PendingStep[]; // Steps a resume picks up from
+}
+
+/**
+ * A step that had not finished when the run stopped
+ */
+export interface PendingStep {
+	nodeId: string;
+	fromNodeId?: string;
+	input?: unknown;
+	visitCount?: number;
+}
+
+/**
+ * Trigger that queued a run
+ */
+export interface WorkflowRunTrigger {
+	id: string;
+	type: WorkflowTriggerType;
 }
 
 /**
@@ -142,6 +368,9 @@ export interface WorkflowQueueItem {
 	status: 'pending' | 'processing';
 	input?: unknown;
 	timestamp: number;
+	trigger?: WorkflowRunTrigger;
+	resume?: boolean; // Continue the run from its checkpoint
+	control?: WorkflowRunControl; // Stop a run: cancel aborts in-flight steps, pause lets them finish
 }
 
 /**
@@ -216,10 +445,59 @@ export interface WorkflowRunsIndex {
 	workflows: Record<string, WorkflowLastRunSummary>;
 }
 
+/**
+ * Workflow schedule index (stored in .spark/workflow-runs/schedule.json)
+ * Engine-maintained next scheduled run per workflow.
+ */
+export interface WorkflowScheduleEntry {
+	nextRun: number | null;
+	error?: string; // Invalid cron expression
+}
+
+export interface WorkflowScheduleIndex {
+	version: 1;
+	updatedAt: number;
+	workflows: Record<string, WorkflowScheduleEntry>;
+}
+
+/**
+ * Portable workflow bundle (exported to the vault as {name}.workflow.json)
+ * Holds a workflow, the sub-workflows it calls and the agents and commands its prompts mention
+ */
+export interface WorkflowBundleManifest {
+	format: 'spark-workflow-bundle';
+	version: number; // Bundle format version
+	exportedAt: string; // ISO timestamp
+	workflowId: string; // The exported workflow; the others are its sub-workflows
+	workflows: string[];
+	agents: string[];
+	commands: string[];
+}
+
+export interface WorkflowBundle {
+	manifest: WorkflowBundleManifest;
+	workflows: WorkflowDefinition[];
+	agents: Record<string, string>; // Agent name → content of .spark/agents/{name}.md
+	commands: Record<string, string>; // Command name → content of .spark/commands/{name}.md
+}
+
+/**
+ * What importing a bundle changed to avoid clashes with the vault
+ */
+export interface WorkflowImportResult {
+	workflow: WorkflowDefinition; // The imported copy of the exported workflow
+	workflows: WorkflowDefinition[];
+	renamedWorkflows: Record<string, string>; // Bundle id → new id
+	renamedAgents: Record<string, string>;
+	renamedCommands: Record<string, string>;
+	addedAgents: string[];
+	addedCommands: string[];
+}
+
 /**
  * Sidebar tab types
  */
-export type SidebarTab = 'properties' | 'prompt' | 'code' | 'runs';
+export type SidebarTab = 'properties' | 'prompt' | 'code' | 'file' | 'runs';
 
 /**
  * Canvas context for child components